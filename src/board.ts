@@ -1,9 +1,13 @@
 import { mkdir } from "node:fs/promises";
 import { dirname } from "node:path";
-import type { Task } from "./types/index.ts";
+import { formatWipLabel, getColumnWipState, getWipLimit } from "./core/wip-limits.ts";
+import type { Task, WipLimitsConfig } from "./types/index.ts";
+import { stripTaskPrefix } from "./utils/task-prefix.ts";
 
 export interface BoardOptions {
 	statuses?: string[];
+	/** Show column load against these limits in the header row */
+	wipLimits?: WipLimitsConfig;
 }
 
 export type BoardLayout = "horizontal" | "vertical";
@@ -64,7 +68,12 @@ export function buildKanbanStatusGroups(
 	return { orderedStatuses, groupedTasks };
 }
 
-export function generateKanbanBoardWithMetadata(tasks: Task[], statuses: string[], projectName: string): string {
+export function generateKanbanBoardWithMetadata(
+	tasks: Task[],
+	statuses: string[],
+	projectName: string,
+	options: BoardOptions = {},
+): string {
 	// Generate timestamp
 	const now = new Date();
 	const timestamp = now.toISOString().replace("T", " ").substring(0, 19);
@@ -84,7 +93,16 @@ Project: ${projectName}
 	}
 
 	// Create table header
-	const headerRow = `| ${orderedStatuses.map((status) => status || "No Status").join(" | ")} |`;
+	const headerRow = `| ${orderedStatuses
+		.map((status) => {
+			if (!status) return "No Status";
+			const limit = getWipLimit(options.wipLimits, status);
+			if (!limit) return status;
+			const state = getColumnWipState(groupedTasks.get(status) ?? [], limit);
+			const overLimit = state.overLimit || state.overloadedAssignees.length > 0;
+			return `${formatWipLabel(status, state)}${overLimit ? " ⚠️" : ""}`;
+		})
+		.join(" | ")} |`;
 	const separatorRow = `| ${orderedStatuses.map(() => "---").join(" | ")} |`;
 
 	// Map for quick lookup by id
@@ -105,8 +123,8 @@ Project: ${projectName}
 				return dateB - dateA; // Newest first
 			}
 			// Secondary sort: ID descending when dates are equal
-			const idA = Number.parseInt(a.id.replace("task-", ""), 10);
-			const idB = Number.parseInt(b.id.replace("task-", ""), 10);
+			const idA = Number.parseInt(stripTaskPrefix(a.id), 10);
+			const idB = Number.parseInt(stripTaskPrefix(b.id), 10);
 			return idB - idA; // Highest ID first (newest)
 		});
 
@@ -130,8 +148,8 @@ Project: ${projectName}
 			result.push(t);
 			const subs = children.get(t.id) || [];
 			subs.sort((a, b) => {
-				const idA = Number.parseInt(a.id.replace("task-", ""), 10);
-				const idB = Number.parseInt(b.id.replace("task-", ""), 10);
+				const idA = Number.parseInt(stripTaskPrefix(a.id), 10);
+				const idB = Number.parseInt(stripTaskPrefix(b.id), 10);
 				return idA - idB; // Subtasks in ascending order
 			});
 			result.push(...subs);
@@ -261,8 +279,9 @@ export async function exportKanbanBoardToFile(
 	filePath: string,
 	projectName: string,
 	_overwrite = false,
+	options: BoardOptions = {},
 ): Promise<void> {
-	const board = generateKanbanBoardWithMetadata(tasks, statuses, projectName);
+	const board = generateKanbanBoardWithMetadata(tasks, statuses, projectName, options);
 
 	// Ensure directory exists
 	try {
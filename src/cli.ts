@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { basename, join } from "node:path";
+import { basename, join, resolve } from "node:path";
 import { stdin as input, stdout as output } from "node:process";
 import { createInterface } from "node:readline/promises";
 import { $, spawn } from "bun";
@@ -11,9 +11,71 @@ import { type CompletionInstallResult, installCompletion, registerCompletionComm
 import { configureAdvancedSettings } from "./commands/configure-advanced-settings.ts";
 import { registerMcpCommand } from "./commands/mcp.ts";
 import { DEFAULT_DIRECTORIES } from "./constants/index.ts";
+import { formatAssetReport, isImageAsset } from "./core/assets.ts";
+import {
+	BulkEditError,
+	formatBulkEditPreview,
+	formatBulkEditResults,
+	isEmptyUpdate,
+	parseBulkSetAssignments,
+} from "./core/bulk-edit.ts";
+import { formatCommentThreads } from "./core/comments.ts";
+import { formatCriticalPathReport } from "./core/critical-path.ts";
+import { findCustomField, parseCustomFieldAssignments, sortTasksByCustomField } from "./core/custom-fields.ts";
+import { formatDueLabel, getTodayInTimezone, normalizeTaskDate } from "./core/due-dates.ts";
+import {
+	convertExternalExport,
+	EXTERNAL_SOURCES,
+	type ExternalSource,
+	formatImportReport,
+	type ImportMapping,
+	parseImportMapping,
+} from "./core/external-import.ts";
+import { formatIdMigrationPlan, IdMigrationError } from "./core/id-migration.ts";
 import { initializeProject } from "./core/init.ts";
+import { formatJournalEntries, JournalError } from "./core/journal.ts";
+import { isDoneStatus } from "./core/milestones.ts";
+import { isTaskRelationKind, TASK_RELATION_KINDS } from "./core/relations.ts";
+import { formatRestoreResult, RestoreError } from "./core/restore.ts";
 import { computeSequences } from "./core/sequences.ts";
+import { buildSubtaskProgress, buildTaskTree, formatTaskTree } from "./core/subtask-tree.ts";
+import { compileTaskQuery } from "./core/task-query.ts";
+import {
+	EXPORT_FIELDS,
+	EXPORT_SOURCES,
+	type ExportField,
+	type ExportSource,
+	type ImportedTaskResult,
+	isExportField,
+	isExportSource,
+	mapImportRecords,
+	parseImportFieldMap,
+	parseImportRecords,
+	resolveTransferFormat,
+	TRANSFER_FORMATS,
+} from "./core/task-transfer.ts";
+import { getTaskEffort } from "./core/time-tracking.ts";
+import { TransitionError } from "./core/transitions.ts";
+import { WipLimitError } from "./core/wip-limits.ts";
+import {
+	FLOW_GROUPINGS,
+	type FlowGrouping,
+	formatFlowStatisticsPlainText,
+} from "./formatters/flow-stats-plain-text.ts";
+import {
+	formatJsonOutput,
+	formatNdjsonOutput,
+	type JsonOutputKind,
+	serializeBoard,
+	serializeConfig,
+	serializeCriticalPath,
+	serializeDocument,
+	serializeSearchResult,
+	serializeSequences,
+	serializeTask,
+} from "./formatters/json-output.ts";
 import { formatTaskPlainText } from "./formatters/task-plain-text.ts";
+import { describeSavedView, formatViewPlainText } from "./formatters/view-plain-text.ts";
 import {
 	type AgentInstructionFile,
 	addAgentInstructions,
@@ -33,12 +95,17 @@ import {
 	type Document as DocType,
 	type DocumentSearchResult,
 	isLocalEditableTask,
+	type SavedView,
 	type SearchPriorityFilter,
 	type SearchResult,
 	type SearchResultType,
 	type Task,
+	type TaskCreateInput,
 	type TaskListFilter,
+	type TaskRelationKind,
+	type TaskRelationType,
 	type TaskSearchResult,
+	type TaskUpdateInput,
 } from "./types/index.ts";
 import type { TaskEditArgs } from "./types/task-edit-args.ts";
 import { genericSelectList } from "./ui/components/generic-list.ts";
@@ -46,11 +113,18 @@ import { createLoadingScreen } from "./ui/loading.ts";
 import { viewTaskEnhanced } from "./ui/task-viewer-with-search.ts";
 import { promptText, scrollableViewer } from "./ui/tui.ts";
 import { type AgentSelectionValue, PLACEHOLDER_AGENT_VALUE, processAgentSelection } from "./utils/agent-selection.ts";
+import { formatDuration, parseDuration } from "./utils/duration.ts";
 import { findBacklogRoot } from "./utils/find-backlog-root.ts";
 import { formatValidStatuses, getCanonicalStatus, getValidStatuses } from "./utils/status.ts";
-import { parsePositiveIndexList, processAcceptanceCriteriaOptions, toStringArray } from "./utils/task-builders.ts";
+import {
+	parsePositiveIndexList,
+	processAcceptanceCriteriaOptions,
+	resolveDefaultAuthor,
+	toStringArray,
+} from "./utils/task-builders.ts";
 import { buildTaskUpdateInput } from "./utils/task-edit-builder.ts";
 import { normalizeTaskId, taskIdsEqual } from "./utils/task-path.ts";
+import { DEFAULT_TASK_PREFIX, isTaskId, resolveTaskPrefix } from "./utils/task-prefix.ts";
 import { sortTasks } from "./utils/task-sorting.ts";
 import { getVersion } from "./utils/version.ts";
 
@@ -145,6 +219,31 @@ function createMultiValueAccumulator() {
 	};
 }
 
+type StructuredOutput = "json" | "ndjson";
+
+// Also read from argv: bun compile drops commander boolean options (same workaround as --plain)
+function getStructuredOutput(options: { json?: boolean; ndjson?: boolean } | undefined): StructuredOutput | null {
+	if (options?.ndjson || process.argv.includes("--ndjson")) return "ndjson";
+	if (options?.json || process.argv.includes("--json")) return "json";
+	return null;
+}
+
+/**
+ * Print a list as one JSON document, or with --ndjson as one line per item
+ */
+function printStructuredList<T>(
+	mode: StructuredOutput,
+	listKind: JsonOutputKind,
+	itemKind: JsonOutputKind,
+	items: T[],
+) {
+	if (mode === "json") {
+		console.log(formatJsonOutput(listKind, items));
+	} else if (items.length > 0) {
+		console.log(formatNdjsonOutput(itemKind, items));
+	}
+}
+
 // Helper function to process multiple AC operations
 /**
  * Processes --ac and --acceptance-criteria options to extract acceptance criteria
@@ -1104,14 +1203,21 @@ export async function generateNextDecisionId(core: Core): Promise<string> {
 	return `decision-${nextIdNumber}`;
 }
 
-function normalizeDependencies(dependencies: unknown): string[] {
+/** Warnings that came with a change, e.g. a WIP limit it exceeds; on stderr so --plain output stays clean */
+function printWarnings(warnings: string[]): void {
+	for (const warning of warnings) {
+		console.warn(`Warning: ${warning}`);
+	}
+}
+
+function normalizeDependencies(dependencies: unknown, prefix: string): string[] {
 	if (!dependencies) return [];
 
 	const normalizeList = (values: string[]): string[] =>
 		values
 			.map((value) => value.trim())
 			.filter((value): value is string => value.length > 0)
-			.map((value) => normalizeTaskId(value));
+			.map((value) => normalizeTaskId(value, prefix));
 
 	if (Array.isArray(dependencies)) {
 		return normalizeList(
@@ -1126,41 +1232,14 @@ function normalizeDependencies(dependencies: unknown): string[] {
 	return normalizeList(String(dependencies).split(","));
 }
 
-async function validateDependencies(
-	dependencies: string[],
-	core: Core,
-): Promise<{ valid: string[]; invalid: string[] }> {
-	const valid: string[] = [];
-	const invalid: string[] = [];
-
-	if (dependencies.length === 0) {
-		return { valid, invalid };
-	}
-
-	// Load both tasks and drafts to validate dependencies
-	const [tasks, drafts] = await Promise.all([core.queryTasks(), core.fs.listDrafts()]);
-
-	const knownIds = [...tasks.map((task) => task.id), ...drafts.map((draft) => draft.id)];
-	for (const dep of dependencies) {
-		const match = knownIds.find((id) => taskIdsEqual(dep, id));
-		if (match) {
-			valid.push(match);
-		} else {
-			invalid.push(dep);
-		}
-	}
-
-	return { valid, invalid };
-}
-
-function buildTaskFromOptions(id: string, title: string, options: Record<string, unknown>): Task {
+function buildTaskFromOptions(id: string, title: string, options: Record<string, unknown>, prefix: string): Task {
 	const parentInput = options.parent ? String(options.parent) : undefined;
-	const normalizedParent = parentInput ? normalizeTaskId(parentInput) : undefined;
+	const normalizedParent = parentInput ? normalizeTaskId(parentInput, prefix) : undefined;
 
 	const createdDate = new Date().toISOString().slice(0, 16).replace("T", " ");
 
 	// Handle dependencies - they will be validated separately
-	const dependencies = normalizeDependencies(options.dependsOn || options.dep);
+	const dependencies = normalizeDependencies(options.dependsOn || options.dep, prefix);
 
 	// Validate priority option
 	const priority = options.priority ? String(options.priority).toLowerCase() : undefined;
@@ -1191,7 +1270,7 @@ function buildTaskFromOptions(id: string, title: string, options: Record<string,
 const taskCmd = program.command("task").aliases(["tasks"]);
 
 taskCmd
-	.command("create <title>")
+	.command("create [title]")
 	.option(
 		"-d, --description <text>",
 		"task description (multi-line: bash $'Line1\\nLine2', POSIX printf, PowerShell \"Line1`nLine2\")",
@@ -1210,7 +1289,16 @@ taskCmd
 	)
 	.option("--plan <text>", "add implementation plan")
 	.option("--notes <text>", "add implementation notes")
+	.option("--estimate <duration>", "set effort estimate (e.g. 4h, 1d)")
+	.option("--start <date>", "set start date (YYYY-MM-DD)")
+	.option("--due <date>", "set due date (YYYY-MM-DD or YYYY-MM-DD HH:mm)")
+	.option(
+		"--field <name=value>",
+		"set a custom field from config (can be used multiple times)",
+		createMultiValueAccumulator(),
+	)
 	.option("--draft")
+	.option("-t, --template <name>", "start from backlog/templates/<name>.md; labels and --ac add to the template's")
 	.option("-p, --parent <taskId>", "specify parent task ID")
 	.option(
 		"--depends-on <taskIds>",
@@ -1224,75 +1312,54 @@ taskCmd
 		const soFar = Array.isArray(previous) ? previous : previous ? [previous] : [];
 		return [...soFar, value];
 	})
-	.action(async (title: string, options) => {
+	.action(async (title: string | undefined, options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
 		await core.ensureConfigLoaded();
-		const id = await core.generateNextId(options.parent);
-		const task = buildTaskFromOptions(id, title, options);
-
-		// Normalize and validate status if provided (case-insensitive)
-		if (options.status) {
-			const canonical = await getCanonicalStatus(String(options.status), core);
-			if (!canonical) {
-				const configuredStatuses = await getValidStatuses(core);
-				console.error(
-					`Invalid status: ${options.status}. Valid statuses are: ${formatValidStatuses(configuredStatuses)}`,
-				);
-				process.exitCode = 1;
-				return;
-			}
-			task.status = canonical;
-		}
-
-		// Validate dependencies if provided
-		if (task.dependencies.length > 0) {
-			const { valid, invalid } = await validateDependencies(task.dependencies, core);
-			if (invalid.length > 0) {
-				console.error(`Error: The following dependencies do not exist: ${invalid.join(", ")}`);
-				console.error("Please create these tasks first or check the task IDs.");
-				process.exitCode = 1;
-				return;
-			}
-			task.dependencies = valid;
-		}
-
-		// Handle acceptance criteria for create command (structured only)
-		const criteria = processAcceptanceCriteriaOptions(options);
-		if (criteria.length > 0) {
-			let idx = 1;
-			task.acceptanceCriteriaItems = criteria.map((text) => ({ index: idx++, text, checked: false }));
-		}
-
-		// Handle implementation plan
-		if (options.plan) {
-			task.implementationPlan = String(options.plan);
-		}
-
-		// Handle implementation notes
-		if (options.notes) {
-			task.implementationNotes = String(options.notes);
-		}
 
 		// Workaround for bun compile issue with commander options
 		const isPlainFlag = options.plain || process.argv.includes("--plain");
 
-		if (options.draft) {
-			const filepath = await core.createDraft(task);
-			if (isPlainFlag) {
-				console.log(formatTaskPlainText(task, { filePathOverride: filepath }));
-				return;
-			}
-			console.log(`Created draft ${id}`);
-			console.log(`File: ${filepath}`);
-		} else {
-			const filepath = await core.createTask(task);
+		if (!title && !options.template) {
+			console.error("Title is required unless --template is given.");
+			process.exitCode = 1;
+			return;
+		}
+
+		try {
+			const fields = buildTaskFromOptions("", title ?? "", options, await core.filesystem.getTaskPrefix());
+			const criteria = processAcceptanceCriteriaOptions(options);
+			const input: TaskCreateInput = {
+				title: fields.title,
+				labels: fields.labels,
+				assignee: fields.assignee,
+				dependencies: fields.dependencies,
+				acceptanceCriteria: criteria.map((text) => ({ text, checked: false })),
+				...(fields.description !== undefined && { description: fields.description }),
+				...(options.status && { status: String(options.status) }),
+				...(options.draft && { status: "Draft" }),
+				...(fields.priority && { priority: fields.priority }),
+				...(fields.parentTaskId && { parentTaskId: fields.parentTaskId }),
+				...(options.plan && { implementationPlan: String(options.plan) }),
+				...(options.notes && { implementationNotes: String(options.notes) }),
+				...(options.estimate && { estimate: String(options.estimate) }),
+				...(options.start && { startDate: String(options.start) }),
+				...(options.due && { dueDate: String(options.due) }),
+				...(options.field && { customFields: parseCustomFieldAssignments([options.field].flat()) }),
+			};
+			const { task, filePath, warnings } = options.template
+				? await core.createTaskFromTemplate(String(options.template), input)
+				: await core.createTaskFromInput(input);
+			printWarnings(warnings);
 			if (isPlainFlag) {
-				console.log(formatTaskPlainText(task, { filePathOverride: filepath }));
+				console.log(formatTaskPlainText(task, { filePathOverride: filePath }));
 				return;
 			}
-			console.log(`Created task ${id}`);
-			console.log(`File: ${filepath}`);
+			console.log(`Created ${options.draft ? "draft" : "task"} ${task.id}`);
+			console.log(`File: ${filePath}`);
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
 		}
 	});
 
@@ -1302,8 +1369,12 @@ program
 	.option("--type <type>", "limit results to type (task, document, decision)", createMultiValueAccumulator())
 	.option("--status <status>", "filter task results by status")
 	.option("--priority <priority>", "filter task results by priority (high, medium, low)")
+	.option("--relation <type>", "only tasks with a relation of this type, e.g. blocked-by or duplicates")
+	.option("--related-to <taskId>", "only tasks related to this task")
 	.option("--limit <number>", "limit total results returned")
 	.option("--plain", "print plain text output instead of interactive UI")
+	.option("--json", "print results as one JSON document")
+	.option("--ndjson", "print one JSON result per line")
 	.action(async (query: string | undefined, options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
@@ -1328,10 +1399,28 @@ program
 					})
 			: allowedTypes;
 
-		const filters: { status?: string; priority?: SearchPriorityFilter } = {};
+		const filters: {
+			status?: string;
+			priority?: SearchPriorityFilter;
+			relation?: TaskRelationKind;
+			relatedTo?: string;
+		} = {};
 		if (options.status) {
 			filters.status = options.status;
 		}
+		if (options.relation) {
+			const relation = String(options.relation).toLowerCase();
+			if (!isTaskRelationKind(relation)) {
+				console.error(`Invalid relation: ${options.relation}. Valid values: ${TASK_RELATION_KINDS.join(", ")}`);
+				cleanup();
+				process.exitCode = 1;
+				return;
+			}
+			filters.relation = relation;
+		}
+		if (options.relatedTo) {
+			filters.relatedTo = normalizeTaskId(String(options.relatedTo), await core.filesystem.getTaskPrefix());
+		}
 		if (options.priority) {
 			const priorityLower = String(options.priority).toLowerCase();
 			const validPriorities: SearchPriorityFilter[] = ["high", "medium", "low"];
@@ -1363,6 +1452,16 @@ program
 			filters,
 		});
 
+		const structured = getStructuredOutput(options);
+		if (structured) {
+			const localResults = searchResults.filter(
+				(result) => !isTaskSearchResult(result) || isLocalEditableTask(result.task),
+			);
+			printStructuredList(structured, "search-results", "search-result", localResults.map(serializeSearchResult));
+			cleanup();
+			return;
+		}
+
 		const isPlainFlag = options.plain || process.argv.includes("--plain") || !process.stdout.isTTY;
 		if (isPlainFlag) {
 			printSearchResults(searchResults);
@@ -1373,9 +1472,7 @@ program
 		const taskResults = searchResults.filter(isTaskSearchResult);
 		const searchResultTasks = taskResults.map((result) => result.task);
 
-		const allTasks = (await core.queryTasks()).filter(
-			(task) => task.id && task.id.trim() !== "" && task.id.startsWith("task-"),
-		);
+		const allTasks = (await core.queryTasks()).filter((task) => task.id && task.id.trim() !== "" && isTaskId(task.id));
 
 		// If no tasks exist at all, show plain text results
 		if (allTasks.length === 0) {
@@ -1517,8 +1614,16 @@ taskCmd
 	.option("-a, --assignee <assignee>", "filter tasks by assignee")
 	.option("-p, --parent <taskId>", "filter tasks by parent task ID")
 	.option("--priority <priority>", "filter tasks by priority (high, medium, low)")
-	.option("--sort <field>", "sort tasks by field (priority, id)")
+	.option("--overdue", "only open tasks past their due date")
+	.option("--due-before <date>", "only tasks due on or before this date (YYYY-MM-DD)")
+	.option("--due-after <date>", "only tasks due on or after this date (YYYY-MM-DD)")
+	.option("-q, --query <query>", "filter query, e.g. 'status:\"In Progress\" label:bug -assignee:@me updated:<7d'")
+	.option("--sort <field>", "sort tasks by field (priority, id or a custom field)")
+	.option("--view <name>", "use a saved view from backlog/views.yml (see `backlog view list`)")
+	.option("--tree", "nest subtasks under their parents and show each parent's progress")
 	.option("--plain", "use plain text output instead of interactive UI")
+	.option("--json", "print tasks as one JSON document")
+	.option("--ndjson", "print one JSON task per line")
 	.action(async (options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
@@ -1526,6 +1631,12 @@ taskCmd
 			core.disposeSearchService();
 			core.disposeContentStore();
 		};
+		if (options.view && options.sort) {
+			console.error("--sort cannot be combined with --view; the view sets its own sort order.");
+			process.exitCode = 1;
+			cleanup();
+			return;
+		}
 		const baseFilters: TaskListFilter = {};
 		if (options.status) {
 			baseFilters.status = options.status;
@@ -1544,29 +1655,83 @@ taskCmd
 			}
 			baseFilters.priority = priorityLower as (typeof validPriorities)[number];
 		}
+		if (options.overdue) {
+			baseFilters.overdue = true;
+		}
+		let savedView: SavedView | undefined;
+		try {
+			if (options.view) {
+				savedView = await core.getView(String(options.view));
+			}
+			if (options.dueBefore) {
+				baseFilters.dueBefore = normalizeTaskDate(String(options.dueBefore), "--due-before");
+			}
+			if (options.dueAfter) {
+				baseFilters.dueAfter = normalizeTaskDate(String(options.dueAfter), "--due-after");
+			}
+			if (options.query) {
+				// Surface syntax errors before any task loading
+				compileTaskQuery(String(options.query), await core.getTaskQueryContext());
+			}
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+			cleanup();
+			return;
+		}
 
 		let parentId: string | undefined;
 		if (options.parent) {
 			const parentInput = String(options.parent);
-			parentId = normalizeTaskId(parentInput);
+			parentId = normalizeTaskId(parentInput, await core.filesystem.getTaskPrefix());
 			baseFilters.parentTaskId = parentInput;
 		}
 
-		if (options.sort) {
-			const validSortFields = ["priority", "id"];
-			const sortField = options.sort.toLowerCase();
-			if (!validSortFields.includes(sortField)) {
-				console.error(`Invalid sort field: ${options.sort}. Valid values are: priority, id`);
-				process.exitCode = 1;
-				cleanup();
-				return;
-			}
+		// Besides priority and id, tasks can be sorted by any custom field
+		const customFields = (await core.filesystem.loadConfig())?.customFields ?? [];
+		const sortField = options.sort ? String(options.sort).toLowerCase() : "priority";
+		const sortCustomField = ["priority", "id"].includes(sortField)
+			? undefined
+			: findCustomField(customFields, sortField);
+		if (!["priority", "id"].includes(sortField) && !sortCustomField) {
+			const validSortFields = ["priority", "id", ...customFields.map((field) => field.name)];
+			console.error(`Invalid sort field: ${options.sort}. Valid values are: ${validSortFields.join(", ")}`);
+			process.exitCode = 1;
+			cleanup();
+			return;
 		}
+		const sortList = (list: Task[]) =>
+			sortCustomField ? sortTasksByCustomField(list, sortCustomField) : sortTasks(list, sortField);
 
+		const structured = getStructuredOutput(options);
 		const isPlainFlag = options.plain || process.argv.includes("--plain");
-		if (isPlainFlag) {
-			const tasks = await core.queryTasks({ filters: baseFilters, includeCrossBranch: false });
+		const isTreeFlag = Boolean(options.tree || process.argv.includes("--tree"));
+		if ((isPlainFlag || structured) && savedView) {
+			const result = await core.runView(savedView.name, {
+				filters: { ...baseFilters, query: options.query },
+				includeCrossBranch: false,
+			});
+			if (structured) {
+				// Tasks in several assignee or label groups are listed once, in view order
+				const viewTasks = [...new Set(result.groups.flatMap((group) => group.tasks))];
+				printStructuredList(structured, "tasks", "task", viewTasks.map(serializeTask));
+			} else {
+				console.log(formatViewPlainText(result, await core.filesystem.listMilestones()));
+			}
+			cleanup();
+			return;
+		}
+		if (isPlainFlag || structured) {
+			const tasks = await core.queryTasks({
+				filters: { ...baseFilters, query: options.query },
+				includeCrossBranch: false,
+			});
 			const config = await core.filesystem.loadConfig();
+			const today = getTodayInTimezone(config?.timezonePreference);
+			const dueSuffix = (task: Task) => {
+				const label = formatDueLabel(task, today);
+				return label ? ` [${label}]` : "";
+			};
 
 			if (parentId) {
 				const parentExists = (await core.queryTasks({ includeCrossBranch: false })).some((task) =>
@@ -1580,29 +1745,20 @@ taskCmd
 				}
 			}
 
-			let sortedTasks = tasks;
-			if (options.sort) {
-				const validSortFields = ["priority", "id"];
-				const sortField = options.sort.toLowerCase();
-				if (!validSortFields.includes(sortField)) {
-					console.error(`Invalid sort field: ${options.sort}. Valid values are: priority, id`);
-					process.exitCode = 1;
-					cleanup();
-					return;
-				}
-				sortedTasks = sortTasks(tasks, sortField);
-			} else {
-				sortedTasks = sortTasks(tasks, "priority");
-			}
-
-			let filtered = sortedTasks;
+			let filtered = sortList(tasks);
 			if (parentId) {
 				filtered = filtered.filter((task) => task.parentTaskId && taskIdsEqual(parentId, task.parentTaskId));
 			}
 
+			if (structured) {
+				printStructuredList(structured, "tasks", "task", filtered.map(serializeTask));
+				cleanup();
+				return;
+			}
+
 			if (filtered.length === 0) {
 				if (options.parent) {
-					const canonicalParent = normalizeTaskId(String(options.parent));
+					const canonicalParent = normalizeTaskId(String(options.parent), await core.filesystem.getTaskPrefix());
 					console.log(`No child tasks found for parent task ${canonicalParent}.`);
 				} else {
 					console.log("No tasks found.");
@@ -1611,13 +1767,22 @@ taskCmd
 				return;
 			}
 
+			if (isTreeFlag) {
+				// Progress counts every subtask, including ones the filters leave out
+				const allTasks = await core.queryTasks({ includeCrossBranch: false });
+				const ordered = options.sort ? filtered : sortTasks(filtered, "id");
+				console.log(formatTaskTree(buildTaskTree(ordered), buildSubtaskProgress(allTasks)).join("\n"));
+				cleanup();
+				return;
+			}
+
 			if (options.sort && options.sort.toLowerCase() === "priority") {
 				const sortedByPriority = sortTasks(filtered, "priority");
 				console.log("Tasks (sorted by priority):");
 				for (const t of sortedByPriority) {
 					const priorityIndicator = t.priority ? `[${t.priority.toUpperCase()}] ` : "";
 					const statusIndicator = t.status ? ` (${t.status})` : "";
-					console.log(`  ${priorityIndicator}${t.id} - ${t.title}${statusIndicator}`);
+					console.log(`  ${priorityIndicator}${t.id} - ${t.title}${statusIndicator}${dueSuffix(t)}`);
 				}
 				cleanup();
 				return;
@@ -1646,14 +1811,11 @@ taskCmd
 			for (const status of orderedStatuses) {
 				const list = groups.get(status);
 				if (!list) continue;
-				let sortedList = list;
-				if (options.sort) {
-					sortedList = sortTasks(list, options.sort.toLowerCase());
-				}
+				const sortedList = options.sort ? sortList(list) : list;
 				console.log(`${status || "No Status"}:`);
 				sortedList.forEach((task) => {
 					const priorityIndicator = task.priority ? `[${task.priority.toUpperCase()}] ` : "";
-					console.log(`  ${priorityIndicator}${task.id} - ${task.title}`);
+					console.log(`  ${priorityIndicator}${task.id} - ${task.title}${dueSuffix(task)}`);
 				});
 				console.log();
 			}
@@ -1664,12 +1826,16 @@ taskCmd
 		let filterDescription = "";
 		let title = "Tasks";
 		const activeFilters: string[] = [];
+		if (savedView) activeFilters.push(`View: ${savedView.name}`);
 		if (options.status) activeFilters.push(`Status: ${options.status}`);
 		if (options.assignee) activeFilters.push(`Assignee: ${options.assignee}`);
 		if (options.parent) {
-			activeFilters.push(`Parent: ${normalizeTaskId(String(options.parent))}`);
+			activeFilters.push(`Parent: ${normalizeTaskId(String(options.parent), await core.filesystem.getTaskPrefix())}`);
 		}
 		if (options.priority) activeFilters.push(`Priority: ${options.priority}`);
+		if (options.overdue) activeFilters.push("Overdue");
+		if (options.dueBefore) activeFilters.push(`Due before: ${options.dueBefore}`);
+		if (options.dueAfter) activeFilters.push(`Due after: ${options.dueAfter}`);
 		if (options.sort) activeFilters.push(`Sort: ${options.sort}`);
 
 		if (activeFilters.length > 0) {
@@ -1677,6 +1843,11 @@ taskCmd
 			title = `Tasks (${activeFilters.join(" • ")})`;
 		}
 
+		const searchQuery =
+			savedView?.query && options.query
+				? `(${savedView.query}) (${options.query})`
+				: (options.query ?? savedView?.query);
+
 		const { runUnifiedView } = await import("./ui/unified-view.ts");
 		await runUnifiedView({
 			core,
@@ -1705,19 +1876,7 @@ taskCmd
 					}
 				}
 
-				let sortedTasks = tasks;
-				if (options.sort) {
-					const validSortFields = ["priority", "id"];
-					const sortField = options.sort.toLowerCase();
-					if (!validSortFields.includes(sortField)) {
-						throw new Error(`Invalid sort field: ${options.sort}. Valid values are: priority, id`);
-					}
-					sortedTasks = sortTasks(tasks, sortField);
-				} else {
-					sortedTasks = sortTasks(tasks, "priority");
-				}
-
-				let filtered = sortedTasks;
+				let filtered = sortList(tasks);
 				if (parentId) {
 					filtered = filtered.filter((task) => task.parentTaskId && taskIdsEqual(parentId, task.parentTaskId));
 				}
@@ -1735,7 +1894,11 @@ taskCmd
 				title,
 				filterDescription,
 				parentTaskId: parentId,
+				tree: isTreeFlag,
+				// The task list applies the query from its search box, where it can be edited
+				...(searchQuery && { searchQuery }),
 			},
+			savedView,
 		});
 		cleanup();
 	});
@@ -1777,6 +1940,15 @@ taskCmd
 	.option("--branch <name>", "set branch name")
 	.option("--tag <tag>", "set git tag")
 	.option("--pr <number>", "set PR number")
+	.option("--estimate <duration>", "set effort estimate (e.g. 4h, 1d); empty string clears it")
+	.option("--remaining <duration>", "set remaining effort; empty string clears it")
+	.option("--start <date>", "set start date (YYYY-MM-DD); empty string clears it")
+	.option("--due <date>", "set due date (YYYY-MM-DD or YYYY-MM-DD HH:mm); empty string clears it")
+	.option(
+		"--field <name=value>",
+		"set a custom field from config; name= clears it (can be used multiple times)",
+		createMultiValueAccumulator(),
+	)
 	.option("--plan <text>", "set implementation plan")
 	.option("--notes <text>", "set implementation notes (replaces existing)")
 	.option(
@@ -1796,10 +1968,27 @@ taskCmd
 		const soFar = Array.isArray(previous) ? previous : previous ? [previous] : [];
 		return [...soFar, value];
 	})
+	.option(
+		"--relates-to <taskIds>",
+		"add a relates-to link (comma-separated or use multiple times)",
+		createMultiValueAccumulator(),
+	)
+	.option(
+		"--blocks <taskIds>",
+		"record that this task blocks others; they show it as blocked-by",
+		createMultiValueAccumulator(),
+	)
+	.option(
+		"--duplicates <taskIds>",
+		"mark this task as a duplicate of another; it shows this one as duplicated-by",
+		createMultiValueAccumulator(),
+	)
+	.option("--caused-by <taskIds>", "record the task that caused this one", createMultiValueAccumulator())
+	.option("--unrelate <taskIds>", "remove the relations this task records to others", createMultiValueAccumulator())
 	.action(async (taskId: string, options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
-		const canonicalId = normalizeTaskId(taskId);
+		const canonicalId = normalizeTaskId(taskId, await core.filesystem.getTaskPrefix());
 		const existingTask = await core.loadTaskById(canonicalId);
 
 		if (!existingTask) {
@@ -1882,10 +2071,26 @@ taskCmd
 		const acceptanceAdditions = processAcceptanceCriteriaOptions(options);
 
 		const combinedDependencies = [...toStringArray(options.dependsOn), ...toStringArray(options.dep)];
-		const dependencyValues = combinedDependencies.length > 0 ? normalizeDependencies(combinedDependencies) : undefined;
+		const dependencyValues =
+			combinedDependencies.length > 0
+				? normalizeDependencies(combinedDependencies, await core.filesystem.getTaskPrefix())
+				: undefined;
 
 		const notesAppendValues = toStringArray(options.appendNotes);
 
+		const relationOptions: Record<TaskRelationType, unknown> = {
+			"relates-to": options.relatesTo,
+			blocks: options.blocks,
+			duplicates: options.duplicates,
+			"caused-by": options.causedBy,
+		};
+		const relationAdditions: Partial<Record<TaskRelationType, string[]>> = {};
+		for (const [type, value] of Object.entries(relationOptions) as Array<[TaskRelationType, unknown]>) {
+			const ids = parseCommaSeparated(value);
+			if (ids.length > 0) relationAdditions[type] = ids;
+		}
+		const unrelateValues = parseCommaSeparated(options.unrelate);
+
 		const editArgs: TaskEditArgs = {};
 		if (options.title) {
 			editArgs.title = String(options.title);
@@ -1918,6 +2123,12 @@ taskCmd
 		if (dependencyValues && dependencyValues.length > 0) {
 			editArgs.dependencies = dependencyValues;
 		}
+		if (Object.keys(relationAdditions).length > 0) {
+			editArgs.relationsAdd = relationAdditions;
+		}
+		if (unrelateValues.length > 0) {
+			editArgs.relationsRemove = unrelateValues;
+		}
 		if (typeof options.plan === "string") {
 			editArgs.planSet = String(options.plan);
 		}
@@ -1933,9 +2144,30 @@ taskCmd
 		if (options.tag) {
 			editArgs.gitTag = String(options.tag);
 		}
+		if (options.estimate !== undefined) {
+			editArgs.estimate = String(options.estimate);
+		}
+		if (options.remaining !== undefined) {
+			editArgs.remaining = String(options.remaining);
+		}
+		if (options.start !== undefined) {
+			editArgs.startDate = String(options.start);
+		}
+		if (options.due !== undefined) {
+			editArgs.dueDate = String(options.due);
+		}
 		if (options.pr) {
 			editArgs.prNumber = String(options.pr);
 		}
+		if (options.field) {
+			try {
+				editArgs.customFields = parseCustomFieldAssignments([options.field].flat());
+			} catch (error) {
+				console.error(error instanceof Error ? error.message : String(error));
+				process.exitCode = 1;
+				return;
+			}
+		}
 		if (acceptanceAdditions.length > 0) {
 			editArgs.acceptanceCriteriaAdd = acceptanceAdditions;
 		}
@@ -1952,7 +2184,9 @@ taskCmd
 		let updatedTask: Task;
 		try {
 			const updateInput = buildTaskUpdateInput(editArgs);
-			updatedTask = await core.editTask(canonicalId, updateInput);
+			const result = await core.editTask(canonicalId, updateInput);
+			updatedTask = result.task;
+			printWarnings(result.warnings);
 		} catch (error) {
 			console.error(error instanceof Error ? error.message : String(error));
 			process.exitCode = 1;
@@ -1961,15 +2195,149 @@ taskCmd
 
 		const isPlainFlag = options.plain || process.argv.includes("--plain");
 		if (isPlainFlag) {
-			console.log(formatTaskPlainText(updatedTask));
-			return;
+			const customFields = (await core.filesystem.loadConfig())?.customFields;
+			console.log(formatTaskPlainText(updatedTask, { customFields }));
+		} else {
+			console.log(`Updated task ${updatedTask.id}`);
 		}
 
-		console.log(`Updated task ${updatedTask.id}`);
+		if (!isDoneStatus(existingTask.status) && isDoneStatus(updatedTask.status)) {
+			await offerToCloseDuplicateOriginals(core, updatedTask, !isPlainFlag && Boolean(process.stdin.isTTY));
+		}
 	});
 
+/**
+ * A task closed as a duplicate usually means the original should be closed
+ * too, or at least hear about it. Ask when interactive, otherwise print the
+ * commands that would do it.
+ */
+async function offerToCloseDuplicateOriginals(core: Core, duplicate: Task, interactive: boolean): Promise<void> {
+	for (const originalId of duplicate.relations?.duplicates ?? []) {
+		const original = await core.loadTaskById(originalId);
+		if (!original || isDoneStatus(original.status)) continue;
+		const note = `Closed ${duplicate.id} as a duplicate of this task.`;
+
+		if (!interactive) {
+			console.log(`${duplicate.id} duplicates ${original.id}, which is still ${original.status}.`);
+			console.log(`  Close it:  backlog task edit ${original.id} -s "${duplicate.status}"`);
+			console.log(`  Link it:   backlog task comment ${original.id} "${note}"`);
+			continue;
+		}
+
+		const { action } = await prompts({
+			type: "select",
+			name: "action",
+			message: `${duplicate.id} duplicates ${original.id} (${original.title}), which is still ${original.status}`,
+			choices: [
+				{ title: `Close ${original.id} as well`, value: "close" },
+				{ title: `Comment on ${original.id} linking this duplicate`, value: "link" },
+				{ title: "Leave it", value: "leave" },
+			],
+			initial: 0,
+		});
+		if (action === "close") {
+			const { warnings } = await core.editTask(original.id, { status: duplicate.status });
+			console.log(`Closed ${original.id}`);
+			printWarnings(warnings);
+		} else if (action === "link") {
+			await core.editTask(original.id, {
+				addComment: {
+					author: (await resolveDefaultAuthor(core)) ?? "unknown",
+					date: new Date().toISOString().slice(0, 16).replace("T", " "),
+					body: note,
+				},
+			});
+			console.log(`Commented on ${original.id}`);
+		}
+	}
+}
+
 // Note: Implementation notes appending is handled via `task edit --append-notes` only.
 
+taskCmd
+	.command("bulk-edit [taskIds...]")
+	.description("apply the same change to many tasks, selected by id and/or a filter query, in one commit")
+	.option("-q, --query <query>", "filter query selecting the tasks, e.g. 'label:bug status:\"To Do\"'")
+	.option(
+		"--set <name=value>",
+		"set status, priority, milestone, assignee, labels, start, due, estimate or a custom field; name= clears it (can be used multiple times)",
+		createMultiValueAccumulator(),
+	)
+	.option("-s, --status <status>", "set the status")
+	.option("--priority <priority>", "set the priority (high, medium, low)")
+	.option("-m, --milestone <milestone>", "set the milestone")
+	.option(
+		"-a, --assignee <assignee>",
+		"replace the assignees; @me is the current user (can be used multiple times)",
+		createMultiValueAccumulator(),
+	)
+	.option("--add-label <label>", "add a label (can be used multiple times)", createMultiValueAccumulator())
+	.option("--remove-label <label>", "remove a label (can be used multiple times)", createMultiValueAccumulator())
+	.option(
+		"--field <name=value>",
+		"set a custom field; name= clears it (can be used multiple times)",
+		createMultiValueAccumulator(),
+	)
+	.option("--dry-run", "only show the tasks that would be edited")
+	.action(async (taskIds: string[], options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const config = await core.filesystem.loadConfig();
+
+		let update: TaskUpdateInput;
+		let tasks: Task[];
+		try {
+			update = parseBulkSetAssignments(toStringArray(options.set), config?.customFields);
+			if (options.status) update.status = String(options.status);
+			if (options.priority) {
+				Object.assign(update, parseBulkSetAssignments([`priority=${options.priority}`]));
+			}
+			if (options.milestone !== undefined) update.milestone = String(options.milestone).trim() || null;
+			const assignees = toStringArray(options.assignee).flatMap((value) => value.split(","));
+			if (assignees.length > 0) update.assignee = assignees.map((value) => value.trim()).filter(Boolean);
+			const addLabels = toStringArray(options.addLabel);
+			if (addLabels.length > 0) update.addLabels = addLabels;
+			const removeLabels = toStringArray(options.removeLabel);
+			if (removeLabels.length > 0) update.removeLabels = removeLabels;
+			const fields = parseCustomFieldAssignments(toStringArray(options.field));
+			if (Object.keys(fields).length > 0) update.customFields = { ...update.customFields, ...fields };
+			if (isEmptyUpdate(update)) {
+				throw new BulkEditError("Nothing to change. Use --set, --status, --milestone, --assignee, --add-label, ...");
+			}
+			tasks = await core.findTasksForBulkEdit({
+				ids: taskIds.map((id) => normalizeTaskId(id, resolveTaskPrefix(config))),
+				query: options.query ? String(options.query) : undefined,
+			});
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+			return;
+		}
+
+		if (tasks.length === 0) {
+			console.log("No tasks match.");
+			return;
+		}
+		console.log(formatBulkEditPreview(tasks));
+		if (options.dryRun || process.argv.includes("--dry-run")) {
+			return;
+		}
+
+		try {
+			const results = await core.bulkEditTasks(
+				tasks.map((task) => task.id),
+				update,
+			);
+			console.log(`\n${formatBulkEditResults(results)}`);
+			if (results.some((result) => result.outcome === "failed")) {
+				process.exitCode = 1;
+			}
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		}
+	});
+
 taskCmd
 	.command("event <taskId>")
 	.description("add an event to the task history")
@@ -1980,7 +2348,7 @@ taskCmd
 	.action(async (taskId: string, options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
-		const canonicalId = normalizeTaskId(taskId);
+		const canonicalId = normalizeTaskId(taskId, await core.filesystem.getTaskPrefix());
 		const existingTask = await core.loadTaskById(canonicalId);
 
 		if (!existingTask) {
@@ -2004,25 +2372,8 @@ taskCmd
 			canonicalStatus = canonical;
 		}
 
-		// Determine author
-		let author = "unknown";
-		if (options.author) {
-			author = String(options.author);
-		} else {
-			// Try to get default assignee or reporter from config
-			const config = await core.filesystem.loadConfig();
-			if (config?.defaultAssignee) {
-				author = config.defaultAssignee;
-			} else if (config?.defaultReporter) {
-				author = config.defaultReporter;
-			} else {
-				// Fallback to git user name if possible
-				try {
-					const user = await core.gitOps.getCurrentUser();
-					if (user) author = user;
-				} catch {}
-			}
-		}
+		// Determine author (defaults to configured assignee/reporter, then git user)
+		const author = options.author ? String(options.author) : ((await resolveDefaultAuthor(core)) ?? "unknown");
 
 		// Create history entry
 		const historyEntry = {
@@ -2042,8 +2393,9 @@ taskCmd
 
 		try {
 			const updateInput = buildTaskUpdateInput(editArgs);
-			const updatedTask = await core.editTask(canonicalId, updateInput);
+			const { task: updatedTask, warnings } = await core.editTask(canonicalId, updateInput);
 			console.log(`Added event to task ${updatedTask.id}`);
+			printWarnings(warnings);
 		} catch (error) {
 			console.error(error instanceof Error ? error.message : String(error));
 			process.exitCode = 1;
@@ -2051,35 +2403,196 @@ taskCmd
 	});
 
 taskCmd
-	.command("view <taskId>")
-	.description("display task details")
-	.option("--plain", "use plain text output instead of interactive UI")
-	.action(async (taskId: string, options) => {
+	.command("log <taskId> <duration>")
+	.description("log time spent on a task (e.g. 2h, 1h 30m, 45m)")
+	.option("-m, --message <text>", "note describing the work")
+	.option("-a, --author <author>", "who did the work (defaults to current user)")
+	.option("--date <date>", "date of the work (YYYY-MM-DD or YYYY-MM-DD HH:mm)")
+	.option("--remaining <duration>", "set the remaining effort after this entry")
+	.option("--plain", "use plain text output after logging")
+	.action(async (taskId: string, duration: string, options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
-		const task = await core.loadTaskById(taskId);
-		if (!task) {
+		const canonicalId = normalizeTaskId(taskId, await core.filesystem.getTaskPrefix());
+		const existingTask = await core.loadTaskById(canonicalId);
+
+		if (!existingTask) {
 			console.error(`Task ${taskId} not found.`);
+			process.exitCode = 1;
 			return;
 		}
 
-		// Plain text output for AI agents
-		if (options && (("plain" in options && options.plain) || process.argv.includes("--plain"))) {
-			console.log(formatTaskPlainText(task));
-			return;
+		const author = options.author ? String(options.author) : ((await resolveDefaultAuthor(core)) ?? "unknown");
+		const editArgs: TaskEditArgs = {
+			worklogEntry: {
+				author,
+				duration,
+				date: options.date ? String(options.date) : new Date().toISOString().slice(0, 16).replace("T", " "),
+				...(options.message && { note: String(options.message) }),
+			},
+		};
+		if (options.remaining !== undefined) {
+			editArgs.remaining = String(options.remaining);
 		}
 
-		// Use enhanced task viewer with detail focus
-		await viewTaskEnhanced(task, { startWithDetailFocus: true, core });
-	});
+		let updatedTask: Task;
+		try {
+			const updateInput = buildTaskUpdateInput(editArgs);
+			const result = await core.editTask(canonicalId, updateInput);
+			updatedTask = result.task;
+			printWarnings(result.warnings);
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+			return;
+		}
 
-taskCmd
+		const isPlainFlag = options.plain || process.argv.includes("--plain");
+		if (isPlainFlag) {
+			console.log(formatTaskPlainText(updatedTask));
+			return;
+		}
+
+		const effort = getTaskEffort(updatedTask);
+		const entry = updatedTask.worklog?.at(-1);
+		console.log(`Logged ${entry?.duration ?? duration} on task ${updatedTask.id}`);
+		console.log(`Total logged: ${formatDuration(effort.loggedMinutes)}`);
+		if (updatedTask.estimate || updatedTask.remaining) {
+			console.log(`Remaining: ${formatDuration(effort.remainingMinutes)}`);
+		}
+	});
+
+taskCmd
+	.command("comment <taskId> [body]")
+	.description(
+		"add a markdown comment to a task, or list its comments (multi-line: bash $'Line1\\nLine2', POSIX printf)",
+	)
+	.option("-r, --reply-to <commentId>", "answer an earlier comment by its number")
+	.option("-a, --author <author>", "comment author (defaults to current user)")
+	.option("--list", "show the task's comment thread")
+	.action(async (taskId: string, body: string | undefined, options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const canonicalId = normalizeTaskId(taskId, await core.filesystem.getTaskPrefix());
+		const existingTask = await core.loadTaskById(canonicalId);
+
+		if (!existingTask) {
+			console.error(`Task ${taskId} not found.`);
+			process.exitCode = 1;
+			return;
+		}
+
+		if (options.list || process.argv.includes("--list")) {
+			const comments = existingTask.comments ?? [];
+			console.log(
+				comments.length > 0 ? formatCommentThreads(comments).join("\n") : `No comments on task ${existingTask.id}`,
+			);
+			return;
+		}
+
+		if (!body?.trim()) {
+			console.error('Comment body is required, e.g. backlog task comment 7 "Looks good"');
+			process.exitCode = 1;
+			return;
+		}
+
+		let replyTo: number | undefined;
+		if (options.replyTo !== undefined) {
+			replyTo = Number.parseInt(String(options.replyTo).replace(/^#/, ""), 10);
+			if (!Number.isInteger(replyTo) || replyTo < 1) {
+				console.error(`Invalid comment number: ${options.replyTo}`);
+				process.exitCode = 1;
+				return;
+			}
+		}
+
+		const author = options.author ? String(options.author) : ((await resolveDefaultAuthor(core)) ?? "unknown");
+		const editArgs: TaskEditArgs = {
+			commentEntry: {
+				author,
+				date: new Date().toISOString().slice(0, 16).replace("T", " "),
+				body,
+				...(replyTo !== undefined && { replyTo }),
+			},
+		};
+
+		try {
+			const { task: updatedTask } = await core.editTask(canonicalId, buildTaskUpdateInput(editArgs));
+			const comment = updatedTask.comments?.at(-1);
+			console.log(`Added comment #${comment?.id} to task ${updatedTask.id}`);
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		}
+	});
+
+taskCmd
+	.command("attach <taskId> <file>")
+	.description("copy a file into backlog/assets and attach it to a task")
+	.action(async (taskId: string, file: string) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const source = Bun.file(resolve(file));
+		if (!(await source.exists())) {
+			console.error(`File not found: ${file}`);
+			process.exitCode = 1;
+			return;
+		}
+
+		try {
+			const { task, path } = await core.attachFile(normalizeTaskId(taskId, await core.filesystem.getTaskPrefix()), {
+				name: basename(file),
+				data: new Uint8Array(await source.arrayBuffer()),
+			});
+			console.log(`Attached backlog/assets/${path} to task ${task.id}`);
+			const link = `[${basename(path)}](../assets/${path})`;
+			console.log(`Link it in markdown as ${isImageAsset(path) ? `!${link}` : link}`);
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		}
+	});
+
+taskCmd
+	.command("view <taskId>")
+	.description("display task details")
+	.option("--plain", "use plain text output instead of interactive UI")
+	.option("--json", "print the task as JSON")
+	.action(async (taskId: string, options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const task = await core.loadTaskById(taskId);
+		if (!task) {
+			console.error(`Task ${taskId} not found.`);
+			return;
+		}
+
+		if (getStructuredOutput(options)) {
+			const relations = await core.getTaskRelations(task.id);
+			console.log(formatJsonOutput("task", { ...serializeTask(task), relations }));
+			return;
+		}
+
+		// Plain text output for AI agents
+		if (options && (("plain" in options && options.plain) || process.argv.includes("--plain"))) {
+			const customFields = (await core.filesystem.loadConfig())?.customFields;
+			const relations = await core.getTaskRelations(task.id);
+			console.log(formatTaskPlainText(task, { customFields, relations }));
+			return;
+		}
+
+		// Use enhanced task viewer with detail focus
+		await viewTaskEnhanced(task, { startWithDetailFocus: true, core });
+	});
+
+taskCmd
 	.command("archive <taskId>")
 	.description("archive a task")
-	.action(async (taskId: string) => {
+	.option("--unlink-dependents", "remove the task from the dependencies of active tasks (restore relinks them)")
+	.action(async (taskId: string, options: { unlinkDependents?: boolean }) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
-		const success = await core.archiveTask(taskId);
+		const success = await core.archiveTask(taskId, undefined, { unlinkDependents: options.unlinkDependents });
 		if (success) {
 			console.log(`Archived task ${taskId}`);
 		} else {
@@ -2087,6 +2600,26 @@ taskCmd
 		}
 	});
 
+taskCmd
+	.command("restore <taskId>")
+	.alias("unarchive")
+	.description("move an archived or completed task back to the backlog")
+	.option("-s, --status <status>", "status to restore the task with (defaults to its current status)")
+	.action(async (taskId: string, options: { status?: string }) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		try {
+			const result = await core.restoreTask(taskId, { status: options.status });
+			console.log(formatRestoreResult(result));
+		} catch (error) {
+			if (!(error instanceof RestoreError || error instanceof TransitionError || error instanceof WipLimitError)) {
+				throw error;
+			}
+			console.error(error.message);
+			process.exitCode = 1;
+		}
+	});
+
 taskCmd
 	.command("demote <taskId>")
 	.description("move task back to drafts")
@@ -2104,7 +2637,8 @@ taskCmd
 taskCmd
 	.argument("[taskId]")
 	.option("--plain", "use plain text output")
-	.action(async (taskId: string | undefined, options: { plain?: boolean }) => {
+	.option("--json", "print the task as JSON")
+	.action(async (taskId: string | undefined, options: { plain?: boolean; json?: boolean }) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
 
@@ -2128,9 +2662,15 @@ taskCmd
 			return;
 		}
 
+		if (getStructuredOutput(options)) {
+			console.log(formatJsonOutput("task", serializeTask(task)));
+			return;
+		}
+
 		// Plain text output for AI agents
 		if (options && (options.plain || process.argv.includes("--plain"))) {
-			console.log(formatTaskPlainText(task));
+			const customFields = (await core.filesystem.loadConfig())?.customFields;
+			console.log(formatTaskPlainText(task, { customFields }));
 			return;
 		}
 
@@ -2152,13 +2692,16 @@ draftCmd
 	.description("list all drafts")
 	.option("--sort <field>", "sort drafts by field (priority, id)")
 	.option("--plain", "use plain text output")
-	.action(async (options: { plain?: boolean; sort?: string }) => {
+	.option("--json", "print drafts as one JSON document")
+	.option("--ndjson", "print one JSON draft per line")
+	.action(async (options: { plain?: boolean; sort?: string; json?: boolean; ndjson?: boolean }) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
 		await core.ensureConfigLoaded();
 		const drafts = await core.filesystem.listDrafts();
+		const structured = getStructuredOutput(options);
 
-		if (!drafts || drafts.length === 0) {
+		if (!structured && (!drafts || drafts.length === 0)) {
 			console.log("No drafts found.");
 			return;
 		}
@@ -2181,6 +2724,11 @@ draftCmd
 			sortedDrafts = sortTasks(drafts, "priority");
 		}
 
+		if (structured) {
+			printStructuredList(structured, "drafts", "draft", sortedDrafts.map(serializeTask));
+			return;
+		}
+
 		if (options.plain || process.argv.includes("--plain")) {
 			// Plain text output for AI agents
 			console.log("Drafts:");
@@ -2222,7 +2770,7 @@ draftCmd
 		const core = new Core(cwd);
 		await core.ensureConfigLoaded();
 		const id = await core.generateNextId();
-		const task = buildTaskFromOptions(id, title, options);
+		const task = buildTaskFromOptions(id, title, options, await core.filesystem.getTaskPrefix());
 		const filepath = await core.createDraft(task);
 		console.log(`Created draft ${id}`);
 		console.log(`File: ${filepath}`);
@@ -2328,14 +2876,21 @@ function addBoardOptions(cmd: Command) {
 	return cmd
 		.option("-l, --layout <layout>", "board layout (horizontal|vertical)", "horizontal")
 		.option("--vertical", "use vertical layout (shortcut for --layout vertical)")
-		.option("-m, --milestones", "group tasks by milestone");
+		.option("-m, --milestones", "group tasks by milestone")
+		.option("--json", "print the board columns as JSON instead of opening the UI");
 }
 
-async function handleBoardView(options: { layout?: string; vertical?: boolean; milestones?: boolean }) {
+async function handleBoardView(options: { layout?: string; vertical?: boolean; milestones?: boolean; json?: boolean }) {
 	const cwd = await requireProjectRoot();
 	const core = new Core(cwd);
 	const config = await core.filesystem.loadConfig();
 
+	if (getStructuredOutput(options)) {
+		const tasks = await core.loadTasks();
+		console.log(formatJsonOutput("board", serializeBoard(tasks, config?.statuses || [], config?.wipLimits)));
+		return;
+	}
+
 	const _layout = options.vertical ? "vertical" : (options.layout as "horizontal" | "vertical") || "horizontal";
 	const _maxColumnWidth = config?.maxColumnWidth || 20; // Default for terminal display
 	const statuses = config?.statuses || [];
@@ -2398,7 +2953,7 @@ boardCmd
 			if (options.readme) {
 				// Use version from option if provided, otherwise use the CLI version
 				const exportVersion = options.exportVersion || version;
-				await updateReadmeWithBoard(finalTasks, statuses, projectName, exportVersion);
+				await updateReadmeWithBoard(finalTasks, statuses, projectName, exportVersion, config?.wipLimits);
 				console.log("Updated README.md with Kanban board.");
 			} else {
 				// Use filename argument or default to Backlog.md
@@ -2420,7 +2975,9 @@ boardCmd
 					}
 				}
 
-				await exportKanbanBoardToFile(finalTasks, statuses, outputPath, projectName, options.force || !fileExists);
+				await exportKanbanBoardToFile(finalTasks, statuses, outputPath, projectName, options.force || !fileExists, {
+					wipLimits: config?.wipLimits,
+				});
 				console.log(`Exported board to ${outputPath}`);
 			}
 		} catch (error) {
@@ -2429,6 +2986,171 @@ boardCmd
 		}
 	});
 
+program
+	.command("export [file]")
+	.description("export tasks as CSV, JSON or YAML (to stdout when no file is given)")
+	.option("-f, --format <format>", "csv, json or yaml (default: from the file extension, otherwise json)")
+	.option("--include <sources>", "comma-separated folders to export: tasks, drafts, archived, completed", "tasks")
+	.option("--fields <fields>", "comma-separated fields to export (default: all but filePath)")
+	.action(async (file: string | undefined, options: { format?: string; include: string; fields?: string }) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const format = options.format || file ? resolveTransferFormat(options.format, file) : "json";
+		if (!format) {
+			console.error(
+				`Cannot tell the export format${options.format ? ` "${options.format}"` : ` of ${file}`}. Use --format ${TRANSFER_FORMATS.join(", ")}`,
+			);
+			process.exitCode = 1;
+			return;
+		}
+		const sources = options.include
+			.split(",")
+			.map((item) => item.trim().toLowerCase())
+			.filter(Boolean);
+		const unknownSource = sources.find((source) => !isExportSource(source));
+		if (unknownSource) {
+			console.error(`Invalid folder "${unknownSource}". Valid values are: ${Object.keys(EXPORT_SOURCES).join(", ")}`);
+			process.exitCode = 1;
+			return;
+		}
+		const fields = options.fields
+			?.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean);
+		const unknownField = fields?.find((field) => !isExportField(field));
+		if (unknownField) {
+			console.error(`Invalid field "${unknownField}". Valid values are: ${EXPORT_FIELDS.join(", ")}`);
+			process.exitCode = 1;
+			return;
+		}
+
+		const { content, count } = await core.exportTasks({
+			sources: sources as ExportSource[],
+			fields: fields as ExportField[] | undefined,
+			format,
+		});
+		if (!file) {
+			process.stdout.write(content);
+			return;
+		}
+		const outputPath = resolve(file);
+		await Bun.write(outputPath, content);
+		console.log(`Exported ${count} task(s) to ${outputPath}`);
+	});
+
+function printImportResults(results: ImportedTaskResult[], dryRun?: boolean): void {
+	if (dryRun) {
+		console.log(`Would import ${results.length} task(s):`);
+		for (const result of results) {
+			console.log(`  ${result.ref} - ${result.title}`);
+		}
+		return;
+	}
+	console.log(`Imported ${results.length} task(s):`);
+	for (const result of results) {
+		console.log(`  ${result.ref} -> ${result.id} - ${result.title}`);
+	}
+}
+
+const importCmd = program
+	.command("import <file>")
+	.description("create tasks from a CSV, JSON or YAML file")
+	.option("-f, --format <format>", "csv, json or yaml (default: from the file extension)")
+	.option(
+		"--map <mapping>",
+		"map a column or key onto a field, e.g. Summary=title (can be used multiple times)",
+		createMultiValueAccumulator(),
+	)
+	.option("--dry-run", "check the file and show what would be created without writing anything")
+	.action(async (file: string, options: { format?: string; map?: string | string[]; dryRun?: boolean }) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const format = resolveTransferFormat(options.format, file);
+		if (!format) {
+			console.error(
+				`Cannot tell the import format${options.format ? ` "${options.format}"` : ` of ${file}`}. Use --format ${TRANSFER_FORMATS.join(", ")}`,
+			);
+			process.exitCode = 1;
+			return;
+		}
+		const inputFile = Bun.file(resolve(file));
+		if (!(await inputFile.exists())) {
+			console.error(`File not found: ${file}`);
+			process.exitCode = 1;
+			return;
+		}
+
+		try {
+			const fieldMap = parseImportFieldMap(toStringArray(options.map));
+			const records = parseImportRecords(await inputFile.text(), format);
+			const config = await core.filesystem.loadConfig();
+			const { tasks, warnings } = mapImportRecords(records, { fieldMap, customFields: config?.customFields });
+			for (const warning of warnings) {
+				console.warn(`Warning: ${warning}`);
+			}
+			if (tasks.length === 0) {
+				console.log("No tasks found in file.");
+				return;
+			}
+
+			printImportResults(await core.importTasks(tasks, { dryRun: options.dryRun }), options.dryRun);
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		}
+	});
+
+for (const [source, description] of Object.entries(EXTERNAL_SOURCES) as Array<[ExternalSource, string]>) {
+	importCmd
+		.command(`${source} <file>`)
+		.description(`create tasks from ${description}`)
+		.option("--mapping <file>", "YAML or JSON file mapping statuses, priorities, labels, assignees and fields")
+		.option("--report <file>", "also write the report of unmapped values to a JSON file")
+		.option("--dry-run", "check the file and show what would be created without writing anything")
+		.action(async (file: string, options: { mapping?: string; report?: string; dryRun?: boolean }) => {
+			const cwd = await requireProjectRoot();
+			const core = new Core(cwd);
+			const dryRun = options.dryRun || process.argv.includes("--dry-run");
+			const inputFile = Bun.file(resolve(file));
+			if (!(await inputFile.exists())) {
+				console.error(`File not found: ${file}`);
+				process.exitCode = 1;
+				return;
+			}
+
+			try {
+				let mapping: ImportMapping | undefined;
+				if (options.mapping) {
+					const mappingFile = Bun.file(resolve(options.mapping));
+					if (!(await mappingFile.exists())) {
+						console.error(`Mapping file not found: ${options.mapping}`);
+						process.exitCode = 1;
+						return;
+					}
+					mapping = parseImportMapping(await mappingFile.text());
+				}
+				const config = await core.filesystem.loadConfig();
+				const { tasks, report } = convertExternalExport(source, await inputFile.text(), {
+					statuses: config?.statuses ?? [],
+					customFields: config?.customFields,
+					mapping,
+				});
+				if (tasks.length > 0) {
+					printImportResults(await core.importTasks(tasks, { dryRun }), dryRun);
+				} else {
+					console.log("No tasks found in file.");
+				}
+				console.log(`\n${formatImportReport(report)}`);
+				if (options.report) {
+					await Bun.write(resolve(options.report), `${JSON.stringify(report, null, 2)}\n`);
+				}
+			} catch (error) {
+				console.error(error instanceof Error ? error.message : String(error));
+				process.exitCode = 1;
+			}
+		});
+}
+
 const docCmd = program.command("doc");
 
 docCmd
@@ -2453,10 +3175,17 @@ docCmd
 docCmd
 	.command("list")
 	.option("--plain", "use plain text output instead of interactive UI")
+	.option("--json", "print documents as one JSON document")
+	.option("--ndjson", "print one JSON document per line")
 	.action(async (options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
 		const docs = await core.filesystem.listDocuments();
+		const structured = getStructuredOutput(options);
+		if (structured) {
+			printStructuredList(structured, "documents", "document", docs.map(serializeDocument));
+			return;
+		}
 		if (docs.length === 0) {
 			console.log("No docs found.");
 			return;
@@ -2679,6 +3408,7 @@ sequenceCmd
 	.command("list")
 	.description("list sequences (interactive by default; use --plain for text output)")
 	.option("--plain", "use plain text output instead of interactive UI")
+	.option("--json", "print sequences as JSON")
 	.action(async (options) => {
 		const cwd = await requireProjectRoot();
 		const core = new Core(cwd);
@@ -2687,6 +3417,11 @@ sequenceCmd
 		const activeTasks = tasks.filter((t) => (t.status || "").toLowerCase() !== "done");
 		const { unsequenced, sequences } = computeSequences(activeTasks);
 
+		if (getStructuredOutput(options)) {
+			console.log(formatJsonOutput("sequences", serializeSequences({ unsequenced, sequences })));
+			return;
+		}
+
 		// Workaround for bun compile issue with commander options
 		const isPlainFlag = options.plain || process.argv.includes("--plain");
 		if (isPlainFlag) {
@@ -2712,6 +3447,173 @@ sequenceCmd
 		await runSequencesView({ unsequenced, sequences }, core);
 	});
 
+sequenceCmd
+	.command("critical-path")
+	.description("show the longest dependency chain, the slack of every other task and dependency problems")
+	.option("--default-estimate <duration>", "weight of tasks without an estimate (e.g. 4h, 2d)", "1d")
+	.option("--json", "print the analysis as JSON")
+	.action(async (options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const defaultMinutes = parseDuration(options.defaultEstimate);
+		if (defaultMinutes === null) {
+			console.error(
+				`Default estimate must be a duration like 30m, 2h, 1h 30m or 1d. Received: ${options.defaultEstimate}`,
+			);
+			process.exitCode = 1;
+			return;
+		}
+		const report = await core.getCriticalPath({ defaultMinutes });
+		if (getStructuredOutput(options)) {
+			console.log(formatJsonOutput("critical-path", serializeCriticalPath(report)));
+			return;
+		}
+		console.log(formatCriticalPathReport(report, defaultMinutes));
+	});
+
+const recurCmd = program.command("recur").description("create tasks from recurring templates in backlog/templates");
+
+recurCmd
+	.command("run")
+	.description("create a task for every recurring template that is due since its last run")
+	.option("--dry-run", "list due templates without creating tasks")
+	.action(async (options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		try {
+			const runs = await core.runRecurringTemplates({ dryRun: Boolean(options.dryRun) });
+			if (runs.length === 0) {
+				console.log("No recurring templates are due.");
+				return;
+			}
+			for (const run of runs) {
+				console.log(
+					run.taskId
+						? `Created ${run.taskId} from ${run.template} (due ${run.occurrence})`
+						: `Due: ${run.template} (${run.occurrence})`,
+				);
+			}
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		}
+	});
+
+const notifyCmd = program.command("notify").description("inspect webhook notifications configured in config.yml");
+
+notifyCmd
+	.command("log")
+	.description("show recent webhook deliveries from the local delivery log")
+	.option("-n, --limit <count>", "number of deliveries to show", "20")
+	.action(async (options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const limit = Number.parseInt(String(options.limit), 10);
+		if (Number.isNaN(limit) || limit < 1) {
+			console.error("--limit must be a positive number.");
+			process.exitCode = 1;
+			return;
+		}
+		const deliveries = await core.filesystem.readNotificationLog(limit);
+		if (deliveries.length === 0) {
+			console.log("No webhook deliveries recorded.");
+			return;
+		}
+		for (const delivery of deliveries) {
+			const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`;
+			const result = delivery.ok
+				? `ok (${attempts})`
+				: `failed after ${attempts}: ${delivery.error ?? "unknown error"}`;
+			console.log(`${delivery.timestamp}  ${delivery.event}  ${result}  ${delivery.url}`);
+		}
+	});
+
+const migrateCmd = program.command("migrate").description("one-off migrations of the backlog's files");
+
+migrateCmd
+	.command("ids")
+	.description("give every task id a new prefix, renaming files and rewriting references to them")
+	.requiredOption("-p, --prefix <prefix>", "new task id prefix, e.g. BACK for BACK-12")
+	.option("--dry-run", "report what would change without writing anything")
+	.action(async (options: { prefix: string; dryRun?: boolean }) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		try {
+			const plan = await core.migrateTaskIds({ prefix: options.prefix, dryRun: options.dryRun });
+			console.log(formatIdMigrationPlan(plan, Boolean(options.dryRun)));
+		} catch (error) {
+			if (!(error instanceof IdMigrationError)) throw error;
+			console.error(error.message);
+			process.exitCode = 1;
+		}
+	});
+
+const viewCmd = program.command("view").aliases(["views"]).description("manage saved task views in backlog/views.yml");
+
+viewCmd
+	.command("list")
+	.description("list saved views")
+	.action(async () => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const views = await core.filesystem.listViews();
+		if (views.length === 0) {
+			console.log("No saved views. Create one with: backlog view save <name> --query <query>");
+			return;
+		}
+		for (const view of views) {
+			console.log(`${view.name}${view.description ? ` - ${view.description}` : ""}`);
+			console.log(`  ${describeSavedView(view)}`);
+		}
+	});
+
+viewCmd
+	.command("save <name>")
+	.description("create or replace a saved view")
+	.option("-q, --query <query>", "filter query, e.g. 'status:\"In Progress\" label:bug'")
+	.option("--sort <field>", "sort by priority, id, title, status, created, updated, due or a custom field")
+	.option("--group-by <grouping>", "group by none, status, milestone, assignee or label")
+	.option("--columns <columns>", "comma-separated columns, e.g. id,title,assignee,due")
+	.option("-d, --description <text>", "short description shown in view lists")
+	.action(async (name: string, options) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		const view: SavedView = {
+			name,
+			...(options.description && { description: String(options.description) }),
+			...(options.query && { query: String(options.query) }),
+			...(options.sort && { sort: String(options.sort).toLowerCase() }),
+			...(options.groupBy && { groupBy: String(options.groupBy).toLowerCase() as SavedView["groupBy"] }),
+			...(options.columns && {
+				columns: String(options.columns)
+					.split(",")
+					.map((column) => column.trim().toLowerCase())
+					.filter(Boolean) as SavedView["columns"],
+			}),
+		};
+		try {
+			await core.saveView(view);
+			console.log(`Saved view ${name}. Use it with: backlog task list --view ${name}`);
+		} catch (error) {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 1;
+		}
+	});
+
+viewCmd
+	.command("delete <name>")
+	.description("delete a saved view")
+	.action(async (name: string) => {
+		const cwd = await requireProjectRoot();
+		const core = new Core(cwd);
+		if (await core.deleteView(name)) {
+			console.log(`Deleted view ${name}.`);
+		} else {
+			console.error(`View not found: ${name}`);
+			process.exitCode = 1;
+		}
+	});
+
 configCmd
 	.command("get <key>")
 	.description("get a configuration value")
@@ -2775,16 +3677,25 @@ configCmd
 				case "zeroPaddedIds":
 					console.log(config.zeroPaddedIds?.toString() || "(disabled)");
 					break;
+				case "taskPrefix":
+					console.log(config.taskPrefix || DEFAULT_TASK_PREFIX);
+					break;
 				case "checkActiveBranches":
 					console.log(config.checkActiveBranches?.toString() || "true");
 					break;
 				case "activeBranchDays":
 					console.log(config.activeBranchDays?.toString() || "30");
 					break;
+				case "autoCompleteParents":
+					console.log(config.autoCompleteParents?.toString() || "false");
+					break;
+				case "timezonePreference":
+					console.log(config.timezonePreference || "local");
+					break;
 				default:
 					console.error(`Unknown config key: ${key}`);
 					console.error(
-						"Available keys: defaultEditor, projectName, defaultStatus, statuses, labels, milestones, dateFormat, maxColumnWidth, defaultPort, autoOpenBrowser, remoteOperations, autoCommit, bypassGitHooks, zeroPaddedIds, checkActiveBranches, activeBranchDays",
+						"Available keys: defaultEditor, projectName, defaultStatus, statuses, labels, milestones, dateFormat, maxColumnWidth, defaultPort, autoOpenBrowser, remoteOperations, autoCommit, bypassGitHooks, zeroPaddedIds, taskPrefix, checkActiveBranches, activeBranchDays, autoCompleteParents, timezonePreference",
 					);
 					process.exit(1);
 			}
@@ -2928,6 +3839,36 @@ configCmd
 					config.activeBranchDays = days;
 					break;
 				}
+				case "autoCompleteParents": {
+					const boolValue = value.toLowerCase();
+					if (boolValue === "true" || boolValue === "1" || boolValue === "yes") {
+						config.autoCompleteParents = true;
+					} else if (boolValue === "false" || boolValue === "0" || boolValue === "no") {
+						config.autoCompleteParents = false;
+					} else {
+						console.error("autoCompleteParents must be true or false");
+						process.exit(1);
+					}
+					break;
+				}
+				case "timezonePreference": {
+					const zone = value.trim();
+					if (zone.toLowerCase() !== "local") {
+						try {
+							new Intl.DateTimeFormat("en-US", { timeZone: zone });
+						} catch {
+							console.error("timezonePreference must be 'local' or an IANA time zone such as UTC or Europe/Berlin.");
+							process.exit(1);
+						}
+					}
+					config.timezonePreference = zone.toLowerCase() === "local" ? undefined : zone;
+					break;
+				}
+				case "taskPrefix":
+					console.error("taskPrefix cannot be set directly, existing task files would keep the old prefix.");
+					console.error(`Use 'backlog migrate ids --prefix ${value}' to rename tasks and rewrite references to them.`);
+					process.exit(1);
+					break;
 				case "statuses":
 				case "labels":
 				case "milestones":
@@ -2938,7 +3879,7 @@ configCmd
 				default:
 					console.error(`Unknown config key: ${key}`);
 					console.error(
-						"Available keys: defaultEditor, projectName, defaultStatus, dateFormat, maxColumnWidth, autoOpenBrowser, defaultPort, remoteOperations, autoCommit, bypassGitHooks, zeroPaddedIds, checkActiveBranches, activeBranchDays",
+						"Available keys: defaultEditor, projectName, defaultStatus, dateFormat, maxColumnWidth, autoOpenBrowser, defaultPort, remoteOperations, autoCommit, bypassGitHooks, zeroPaddedIds, taskPrefix, checkActiveBranches, activeBranchDays, autoCompleteParents, timezonePreference",
 					);
 					process.exit(1);
 			}
@@ -2954,7 +3895,8 @@ configCmd
 configCmd
 	.command("list")
 	.description("list all configuration values")
-	.action(async () => {
+	.option("--json", "print the configuration as JSON")
+	.action(async (options: { json?: boolean }) => {
 		try {
 			const cwd = await requireProjectRoot();
 			const core = new Core(cwd);
@@ -2965,6 +3907,11 @@ configCmd
 				process.exit(1);
 			}
 
+			if (getStructuredOutput(options)) {
+				console.log(formatJsonOutput("config", serializeConfig(config)));
+				return;
+			}
+
 			console.log("Configuration:");
 			console.log(`  projectName: ${config.projectName}`);
 			console.log(`  defaultEditor: ${config.defaultEditor || "(not set)"}`);
@@ -2980,8 +3927,11 @@ configCmd
 			console.log(`  autoCommit: ${config.autoCommit ?? "(not set)"}`);
 			console.log(`  bypassGitHooks: ${config.bypassGitHooks ?? "(not set)"}`);
 			console.log(`  zeroPaddedIds: ${config.zeroPaddedIds ?? "(disabled)"}`);
+			console.log(`  taskPrefix: ${config.taskPrefix || DEFAULT_TASK_PREFIX}`);
 			console.log(`  checkActiveBranches: ${config.checkActiveBranches ?? "true"}`);
 			console.log(`  activeBranchDays: ${config.activeBranchDays ?? "30"}`);
+			console.log(`  autoCompleteParents: ${config.autoCompleteParents ?? "false"}`);
+			console.log(`  timezonePreference: ${config.timezonePreference || "local"}`);
 		} catch (err) {
 			console.error("Failed to list config values", err);
 			process.exitCode = 1;
@@ -3191,6 +4141,128 @@ program
 		}
 	});
 
+// Stats command for lead and cycle time analytics
+program
+	.command("stats")
+	.description("show lead time and cycle time percentiles for done tasks")
+	.option("--since <date>", "only include tasks completed on or after this date (YYYY-MM-DD)")
+	.option("--by <groups>", "comma-separated groupings: label, assignee, priority (default: all)")
+	.action(async (options: { since?: string; by?: string }) => {
+		try {
+			const cwd = await requireProjectRoot();
+			const core = new Core(cwd);
+
+			if (options.since && !/^\d{4}-\d{2}-\d{2}$/.test(options.since)) {
+				console.error(`Invalid --since date: ${options.since}. Use YYYY-MM-DD.`);
+				process.exitCode = 1;
+				return;
+			}
+
+			const groupings = options.by
+				? options.by
+						.split(",")
+						.map((value) => value.trim().toLowerCase())
+						.filter(Boolean)
+				: FLOW_GROUPINGS;
+			const invalid = groupings.filter((value) => !FLOW_GROUPINGS.includes(value as FlowGrouping));
+			if (invalid.length > 0) {
+				console.error(`Invalid --by value(s): ${invalid.join(", ")}. Valid: ${FLOW_GROUPINGS.join(", ")}`);
+				process.exitCode = 1;
+				return;
+			}
+
+			const stats = await core.getFlowStatistics({ since: options.since });
+			console.log(
+				formatFlowStatisticsPlainText(stats, { groupings: groupings as FlowGrouping[], since: options.since }),
+			);
+		} catch (err) {
+			console.error("Failed to compute stats", err);
+			process.exitCode = 1;
+		}
+	});
+
+// Doctor command, checking backlog/assets against what refers to it
+program
+	.command("doctor")
+	.description("find orphaned files in backlog/assets and attachments whose file is missing")
+	.option("--remove-orphans", "delete assets that nothing attaches or links to")
+	.action(async (options: { removeOrphans?: boolean }) => {
+		try {
+			const cwd = await requireProjectRoot();
+			const core = new Core(cwd);
+			const report = await core.checkAssets();
+
+			if (options.removeOrphans && report.orphaned.length > 0) {
+				for (const path of report.orphaned) {
+					await core.filesystem.deleteAsset(path);
+				}
+				console.log(`Removed ${report.orphaned.length} orphaned asset(s).`);
+				report.orphaned = [];
+			}
+
+			console.log(formatAssetReport(report));
+			if (report.orphaned.length > 0 || report.missing.length > 0) {
+				process.exitCode = 1;
+			}
+		} catch (err) {
+			console.error("Failed to check the backlog", err);
+			process.exitCode = 1;
+		}
+	});
+
+// Undo and redo commands, replaying the journal of Core operations
+for (const direction of ["undo", "redo"] as const) {
+	const command = program
+		.command(`${direction} [count]`)
+		.description(
+			direction === "undo"
+				? "revert the last backlog operation(s) made through the CLI, MCP or web UI"
+				: "re-apply the last undone operation(s)",
+		)
+		.option("--force", "overwrite files that were changed outside backlog since")
+		.option("--list", "show the operations that can be undone and redone");
+	command.action(async (count: string | undefined, options: { force?: boolean; list?: boolean }) => {
+		try {
+			const cwd = await requireProjectRoot();
+			const core = new Core(cwd);
+
+			if (options.list || process.argv.includes("--list")) {
+				const journal = await core.listJournal();
+				const sections = [
+					journal.undo.length > 0 ? `Undo:\n${formatJournalEntries(journal.undo, "  ")}` : "Nothing to undo",
+					journal.redo.length > 0 ? `Redo:\n${formatJournalEntries(journal.redo, "  ")}` : "Nothing to redo",
+				];
+				console.log(sections.join("\n\n"));
+				return;
+			}
+
+			const steps = count === undefined ? 1 : Number.parseInt(count, 10);
+			if (!Number.isInteger(steps) || steps < 1) {
+				console.error(`Invalid count: ${count}. Use a positive number.`);
+				process.exitCode = 1;
+				return;
+			}
+
+			const force = options.force || process.argv.includes("--force");
+			const replayed = direction === "undo" ? await core.undo(steps, { force }) : await core.redo(steps, { force });
+			console.log(formatJournalEntries(replayed, direction === "undo" ? "Undid: " : "Redid: "));
+			if (replayed.length < steps) {
+				console.log(`Only ${replayed.length} operation(s) to ${direction}.`);
+			}
+		} catch (err) {
+			if (err instanceof JournalError) {
+				console.error(err.message);
+				if (err.conflicts.length > 0) {
+					console.error(`Use --force to ${direction} anyway and overwrite those changes.`);
+				}
+			} else {
+				console.error(`Failed to ${direction}`, err);
+			}
+			process.exitCode = 1;
+		}
+	});
+}
+
 // Completion command group
 registerCompletionCommand(program);
 
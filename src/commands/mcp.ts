@@ -1,15 +1,20 @@
 /**
  * MCP Command Group - Model Context Protocol CLI commands.
  *
- * This simplified command set focuses on the stdio transport, which is the
- * only supported transport for Backlog.md's local MCP integration.
+ * The stdio transport is the default for local editor integrations. The
+ * Streamable HTTP transport (`--http`) lets several agents share one server
+ * and is configured through the `mcp.http` section of backlog/config.yml.
  */
 
 import type { Command } from "commander";
+import { isLoopbackHost, resolveMcpHttpOptions } from "../mcp/http-transport.ts";
 import { createMcpServer } from "../mcp/server.ts";
 
 type StartOptions = {
 	debug?: boolean;
+	http?: boolean;
+	host?: string;
+	port?: string;
 };
 
 /**
@@ -23,22 +28,48 @@ export function registerMcpCommand(program: Command): void {
 }
 
 /**
- * Register 'mcp start' command for stdio transport.
+ * Register 'mcp start' command for stdio or Streamable HTTP transport.
  */
 function registerStartCommand(mcpCmd: Command): void {
 	mcpCmd
 		.command("start")
-		.description("Start the MCP server using stdio transport")
+		.description("Start the MCP server using stdio transport (or Streamable HTTP with --http)")
 		.option("-d, --debug", "Enable debug logging", false)
+		.option("--http", "serve the Streamable HTTP transport instead of stdio (uses mcp.http config)", false)
+		.option("--host <host>", "host to bind the HTTP transport to (overrides mcp.http.host)")
+		.option("-p, --port <port>", "port for the HTTP transport (overrides mcp.http.port)")
 		.action(async (options: StartOptions) => {
 			try {
 				const server = await createMcpServer(process.cwd(), { debug: options.debug });
 
-				await server.connect();
-				await server.start();
+				if (options.http) {
+					let port: number | undefined;
+					if (options.port !== undefined) {
+						port = Number.parseInt(options.port, 10);
+						if (Number.isNaN(port)) {
+							throw new Error(`Invalid port: ${options.port}`);
+						}
+					}
+					const config = await server.filesystem.loadConfig();
+					const httpOptions = resolveMcpHttpOptions(config, { host: options.host, port, debug: options.debug });
+
+					if (!isLoopbackHost(httpOptions.host) && httpOptions.auth.type === "none") {
+						console.error(
+							`Warning: MCP HTTP transport is bound to ${httpOptions.host} without authentication. Configure mcp.http.auth to restrict access.`,
+						);
+					}
 
-				if (options.debug) {
-					console.error("Backlog.md MCP server started (stdio transport)");
+					const handle = await server.connectHttp(httpOptions);
+					await server.start();
+					// stdout is free in HTTP mode, so announce the endpoint there
+					console.log(`Backlog.md MCP server listening at ${handle.url}`);
+				} else {
+					await server.connect();
+					await server.start();
+
+					if (options.debug) {
+						console.error("Backlog.md MCP server started (stdio transport)");
+					}
 				}
 
 				const shutdown = async (signal: string) => {
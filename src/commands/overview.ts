@@ -29,7 +29,7 @@ export async function runOverviewCommand(core: Core): Promise<void> {
 
 		// Calculate statistics
 		const statsStart = performance.now();
-		const statistics = getTaskStatistics(activeTasks, drafts, statuses);
+		const statistics = getTaskStatistics(activeTasks, drafts, statuses, { today: await core.getToday() });
 		const statsTime = Math.round(performance.now() - statsStart);
 
 		// Display the TUI
@@ -22,6 +22,10 @@ export const DEFAULT_DIRECTORIES = {
 	DECISIONS: "decisions",
 	/** Milestones directory */
 	MILESTONES: "milestones",
+	/** Task templates directory */
+	TEMPLATES: "templates",
+	/** Attachments and other files linked from tasks and docs */
+	ASSETS: "assets",
 } as const;
 
 /**
@@ -32,6 +36,14 @@ export const DEFAULT_FILES = {
 	CONFIG: "config.yml",
 	/** Local user settings file */
 	USER: ".user",
+	/** Last-run state of recurring templates, inside the templates directory */
+	RECUR_STATE: "recur-state.json",
+	/** Local webhook delivery log (JSON lines), kept in `.git` (or the project root outside git) so it is not committed */
+	NOTIFICATION_LOG: ".backlog-notifications.log",
+	/** Local undo/redo journal, kept in `.git` (or the project root outside git) so it is not committed */
+	JOURNAL: ".backlog-journal.json",
+	/** Saved task list views, inside the backlog directory */
+	VIEWS: "views.yml",
 } as const;
 
 /**
@@ -0,0 +1,85 @@
+import { basename, extname } from "node:path";
+
+export class AttachmentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "AttachmentError";
+	}
+}
+
+/** Attachments are committed with the backlog, so keep them small */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".svg", ".webp", ".avif"]);
+
+export function isImageAsset(path: string): boolean {
+	return IMAGE_EXTENSIONS.has(extname(path).toLowerCase());
+}
+
+/**
+ * File name safe to store under backlog/assets: no directories, and only
+ * characters that need no escaping in markdown links or URLs
+ */
+export function sanitizeAssetName(name: string): string {
+	const base = basename(name.replace(/\\/g, "/")).trim();
+	const cleaned = base
+		.replace(/\s+/g, "-")
+		.replace(/[^A-Za-z0-9._-]/g, "")
+		.replace(/^\.+/, "");
+	return cleaned || "attachment";
+}
+
+/** `name.ext`, `name-1.ext`, `name-2.ext`, ... */
+export function numberedAssetName(name: string, attempt: number): string {
+	if (attempt === 0) return name;
+	const extension = extname(name);
+	return `${name.slice(0, name.length - extension.length)}-${attempt}${extension}`;
+}
+
+export interface AssetReport {
+	/** Assets no task lists as an attachment and no task, document or decision links to */
+	orphaned: string[];
+	/** Attachments whose file is gone from backlog/assets */
+	missing: Array<{ id: string; path: string }>;
+}
+
+/**
+ * Compare the files under backlog/assets (paths relative to it) with the
+ * attachments recorded on tasks and the markdown that may link to assets
+ * directly, e.g. `![screenshot](../assets/login.png)`
+ */
+export function checkAssets(
+	assets: string[],
+	owners: Array<{ id: string; attachments?: string[]; content?: string }>,
+): AssetReport {
+	const available = new Set(assets);
+	const attached = new Set<string>();
+	const missing: AssetReport["missing"] = [];
+	for (const owner of owners) {
+		for (const path of owner.attachments ?? []) {
+			attached.add(path);
+			if (!available.has(path)) {
+				missing.push({ id: owner.id, path });
+			}
+		}
+	}
+	const contents = owners.map((owner) => owner.content ?? "").join("\n");
+	const orphaned = assets.filter((path) => !attached.has(path) && !contents.includes(`assets/${path}`)).sort();
+	return { orphaned, missing };
+}
+
+export function formatAssetReport(report: AssetReport): string {
+	if (report.orphaned.length === 0 && report.missing.length === 0) {
+		return "No problems found in backlog/assets.";
+	}
+	const lines: string[] = [];
+	if (report.orphaned.length > 0) {
+		lines.push(`Orphaned assets (${report.orphaned.length}), not attached to or linked from anything:`);
+		lines.push(...report.orphaned.map((path) => `  backlog/assets/${path}`));
+	}
+	if (report.missing.length > 0) {
+		lines.push(`Missing attachments (${report.missing.length}):`);
+		lines.push(...report.missing.map((entry) => `  ${entry.id}: backlog/assets/${entry.path}`));
+	}
+	return lines.join("\n");
+}
@@ -1,5 +1,7 @@
-import { join } from "node:path";
-import { DEFAULT_DIRECTORIES, DEFAULT_STATUSES, FALLBACK_STATUS } from "../constants/index.ts";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { unlink } from "node:fs/promises";
+import { basename, join, relative } from "node:path";
+import { DEFAULT_DIRECTORIES, DEFAULT_FILES, DEFAULT_STATUSES, FALLBACK_STATUS } from "../constants/index.ts";
 import { FileSystem } from "../file-system/operations.ts";
 import { GitOperations } from "../git/operations.ts";
 import type {
@@ -7,16 +9,22 @@ import type {
 	BacklogConfig,
 	Decision,
 	Document,
+	NotificationEvent,
+	SavedView,
 	SearchFilters,
 	Sequence,
 	Task,
 	TaskCreateInput,
 	TaskListFilter,
+	TaskRelation,
+	TaskRelationType,
 	TaskUpdateInput,
+	TaskUpdateResult,
 } from "../types/index.ts";
-import { isLocalEditableTask } from "../types/index.ts";
+import { isLocalEditableTask, TASK_RELATION_TYPES } from "../types/index.ts";
 import { normalizeAssignee } from "../utils/assignee.ts";
 import { documentIdsEqual } from "../utils/document-id.ts";
+import { normalizeDuration } from "../utils/duration.ts";
 import { openInEditor } from "../utils/editor.ts";
 import {
 	getCanonicalStatus as resolveCanonicalStatus,
@@ -26,15 +34,69 @@ import { executeStatusCallback } from "../utils/status-callback.ts";
 import {
 	normalizeDependencies,
 	normalizeStringList,
+	resolveDefaultAuthor,
 	stringArraysEqual,
 	validateDependencies,
 } from "../utils/task-builders.ts";
 import { getTaskFilename, getTaskPath, normalizeTaskId, taskIdsEqual } from "../utils/task-path.ts";
+import {
+	DEFAULT_TASK_PREFIX,
+	hasTaskPrefix,
+	isTaskId,
+	isValidTaskPrefix,
+	resolveTaskPrefix,
+	stripTaskPrefix,
+	taskIdFromFilename,
+} from "../utils/task-prefix.ts";
+import { sortByTaskId } from "../utils/task-sorting.ts";
+import { type AssetReport, AttachmentError, checkAssets, MAX_ATTACHMENT_BYTES, sanitizeAssetName } from "./assets.ts";
+import { BulkEditError, type BulkEditResult } from "./bulk-edit.ts";
 import { migrateConfig, needsMigration } from "./config-migration.ts";
 import { ContentStore } from "./content-store.ts";
+import { type CriticalPathReport, computeCriticalPath } from "./critical-path.ts";
+import { applyCustomFieldValues } from "./custom-fields.ts";
+import {
+	computeFlowStatistics,
+	type FlowStatistics,
+	type FlowStatisticsOptions,
+	groupGitStatusHistory,
+} from "./cycle-time.ts";
+import { assertDateOrder, getTodayInTimezone, isDueWithin, isOverdue, normalizeTaskDate } from "./due-dates.ts";
+import {
+	buildIdMap,
+	IdMigrationError,
+	type IdMigrationPlan,
+	renameTaskFile,
+	rewriteTaskReferences,
+} from "./id-migration.ts";
+import {
+	applyJournalChanges,
+	findJournalConflicts,
+	JOURNAL_LIMIT,
+	type JournalEntry,
+	type JournalEntrySummary,
+	JournalError,
+	JournalRecorder,
+	type JournalReplayOptions,
+	type JournalState,
+	summarizeJournalEntry,
+} from "./journal.ts";
+import { computeTaskMetrics, groupGitStatusEvents, type TaskMetrics } from "./metrics.ts";
+import { isDoneStatus } from "./milestones.ts";
+import {
+	buildNotificationPayload,
+	dispatchNotification,
+	type NotificationChanges,
+	type NotificationSubject,
+	type PendingNotification,
+} from "./notifications.ts";
+import { formatOccurrence, getLatestOccurrence, parseRecurrenceRule, type RecurringTaskRun } from "./recurrence.ts";
+import { isTaskRelationType } from "./relations.ts";
 import { calculateNewOrdinal, DEFAULT_ORDINAL_STEP, resolveOrdinalConflicts } from "./reorder.ts";
+import { RestoreError, type RestoreSource, type RestoreTaskResult } from "./restore.ts";
 import { SearchService } from "./search-service.ts";
 import { computeSequences, planMoveToSequence, planMoveToUnsequenced } from "./sequences.ts";
+import { getSubtasks } from "./subtask-tree.ts";
 import {
 	type BranchTaskStateEntry,
 	findTaskInLocalBranches,
@@ -44,6 +106,25 @@ import {
 	loadRemoteTasks,
 	resolveTaskConflict,
 } from "./task-loader.ts";
+import { compileTaskQuery, type TaskPredicate, type TaskQueryContext } from "./task-query.ts";
+import {
+	buildExportRecord,
+	DEFAULT_EXPORT_FIELDS,
+	type ExportField,
+	type ExportRecord,
+	type ExportSource,
+	findImportedTask,
+	formatTaskExport,
+	type ImportedTask,
+	type ImportedTaskResult,
+	orderImportedTasks,
+	TaskTransferError,
+	type TransferFormat,
+} from "./task-transfer.ts";
+import { buildTaskInputFromTemplate } from "./templates.ts";
+import { assertTransitionAllowed, TransitionError } from "./transitions.ts";
+import { buildViewResult, getSavedViewError, type ViewResult } from "./views.ts";
+import { getWipViolations, WipLimitError } from "./wip-limits.ts";
 
 interface BlessedScreen {
 	program: {
@@ -115,12 +196,36 @@ function filterTasksByStateSnapshots(tasks: Task[], latestState: Map<string, Bra
 	});
 }
 
+// Task fields whose changes are reported in task.updated notifications
+const NOTIFIED_TASK_FIELDS = [
+	"title",
+	"description",
+	"status",
+	"priority",
+	"assignee",
+	"labels",
+	"milestone",
+	"dependencies",
+	"acceptanceCriteriaItems",
+	"implementationPlan",
+	"implementationNotes",
+	"startDate",
+	"dueDate",
+	"estimate",
+	"remaining",
+	"customFields",
+] as const satisfies ReadonlyArray<keyof Task>;
+
 export class Core {
 	public fs: FileSystem;
 	public git: GitOperations;
 	private contentStore?: ContentStore;
 	private searchService?: SearchService;
 	private readonly enableWatchers: boolean;
+	// Set inside an operation; holds the notifications to send once it is done
+	private readonly journalScope = new AsyncLocalStorage<PendingNotification[]>();
+	private journalQueue: Promise<unknown> = Promise.resolve();
+	private notificationQueue: Promise<void> = Promise.resolve();
 
 	constructor(projectRoot: string, options?: { enableWatchers?: boolean }) {
 		this.fs = new FileSystem(projectRoot);
@@ -140,6 +245,12 @@ export class Core {
 		return this.contentStore;
 	}
 
+	/** Relations stored on the task plus the inverses computed from other tasks */
+	async getTaskRelations(taskId: string): Promise<TaskRelation[]> {
+		const store = await this.getContentStore();
+		return store.getTaskRelations(taskId);
+	}
+
 	async getSearchService(): Promise<SearchService> {
 		if (!this.searchService) {
 			const store = await this.getContentStore();
@@ -149,7 +260,12 @@ export class Core {
 		return this.searchService;
 	}
 
-	private applyTaskFilters(tasks: Task[], filters?: TaskListFilter): Task[] {
+	private applyTaskFilters(
+		tasks: Task[],
+		filters: TaskListFilter | undefined,
+		today: string,
+		matchesQuery?: TaskPredicate,
+	): Task[] {
 		if (!filters) {
 			return tasks;
 		}
@@ -181,9 +297,41 @@ export class Core {
 				});
 			}
 		}
+		if (filters.overdue) {
+			result = result.filter((task) => isOverdue(task, today));
+		}
+		if (filters.dueBefore || filters.dueAfter) {
+			const range = { dueBefore: filters.dueBefore, dueAfter: filters.dueAfter };
+			result = result.filter((task) => isDueWithin(task, range));
+		}
+		if (matchesQuery) {
+			result = result.filter(matchesQuery);
+		}
 		return result;
 	}
 
+	/**
+	 * What a filter query needs to resolve `@me`, relative dates and milestone
+	 * titles
+	 */
+	async getTaskQueryContext(): Promise<TaskQueryContext> {
+		const [today, currentUser, milestones, config] = await Promise.all([
+			this.getToday(),
+			resolveDefaultAuthor(this),
+			this.fs.listMilestones(),
+			this.fs.loadConfig(),
+		]);
+		return { today, currentUser, milestones, customFields: config?.customFields };
+	}
+
+	/**
+	 * Today's date in the configured `timezonePreference`, for due date checks
+	 */
+	async getToday(now: Date = new Date()): Promise<string> {
+		const config = await this.fs.loadConfig();
+		return getTodayInTimezone(config?.timezonePreference, now);
+	}
+
 	private filterLocalEditableTasks(tasks: Task[]): Task[] {
 		return tasks.filter(isLocalEditableTask);
 	}
@@ -213,9 +361,14 @@ export class Core {
 		const { filters, query, limit } = options;
 		const trimmedQuery = query?.trim();
 		const includeCrossBranch = options.includeCrossBranch ?? true;
+		const today = filters?.overdue ? await this.getToday() : "";
+		// Compiled before loading so a malformed query fails fast
+		const matchesQuery = filters?.query?.trim()
+			? compileTaskQuery(filters.query, await this.getTaskQueryContext())
+			: undefined;
 
 		const applyFiltersAndLimit = (collection: Task[]): Task[] => {
-			let filtered = this.applyTaskFilters(collection, filters);
+			let filtered = this.applyTaskFilters(collection, filters, today, matchesQuery);
 			if (!includeCrossBranch) {
 				filtered = this.filterLocalEditableTasks(filtered);
 			}
@@ -248,7 +401,8 @@ export class Core {
 
 		const searchResults = searchService.search({
 			query: trimmedQuery,
-			limit,
+			// The filter query runs afterwards and would shrink a pre-limited list
+			limit: matchesQuery ? undefined : limit,
 			types: ["task"],
 			filters: Object.keys(searchFilters).length > 0 ? searchFilters : undefined,
 		});
@@ -274,12 +428,12 @@ export class Core {
 			return match;
 		}
 
-		const canonicalId = normalizeTaskId(taskId);
+		const canonicalId = normalizeTaskId(taskId, await this.fs.getTaskPrefix());
 		return await this.fs.loadTask(canonicalId);
 	}
 
 	async loadTaskById(taskId: string): Promise<Task | null> {
-		const canonicalId = normalizeTaskId(taskId);
+		const canonicalId = normalizeTaskId(taskId, await this.fs.getTaskPrefix());
 
 		// First try local filesystem
 		const localTask = await this.fs.loadTask(canonicalId);
@@ -380,6 +534,145 @@ export class Core {
 		return config?.autoCommit ?? false;
 	}
 
+	/**
+	 * Run a mutation as one undoable operation: every backlog file it writes,
+	 * moves or deletes is recorded in the journal with its contents before and
+	 * after. Operations nested inside another belong to the outer one, and
+	 * operations run one at a time so their changes do not mix. Notifications
+	 * raised along the way are sent once the operation has finished.
+	 */
+	async recordOperation<T>(describe: string | ((result: T) => string), mutate: () => Promise<T>): Promise<T> {
+		if (this.journalScope.getStore()) {
+			return await mutate();
+		}
+		const pending: PendingNotification[] = [];
+		const result = await this.enqueueJournal(() =>
+			this.journalScope.run(pending, async () => {
+				const recorder = new JournalRecorder(this.fs.rootDir);
+				// A failed operation may still have written some files, which stay undoable
+				let operation = typeof describe === "string" ? describe : "Incomplete operation";
+				try {
+					const result = await this.fs.recordWrites(recorder, mutate);
+					if (typeof describe === "function") {
+						operation = describe(result);
+					}
+					return result;
+				} finally {
+					const changes = await recorder.changes();
+					if (changes.length > 0) {
+						await this.fs.withJournalLock(async () => {
+							let journal: JournalState;
+							try {
+								journal = await this.fs.readJournal();
+							} catch (error) {
+								// Leave the damaged journal for the user to look at rather than overwrite its history
+								if (!(error instanceof JournalError)) throw error;
+								console.warn(`Warning: ${error.message}. "${operation}" cannot be undone.`);
+								return;
+							}
+							const entry = { id: crypto.randomUUID(), at: new Date().toISOString(), operation, changes };
+							journal.undo = [...journal.undo, entry].slice(-JOURNAL_LIMIT);
+							journal.redo = [];
+							await this.fs.writeJournal(journal);
+						});
+					}
+				}
+			}),
+		);
+		this.queueNotifications(pending);
+		return result;
+	}
+
+	private enqueueJournal<T>(run: () => Promise<T>): Promise<T> {
+		const result = this.journalQueue.then(run, run);
+		this.journalQueue = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Operations that can be undone and redone, most recent first
+	 */
+	async listJournal(): Promise<{ undo: JournalEntrySummary[]; redo: JournalEntrySummary[] }> {
+		const journal = await this.fs.readJournal();
+		return {
+			undo: journal.undo.map(summarizeJournalEntry).reverse(),
+			redo: journal.redo.map(summarizeJournalEntry).reverse(),
+		};
+	}
+
+	/**
+	 * Revert the last `count` operations, newest first. An operation whose files
+	 * were changed outside the journal since is refused unless `force` is set.
+	 * With `expectedId`, nothing is reverted unless the latest operation is that
+	 * entry, e.g. the one a web toast offered to undo.
+	 */
+	async undo(count = 1, options: JournalReplayOptions = {}): Promise<JournalEntrySummary[]> {
+		return await this.replayJournal("undo", count, options);
+	}
+
+	/**
+	 * Apply the last `count` undone operations again
+	 */
+	async redo(count = 1, options: JournalReplayOptions = {}): Promise<JournalEntrySummary[]> {
+		return await this.replayJournal("redo", count, options);
+	}
+
+	private async replayJournal(
+		direction: "undo" | "redo",
+		count: number,
+		options: JournalReplayOptions,
+	): Promise<JournalEntrySummary[]> {
+		return await this.enqueueJournal(() =>
+			this.fs.withJournalLock(async () => {
+				const root = this.fs.rootDir;
+				const journal = await this.fs.readJournal();
+				const [from, to] = direction === "undo" ? [journal.undo, journal.redo] : [journal.redo, journal.undo];
+				const [expected, target] =
+					direction === "undo" ? (["after", "before"] as const) : (["before", "after"] as const);
+				if (from.length === 0) {
+					throw new JournalError(`Nothing to ${direction}`);
+				}
+				const latest = from.at(-1);
+				if (options.expectedId && latest?.id !== options.expectedId) {
+					throw new JournalError(
+						`Cannot ${direction}: "${latest?.operation}" happened since, so the operation shown is no longer the latest`,
+					);
+				}
+
+				const replayed: JournalEntry[] = [];
+				try {
+					for (let step = 0; step < count; step++) {
+						const entry = from.at(-1);
+						if (!entry) break;
+						const conflicts = await findJournalConflicts(root, entry.changes, expected);
+						if (conflicts.length > 0 && !options.force) {
+							throw new JournalError(
+								`Cannot ${direction} "${entry.operation}": ${conflicts.join(", ")} changed since`,
+								conflicts,
+							);
+						}
+						await applyJournalChanges(root, entry.changes, target);
+						from.pop();
+						to.push(entry);
+						replayed.push(entry);
+					}
+				} finally {
+					if (replayed.length > 0) {
+						if (to.length > JOURNAL_LIMIT) to.splice(0, to.length - JOURNAL_LIMIT);
+						await this.fs.writeJournal(journal);
+						this.fs.invalidateConfigCache();
+						if (await this.shouldAutoCommit(options.autoCommit)) {
+							const verb = direction === "undo" ? "Undo" : "Redo";
+							await this.git.stageBacklogDirectory(await this.getBacklogDirectoryName());
+							await this.git.commitChanges(`backlog: ${verb} ${replayed.map((entry) => entry.operation).join(", ")}`);
+						}
+					}
+				}
+				return replayed.map(summarizeJournalEntry);
+			}),
+		);
+	}
+
 	async getGitOps() {
 		await this.ensureConfigLoaded();
 		return this.git;
@@ -432,7 +725,8 @@ export class Core {
 		}
 
 		if (parent) {
-			const prefix = allIds.find((id) => taskIdsEqual(parent, id)) ?? normalizeTaskId(parent);
+			const prefix =
+				allIds.find((id) => taskIdsEqual(parent, id)) ?? normalizeTaskId(parent, resolveTaskPrefix(config));
 			let max = 0;
 			for (const id of allIds) {
 				if (id.startsWith(`${prefix}.`)) {
@@ -454,7 +748,8 @@ export class Core {
 
 		let max = 0;
 		for (const id of allIds) {
-			const match = id.match(/^task-(\d+)/);
+			// Numbers used under an earlier prefix are not handed out again
+			const match = isTaskId(id) ? stripTaskPrefix(id).match(/^(\d+)/) : null;
 			if (match) {
 				const num = Number.parseInt(match[1] || "0", 10);
 				if (num > max) max = num;
@@ -465,10 +760,10 @@ export class Core {
 
 		if (padding && padding > 0) {
 			const paddedId = String(nextIdNumber).padStart(padding, "0");
-			return `task-${paddedId}`;
+			return normalizeTaskId(paddedId, resolveTaskPrefix(config));
 		}
 
-		return `task-${nextIdNumber}`;
+		return normalizeTaskId(String(nextIdNumber), resolveTaskPrefix(config));
 	}
 
 	// High-level operations that combine filesystem and git
@@ -490,63 +785,54 @@ export class Core {
 		},
 		autoCommit?: boolean,
 	): Promise<Task> {
-		const id = await this.generateNextId(taskData.parentTaskId);
-
-		const task: Task = {
-			id,
-			title: taskData.title,
-			status: taskData.status || "",
-			assignee: taskData.assignee || [],
-			labels: taskData.labels || [],
-			dependencies: taskData.dependencies || [],
-			rawContent: "",
-			createdDate: new Date().toISOString().slice(0, 16).replace("T", " "),
-			...(taskData.parentTaskId && { parentTaskId: taskData.parentTaskId }),
-			...(taskData.priority && { priority: taskData.priority }),
-			...(typeof taskData.milestone === "string" &&
-				taskData.milestone.trim().length > 0 && {
-					milestone: taskData.milestone.trim(),
-				}),
-			...(typeof taskData.description === "string" && { description: taskData.description }),
-			...(Array.isArray(taskData.acceptanceCriteriaItems) &&
-				taskData.acceptanceCriteriaItems.length > 0 && {
-					acceptanceCriteriaItems: taskData.acceptanceCriteriaItems,
-				}),
-			...(typeof taskData.implementationPlan === "string" && { implementationPlan: taskData.implementationPlan }),
-			...(typeof taskData.implementationNotes === "string" && { implementationNotes: taskData.implementationNotes }),
-		};
-
-		// Check if this should be a draft based on status
-		if (task.status && task.status.toLowerCase() === "draft") {
-			await this.createDraft(task, autoCommit);
-		} else {
-			await this.createTask(task, autoCommit);
-		}
-
-		return task;
-	}
-
-	async createTaskFromInput(input: TaskCreateInput, autoCommit?: boolean): Promise<{ task: Task; filePath?: string }> {
-		if (!input.title || input.title.trim().length === 0) {
-			throw new Error("Title is required to create a task.");
-		}
-
-		const id = await this.generateNextId(input.parentTaskId);
-
-		const normalizedLabels = normalizeStringList(input.labels) ?? [];
-		const normalizedAssignees = normalizeStringList(input.assignee) ?? [];
-		const normalizedDependencies = normalizeDependencies(input.dependencies);
+		return this.recordOperation(
+			(task) => `Create ${task.id}`,
+			async () => {
+				const id = await this.generateNextId(taskData.parentTaskId);
+
+				const task: Task = {
+					id,
+					title: taskData.title,
+					status: taskData.status || "",
+					assignee: taskData.assignee || [],
+					labels: taskData.labels || [],
+					dependencies: taskData.dependencies || [],
+					rawContent: "",
+					createdDate: new Date().toISOString().slice(0, 16).replace("T", " "),
+					...(taskData.parentTaskId && { parentTaskId: taskData.parentTaskId }),
+					...(taskData.priority && { priority: taskData.priority }),
+					...(typeof taskData.milestone === "string" &&
+						taskData.milestone.trim().length > 0 && {
+							milestone: taskData.milestone.trim(),
+						}),
+					...(typeof taskData.description === "string" && { description: taskData.description }),
+					...(Array.isArray(taskData.acceptanceCriteriaItems) &&
+						taskData.acceptanceCriteriaItems.length > 0 && {
+							acceptanceCriteriaItems: taskData.acceptanceCriteriaItems,
+						}),
+					...(typeof taskData.implementationPlan === "string" && { implementationPlan: taskData.implementationPlan }),
+					...(typeof taskData.implementationNotes === "string" && {
+						implementationNotes: taskData.implementationNotes,
+					}),
+				};
+
+				// Check if this should be a draft based on status
+				if (task.status && task.status.toLowerCase() === "draft") {
+					await this.createDraft(task, autoCommit);
+				} else {
+					await this.createTask(task, autoCommit);
+				}
 
-		const { valid: validDependencies, invalid: invalidDependencies } = await validateDependencies(
-			normalizedDependencies,
-			this,
+				return task;
+			},
 		);
-		if (invalidDependencies.length > 0) {
-			throw new Error(
-				`The following dependencies do not exist: ${invalidDependencies.join(", ")}. Please create these tasks first or verify the IDs.`,
-			);
-		}
+	}
 
+	/**
+	 * Validate and normalize the fields of a new task that can be rejected:
+	 * status, priority, estimate, dates and custom fields
+	 */
+	private async normalizeCreateInput(input: TaskCreateInput) {
 		const requestedStatus = input.status?.trim();
 		let status = "";
 		if (requestedStatus) {
@@ -558,445 +844,1009 @@ export class Core {
 		}
 
 		const priority = this.normalizePriority(input.priority);
-		const createdDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+		const estimate = input.estimate?.trim() ? normalizeDuration(input.estimate, "Estimate") : undefined;
+		const startDate = input.startDate?.trim() ? normalizeTaskDate(input.startDate, "Start date") : undefined;
+		const dueDate = input.dueDate?.trim() ? normalizeTaskDate(input.dueDate, "Due date") : undefined;
+		assertDateOrder(startDate, dueDate);
+		const customFields = applyCustomFieldValues(
+			(await this.fs.loadConfig())?.customFields,
+			undefined,
+			input.customFields ?? {},
+			{ requireAll: true },
+		);
+		return { status, priority, estimate, startDate, dueDate, customFields };
+	}
 
-		const acceptanceCriteriaItems = Array.isArray(input.acceptanceCriteria)
-			? input.acceptanceCriteria
-					.map((criterion, index) => ({
-						index: index + 1,
-						text: String(criterion.text ?? "").trim(),
-						checked: Boolean(criterion.checked),
-					}))
-					.filter((criterion) => criterion.text.length > 0)
-			: [];
+	async createTaskFromInput(
+		input: TaskCreateInput,
+		autoCommit?: boolean,
+	): Promise<{ task: Task; filePath?: string; warnings: string[] }> {
+		return this.recordOperation(
+			({ task }) => `Create ${task.id}`,
+			async () => {
+				if (!input.title || input.title.trim().length === 0) {
+					throw new Error("Title is required to create a task.");
+				}
 
-		const task: Task = {
-			id,
-			title: input.title.trim(),
-			status,
-			assignee: normalizedAssignees,
-			labels: normalizedLabels,
-			dependencies: validDependencies,
-			rawContent: input.rawContent ?? "",
-			createdDate,
-			...(input.parentTaskId && { parentTaskId: input.parentTaskId }),
-			...(priority && { priority }),
-			...(typeof input.milestone === "string" &&
-				input.milestone.trim().length > 0 && {
-					milestone: input.milestone.trim(),
-				}),
-			...(typeof input.description === "string" && { description: input.description }),
-			...(typeof input.implementationPlan === "string" && { implementationPlan: input.implementationPlan }),
-			...(typeof input.implementationNotes === "string" && { implementationNotes: input.implementationNotes }),
-			...(acceptanceCriteriaItems.length > 0 && { acceptanceCriteriaItems }),
-		};
+				const id = await this.generateNextId(input.parentTaskId);
+				const taskPrefix = await this.fs.getTaskPrefix();
 
-		const isDraft = (status || "").toLowerCase() === "draft";
-		const filePath = isDraft ? await this.createDraft(task, autoCommit) : await this.createTask(task, autoCommit);
+				const normalizedLabels = normalizeStringList(input.labels) ?? [];
+				const normalizedAssignees = normalizeStringList(input.assignee) ?? [];
+				const normalizedDependencies = normalizeDependencies(input.dependencies, taskPrefix);
+
+				const { valid: validDependencies, invalid: invalidDependencies } = await validateDependencies(
+					normalizedDependencies,
+					this,
+				);
+				if (invalidDependencies.length > 0) {
+					throw new Error(
+						`The following dependencies do not exist: ${invalidDependencies.join(", ")}. Please create these tasks first or verify the IDs.`,
+					);
+				}
 
-		const savedTask = await this.fs.loadTask(id);
-		return { task: savedTask ?? task, filePath };
+				const { status, priority, estimate, startDate, dueDate, customFields } = await this.normalizeCreateInput(input);
+				const createdDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+
+				const acceptanceCriteriaItems = Array.isArray(input.acceptanceCriteria)
+					? input.acceptanceCriteria
+							.map((criterion, index) => ({
+								index: index + 1,
+								text: String(criterion.text ?? "").trim(),
+								checked: Boolean(criterion.checked),
+							}))
+							.filter((criterion) => criterion.text.length > 0)
+					: [];
+
+				const task: Task = {
+					id,
+					title: input.title.trim(),
+					status,
+					assignee: normalizedAssignees,
+					labels: normalizedLabels,
+					dependencies: validDependencies,
+					rawContent: input.rawContent ?? "",
+					createdDate,
+					...(input.parentTaskId && { parentTaskId: input.parentTaskId }),
+					...(priority && { priority }),
+					...(typeof input.milestone === "string" &&
+						input.milestone.trim().length > 0 && {
+							milestone: input.milestone.trim(),
+						}),
+					...(typeof input.description === "string" && { description: input.description }),
+					...(typeof input.implementationPlan === "string" && { implementationPlan: input.implementationPlan }),
+					...(typeof input.implementationNotes === "string" && { implementationNotes: input.implementationNotes }),
+					...(acceptanceCriteriaItems.length > 0 && { acceptanceCriteriaItems }),
+					...(estimate && { estimate }),
+					...(startDate && { startDate }),
+					...(dueDate && { dueDate }),
+					...(Object.keys(customFields).length > 0 && { customFields }),
+					...(input.comments && input.comments.length > 0 && { comments: input.comments }),
+				};
+
+				const isDraft = (status || "").toLowerCase() === "draft";
+				const warnings = isDraft ? [] : await this.checkWipLimits(task, status);
+				const filePath = isDraft ? await this.createDraft(task, autoCommit) : await this.createTask(task, autoCommit);
+
+				const savedTask = await this.fs.loadTask(id);
+				return { task: savedTask ?? task, filePath, warnings };
+			},
+		);
 	}
 
-	async createTask(task: Task, autoCommit?: boolean): Promise<string> {
-		if (!task.status) {
-			const config = await this.fs.loadConfig();
-			task.status = config?.defaultStatus || FALLBACK_STATUS;
+	/**
+	 * Create a task from `backlog/templates/<name>.md` through createTaskFromInput
+	 */
+	async createTaskFromTemplate(
+		name: string,
+		overrides: Partial<TaskCreateInput> = {},
+		autoCommit?: boolean,
+		date: Date = new Date(),
+	): Promise<{ task: Task; filePath?: string; warnings: string[] }> {
+		const template = await this.fs.loadTemplate(name);
+		if (!template) {
+			const available = (await this.fs.listTemplates()).map((item) => item.name);
+			throw new Error(
+				`Template not found: ${name}.${available.length > 0 ? ` Available templates: ${available.join(", ")}` : ""}`,
+			);
 		}
+		return this.createTaskFromInput(buildTaskInputFromTemplate(template, overrides, date), autoCommit);
+	}
 
-		normalizeAssignee(task);
+	/**
+	 * Create one task for every recurring template that has fired since it was
+	 * last instantiated. Missed occurrences collapse into a single task, and the
+	 * last occurrence per template is recorded so repeated runs create nothing.
+	 */
+	async runRecurringTemplates(
+		options: { now?: Date; dryRun?: boolean; autoCommit?: boolean } = {},
+	): Promise<RecurringTaskRun[]> {
+		return this.recordOperation("Run recurring templates", async () => {
+			const now = options.now ?? new Date();
+			// Check every rule before creating anything
+			const scheduled = (await this.fs.listTemplates())
+				.filter((template) => template.recurrence)
+				.map((template) => {
+					try {
+						return { template, schedule: parseRecurrenceRule(template.recurrence ?? "") };
+					} catch (error) {
+						throw new Error(`Template ${template.name}: ${error instanceof Error ? error.message : String(error)}`);
+					}
+				});
+			const state = await this.fs.loadRecurState();
+			const runs: RecurringTaskRun[] = [];
+			const createdPaths: string[] = [];
+
+			for (const { template, schedule } of scheduled) {
+				const latest = getLatestOccurrence(schedule, now);
+				if (!latest) continue;
+				const occurrence = formatOccurrence(latest);
+				const previous = state[template.name];
+				if (previous && previous.lastOccurrence >= occurrence) continue;
+
+				if (options.dryRun) {
+					runs.push({ template: template.name, occurrence });
+					continue;
+				}
 
-		const filepath = await this.fs.saveTask(task);
+				const { task, filePath } = await this.createTaskFromTemplate(template.name, {}, false, latest);
+				if (filePath) createdPaths.push(filePath);
+				state[template.name] = { lastOccurrence: occurrence, lastTaskId: task.id };
+				// Save after each task so a failure part-way does not duplicate earlier ones
+				createdPaths.push(await this.fs.saveRecurState(state));
+				runs.push({ template: template.name, occurrence, taskId: task.id });
+			}
 
-		if (await this.shouldAutoCommit(autoCommit)) {
-			await this.git.addAndCommitTaskFile(task.id, filepath, "create");
-		}
+			if (runs.length > 0 && !options.dryRun && (await this.shouldAutoCommit(options.autoCommit))) {
+				await this.git.addFiles(Array.from(new Set(createdPaths)));
+				await this.git.commitChanges(`backlog: Create ${runs.length} recurring task(s)`);
+			}
 
-		return filepath;
+			return runs;
+		});
 	}
 
-	async createDraft(task: Task, autoCommit?: boolean): Promise<string> {
-		// Drafts always have status "Draft", regardless of config default
-		task.status = "Draft";
-		normalizeAssignee(task);
-
-		const filepath = await this.fs.saveDraft(task);
-
-		if (await this.shouldAutoCommit(autoCommit)) {
-			await this.git.addFile(filepath);
-			await this.git.commitTaskChange(task.id, `Create draft ${task.id}`);
+	/**
+	 * Export tasks from the given folders, each sorted by id
+	 */
+	async exportTasks(options: {
+		sources?: ExportSource[];
+		fields?: ExportField[];
+		format: TransferFormat;
+	}): Promise<{ content: string; count: number }> {
+		const sources = options.sources ?? ["tasks"];
+		const fields = options.fields ?? DEFAULT_EXPORT_FIELDS;
+		const loaders: Record<ExportSource, () => Promise<Task[]>> = {
+			tasks: () => this.fs.listTasks(),
+			drafts: () => this.fs.listDrafts(),
+			archived: () => this.fs.listArchivedTasks(),
+			completed: () => this.fs.listCompletedTasks(),
+		};
+		const records: ExportRecord[] = [];
+		for (const source of sources) {
+			for (const task of sortByTaskId(await loaders[source]())) {
+				records.push(buildExportRecord(task, source, fields));
+			}
 		}
-
-		return filepath;
+		return { content: formatTaskExport(records, fields, options.format), count: records.length };
 	}
 
-	async updateTask(task: Task, autoCommit?: boolean): Promise<void> {
-		normalizeAssignee(task);
+	/**
+	 * Create tasks read by `backlog import`. Everything is checked before the
+	 * first task is written: fields, references to other imported tasks (by
+	 * their temporary ids) or to existing tasks, and dependency cycles. Imported
+	 * tasks get new ids and their references are rewritten to match; the new
+	 * files, and nothing else, go into one commit.
+	 */
+	async importTasks(
+		tasks: ImportedTask[],
+		options: { dryRun?: boolean; autoCommit?: boolean } = {},
+	): Promise<ImportedTaskResult[]> {
+		return this.recordOperation(
+			(results) => `Import ${results.length} task(s)`,
+			async () => {
+				const [existingTasks, drafts] = await Promise.all([this.fs.listTasks(), this.fs.listDrafts()]);
+				const knownIds = [...existingTasks, ...drafts].map((task) => task.id);
+				const resolveExisting = (ref: string) => knownIds.find((id) => taskIdsEqual(ref, id));
+
+				for (const item of tasks) {
+					try {
+						if (!item.input.title.trim()) {
+							throw new Error("Title is required");
+						}
+						await this.normalizeCreateInput(item.input);
+						for (const ref of [...(item.parentRef ? [item.parentRef] : []), ...item.dependencyRefs]) {
+							if (!findImportedTask(tasks, ref) && !resolveExisting(ref)) {
+								throw new Error(`"${ref}" is neither an imported task nor an existing task`);
+							}
+						}
+					} catch (error) {
+						throw new TaskTransferError(`${item.ref}: ${error instanceof Error ? error.message : String(error)}`);
+					}
+				}
+				const ordered = orderImportedTasks(tasks);
 
-		// Load original task to detect status changes for callbacks
-		const originalTask = await this.fs.loadTask(task.id);
-		const oldStatus = originalTask?.status ?? "";
-		const newStatus = task.status ?? "";
-		const statusChanged = oldStatus !== newStatus;
+				if (options.dryRun) {
+					return ordered.map((item) => ({ ref: item.ref, title: item.input.title.trim() }));
+				}
 
-		// Always set updatedDate when updating a task
-		task.updatedDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+				const newIds = new Map<ImportedTask, string>();
+				const resolve = (ref: string) => {
+					const imported = findImportedTask(tasks, ref);
+					return (imported && newIds.get(imported)) ?? resolveExisting(ref) ?? ref;
+				};
+				const results: ImportedTaskResult[] = [];
+				const createdFiles: string[] = [];
+				for (const item of ordered) {
+					const { task, filePath } = await this.createTaskFromInput(
+						{
+							...item.input,
+							dependencies: item.dependencyRefs.map(resolve),
+							...(item.parentRef && { parentTaskId: resolve(item.parentRef) }),
+						},
+						false,
+					);
+					newIds.set(item, task.id);
+					if (filePath) createdFiles.push(filePath);
+					results.push({ ref: item.ref, title: task.title, id: task.id });
+				}
 
-		await this.fs.saveTask(task);
+				if (createdFiles.length > 0 && (await this.shouldAutoCommit(options.autoCommit))) {
+					// Only the imported files: other changes in the backlog stay out of the commit
+					await this.git.addFiles(createdFiles);
+					await this.git.commitChanges(`backlog: Import ${results.length} task(s)`);
+				}
+				return results;
+			},
+		);
+	}
 
-		if (await this.shouldAutoCommit(autoCommit)) {
-			const filePath = await getTaskPath(task.id, this);
-			if (filePath) {
-				await this.git.addAndCommitTaskFile(task.id, filePath, "update");
+	/**
+	 * Add or replace a saved view in `backlog/views.yml`
+	 */
+	async saveView(view: SavedView, autoCommit?: boolean): Promise<string> {
+		return this.recordOperation(`Save view ${view.name}`, async () => {
+			const error = getSavedViewError(view, (await this.fs.loadConfig())?.customFields);
+			if (error) {
+				throw new Error(error);
 			}
-		}
+			if (!view.query && !view.sort && !view.groupBy && !view.columns?.length) {
+				throw new Error("A view needs a query, sort, grouping or columns");
+			}
+			const filepath = await this.fs.saveView(view);
+			if (await this.shouldAutoCommit(autoCommit)) {
+				await this.git.addFiles([filepath]);
+				await this.git.commitChanges(`backlog: Save view ${view.name}`);
+			}
+			return filepath;
+		});
+	}
 
-		// Fire status change callback if status changed
-		if (statusChanged) {
-			await this.executeStatusChangeCallback(task, oldStatus, newStatus);
-		}
+	async deleteView(name: string, autoCommit?: boolean): Promise<boolean> {
+		return this.recordOperation(`Delete view ${name}`, async () => {
+			const deleted = await this.fs.deleteView(name);
+			if (deleted && (await this.shouldAutoCommit(autoCommit))) {
+				await this.git.addFiles([await this.fs.getViewsPath()]);
+				await this.git.commitChanges(`backlog: Delete view ${name}`);
+			}
+			return deleted;
+		});
 	}
 
-	async updateTaskFromInput(taskId: string, input: TaskUpdateInput, autoCommit?: boolean): Promise<Task> {
-		const task = await this.fs.loadTask(taskId);
-		if (!task) {
-			throw new Error(`Task not found: ${taskId}`);
+	async getView(name: string): Promise<SavedView> {
+		const view = await this.fs.loadView(name);
+		if (!view) {
+			const available = (await this.fs.listViews()).map((item) => item.name);
+			throw new Error(
+				`View not found: ${name}.${available.length > 0 ? ` Available views: ${available.join(", ")}` : ""}`,
+			);
 		}
+		return view;
+	}
 
-		let mutated = false;
+	/**
+	 * Tasks matching a saved view, sorted and grouped the way it describes.
+	 * Extra filters narrow the view; their query is combined with the view's.
+	 */
+	async runView(
+		name: string,
+		options: { filters?: TaskListFilter; includeCrossBranch?: boolean } = {},
+	): Promise<ViewResult> {
+		const view = await this.getView(name);
+		const query = [view.query, options.filters?.query]
+			.filter((part): part is string => Boolean(part?.trim()))
+			.map((part) => `(${part})`)
+			.join(" ");
+		const [tasks, config, milestones] = await Promise.all([
+			this.queryTasks({
+				filters: { ...options.filters, query: query || undefined },
+				includeCrossBranch: options.includeCrossBranch,
+			}),
+			this.fs.loadConfig(),
+			this.fs.listMilestones(),
+		]);
+		return buildViewResult(tasks, view, {
+			statuses: config?.statuses,
+			milestones,
+			customFields: config?.customFields,
+		});
+	}
 
-		const applyStringField = (
-			value: string | undefined,
-			current: string | undefined,
-			assign: (next: string) => void,
-		) => {
-			if (typeof value === "string") {
-				const next = value;
-				if ((current ?? "") !== next) {
-					assign(next);
-					mutated = true;
-				}
+	async createTask(task: Task, autoCommit?: boolean): Promise<string> {
+		return this.recordOperation(`Create ${task.id}`, async () => {
+			if (!task.status) {
+				const config = await this.fs.loadConfig();
+				task.status = config?.defaultStatus || FALLBACK_STATUS;
 			}
-		};
 
-		if (input.title !== undefined) {
-			const trimmed = input.title.trim();
-			if (trimmed.length === 0) {
-				throw new Error("Title cannot be empty.");
+			normalizeAssignee(task);
+			await this.ensureTransitionAllowed(task, null, task.status);
+
+			const filepath = await this.fs.saveTask(task);
+
+			if (await this.shouldAutoCommit(autoCommit)) {
+				await this.git.addAndCommitTaskFile(task.id, filepath, "create");
 			}
-			if (task.title !== trimmed) {
-				task.title = trimmed;
-				mutated = true;
+
+			this.notify("task.created", { task });
+
+			return filepath;
+		});
+	}
+
+	async createDraft(task: Task, autoCommit?: boolean): Promise<string> {
+		return this.recordOperation(`Create ${task.id}`, async () => {
+			// Drafts always have status "Draft", regardless of config default
+			task.status = "Draft";
+			normalizeAssignee(task);
+
+			const filepath = await this.fs.saveDraft(task);
+
+			if (await this.shouldAutoCommit(autoCommit)) {
+				await this.git.addFile(filepath);
+				await this.git.commitTaskChange(task.id, `Create draft ${task.id}`);
 			}
-		}
 
-		applyStringField(input.description, task.description, (next) => {
-			task.description = next;
+			return filepath;
 		});
+	}
 
-		if (input.status !== undefined) {
-			const canonicalStatus =
-				input.status.trim().toLowerCase() === "draft" ? "Draft" : await this.requireCanonicalStatus(input.status);
-			if ((task.status ?? "") !== canonicalStatus) {
-				task.status = canonicalStatus;
-				mutated = true;
+	async updateTask(task: Task, autoCommit?: boolean): Promise<void> {
+		return this.recordOperation(`Edit ${task.id}`, async () => {
+			normalizeAssignee(task);
+
+			// Load original task to detect status changes for callbacks
+			const originalTask = await this.fs.loadTask(task.id);
+			const oldStatus = originalTask?.status ?? "";
+			const newStatus = task.status ?? "";
+			const statusChanged = oldStatus !== newStatus;
+
+			// Always set updatedDate when updating a task
+			task.updatedDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+
+			await this.fs.saveTask(task);
+
+			if (await this.shouldAutoCommit(autoCommit)) {
+				const filePath = await getTaskPath(task.id, this);
+				if (filePath) {
+					await this.git.addAndCommitTaskFile(task.id, filePath, "update");
+				}
 			}
-		}
 
-		if (input.priority !== undefined) {
-			const normalizedPriority = this.normalizePriority(String(input.priority));
-			if (task.priority !== normalizedPriority) {
-				task.priority = normalizedPriority;
-				mutated = true;
+			// Fire status change callback if status changed
+			if (statusChanged) {
+				await this.executeStatusChangeCallback(task, oldStatus, newStatus);
 			}
-		}
 
-		if (input.milestone !== undefined) {
-			const normalizedMilestone =
-				input.milestone === null ? undefined : input.milestone.trim().length > 0 ? input.milestone.trim() : undefined;
-			if ((task.milestone ?? undefined) !== normalizedMilestone) {
-				if (normalizedMilestone === undefined) {
-					delete task.milestone;
-				} else {
-					task.milestone = normalizedMilestone;
-				}
-				mutated = true;
+			if (originalTask) {
+				this.notifyTaskChanges(originalTask, task);
 			}
-		}
+		});
+	}
 
-		if (input.ordinal !== undefined) {
-			if (Number.isNaN(input.ordinal) || input.ordinal < 0) {
-				throw new Error("Ordinal must be a non-negative number.");
+	/**
+	 * Copy a file into backlog/assets/<task id>/ and list it in the task's
+	 * attachments. Returns the task and the attachment path (relative to assets).
+	 */
+	async attachFile(
+		taskId: string,
+		file: { name: string; data: Uint8Array },
+		autoCommit?: boolean,
+	): Promise<{ task: Task; path: string }> {
+		return this.recordOperation(`Attach file to ${taskId}`, async () => {
+			const task = await this.fs.loadTask(taskId);
+			if (!task) {
+				throw new AttachmentError(`Task not found: ${taskId}`);
 			}
-			if (task.ordinal !== input.ordinal) {
-				task.ordinal = input.ordinal;
-				mutated = true;
+			if (file.data.byteLength > MAX_ATTACHMENT_BYTES) {
+				throw new AttachmentError(
+					`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB; keep large files out of the repository`,
+				);
 			}
-		}
 
-		if (input.assignee !== undefined) {
-			const sanitizedAssignee = normalizeStringList(input.assignee) ?? [];
-			if (!stringArraysEqual(sanitizedAssignee, task.assignee ?? [])) {
-				task.assignee = sanitizedAssignee;
-				mutated = true;
+			const path = await this.fs.saveAsset(`${task.id}/${sanitizeAssetName(file.name)}`, file.data);
+			// Attaching the same file again changes nothing, so there is nothing to commit
+			if (task.attachments?.includes(path)) {
+				return { task, path };
 			}
-		}
+			task.attachments = [...(task.attachments ?? []), path];
+			task.updatedDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+			await this.fs.saveTask(task);
 
-		const resolveLabelChanges = (): void => {
-			let currentLabels = [...(task.labels ?? [])];
-			if (input.labels !== undefined) {
-				const sanitizedLabels = normalizeStringList(input.labels) ?? [];
-				if (!stringArraysEqual(sanitizedLabels, currentLabels)) {
-					task.labels = sanitizedLabels;
-					mutated = true;
-				}
-				currentLabels = sanitizedLabels;
+			if (await this.shouldAutoCommit(autoCommit)) {
+				await this.git.stageBacklogDirectory(await this.getBacklogDirectoryName());
+				await this.git.commitChanges(`backlog: Attach ${path} to ${task.id}`);
+			}
+			return { task: (await this.fs.loadTask(task.id)) ?? task, path };
+		});
+	}
+
+	/**
+	 * Assets nothing refers to and attachments whose file is gone, across
+	 * active, draft, completed and archived tasks, documents and decisions
+	 */
+	async checkAssets(): Promise<AssetReport> {
+		const [assets, tasks, drafts, completed, archived, documents, decisions] = await Promise.all([
+			this.fs.listAssets(),
+			this.fs.listTasks(),
+			this.fs.listDrafts(),
+			this.fs.listCompletedTasks(),
+			this.fs.listArchivedTasks(),
+			this.fs.listDocuments(),
+			this.fs.listDecisions(),
+		]);
+		return checkAssets(assets, [
+			...[...tasks, ...drafts, ...completed, ...archived].map((task) => ({
+				id: task.id,
+				attachments: task.attachments,
+				content: task.rawContent,
+			})),
+			...documents.map((document) => ({ id: document.id, content: document.rawContent })),
+			...decisions.map((decision) => ({ id: decision.id, content: decision.rawContent })),
+		]);
+	}
+
+	async updateTaskFromInput(taskId: string, input: TaskUpdateInput, autoCommit?: boolean): Promise<TaskUpdateResult> {
+		return this.recordOperation(`Edit ${taskId}`, async () => {
+			const task = await this.fs.loadTask(taskId);
+			if (!task) {
+				throw new Error(`Task not found: ${taskId}`);
 			}
 
-			const labelsToAdd = normalizeStringList(input.addLabels) ?? [];
-			if (labelsToAdd.length > 0) {
-				const labelSet = new Set(currentLabels.map((label) => label.toLowerCase()));
-				for (const label of labelsToAdd) {
-					if (!labelSet.has(label.toLowerCase())) {
-						currentLabels.push(label);
-						labelSet.add(label.toLowerCase());
+			const previousStatus = task.status ?? "";
+			const taskPrefix = await this.fs.getTaskPrefix();
+			let mutated = false;
+
+			const applyStringField = (
+				value: string | undefined,
+				current: string | undefined,
+				assign: (next: string) => void,
+			) => {
+				if (typeof value === "string") {
+					const next = value;
+					if ((current ?? "") !== next) {
+						assign(next);
 						mutated = true;
 					}
 				}
-				task.labels = currentLabels;
-			}
+			};
 
-			const labelsToRemove = normalizeStringList(input.removeLabels) ?? [];
-			if (labelsToRemove.length > 0) {
-				const removalSet = new Set(labelsToRemove.map((label) => label.toLowerCase()));
-				const filtered = currentLabels.filter((label) => !removalSet.has(label.toLowerCase()));
-				if (!stringArraysEqual(filtered, currentLabels)) {
-					task.labels = filtered;
+			if (input.title !== undefined) {
+				const trimmed = input.title.trim();
+				if (trimmed.length === 0) {
+					throw new Error("Title cannot be empty.");
+				}
+				if (task.title !== trimmed) {
+					task.title = trimmed;
 					mutated = true;
 				}
 			}
-		};
 
-		resolveLabelChanges();
+			applyStringField(input.description, task.description, (next) => {
+				task.description = next;
+			});
 
-		const resolveDependencies = async (): Promise<void> => {
-			let currentDependencies = [...(task.dependencies ?? [])];
+			if (input.status !== undefined) {
+				const canonicalStatus =
+					input.status.trim().toLowerCase() === "draft" ? "Draft" : await this.requireCanonicalStatus(input.status);
+				if ((task.status ?? "") !== canonicalStatus) {
+					task.status = canonicalStatus;
+					mutated = true;
+				}
+			}
 
-			if (input.dependencies !== undefined) {
-				const normalized = normalizeDependencies(input.dependencies);
-				const { valid, invalid } = await validateDependencies(normalized, this);
-				if (invalid.length > 0) {
-					throw new Error(
-						`The following dependencies do not exist: ${invalid.join(", ")}. Please create these tasks first or verify the IDs.`,
-					);
+			if (input.priority !== undefined) {
+				const normalizedPriority = this.normalizePriority(String(input.priority));
+				if (task.priority !== normalizedPriority) {
+					task.priority = normalizedPriority;
+					mutated = true;
 				}
-				if (!stringArraysEqual(valid, currentDependencies)) {
-					currentDependencies = valid;
+			}
+
+			if (input.milestone !== undefined) {
+				const normalizedMilestone =
+					input.milestone === null ? undefined : input.milestone.trim().length > 0 ? input.milestone.trim() : undefined;
+				if ((task.milestone ?? undefined) !== normalizedMilestone) {
+					if (normalizedMilestone === undefined) {
+						delete task.milestone;
+					} else {
+						task.milestone = normalizedMilestone;
+					}
 					mutated = true;
 				}
 			}
 
-			if (input.addDependencies && input.addDependencies.length > 0) {
-				const additions = normalizeDependencies(input.addDependencies);
-				const { valid, invalid } = await validateDependencies(additions, this);
-				if (invalid.length > 0) {
-					throw new Error(
-						`The following dependencies do not exist: ${invalid.join(", ")}. Please create these tasks first or verify the IDs.`,
-					);
+			const applyDateField = (value: string | null | undefined, field: "startDate" | "dueDate", label: string) => {
+				if (value === undefined) return;
+				const next = value === null || value.trim() === "" ? undefined : normalizeTaskDate(value, label);
+				if (task[field] !== next) {
+					if (next === undefined) {
+						delete task[field];
+					} else {
+						task[field] = next;
+					}
+					mutated = true;
 				}
-				const depSet = new Set(currentDependencies);
-				for (const dep of valid) {
-					if (!depSet.has(dep)) {
-						currentDependencies.push(dep);
-						depSet.add(dep);
-						mutated = true;
+			};
+			applyDateField(input.startDate, "startDate", "Start date");
+			applyDateField(input.dueDate, "dueDate", "Due date");
+			assertDateOrder(task.startDate, task.dueDate);
+
+			if (input.customFields && Object.keys(input.customFields).length > 0) {
+				const definitions = (await this.fs.loadConfig())?.customFields;
+				const next = applyCustomFieldValues(definitions, task.customFields, input.customFields);
+				if (JSON.stringify(next) !== JSON.stringify(task.customFields ?? {})) {
+					if (Object.keys(next).length === 0) {
+						delete task.customFields;
+					} else {
+						task.customFields = next;
 					}
+					mutated = true;
 				}
 			}
 
-			if (input.removeDependencies && input.removeDependencies.length > 0) {
-				const removals = new Set(normalizeDependencies(input.removeDependencies));
-				const filtered = currentDependencies.filter((dep) => !removals.has(dep));
-				if (!stringArraysEqual(filtered, currentDependencies)) {
-					currentDependencies = filtered;
+			if (input.ordinal !== undefined) {
+				if (Number.isNaN(input.ordinal) || input.ordinal < 0) {
+					throw new Error("Ordinal must be a non-negative number.");
+				}
+				if (task.ordinal !== input.ordinal) {
+					task.ordinal = input.ordinal;
 					mutated = true;
 				}
 			}
 
-			task.dependencies = currentDependencies;
-		};
-
-		await resolveDependencies();
+			if (input.assignee !== undefined) {
+				const sanitizedAssignee = normalizeStringList(input.assignee) ?? [];
+				if (!stringArraysEqual(sanitizedAssignee, task.assignee ?? [])) {
+					task.assignee = sanitizedAssignee;
+					mutated = true;
+				}
+			}
 
-		const sanitizeAppendInput = (values: string[] | undefined): string[] => {
-			if (!values) return [];
-			return values.map((value) => String(value).trim()).filter((value) => value.length > 0);
-		};
+			const resolveLabelChanges = (): void => {
+				let currentLabels = [...(task.labels ?? [])];
+				if (input.labels !== undefined) {
+					const sanitizedLabels = normalizeStringList(input.labels) ?? [];
+					if (!stringArraysEqual(sanitizedLabels, currentLabels)) {
+						task.labels = sanitizedLabels;
+						mutated = true;
+					}
+					currentLabels = sanitizedLabels;
+				}
 
-		const appendBlock = (
-			existing: string | undefined,
-			additions: string[] | undefined,
-		): { value?: string; changed: boolean } => {
-			const sanitizedAdditions = (additions ?? [])
-				.map((value) => String(value).trim())
-				.filter((value) => value.length > 0);
-			if (sanitizedAdditions.length === 0) {
-				return { value: existing, changed: false };
-			}
-			const current = (existing ?? "").trim();
-			const additionBlock = sanitizedAdditions.join("\n\n");
-			if (current.length === 0) {
-				return { value: additionBlock, changed: true };
-			}
-			return { value: `${current}\n\n${additionBlock}`, changed: true };
-		};
+				const labelsToAdd = normalizeStringList(input.addLabels) ?? [];
+				if (labelsToAdd.length > 0) {
+					const labelSet = new Set(currentLabels.map((label) => label.toLowerCase()));
+					for (const label of labelsToAdd) {
+						if (!labelSet.has(label.toLowerCase())) {
+							currentLabels.push(label);
+							labelSet.add(label.toLowerCase());
+							mutated = true;
+						}
+					}
+					task.labels = currentLabels;
+				}
 
-		if (input.clearImplementationPlan) {
-			if (task.implementationPlan !== undefined) {
-				delete task.implementationPlan;
-				mutated = true;
+				const labelsToRemove = normalizeStringList(input.removeLabels) ?? [];
+				if (labelsToRemove.length > 0) {
+					const removalSet = new Set(labelsToRemove.map((label) => label.toLowerCase()));
+					const filtered = currentLabels.filter((label) => !removalSet.has(label.toLowerCase()));
+					if (!stringArraysEqual(filtered, currentLabels)) {
+						task.labels = filtered;
+						mutated = true;
+					}
+				}
+			};
+
+			resolveLabelChanges();
+
+			const resolveDependencies = async (): Promise<void> => {
+				let currentDependencies = [...(task.dependencies ?? [])];
+
+				if (input.dependencies !== undefined) {
+					const normalized = normalizeDependencies(input.dependencies, taskPrefix);
+					const { valid, invalid } = await validateDependencies(normalized, this);
+					if (invalid.length > 0) {
+						throw new Error(
+							`The following dependencies do not exist: ${invalid.join(", ")}. Please create these tasks first or verify the IDs.`,
+						);
+					}
+					if (!stringArraysEqual(valid, currentDependencies)) {
+						currentDependencies = valid;
+						mutated = true;
+					}
+				}
+
+				if (input.addDependencies && input.addDependencies.length > 0) {
+					const additions = normalizeDependencies(input.addDependencies, taskPrefix);
+					const { valid, invalid } = await validateDependencies(additions, this);
+					if (invalid.length > 0) {
+						throw new Error(
+							`The following dependencies do not exist: ${invalid.join(", ")}. Please create these tasks first or verify the IDs.`,
+						);
+					}
+					const depSet = new Set(currentDependencies);
+					for (const dep of valid) {
+						if (!depSet.has(dep)) {
+							currentDependencies.push(dep);
+							depSet.add(dep);
+							mutated = true;
+						}
+					}
+				}
+
+				if (input.removeDependencies && input.removeDependencies.length > 0) {
+					const removals = new Set(normalizeDependencies(input.removeDependencies, taskPrefix));
+					const filtered = currentDependencies.filter((dep) => !removals.has(dep));
+					if (!stringArraysEqual(filtered, currentDependencies)) {
+						currentDependencies = filtered;
+						mutated = true;
+					}
+				}
+
+				task.dependencies = currentDependencies;
+			};
+
+			await resolveDependencies();
+
+			const resolveRelations = async (): Promise<void> => {
+				const relations: Partial<Record<TaskRelationType, string[]>> = {};
+				for (const type of TASK_RELATION_TYPES) {
+					relations[type] = [...(task.relations?.[type] ?? [])];
+				}
+
+				if (input.removeRelations && input.removeRelations.length > 0) {
+					const removals = normalizeDependencies(input.removeRelations, taskPrefix);
+					for (const type of TASK_RELATION_TYPES) {
+						const filtered = (relations[type] ?? []).filter(
+							(id) => !removals.some((removal) => taskIdsEqual(id, removal)),
+						);
+						if (filtered.length !== relations[type]?.length) {
+							relations[type] = filtered;
+							mutated = true;
+						}
+					}
+				}
+
+				for (const [type, ids] of Object.entries(input.addRelations ?? {})) {
+					if (!isTaskRelationType(type)) {
+						throw new Error(`Unknown relation type: ${type}. Valid types are: ${TASK_RELATION_TYPES.join(", ")}`);
+					}
+					const additions = normalizeDependencies(ids, taskPrefix);
+					if (additions.some((id) => taskIdsEqual(id, task.id))) {
+						throw new Error(`A task cannot relate to itself: ${task.id}`);
+					}
+					const { valid, invalid } = await validateDependencies(additions, this);
+					if (invalid.length > 0) {
+						throw new Error(`The following related tasks do not exist: ${invalid.join(", ")}`);
+					}
+					const current = relations[type] ?? [];
+					for (const id of valid) {
+						if (!current.some((existing) => taskIdsEqual(existing, id))) {
+							current.push(id);
+							mutated = true;
+						}
+					}
+					relations[type] = current;
+				}
+
+				const stored = Object.fromEntries(Object.entries(relations).filter(([, ids]) => ids && ids.length > 0));
+				task.relations = Object.keys(stored).length > 0 ? stored : undefined;
+			};
+
+			await resolveRelations();
+
+			const sanitizeAppendInput = (values: string[] | undefined): string[] => {
+				if (!values) return [];
+				return values.map((value) => String(value).trim()).filter((value) => value.length > 0);
+			};
+
+			const appendBlock = (
+				existing: string | undefined,
+				additions: string[] | undefined,
+			): { value?: string; changed: boolean } => {
+				const sanitizedAdditions = (additions ?? [])
+					.map((value) => String(value).trim())
+					.filter((value) => value.length > 0);
+				if (sanitizedAdditions.length === 0) {
+					return { value: existing, changed: false };
+				}
+				const current = (existing ?? "").trim();
+				const additionBlock = sanitizedAdditions.join("\n\n");
+				if (current.length === 0) {
+					return { value: additionBlock, changed: true };
+				}
+				return { value: `${current}\n\n${additionBlock}`, changed: true };
+			};
+
+			if (input.clearImplementationPlan) {
+				if (task.implementationPlan !== undefined) {
+					delete task.implementationPlan;
+					mutated = true;
+				}
 			}
-		}
 
-		applyStringField(input.implementationPlan, task.implementationPlan, (next) => {
-			task.implementationPlan = next;
-		});
+			applyStringField(input.implementationPlan, task.implementationPlan, (next) => {
+				task.implementationPlan = next;
+			});
 
-		const planAppends = sanitizeAppendInput(input.appendImplementationPlan);
-		if (planAppends.length > 0) {
-			const { value, changed } = appendBlock(task.implementationPlan, planAppends);
-			if (changed) {
-				task.implementationPlan = value;
-				mutated = true;
+			const planAppends = sanitizeAppendInput(input.appendImplementationPlan);
+			if (planAppends.length > 0) {
+				const { value, changed } = appendBlock(task.implementationPlan, planAppends);
+				if (changed) {
+					task.implementationPlan = value;
+					mutated = true;
+				}
 			}
-		}
 
-		if (input.clearImplementationNotes) {
-			if (task.implementationNotes !== undefined) {
-				delete task.implementationNotes;
-				mutated = true;
+			if (input.clearImplementationNotes) {
+				if (task.implementationNotes !== undefined) {
+					delete task.implementationNotes;
+					mutated = true;
+				}
 			}
-		}
 
-		applyStringField(input.implementationNotes, task.implementationNotes, (next) => {
-			task.implementationNotes = next;
-		});
+			applyStringField(input.implementationNotes, task.implementationNotes, (next) => {
+				task.implementationNotes = next;
+			});
 
-		const notesAppends = sanitizeAppendInput(input.appendImplementationNotes);
-		if (notesAppends.length > 0) {
-			const { value, changed } = appendBlock(task.implementationNotes, notesAppends);
-			if (changed) {
-				task.implementationNotes = value;
-				mutated = true;
+			const notesAppends = sanitizeAppendInput(input.appendImplementationNotes);
+			if (notesAppends.length > 0) {
+				const { value, changed } = appendBlock(task.implementationNotes, notesAppends);
+				if (changed) {
+					task.implementationNotes = value;
+					mutated = true;
+				}
 			}
-		}
-
-		let acceptanceCriteria = Array.isArray(task.acceptanceCriteriaItems)
-			? task.acceptanceCriteriaItems.map((criterion) => ({ ...criterion }))
-			: [];
 
-		const rebuildIndices = () => {
-			acceptanceCriteria = acceptanceCriteria.map((criterion, index) => ({
-				...criterion,
-				index: index + 1,
-			}));
-		};
+			let acceptanceCriteria = Array.isArray(task.acceptanceCriteriaItems)
+				? task.acceptanceCriteriaItems.map((criterion) => ({ ...criterion }))
+				: [];
 
-		if (input.acceptanceCriteria !== undefined) {
-			const sanitized = input.acceptanceCriteria
-				.map((criterion) => ({
-					text: String(criterion.text ?? "").trim(),
-					checked: Boolean(criterion.checked),
-				}))
-				.filter((criterion) => criterion.text.length > 0)
-				.map((criterion, index) => ({
+			const rebuildIndices = () => {
+				acceptanceCriteria = acceptanceCriteria.map((criterion, index) => ({
+					...criterion,
 					index: index + 1,
-					text: criterion.text,
-					checked: criterion.checked,
 				}));
-			acceptanceCriteria = sanitized;
-			mutated = true;
-		}
-
-		if (input.addAcceptanceCriteria && input.addAcceptanceCriteria.length > 0) {
-			const additions = input.addAcceptanceCriteria
-				.map((criterion) => (typeof criterion === "string" ? criterion.trim() : String(criterion.text ?? "").trim()))
-				.filter((text) => text.length > 0);
-			let index =
-				acceptanceCriteria.length > 0 ? Math.max(...acceptanceCriteria.map((criterion) => criterion.index)) + 1 : 1;
-			for (const text of additions) {
-				acceptanceCriteria.push({ index: index++, text, checked: false });
+			};
+
+			if (input.acceptanceCriteria !== undefined) {
+				const sanitized = input.acceptanceCriteria
+					.map((criterion) => ({
+						text: String(criterion.text ?? "").trim(),
+						checked: Boolean(criterion.checked),
+					}))
+					.filter((criterion) => criterion.text.length > 0)
+					.map((criterion, index) => ({
+						index: index + 1,
+						text: criterion.text,
+						checked: criterion.checked,
+					}));
+				acceptanceCriteria = sanitized;
 				mutated = true;
 			}
-		}
 
-		if (input.removeAcceptanceCriteria && input.removeAcceptanceCriteria.length > 0) {
-			const removalSet = new Set(input.removeAcceptanceCriteria);
-			const beforeLength = acceptanceCriteria.length;
-			acceptanceCriteria = acceptanceCriteria.filter((criterion) => !removalSet.has(criterion.index));
-			if (acceptanceCriteria.length === beforeLength) {
-				throw new Error(
-					`Acceptance criterion ${Array.from(removalSet)
-						.map((index) => `#${index}`)
-						.join(", ")} not found`,
-				);
+			if (input.addAcceptanceCriteria && input.addAcceptanceCriteria.length > 0) {
+				const additions = input.addAcceptanceCriteria
+					.map((criterion) => (typeof criterion === "string" ? criterion.trim() : String(criterion.text ?? "").trim()))
+					.filter((text) => text.length > 0);
+				let index =
+					acceptanceCriteria.length > 0 ? Math.max(...acceptanceCriteria.map((criterion) => criterion.index)) + 1 : 1;
+				for (const text of additions) {
+					acceptanceCriteria.push({ index: index++, text, checked: false });
+					mutated = true;
+				}
 			}
-			mutated = true;
-			rebuildIndices();
-		}
 
-		const toggleCriteria = (indices: number[] | undefined, checked: boolean) => {
-			if (!indices || indices.length === 0) return;
-			const missing: number[] = [];
-			for (const index of indices) {
-				const criterion = acceptanceCriteria.find((item) => item.index === index);
-				if (!criterion) {
-					missing.push(index);
-					continue;
+			if (input.removeAcceptanceCriteria && input.removeAcceptanceCriteria.length > 0) {
+				const removalSet = new Set(input.removeAcceptanceCriteria);
+				const beforeLength = acceptanceCriteria.length;
+				acceptanceCriteria = acceptanceCriteria.filter((criterion) => !removalSet.has(criterion.index));
+				if (acceptanceCriteria.length === beforeLength) {
+					throw new Error(
+						`Acceptance criterion ${Array.from(removalSet)
+							.map((index) => `#${index}`)
+							.join(", ")} not found`,
+					);
 				}
-				if (criterion.checked !== checked) {
-					criterion.checked = checked;
-					mutated = true;
+				mutated = true;
+				rebuildIndices();
+			}
+
+			const toggleCriteria = (indices: number[] | undefined, checked: boolean) => {
+				if (!indices || indices.length === 0) return;
+				const missing: number[] = [];
+				for (const index of indices) {
+					const criterion = acceptanceCriteria.find((item) => item.index === index);
+					if (!criterion) {
+						missing.push(index);
+						continue;
+					}
+					if (criterion.checked !== checked) {
+						criterion.checked = checked;
+						mutated = true;
+					}
+				}
+				if (missing.length > 0) {
+					const label = missing.map((index) => `#${index}`).join(", ");
+					throw new Error(`Acceptance criterion ${label} not found`);
+				}
+			};
+
+			toggleCriteria(input.checkAcceptanceCriteria, true);
+			toggleCriteria(input.uncheckAcceptanceCriteria, false);
+
+			task.acceptanceCriteriaItems = acceptanceCriteria;
+
+			applyStringField(input.branchName, task.branchName, (next) => {
+				task.branchName = next;
+			});
+
+			applyStringField(input.gitTag, task.gitTag, (next) => {
+				task.gitTag = next;
+			});
+
+			applyStringField(input.prNumber, task.prNumber, (next) => {
+				task.prNumber = next;
+			});
+
+			if (input.addToHistory) {
+				if (!task.history) {
+					task.history = [];
 				}
+				task.history.push(input.addToHistory);
+				mutated = true;
 			}
-			if (missing.length > 0) {
-				const label = missing.map((index) => `#${index}`).join(", ");
-				throw new Error(`Acceptance criterion ${label} not found`);
+
+			const applyDurationField = (
+				value: string | null | undefined,
+				label: string,
+				current: string | undefined,
+				assign: (next: string | undefined) => void,
+			) => {
+				if (value === undefined) return;
+				const next = value === null || value.trim() === "" ? undefined : normalizeDuration(value, label);
+				if (current !== next) {
+					assign(next);
+					mutated = true;
+				}
+			};
+
+			applyDurationField(input.estimate, "Estimate", task.estimate, (next) => {
+				if (next === undefined) {
+					delete task.estimate;
+				} else {
+					task.estimate = next;
+				}
+			});
+
+			if (input.addWorklog) {
+				const entry = input.addWorklog;
+				const note = entry.note?.trim();
+				if (!task.worklog) {
+					task.worklog = [];
+				}
+				task.worklog.push({
+					author: entry.author,
+					duration: normalizeDuration(entry.duration),
+					date: normalizeTaskDate(entry.date, "Worklog date"),
+					...(note && { note }),
+				});
+				mutated = true;
 			}
-		};
 
-		toggleCriteria(input.checkAcceptanceCriteria, true);
-		toggleCriteria(input.uncheckAcceptanceCriteria, false);
+			if (input.addComment) {
+				const body = input.addComment.body.trim();
+				if (!body) {
+					throw new Error("Comment cannot be empty");
+				}
+				const comments = task.comments ?? [];
+				const replyTo = input.addComment.replyTo;
+				if (replyTo !== undefined && !comments.some((comment) => comment.id === replyTo)) {
+					throw new Error(`Comment ${replyTo} not found on ${task.id}`);
+				}
+				task.comments = [
+					...comments,
+					{
+						id: Math.max(0, ...comments.map((comment) => comment.id)) + 1,
+						author: input.addComment.author,
+						date: input.addComment.date,
+						body,
+						...(replyTo !== undefined && { replyTo }),
+					},
+				];
+				mutated = true;
+			}
 
-		task.acceptanceCriteriaItems = acceptanceCriteria;
+			applyDurationField(input.remaining, "Remaining effort", task.remaining, (next) => {
+				if (next === undefined) {
+					delete task.remaining;
+				} else {
+					task.remaining = next;
+				}
+			});
 
-		applyStringField(input.branchName, task.branchName, (next) => {
-			task.branchName = next;
-		});
+			if (!mutated) {
+				return { task, warnings: [] };
+			}
 
-		applyStringField(input.gitTag, task.gitTag, (next) => {
-			task.gitTag = next;
-		});
+			let warnings: string[] = [];
+			if ((task.status ?? "") !== previousStatus) {
+				await this.ensureTransitionAllowed(task, previousStatus, task.status);
+				warnings = await this.checkWipLimits(task, task.status);
+			}
 
-		applyStringField(input.prNumber, task.prNumber, (next) => {
-			task.prNumber = next;
+			await this.updateTask(task, autoCommit);
+			if (isDoneStatus(task.status) && !isDoneStatus(previousStatus)) {
+				warnings.push(...(await this.completeParentIfSubtasksDone(task, autoCommit)));
+			}
+			const refreshed = await this.fs.loadTask(taskId);
+			return { task: refreshed ?? task, warnings };
 		});
+	}
 
-		if (input.addToHistory) {
-			if (!task.history) {
-				task.history = [];
-			}
-			task.history.push(input.addToHistory);
-			mutated = true;
+	/**
+	 * With `auto_complete_parents` on, move the parent of a task that just
+	 * reached a done status to the same status once all its subtasks are done.
+	 * Workflow rules still apply: a parent they hold back stays where it is,
+	 * and the returned warnings say why.
+	 */
+	private async completeParentIfSubtasksDone(task: Task, autoCommit?: boolean): Promise<string[]> {
+		const config = await this.fs.loadConfig();
+		if (!config?.autoCompleteParents || !task.parentTaskId) return [];
+		const parent = await this.fs.loadTask(task.parentTaskId);
+		if (!parent || isDoneStatus(parent.status)) return [];
+		const subtasks = getSubtasks(await this.fs.listTasks(), parent.id);
+		if (!subtasks.every((subtask) => isDoneStatus(subtask.status))) return [];
+		try {
+			return (await this.updateTaskFromInput(parent.id, { status: task.status }, autoCommit)).warnings;
+		} catch (error) {
+			if (!(error instanceof TransitionError || error instanceof WipLimitError)) throw error;
+			return [`${parent.id} stays ${parent.status}: ${error.message}`];
 		}
+	}
 
-		if (!mutated) {
-			return task;
-		}
+	/**
+	 * Reject status changes that break the `transitions` rules in config.
+	 * Pass `fromStatus` null for new tasks.
+	 */
+	private async ensureTransitionAllowed(task: Task, fromStatus: string | null, toStatus: string): Promise<void> {
+		const config = await this.fs.loadConfig();
+		assertTransitionAllowed(task, fromStatus, toStatus, config?.transitions);
+	}
 
-		await this.updateTask(task, autoCommit);
-		const refreshed = await this.fs.loadTask(taskId);
-		return refreshed ?? task;
+	/**
+	 * WIP limit violations for moving a task into `targetStatus`. Returned as
+	 * warnings, or thrown as a WipLimitError when `wip_limits.strict` is set.
+	 */
+	private async checkWipLimits(task: Task, targetStatus: string): Promise<string[]> {
+		const config = await this.fs.loadConfig();
+		if (!config?.wipLimits) return [];
+		const violations = getWipViolations(await this.fs.listTasks(), task, targetStatus, config.wipLimits);
+		if (violations.length > 0 && config.wipLimits.strict) {
+			throw new WipLimitError(violations.join(" "));
+		}
+		return violations;
 	}
 
 	/**
@@ -1036,22 +1886,200 @@ export class Core {
 		}
 	}
 
-	async editTask(taskId: string, input: TaskUpdateInput, autoCommit?: boolean): Promise<Task> {
+	/**
+	 * Queue an event for the webhooks configured under `notifications`. Inside
+	 * an operation the event waits until the operation has finished; delivery
+	 * then runs in the background, one event after another, and never holds up
+	 * the change that triggered it. Failed deliveries are reported and logged.
+	 */
+	notify(event: NotificationEvent, subject: NotificationSubject, changes?: NotificationChanges): void {
+		const pending = this.journalScope.getStore();
+		if (pending) {
+			pending.push({ event, subject, changes });
+		} else {
+			this.queueNotifications([{ event, subject, changes }]);
+		}
+	}
+
+	/**
+	 * Resolves once every queued notification has been delivered (or has failed)
+	 */
+	async flushNotifications(): Promise<void> {
+		await this.notificationQueue;
+	}
+
+	private queueNotifications(notifications: PendingNotification[]): void {
+		for (const notification of notifications) {
+			this.notificationQueue = this.notificationQueue.then(() => this.deliverNotification(notification));
+		}
+	}
+
+	private async deliverNotification({ event, subject, changes }: PendingNotification): Promise<void> {
+		try {
+			const config = await this.fs.loadConfig();
+			if (!config?.notifications?.webhooks.length) {
+				return;
+			}
+			const payload = buildNotificationPayload(event, config.projectName, subject, changes);
+			const deliveries = await dispatchNotification(config.notifications, payload);
+			await this.fs.appendNotificationLog(deliveries);
+			for (const delivery of deliveries) {
+				if (!delivery.ok) {
+					console.error(
+						`Webhook delivery failed for ${event} to ${delivery.url} after ${delivery.attempts} attempt(s): ${delivery.error}`,
+					);
+				}
+			}
+		} catch (error) {
+			console.error(`Failed to send ${event} notification:`, error);
+		}
+	}
+
+	/**
+	 * Send task.updated, task.status_changed and task.ac_checked for a saved task
+	 */
+	private notifyTaskChanges(before: Task, after: Task): void {
+		const fields = NOTIFIED_TASK_FIELDS.filter(
+			(field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null),
+		);
+		if (fields.length === 0) {
+			return;
+		}
+
+		this.notify("task.updated", { task: after }, { fields });
+
+		if ((before.status ?? "") !== (after.status ?? "")) {
+			this.notify(
+				"task.status_changed",
+				{ task: after },
+				{ status: { from: before.status ?? "", to: after.status ?? "" } },
+			);
+		}
+
+		const previouslyChecked = new Set(
+			(before.acceptanceCriteriaItems ?? [])
+				.filter((criterion) => criterion.checked)
+				.map((criterion) => criterion.text),
+		);
+		const checkedCriteria = (after.acceptanceCriteriaItems ?? [])
+			.filter((criterion) => criterion.checked && !previouslyChecked.has(criterion.text))
+			.map((criterion) => criterion.text);
+		if (checkedCriteria.length > 0) {
+			this.notify("task.ac_checked", { task: after }, { checkedCriteria });
+		}
+	}
+
+	async editTask(taskId: string, input: TaskUpdateInput, autoCommit?: boolean): Promise<TaskUpdateResult> {
 		return await this.updateTaskFromInput(taskId, input, autoCommit);
 	}
 
 	async updateTasksBulk(tasks: Task[], commitMessage?: string, autoCommit?: boolean): Promise<void> {
-		// Update all tasks without committing individually
-		for (const task of tasks) {
-			await this.updateTask(task, false); // Don't auto-commit each one
-		}
+		return this.recordOperation(commitMessage || `Update ${tasks.length} tasks`, async () => {
+			// Update all tasks without committing individually
+			for (const task of tasks) {
+				await this.updateTask(task, false); // Don't auto-commit each one
+			}
 
-		// Commit all changes at once if auto-commit is enabled
-		if (await this.shouldAutoCommit(autoCommit)) {
-			const backlogDir = await this.getBacklogDirectoryName();
-			await this.git.stageBacklogDirectory(backlogDir);
-			await this.git.commitChanges(commitMessage || `Update ${tasks.length} tasks`);
+			// Commit all changes at once if auto-commit is enabled
+			if (await this.shouldAutoCommit(autoCommit)) {
+				const backlogDir = await this.getBacklogDirectoryName();
+				await this.git.stageBacklogDirectory(backlogDir);
+				await this.git.commitChanges(commitMessage || `Update ${tasks.length} tasks`);
+			}
+		});
+	}
+
+	/**
+	 * Tasks selected for a bulk edit: the given ids, narrowed by a filter query
+	 * when both are given. Only local tasks can be edited.
+	 */
+	async findTasksForBulkEdit(selection: { ids?: string[]; query?: string }): Promise<Task[]> {
+		const ids = (selection.ids ?? []).map((id) => id.trim()).filter(Boolean);
+		const query = selection.query?.trim();
+		if (ids.length === 0 && !query) {
+			throw new BulkEditError("Select tasks by id or with a filter query");
+		}
+
+		let tasks: Task[];
+		if (ids.length > 0) {
+			tasks = [];
+			for (const id of ids) {
+				const task = await this.fs.loadTask(id);
+				if (!task) {
+					throw new BulkEditError(`Task not found: ${id}`);
+				}
+				if (!tasks.some((existing) => existing.id === task.id)) {
+					tasks.push(task);
+				}
+			}
+			if (query) {
+				const matches = compileTaskQuery(query, await this.getTaskQueryContext());
+				tasks = tasks.filter(matches);
+			}
+		} else {
+			tasks = await this.queryTasks({ filters: { query }, includeCrossBranch: false });
 		}
+		return sortByTaskId(tasks);
+	}
+
+	/**
+	 * Apply one update to each task in turn. Status callbacks and notifications
+	 * run per task, a task that cannot be updated is reported without stopping
+	 * the rest, and all changes are committed together.
+	 */
+	async bulkEditTasks(taskIds: string[], update: TaskUpdateInput, autoCommit?: boolean): Promise<BulkEditResult[]> {
+		return this.recordOperation(`Bulk edit ${taskIds.length} task(s)`, async () => {
+			// Problems shared by every task fail the whole edit before anything is written
+			const input = { ...update };
+			if (input.status !== undefined) {
+				input.status = await this.requireCanonicalStatus(input.status);
+			}
+			if (input.assignee?.some((name) => name.toLowerCase() === "@me")) {
+				const currentUser = await resolveDefaultAuthor(this);
+				if (!currentUser) {
+					throw new BulkEditError("Cannot resolve @me: no current user is configured");
+				}
+				input.assignee = input.assignee.map((name) => (name.toLowerCase() === "@me" ? currentUser : name));
+			}
+
+			const results: BulkEditResult[] = [];
+			for (const taskId of taskIds) {
+				const before = await this.fs.loadTask(taskId);
+				if (!before) {
+					results.push({ id: taskId, title: "", outcome: "failed", changes: [], error: `Task not found: ${taskId}` });
+					continue;
+				}
+				try {
+					const { task: after, warnings } = await this.updateTaskFromInput(taskId, input, false);
+					const changes = NOTIFIED_TASK_FIELDS.filter(
+						(field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null),
+					);
+					results.push({
+						id: after.id,
+						title: after.title,
+						outcome: changes.length > 0 ? "updated" : "unchanged",
+						changes,
+						...(warnings.length > 0 && { warnings }),
+					});
+				} catch (error) {
+					results.push({
+						id: before.id,
+						title: before.title,
+						outcome: "failed",
+						changes: [],
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+
+			const updated = results.filter((result) => result.outcome === "updated").length;
+			if (updated > 0 && (await this.shouldAutoCommit(autoCommit))) {
+				const backlogDir = await this.getBacklogDirectoryName();
+				await this.git.stageBacklogDirectory(backlogDir);
+				await this.git.commitChanges(`backlog: Bulk edit ${updated} task(s)`);
+			}
+			return results;
+		});
 	}
 
 	async reorderTask(params: {
@@ -1062,119 +2090,130 @@ export class Core {
 		commitMessage?: string;
 		autoCommit?: boolean;
 		defaultStep?: number;
-	}): Promise<{ updatedTask: Task; changedTasks: Task[] }> {
-		const taskId = String(params.taskId || "").trim();
-		const targetStatus = String(params.targetStatus || "").trim();
-		const orderedTaskIds = params.orderedTaskIds.map((id) => String(id || "").trim()).filter(Boolean);
-		const defaultStep = params.defaultStep ?? DEFAULT_ORDINAL_STEP;
-
-		if (!taskId) throw new Error("taskId is required");
-		if (!targetStatus) throw new Error("targetStatus is required");
-		if (orderedTaskIds.length === 0) throw new Error("orderedTaskIds must include at least one task");
-		if (!orderedTaskIds.includes(taskId)) {
-			throw new Error("orderedTaskIds must include the task being moved");
-		}
+	}): Promise<{ updatedTask: Task; changedTasks: Task[]; warnings: string[] }> {
+		return this.recordOperation(`Move ${params.taskId}`, async () => {
+			const taskId = String(params.taskId || "").trim();
+			const targetStatus = String(params.targetStatus || "").trim();
+			const orderedTaskIds = params.orderedTaskIds.map((id) => String(id || "").trim()).filter(Boolean);
+			const defaultStep = params.defaultStep ?? DEFAULT_ORDINAL_STEP;
+
+			if (!taskId) throw new Error("taskId is required");
+			if (!targetStatus) throw new Error("targetStatus is required");
+			if (orderedTaskIds.length === 0) throw new Error("orderedTaskIds must include at least one task");
+			if (!orderedTaskIds.includes(taskId)) {
+				throw new Error("orderedTaskIds must include the task being moved");
+			}
 
-		const seen = new Set<string>();
-		for (const id of orderedTaskIds) {
-			if (seen.has(id)) {
-				throw new Error(`Duplicate task id ${id} in orderedTaskIds`);
+			const seen = new Set<string>();
+			for (const id of orderedTaskIds) {
+				if (seen.has(id)) {
+					throw new Error(`Duplicate task id ${id} in orderedTaskIds`);
+				}
+				seen.add(id);
 			}
-			seen.add(id);
-		}
 
-		// Load all tasks from the ordered list - use getTask to include cross-branch tasks from the store
-		const loadedTasks = await Promise.all(
-			orderedTaskIds.map(async (id) => {
-				const task = await this.getTask(id);
-				return task;
-			}),
-		);
+			// Load all tasks from the ordered list - use getTask to include cross-branch tasks from the store
+			const loadedTasks = await Promise.all(
+				orderedTaskIds.map(async (id) => {
+					const task = await this.getTask(id);
+					return task;
+				}),
+			);
 
-		// Filter out any tasks that couldn't be loaded (may have been moved/deleted)
-		const validTasks = loadedTasks.filter((t): t is Task => t !== null);
+			// Filter out any tasks that couldn't be loaded (may have been moved/deleted)
+			const validTasks = loadedTasks.filter((t): t is Task => t !== null);
 
-		// Verify the moved task itself exists
-		const movedTask = validTasks.find((t) => t.id === taskId);
-		if (!movedTask) {
-			throw new Error(`Task ${taskId} not found while reordering`);
-		}
+			// Verify the moved task itself exists
+			const movedTask = validTasks.find((t) => t.id === taskId);
+			if (!movedTask) {
+				throw new Error(`Task ${taskId} not found while reordering`);
+			}
 
-		// Reject reordering tasks from other branches - they can only be modified in their source branch
-		if (movedTask.branch) {
-			throw new Error(
-				`Task ${taskId} exists in branch "${movedTask.branch}" and cannot be reordered from the current branch. Switch to that branch to modify it.`,
-			);
-		}
+			// Reject reordering tasks from other branches - they can only be modified in their source branch
+			if (movedTask.branch) {
+				throw new Error(
+					`Task ${taskId} exists in branch "${movedTask.branch}" and cannot be reordered from the current branch. Switch to that branch to modify it.`,
+				);
+			}
 
-		const hasTargetMilestone = params.targetMilestone !== undefined;
-		const normalizedTargetMilestone =
-			params.targetMilestone === null
-				? undefined
-				: typeof params.targetMilestone === "string" && params.targetMilestone.trim().length > 0
-					? params.targetMilestone.trim()
-					: undefined;
+			const hasTargetMilestone = params.targetMilestone !== undefined;
+			const normalizedTargetMilestone =
+				params.targetMilestone === null
+					? undefined
+					: typeof params.targetMilestone === "string" && params.targetMilestone.trim().length > 0
+						? params.targetMilestone.trim()
+						: undefined;
 
-		// Calculate target index within the valid tasks list
-		const validOrderedIds = orderedTaskIds.filter((id) => validTasks.some((t) => t.id === id));
-		const targetIndex = validOrderedIds.indexOf(taskId);
+			// Calculate target index within the valid tasks list
+			const validOrderedIds = orderedTaskIds.filter((id) => validTasks.some((t) => t.id === id));
+			const targetIndex = validOrderedIds.indexOf(taskId);
 
-		if (targetIndex === -1) {
-			throw new Error("Implementation error: Task found in validTasks but index missing");
-		}
+			if (targetIndex === -1) {
+				throw new Error("Implementation error: Task found in validTasks but index missing");
+			}
 
-		const previousTask = targetIndex > 0 ? validTasks[targetIndex - 1] : null;
-		const nextTask = targetIndex < validTasks.length - 1 ? validTasks[targetIndex + 1] : null;
+			const previousTask = targetIndex > 0 ? validTasks[targetIndex - 1] : null;
+			const nextTask = targetIndex < validTasks.length - 1 ? validTasks[targetIndex + 1] : null;
 
-		const { ordinal: newOrdinal, requiresRebalance } = calculateNewOrdinal({
-			previous: previousTask,
-			next: nextTask,
-			defaultStep,
-		});
+			const { ordinal: newOrdinal, requiresRebalance } = calculateNewOrdinal({
+				previous: previousTask,
+				next: nextTask,
+				defaultStep,
+			});
 
-		const updatedMoved: Task = {
-			...movedTask,
-			status: targetStatus,
-			...(hasTargetMilestone ? { milestone: normalizedTargetMilestone } : {}),
-			ordinal: newOrdinal,
-		};
+			let warnings: string[] = [];
+			if (movedTask.status !== targetStatus) {
+				await this.ensureTransitionAllowed(movedTask, movedTask.status, targetStatus);
+				warnings = await this.checkWipLimits(movedTask, targetStatus);
+			}
 
-		const tasksInOrder: Task[] = validTasks.map((task, index) => (index === targetIndex ? updatedMoved : task));
-		const resolutionUpdates = resolveOrdinalConflicts(tasksInOrder, {
-			defaultStep,
-			startOrdinal: defaultStep,
-			forceSequential: requiresRebalance,
-		});
+			const updatedMoved: Task = {
+				...movedTask,
+				status: targetStatus,
+				...(hasTargetMilestone ? { milestone: normalizedTargetMilestone } : {}),
+				ordinal: newOrdinal,
+			};
+
+			const tasksInOrder: Task[] = validTasks.map((task, index) => (index === targetIndex ? updatedMoved : task));
+			const resolutionUpdates = resolveOrdinalConflicts(tasksInOrder, {
+				defaultStep,
+				startOrdinal: defaultStep,
+				forceSequential: requiresRebalance,
+			});
 
-		const updatesMap = new Map<string, Task>();
-		for (const update of resolutionUpdates) {
-			updatesMap.set(update.id, update);
-		}
-		if (!updatesMap.has(updatedMoved.id)) {
-			updatesMap.set(updatedMoved.id, updatedMoved);
-		}
+			const updatesMap = new Map<string, Task>();
+			for (const update of resolutionUpdates) {
+				updatesMap.set(update.id, update);
+			}
+			if (!updatesMap.has(updatedMoved.id)) {
+				updatesMap.set(updatedMoved.id, updatedMoved);
+			}
 
-		const originalMap = new Map(validTasks.map((task) => [task.id, task]));
-		const changedTasks = Array.from(updatesMap.values()).filter((task) => {
-			const original = originalMap.get(task.id);
-			if (!original) return true;
-			return (
-				(original.ordinal ?? null) !== (task.ordinal ?? null) ||
-				(original.status ?? "") !== (task.status ?? "") ||
-				(original.milestone ?? "") !== (task.milestone ?? "")
-			);
-		});
+			const originalMap = new Map(validTasks.map((task) => [task.id, task]));
+			const changedTasks = Array.from(updatesMap.values()).filter((task) => {
+				const original = originalMap.get(task.id);
+				if (!original) return true;
+				return (
+					(original.ordinal ?? null) !== (task.ordinal ?? null) ||
+					(original.status ?? "") !== (task.status ?? "") ||
+					(original.milestone ?? "") !== (task.milestone ?? "")
+				);
+			});
 
-		if (changedTasks.length > 0) {
-			await this.updateTasksBulk(
-				changedTasks,
-				params.commitMessage ?? `Reorder tasks in ${targetStatus}`,
-				params.autoCommit,
-			);
-		}
+			if (changedTasks.length > 0) {
+				await this.updateTasksBulk(
+					changedTasks,
+					params.commitMessage ?? `Reorder tasks in ${targetStatus}`,
+					params.autoCommit,
+				);
+			}
 
-		const updatedTask = updatesMap.get(taskId) ?? updatedMoved;
-		return { updatedTask, changedTasks };
+			const updatedTask = updatesMap.get(taskId) ?? updatedMoved;
+			if (isDoneStatus(updatedTask.status) && !isDoneStatus(movedTask.status)) {
+				warnings.push(...(await this.completeParentIfSubtasksDone(updatedTask, params.autoCommit)));
+			}
+			return { updatedTask, changedTasks, warnings };
+		});
 	}
 
 	// Sequences operations (business logic lives in core, not server)
@@ -1184,82 +2223,371 @@ export class Core {
 		return computeSequences(active);
 	}
 
+	/**
+	 * Critical path through the active sequences. Dependencies on done,
+	 * completed and draft tasks count as satisfied; anything else that matches
+	 * no task is reported as dangling.
+	 */
+	async getCriticalPath(options: { defaultMinutes?: number } = {}): Promise<CriticalPathReport> {
+		const [all, completed, drafts] = await Promise.all([
+			this.fs.listTasks(),
+			this.fs.listCompletedTasks(),
+			this.fs.listDrafts(),
+		]);
+		const active = all.filter((t) => (t.status || "").toLowerCase() !== "done");
+		return computeCriticalPath(active, {
+			defaultMinutes: options.defaultMinutes,
+			knownIds: [...all, ...completed, ...drafts].map((task) => task.id),
+		});
+	}
+
 	async moveTaskInSequences(params: {
 		taskId: string;
 		unsequenced?: boolean;
 		targetSequenceIndex?: number;
 	}): Promise<{ unsequenced: Task[]; sequences: Sequence[] }> {
-		const taskId = String(params.taskId || "").trim();
-		if (!taskId) throw new Error("taskId is required");
+		return this.recordOperation(`Move ${params.taskId} in sequences`, async () => {
+			const taskId = String(params.taskId || "").trim();
+			if (!taskId) throw new Error("taskId is required");
 
-		const allTasks = await this.fs.listTasks();
-		const exists = allTasks.some((t) => t.id === taskId);
-		if (!exists) throw new Error(`Task ${taskId} not found`);
+			const allTasks = await this.fs.listTasks();
+			const exists = allTasks.some((t) => t.id === taskId);
+			if (!exists) throw new Error(`Task ${taskId} not found`);
 
-		const active = allTasks.filter((t) => (t.status || "").toLowerCase() !== "done");
-		const { sequences } = computeSequences(active);
+			const active = allTasks.filter((t) => (t.status || "").toLowerCase() !== "done");
+			const { sequences } = computeSequences(active);
 
-		if (params.unsequenced) {
-			const res = planMoveToUnsequenced(allTasks, taskId);
-			if (!res.ok) throw new Error(res.error);
-			await this.updateTasksBulk(res.changed, `Move ${taskId} to Unsequenced`);
-		} else {
-			const targetSequenceIndex = params.targetSequenceIndex;
-			if (targetSequenceIndex === undefined || Number.isNaN(targetSequenceIndex)) {
-				throw new Error("targetSequenceIndex must be a number");
+			if (params.unsequenced) {
+				const res = planMoveToUnsequenced(allTasks, taskId);
+				if (!res.ok) throw new Error(res.error);
+				await this.updateTasksBulk(res.changed, `Move ${taskId} to Unsequenced`);
+			} else {
+				const targetSequenceIndex = params.targetSequenceIndex;
+				if (targetSequenceIndex === undefined || Number.isNaN(targetSequenceIndex)) {
+					throw new Error("targetSequenceIndex must be a number");
+				}
+				if (targetSequenceIndex < 1) throw new Error("targetSequenceIndex must be >= 1");
+				const changed = planMoveToSequence(allTasks, sequences, taskId, targetSequenceIndex);
+				if (changed.length > 0) await this.updateTasksBulk(changed, `Update deps/order for ${taskId}`);
 			}
-			if (targetSequenceIndex < 1) throw new Error("targetSequenceIndex must be >= 1");
-			const changed = planMoveToSequence(allTasks, sequences, taskId, targetSequenceIndex);
-			if (changed.length > 0) await this.updateTasksBulk(changed, `Update deps/order for ${taskId}`);
-		}
 
-		// Return updated sequences
-		const afterAll = await this.fs.listTasks();
-		const afterActive = afterAll.filter((t) => (t.status || "").toLowerCase() !== "done");
-		return computeSequences(afterActive);
+			// Return updated sequences
+			const afterAll = await this.fs.listTasks();
+			const afterActive = afterAll.filter((t) => (t.status || "").toLowerCase() !== "done");
+			return computeSequences(afterActive);
+		});
 	}
 
-	async archiveTask(taskId: string, autoCommit?: boolean): Promise<boolean> {
-		// Get paths before moving the file
-		const taskPath = await getTaskPath(taskId, this);
-		const taskFilename = await getTaskFilename(taskId, this);
+	/**
+	 * Move a task to the archive. With `unlinkDependents`, active tasks that
+	 * depended on it lose that dependency once the move is done, and the
+	 * archived file remembers them so a restore can relink them.
+	 */
+	async archiveTask(
+		taskId: string,
+		autoCommit?: boolean,
+		options: { unlinkDependents?: boolean } = {},
+	): Promise<boolean> {
+		return this.recordOperation(`Archive ${taskId}`, async () => {
+			// Get paths before moving the file
+			const taskPath = await getTaskPath(taskId, this);
+			const taskFilename = await getTaskFilename(taskId, this);
+
+			if (!taskPath || !taskFilename) return false;
 
-		if (!taskPath || !taskFilename) return false;
+			const fromPath = taskPath;
+			const toPath = join(await this.fs.getArchiveTasksDir(), taskFilename);
+			const task = await this.fs.loadTask(taskId);
 
-		const fromPath = taskPath;
-		const toPath = join(await this.fs.getArchiveTasksDir(), taskFilename);
+			const success = await this.fs.archiveTask(taskId);
 
-		const success = await this.fs.archiveTask(taskId);
+			const dependents = success && task && options.unlinkDependents ? await this.unlinkDependents(task.id) : [];
+			if (task && dependents.length > 0) {
+				await this.fs.saveArchivedTask({ ...task, archivedDependents: dependents });
+			}
 
-		if (success && (await this.shouldAutoCommit(autoCommit))) {
-			// Stage the file move for proper Git tracking
-			await this.git.stageFileMove(fromPath, toPath);
-			await this.git.commitChanges(`backlog: Archive task ${taskId}`);
-		}
+			if (success && (await this.shouldAutoCommit(autoCommit))) {
+				// Stage the file move for proper Git tracking
+				await this.git.stageFileMove(fromPath, toPath);
+				if (dependents.length > 0) {
+					await this.git.stageBacklogDirectory(await this.getBacklogDirectoryName());
+				}
+				await this.git.commitChanges(`backlog: Archive task ${taskId}`);
+			}
+
+			if (success && task) {
+				this.notify("task.archived", { task });
+			}
 
-		return success;
+			return success;
+		});
 	}
 
 	async completeTask(taskId: string, autoCommit?: boolean): Promise<boolean> {
-		// Get paths before moving the file
-		const completedDir = this.fs.completedDir;
-		const taskPath = await getTaskPath(taskId, this);
-		const taskFilename = await getTaskFilename(taskId, this);
+		return this.recordOperation(`Complete ${taskId}`, async () => {
+			// Get paths before moving the file
+			const completedDir = this.fs.completedDir;
+			const taskPath = await getTaskPath(taskId, this);
+			const taskFilename = await getTaskFilename(taskId, this);
 
-		if (!taskPath || !taskFilename) return false;
+			if (!taskPath || !taskFilename) return false;
 
-		const fromPath = taskPath;
-		const toPath = join(completedDir, taskFilename);
+			const fromPath = taskPath;
+			const toPath = join(completedDir, taskFilename);
 
-		const success = await this.fs.completeTask(taskId);
+			const success = await this.fs.completeTask(taskId);
+
+			if (success && (await this.shouldAutoCommit(autoCommit))) {
+				// Stage the file move for proper Git tracking
+				await this.git.stageFileMove(fromPath, toPath);
+				await this.git.commitChanges(`backlog: Complete task ${taskId}`);
+			}
+
+			return success;
+		});
+	}
 
-		if (success && (await this.shouldAutoCommit(autoCommit))) {
-			// Stage the file move for proper Git tracking
-			await this.git.stageFileMove(fromPath, toPath);
-			await this.git.commitChanges(`backlog: Complete task ${taskId}`);
+	/** Drop `taskId` from the dependencies of active tasks; returns the ids of the tasks changed */
+	private async unlinkDependents(taskId: string): Promise<string[]> {
+		const dependents = (await this.fs.listTasks()).filter(
+			(task) => !taskIdsEqual(task.id, taskId) && task.dependencies.some((dep) => taskIdsEqual(dep, taskId)),
+		);
+		for (const dependent of dependents) {
+			dependent.dependencies = dependent.dependencies.filter((dep) => !taskIdsEqual(dep, taskId));
+			await this.updateTask(dependent, false);
 		}
+		return dependents.map((task) => task.id);
+	}
 
-		return success;
+	/**
+	 * Move an archived or completed task back to tasks/, optionally with a new
+	 * status, and give the tasks that depended on it at archive time their
+	 * dependency back. Refuses when an active task or draft already has its id.
+	 * A new status goes through the workflow rules and WIP limits; when they
+	 * refuse it, the task stays where it was.
+	 */
+	async restoreTask(
+		taskId: string,
+		options: { status?: string; autoCommit?: boolean } = {},
+	): Promise<RestoreTaskResult> {
+		return this.recordOperation(`Restore ${taskId}`, async () => {
+			const archived = (await this.fs.listArchivedTasks()).find((task) => taskIdsEqual(task.id, taskId));
+			const completed = archived
+				? undefined
+				: (await this.fs.listCompletedTasks()).find((task) => taskIdsEqual(task.id, taskId));
+			const task = archived ?? completed;
+			if (!task) {
+				throw new RestoreError(`Task ${taskId} is not in the archive or in completed tasks`);
+			}
+			const from: RestoreSource = archived ? "archive" : "completed";
+
+			if (await this.fs.loadTask(task.id)) {
+				throw new RestoreError(
+					`Cannot restore ${task.id}: an active task already uses that id. Rename or archive it first.`,
+				);
+			}
+			if (await this.fs.loadDraft(task.id)) {
+				throw new RestoreError(`Cannot restore ${task.id}: a draft already uses that id. Rename or archive it first.`);
+			}
+
+			let status: string | undefined;
+			if (options.status) {
+				const canonical = await resolveCanonicalStatus(options.status, this);
+				if (!canonical) {
+					const validStatuses = await resolveValidStatuses(this);
+					throw new RestoreError(`Invalid status: ${options.status}. Valid statuses are: ${validStatuses.join(", ")}`);
+				}
+				status = canonical;
+			}
+
+			const fromPath = task.filePath;
+			if (!(await this.fs.restoreTask(task.id, from))) {
+				throw new RestoreError(`Failed to move ${task.id} back to tasks`);
+			}
+
+			let warnings: string[] = [];
+			if (status && status !== task.status) {
+				// Workflow rules and WIP limits apply as for any status change
+				try {
+					({ warnings } = await this.updateTaskFromInput(task.id, { status }, false));
+				} catch (error) {
+					await (from === "archive" ? this.fs.archiveTask(task.id) : this.fs.completeTask(task.id));
+					throw error;
+				}
+			}
+
+			const relinked: string[] = [];
+			for (const dependentId of task.archivedDependents ?? []) {
+				const dependent = await this.fs.loadTask(dependentId);
+				if (!dependent || dependent.dependencies.some((dep) => taskIdsEqual(dep, task.id))) continue;
+				dependent.dependencies = [...dependent.dependencies, task.id];
+				await this.updateTask(dependent, false);
+				relinked.push(dependent.id);
+			}
+
+			const restored = (await this.fs.loadTask(task.id)) ?? task;
+			if (restored.archivedDependents) {
+				await this.updateTask({ ...restored, archivedDependents: undefined }, false);
+			}
+
+			if (await this.shouldAutoCommit(options.autoCommit)) {
+				const toPath = await getTaskPath(task.id, this);
+				if (fromPath && toPath) await this.git.stageFileMove(fromPath, toPath);
+				await this.git.stageBacklogDirectory(await this.getBacklogDirectoryName());
+				await this.git.commitChanges(`backlog: Restore task ${task.id}`);
+			}
+
+			return {
+				task: (await this.fs.loadTask(task.id)) ?? { ...restored, archivedDependents: undefined },
+				from,
+				relinked,
+				warnings,
+			};
+		});
+	}
+
+	/**
+	 * Give every task id a new prefix: renames task and draft files (active,
+	 * completed and archived) and rewrites each mention of a task id in tasks,
+	 * drafts, docs, decisions, milestones, templates, the recurrence state and
+	 * saved views. New files are all written before any old one is removed, and
+	 * if any step fails every file is put back as it was. With `dryRun` only the
+	 * plan is returned.
+	 */
+	async migrateTaskIds(options: { prefix: string; dryRun?: boolean; autoCommit?: boolean }): Promise<IdMigrationPlan> {
+		const toPrefix = options.prefix.trim().replace(/-$/, "");
+		if (!isValidTaskPrefix(toPrefix)) {
+			throw new IdMigrationError(
+				`Invalid prefix: ${options.prefix}. Use letters and digits, starting with a letter (e.g. BACK).`,
+			);
+		}
+
+		if (options.dryRun) {
+			return (await this.planTaskIdMigration(toPrefix)).plan;
+		}
+
+		return this.recordOperation(`Migrate task ids to ${toPrefix}-`, async () => {
+			// Planned under the journal so the files read are the files written
+			const { plan, writes, config } = await this.planTaskIdMigration(toPrefix);
+			await this.fs.beforeWrite(...writes.flatMap((write) => [write.path, write.newPath]));
+			const written: string[] = [];
+			let savingConfig = false;
+			try {
+				for (const write of writes) {
+					await Bun.write(write.newPath, write.after);
+					written.push(write.newPath);
+				}
+				for (const write of writes) {
+					if (write.newPath !== write.path) await unlink(write.path);
+				}
+				const { taskPrefix: _previous, ...rest } = config;
+				savingConfig = true;
+				await this.fs.saveConfig(toPrefix === DEFAULT_TASK_PREFIX ? rest : { ...rest, taskPrefix: toPrefix });
+			} catch (error) {
+				for (const write of writes) {
+					if (written.includes(write.newPath) && write.newPath !== write.path) {
+						await unlink(write.newPath).catch(() => {});
+					}
+					await Bun.write(write.path, write.before);
+				}
+				if (savingConfig) await this.fs.saveConfig(config).catch(() => {});
+				throw new IdMigrationError(
+					`Failed to migrate task ids, nothing was changed: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+
+			if (await this.shouldAutoCommit(options.autoCommit)) {
+				await this.git.stageBacklogDirectory(await this.getBacklogDirectoryName());
+				await this.git.commitChanges(`backlog: Migrate task ids to ${toPrefix}-`);
+			}
+			return plan;
+		});
+	}
+
+	/** Files `migrateTaskIds` renames or rewrites, with their contents before and after */
+	private async planTaskIdMigration(toPrefix: string): Promise<{
+		plan: IdMigrationPlan;
+		writes: Array<{ path: string; newPath: string; before: string; after: string }>;
+		config: BacklogConfig;
+	}> {
+		const config = await this.fs.loadConfig();
+		if (!config) {
+			throw new IdMigrationError("No backlog config found. Run `backlog init` first.");
+		}
+		const fromPrefix = resolveTaskPrefix(config);
+		if (toPrefix === fromPrefix) {
+			throw new IdMigrationError(`Task ids already use the ${fromPrefix}- prefix`);
+		}
+
+		const root = this.fs.rootDir;
+		const backlogDir = join(root, await this.getBacklogDirectoryName());
+		const taskDirs = [
+			DEFAULT_DIRECTORIES.TASKS,
+			DEFAULT_DIRECTORIES.DRAFTS,
+			DEFAULT_DIRECTORIES.COMPLETED,
+			DEFAULT_DIRECTORIES.ARCHIVE_TASKS,
+			DEFAULT_DIRECTORIES.ARCHIVE_DRAFTS,
+		].map((dir) => join(backlogDir, dir));
+		// Missing directories (no drafts yet, no docs) have nothing to migrate
+		const scan = async (pattern: string, dir: string) =>
+			(await Array.fromAsync(new Bun.Glob(pattern).scan({ cwd: dir })).catch(() => [] as string[])).map((file) =>
+				join(dir, file),
+			);
+
+		const taskFiles: Array<{ dir: string; filename: string; id: string }> = [];
+		const collisions: string[] = [];
+		for (const dir of taskDirs) {
+			for (const path of await scan("*.md", dir)) {
+				const filename = basename(path);
+				const id = hasTaskPrefix(filename, fromPrefix) ? taskIdFromFilename(filename) : null;
+				if (id) {
+					taskFiles.push({ dir, filename, id });
+				} else if (hasTaskPrefix(filename, toPrefix)) {
+					collisions.push(relative(root, path));
+				}
+			}
+		}
+		if (collisions.length > 0) {
+			throw new IdMigrationError(`These files already use the ${toPrefix}- prefix: ${collisions.join(", ")}`);
+		}
+
+		const idMap = buildIdMap(
+			taskFiles.map((file) => file.id),
+			fromPrefix,
+		);
+		const otherFiles = [
+			...(await scan("**/*.md", join(backlogDir, DEFAULT_DIRECTORIES.DOCS))),
+			...(await scan("*.md", join(backlogDir, DEFAULT_DIRECTORIES.DECISIONS))),
+			...(await scan("*.md", join(backlogDir, DEFAULT_DIRECTORIES.MILESTONES))),
+			...(await scan("*.md", join(backlogDir, DEFAULT_DIRECTORIES.TEMPLATES))),
+			...(await scan(DEFAULT_FILES.RECUR_STATE, join(backlogDir, DEFAULT_DIRECTORIES.TEMPLATES))),
+			...(await scan(DEFAULT_FILES.VIEWS, backlogDir)),
+		];
+
+		const writes: Array<{ path: string; newPath: string; before: string; after: string }> = [];
+		const plan: IdMigrationPlan = { fromPrefix, toPrefix, renames: [], files: [] };
+		const seenIds = new Set<string>();
+		for (const { dir, filename, id } of taskFiles) {
+			const path = join(dir, filename);
+			const newPath = join(dir, renameTaskFile(filename, fromPrefix, toPrefix));
+			const before = await Bun.file(path).text();
+			const { content: after, references } = rewriteTaskReferences(before, idMap, fromPrefix, toPrefix);
+			writes.push({ path, newPath, before, after });
+			plan.files.push({ path: relative(root, path), newPath: relative(root, newPath), references });
+			if (!seenIds.has(id)) {
+				seenIds.add(id);
+				plan.renames.push({ from: id, to: `${toPrefix}-${id.slice(fromPrefix.length + 1)}` });
+			}
+		}
+		for (const path of otherFiles) {
+			const before = await Bun.file(path).text();
+			const { content: after, references } = rewriteTaskReferences(before, idMap, fromPrefix, toPrefix);
+			if (references === 0) continue;
+			writes.push({ path, newPath: path, before, after });
+			plan.files.push({ path: relative(root, path), references });
+		}
+		plan.renames.sort((a, b) => a.from.localeCompare(b.from, undefined, { numeric: true }));
+		return { plan, writes, config };
 	}
 
 	async getDoneTasksByAge(olderThanDays: number): Promise<Task[]> {
@@ -1280,62 +2608,70 @@ export class Core {
 	}
 
 	async archiveDraft(taskId: string, autoCommit?: boolean): Promise<boolean> {
-		const success = await this.fs.archiveDraft(taskId);
+		return this.recordOperation(`Archive ${taskId}`, async () => {
+			const success = await this.fs.archiveDraft(taskId);
 
-		if (success && (await this.shouldAutoCommit(autoCommit))) {
-			const backlogDir = await this.getBacklogDirectoryName();
-			await this.git.stageBacklogDirectory(backlogDir);
-			await this.git.commitChanges(`backlog: Archive draft ${taskId}`);
-		}
+			if (success && (await this.shouldAutoCommit(autoCommit))) {
+				const backlogDir = await this.getBacklogDirectoryName();
+				await this.git.stageBacklogDirectory(backlogDir);
+				await this.git.commitChanges(`backlog: Archive draft ${taskId}`);
+			}
 
-		return success;
+			return success;
+		});
 	}
 
 	async promoteDraft(taskId: string, autoCommit?: boolean): Promise<boolean> {
-		const success = await this.fs.promoteDraft(taskId);
+		return this.recordOperation(`Promote ${taskId}`, async () => {
+			const success = await this.fs.promoteDraft(taskId);
 
-		if (success && (await this.shouldAutoCommit(autoCommit))) {
-			const backlogDir = await this.getBacklogDirectoryName();
-			await this.git.stageBacklogDirectory(backlogDir);
-			await this.git.commitChanges(`backlog: Promote draft ${taskId}`);
-		}
+			if (success && (await this.shouldAutoCommit(autoCommit))) {
+				const backlogDir = await this.getBacklogDirectoryName();
+				await this.git.stageBacklogDirectory(backlogDir);
+				await this.git.commitChanges(`backlog: Promote draft ${taskId}`);
+			}
 
-		return success;
+			return success;
+		});
 	}
 
 	async demoteTask(taskId: string, autoCommit?: boolean): Promise<boolean> {
-		const success = await this.fs.demoteTask(taskId);
+		return this.recordOperation(`Demote ${taskId}`, async () => {
+			const success = await this.fs.demoteTask(taskId);
 
-		if (success && (await this.shouldAutoCommit(autoCommit))) {
-			const backlogDir = await this.getBacklogDirectoryName();
-			await this.git.stageBacklogDirectory(backlogDir);
-			await this.git.commitChanges(`backlog: Demote task ${taskId}`);
-		}
+			if (success && (await this.shouldAutoCommit(autoCommit))) {
+				const backlogDir = await this.getBacklogDirectoryName();
+				await this.git.stageBacklogDirectory(backlogDir);
+				await this.git.commitChanges(`backlog: Demote task ${taskId}`);
+			}
 
-		return success;
+			return success;
+		});
 	}
 
 	/**
 	 * Add acceptance criteria to a task
 	 */
 	async addAcceptanceCriteria(taskId: string, criteria: string[], autoCommit?: boolean): Promise<void> {
-		const task = await this.fs.loadTask(taskId);
-		if (!task) {
-			throw new Error(`Task not found: ${taskId}`);
-		}
+		return this.recordOperation(`Edit ${taskId}`, async () => {
+			const task = await this.fs.loadTask(taskId);
+			if (!task) {
+				throw new Error(`Task not found: ${taskId}`);
+			}
 
-		// Get existing criteria or initialize empty array
-		const current = Array.isArray(task.acceptanceCriteriaItems) ? [...task.acceptanceCriteriaItems] : [];
+			// Get existing criteria or initialize empty array
+			const current = Array.isArray(task.acceptanceCriteriaItems) ? [...task.acceptanceCriteriaItems] : [];
 
-		// Calculate next index (1-based)
-		let nextIndex = current.length > 0 ? Math.max(...current.map((c) => c.index)) + 1 : 1;
+			// Calculate next index (1-based)
+			let nextIndex = current.length > 0 ? Math.max(...current.map((c) => c.index)) + 1 : 1;
 
-		// Append new criteria
-		const newCriteria = criteria.map((text) => ({ index: nextIndex++, text, checked: false }));
-		task.acceptanceCriteriaItems = [...current, ...newCriteria];
+			// Append new criteria
+			const newCriteria = criteria.map((text) => ({ index: nextIndex++, text, checked: false }));
+			task.acceptanceCriteriaItems = [...current, ...newCriteria];
 
-		// Save the task
-		await this.updateTask(task, autoCommit);
+			// Save the task
+			await this.updateTask(task, autoCommit);
+		});
 	}
 
 	/**
@@ -1343,37 +2679,39 @@ export class Core {
 	 * @returns Array of removed indices
 	 */
 	async removeAcceptanceCriteria(taskId: string, indices: number[], autoCommit?: boolean): Promise<number[]> {
-		const task = await this.fs.loadTask(taskId);
-		if (!task) {
-			throw new Error(`Task not found: ${taskId}`);
-		}
+		return this.recordOperation(`Edit ${taskId}`, async () => {
+			const task = await this.fs.loadTask(taskId);
+			if (!task) {
+				throw new Error(`Task not found: ${taskId}`);
+			}
 
-		let list = Array.isArray(task.acceptanceCriteriaItems) ? [...task.acceptanceCriteriaItems] : [];
-		const removed: number[] = [];
+			let list = Array.isArray(task.acceptanceCriteriaItems) ? [...task.acceptanceCriteriaItems] : [];
+			const removed: number[] = [];
 
-		// Sort indices in descending order to avoid index shifting issues
-		const sortedIndices = [...indices].sort((a, b) => b - a);
+			// Sort indices in descending order to avoid index shifting issues
+			const sortedIndices = [...indices].sort((a, b) => b - a);
 
-		for (const idx of sortedIndices) {
-			const before = list.length;
-			list = list.filter((c) => c.index !== idx);
-			if (list.length < before) {
-				removed.push(idx);
+			for (const idx of sortedIndices) {
+				const before = list.length;
+				list = list.filter((c) => c.index !== idx);
+				if (list.length < before) {
+					removed.push(idx);
+				}
 			}
-		}
 
-		if (removed.length === 0) {
-			throw new Error("No criteria were removed. Check that the specified indices exist.");
-		}
+			if (removed.length === 0) {
+				throw new Error("No criteria were removed. Check that the specified indices exist.");
+			}
 
-		// Re-index remaining items (1-based)
-		list = list.map((c, i) => ({ ...c, index: i + 1 }));
-		task.acceptanceCriteriaItems = list;
+			// Re-index remaining items (1-based)
+			list = list.map((c, i) => ({ ...c, index: i + 1 }));
+			task.acceptanceCriteriaItems = list;
 
-		// Save the task
-		await this.updateTask(task, autoCommit);
+			// Save the task
+			await this.updateTask(task, autoCommit);
 
-		return removed.sort((a, b) => a - b); // Return in ascending order
+			return removed.sort((a, b) => a - b); // Return in ascending order
+		});
 	}
 
 	/**
@@ -1387,37 +2725,39 @@ export class Core {
 		checked: boolean,
 		autoCommit?: boolean,
 	): Promise<number[]> {
-		const task = await this.fs.loadTask(taskId);
-		if (!task) {
-			throw new Error(`Task not found: ${taskId}`);
-		}
-
-		let list = Array.isArray(task.acceptanceCriteriaItems) ? [...task.acceptanceCriteriaItems] : [];
-		const updated: number[] = [];
+		return this.recordOperation(`Edit ${taskId}`, async () => {
+			const task = await this.fs.loadTask(taskId);
+			if (!task) {
+				throw new Error(`Task not found: ${taskId}`);
+			}
 
-		// Filter to only valid indices and update them
-		for (const idx of indices) {
-			if (list.some((c) => c.index === idx)) {
-				list = list.map((c) => {
-					if (c.index === idx) {
-						updated.push(idx);
-						return { ...c, checked };
-					}
-					return c;
-				});
+			let list = Array.isArray(task.acceptanceCriteriaItems) ? [...task.acceptanceCriteriaItems] : [];
+			const updated: number[] = [];
+
+			// Filter to only valid indices and update them
+			for (const idx of indices) {
+				if (list.some((c) => c.index === idx)) {
+					list = list.map((c) => {
+						if (c.index === idx) {
+							updated.push(idx);
+							return { ...c, checked };
+						}
+						return c;
+					});
+				}
 			}
-		}
 
-		if (updated.length === 0) {
-			throw new Error("No criteria were updated.");
-		}
+			if (updated.length === 0) {
+				throw new Error("No criteria were updated.");
+			}
 
-		task.acceptanceCriteriaItems = list;
+			task.acceptanceCriteriaItems = list;
 
-		// Save the task
-		await this.updateTask(task, autoCommit);
+			// Save the task
+			await this.updateTask(task, autoCommit);
 
-		return updated.sort((a, b) => a - b);
+			return updated.sort((a, b) => a - b);
+		});
 	}
 
 	/**
@@ -1433,6 +2773,13 @@ export class Core {
 	}
 
 	async createDecision(decision: Decision, autoCommit?: boolean): Promise<void> {
+		return this.recordOperation(`Create ${decision.id}`, async () => {
+			await this.writeDecision(decision, autoCommit);
+			this.notify("decision.created", { decision });
+		});
+	}
+
+	private async writeDecision(decision: Decision, autoCommit?: boolean): Promise<void> {
 		await this.fs.saveDecision(decision);
 
 		if (await this.shouldAutoCommit(autoCommit)) {
@@ -1443,33 +2790,36 @@ export class Core {
 	}
 
 	async updateDecisionFromContent(decisionId: string, content: string, autoCommit?: boolean): Promise<void> {
-		const existingDecision = await this.fs.loadDecision(decisionId);
-		if (!existingDecision) {
-			throw new Error(`Decision ${decisionId} not found`);
-		}
-
-		// Parse the markdown content to extract the decision data
-		const matter = await import("gray-matter");
-		const { data } = matter.default(content);
-
-		const extractSection = (content: string, sectionName: string): string | undefined => {
-			const regex = new RegExp(`## ${sectionName}\\s*([\\s\\S]*?)(?=## |$)`, "i");
-			const match = content.match(regex);
-			return match ? match[1]?.trim() : undefined;
-		};
-
-		const updatedDecision = {
-			...existingDecision,
-			title: data.title || existingDecision.title,
-			status: data.status || existingDecision.status,
-			date: data.date || existingDecision.date,
-			context: extractSection(content, "Context") || existingDecision.context,
-			decision: extractSection(content, "Decision") || existingDecision.decision,
-			consequences: extractSection(content, "Consequences") || existingDecision.consequences,
-			alternatives: extractSection(content, "Alternatives") || existingDecision.alternatives,
-		};
+		return this.recordOperation(`Edit ${decisionId}`, async () => {
+			const existingDecision = await this.fs.loadDecision(decisionId);
+			if (!existingDecision) {
+				throw new Error(`Decision ${decisionId} not found`);
+			}
 
-		await this.createDecision(updatedDecision, autoCommit);
+			// Parse the markdown content to extract the decision data
+			const matter = await import("gray-matter");
+			const { data } = matter.default(content);
+
+			const extractSection = (content: string, sectionName: string): string | undefined => {
+				const regex = new RegExp(`## ${sectionName}\\s*([\\s\\S]*?)(?=## |$)`, "i");
+				const match = content.match(regex);
+				return match ? match[1]?.trim() : undefined;
+			};
+
+			const updatedDecision = {
+				...existingDecision,
+				title: data.title || existingDecision.title,
+				status: data.status || existingDecision.status,
+				date: data.date || existingDecision.date,
+				context: extractSection(content, "Context") || existingDecision.context,
+				decision: extractSection(content, "Decision") || existingDecision.decision,
+				consequences: extractSection(content, "Consequences") || existingDecision.consequences,
+				alternatives: extractSection(content, "Alternatives") || existingDecision.alternatives,
+			};
+
+			await this.writeDecision(updatedDecision, autoCommit);
+			this.notify("decision.updated", { decision: updatedDecision });
+		});
 	}
 
 	async createDecisionWithTitle(title: string, autoCommit?: boolean): Promise<Decision> {
@@ -1493,6 +2843,13 @@ export class Core {
 	}
 
 	async createDocument(doc: Document, autoCommit?: boolean, subPath = ""): Promise<void> {
+		return this.recordOperation(`Create ${doc.id}`, async () => {
+			await this.writeDocument(doc, autoCommit, subPath);
+			this.notify("document.created", { document: doc });
+		});
+	}
+
+	private async writeDocument(doc: Document, autoCommit?: boolean, subPath = ""): Promise<void> {
 		const relativePath = await this.fs.saveDocument(doc, subPath);
 		doc.path = relativePath;
 
@@ -1504,21 +2861,24 @@ export class Core {
 	}
 
 	async updateDocument(existingDoc: Document, content: string, autoCommit?: boolean): Promise<void> {
-		const updatedDoc = {
-			...existingDoc,
-			rawContent: content,
-			updatedDate: new Date().toISOString().slice(0, 16).replace("T", " "),
-		};
-
-		let normalizedSubPath = "";
-		if (existingDoc.path) {
-			const segments = existingDoc.path.split(/[\\/]/).slice(0, -1);
-			if (segments.length > 0) {
-				normalizedSubPath = segments.join("/");
+		return this.recordOperation(`Edit ${existingDoc.id}`, async () => {
+			const updatedDoc = {
+				...existingDoc,
+				rawContent: content,
+				updatedDate: new Date().toISOString().slice(0, 16).replace("T", " "),
+			};
+
+			let normalizedSubPath = "";
+			if (existingDoc.path) {
+				const segments = existingDoc.path.split(/[\\/]/).slice(0, -1);
+				if (segments.length > 0) {
+					normalizedSubPath = segments.join("/");
+				}
 			}
-		}
 
-		await this.createDocument(updatedDoc, autoCommit, normalizedSubPath);
+			await this.writeDocument(updatedDoc, autoCommit, normalizedSubPath);
+			this.notify("document.updated", { document: updatedDoc });
+		});
 	}
 
 	async createDocumentWithId(title: string, content: string, autoCommit?: boolean): Promise<Document> {
@@ -1645,6 +3005,53 @@ export class Core {
 		}
 	}
 
+	/**
+	 * Rebuild daily status snapshots for burndown and cumulative flow charts.
+	 * Status changes come from task history, falling back to the git history of the task files.
+	 */
+	async getTaskMetrics(options: { days?: number; milestone?: string; to?: string } = {}): Promise<TaskMetrics> {
+		const config = await this.fs.loadConfig();
+		const statuses = (config?.statuses || DEFAULT_STATUSES) as string[];
+		const [tasks, completedTasks, milestones] = await Promise.all([
+			this.fs.listTasks(),
+			this.fs.listCompletedTasks(),
+			this.fs.listMilestones(),
+		]);
+
+		const backlogDir = DEFAULT_DIRECTORIES.BACKLOG;
+		const changes = await this.git.getStatusChangeLog([
+			`${backlogDir}/${DEFAULT_DIRECTORIES.TASKS}`,
+			`${backlogDir}/${DEFAULT_DIRECTORIES.COMPLETED}`,
+		]);
+
+		return computeTaskMetrics([...tasks, ...completedTasks], {
+			statuses,
+			milestones,
+			gitEvents: groupGitStatusEvents(changes),
+			days: options.days,
+			to: options.to,
+			milestone: options.milestone,
+		});
+	}
+
+	/**
+	 * Lead and cycle time statistics over local and completed tasks.
+	 * Status changes come from task history, falling back to the git history of the task files.
+	 */
+	async getFlowStatistics(options: FlowStatisticsOptions = {}): Promise<FlowStatistics> {
+		const config = await this.fs.loadConfig();
+		const statuses = (config?.statuses || DEFAULT_STATUSES) as string[];
+		const [tasks, completedTasks] = await Promise.all([this.fs.listTasks(), this.fs.listCompletedTasks()]);
+
+		const backlogDir = DEFAULT_DIRECTORIES.BACKLOG;
+		const changes = await this.git.getStatusChangeLog([
+			`${backlogDir}/${DEFAULT_DIRECTORIES.TASKS}`,
+			`${backlogDir}/${DEFAULT_DIRECTORIES.COMPLETED}`,
+		]);
+
+		return computeFlowStatistics([...tasks, ...completedTasks], statuses, options, groupGitStatusHistory(changes));
+	}
+
 	/**
 	 * Load and process all tasks with the same logic as CLI overview
 	 * This method extracts the common task loading logic for reuse
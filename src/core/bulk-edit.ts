@@ -0,0 +1,136 @@
+import type { CustomFieldDefinition, CustomFieldValue, Task, TaskUpdateInput } from "../types/index.ts";
+import { findCustomField } from "./custom-fields.ts";
+
+export class BulkEditError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "BulkEditError";
+	}
+}
+
+export type BulkEditOutcome = "updated" | "unchanged" | "failed";
+
+export interface BulkEditResult {
+	id: string;
+	title: string;
+	outcome: BulkEditOutcome;
+	/** Task fields that changed */
+	changes: string[];
+	error?: string;
+	/** WIP limits the new status exceeds */
+	warnings?: string[];
+}
+
+/** Names accepted on the left of `--set name=value`, besides custom fields */
+const SET_FIELDS: Record<
+	string,
+	"status" | "priority" | "milestone" | "assignee" | "labels" | "start" | "due" | "estimate"
+> = {
+	status: "status",
+	priority: "priority",
+	milestone: "milestone",
+	assignee: "assignee",
+	assignees: "assignee",
+	labels: "labels",
+	label: "labels",
+	start: "start",
+	startdate: "start",
+	due: "due",
+	duedate: "due",
+	estimate: "estimate",
+};
+
+function splitList(value: string): string[] {
+	return value
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Turn `--set name=value` entries into an update. An empty value clears the
+ * field (except status and priority); lists (`assignee`, `labels`) are comma-separated and replace the
+ * current values. Names that are not task fields must be custom fields.
+ */
+export function parseBulkSetAssignments(
+	entries: string[],
+	customFields: CustomFieldDefinition[] = [],
+): TaskUpdateInput {
+	const input: TaskUpdateInput = {};
+	const custom: Record<string, CustomFieldValue> = {};
+	for (const entry of entries) {
+		const index = entry.indexOf("=");
+		const name = index === -1 ? "" : entry.slice(0, index).trim();
+		if (!name) {
+			throw new BulkEditError(`Invalid assignment "${entry}". Use name=value, e.g. --set status=Done`);
+		}
+		const value = entry.slice(index + 1).trim();
+		switch (SET_FIELDS[name.toLowerCase()]) {
+			case "status":
+				if (!value) throw new BulkEditError("Status cannot be cleared");
+				input.status = value;
+				break;
+			case "priority":
+				if (!["high", "medium", "low"].includes(value.toLowerCase())) {
+					throw new BulkEditError(`Invalid priority: ${value}. Valid values are: high, medium, low`);
+				}
+				input.priority = value.toLowerCase() as TaskUpdateInput["priority"];
+				break;
+			case "milestone":
+				input.milestone = value || null;
+				break;
+			case "assignee":
+				input.assignee = splitList(value);
+				break;
+			case "labels":
+				input.labels = splitList(value);
+				break;
+			case "start":
+				input.startDate = value || null;
+				break;
+			case "due":
+				input.dueDate = value || null;
+				break;
+			case "estimate":
+				input.estimate = value || null;
+				break;
+			default: {
+				const definition = findCustomField(customFields, name);
+				if (!definition) {
+					throw new BulkEditError(
+						`Unknown field "${name}". Use ${Object.keys(SET_FIELDS).join(", ")} or a custom field from config`,
+					);
+				}
+				custom[definition.name] = value;
+			}
+		}
+	}
+	if (Object.keys(custom).length > 0) {
+		input.customFields = custom;
+	}
+	return input;
+}
+
+export function isEmptyUpdate(input: TaskUpdateInput): boolean {
+	return Object.values(input).every((value) => value === undefined);
+}
+
+export function formatBulkEditPreview(tasks: Task[]): string {
+	const lines = [`Matched ${tasks.length} task(s):`];
+	for (const task of tasks) {
+		lines.push(`  ${task.id} - ${task.title} (${task.status})`);
+	}
+	return lines.join("\n");
+}
+
+export function formatBulkEditResults(results: BulkEditResult[]): string {
+	const count = (outcome: BulkEditOutcome) => results.filter((result) => result.outcome === outcome).length;
+	const lines = results.map((result) => {
+		if (result.outcome === "failed") return `  ${result.id} failed: ${result.error}`;
+		if (result.outcome === "unchanged") return `  ${result.id} unchanged`;
+		const warnings = (result.warnings ?? []).map((warning) => `\n    Warning: ${warning}`).join("");
+		return `  ${result.id} updated (${result.changes.join(", ")})${warnings}`;
+	});
+	lines.push(`${count("updated")} updated, ${count("unchanged")} unchanged, ${count("failed")} failed`);
+	return lines.join("\n");
+}
@@ -0,0 +1,56 @@
+import type { TaskComment } from "../types/index.ts";
+
+export interface CommentThread {
+	comment: TaskComment;
+	replies: CommentThread[];
+}
+
+/**
+ * Nest comments under the comment they reply to, oldest first. A reply whose
+ * parent is missing (e.g. removed by hand) starts its own thread.
+ */
+export function buildCommentThreads(comments: TaskComment[]): CommentThread[] {
+	const nodes = new Map<number, CommentThread>();
+	for (const comment of comments) {
+		nodes.set(comment.id, { comment, replies: [] });
+	}
+	const roots: CommentThread[] = [];
+	for (const comment of comments) {
+		const node = nodes.get(comment.id);
+		if (!node) continue;
+		const parent = comment.replyTo !== undefined ? nodes.get(comment.replyTo) : undefined;
+		if (parent && parent !== node) {
+			parent.replies.push(node);
+		} else {
+			roots.push(node);
+		}
+	}
+	return roots;
+}
+
+export function formatCommentAuthor(author: string): string {
+	return author.startsWith("@") ? author : `@${author}`;
+}
+
+/**
+ * Plain-text thread: a `#id @author date` header per comment with its body
+ * below, replies indented under their parent
+ */
+export function formatCommentThreads(comments: TaskComment[]): string[] {
+	const lines: string[] = [];
+	const visit = (thread: CommentThread, depth: number) => {
+		const indent = "  ".repeat(depth);
+		const { comment } = thread;
+		lines.push(`${indent}#${comment.id} ${formatCommentAuthor(comment.author)} ${comment.date}`);
+		for (const line of comment.body.split("\n")) {
+			lines.push(line ? `${indent}  ${line}` : "");
+		}
+		for (const reply of thread.replies) {
+			visit(reply, depth + 1);
+		}
+	};
+	for (const thread of buildCommentThreads(comments)) {
+		visit(thread, 0);
+	}
+	return lines;
+}
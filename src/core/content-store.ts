@@ -3,9 +3,11 @@ import { readdir, stat } from "node:fs/promises";
 import { basename, join, relative, sep } from "node:path";
 import type { FileSystem } from "../file-system/operations.ts";
 import { parseDecision, parseDocument, parseTask } from "../markdown/parser.ts";
-import type { Decision, Document, Task, TaskListFilter } from "../types/index.ts";
-import { taskIdsEqual } from "../utils/task-path.ts";
+import type { Decision, Document, Task, TaskListFilter, TaskRelation } from "../types/index.ts";
+import { taskIdKey, taskIdsEqual } from "../utils/task-path.ts";
+import { isTaskId } from "../utils/task-prefix.ts";
 import { sortByTaskId } from "../utils/task-sorting.ts";
+import { buildRelationIndex } from "./relations.ts";
 
 interface ContentSnapshot {
 	tasks: Task[];
@@ -39,11 +41,13 @@ export class ContentStore {
 	private cachedTasks: Task[] = [];
 	private cachedDocuments: Document[] = [];
 	private cachedDecisions: Decision[] = [];
+	private relationIndex?: { tasks: Task[]; relations: Map<string, TaskRelation[]>; ids: Map<string, string> };
 
 	private readonly listeners = new Set<ContentStoreListener>();
 	private readonly watchers: WatchHandle[] = [];
 	private restoreFilesystemPatch?: () => void;
 	private chainTail: Promise<void> = Promise.resolve();
+	private taskWrites = 0;
 	private watchersInitialized = false;
 	private configWatcherActive = false;
 
@@ -119,10 +123,30 @@ export class ContentStore {
 		return tasks.slice();
 	}
 
+	/**
+	 * Relations of a task: those in its own frontmatter plus the inverses of
+	 * relations other tasks record pointing at it (blocks → blocked-by, ...)
+	 */
+	getTaskRelations(taskId: string): TaskRelation[] {
+		if (!this.initialized) {
+			throw new Error("ContentStore not initialized. Call ensureInitialized() first.");
+		}
+		if (this.relationIndex?.tasks !== this.cachedTasks) {
+			this.relationIndex = {
+				tasks: this.cachedTasks,
+				relations: buildRelationIndex(this.cachedTasks),
+				ids: new Map(this.cachedTasks.map((task) => [taskIdKey(task.id), task.id])),
+			};
+		}
+		const id = this.relationIndex.ids.get(taskIdKey(taskId)) ?? taskId;
+		return (this.relationIndex.relations.get(id) ?? []).slice();
+	}
+
 	upsertTask(task: Task): void {
 		if (!this.initialized) {
 			return;
 		}
+		this.taskWrites += 1;
 		this.tasks.set(task.id, task);
 		this.cachedTasks = sortByTaskId(Array.from(this.tasks.values()));
 		this.notify("tasks");
@@ -310,7 +334,7 @@ export class ContentStore {
 		const tasksDir = this.filesystem.tasksDir;
 		const watcher: FSWatcher = watch(tasksDir, { recursive: false }, (eventType, filename) => {
 			const file = this.normalizeFilename(filename);
-			if (!file || !file.startsWith("task-") || !file.endsWith(".md")) {
+			if (!file || !isTaskId(file) || !file.endsWith(".md")) {
 				this.enqueue(async () => {
 					await this.refreshTasksFromDisk();
 				});
@@ -659,6 +683,7 @@ export class ContentStore {
 	}
 
 	private async refreshTasksFromDisk(expectedId?: string, previous?: Task): Promise<void> {
+		const writesBeforeRead = this.taskWrites;
 		const tasks = await this.retryRead(
 			async () => this.loadTasksWithLoader(),
 			(expected) => {
@@ -678,6 +703,11 @@ export class ContentStore {
 		if (!tasks) {
 			return;
 		}
+		// A task saved while the directory was being read may be missing from it; read again rather than undo the save
+		if (this.taskWrites !== writesBeforeRead) {
+			await this.refreshTasksFromDisk(expectedId, previous);
+			return;
+		}
 		this.replaceTasks(tasks);
 		this.notify("tasks");
 	}
@@ -746,6 +776,7 @@ export class ContentStore {
 		if (!task) {
 			return;
 		}
+		this.taskWrites += 1;
 		this.tasks.set(task.id, task);
 		this.cachedTasks = sortByTaskId(Array.from(this.tasks.values()));
 		this.notify("tasks");
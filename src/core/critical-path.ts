@@ -0,0 +1,253 @@
+import type { Task } from "../types/index.ts";
+import { formatDuration, parseDuration } from "../utils/duration.ts";
+import { compareTaskIds, sortByTaskId } from "../utils/task-sorting.ts";
+import { computeSequences } from "./sequences.ts";
+
+/** Weight of a task without an estimate: one working day */
+export const DEFAULT_TASK_MINUTES = 8 * 60;
+
+export interface ScheduledTask {
+	task: Task;
+	/** Remaining effort, else the estimate, else the default weight */
+	minutes: number;
+	/** False when the default weight was used */
+	estimated: boolean;
+	/** Minutes from the start of the project, assuming unlimited people */
+	earliestStart: number;
+	earliestFinish: number;
+	latestStart: number;
+	latestFinish: number;
+	/** How long the task can slip without moving the finish date; 0 on the critical path */
+	slack: number;
+}
+
+export interface CriticalPathReport {
+	/** The longest dependency chain, in execution order */
+	path: ScheduledTask[];
+	/** Every scheduled task, critical ones included, in sequence order */
+	tasks: ScheduledTask[];
+	/** Length of the critical path in minutes */
+	totalMinutes: number;
+	/** Each cycle as the ids along it, ending with the first one again */
+	cycles: string[][];
+	/** Tasks left out because they depend on a cycle, directly or not */
+	blockedByCycle: string[];
+	/** Dependencies on ids that match no task at all */
+	danglingDependencies: Array<{ taskId: string; dependency: string }>;
+}
+
+/**
+ * Critical path method on top of `computeSequences`: a forward pass gives
+ * every task its earliest start, a backward pass its latest start, and the
+ * difference is its slack. Dependencies on tasks outside `tasks` are treated
+ * as done when `knownIds` contains them (e.g. completed tasks) and reported as
+ * dangling otherwise.
+ */
+export function computeCriticalPath(
+	tasks: Task[],
+	options: { defaultMinutes?: number; knownIds?: Iterable<string> } = {},
+): CriticalPathReport {
+	const defaultMinutes = options.defaultMinutes ?? DEFAULT_TASK_MINUTES;
+	const byId = new Map(tasks.map((task) => [task.id, task]));
+	const knownIds = new Set(options.knownIds ?? []);
+
+	const danglingDependencies: CriticalPathReport["danglingDependencies"] = [];
+	for (const task of sortByTaskId(tasks)) {
+		for (const dependency of task.dependencies ?? []) {
+			if (!byId.has(dependency) && !knownIds.has(dependency)) {
+				danglingDependencies.push({ taskId: task.id, dependency });
+			}
+		}
+	}
+	const internalDependencies = (task: Task) => (task.dependencies ?? []).filter((dependency) => byId.has(dependency));
+
+	// Sequences list dependencies before their dependents, except for a final
+	// layer holding whatever is stuck on a cycle
+	const { unsequenced, sequences } = computeSequences(tasks);
+	const scheduled = new Map<string, ScheduledTask>();
+	const skipped: string[] = [];
+	for (const task of [...unsequenced, ...sequences.flatMap((sequence) => sequence.tasks)]) {
+		const dependencies = internalDependencies(task);
+		if (dependencies.some((dependency) => !scheduled.has(dependency))) {
+			skipped.push(task.id);
+			continue;
+		}
+		const effort = parseDuration(task.remaining ?? task.estimate);
+		const minutes = effort ?? defaultMinutes;
+		const earliestStart = Math.max(
+			0,
+			...dependencies.map((dependency) => scheduled.get(dependency)?.earliestFinish ?? 0),
+		);
+		scheduled.set(task.id, {
+			task,
+			minutes,
+			estimated: effort !== null,
+			earliestStart,
+			earliestFinish: earliestStart + minutes,
+			latestStart: 0,
+			latestFinish: 0,
+			slack: 0,
+		});
+	}
+
+	const ordered = Array.from(scheduled.values());
+	const totalMinutes = Math.max(0, ...ordered.map((entry) => entry.earliestFinish));
+	const dependents = new Map<string, ScheduledTask[]>();
+	for (const entry of ordered) {
+		for (const dependency of internalDependencies(entry.task)) {
+			dependents.set(dependency, [...(dependents.get(dependency) ?? []), entry]);
+		}
+	}
+	for (const entry of [...ordered].reverse()) {
+		const next = dependents.get(entry.task.id) ?? [];
+		entry.latestFinish = Math.min(totalMinutes, ...next.map((dependent) => dependent.latestStart));
+		entry.latestStart = entry.latestFinish - entry.minutes;
+		entry.slack = entry.latestStart - entry.earliestStart;
+	}
+
+	// Walk back from the task that finishes last through dependencies without slack
+	const path: ScheduledTask[] = [];
+	let current = ordered.find((entry) => entry.slack === 0 && entry.earliestFinish === totalMinutes);
+	while (current) {
+		path.unshift(current);
+		const start = current.earliestStart;
+		current = internalDependencies(current.task)
+			.map((dependency) => scheduled.get(dependency))
+			.find((entry) => entry !== undefined && entry.slack === 0 && entry.earliestFinish === start);
+	}
+
+	const cycles = findCycles(
+		skipped.map((id) => byId.get(id)).filter((task): task is Task => Boolean(task)),
+		internalDependencies,
+	);
+	const inCycle = new Set(cycles.flat());
+
+	return {
+		path,
+		tasks: ordered,
+		totalMinutes,
+		cycles,
+		blockedByCycle: skipped.filter((id) => !inCycle.has(id)).sort(compareTaskIds),
+		danglingDependencies,
+	};
+}
+
+/**
+ * One cycle per strongly connected group of tasks (Tarjan), walked from its
+ * lowest id along dependencies back to itself
+ */
+function findCycles(tasks: Task[], dependenciesOf: (task: Task) => string[]): string[][] {
+	const byId = new Map(tasks.map((task) => [task.id, task]));
+	const edges = (id: string) => {
+		const task = byId.get(id);
+		return task ? dependenciesOf(task).filter((dependency) => byId.has(dependency)) : [];
+	};
+
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+	let counter = 0;
+
+	const connect = (id: string) => {
+		index.set(id, counter);
+		lowLink.set(id, counter);
+		counter++;
+		stack.push(id);
+		onStack.add(id);
+		for (const next of edges(id)) {
+			if (!index.has(next)) {
+				connect(next);
+				lowLink.set(id, Math.min(lowLink.get(id) ?? 0, lowLink.get(next) ?? 0));
+			} else if (onStack.has(next)) {
+				lowLink.set(id, Math.min(lowLink.get(id) ?? 0, index.get(next) ?? 0));
+			}
+		}
+		if (lowLink.get(id) === index.get(id)) {
+			const component: string[] = [];
+			let member: string | undefined;
+			do {
+				member = stack.pop();
+				if (member === undefined) break;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== id);
+			components.push(component);
+		}
+	};
+	for (const task of sortByTaskId(tasks)) {
+		if (!index.has(task.id)) connect(task.id);
+	}
+
+	return components
+		.filter((component) => component.length > 1 || edges(component[0] ?? "").includes(component[0] ?? ""))
+		.map((component) => {
+			const members = new Set(component);
+			const start = [...component].sort(compareTaskIds)[0] ?? "";
+			// Shortest way from the start back to itself inside the group
+			const previous = new Map<string, string>();
+			const queue = [start];
+			while (queue.length > 0) {
+				const id = queue.shift() as string;
+				const next = edges(id).filter((candidate) => members.has(candidate));
+				if (next.includes(start)) {
+					const cycle = [start];
+					for (let step: string | undefined = id; step && step !== start; step = previous.get(step)) {
+						cycle.splice(1, 0, step);
+					}
+					return [...cycle, start];
+				}
+				for (const candidate of next) {
+					if (!previous.has(candidate) && candidate !== start) {
+						previous.set(candidate, id);
+						queue.push(candidate);
+					}
+				}
+			}
+			return [...component, start];
+		})
+		.sort((a, b) => compareTaskIds(a[0] ?? "", b[0] ?? ""));
+}
+
+/** Plain-text report for `backlog sequence critical-path --plain` */
+export function formatCriticalPathReport(report: CriticalPathReport, defaultMinutes = DEFAULT_TASK_MINUTES): string {
+	const lines: string[] = [];
+	const label = (entry: ScheduledTask) => `${entry.task.id} - ${entry.task.title}`;
+	if (report.path.length === 0) {
+		lines.push("No active tasks to schedule.");
+	} else {
+		lines.push(
+			`Critical path (${report.path.length} ${report.path.length === 1 ? "task" : "tasks"}, ${formatDuration(report.totalMinutes)}):`,
+		);
+		for (const entry of report.path) {
+			lines.push(`  ${label(entry)} (${formatDuration(entry.minutes)}${entry.estimated ? "" : ", default"})`);
+		}
+		const offPath = report.tasks.filter((entry) => !report.path.includes(entry));
+		if (offPath.length > 0) {
+			lines.push("", "Slack:");
+			for (const entry of [...offPath].sort((a, b) => a.slack - b.slack || compareTaskIds(a.task.id, b.task.id))) {
+				lines.push(`  ${label(entry)}: ${formatDuration(entry.slack)}`);
+			}
+		}
+		const defaulted = report.tasks.filter((entry) => !entry.estimated);
+		if (defaulted.length > 0) {
+			lines.push(
+				"",
+				`No estimate, counted as ${formatDuration(defaultMinutes)}: ${defaulted.map((entry) => entry.task.id).join(", ")}`,
+			);
+		}
+	}
+
+	const warnings = [
+		...report.cycles.map((cycle) => `Dependency cycle: ${cycle.join(" → ")}`),
+		...report.blockedByCycle.map((id) => `${id} waits on a dependency cycle and was left out`),
+		...report.danglingDependencies.map(
+			({ taskId, dependency }) => `${taskId} depends on ${dependency}, which does not exist`,
+		),
+	];
+	if (warnings.length > 0) {
+		lines.push("", "Warnings:", ...warnings.map((warning) => `  ${warning}`));
+	}
+	return lines.join("\n");
+}
@@ -7,6 +7,7 @@ import { DEFAULT_DIRECTORIES } from "../constants/index.ts";
 import type { FileSystem } from "../file-system/operations.ts";
 import type { GitOperations as GitOps } from "../git/operations.ts";
 import type { Task } from "../types/index.ts";
+import { taskIdFromFilename } from "../utils/task-prefix.ts";
 
 export type TaskDirectoryType = "task" | "draft" | "archived" | "completed";
 
@@ -112,9 +113,9 @@ export async function getLatestTaskStatesForIds(
 					const fileToId = new Map<string, string>();
 					for (const f of files) {
 						const filename = f.substring(f.lastIndexOf("/") + 1);
-						const match = filename.match(/^(task-\d+(?:\.\d+)?)/);
-						if (match?.[1]) {
-							fileToId.set(match[1], f);
+						const id = taskIdFromFilename(filename);
+						if (id) {
+							fileToId.set(id, f);
 						}
 					}
 
@@ -179,9 +180,9 @@ export async function getLatestTaskStatesForIds(
 							const fileToId = new Map<string, string>();
 							for (const f of files) {
 								const filename = f.substring(f.lastIndexOf("/") + 1);
-								const match = filename.match(/^(task-\d+(?:\.\d+)?)/);
-								if (match?.[1]) {
-									fileToId.set(match[1], f);
+								const id = taskIdFromFilename(filename);
+								if (id) {
+									fileToId.set(id, f);
 								}
 							}
 
@@ -0,0 +1,218 @@
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Task } from "../types/index.ts";
+import { compareTaskIds } from "../utils/task-sorting.ts";
+import { normalizeTaskDate } from "./due-dates.ts";
+
+/** What each field type accepts, for help text and errors */
+export const CUSTOM_FIELD_TYPES: Record<CustomFieldType, string> = {
+	string: "free text",
+	number: "a number",
+	enum: "one of the configured options",
+	date: "a date like 2025-03-14",
+	user: "a person, e.g. @alice",
+	boolean: "true or false",
+};
+
+const CUSTOM_FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]*$/i;
+
+/**
+ * Raised when a task sets an unknown custom field, a value of the wrong type
+ * or leaves a required field empty
+ */
+export class CustomFieldError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CustomFieldError";
+	}
+}
+
+export function isCustomFieldType(value: string): value is CustomFieldType {
+	return value in CUSTOM_FIELD_TYPES;
+}
+
+export function isValidCustomFieldName(name: string): boolean {
+	return CUSTOM_FIELD_NAME_PATTERN.test(name);
+}
+
+export function getCustomFieldLabel(definition: CustomFieldDefinition): string {
+	return definition.label ?? definition.name;
+}
+
+export function findCustomField(
+	definitions: CustomFieldDefinition[] | undefined,
+	name: string,
+): CustomFieldDefinition | undefined {
+	const key = name.trim().toLowerCase();
+	return definitions?.find((definition) => definition.name.toLowerCase() === key);
+}
+
+/**
+ * Convert a raw value to the field's type. Strings from the CLI, web forms and
+ * MCP are accepted for every type; enum values are matched case-insensitively
+ * and stored with the configured spelling.
+ */
+export function parseCustomFieldValue(definition: CustomFieldDefinition, raw: CustomFieldValue): CustomFieldValue {
+	const label = getCustomFieldLabel(definition);
+	const text = String(raw).trim();
+	switch (definition.type) {
+		case "string":
+		case "user":
+			return text;
+		case "number": {
+			const value = typeof raw === "number" ? raw : text === "" ? Number.NaN : Number(text);
+			if (!Number.isFinite(value)) {
+				throw new CustomFieldError(`${label} must be a number. Received: ${raw}`);
+			}
+			return value;
+		}
+		case "enum": {
+			const options = definition.options ?? [];
+			const match = options.find((option) => option.toLowerCase() === text.toLowerCase());
+			if (match === undefined) {
+				throw new CustomFieldError(`Invalid ${label} "${raw}". Valid values are: ${options.join(", ")}`);
+			}
+			return match;
+		}
+		case "date":
+			try {
+				return normalizeTaskDate(text, label);
+			} catch (error) {
+				throw new CustomFieldError(error instanceof Error ? error.message : String(error));
+			}
+		case "boolean": {
+			if (typeof raw === "boolean") return raw;
+			const lower = text.toLowerCase();
+			if (["true", "yes", "1"].includes(lower)) return true;
+			if (["false", "no", "0"].includes(lower)) return false;
+			throw new CustomFieldError(`${label} must be true or false. Received: ${raw}`);
+		}
+	}
+}
+
+/**
+ * Apply changes on top of a task's current values. Null or an empty string
+ * clears a field. Throws for unknown fields, invalid values and, when
+ * `requireAll` is set, required fields left without a value.
+ */
+export function applyCustomFieldValues(
+	definitions: CustomFieldDefinition[] | undefined,
+	current: Record<string, CustomFieldValue> | undefined,
+	changes: Record<string, CustomFieldValue | null>,
+	options: { requireAll?: boolean } = {},
+): Record<string, CustomFieldValue> {
+	const next: Record<string, CustomFieldValue> = { ...current };
+	const touched: CustomFieldDefinition[] = [];
+	for (const [name, raw] of Object.entries(changes)) {
+		const definition = findCustomField(definitions, name);
+		if (!definition) {
+			const known = (definitions ?? []).map((field) => field.name);
+			throw new CustomFieldError(
+				known.length > 0
+					? `Unknown custom field "${name}". Defined fields: ${known.join(", ")}`
+					: `Unknown custom field "${name}". No custom fields are defined in config.yml`,
+			);
+		}
+		touched.push(definition);
+		if (raw === null || (typeof raw === "string" && raw.trim() === "")) {
+			delete next[definition.name];
+		} else {
+			next[definition.name] = parseCustomFieldValue(definition, raw);
+		}
+	}
+
+	const checked = options.requireAll ? (definitions ?? []) : touched;
+	const missing = checked.filter((definition) => definition.required && next[definition.name] === undefined);
+	if (missing.length > 0) {
+		throw new CustomFieldError(
+			`Missing required custom field${missing.length === 1 ? "" : "s"}: ${missing.map((field) => field.name).join(", ")}`,
+		);
+	}
+	return next;
+}
+
+/**
+ * Split repeated `--field name=value` options into a change set. An empty
+ * value (`name=`) clears the field.
+ */
+export function parseCustomFieldAssignments(entries: string[]): Record<string, string> {
+	const changes: Record<string, string> = {};
+	for (const entry of entries) {
+		const index = entry.indexOf("=");
+		const name = index === -1 ? "" : entry.slice(0, index).trim();
+		if (!name) {
+			throw new CustomFieldError(`Invalid field "${entry}". Use name=value, e.g. --field severity=high`);
+		}
+		changes[name] = entry.slice(index + 1).trim();
+	}
+	return changes;
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue | undefined): string {
+	if (value === undefined) return "";
+	if (typeof value === "boolean") return value ? "yes" : "no";
+	return String(value);
+}
+
+/**
+ * Label and display value of each custom field a task sets, in config order.
+ * Values for fields no longer in config are listed after them by name.
+ */
+export function listTaskCustomFields(
+	task: Task,
+	definitions: CustomFieldDefinition[] = [],
+): Array<{ name: string; label: string; value: string }> {
+	const values = task.customFields ?? {};
+	const known = definitions
+		.filter((definition) => values[definition.name] !== undefined)
+		.map((definition) => ({
+			name: definition.name,
+			label: getCustomFieldLabel(definition),
+			value: formatCustomFieldValue(values[definition.name]),
+		}));
+	const unknown = Object.keys(values)
+		.filter((name) => !definitions.some((definition) => definition.name === name))
+		.sort()
+		.map((name) => ({ name, label: name, value: formatCustomFieldValue(values[name]) }));
+	return [...known, ...unknown];
+}
+
+/**
+ * Order two values of one field: enum options by their configured order,
+ * numbers numerically, true before false and everything else as text
+ */
+export function compareCustomFieldValues(
+	definition: CustomFieldDefinition,
+	a: CustomFieldValue,
+	b: CustomFieldValue,
+): number {
+	switch (definition.type) {
+		case "enum": {
+			const rank = (value: CustomFieldValue) => {
+				const index = (definition.options ?? []).findIndex(
+					(option) => option.toLowerCase() === String(value).toLowerCase(),
+				);
+				return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+			};
+			return rank(a) - rank(b);
+		}
+		case "number":
+			return Number(a) - Number(b);
+		case "boolean":
+			return Number(b === true) - Number(a === true);
+		default:
+			return String(a).localeCompare(String(b));
+	}
+}
+
+/**
+ * Sort tasks by a custom field. Tasks without a value go last; ties keep id order.
+ */
+export function sortTasksByCustomField(tasks: Task[], definition: CustomFieldDefinition): Task[] {
+	return [...tasks].sort((a, b) => {
+		const left = a.customFields?.[definition.name];
+		const right = b.customFields?.[definition.name];
+		if (left === undefined || right === undefined) {
+			return Number(left === undefined) - Number(right === undefined) || compareTaskIds(a.id, b.id);
+		}
+		return compareCustomFieldValues(definition, left, right) || compareTaskIds(a.id, b.id);
+	});
+}
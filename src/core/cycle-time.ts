@@ -0,0 +1,217 @@
+import type { Task, TaskHistoryEntry } from "../types/index.ts";
+import { taskIdFromFilename } from "../utils/task-prefix.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NO_LABEL_KEY = "(no label)";
+export const NO_ASSIGNEE_KEY = "(unassigned)";
+export const NO_PRIORITY_KEY = "none";
+
+export interface TaskFlowTimes {
+	taskId: string;
+	title: string;
+	createdAt: string;
+	/** First move into a working status, when recorded in history or git */
+	startedAt?: string;
+	completedAt: string;
+	/** Days from creation to done */
+	leadTimeDays: number;
+	/** Days from first in-progress to done; absent when the start was not recorded */
+	cycleTimeDays?: number;
+}
+
+export interface PercentileSummary {
+	count: number;
+	average: number | null;
+	p50: number | null;
+	p85: number | null;
+	p95: number | null;
+}
+
+export interface FlowGroupStatistics {
+	key: string;
+	leadTime: PercentileSummary;
+	cycleTime: PercentileSummary;
+}
+
+export interface FlowStatistics {
+	tasks: TaskFlowTimes[];
+	leadTime: PercentileSummary;
+	cycleTime: PercentileSummary;
+	byLabel: FlowGroupStatistics[];
+	byAssignee: FlowGroupStatistics[];
+	byPriority: FlowGroupStatistics[];
+}
+
+export interface FlowStatisticsOptions {
+	/** Only count tasks completed on or after this date (YYYY-MM-DD) */
+	since?: string;
+}
+
+function parseTimestamp(value: string | undefined): number | null {
+	if (!value) return null;
+	const trimmed = value.trim();
+	const normalized = trimmed.length === 10 ? `${trimmed}T00:00` : trimmed.replace(" ", "T");
+	const time = new Date(normalized).getTime();
+	return Number.isNaN(time) ? null : time;
+}
+
+function toDays(ms: number): number {
+	return Math.round((Math.max(0, ms) / DAY_MS) * 10) / 10;
+}
+
+/**
+ * Group `status:` changes read from git by task id, as history entries
+ */
+export function groupGitStatusHistory(
+	changes: Array<{ filePath: string; date: Date; status: string }>,
+): Map<string, TaskHistoryEntry[]> {
+	const grouped = new Map<string, TaskHistoryEntry[]>();
+	for (const change of changes) {
+		const taskId = taskIdFromFilename(change.filePath.split("/").pop() ?? "")?.toLowerCase();
+		if (!taskId) continue;
+		const list = grouped.get(taskId) ?? [];
+		const updatedAt = change.date.toISOString().slice(0, 16).replace("T", " ");
+		list.push({ updatedAt, status: change.status, description: "", author: "" });
+		grouped.set(taskId, list);
+	}
+	return grouped;
+}
+
+/**
+ * Lead and cycle time for a done task. Completion is the last move into a
+ * done status recorded in history (falling back to `updatedDate`); the start
+ * is the first move into a status that is neither the initial status nor done.
+ * Status changes from git are used when the task's history records none.
+ */
+export function getTaskFlowTimes(
+	task: Task,
+	statuses: string[],
+	gitHistory?: TaskHistoryEntry[],
+): TaskFlowTimes | null {
+	if (!isDoneStatus(task.status)) return null;
+	const created = parseTimestamp(task.createdDate);
+	if (created === null) return null;
+
+	const initialStatus = (statuses[0] ?? "").toLowerCase();
+	const toTimedEntries = (entries: TaskHistoryEntry[]) =>
+		entries
+			.map((entry) => ({ entry, time: parseTimestamp(entry.updatedAt) }))
+			// The parser leaves `status` empty on hand-written entries that have none; they do not move the task
+			.filter(
+				(item): item is { entry: TaskHistoryEntry; time: number } => item.time !== null && item.entry.status !== "",
+			);
+	const recorded = toTimedEntries(task.history ?? []);
+	const history = (recorded.length > 0 ? recorded : toTimedEntries(gitHistory ?? [])).sort((a, b) => a.time - b.time);
+
+	let completed: { at: string; time: number } | null = null;
+	let started: { at: string; time: number } | null = null;
+	for (const { entry, time } of history) {
+		if (isDoneStatus(entry.status)) {
+			completed ??= { at: entry.updatedAt, time };
+			continue;
+		}
+		// Reopened: the task is only complete after its last move into done
+		completed = null;
+		if (!started && entry.status.toLowerCase() !== initialStatus) {
+			started = { at: entry.updatedAt, time };
+		}
+	}
+
+	if (!completed) {
+		const fallback = task.updatedDate || task.createdDate;
+		const time = parseTimestamp(fallback);
+		if (time === null) return null;
+		completed = { at: fallback, time };
+	}
+
+	const times: TaskFlowTimes = {
+		taskId: task.id,
+		title: task.title,
+		createdAt: task.createdDate,
+		completedAt: completed.at,
+		leadTimeDays: toDays(completed.time - created),
+	};
+	if (started && started.time <= completed.time) {
+		times.startedAt = started.at;
+		times.cycleTimeDays = toDays(completed.time - started.time);
+	}
+	return times;
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number | null {
+	if (sorted.length === 0) return null;
+	const rank = Math.ceil((p / 100) * sorted.length);
+	return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1] ?? null;
+}
+
+export function summarizeDurations(values: number[]): PercentileSummary {
+	const sorted = [...values].sort((a, b) => a - b);
+	const average =
+		sorted.length > 0 ? Math.round((sorted.reduce((sum, value) => sum + value, 0) / sorted.length) * 10) / 10 : null;
+	return {
+		count: sorted.length,
+		average,
+		p50: percentile(sorted, 50),
+		p85: percentile(sorted, 85),
+		p95: percentile(sorted, 95),
+	};
+}
+
+function groupFlowTimes(
+	entries: Array<{ task: Task; times: TaskFlowTimes }>,
+	keysFor: (task: Task) => string[],
+): FlowGroupStatistics[] {
+	const groups = new Map<string, TaskFlowTimes[]>();
+	for (const { task, times } of entries) {
+		for (const key of keysFor(task)) {
+			const list = groups.get(key) ?? [];
+			list.push(times);
+			groups.set(key, list);
+		}
+	}
+	return Array.from(groups, ([key, list]) => ({
+		key,
+		leadTime: summarizeDurations(list.map((item) => item.leadTimeDays)),
+		cycleTime: summarizeDurations(
+			list.map((item) => item.cycleTimeDays).filter((value): value is number => value !== undefined),
+		),
+	})).sort((a, b) => b.leadTime.count - a.leadTime.count || a.key.localeCompare(b.key));
+}
+
+/**
+ * Lead and cycle time percentiles across done tasks, overall and grouped by
+ * label, assignee and priority. `gitHistory` holds status changes from git
+ * keyed by lowercase task id (see groupGitStatusHistory).
+ */
+export function computeFlowStatistics(
+	tasks: Task[],
+	statuses: string[],
+	options: FlowStatisticsOptions = {},
+	gitHistory?: Map<string, TaskHistoryEntry[]>,
+): FlowStatistics {
+	const since = parseTimestamp(options.since);
+	const entries: Array<{ task: Task; times: TaskFlowTimes }> = [];
+	for (const task of tasks) {
+		const times = getTaskFlowTimes(task, statuses, gitHistory?.get(task.id.toLowerCase()));
+		if (!times) continue;
+		if (since !== null && (parseTimestamp(times.completedAt) ?? 0) < since) continue;
+		entries.push({ task, times });
+	}
+
+	const flowTimes = entries.map((entry) => entry.times);
+	return {
+		tasks: flowTimes,
+		leadTime: summarizeDurations(flowTimes.map((item) => item.leadTimeDays)),
+		cycleTime: summarizeDurations(
+			flowTimes.map((item) => item.cycleTimeDays).filter((value): value is number => value !== undefined),
+		),
+		byLabel: groupFlowTimes(entries, (task) => (task.labels.length > 0 ? task.labels : [NO_LABEL_KEY])),
+		byAssignee: groupFlowTimes(entries, (task) => (task.assignee.length > 0 ? task.assignee : [NO_ASSIGNEE_KEY])),
+		byPriority: groupFlowTimes(entries, (task) => [task.priority ?? NO_PRIORITY_KEY]),
+	};
+}
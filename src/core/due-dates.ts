@@ -0,0 +1,123 @@
+import type { Task } from "../types/index.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+export type DueState = "overdue" | "due-today" | "due-soon" | "upcoming";
+
+/** Tasks due within this many days count as due soon */
+export const DUE_SOON_DAYS = 3;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?$/;
+
+/**
+ * Validate a start or due date for storage. Accepts YYYY-MM-DD or
+ * YYYY-MM-DD HH:mm and throws on anything else.
+ */
+export function normalizeTaskDate(input: string, label = "Date"): string {
+	const value = input.trim();
+	const match = value.match(DATE_PATTERN);
+	const [, year, month, day, hour, minute] = match ?? [];
+	const parsed = match ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))) : null;
+	const valid =
+		parsed !== null &&
+		parsed.getUTCMonth() === Number(month) - 1 &&
+		parsed.getUTCDate() === Number(day) &&
+		(hour === undefined || (Number(hour) < 24 && Number(minute) < 60));
+	if (!valid) {
+		throw new Error(`${label} must be a date like 2025-03-14 or 2025-03-14 17:00. Received: ${input}`);
+	}
+	return hour === undefined ? `${year}-${month}-${day}` : `${year}-${month}-${day} ${hour}:${minute}`;
+}
+
+/**
+ * Throw when a task would start after it is due
+ */
+export function assertDateOrder(startDate: string | undefined, dueDate: string | undefined): void {
+	if (startDate && dueDate && startDate > dueDate) {
+		throw new Error(`Start date ${startDate} is after due date ${dueDate}.`);
+	}
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the configured `timezonePreference`.
+ * `local` or an unset preference use the machine's time zone; an unknown
+ * zone falls back to UTC.
+ */
+export function getTodayInTimezone(timezonePreference?: string, now: Date = new Date()): string {
+	const zone = timezonePreference && timezonePreference.toLowerCase() !== "local" ? timezonePreference : undefined;
+	try {
+		// en-CA formats dates as YYYY-MM-DD
+		return new Intl.DateTimeFormat("en-CA", {
+			timeZone: zone,
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+		}).format(now);
+	} catch {
+		return now.toISOString().slice(0, 10);
+	}
+}
+
+function daysBetween(from: string, to: string): number {
+	const start = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+	const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+	return Math.round((end - start) / 86_400_000);
+}
+
+/**
+ * Whole days from `today` until the task is due; negative when overdue,
+ * null without a due date
+ */
+export function getDaysUntilDue(task: Task, today: string): number | null {
+	return task.dueDate ? daysBetween(today, task.dueDate) : null;
+}
+
+/**
+ * Where an open task stands against its due date. Done tasks and tasks
+ * without a due date have no state. Dates are compared by day, so a task
+ * due today becomes overdue tomorrow.
+ */
+export function getDueState(task: Task, today: string): DueState | null {
+	if (isDoneStatus(task.status)) return null;
+	const days = getDaysUntilDue(task, today);
+	if (days === null) return null;
+	if (days < 0) return "overdue";
+	if (days === 0) return "due-today";
+	return days <= DUE_SOON_DAYS ? "due-soon" : "upcoming";
+}
+
+export function isOverdue(task: Task, today: string): boolean {
+	return getDueState(task, today) === "overdue";
+}
+
+/**
+ * Short label for badges and listings, e.g. "Due today" or "Overdue by 2d"
+ */
+export function formatDueLabel(task: Task, today: string): string | null {
+	const days = getDaysUntilDue(task, today);
+	if (days === null || !task.dueDate) return null;
+	if (isDoneStatus(task.status)) return `Due ${task.dueDate}`;
+	if (days < 0) return `Overdue by ${-days}d`;
+	if (days === 0) return "Due today";
+	if (days === 1) return "Due tomorrow";
+	return `Due ${task.dueDate}`;
+}
+
+/**
+ * Inclusive due-date range check; tasks without a due date never match
+ */
+export function isDueWithin(task: Task, range: { dueBefore?: string; dueAfter?: string }): boolean {
+	if (!task.dueDate) return false;
+	const due = task.dueDate.slice(0, 10);
+	if (range.dueBefore && due > range.dueBefore.slice(0, 10)) return false;
+	if (range.dueAfter && due < range.dueAfter.slice(0, 10)) return false;
+	return true;
+}
+
+/**
+ * Open tasks past their due date, most overdue first
+ */
+export function getOverdueTasks(tasks: Task[], today: string): Task[] {
+	return tasks
+		.filter((task) => isOverdue(task, today))
+		.sort((a, b) => (a.dueDate ?? "").localeCompare(b.dueDate ?? ""));
+}
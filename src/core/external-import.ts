@@ -0,0 +1,574 @@
+import { isPlainObject } from "../file-system/config-yaml.ts";
+import type {
+	AcceptanceCriterionInput,
+	CustomFieldDefinition,
+	CustomFieldValue,
+	TaskComment,
+	TaskCreateInput,
+} from "../types/index.ts";
+import { parseCsv } from "../utils/csv.ts";
+import { findCustomField } from "./custom-fields.ts";
+import { type ImportedTask, TaskTransferError } from "./task-transfer.ts";
+
+export type ExternalSource = "github" | "jira" | "trello";
+
+export const EXTERNAL_SOURCES: Record<ExternalSource, string> = {
+	github: "issue JSON from `gh issue list --json`",
+	jira: "a Jira CSV export",
+	trello: "a Trello board JSON export",
+};
+
+/**
+ * Translation tables read from the file given with `--mapping`. Keys are
+ * source values and are matched without regard to case.
+ */
+export interface ImportMapping {
+	statuses?: Record<string, string>;
+	priorities?: Record<string, string>;
+	/** A null or empty target drops the label */
+	labels?: Record<string, string | null>;
+	assignees?: Record<string, string>;
+	/** Jira columns to copy into custom fields */
+	fields?: Record<string, string>;
+}
+
+export type UnmappedKind = "status" | "priority" | "parent" | "column";
+
+/**
+ * What an import could not carry over. Items still import without the
+ * unmapped value: the default status, no priority or no parent.
+ */
+export interface ImportReport {
+	source: ExternalSource;
+	/** Issues, tickets or cards read from the file */
+	total: number;
+	unmapped: Array<{ kind: UnmappedKind; value: string; refs: string[] }>;
+	/** Items left out entirely, e.g. archived Trello cards */
+	skipped: Array<{ ref: string; reason: string }>;
+}
+
+export interface ExternalImportContext {
+	/** Configured statuses; mapped statuses must be one of them */
+	statuses: string[];
+	customFields?: CustomFieldDefinition[];
+	mapping?: ImportMapping;
+}
+
+export interface ExternalImportResult {
+	tasks: ImportedTask[];
+	report: ImportReport;
+}
+
+/** Statuses each tool uses out of the box, mapped onto the default Backlog.md statuses */
+const DEFAULT_STATUS_MAPS: Record<ExternalSource, Record<string, string>> = {
+	github: { open: "To Do", closed: "Done" },
+	jira: {
+		open: "To Do",
+		backlog: "To Do",
+		"selected for development": "To Do",
+		"in review": "In Progress",
+		resolved: "Done",
+		closed: "Done",
+	},
+	trello: { todo: "To Do", backlog: "To Do", doing: "In Progress" },
+};
+
+const DEFAULT_PRIORITY_MAP: Record<string, string> = {
+	highest: "high",
+	high: "high",
+	medium: "medium",
+	low: "low",
+	lowest: "low",
+};
+
+const CHECKLIST_LINE = /^\s*[-*]\s+\[([ xX])\]\s+(.+?)\s*$/;
+
+export function isExternalSource(value: string): value is ExternalSource {
+	return value in EXTERNAL_SOURCES;
+}
+
+/**
+ * Read a mapping file. YAML and JSON are both accepted; every section is optional.
+ */
+export function parseImportMapping(content: string): ImportMapping {
+	let parsed: unknown;
+	try {
+		parsed = Bun.YAML.parse(content);
+	} catch (error) {
+		throw new TaskTransferError(
+			`Could not parse mapping file: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	if (!isPlainObject(parsed)) return {};
+	const mapping: ImportMapping = {};
+	for (const section of ["statuses", "priorities", "labels", "assignees", "fields"] as const) {
+		const value = parsed[section];
+		if (value === undefined) continue;
+		if (!isPlainObject(value)) {
+			throw new TaskTransferError(`Mapping section "${section}" must map source values to Backlog.md values`);
+		}
+		mapping[section] = Object.fromEntries(
+			Object.entries(value).map(([key, target]) => [key, target === null ? null : String(target)]),
+		) as Record<string, string>;
+	}
+	return mapping;
+}
+
+function lookup<T>(table: Record<string, T> | undefined, key: string): T | undefined {
+	if (!table) return undefined;
+	const lower = key.trim().toLowerCase();
+	const match = Object.keys(table).find((candidate) => candidate.trim().toLowerCase() === lower);
+	return match === undefined ? undefined : table[match];
+}
+
+function text(value: unknown): string {
+	return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+}
+
+/** "YYYY-MM-DD HH:mm" in UTC, the format used for created dates and comments */
+function toTimestamp(value: unknown): string | undefined {
+	const raw = text(value);
+	if (!raw) return undefined;
+	const time = new Date(raw).getTime();
+	return Number.isNaN(time) ? undefined : new Date(time).toISOString().slice(0, 16).replace("T", " ");
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Jira writes dates like "14/Mar/25 9:30 AM"; anything else goes through Date
+ */
+function parseJiraDate(value: string): string | undefined {
+	const match = value.trim().match(/^(\d{1,2})\/([a-z]{3})\/(\d{2}|\d{4})(?:\s+(\d{1,2}):(\d{2})\s*(am|pm)?)?$/i);
+	if (!match) return toTimestamp(value);
+	const [, day = "", monthName = "", yearText = "", hourText, minute = "00", meridiem] = match;
+	const month = MONTHS.indexOf(monthName.toLowerCase());
+	if (month === -1) return undefined;
+	const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+	let hour = Number(hourText ?? 0);
+	if (meridiem?.toLowerCase() === "pm" && hour < 12) hour += 12;
+	if (meridiem?.toLowerCase() === "am" && hour === 12) hour = 0;
+	const pad = (part: number) => String(part).padStart(2, "0");
+	const date = `${year}-${pad(month + 1)}-${pad(Number(day))}`;
+	return hourText === undefined ? date : `${date} ${pad(hour)}:${minute}`;
+}
+
+/**
+ * Move markdown task list items ("- [ ] ...") out of a description into
+ * acceptance criteria
+ */
+function splitChecklist(body: string): { description: string; criteria: AcceptanceCriterionInput[] } {
+	const criteria: AcceptanceCriterionInput[] = [];
+	const lines = body.split(/\r?\n/).filter((line) => {
+		const match = line.match(CHECKLIST_LINE);
+		if (!match) return true;
+		criteria.push({ text: match[2] ?? "", checked: match[1] !== " " });
+		return false;
+	});
+	return { description: lines.join("\n").trim(), criteria };
+}
+
+function asArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+	return isPlainObject(value) ? value : {};
+}
+
+/**
+ * Shared mapping of statuses, priorities, labels and assignees, collecting
+ * whatever cannot be mapped into the report
+ */
+class ImportMapper {
+	readonly report: ImportReport;
+
+	constructor(
+		source: ExternalSource,
+		private readonly context: ExternalImportContext,
+	) {
+		this.report = { source, total: 0, unmapped: [], skipped: [] };
+	}
+
+	get mapping(): ImportMapping {
+		return this.context.mapping ?? {};
+	}
+
+	noteUnmapped(kind: UnmappedKind, value: string, ref: string): void {
+		const entry = this.report.unmapped.find((item) => item.kind === kind && item.value === value);
+		if (entry) {
+			if (!entry.refs.includes(ref)) entry.refs.push(ref);
+		} else {
+			this.report.unmapped.push({ kind, value, refs: [ref] });
+		}
+	}
+
+	status(value: string, ref: string): string | undefined {
+		if (!value) return undefined;
+		const target =
+			lookup(this.mapping.statuses, value) ?? lookup(DEFAULT_STATUS_MAPS[this.report.source], value) ?? value;
+		const canonical = this.context.statuses.find((status) => status.toLowerCase() === target.trim().toLowerCase());
+		if (!canonical) this.noteUnmapped("status", value, ref);
+		return canonical;
+	}
+
+	priority(value: string, ref: string): TaskCreateInput["priority"] {
+		if (!value) return undefined;
+		const target = (lookup(this.mapping.priorities, value) ?? lookup(DEFAULT_PRIORITY_MAP, value))?.toLowerCase();
+		if (target === "high" || target === "medium" || target === "low") return target;
+		this.noteUnmapped("priority", value, ref);
+		return undefined;
+	}
+
+	labels(values: string[]): string[] {
+		const labels = values.flatMap((value) => {
+			const target = lookup(this.mapping.labels, value);
+			if (target === undefined) return [value];
+			return target ? [target] : [];
+		});
+		return Array.from(new Set(labels.filter(Boolean)));
+	}
+
+	/** Mapped assignee, or the source name as "@name" with spaces turned into "-" */
+	assignee(value: string): string {
+		const mapped = lookup(this.mapping.assignees, value);
+		if (mapped) return mapped;
+		const name = value.trim().replace(/\s+/g, "-");
+		return name.startsWith("@") ? name : `@${name}`;
+	}
+
+	/**
+	 * Resolve parent references once every item is known; parents outside the
+	 * file are reported and dropped
+	 */
+	linkParents(tasks: ImportedTask[]): ImportedTask[] {
+		const refs = new Set(tasks.map((task) => task.ref.toLowerCase()));
+		return tasks.map((task) => {
+			if (!task.parentRef || refs.has(task.parentRef.toLowerCase())) return task;
+			this.noteUnmapped("parent", task.parentRef, task.ref);
+			const { parentRef: _parentRef, ...rest } = task;
+			return rest;
+		});
+	}
+}
+
+function buildTask(
+	ref: string,
+	fields: {
+		title: string;
+		body: string;
+		status?: string;
+		priority?: TaskCreateInput["priority"];
+		labels: string[];
+		assignee: string[];
+		criteria?: AcceptanceCriterionInput[];
+		comments: ImportedComment[];
+		parentRef?: string;
+		extra?: Partial<TaskCreateInput>;
+	},
+): ImportedTask {
+	const { description, criteria } = splitChecklist(fields.body);
+	const acceptanceCriteria = [...criteria, ...(fields.criteria ?? [])];
+	const input: TaskCreateInput = {
+		title: fields.title || ref,
+		...(description && { description }),
+		...(fields.status && { status: fields.status }),
+		...(fields.priority && { priority: fields.priority }),
+		...(fields.labels.length > 0 && { labels: fields.labels }),
+		...(fields.assignee.length > 0 && { assignee: fields.assignee }),
+		...(acceptanceCriteria.length > 0 && { acceptanceCriteria }),
+		...(fields.comments.length > 0 && {
+			comments: fields.comments.map((comment, index) => ({ id: index + 1, ...comment })),
+		}),
+		...fields.extra,
+	};
+	return { ref, input, dependencyRefs: [], ...(fields.parentRef && { parentRef: fields.parentRef }) };
+}
+
+type ImportedComment = Omit<TaskComment, "id">;
+
+function commentEntry(
+	author: string,
+	date: unknown,
+	body: string,
+	parseDate: (value: string) => string | undefined = toTimestamp,
+): ImportedComment | null {
+	const parsedDate = parseDate(text(date));
+	const trimmed = body.trim();
+	if (!parsedDate || !trimmed) return null;
+	return { author, date: parsedDate, body: trimmed };
+}
+
+/**
+ * Issues from `gh issue list --json number,title,body,state,labels,assignees,comments,milestone`.
+ * A `parent` object or number (sub-issues from the GitHub API) becomes the parent task.
+ */
+function convertGithub(content: string, mapper: ImportMapper): ImportedTask[] {
+	let issues: unknown;
+	try {
+		issues = JSON.parse(content);
+	} catch (error) {
+		throw new TaskTransferError(`Could not parse JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!Array.isArray(issues)) {
+		throw new TaskTransferError("Expected a JSON list of issues, as written by `gh issue list --json`");
+	}
+
+	return issues.map((value, index) => {
+		const issue = asRecord(value);
+		const ref = issue.number !== undefined ? `#${text(issue.number)}` : `row ${index + 1}`;
+		const parent = isPlainObject(issue.parent) ? issue.parent.number : issue.parent;
+		const comments = asArray(issue.comments)
+			.map((item) => {
+				const comment = asRecord(item);
+				return commentEntry(
+					mapper.assignee(text(asRecord(comment.author).login)),
+					comment.createdAt,
+					text(comment.body),
+				);
+			})
+			.filter((entry): entry is ImportedComment => entry !== null);
+		const milestone = text(asRecord(issue.milestone).title);
+		return buildTask(ref, {
+			title: text(issue.title),
+			body: text(issue.body),
+			status: mapper.status(text(issue.state), ref),
+			labels: mapper.labels(asArray(issue.labels).map((label) => text(asRecord(label).name) || text(label))),
+			assignee: asArray(issue.assignees).map((user) => mapper.assignee(text(asRecord(user).login) || text(user))),
+			comments,
+			...(text(parent) && { parentRef: `#${text(parent)}` }),
+			extra: milestone ? { milestone } : undefined,
+		});
+	});
+}
+
+/**
+ * Jira CSV exports repeat columns such as "Labels" and "Comment" once per
+ * value, so rows are read column by column rather than through a header map
+ */
+function convertJira(content: string, mapper: ImportMapper, customFields: CustomFieldDefinition[]): ImportedTask[] {
+	const [header, ...rows] = parseCsv(content);
+	if (!header) return [];
+	const columns = header.map((name) => name.trim());
+	const keyByIssueId = new Map<string, string>();
+	const used = new Set(
+		[
+			"summary",
+			"issue key",
+			"issue id",
+			"status",
+			"priority",
+			"assignee",
+			"labels",
+			"description",
+			"due date",
+			"original estimate",
+			"parent",
+			"parent id",
+			"parent key",
+			"comment",
+		].map((name) => name.toLowerCase()),
+	);
+
+	// Columns that fill custom fields: --mapping fields first, then "Custom field (Name)" by name
+	const fieldColumns = new Map<string, CustomFieldDefinition>();
+	for (const column of new Set(columns)) {
+		const mapped = lookup(mapper.mapping.fields, column);
+		const fromLabel = column.match(/^Custom field \((.+)\)$/i)?.[1];
+		const definition = findCustomField(customFields, mapped ?? fromLabel ?? column);
+		if (definition && (mapped || fromLabel || findCustomField(customFields, column))) {
+			fieldColumns.set(column.toLowerCase(), definition);
+		}
+	}
+
+	const readRow = (row: string[]) => {
+		const values = new Map<string, string[]>();
+		columns.forEach((column, index) => {
+			const value = row[index]?.trim();
+			if (!value) return;
+			const key = column.toLowerCase();
+			values.set(key, [...(values.get(key) ?? []), value]);
+		});
+		return values;
+	};
+	const records = rows.map(readRow);
+	for (const values of records) {
+		const id = values.get("issue id")?.[0];
+		const key = values.get("issue key")?.[0];
+		if (id && key) keyByIssueId.set(id, key);
+	}
+
+	return records.map((values, index) => {
+		const get = (name: string) => values.get(name)?.[0] ?? "";
+		const ref = get("issue key") || get("issue id") || `row ${index + 1}`;
+
+		const customValues: Record<string, CustomFieldValue> = {};
+		for (const [column, definition] of fieldColumns) {
+			const value = values.get(column)?.[0];
+			if (value !== undefined) customValues[definition.name] = value;
+		}
+		for (const column of values.keys()) {
+			if (!used.has(column) && !fieldColumns.has(column)) {
+				mapper.noteUnmapped("column", columns.find((name) => name.toLowerCase() === column) ?? column, ref);
+			}
+		}
+
+		const comments = (values.get("comment") ?? [])
+			.map((comment) => {
+				// "date;author;body", where the body may itself contain ";"
+				const [date = "", author = "", ...body] = comment.split(";");
+				return commentEntry(mapper.assignee(author), date, body.join(";"), parseJiraDate);
+			})
+			.filter((entry): entry is ImportedComment => entry !== null);
+		const parentId = get("parent id");
+		const parentRef = get("parent key") || get("parent") || keyByIssueId.get(parentId) || parentId;
+		const dueDate = get("due date") ? parseJiraDate(get("due date")) : undefined;
+		const estimateSeconds = Number(get("original estimate"));
+
+		return buildTask(ref, {
+			title: get("summary"),
+			body: get("description"),
+			status: mapper.status(get("status"), ref),
+			priority: mapper.priority(get("priority"), ref),
+			labels: mapper.labels((values.get("labels") ?? []).flatMap((cell) => cell.split(/\s+/))),
+			assignee: get("assignee") ? [mapper.assignee(get("assignee"))] : [],
+			comments,
+			parentRef: parentRef || undefined,
+			extra: {
+				...(dueDate && { dueDate }),
+				...(estimateSeconds > 0 && { estimate: `${Math.round(estimateSeconds / 60)}m` }),
+				...(Object.keys(customValues).length > 0 && { customFields: customValues }),
+			},
+		});
+	});
+}
+
+/**
+ * A Trello board export (Menu → Print, export and share → Export as JSON).
+ * Lists become statuses and checklists acceptance criteria; archived cards
+ * and cards in archived lists are skipped.
+ */
+function convertTrello(content: string, mapper: ImportMapper): ImportedTask[] {
+	let board: unknown;
+	try {
+		board = JSON.parse(content);
+	} catch (error) {
+		throw new TaskTransferError(`Could not parse JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!isPlainObject(board) || !Array.isArray(board.cards)) {
+		throw new TaskTransferError("Expected a Trello board export with a `cards` list");
+	}
+
+	const lists = new Map(asArray(board.lists).map((item) => [text(asRecord(item).id), asRecord(item)]));
+	const members = new Map(
+		asArray(board.members).map((item) => [text(asRecord(item).id), text(asRecord(item).username)]),
+	);
+	const checklistsByCard = new Map<string, Record<string, unknown>[]>();
+	for (const item of asArray(board.checklists)) {
+		const checklist = asRecord(item);
+		const cardId = text(checklist.idCard);
+		checklistsByCard.set(cardId, [...(checklistsByCard.get(cardId) ?? []), checklist]);
+	}
+	const commentsByCard = new Map<string, ImportedComment[]>();
+	for (const item of asArray(board.actions)) {
+		const action = asRecord(item);
+		if (action.type !== "commentCard") continue;
+		const data = asRecord(action.data);
+		const cardId = text(asRecord(data.card).id);
+		const author = mapper.assignee(text(asRecord(action.memberCreator).username));
+		const entry = commentEntry(author, action.date, text(data.text));
+		if (entry) commentsByCard.set(cardId, [...(commentsByCard.get(cardId) ?? []), entry]);
+	}
+
+	const tasks: ImportedTask[] = [];
+	for (const item of board.cards) {
+		const card = asRecord(item);
+		const ref = card.idShort !== undefined ? `#${text(card.idShort)}` : text(card.id);
+		const list = lists.get(text(card.idList));
+		if (card.closed === true) {
+			mapper.report.skipped.push({ ref, reason: "archived card" });
+			continue;
+		}
+		if (list?.closed === true) {
+			mapper.report.skipped.push({ ref, reason: `in archived list "${text(list.name)}"` });
+			continue;
+		}
+
+		const criteria = (checklistsByCard.get(text(card.id)) ?? []).flatMap((checklist) =>
+			asArray(checklist.checkItems)
+				.map(asRecord)
+				.sort((a, b) => Number(a.pos ?? 0) - Number(b.pos ?? 0))
+				.map((checkItem) => ({ text: text(checkItem.name), checked: checkItem.state === "complete" }))
+				.filter((criterion) => criterion.text !== ""),
+		);
+		const dueDate = toTimestamp(card.due);
+		// Comments come newest first in Trello exports
+		const comments = [...(commentsByCard.get(text(card.id)) ?? [])].reverse();
+		tasks.push(
+			buildTask(ref, {
+				title: text(card.name),
+				body: text(card.desc),
+				status: mapper.status(text(list?.name), ref),
+				labels: mapper.labels(asArray(card.labels).map((label) => text(asRecord(label).name))),
+				assignee: asArray(card.idMembers)
+					.map((id) => members.get(text(id)))
+					.filter((name): name is string => Boolean(name))
+					.map((name) => mapper.assignee(name)),
+				criteria,
+				comments,
+				extra: dueDate ? { dueDate } : undefined,
+			}),
+		);
+	}
+	return tasks;
+}
+
+/**
+ * Turn an export file from another tool into tasks for Core.importTasks,
+ * along with a report of what could not be mapped
+ */
+export function convertExternalExport(
+	source: ExternalSource,
+	content: string,
+	context: ExternalImportContext,
+): ExternalImportResult {
+	const mapper = new ImportMapper(source, context);
+	let tasks: ImportedTask[];
+	switch (source) {
+		case "github":
+			tasks = convertGithub(content, mapper);
+			break;
+		case "jira":
+			tasks = convertJira(content, mapper, context.customFields ?? []);
+			break;
+		case "trello":
+			tasks = convertTrello(content, mapper);
+			break;
+	}
+	mapper.report.total = tasks.length + mapper.report.skipped.length;
+	return { tasks: mapper.linkParents(tasks), report: mapper.report };
+}
+
+const UNMAPPED_LABELS: Record<UnmappedKind, string> = {
+	status: "Unknown status %s, default status used",
+	priority: "Unknown priority %s, no priority set",
+	parent: "Parent %s not in the file, imported without a parent",
+	column: "Column %s not imported",
+};
+
+export function formatImportReport(report: ImportReport): string {
+	const lines = [`Import report (${report.source}, ${report.total} item${report.total === 1 ? "" : "s"} read):`];
+	if (report.unmapped.length === 0 && report.skipped.length === 0) {
+		lines.push("  Everything was mapped.");
+		return lines.join("\n");
+	}
+	for (const entry of report.unmapped) {
+		const shown = entry.refs.slice(0, 5).join(", ");
+		const more = entry.refs.length > 5 ? ` and ${entry.refs.length - 5} more` : "";
+		lines.push(`  ${UNMAPPED_LABELS[entry.kind].replace("%s", `"${entry.value}"`)}: ${shown}${more}`);
+	}
+	for (const entry of report.skipped) {
+		lines.push(`  Skipped ${entry.ref}: ${entry.reason}`);
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,103 @@
+/**
+ * Raised when task ids cannot be migrated: the prefix is invalid or already in
+ * use, or writing the renamed files failed (the backlog is left as it was)
+ */
+export class IdMigrationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "IdMigrationError";
+	}
+}
+
+export interface IdMigrationRename {
+	from: string;
+	to: string;
+}
+
+/** A backlog file whose name or contents change; paths are relative to the project root */
+export interface IdMigrationFileChange {
+	path: string;
+	/** Set when the file is renamed along with its task */
+	newPath?: string;
+	/** Task id mentions rewritten in the file, its own `id` included */
+	references: number;
+}
+
+export interface IdMigrationPlan {
+	fromPrefix: string;
+	toPrefix: string;
+	renames: IdMigrationRename[];
+	files: IdMigrationFileChange[];
+}
+
+// `7`, `07` and `7.01` vs `7.1`: ids are the same task when their numbers are
+const idKey = (body: string) =>
+	body
+		.split(".")
+		.map((segment) => String(Number.parseInt(segment, 10)))
+		.join(".");
+
+/** Matches `<prefix>-12` and `<prefix>-12.3` as a whole word, in any case */
+function referencePattern(prefix: string): RegExp {
+	return new RegExp(`(?<![A-Za-z0-9_-])${prefix}-([0-9]+(?:\\.[0-9]+)*)(?![A-Za-z0-9_]|\\.[0-9])`, "gi");
+}
+
+/**
+ * Body (`12`, `007`, `3.1`) of every known id, keyed so padded and unpadded
+ * mentions resolve to the same task
+ */
+export function buildIdMap(ids: string[], fromPrefix: string): Map<string, string> {
+	const map = new Map<string, string>();
+	for (const id of ids) {
+		const body = id.slice(fromPrefix.length + 1);
+		if (/^[0-9]+(?:\.[0-9]+)*$/.test(body)) {
+			map.set(idKey(body), body);
+		}
+	}
+	return map;
+}
+
+/**
+ * Replace mentions of known task ids with the new prefix: frontmatter ids,
+ * dependencies, parents, subtasks, relations and mentions in the text alike.
+ * Mentions of ids no task has are left alone.
+ */
+export function rewriteTaskReferences(
+	content: string,
+	idMap: Map<string, string>,
+	fromPrefix: string,
+	toPrefix: string,
+): { content: string; references: number } {
+	let references = 0;
+	const rewritten = content.replace(referencePattern(fromPrefix), (mention, body: string) => {
+		if (!idMap.has(idKey(body))) return mention;
+		references += 1;
+		return `${toPrefix}-${body}`;
+	});
+	return { content: rewritten, references };
+}
+
+/** File name of a task file under the new prefix: `task-3 - Title.md` becomes `BACK-3 - Title.md` */
+export function renameTaskFile(filename: string, fromPrefix: string, toPrefix: string): string {
+	return `${toPrefix}-${filename.slice(fromPrefix.length + 1)}`;
+}
+
+/** Report for `backlog migrate ids`, with or without `--dry-run` */
+export function formatIdMigrationPlan(plan: IdMigrationPlan, dryRun: boolean): string {
+	const lines = [
+		`${dryRun ? "Would rename" : "Renamed"} ${plan.renames.length} task id${plan.renames.length === 1 ? "" : "s"} from ${plan.fromPrefix}- to ${plan.toPrefix}-:`,
+		...plan.renames.map((rename) => `  ${rename.from} → ${rename.to}`),
+	];
+	const rewritten = plan.files.filter((file) => !file.newPath);
+	if (rewritten.length > 0) {
+		lines.push(
+			"",
+			`${dryRun ? "Would update" : "Updated"} references in ${rewritten.length} other file${rewritten.length === 1 ? "" : "s"}:`,
+			...rewritten.map((file) => `  ${file.path} (${file.references})`),
+		);
+	}
+	if (dryRun) {
+		lines.push("", "Dry run: nothing was changed.");
+	}
+	return lines.join("\n");
+}
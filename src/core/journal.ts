@@ -0,0 +1,212 @@
+import { mkdir, rm } from "node:fs/promises";
+import { dirname, extname, join, relative } from "node:path";
+
+/** Undo and redo history kept per project; older entries are dropped */
+export const JOURNAL_LIMIT = 50;
+
+/** Files kept as text in the journal; attachments and other files are kept as base64 */
+const TEXT_EXTENSIONS = new Set([".md", ".yml", ".yaml", ".json"]);
+
+/**
+ * Binary files larger than this are left out of the journal, which keeps
+ * whole contents; undo and redo leave such files as they are
+ */
+export const JOURNAL_MAX_BINARY_BYTES = 1024 * 1024;
+
+/** How long to wait for another process to finish with the journal */
+export const JOURNAL_LOCK_TIMEOUT_MS = 10000;
+
+/**
+ * One file touched by an operation, relative to the project root. A null
+ * side means the file did not exist, so a move is a delete plus a create.
+ */
+export interface JournalFileChange {
+	path: string;
+	before: string | null;
+	after: string | null;
+	/** Set for binary files, whose contents are base64 */
+	encoding?: "base64";
+}
+
+export interface JournalEntry {
+	id: string;
+	/** ISO timestamp */
+	at: string;
+	/** What the operation did, e.g. "Edit task-3" */
+	operation: string;
+	changes: JournalFileChange[];
+}
+
+export interface JournalState {
+	undo: JournalEntry[];
+	redo: JournalEntry[];
+}
+
+/** A journal entry without file contents, for listings and the web UI */
+export interface JournalEntrySummary {
+	id: string;
+	at: string;
+	operation: string;
+	files: string[];
+}
+
+export interface JournalReplayOptions {
+	/** Replay even when files were changed outside the journal since */
+	force?: boolean;
+	autoCommit?: boolean;
+	/** Only replay if the next entry is this one */
+	expectedId?: string;
+}
+
+export class JournalError extends Error {
+	constructor(
+		message: string,
+		/** Files changed outside the journal, when that is why the operation was refused */
+		public readonly conflicts: string[] = [],
+	) {
+		super(message);
+		this.name = "JournalError";
+	}
+}
+
+/**
+ * Collects the files one operation touches: the file system reports each
+ * path before writing, moving or deleting it, and the recorder keeps the
+ * content it had at that first moment. The operation's changes are those
+ * paths compared with what they hold afterwards.
+ */
+export class JournalRecorder {
+	private readonly before = new Map<string, string | null>();
+	private readonly oversized = new Set<string>();
+
+	constructor(private readonly root: string) {}
+
+	async capture(path: string): Promise<void> {
+		const relativePath = relative(this.root, path);
+		if (this.before.has(relativePath) || this.oversized.has(relativePath)) {
+			return;
+		}
+		const encoding = encodingFor(relativePath);
+		if (encoding && (await isOversized(this.root, relativePath))) {
+			this.oversized.add(relativePath);
+			return;
+		}
+		this.before.set(relativePath, await readCurrent(this.root, relativePath, encoding));
+	}
+
+	async changes(): Promise<JournalFileChange[]> {
+		const changes: JournalFileChange[] = [];
+		for (const path of Array.from(this.before.keys()).sort()) {
+			const encoding = encodingFor(path);
+			if (encoding && (await isOversized(this.root, path))) {
+				continue;
+			}
+			const before = this.before.get(path) ?? null;
+			const after = await readCurrent(this.root, path, encoding);
+			if (before !== after) {
+				changes.push(encoding ? { path, before, after, encoding } : { path, before, after });
+			}
+		}
+		return changes;
+	}
+}
+
+/**
+ * Human-readable list of what changed; a file deleted and created elsewhere
+ * with the same content is shown as a move
+ */
+export function describeChanges(changes: JournalFileChange[]): string[] {
+	const created = changes.filter((change) => change.before === null);
+	const movedTo = new Set<string>();
+	const lines: string[] = [];
+	for (const change of changes) {
+		if (change.before !== null && change.after !== null) {
+			lines.push(`changed ${change.path}`);
+		} else if (change.after === null) {
+			const target = created.find((item) => item.after === change.before && !movedTo.has(item.path));
+			if (target) {
+				movedTo.add(target.path);
+				lines.push(`moved ${change.path} -> ${target.path}`);
+			} else {
+				lines.push(`deleted ${change.path}`);
+			}
+		}
+	}
+	for (const change of created) {
+		if (!movedTo.has(change.path)) lines.push(`created ${change.path}`);
+	}
+	return lines;
+}
+
+export function summarizeJournalEntry(entry: JournalEntry): JournalEntrySummary {
+	return { id: entry.id, at: entry.at, operation: entry.operation, files: describeChanges(entry.changes) };
+}
+
+/** One line per operation with its files indented below, e.g. for `backlog undo` */
+export function formatJournalEntries(entries: JournalEntrySummary[], prefix = ""): string {
+	const lines: string[] = [];
+	for (const entry of entries) {
+		lines.push(`${prefix}${entry.operation} (${entry.at})`);
+		for (const file of entry.files) {
+			lines.push(`    ${file}`);
+		}
+	}
+	return lines.join("\n");
+}
+
+function encodingFor(path: string): JournalFileChange["encoding"] {
+	return TEXT_EXTENSIONS.has(extname(path).toLowerCase()) ? undefined : "base64";
+}
+
+async function isOversized(root: string, path: string): Promise<boolean> {
+	const file = Bun.file(join(root, path));
+	return (await file.exists()) && file.size > JOURNAL_MAX_BINARY_BYTES;
+}
+
+async function readCurrent(
+	root: string,
+	path: string,
+	encoding?: JournalFileChange["encoding"],
+): Promise<string | null> {
+	const file = Bun.file(join(root, path));
+	if (!(await file.exists())) {
+		return null;
+	}
+	return encoding === "base64" ? Buffer.from(await file.arrayBuffer()).toString("base64") : await file.text();
+}
+
+/**
+ * Files whose current content is no longer what `side` of the changes says,
+ * i.e. edited by something outside the journal since
+ */
+export async function findJournalConflicts(
+	root: string,
+	changes: JournalFileChange[],
+	side: "before" | "after",
+): Promise<string[]> {
+	const conflicts: string[] = [];
+	for (const change of changes) {
+		if ((await readCurrent(root, change.path, change.encoding)) !== change[side]) {
+			conflicts.push(change.path);
+		}
+	}
+	return conflicts;
+}
+
+/** Write one side of the changes back to disk */
+export async function applyJournalChanges(
+	root: string,
+	changes: JournalFileChange[],
+	side: "before" | "after",
+): Promise<void> {
+	for (const change of changes) {
+		const path = join(root, change.path);
+		const content = change[side];
+		if (content === null) {
+			await rm(path, { force: true });
+		} else {
+			await mkdir(dirname(path), { recursive: true });
+			await Bun.write(path, change.encoding === "base64" ? Buffer.from(content, "base64") : content);
+		}
+	}
+}
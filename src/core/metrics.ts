@@ -0,0 +1,275 @@
+import type { Milestone, Task } from "../types/index.ts";
+import { taskIdFromFilename } from "../utils/task-prefix.ts";
+import { getMilestoneLabel, isDoneStatus, milestoneKey } from "./milestones.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NO_MILESTONE_KEY = "__none";
+
+export const DEFAULT_METRICS_DAYS = 30;
+export const MAX_METRICS_DAYS = 365;
+
+export type StatusChangeSource = "history" | "git" | "inferred";
+
+export interface StatusChangeEvent {
+	taskId: string;
+	/** Day of the change (YYYY-MM-DD, UTC) */
+	date: string;
+	status: string;
+	source: StatusChangeSource;
+}
+
+export interface DailyStatusSnapshot {
+	date: string;
+	counts: Record<string, number>;
+}
+
+export interface BurndownPoint {
+	date: string;
+	total: number;
+	completed: number;
+	remaining: number;
+}
+
+export interface MilestoneBurndown {
+	key: string;
+	label: string;
+	milestone?: string;
+	points: BurndownPoint[];
+}
+
+export interface TaskMetrics {
+	from: string;
+	to: string;
+	statuses: string[];
+	cumulativeFlow: DailyStatusSnapshot[];
+	burndown: MilestoneBurndown[];
+	/** How many tasks had their timeline rebuilt from each source */
+	sources: {
+		history: number;
+		git: number;
+		inferred: number;
+	};
+}
+
+export interface TaskMetricsOptions {
+	statuses: string[];
+	milestones?: Milestone[];
+	/** Status changes read from git, keyed by task id */
+	gitEvents?: Map<string, StatusChangeEvent[]>;
+	/** Number of days to include, ending at `to` */
+	days?: number;
+	/** Last day of the range (YYYY-MM-DD). Defaults to today. */
+	to?: string;
+	/** Limit burndown to a single milestone */
+	milestone?: string;
+}
+
+interface TaskTimeline {
+	task: Task;
+	createdDay: string;
+	initialStatus: string;
+	events: StatusChangeEvent[];
+}
+
+/**
+ * Reduce a date or datetime string ("2025-01-02 10:00", ISO) to its day.
+ */
+export function toDayKey(value: string | Date): string {
+	if (value instanceof Date) {
+		return value.toISOString().slice(0, 10);
+	}
+	return value.trim().slice(0, 10);
+}
+
+function addDays(day: string, amount: number): string {
+	const date = new Date(`${day}T00:00:00Z`);
+	return new Date(date.getTime() + amount * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Status changes recorded in a task's history entries (`task event`).
+ */
+export function extractHistoryEvents(task: Task): StatusChangeEvent[] {
+	return (task.history ?? [])
+		.filter((entry) => entry.status && entry.updatedAt)
+		.map((entry) => ({
+			taskId: task.id,
+			date: toDayKey(entry.updatedAt),
+			status: entry.status,
+			source: "history" as const,
+		}));
+}
+
+function sortAndCollapse(events: StatusChangeEvent[]): StatusChangeEvent[] {
+	const sorted = [...events].sort((a, b) => a.date.localeCompare(b.date));
+	const collapsed: StatusChangeEvent[] = [];
+	for (const event of sorted) {
+		if (collapsed.at(-1)?.status !== event.status) {
+			collapsed.push(event);
+		}
+	}
+	return collapsed;
+}
+
+/**
+ * Rebuild a task's status timeline. History entries are preferred; git history
+ * is used when the task has none. Without either, the task is assumed to sit
+ * in the first configured status until its last update.
+ */
+function buildTimeline(
+	task: Task,
+	statuses: string[],
+	gitEvents: StatusChangeEvent[] | undefined,
+): { timeline: TaskTimeline; source: StatusChangeSource } {
+	let createdDay = toDayKey(task.createdDate);
+	const defaultStatus = statuses[0] ?? task.status;
+
+	const historyEvents = extractHistoryEvents(task);
+	let source: StatusChangeSource = "inferred";
+	let events: StatusChangeEvent[] = [];
+	if (historyEvents.length > 0) {
+		events = historyEvents;
+		source = "history";
+	} else if (gitEvents && gitEvents.length > 0) {
+		events = gitEvents;
+		source = "git";
+	}
+
+	events = sortAndCollapse(events);
+	// A recorded change before the created date means the task existed by then
+	const firstRecorded = events[0]?.date;
+	if (firstRecorded && firstRecorded < createdDay) {
+		createdDay = firstRecorded;
+	}
+
+	// Make sure the timeline ends in the task's current status
+	if (task.status && events.at(-1)?.status !== task.status) {
+		const lastChange = toDayKey(task.updatedDate || task.createdDate);
+		const lastEventDay = events.at(-1)?.date ?? createdDay;
+		events.push({
+			taskId: task.id,
+			date: lastChange > lastEventDay ? lastChange : lastEventDay,
+			status: task.status,
+			source: "inferred",
+		});
+		events = sortAndCollapse(events);
+	}
+
+	const firstEvent = events[0];
+	const initialStatus = firstEvent && firstEvent.date <= createdDay ? firstEvent.status : defaultStatus;
+
+	return { timeline: { task, createdDay, initialStatus, events }, source };
+}
+
+function statusOnDay(timeline: TaskTimeline, day: string): string | null {
+	if (day < timeline.createdDay) {
+		return null;
+	}
+	let status = timeline.initialStatus;
+	for (const event of timeline.events) {
+		if (event.date > day) break;
+		status = event.status;
+	}
+	return status;
+}
+
+/**
+ * Group git status changes by lowercase task id, taken from the start of each filename.
+ */
+export function groupGitStatusEvents(
+	changes: Array<{ filePath: string; date: Date; status: string }>,
+): Map<string, StatusChangeEvent[]> {
+	const grouped = new Map<string, StatusChangeEvent[]>();
+	for (const change of changes) {
+		const filename = change.filePath.split("/").pop() ?? "";
+		const taskId = taskIdFromFilename(filename);
+		if (!taskId) continue;
+		const list = grouped.get(taskId) ?? [];
+		list.push({ taskId, date: toDayKey(change.date), status: change.status, source: "git" });
+		grouped.set(taskId, list);
+	}
+	return grouped;
+}
+
+/**
+ * Compute daily cumulative flow per status and burndown per milestone.
+ */
+export function computeTaskMetrics(tasks: Task[], options: TaskMetricsOptions): TaskMetrics {
+	const days = Math.min(Math.max(Math.floor(options.days ?? DEFAULT_METRICS_DAYS), 1), MAX_METRICS_DAYS);
+	const to = options.to ?? toDayKey(new Date());
+	const from = addDays(to, -(days - 1));
+
+	const sources = { history: 0, git: 0, inferred: 0 };
+	const timelines: TaskTimeline[] = [];
+	for (const task of tasks) {
+		if (!task.createdDate || task.status?.toLowerCase() === "draft") continue;
+		const gitEvents = options.gitEvents?.get(task.id.toLowerCase());
+		const { timeline, source } = buildTimeline(task, options.statuses, gitEvents);
+		timelines.push(timeline);
+		sources[source]++;
+	}
+
+	const statuses = [...options.statuses];
+	const dayKeys: string[] = [];
+	for (let day = from; day <= to; day = addDays(day, 1)) {
+		dayKeys.push(day);
+	}
+
+	const cumulativeFlow: DailyStatusSnapshot[] = dayKeys.map((day) => {
+		const counts: Record<string, number> = Object.fromEntries(statuses.map((status) => [status, 0]));
+		for (const timeline of timelines) {
+			const status = statusOnDay(timeline, day);
+			if (!status) continue;
+			if (!(status in counts)) {
+				statuses.push(status);
+			}
+			counts[status] = (counts[status] ?? 0) + 1;
+		}
+		return { date: day, counts };
+	});
+	// Statuses discovered late still need a zero entry on earlier days
+	for (const snapshot of cumulativeFlow) {
+		for (const status of statuses) {
+			snapshot.counts[status] ??= 0;
+		}
+	}
+
+	const buckets = new Map<string, { milestone?: string; timelines: TaskTimeline[] }>();
+	for (const timeline of timelines) {
+		const key = milestoneKey(timeline.task.milestone) || NO_MILESTONE_KEY;
+		const bucket = buckets.get(key) ?? { milestone: timeline.task.milestone?.trim() || undefined, timelines: [] };
+		bucket.timelines.push(timeline);
+		buckets.set(key, bucket);
+	}
+
+	const requestedKey = options.milestone ? milestoneKey(options.milestone) : undefined;
+	const burndown: MilestoneBurndown[] = [];
+	for (const [key, bucket] of buckets) {
+		if (requestedKey && key !== requestedKey) continue;
+		const points = dayKeys.map((day) => {
+			let total = 0;
+			let completed = 0;
+			for (const timeline of bucket.timelines) {
+				const status = statusOnDay(timeline, day);
+				if (!status) continue;
+				total++;
+				if (isDoneStatus(status)) completed++;
+			}
+			return { date: day, total, completed, remaining: total - completed };
+		});
+		burndown.push({
+			key,
+			label: getMilestoneLabel(bucket.milestone, options.milestones ?? []),
+			...(bucket.milestone && { milestone: bucket.milestone }),
+			points,
+		});
+	}
+	// Milestones first (in label order), tasks without milestone last
+	burndown.sort((a, b) => {
+		if (a.key === NO_MILESTONE_KEY) return 1;
+		if (b.key === NO_MILESTONE_KEY) return -1;
+		return a.label.localeCompare(b.label);
+	});
+
+	return { from, to, statuses, cumulativeFlow, burndown, sources };
+}
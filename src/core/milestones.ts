@@ -1,4 +1,5 @@
 import type { Milestone, MilestoneBucket, MilestoneSummary, Task } from "../types/index.ts";
+import { rollupEffort } from "./time-tracking.ts";
 
 const NO_MILESTONE_KEY = "__none";
 
@@ -150,6 +151,7 @@ function createBucket(
 		total: bucketTasks.length,
 		doneCount,
 		progress,
+		effort: rollupEffort(bucketTasks),
 	};
 }
 
@@ -0,0 +1,278 @@
+import type {
+	Decision,
+	Document,
+	NotificationEvent,
+	NotificationsConfig,
+	Task,
+	WebhookConfig,
+	WebhookDelivery,
+	WebhookFormat,
+} from "../types/index.ts";
+
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, string> = {
+	"task.created": "a task is created",
+	"task.updated": "a task is edited",
+	"task.status_changed": "a task changes status",
+	"task.archived": "a task is archived",
+	"task.ac_checked": "acceptance criteria are checked",
+	"document.created": "a document is created",
+	"document.updated": "a document is edited",
+	"decision.created": "a decision is created",
+	"decision.updated": "a decision is edited",
+};
+
+/** Deliveries kept in the notification log; older ones are dropped */
+export const NOTIFICATION_LOG_LIMIT = 1000;
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export function isNotificationEvent(value: string): value is NotificationEvent {
+	return value in NOTIFICATION_EVENTS;
+}
+
+export function isWebhookFormat(value: string): value is WebhookFormat {
+	return value === "json" || value === "slack" || value === "teams";
+}
+
+export interface NotificationSubject {
+	task?: Task;
+	document?: Document;
+	decision?: Decision;
+}
+
+export interface NotificationChanges {
+	status?: { from: string; to: string };
+	/** Task fields that changed, e.g. ["title", "labels"] */
+	fields?: string[];
+	/** Text of acceptance criteria that became checked */
+	checkedCriteria?: string[];
+}
+
+/** An event waiting to be delivered */
+export interface PendingNotification {
+	event: NotificationEvent;
+	subject: NotificationSubject;
+	changes?: NotificationChanges;
+}
+
+/**
+ * Event body sent to `json` webhooks; the Slack and Teams formats are built
+ * from it
+ */
+export interface NotificationPayload {
+	event: NotificationEvent;
+	timestamp: string;
+	project: string;
+	task?: {
+		id: string;
+		title: string;
+		status: string;
+		priority?: string;
+		assignee: string[];
+		labels: string[];
+		milestone?: string;
+	};
+	document?: { id: string; title: string; type: string };
+	decision?: { id: string; title: string; status: string };
+	changes?: NotificationChanges;
+}
+
+export function buildNotificationPayload(
+	event: NotificationEvent,
+	project: string,
+	subject: NotificationSubject,
+	changes?: NotificationChanges,
+	now: Date = new Date(),
+): NotificationPayload {
+	const { task, document, decision } = subject;
+	return {
+		event,
+		timestamp: now.toISOString(),
+		project,
+		...(task && {
+			task: {
+				id: task.id,
+				title: task.title,
+				status: task.status,
+				...(task.priority && { priority: task.priority }),
+				assignee: task.assignee,
+				labels: task.labels,
+				...(task.milestone && { milestone: task.milestone }),
+			},
+		}),
+		...(document && { document: { id: document.id, title: document.title, type: document.type } }),
+		...(decision && { decision: { id: decision.id, title: decision.title, status: decision.status } }),
+		...(changes && { changes }),
+	};
+}
+
+/**
+ * One-line summary of an event, used as the Slack and Teams message text
+ */
+export function describeNotification(payload: NotificationPayload): string {
+	const { task, document, decision, changes } = payload;
+	const subject = task
+		? `Task ${task.id} "${task.title}"`
+		: document
+			? `Document ${document.id} "${document.title}"`
+			: decision
+				? `Decision ${decision.id} "${decision.title}"`
+				: "Backlog";
+
+	switch (payload.event) {
+		case "task.status_changed":
+			return changes?.status
+				? `${subject} moved from ${changes.status.from || "no status"} to ${changes.status.to}`
+				: `${subject} changed status`;
+		case "task.ac_checked":
+			return `${subject}: checked ${(changes?.checkedCriteria ?? []).map((text) => `"${text}"`).join(", ")}`;
+		case "task.updated":
+			return changes?.fields?.length ? `${subject} updated (${changes.fields.join(", ")})` : `${subject} updated`;
+		case "task.archived":
+			return `${subject} archived`;
+		case "task.created":
+		case "document.created":
+		case "decision.created":
+			return `${subject} created`;
+		case "document.updated":
+		case "decision.updated":
+			return `${subject} updated`;
+	}
+}
+
+/**
+ * Request body for a webhook in the given format. Slack takes `{ text }`;
+ * Teams incoming webhooks take a MessageCard.
+ */
+export function formatWebhookBody(payload: NotificationPayload, format: WebhookFormat = "json"): unknown {
+	const text = describeNotification(payload);
+	switch (format) {
+		case "slack":
+			return { text: `[${payload.project}] ${text}` };
+		case "teams":
+			return {
+				"@type": "MessageCard",
+				"@context": "https://schema.org/extensions",
+				summary: text,
+				title: payload.project,
+				text,
+			};
+		default:
+			return payload;
+	}
+}
+
+export function webhookAcceptsEvent(webhook: WebhookConfig, event: NotificationEvent): boolean {
+	return !webhook.events || webhook.events.length === 0 || webhook.events.includes(event);
+}
+
+/**
+ * Mask everything after the first path segment; Slack and Teams put the
+ * webhook secret in the path
+ */
+export function redactWebhookUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		const [first, ...rest] = parsed.pathname.split("/").filter(Boolean);
+		const path = first ? `/${first}${rest.length > 0 ? "/***" : ""}` : "";
+		return `${parsed.origin}${path}`;
+	} catch {
+		return "(invalid url)";
+	}
+}
+
+/**
+ * Header values can name environment variables as `${NAME}`, so tokens live in
+ * the environment rather than in the committed config.yml
+ */
+export function resolveWebhookHeaders(
+	headers: Record<string, string> = {},
+	env: Record<string, string | undefined> = process.env,
+): { headers: Record<string, string>; missing: string[] } {
+	const missing: string[] = [];
+	const resolved = Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_reference, variable: string) => {
+				const found = env[variable];
+				if (found === undefined) missing.push(variable);
+				return found ?? "";
+			}),
+		]),
+	);
+	return { headers: resolved, missing };
+}
+
+// Client errors other than rate limiting will not succeed on a retry
+function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * POST a payload to one webhook, retrying network errors, timeouts and 5xx
+ * responses with exponential backoff
+ */
+export async function deliverWebhook(
+	webhook: WebhookConfig,
+	payload: NotificationPayload,
+	config: Pick<NotificationsConfig, "retries" | "retryDelayMs" | "timeoutMs"> = {},
+): Promise<WebhookDelivery> {
+	const format = webhook.format ?? "json";
+	const maxAttempts = (config.retries ?? DEFAULT_RETRIES) + 1;
+	const retryDelayMs = config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+	const body = JSON.stringify(formatWebhookBody(payload, format));
+	const { headers, missing } = resolveWebhookHeaders(webhook.headers);
+	let status: number | undefined;
+	let error: string | undefined =
+		missing.length > 0 ? `Environment variable ${missing.join(", ")} is not set` : undefined;
+	let attempts = 0;
+
+	while (missing.length === 0 && attempts < maxAttempts) {
+		if (attempts > 0) {
+			await Bun.sleep(retryDelayMs * 2 ** (attempts - 1));
+		}
+		attempts++;
+		try {
+			const response = await fetch(webhook.url, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...headers },
+				body,
+				signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+			});
+			status = response.status;
+			if (response.ok) {
+				error = undefined;
+				break;
+			}
+			error = `HTTP ${response.status}`;
+			if (!isRetryableStatus(response.status)) break;
+		} catch (err) {
+			status = undefined;
+			error = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	return {
+		timestamp: new Date().toISOString(),
+		event: payload.event,
+		url: redactWebhookUrl(webhook.url),
+		format,
+		ok: error === undefined,
+		attempts,
+		...(status !== undefined && { status }),
+		...(error !== undefined && { error }),
+	};
+}
+
+/**
+ * Send a payload to every webhook subscribed to its event, in parallel
+ */
+export async function dispatchNotification(
+	config: NotificationsConfig,
+	payload: NotificationPayload,
+): Promise<WebhookDelivery[]> {
+	const targets = config.webhooks.filter((webhook) => webhookAcceptsEvent(webhook, payload.event));
+	return await Promise.all(targets.map((webhook) => deliverWebhook(webhook, payload, config)));
+}
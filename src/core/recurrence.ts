@@ -0,0 +1,172 @@
+/**
+ * Recurrence rules for task templates. A rule is `daily`, `weekly`,
+ * `weekly:<day>`, `monthly`, `monthly:<day>` or a five-field cron expression
+ * (`minute hour day-of-month month day-of-week`). Rules are evaluated in UTC,
+ * like the timestamps stored on tasks.
+ */
+
+export interface RecurrenceSchedule {
+	minutes: number[];
+	hours: number[];
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/** Cron semantics: when both day fields are restricted, either may match */
+	dayOfMonthRestricted: boolean;
+	dayOfWeekRestricted: boolean;
+}
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Far enough back to find a yearly occurrence on Feb 29
+const MAX_LOOKBACK_DAYS = 366 * 4 + 1;
+
+interface FieldSpec {
+	label: string;
+	min: number;
+	max: number;
+	names?: string[];
+	nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+	{ label: "minute", min: 0, max: 59 },
+	{ label: "hour", min: 0, max: 23 },
+	{ label: "day of month", min: 1, max: 31 },
+	{ label: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+	{ label: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+function expandAlias(rule: string): string {
+	const normalized = rule.trim().toLowerCase();
+	const [kind, arg] = normalized.split(":").map((part) => part.trim());
+	switch (kind) {
+		case "daily":
+		case "@daily":
+			return "0 0 * * *";
+		case "weekly":
+		case "@weekly":
+			return `0 0 * * ${arg || "mon"}`;
+		case "monthly":
+		case "@monthly":
+			return `0 0 ${arg || "1"} * *`;
+		default:
+			return normalized;
+	}
+}
+
+function parseValue(raw: string, spec: FieldSpec, rule: string): number {
+	// Names may be abbreviated or spelled out: "mon", "monday", "sep", "september"
+	const nameIndex = /^[a-z]{3,}$/.test(raw) ? (spec.names?.indexOf(raw.slice(0, 3)) ?? -1) : -1;
+	const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : /^\d+$/.test(raw) ? Number(raw) : Number.NaN;
+	if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+		throw new Error(`Invalid recurrence rule "${rule}": bad ${spec.label} "${raw}".`);
+	}
+	return value;
+}
+
+function parseField(field: string, spec: FieldSpec, rule: string): number[] {
+	const values = new Set<number>();
+	for (const item of field.split(",")) {
+		const [range = "", stepText] = item.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid recurrence rule "${rule}": bad step in ${spec.label} "${item}".`);
+		}
+		let start: number;
+		let end: number;
+		if (range === "*") {
+			start = spec.min;
+			end = spec.max;
+		} else if (range.includes("-")) {
+			const [from = "", to = ""] = range.split("-");
+			start = parseValue(from, spec, rule);
+			end = parseValue(to, spec, rule);
+		} else {
+			start = parseValue(range, spec, rule);
+			end = stepText === undefined ? start : spec.max;
+		}
+		if (start > end) {
+			throw new Error(`Invalid recurrence rule "${rule}": empty ${spec.label} range "${item}".`);
+		}
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+	return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a recurrence rule; throws on anything it cannot schedule
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceSchedule {
+	const fields = expandAlias(rule).split(/\s+/).filter(Boolean);
+	if (fields.length !== 5) {
+		throw new Error(
+			`Invalid recurrence rule "${rule}": use daily, weekly[:day], monthly[:day] or a five-field cron expression.`,
+		);
+	}
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+		parseField(field, FIELDS[index] as FieldSpec, rule),
+	) as [number[], number[], number[], number[], number[]];
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth: new Set(daysOfMonth),
+		months: new Set(months),
+		// Cron accepts 7 as another name for Sunday
+		daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+		dayOfMonthRestricted: fields[2] !== "*",
+		dayOfWeekRestricted: fields[4] !== "*",
+	};
+}
+
+function matchesDay(schedule: RecurrenceSchedule, day: Date): boolean {
+	if (!schedule.months.has(day.getUTCMonth() + 1)) return false;
+	const domMatch = schedule.daysOfMonth.has(day.getUTCDate());
+	const dowMatch = schedule.daysOfWeek.has(day.getUTCDay());
+	if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatch || dowMatch;
+	if (schedule.dayOfMonthRestricted) return domMatch;
+	if (schedule.dayOfWeekRestricted) return dowMatch;
+	return true;
+}
+
+/**
+ * Most recent scheduled time at or before `now`, or null when the rule has
+ * not fired within the last four years
+ */
+export function getLatestOccurrence(schedule: RecurrenceSchedule, now: Date): Date | null {
+	const nowMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+	const times = schedule.hours
+		.flatMap((hour) => schedule.minutes.map((minute) => hour * 60 + minute))
+		.sort((a, b) => b - a);
+
+	for (let offset = 0; offset <= MAX_LOOKBACK_DAYS; offset++) {
+		const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - offset));
+		if (!matchesDay(schedule, day)) continue;
+		const time = offset === 0 ? times.find((minutes) => minutes <= nowMinutes) : times[0];
+		if (time !== undefined) {
+			return new Date(day.getTime() + time * 60_000);
+		}
+	}
+	return null;
+}
+
+/**
+ * Format an occurrence the way task dates are stored (YYYY-MM-DD HH:mm)
+ */
+export function formatOccurrence(date: Date): string {
+	return date.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * A template instantiated (or due, on a dry run) by `backlog recur run`
+ */
+export interface RecurringTaskRun {
+	template: string;
+	occurrence: string;
+	/** Missing on a dry run */
+	taskId?: string;
+}
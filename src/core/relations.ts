@@ -0,0 +1,89 @@
+import {
+	TASK_RELATION_TYPES,
+	type Task,
+	type TaskRelation,
+	type TaskRelationKind,
+	type TaskRelationType,
+} from "../types/index.ts";
+import { stripTaskPrefix } from "../utils/task-prefix.ts";
+
+/** What a relation stored on one task means when seen from the other one */
+const INVERSE_RELATIONS: Record<TaskRelationType, TaskRelationKind> = {
+	"relates-to": "relates-to",
+	blocks: "blocked-by",
+	duplicates: "duplicated-by",
+	"caused-by": "causes",
+};
+
+const RELATION_LABELS: Record<TaskRelationKind, string> = {
+	"relates-to": "Relates to",
+	blocks: "Blocks",
+	"blocked-by": "Blocked by",
+	duplicates: "Duplicates",
+	"duplicated-by": "Duplicated by",
+	"caused-by": "Caused by",
+	causes: "Causes",
+};
+
+export const TASK_RELATION_KINDS = Object.keys(RELATION_LABELS) as TaskRelationKind[];
+
+export function isTaskRelationType(value: string): value is TaskRelationType {
+	return (TASK_RELATION_TYPES as readonly string[]).includes(value);
+}
+
+export function isTaskRelationKind(value: string): value is TaskRelationKind {
+	return value in RELATION_LABELS;
+}
+
+export function formatRelationKind(kind: TaskRelationKind): string {
+	return RELATION_LABELS[kind];
+}
+
+/**
+ * Every relation of every task: the ones stored in its frontmatter followed by
+ * the inverses of relations other tasks store pointing at it. Relations to the
+ * same task in both directions (e.g. two tasks that each say `relates-to`) are
+ * listed once.
+ */
+export function buildRelationIndex(tasks: Task[]): Map<string, TaskRelation[]> {
+	const index = new Map<string, TaskRelation[]>();
+	// Hand-edited frontmatter may say `3` or `TASK-3` for task-3
+	const ids = new Map(tasks.map((task) => [task.id.toLowerCase(), task.id]));
+	const bodies = new Map(tasks.map((task) => [stripTaskPrefix(task.id).toLowerCase(), task.id]));
+	const canonical = (id: string) => ids.get(id.toLowerCase()) ?? bodies.get(stripTaskPrefix(id).toLowerCase()) ?? id;
+	const add = (taskId: string, relation: TaskRelation) => {
+		const relations = index.get(taskId) ?? [];
+		if (!relations.some((existing) => existing.type === relation.type && existing.taskId === relation.taskId)) {
+			relations.push(relation);
+		}
+		index.set(taskId, relations);
+	};
+
+	for (const task of tasks) {
+		for (const type of TASK_RELATION_TYPES) {
+			for (const target of task.relations?.[type] ?? []) {
+				add(task.id, { type, taskId: canonical(target) });
+			}
+		}
+	}
+	for (const task of tasks) {
+		for (const type of TASK_RELATION_TYPES) {
+			for (const target of task.relations?.[type] ?? []) {
+				add(canonical(target), { type: INVERSE_RELATIONS[type], taskId: task.id, inverse: true });
+			}
+		}
+	}
+	return index;
+}
+
+/** Plain-text lines such as `Blocked by: task-3 - Fix login` */
+export function formatTaskRelations(relations: TaskRelation[], tasks: Task[] = []): string[] {
+	return TASK_RELATION_KINDS.flatMap((kind) =>
+		relations
+			.filter((relation) => relation.type === kind)
+			.map((relation) => {
+				const title = tasks.find((task) => task.id === relation.taskId)?.title;
+				return `${formatRelationKind(kind)}: ${relation.taskId}${title ? ` - ${title}` : ""}`;
+			}),
+	);
+}
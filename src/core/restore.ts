@@ -0,0 +1,35 @@
+import type { Task } from "../types/index.ts";
+
+/**
+ * Raised when a task cannot be brought back from the archive or the
+ * completed folder: it is not there, its id is taken, or the status is unknown
+ */
+export class RestoreError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "RestoreError";
+	}
+}
+
+/** Where a restored task came from */
+export type RestoreSource = "archive" | "completed";
+
+export interface RestoreTaskResult {
+	task: Task;
+	from: RestoreSource;
+	/** Tasks whose dependency on the restored task was put back */
+	relinked: string[];
+	/** WIP limits the restored status exceeds */
+	warnings: string[];
+}
+
+/** `Restored task-3 from the archive as To Do; task-5 depends on it again`, then any warnings */
+export function formatRestoreResult(result: RestoreTaskResult): string {
+	const from = result.from === "archive" ? "the archive" : "completed tasks";
+	let line = `Restored ${result.task.id} from ${from} as ${result.task.status}`;
+	if (result.relinked.length > 0) {
+		const verb = result.relinked.length === 1 ? "depends" : "depend";
+		line = `${line}; ${result.relinked.join(", ")} ${verb} on it again`;
+	}
+	return [line, ...result.warnings.map((warning) => `Warning: ${warning}`)].join("\n");
+}
@@ -9,8 +9,13 @@ import type {
 	SearchResult,
 	SearchResultType,
 	Task,
+	TaskRelation,
+	TaskRelationKind,
 } from "../types/index.ts";
+import { taskIdsEqual } from "../utils/task-path.ts";
+import { stripTaskPrefix } from "../utils/task-prefix.ts";
 import type { ContentStore, ContentStoreEvent } from "./content-store.ts";
+import { isTaskRelationKind } from "./relations.ts";
 
 interface BaseSearchEntity {
 	readonly id: string;
@@ -27,6 +32,7 @@ interface TaskSearchEntity extends BaseSearchEntity {
 	readonly labelsLower: string[];
 	readonly idVariants: string[];
 	readonly dependencyIds: string[];
+	readonly relations: TaskRelation[];
 }
 
 interface DocumentSearchEntity extends BaseSearchEntity {
@@ -45,12 +51,12 @@ type NormalizedFilters = {
 	statuses?: string[];
 	priorities?: SearchPriorityFilter[];
 	labels?: string[];
+	relations?: TaskRelationKind[];
+	relatedTo?: string;
 };
 
-const TASK_ID_PREFIX = "task-";
-
 function parseTaskIdSegments(value: string): number[] | null {
-	const withoutPrefix = value.startsWith(TASK_ID_PREFIX) ? value.slice(TASK_ID_PREFIX.length) : value;
+	const withoutPrefix = stripTaskPrefix(value);
 	if (!/^[0-9]+(?:\.[0-9]+)*$/.test(withoutPrefix)) {
 		return null;
 	}
@@ -60,18 +66,12 @@ function parseTaskIdSegments(value: string): number[] | null {
 function createTaskIdVariants(id: string): string[] {
 	const segments = parseTaskIdSegments(id);
 	if (!segments) {
-		const normalized = id.startsWith(TASK_ID_PREFIX) ? id : `${TASK_ID_PREFIX}${id}`;
-		return id === normalized ? [normalized] : [normalized, id];
+		return [id];
 	}
+	// The id's own prefix, e.g. `task-` or `BACK-`
+	const prefix = id.slice(0, id.length - stripTaskPrefix(id).length);
 	const canonicalSuffix = segments.join(".");
-	const variants = new Set<string>();
-	const normalized = id.startsWith(TASK_ID_PREFIX) ? id : `${TASK_ID_PREFIX}${id}`;
-	variants.add(normalized);
-	variants.add(`${TASK_ID_PREFIX}${canonicalSuffix}`);
-	variants.add(canonicalSuffix);
-	if (id !== normalized) {
-		variants.add(id);
-	}
+	const variants = new Set<string>([id, `${prefix}${canonicalSuffix}`, canonicalSuffix]);
 	return Array.from(variants);
 }
 
@@ -195,6 +195,7 @@ export class SearchService {
 			labelsLower: (task.labels || []).map((label) => label.toLowerCase()),
 			idVariants: createTaskIdVariants(task.id),
 			dependencyIds: (task.dependencies ?? []).flatMap((dependency) => createTaskIdVariants(dependency)),
+			relations: this.store.getTaskRelations(task.id),
 		}));
 
 		this.documents = documents.map((document) => ({
@@ -301,9 +302,20 @@ export class SearchService {
 				return task.labelsLower.some((label) => requiredLabels.has(label));
 			});
 		}
+		if (filters.relations || filters.relatedTo) {
+			filtered = filtered.filter((task) => this.matchesRelationFilters(task, filters));
+		}
 		return filtered;
 	}
 
+	private matchesRelationFilters(task: TaskSearchEntity, filters: NormalizedFilters): boolean {
+		const { relations, relatedTo } = filters;
+		return task.relations.some(
+			(relation) =>
+				(!relations || relations.includes(relation.type)) && (!relatedTo || taskIdsEqual(relation.taskId, relatedTo)),
+		);
+	}
+
 	private matchesTaskFilters(task: TaskSearchEntity, filters: NormalizedFilters): boolean {
 		if (filters.statuses && filters.statuses.length > 0) {
 			if (!filters.statuses.includes(task.statusLower)) {
@@ -328,6 +340,10 @@ export class SearchService {
 			}
 		}
 
+		if ((filters.relations || filters.relatedTo) && !this.matchesRelationFilters(task, filters)) {
+			return false;
+		}
+
 		return true;
 	}
 
@@ -339,11 +355,15 @@ export class SearchService {
 		const statuses = this.normalizeStringArray(filters.status);
 		const priorities = this.normalizePriorityArray(filters.priority);
 		const labels = this.normalizeLabelsArray(filters.labels);
+		const relations = this.normalizeStringArray(filters.relation)?.filter(isTaskRelationKind);
+		const relatedTo = filters.relatedTo?.trim() || undefined;
 
 		return {
 			statuses,
 			priorities,
 			labels,
+			relations: relations && relations.length > 0 ? relations : undefined,
+			relatedTo,
 		};
 	}
 
@@ -450,5 +470,9 @@ function buildTaskBodyText(task: Task): string {
 		parts.push(task.implementationNotes);
 	}
 
+	for (const comment of task.comments ?? []) {
+		parts.push(comment.body);
+	}
+
 	return parts.join("\n\n");
 }
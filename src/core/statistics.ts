@@ -1,4 +1,7 @@
-import type { Task } from "../types/index.ts";
+import type { EffortSummary, Task } from "../types/index.ts";
+import { computeFlowStatistics, type FlowStatistics } from "./cycle-time.ts";
+import { getDueState, getOverdueTasks, getTodayInTimezone } from "./due-dates.ts";
+import { rollupEffort } from "./time-tracking.ts";
 
 export interface TaskStatistics {
 	statusCounts: Map<string, number>;
@@ -16,12 +19,30 @@ export interface TaskStatistics {
 		staleTasks: Task[];
 		blockedTasks: Task[];
 	};
+	timeTracking: EffortSummary & {
+		tasksWithEstimate: number;
+		tasksWithWorklog: number;
+	};
+	/** Lead and cycle time percentiles for done tasks */
+	flow: FlowStatistics;
+	deadlines: {
+		overdueCount: number;
+		/** Most overdue first, top 5 */
+		overdue: Task[];
+		/** Open tasks due today or within the next few days, soonest first */
+		dueSoon: Task[];
+	};
 }
 
 /**
  * Calculate comprehensive task statistics for the overview
  */
-export function getTaskStatistics(tasks: Task[], drafts: Task[], statuses: string[]): TaskStatistics {
+export function getTaskStatistics(
+	tasks: Task[],
+	drafts: Task[],
+	statuses: string[],
+	options: { today?: string } = {},
+): TaskStatistics {
 	const statusCounts = new Map<string, number>();
 	const priorityCounts = new Map<string, number>();
 
@@ -142,6 +163,24 @@ export function getTaskStatistics(tasks: Task[], drafts: Task[], statuses: strin
 	const totalTasks = Array.from(statusCounts.values()).reduce((sum, count) => sum + count, 0);
 	const completionPercentage = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
+	// Roll up effort over tasks with a valid status
+	const trackedTasks = tasks.filter((task) => task.status);
+	const timeTracking = {
+		...rollupEffort(trackedTasks),
+		tasksWithEstimate: trackedTasks.filter((task) => task.estimate).length,
+		tasksWithWorklog: trackedTasks.filter((task) => (task.worklog?.length ?? 0) > 0).length,
+	};
+
+	// Deadlines are compared by calendar day in the configured time zone
+	const today = options.today ?? getTodayInTimezone();
+	const overdue = getOverdueTasks(trackedTasks, today);
+	const dueSoon = trackedTasks
+		.filter((task) => {
+			const state = getDueState(task, today);
+			return state === "due-today" || state === "due-soon";
+		})
+		.sort((a, b) => (a.dueDate ?? "").localeCompare(b.dueDate ?? ""));
+
 	return {
 		statusCounts,
 		priorityCounts,
@@ -158,5 +197,12 @@ export function getTaskStatistics(tasks: Task[], drafts: Task[], statuses: strin
 			staleTasks: staleTasks.slice(0, 5), // Top 5 stale tasks
 			blockedTasks: blockedTasks.slice(0, 5), // Top 5 blocked tasks
 		},
+		timeTracking,
+		flow: computeFlowStatistics(trackedTasks, statuses),
+		deadlines: {
+			overdueCount: overdue.length,
+			overdue: overdue.slice(0, 5),
+			dueSoon: dueSoon.slice(0, 5),
+		},
 	};
 }
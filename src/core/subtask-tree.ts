@@ -0,0 +1,137 @@
+import type { Task } from "../types/index.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+export interface TaskTreeNode {
+	task: Task;
+	children: TaskTreeNode[];
+}
+
+/** A task in display order, with how deep it sits under its ancestors */
+export interface TaskTreeRow {
+	task: Task;
+	depth: number;
+	hasChildren: boolean;
+	collapsed: boolean;
+}
+
+/** Progress of everything below a parent task, grandchildren included */
+export interface SubtaskProgress {
+	doneSubtasks: number;
+	totalSubtasks: number;
+	checkedCriteria: number;
+	totalCriteria: number;
+}
+
+// Hand-edited frontmatter may say `TASK-1` for task-1
+const idKey = (id: string) => id.trim().toLowerCase();
+
+/**
+ * Nest tasks under their parents, keeping the order of `tasks` at every
+ * level. Tasks whose parent is not in the list (or that form a parent loop)
+ * become roots, so filtering never hides a task.
+ */
+export function buildTaskTree(tasks: Task[]): TaskTreeNode[] {
+	const nodes = new Map(tasks.map((task) => [idKey(task.id), { task, children: [] } as TaskTreeNode]));
+	const roots: TaskTreeNode[] = [];
+	const hasAncestorLoop = (task: Task) => {
+		const seen = new Set([idKey(task.id)]);
+		let parentId = task.parentTaskId;
+		while (parentId) {
+			const key = idKey(parentId);
+			if (seen.has(key)) return true;
+			seen.add(key);
+			parentId = nodes.get(key)?.task.parentTaskId;
+		}
+		return false;
+	};
+
+	for (const task of tasks) {
+		const node = nodes.get(idKey(task.id));
+		if (!node) continue;
+		const parent = task.parentTaskId ? nodes.get(idKey(task.parentTaskId)) : undefined;
+		if (parent && !hasAncestorLoop(task)) {
+			parent.children.push(node);
+		} else {
+			roots.push(node);
+		}
+	}
+	return roots;
+}
+
+/** Depth-first rows, leaving out the children of collapsed tasks */
+export function flattenTaskTree(nodes: TaskTreeNode[], collapsed: ReadonlySet<string> = new Set()): TaskTreeRow[] {
+	const rows: TaskTreeRow[] = [];
+	const visit = (node: TaskTreeNode, depth: number) => {
+		const isCollapsed = node.children.length > 0 && collapsed.has(node.task.id);
+		rows.push({ task: node.task, depth, hasChildren: node.children.length > 0, collapsed: isCollapsed });
+		if (!isCollapsed) {
+			for (const child of node.children) visit(child, depth + 1);
+		}
+	};
+	for (const node of nodes) visit(node, 0);
+	return rows;
+}
+
+/**
+ * Roll-up for every task that has subtasks, keyed by task id. Pass all tasks,
+ * not just the visible ones, so a filtered list still shows true progress.
+ */
+export function buildSubtaskProgress(tasks: Task[]): Map<string, SubtaskProgress> {
+	const progress = new Map<string, SubtaskProgress>();
+	const collect = (node: TaskTreeNode): SubtaskProgress => {
+		const total: SubtaskProgress = { doneSubtasks: 0, totalSubtasks: 0, checkedCriteria: 0, totalCriteria: 0 };
+		for (const child of node.children) {
+			const criteria = child.task.acceptanceCriteriaItems ?? [];
+			total.totalSubtasks += 1;
+			total.doneSubtasks += isDoneStatus(child.task.status) ? 1 : 0;
+			total.totalCriteria += criteria.length;
+			total.checkedCriteria += criteria.filter((criterion) => criterion.checked).length;
+			const below = collect(child);
+			total.totalSubtasks += below.totalSubtasks;
+			total.doneSubtasks += below.doneSubtasks;
+			total.totalCriteria += below.totalCriteria;
+			total.checkedCriteria += below.checkedCriteria;
+		}
+		if (node.children.length > 0) {
+			progress.set(node.task.id, total);
+		}
+		return total;
+	};
+	for (const root of buildTaskTree(tasks)) collect(root);
+	return progress;
+}
+
+/** `2/3 subtasks done, 5/8 AC`; the AC part is left out when no subtask has any */
+export function formatSubtaskProgress(progress: SubtaskProgress): string {
+	const subtasks = `${progress.doneSubtasks}/${progress.totalSubtasks} subtasks done`;
+	return progress.totalCriteria > 0
+		? `${subtasks}, ${progress.checkedCriteria}/${progress.totalCriteria} AC`
+		: subtasks;
+}
+
+/** The direct subtasks of `parentId` among `tasks` */
+export function getSubtasks(tasks: Task[], parentId: string): Task[] {
+	return tasks.filter((task) => task.parentTaskId && idKey(task.parentTaskId) === idKey(parentId));
+}
+
+/**
+ * Plain-text tree for `backlog task list --tree`, e.g.
+ * `task-1 - Epic (In Progress) [1/2 subtasks done]` followed by
+ * `├─ task-1.1 - Child (Done)`
+ */
+export function formatTaskTree(nodes: TaskTreeNode[], progress: Map<string, SubtaskProgress>): string[] {
+	const lines: string[] = [];
+	const describe = (task: Task) => {
+		const rollUp = progress.get(task.id);
+		return `${task.id} - ${task.title} (${task.status})${rollUp ? ` [${formatSubtaskProgress(rollUp)}]` : ""}`;
+	};
+	const visit = (node: TaskTreeNode, indent: string, isLast: boolean, isRoot: boolean) => {
+		lines.push(isRoot ? describe(node.task) : `${indent}${isLast ? "└─ " : "├─ "}${describe(node.task)}`);
+		const childIndent = isRoot ? "" : `${indent}${isLast ? "   " : "│  "}`;
+		node.children.forEach((child, index) => {
+			visit(child, childIndent, index === node.children.length - 1, false);
+		});
+	};
+	for (const node of nodes) visit(node, "", true, true);
+	return lines;
+}
@@ -12,6 +12,7 @@ import { DEFAULT_DIRECTORIES } from "../constants/index.ts";
 import type { GitOperations } from "../git/operations.ts";
 import { parseTask } from "../markdown/parser.ts";
 import type { BacklogConfig, Task } from "../types/index.ts";
+import { taskIdFromFilename } from "../utils/task-prefix.ts";
 import type { TaskDirectoryType } from "./cross-branch-tasks.ts";
 
 export interface BranchTaskStateEntry {
@@ -122,10 +123,9 @@ export async function buildRemoteTaskIndex(
 				for (const f of files) {
 					// Extract task ID from filename
 					// Extract task ID from filename (support subtasks like task-123.01)
-					const m = f.match(/task-(\d+(?:\.\d+)?)/);
-					if (!m) continue;
+					const id = taskIdFromFilename(f.substring(f.lastIndexOf("/") + 1));
+					if (!id) continue;
 
-					const id = `task-${m[1]}`;
 					const lastModified = lm.get(f) ?? new Date(0);
 					const entry: RemoteIndexEntry = { id, branch: br, path: f, lastModified };
 
@@ -246,10 +246,9 @@ export async function buildLocalBranchTaskIndex(
 
 				for (const f of files) {
 					// Extract task ID from filename (support subtasks like task-123.01)
-					const m = f.match(/task-(\d+(?:\.\d+)?)/);
-					if (!m) continue;
+					const id = taskIdFromFilename(f.substring(f.lastIndexOf("/") + 1));
+					if (!id) continue;
 
-					const id = `task-${m[1]}`;
 					const lastModified = lm.get(f) ?? new Date(0);
 					const entry: RemoteIndexEntry = { id, branch: br, path: f, lastModified };
 
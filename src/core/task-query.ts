@@ -0,0 +1,650 @@
+import type { CustomFieldDefinition, Milestone, Task } from "../types/index.ts";
+import { stripTaskPrefix } from "../utils/task-prefix.ts";
+import { CustomFieldError, findCustomField, parseCustomFieldValue } from "./custom-fields.ts";
+import { isOverdue } from "./due-dates.ts";
+import { isDoneStatus, milestoneKey } from "./milestones.ts";
+
+export const TASK_QUERY_FIELDS: Record<string, string> = {
+	status: "status name",
+	label: "has the label (alias: labels)",
+	assignee: "assigned to someone; @me is the current user",
+	priority: "low < medium < high",
+	milestone: "milestone id or title",
+	id: "task id",
+	parent: "parent task id",
+	dep: "depends on the task id (alias: dependency)",
+	title: "text in the title",
+	description: "text in the description",
+	created: "created date",
+	updated: "last updated date",
+	due: "due date",
+	start: "start date",
+	has: "the field is set: assignee, label, priority, milestone, parent, dep, due, start, estimate, description or a custom field",
+	is: "overdue, done or open",
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+	labels: "label",
+	dependency: "dep",
+	dependencies: "dep",
+	deps: "dep",
+	desc: "description",
+};
+
+const PRIORITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 };
+const HAS_VALUES = [
+	"assignee",
+	"label",
+	"priority",
+	"milestone",
+	"parent",
+	"dep",
+	"due",
+	"start",
+	"estimate",
+	"description",
+];
+const IS_VALUES = ["overdue", "done", "open"];
+const RELATIVE_UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30 };
+
+export type TaskQueryOperator = ":" | "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type TaskQueryNode =
+	| { type: "and" | "or"; children: TaskQueryNode[] }
+	| { type: "not"; child: TaskQueryNode }
+	| { type: "field"; field: string; op: TaskQueryOperator; values: string[] }
+	| { type: "text"; value: string };
+
+export interface TaskQueryContext {
+	/** Today's date (YYYY-MM-DD) for relative dates and `is:overdue` */
+	today: string;
+	/** Who `@me` refers to */
+	currentUser?: string;
+	/** Lets `milestone:` match milestone titles as well as ids */
+	milestones?: Milestone[];
+	/** Custom fields from config, usable as query fields */
+	customFields?: CustomFieldDefinition[];
+}
+
+export type TaskPredicate = (task: Task) => boolean;
+
+/**
+ * Raised when a filter query cannot be parsed or uses an unknown field or value
+ */
+export class TaskQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TaskQueryError";
+	}
+}
+
+type Token = { kind: "(" } | { kind: ")" } | { kind: "word"; raw: string; quoted: boolean };
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let index = 0;
+	while (index < input.length) {
+		const char = input.charAt(index);
+		if (/\s/.test(char)) {
+			index++;
+			continue;
+		}
+		if (char === "(" || char === ")") {
+			tokens.push({ kind: char });
+			index++;
+			continue;
+		}
+		let raw = "";
+		let quoted = false;
+		while (index < input.length) {
+			const next = input.charAt(index);
+			if (next === '"') {
+				const close = input.indexOf('"', index + 1);
+				if (close === -1) {
+					throw new TaskQueryError(`Unterminated quote in query: ${input.slice(index)}`);
+				}
+				raw += input.slice(index, close + 1);
+				quoted = true;
+				index = close + 1;
+				continue;
+			}
+			if (/\s/.test(next) || next === "(" || next === ")") break;
+			raw += next;
+			index++;
+		}
+		tokens.push({ kind: "word", raw, quoted });
+	}
+	return tokens;
+}
+
+// Split on commas outside quotes and strip the quotes
+function splitValues(raw: string): string[] {
+	const values: string[] = [];
+	let current = "";
+	let inQuotes = false;
+	for (const char of raw) {
+		if (char === '"') {
+			inQuotes = !inQuotes;
+		} else if (char === "," && !inQuotes) {
+			values.push(current);
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	values.push(current);
+	return values.map((value) => value.trim()).filter((value) => value.length > 0);
+}
+
+// Built-in fields win over custom fields of the same name
+function resolveField(name: string, customFields: CustomFieldDefinition[] = []): string | null {
+	const lower = name.toLowerCase();
+	const field = FIELD_ALIASES[lower] ?? lower;
+	if (field in TASK_QUERY_FIELDS) return field;
+	return findCustomField(customFields, name)?.name ?? null;
+}
+
+/**
+ * True when a name is taken by a built-in query field or one of its aliases
+ */
+export function isTaskQueryField(name: string): boolean {
+	return resolveField(name) !== null;
+}
+
+function unknownFieldError(name: string, customFields: CustomFieldDefinition[]): TaskQueryError {
+	const known = [...Object.keys(TASK_QUERY_FIELDS), ...customFields.map((field) => field.name)];
+	return new TaskQueryError(`Unknown field "${name}". Known fields: ${known.join(", ")}`);
+}
+
+const TERM_PATTERN = /^([a-z][a-z0-9_]*)(!=|>=|<=|:|=|>|<)(.*)$/i;
+const COMPARATOR_PATTERN = /^(!=|>=|<=|=|>|<)/;
+
+function parseTerm(token: { raw: string; quoted: boolean }, customFields: CustomFieldDefinition[]): TaskQueryNode {
+	const match = token.raw.startsWith('"') ? null : token.raw.match(TERM_PATTERN);
+	if (!match) {
+		const value = token.raw.replace(/"/g, "");
+		return { type: "text", value };
+	}
+	const [, name = "", operator = ":", rest = ""] = match;
+	const field = resolveField(name, customFields);
+	if (!field) {
+		throw unknownFieldError(name, customFields);
+	}
+	let op = operator as TaskQueryOperator;
+	let valueText = rest;
+	// `updated:<7d` reads the same as `updated<7d`
+	const comparator = op === ":" ? valueText.match(COMPARATOR_PATTERN)?.[1] : undefined;
+	if (comparator) {
+		op = comparator as TaskQueryOperator;
+		valueText = valueText.slice(comparator.length);
+	}
+	const values = splitValues(valueText);
+	if (values.length === 0) {
+		throw new TaskQueryError(`Missing value for "${name}"`);
+	}
+	return { type: "field", field, op, values };
+}
+
+class Parser {
+	private position = 0;
+
+	constructor(
+		private readonly tokens: Token[],
+		private readonly customFields: CustomFieldDefinition[] = [],
+	) {}
+
+	parse(): TaskQueryNode | null {
+		if (this.tokens.length === 0) return null;
+		const node = this.parseOr();
+		const leftover = this.tokens[this.position];
+		if (leftover) {
+			throw new TaskQueryError(leftover.kind === ")" ? "Unmatched closing parenthesis" : "Unexpected input in query");
+		}
+		return node;
+	}
+
+	private peekKeyword(keyword: string): boolean {
+		const token = this.tokens[this.position];
+		return token?.kind === "word" && !token.quoted && token.raw === keyword;
+	}
+
+	private parseOr(): TaskQueryNode {
+		const children = [this.parseAnd()];
+		while (this.peekKeyword("OR")) {
+			this.position++;
+			children.push(this.parseAnd());
+		}
+		return children.length === 1 ? (children[0] as TaskQueryNode) : { type: "or", children };
+	}
+
+	private parseAnd(): TaskQueryNode {
+		const children = [this.parseUnary()];
+		while (true) {
+			const token = this.tokens[this.position];
+			if (!token || token.kind === ")" || this.peekKeyword("OR")) break;
+			if (this.peekKeyword("AND")) {
+				this.position++;
+			}
+			children.push(this.parseUnary());
+		}
+		return children.length === 1 ? (children[0] as TaskQueryNode) : { type: "and", children };
+	}
+
+	private parseUnary(): TaskQueryNode {
+		const token = this.tokens[this.position];
+		if (!token) {
+			throw new TaskQueryError("Query ends where a filter was expected");
+		}
+		if (this.peekKeyword("NOT")) {
+			this.position++;
+			return { type: "not", child: this.parseUnary() };
+		}
+		if (token.kind === "(") {
+			this.position++;
+			const node = this.parseOr();
+			if (this.tokens[this.position]?.kind !== ")") {
+				throw new TaskQueryError("Missing closing parenthesis");
+			}
+			this.position++;
+			return node;
+		}
+		if (token.kind === ")") {
+			throw new TaskQueryError("Unexpected closing parenthesis");
+		}
+		if (token.raw === "AND" || token.raw === "OR") {
+			throw new TaskQueryError(`"${token.raw}" needs a filter on both sides`);
+		}
+		this.position++;
+		if (token.raw.startsWith("-") && token.raw.length > 1) {
+			return { type: "not", child: parseTerm({ raw: token.raw.slice(1), quoted: token.quoted }, this.customFields) };
+		}
+		return parseTerm(token, this.customFields);
+	}
+}
+
+/**
+ * Parse a filter query such as `status:"In Progress" label:bug -assignee:@me`.
+ * Terms are ANDed unless joined with OR; NOT or a leading `-` negates and
+ * parentheses group. Custom fields from config can be queried by name.
+ * Returns null for an empty query.
+ */
+export function parseTaskQuery(input: string, customFields: CustomFieldDefinition[] = []): TaskQueryNode | null {
+	return new Parser(tokenize(input), customFields).parse();
+}
+
+/**
+ * True when the text uses query syntax rather than being plain search words,
+ * so search boxes can decide whether to treat it as a filter
+ */
+export function looksLikeTaskQuery(input: string, customFields: CustomFieldDefinition[] = []): boolean {
+	let tokens: Token[];
+	try {
+		tokens = tokenize(input);
+	} catch {
+		return false;
+	}
+	for (const token of tokens) {
+		if (token.kind !== "word") return true;
+		if (token.quoted && token.raw.startsWith('"')) continue;
+		if (token.raw === "AND" || token.raw === "OR" || token.raw === "NOT") return true;
+		const match = token.raw.replace(/^-/, "").match(TERM_PATTERN);
+		if (match && resolveField(match[1] ?? "", customFields)) return true;
+	}
+	return false;
+}
+
+function toDay(value: string | undefined): string | undefined {
+	return value ? value.slice(0, 10) : undefined;
+}
+
+function dayNumber(date: string): number {
+	return Math.round(Date.parse(`${date}T00:00:00Z`) / 86_400_000);
+}
+
+function compare(actual: number | string, op: TaskQueryOperator, expected: number | string): boolean {
+	switch (op) {
+		case ":":
+		case "=":
+			return actual === expected;
+		case "!=":
+			return actual !== expected;
+		case ">":
+			return actual > expected;
+		case ">=":
+			return actual >= expected;
+		case "<":
+			return actual < expected;
+		case "<=":
+			return actual <= expected;
+	}
+}
+
+function normalizeText(value: string): string {
+	return value.trim().toLowerCase();
+}
+
+function normalizePerson(value: string): string {
+	return normalizeText(value).replace(/^@/, "");
+}
+
+// `7`, `task-7` and `task-0007` are the same task
+function normalizeId(value: string): string {
+	return stripTaskPrefix(normalizeText(value))
+		.split(".")
+		.map((segment) => (/^\d+$/.test(segment) ? String(Number(segment)) : segment))
+		.join(".");
+}
+
+function requireEquality(field: string, op: TaskQueryOperator): void {
+	if (op !== ":" && op !== "=" && op !== "!=") {
+		throw new TaskQueryError(`"${field}" only supports ":" and "!=", not "${op}"`);
+	}
+}
+
+/**
+ * Build the check for one `field:value` term. A value list matches when any
+ * value does; `!=` matches when none does.
+ */
+function compileField(node: Extract<TaskQueryNode, { type: "field" }>, context: TaskQueryContext): TaskPredicate {
+	const { field, op, values } = node;
+
+	const anyOf = (matches: (task: Task, value: string) => boolean, wanted: string[] = values): TaskPredicate => {
+		requireEquality(field, op);
+		const check: TaskPredicate = (task) => wanted.some((value) => matches(task, value));
+		return op === "!=" ? (task) => !check(task) : check;
+	};
+
+	const customField = findCustomField(context.customFields, field);
+	if (customField && !(field in TASK_QUERY_FIELDS)) {
+		return compileCustomField(customField, op, values, context);
+	}
+
+	switch (field) {
+		case "status":
+			return anyOf((task, value) => normalizeText(task.status ?? "") === normalizeText(value));
+		case "label":
+			return anyOf((task, value) => (task.labels ?? []).some((label) => normalizeText(label) === normalizeText(value)));
+		case "assignee": {
+			const people = values.map((value) => {
+				if (value.toLowerCase() !== "@me") return normalizePerson(value);
+				if (!context.currentUser) {
+					throw new TaskQueryError("Cannot resolve @me: no current user is configured");
+				}
+				return normalizePerson(context.currentUser);
+			});
+			return anyOf((task, person) => (task.assignee ?? []).some((name) => normalizePerson(name) === person), people);
+		}
+		case "priority": {
+			const ranks = values.map((value) => {
+				const rank = PRIORITY_RANK[value.toLowerCase()];
+				if (!rank) {
+					throw new TaskQueryError(`Invalid priority "${value}". Valid values are: high, medium, low`);
+				}
+				return rank;
+			});
+			const check: TaskPredicate = (task) => {
+				const rank = PRIORITY_RANK[(task.priority ?? "").toLowerCase()];
+				if (!rank) return false;
+				return ranks.some((expected) => compare(rank, op === "!=" ? "=" : op, expected));
+			};
+			return op === "!=" ? (task) => !check(task) : check;
+		}
+		case "milestone": {
+			const keys = values.map((value) => {
+				const entity = context.milestones?.find((milestone) => milestoneKey(milestone.title) === milestoneKey(value));
+				return milestoneKey(entity?.id ?? value);
+			});
+			return anyOf((task, key) => milestoneKey(task.milestone) === key, keys);
+		}
+		case "id":
+			return anyOf((task, value) => normalizeId(task.id) === normalizeId(value));
+		case "parent":
+			return anyOf(
+				(task, value) => Boolean(task.parentTaskId) && normalizeId(task.parentTaskId ?? "") === normalizeId(value),
+			);
+		case "dep":
+			return anyOf((task, value) =>
+				(task.dependencies ?? []).some((dependency) => normalizeId(dependency) === normalizeId(value)),
+			);
+		case "title":
+			return anyOf((task, value) => normalizeText(task.title).includes(normalizeText(value)));
+		case "description":
+			return anyOf((task, value) => normalizeText(task.description ?? "").includes(normalizeText(value)));
+		case "has": {
+			const customNames = (context.customFields ?? []).map((definition) => definition.name);
+			const fields = values.map((value) => {
+				const resolved = resolveField(value, context.customFields) ?? value.toLowerCase();
+				if (!HAS_VALUES.includes(resolved) && !customNames.includes(resolved)) {
+					throw new TaskQueryError(
+						`Unknown has: value "${value}". Use one of: ${[...HAS_VALUES, ...customNames].join(", ")}`,
+					);
+				}
+				return resolved;
+			});
+			return anyOf(
+				(task, resolved) =>
+					customNames.includes(resolved) ? task.customFields?.[resolved] !== undefined : hasField(task, resolved),
+				fields,
+			);
+		}
+		case "is":
+			for (const value of values) {
+				if (!IS_VALUES.includes(value.toLowerCase())) {
+					throw new TaskQueryError(`Unknown is: value "${value}". Use one of: ${IS_VALUES.join(", ")}`);
+				}
+			}
+			return anyOf((task, value) => {
+				switch (value.toLowerCase()) {
+					case "overdue":
+						return isOverdue(task, context.today);
+					case "done":
+						return isDoneStatus(task.status);
+					default:
+						return !isDoneStatus(task.status);
+				}
+			});
+		default:
+			return compileDateField(
+				field,
+				op,
+				values,
+				context,
+				(task) => getBuiltInDate(task, field),
+				isPastDateField(field),
+			);
+	}
+}
+
+/**
+ * Build the check for a custom field term. Numbers compare numerically and
+ * enums by their configured option order; dates work like `due:`; user
+ * fields accept `@me`; other types only support equality.
+ */
+function compileCustomField(
+	definition: CustomFieldDefinition,
+	op: TaskQueryOperator,
+	values: string[],
+	context: TaskQueryContext,
+): TaskPredicate {
+	const { name } = definition;
+	const getValue = (task: Task) => task.customFields?.[name];
+	const parse = (value: string) => {
+		try {
+			return parseCustomFieldValue(definition, value);
+		} catch (error) {
+			throw new TaskQueryError(error instanceof CustomFieldError ? error.message : String(error));
+		}
+	};
+	const matchAny = (matches: (actual: string | number | boolean, expected: string | number | boolean) => boolean) => {
+		const wanted = values.map(parse);
+		const check: TaskPredicate = (task) => {
+			const actual = getValue(task);
+			return actual !== undefined && wanted.some((expected) => matches(actual, expected));
+		};
+		return op === "!=" ? (task: Task) => !check(task) : check;
+	};
+	const ordered = (rank: (value: string | number | boolean) => number) =>
+		matchAny((actual, expected) => compare(rank(actual), op === "!=" ? "=" : op, rank(expected)));
+
+	switch (definition.type) {
+		case "number":
+			return ordered(Number);
+		case "enum": {
+			const options = (definition.options ?? []).map((option) => option.toLowerCase());
+			return ordered((value) => options.indexOf(String(value).toLowerCase()));
+		}
+		case "date":
+			return compileDateField(name, op, values, context, (task) => {
+				const value = getValue(task);
+				return value === undefined ? undefined : toDay(String(value));
+			});
+		case "boolean":
+			requireEquality(name, op);
+			return matchAny((actual, expected) => actual === expected);
+		case "user": {
+			requireEquality(name, op);
+			const people = values.map((value) => {
+				if (value.toLowerCase() !== "@me") return normalizePerson(value);
+				if (!context.currentUser) {
+					throw new TaskQueryError("Cannot resolve @me: no current user is configured");
+				}
+				return normalizePerson(context.currentUser);
+			});
+			const check: TaskPredicate = (task) => people.includes(normalizePerson(String(getValue(task) ?? "")));
+			return op === "!=" ? (task) => !check(task) : check;
+		}
+		case "string": {
+			requireEquality(name, op);
+			return matchAny((actual, expected) => normalizeText(String(actual)) === normalizeText(String(expected)));
+		}
+	}
+}
+
+function hasField(task: Task, field: string): boolean {
+	switch (field) {
+		case "assignee":
+			return (task.assignee ?? []).some((name) => name.trim());
+		case "label":
+			return (task.labels ?? []).length > 0;
+		case "dep":
+			return (task.dependencies ?? []).length > 0;
+		case "parent":
+			return Boolean(task.parentTaskId);
+		case "due":
+			return Boolean(task.dueDate);
+		case "start":
+			return Boolean(task.startDate);
+		case "description":
+			return Boolean(task.description?.trim());
+		default:
+			return Boolean(task[field as "priority" | "milestone" | "estimate"]);
+	}
+}
+
+/**
+ * Dates take `YYYY-MM-DD`, `today`, `yesterday`, `tomorrow` or a relative
+ * distance like `7d`, `2w` or `1m`. Relative values compare how far the date is
+ * from today: the age of `created`/`updated`, the time left until `due`/`start`.
+ * So `updated:<7d` is "updated in the last week" and `due:<=3d` is "due within
+ * three days"; a bare `:` with a relative value means `<=`.
+ */
+function compileDateField(
+	field: string,
+	op: TaskQueryOperator,
+	values: string[],
+	context: TaskQueryContext,
+	getDate: (task: Task) => string | undefined,
+	inPast = false,
+): TaskPredicate {
+	const today = dayNumber(context.today);
+
+	const checks = values.map((value): TaskPredicate => {
+		const relative = value.toLowerCase().match(/^(\d+)([dwm])$/);
+		if (relative) {
+			const distance = Number(relative[1]) * (RELATIVE_UNIT_DAYS[relative[2] ?? "d"] ?? 1);
+			const relativeOp = op === ":" ? "<=" : op;
+			return (task) => {
+				const date = getDate(task);
+				if (!date) return false;
+				const days = inPast ? today - dayNumber(date) : dayNumber(date) - today;
+				return compare(days, relativeOp, distance);
+			};
+		}
+		const absolute = resolveDateKeyword(value.toLowerCase(), context.today);
+		if (!absolute) {
+			throw new TaskQueryError(
+				`Invalid date "${value}" for ${field}. Use YYYY-MM-DD, today, yesterday, tomorrow or a distance like 7d, 2w, 1m`,
+			);
+		}
+		return (task) => {
+			const date = getDate(task);
+			return date ? compare(date, op, absolute) : false;
+		};
+	});
+
+	return op === "!=" ? (task) => checks.every((check) => check(task)) : (task) => checks.some((check) => check(task));
+}
+
+function getBuiltInDate(task: Task, field: string): string | undefined {
+	switch (field) {
+		case "created":
+			return toDay(task.createdDate);
+		case "updated":
+			return toDay(task.updatedDate ?? task.createdDate);
+		case "due":
+			return toDay(task.dueDate);
+		default:
+			return toDay(task.startDate);
+	}
+}
+
+function isPastDateField(field: string): boolean {
+	return field === "created" || field === "updated";
+}
+
+function resolveDateKeyword(value: string, today: string): string | null {
+	const offsets: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+	const offset = offsets[value];
+	if (offset !== undefined) {
+		return new Date((dayNumber(today) + offset) * 86_400_000).toISOString().slice(0, 10);
+	}
+	return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : null;
+}
+
+function compileNode(node: TaskQueryNode, context: TaskQueryContext): TaskPredicate {
+	switch (node.type) {
+		case "and": {
+			const children = node.children.map((child) => compileNode(child, context));
+			return (task) => children.every((check) => check(task));
+		}
+		case "or": {
+			const children = node.children.map((child) => compileNode(child, context));
+			return (task) => children.some((check) => check(task));
+		}
+		case "not": {
+			const child = compileNode(node.child, context);
+			return (task) => !child(task);
+		}
+		case "text": {
+			const needle = normalizeText(node.value);
+			return (task) =>
+				[task.id, task.title, task.description ?? ""].some((text) => normalizeText(text).includes(needle));
+		}
+		case "field":
+			return compileField(node, context);
+	}
+}
+
+/**
+ * Compile a filter query into a task predicate. Field values are checked up
+ * front, so a bad priority or date fails here rather than matching nothing.
+ */
+export function compileTaskQuery(input: string, context: TaskQueryContext): TaskPredicate {
+	const node = parseTaskQuery(input, context.customFields);
+	return node ? compileNode(node, context) : () => true;
+}
+
+export function filterTasksByQuery(tasks: Task[], input: string, context: TaskQueryContext): Task[] {
+	const matches = compileTaskQuery(input, context);
+	return tasks.filter(matches);
+}
@@ -0,0 +1,458 @@
+import { isPlainObject, serializeConfigSection } from "../file-system/config-yaml.ts";
+import { JSON_OUTPUT_VERSION, serializeTask, type TaskJson } from "../formatters/json-output.ts";
+import type {
+	AcceptanceCriterionInput,
+	CustomFieldDefinition,
+	CustomFieldValue,
+	Task,
+	TaskCreateInput,
+} from "../types/index.ts";
+import { formatCsv, parseCsv } from "../utils/csv.ts";
+import { findCustomField } from "./custom-fields.ts";
+
+export type TransferFormat = "csv" | "json" | "yaml";
+
+export type ExportSource = "tasks" | "drafts" | "archived" | "completed";
+
+export const TRANSFER_FORMATS: TransferFormat[] = ["csv", "json", "yaml"];
+
+export const EXPORT_SOURCES: Record<ExportSource, string> = {
+	tasks: "active tasks in backlog/tasks",
+	drafts: "drafts in backlog/drafts",
+	archived: "archived tasks in backlog/archive/tasks",
+	completed: "completed tasks in backlog/completed",
+};
+
+export type ExportField = keyof TaskJson | "source";
+
+/** Exported by default, in this order; `filePath` is only exported when asked for */
+export const DEFAULT_EXPORT_FIELDS: ExportField[] = [
+	"id",
+	"title",
+	"status",
+	"priority",
+	"assignee",
+	"reporter",
+	"labels",
+	"milestone",
+	"parentTaskId",
+	"subtasks",
+	"dependencies",
+	"createdDate",
+	"updatedDate",
+	"startDate",
+	"dueDate",
+	"description",
+	"acceptanceCriteria",
+	"implementationPlan",
+	"implementationNotes",
+	"estimate",
+	"effort",
+	"customFields",
+	"source",
+];
+
+export const EXPORT_FIELDS: ExportField[] = [...DEFAULT_EXPORT_FIELDS, "filePath"];
+
+/**
+ * Raised for unreadable import files, unknown formats or fields, and imports
+ * whose references cannot be resolved
+ */
+export class TaskTransferError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TaskTransferError";
+	}
+}
+
+export function isTransferFormat(value: string): value is TransferFormat {
+	return (TRANSFER_FORMATS as string[]).includes(value);
+}
+
+export function isExportSource(value: string): value is ExportSource {
+	return value in EXPORT_SOURCES;
+}
+
+export function isExportField(value: string): value is ExportField {
+	return (EXPORT_FIELDS as string[]).includes(value);
+}
+
+/**
+ * Format from an explicit option or the file extension (.csv, .json, .yaml, .yml)
+ */
+export function resolveTransferFormat(format: string | undefined, filePath?: string): TransferFormat | null {
+	if (format) {
+		const lower = format.toLowerCase();
+		return lower === "yml" ? "yaml" : isTransferFormat(lower) ? lower : null;
+	}
+	const extension = filePath?.split(".").pop()?.toLowerCase();
+	if (!extension) return null;
+	return extension === "yml" ? "yaml" : isTransferFormat(extension) ? extension : null;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export type ExportRecord = Partial<Record<ExportField, unknown>>;
+
+export function buildExportRecord(task: Task, source: ExportSource, fields: ExportField[]): ExportRecord {
+	const json: Record<string, unknown> = { ...serializeTask(task), source };
+	const record: ExportRecord = {};
+	for (const field of fields) {
+		record[field] = json[field];
+	}
+	return record;
+}
+
+function formatCsvValue(field: ExportField, value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (field === "acceptanceCriteria" && Array.isArray(value)) {
+		return (value as AcceptanceCriterionInput[])
+			.map((criterion) => `${criterion.checked ? "[x]" : "[ ]"} ${criterion.text}`)
+			.join("\n");
+	}
+	if (Array.isArray(value)) return value.join(", ");
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * Render export records. CSV gets one column per custom field, named after
+ * the field, instead of a `customFields` column so spreadsheets can sort by them.
+ */
+export function formatTaskExport(records: ExportRecord[], fields: ExportField[], format: TransferFormat): string {
+	if (format === "json") {
+		return `${JSON.stringify({ version: JSON_OUTPUT_VERSION, kind: "tasks", data: records }, null, 2)}\n`;
+	}
+	if (format === "yaml") {
+		const lines = [
+			`version: ${JSON_OUTPUT_VERSION}`,
+			...serializeConfigSection("tasks", records as Parameters<typeof serializeConfigSection>[1]),
+		];
+		if (records.length === 0) lines.push("tasks: []");
+		return `${lines.join("\n")}\n`;
+	}
+
+	const customNames = fields.includes("customFields")
+		? Array.from(
+				new Set(
+					records.flatMap((record) =>
+						Object.keys((record.customFields as Record<string, CustomFieldValue> | undefined) ?? {}),
+					),
+				),
+			)
+		: [];
+	const columns = fields.filter((field) => field !== "customFields");
+	const header = [...columns, ...customNames];
+	const rows = records.map((record) => [
+		...columns.map((field) => formatCsvValue(field, record[field])),
+		...customNames.map((name) =>
+			formatCsvValue("customFields", (record.customFields as Record<string, CustomFieldValue>)?.[name]),
+		),
+	]);
+	return formatCsv([header, ...rows]);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** A task read from an import file, before it has a real id */
+export interface ImportedTask {
+	/** The record's own id (a temporary id other records may reference) or "row N" */
+	ref: string;
+	input: TaskCreateInput;
+	/** Dependencies as written: refs of other imported tasks or ids of existing tasks */
+	dependencyRefs: string[];
+	parentRef?: string;
+}
+
+export interface ImportMapOptions {
+	/** Source column or key → target field, e.g. { Summary: "title" } */
+	fieldMap?: Record<string, string>;
+	customFields?: CustomFieldDefinition[];
+}
+
+type ImportTarget =
+	| "id"
+	| "title"
+	| "description"
+	| "status"
+	| "priority"
+	| "assignee"
+	| "labels"
+	| "milestone"
+	| "dependencies"
+	| "parentTaskId"
+	| "acceptanceCriteria"
+	| "implementationPlan"
+	| "implementationNotes"
+	| "estimate"
+	| "startDate"
+	| "dueDate"
+	| "customFields";
+
+/** Column names accepted for each field, compared without case, spaces, "_" or "-" */
+const IMPORT_ALIASES: Record<ImportTarget, string[]> = {
+	id: ["id", "ref", "key"],
+	title: ["title", "name", "summary"],
+	description: ["description", "desc", "body"],
+	status: ["status", "state"],
+	priority: ["priority"],
+	assignee: ["assignee", "assignees", "owner"],
+	labels: ["labels", "label", "tags"],
+	milestone: ["milestone"],
+	dependencies: ["dependencies", "dependency", "deps", "dependson", "blockedby"],
+	parentTaskId: ["parenttaskid", "parent", "parentid"],
+	acceptanceCriteria: ["acceptancecriteria", "ac"],
+	implementationPlan: ["implementationplan", "plan"],
+	implementationNotes: ["implementationnotes", "notes"],
+	estimate: ["estimate"],
+	startDate: ["startdate", "start"],
+	dueDate: ["duedate", "due"],
+	customFields: ["customfields"],
+};
+
+/** Fields our own export writes that have no TaskCreateInput counterpart */
+const EXPORT_ONLY_KEYS = new Set([
+	"source",
+	"createddate",
+	"updateddate",
+	"subtasks",
+	"effort",
+	"filepath",
+	"reporter",
+]);
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, "");
+
+function findImportTarget(key: string): ImportTarget | undefined {
+	const normalized = normalizeKey(key);
+	return (Object.keys(IMPORT_ALIASES) as ImportTarget[]).find((target) => IMPORT_ALIASES[target].includes(normalized));
+}
+
+/**
+ * Parse `--map` entries such as "Summary=title" or "Owner=assignee,Points=points"
+ */
+export function parseImportFieldMap(entries: string[]): Record<string, string> {
+	const fieldMap: Record<string, string> = {};
+	for (const entry of entries.flatMap((item) => item.split(","))) {
+		const [from, to] = entry.split("=").map((part) => part.trim());
+		if (!from || !to) {
+			throw new TaskTransferError(`Invalid mapping "${entry}". Use column=field, e.g. --map Summary=title`);
+		}
+		fieldMap[from] = to;
+	}
+	return fieldMap;
+}
+
+/**
+ * Read the records of an import file: a JSON array, `{ data: [...] }` as
+ * written by `--json` and `export`, `{ tasks: [...] }`, or CSV with a header row
+ */
+export function parseImportRecords(content: string, format: TransferFormat): Record<string, unknown>[] {
+	if (format === "csv") {
+		const [header, ...rows] = parseCsv(content);
+		if (!header) return [];
+		return rows.map((row) => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? ""])));
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = format === "json" ? JSON.parse(content) : Bun.YAML.parse(content);
+	} catch (error) {
+		throw new TaskTransferError(
+			`Could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	const list = Array.isArray(parsed) ? parsed : isPlainObject(parsed) ? (parsed.data ?? parsed.tasks) : undefined;
+	if (!Array.isArray(list)) {
+		throw new TaskTransferError("Expected a list of tasks, or an object with a `data` or `tasks` list");
+	}
+	return list.map((item, index) => {
+		if (!isPlainObject(item)) {
+			throw new TaskTransferError(`Record ${index + 1} is not an object`);
+		}
+		return item;
+	});
+}
+
+function toText(value: unknown): string | undefined {
+	if (value === null || value === undefined) return undefined;
+	const text = String(value).trim();
+	return text === "" ? undefined : text;
+}
+
+function toList(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map(toText).filter((item): item is string => item !== undefined);
+	}
+	return (toText(value) ?? "")
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+function toAcceptanceCriteria(value: unknown): AcceptanceCriterionInput[] {
+	const items = Array.isArray(value) ? value : (toText(value) ?? "").split(/\r?\n/);
+	return items
+		.map((item): AcceptanceCriterionInput | undefined => {
+			if (isPlainObject(item)) {
+				const text = toText(item.text);
+				return text ? { text, checked: item.checked === true } : undefined;
+			}
+			const line = toText(item)?.replace(/^-\s*/, "");
+			if (!line) return undefined;
+			const match = line.match(/^\[([ xX])\]\s*(.*)$/);
+			return match ? { text: match[2] ?? "", checked: match[1] !== " " } : { text: line, checked: false };
+		})
+		.filter((item): item is AcceptanceCriterionInput => item !== undefined && item.text !== "");
+}
+
+function toCustomValue(value: unknown): CustomFieldValue | undefined {
+	if (typeof value === "number" || typeof value === "boolean") return value;
+	return toText(value);
+}
+
+/**
+ * Map import records onto task inputs. Keys are matched against field names
+ * and common aliases (`summary`, `owner`, `tags`, ...), then against custom
+ * fields; `fieldMap` overrides both. Unknown keys are reported as warnings.
+ */
+export function mapImportRecords(
+	records: Record<string, unknown>[],
+	options: ImportMapOptions = {},
+): { tasks: ImportedTask[]; warnings: string[] } {
+	const fieldMap = new Map(Object.entries(options.fieldMap ?? {}).map(([from, to]) => [normalizeKey(from), to]));
+	const ignored = new Set<string>();
+	const warnings: string[] = [];
+
+	const tasks = records.map((record, index): ImportedTask => {
+		const row = `row ${index + 1}`;
+		const input: TaskCreateInput = { title: "" };
+		const customFields: Record<string, CustomFieldValue> = {};
+		let ref: string | undefined;
+		let dependencyRefs: string[] = [];
+		let parentRef: string | undefined;
+
+		for (const [key, value] of Object.entries(record)) {
+			const mapped = fieldMap.get(normalizeKey(key));
+			const target = findImportTarget(mapped ?? key);
+			const customField = target ? undefined : findCustomField(options.customFields, mapped ?? key);
+			if (customField) {
+				const customValue = toCustomValue(value);
+				if (customValue !== undefined) customFields[customField.name] = customValue;
+				continue;
+			}
+			if (!target) {
+				if (!mapped && EXPORT_ONLY_KEYS.has(normalizeKey(key))) continue;
+				if (!ignored.has(key)) {
+					ignored.add(key);
+					warnings.push(mapped ? `Unknown target field "${mapped}" for "${key}"` : `Ignoring unknown field "${key}"`);
+				}
+				continue;
+			}
+
+			switch (target) {
+				case "id":
+					ref = toText(value);
+					break;
+				case "title":
+					input.title = toText(value) ?? "";
+					break;
+				case "assignee":
+				case "labels":
+					input[target] = toList(value);
+					break;
+				case "dependencies":
+					dependencyRefs = toList(value);
+					break;
+				case "parentTaskId":
+					parentRef = toText(value);
+					break;
+				case "acceptanceCriteria":
+					input.acceptanceCriteria = toAcceptanceCriteria(value);
+					break;
+				case "priority": {
+					const priority = toText(value)?.toLowerCase();
+					// Validated on import along with the other fields
+					if (priority) input.priority = priority as TaskCreateInput["priority"];
+					break;
+				}
+				case "customFields":
+					if (isPlainObject(value)) {
+						for (const [name, fieldValue] of Object.entries(value)) {
+							const customValue = toCustomValue(fieldValue);
+							if (customValue !== undefined) customFields[name] = customValue;
+						}
+					}
+					break;
+				default: {
+					const text = toText(value);
+					if (text !== undefined) input[target] = text;
+				}
+			}
+		}
+
+		if (Object.keys(customFields).length > 0) input.customFields = customFields;
+		return { ref: ref ?? row, input, dependencyRefs, ...(parentRef && { parentRef }) };
+	});
+
+	const seen = new Map<string, string>();
+	for (const task of tasks) {
+		const key = task.ref.toLowerCase();
+		if (seen.has(key)) {
+			throw new TaskTransferError(`Duplicate id "${task.ref}" in import file`);
+		}
+		seen.set(key, task.ref);
+	}
+	return { tasks, warnings };
+}
+
+/**
+ * Find the imported task a reference points to. References that match no
+ * imported task are ids of tasks already in the project.
+ */
+export function findImportedTask(tasks: ImportedTask[], ref: string): ImportedTask | undefined {
+	const key = ref.trim().toLowerCase();
+	return tasks.find((task) => task.ref.toLowerCase() === key);
+}
+
+/**
+ * Order imported tasks so parents and dependencies are created before the
+ * tasks that point to them
+ */
+export function orderImportedTasks(tasks: ImportedTask[]): ImportedTask[] {
+	const ordered: ImportedTask[] = [];
+	const state = new Map<ImportedTask, "visiting" | "done">();
+
+	const visit = (task: ImportedTask, path: string[]) => {
+		const current = state.get(task);
+		if (current === "done") return;
+		if (current === "visiting") {
+			const cycle = [...path.slice(path.indexOf(task.ref)), task.ref];
+			throw new TaskTransferError(`Imported tasks depend on each other in a cycle: ${cycle.join(" -> ")}`);
+		}
+		state.set(task, "visiting");
+		for (const ref of [...(task.parentRef ? [task.parentRef] : []), ...task.dependencyRefs]) {
+			const target = findImportedTask(tasks, ref);
+			if (target) visit(target, [...path, task.ref]);
+		}
+		state.set(task, "done");
+		ordered.push(task);
+	};
+
+	for (const task of tasks) visit(task, []);
+	return ordered;
+}
+
+/**
+ * A task created (or checked, on a dry run) by `backlog import`
+ */
+export interface ImportedTaskResult {
+	ref: string;
+	title: string;
+	/** Missing on a dry run */
+	id?: string;
+}
@@ -0,0 +1,44 @@
+import type { TaskCreateInput, TaskTemplate } from "../types/index.ts";
+
+/**
+ * Replace `{{date}}` placeholders with the creation date (YYYY-MM-DD)
+ */
+export function renderTemplateText(text: string, date: Date): string {
+	return text.replace(/\{\{\s*date\s*\}\}/g, date.toISOString().slice(0, 10));
+}
+
+/**
+ * Build task input from a template. Values in `overrides` win over the
+ * template, except labels and acceptance criteria which are added to the
+ * template's own.
+ */
+export function buildTaskInputFromTemplate(
+	template: TaskTemplate,
+	overrides: Partial<TaskCreateInput> = {},
+	date: Date = new Date(),
+): TaskCreateInput {
+	const labels = Array.from(new Set([...template.labels, ...(overrides.labels ?? [])]));
+	const acceptanceCriteria = [
+		...template.acceptanceCriteria.map((criterion) => ({
+			...criterion,
+			text: renderTemplateText(criterion.text, date),
+		})),
+		...(overrides.acceptanceCriteria ?? []),
+	];
+	const description = overrides.description ?? template.description;
+	const implementationPlan = overrides.implementationPlan ?? template.implementationPlan;
+
+	return {
+		...overrides,
+		title: overrides.title?.trim() ? overrides.title : renderTemplateText(template.title, date),
+		status: overrides.status ?? template.status,
+		priority: overrides.priority ?? template.priority,
+		milestone: overrides.milestone ?? template.milestone,
+		assignee: overrides.assignee && overrides.assignee.length > 0 ? overrides.assignee : template.assignee,
+		estimate: overrides.estimate ?? template.estimate,
+		labels,
+		acceptanceCriteria,
+		...(description !== undefined && { description: renderTemplateText(description, date) }),
+		...(implementationPlan !== undefined && { implementationPlan: renderTemplateText(implementationPlan, date) }),
+	};
+}
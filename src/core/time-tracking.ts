@@ -0,0 +1,44 @@
+import type { EffortSummary, Task } from "../types/index.ts";
+import { parseDuration } from "../utils/duration.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+/**
+ * Total minutes logged in a task's worklog
+ */
+export function getLoggedMinutes(task: Task): number {
+	return (task.worklog ?? []).reduce((sum, entry) => sum + (parseDuration(entry.duration) ?? 0), 0);
+}
+
+/**
+ * Effort for a single task. Remaining effort uses the explicit `remaining`
+ * value when set, otherwise estimate minus logged time. Done tasks have
+ * nothing remaining.
+ */
+export function getTaskEffort(task: Task): EffortSummary {
+	const estimatedMinutes = parseDuration(task.estimate) ?? 0;
+	const loggedMinutes = getLoggedMinutes(task);
+
+	let remainingMinutes: number;
+	if (isDoneStatus(task.status)) {
+		remainingMinutes = 0;
+	} else {
+		const explicit = parseDuration(task.remaining);
+		remainingMinutes = explicit ?? Math.max(0, estimatedMinutes - loggedMinutes);
+	}
+
+	return { estimatedMinutes, loggedMinutes, remainingMinutes };
+}
+
+/**
+ * Sum effort across tasks
+ */
+export function rollupEffort(tasks: Task[]): EffortSummary {
+	const totals: EffortSummary = { estimatedMinutes: 0, loggedMinutes: 0, remainingMinutes: 0 };
+	for (const task of tasks) {
+		const effort = getTaskEffort(task);
+		totals.estimatedMinutes += effort.estimatedMinutes;
+		totals.loggedMinutes += effort.loggedMinutes;
+		totals.remainingMinutes += effort.remainingMinutes;
+	}
+	return totals;
+}
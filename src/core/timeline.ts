@@ -0,0 +1,146 @@
+import type { Milestone, Task } from "../types/index.ts";
+import { parseDuration } from "../utils/duration.ts";
+import { collectMilestoneIds, getMilestoneLabel, isDoneStatus, milestoneKey } from "./milestones.ts";
+import { computeSequences } from "./sequences.ts";
+
+/** Working minutes in a day, matching how estimates are parsed */
+const MINUTES_PER_DAY = 8 * 60;
+
+export interface TimelineBar {
+	task: Task;
+	/** First day of the bar (YYYY-MM-DD) */
+	start: string;
+	/** Last day of the bar, inclusive (YYYY-MM-DD) */
+	end: string;
+	/** True when the start date was not set on the task */
+	startInferred: boolean;
+	/** True when the due date was not set on the task */
+	endInferred: boolean;
+}
+
+export interface TimelineGroup {
+	/** Milestone id, or undefined for tasks without a milestone */
+	milestone?: string;
+	label: string;
+	bars: TimelineBar[];
+}
+
+export interface TimelineLink {
+	/** The dependency */
+	from: string;
+	/** The task that waits for it */
+	to: string;
+}
+
+export interface Timeline {
+	start: string;
+	end: string;
+	groups: TimelineGroup[];
+	links: TimelineLink[];
+}
+
+export function addDays(date: string, days: number): string {
+	const time = Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * 86_400_000;
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+export function diffDays(from: string, to: string): number {
+	return Math.round(
+		(Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / 86_400_000,
+	);
+}
+
+/**
+ * Length of a task in whole days, from its remaining or original estimate;
+ * one day when there is none
+ */
+function getDurationDays(task: Task): number {
+	const minutes = parseDuration(task.remaining ?? task.estimate);
+	return minutes ? Math.max(1, Math.ceil(minutes / MINUTES_PER_DAY)) : 1;
+}
+
+/**
+ * Lay tasks out on a calendar. Explicit start and due dates are used as they
+ * are; missing dates are inferred from the estimate and from dependencies, so
+ * an undated task starts the day after its last dependency ends, or today.
+ * Done tasks without dates span their created and updated dates.
+ */
+export function buildTimeline(tasks: Task[], options: { today: string; milestones?: Milestone[] }): Timeline {
+	const { today, milestones = [] } = options;
+	const { unsequenced, sequences } = computeSequences(tasks);
+	// Dependencies come before the tasks that wait on them
+	const ordered = [...unsequenced, ...sequences.flatMap((sequence) => sequence.tasks)];
+	const bars = new Map<string, TimelineBar>();
+
+	for (const task of ordered) {
+		const duration = getDurationDays(task);
+		const explicitStart = task.startDate?.slice(0, 10);
+		const explicitEnd = task.dueDate?.slice(0, 10);
+		let start: string;
+		let end: string;
+
+		if (explicitStart && explicitEnd) {
+			start = explicitStart;
+			end = explicitEnd;
+		} else if (explicitEnd) {
+			start = addDays(explicitEnd, 1 - duration);
+			end = explicitEnd;
+		} else if (explicitStart) {
+			start = explicitStart;
+			end = addDays(explicitStart, duration - 1);
+		} else if (isDoneStatus(task.status)) {
+			start = task.createdDate.slice(0, 10);
+			end = (task.updatedDate ?? task.createdDate).slice(0, 10);
+		} else {
+			start = today;
+			for (const dependency of task.dependencies) {
+				const blocker = bars.get(dependency);
+				if (blocker && !isDoneStatus(blocker.task.status) && blocker.end >= start) {
+					start = addDays(blocker.end, 1);
+				}
+			}
+			end = addDays(start, duration - 1);
+		}
+
+		bars.set(task.id, {
+			task,
+			start,
+			end: end < start ? start : end,
+			startInferred: !explicitStart,
+			endInferred: !explicitEnd,
+		});
+	}
+
+	const groups: TimelineGroup[] = [...collectMilestoneIds(tasks, milestones), undefined]
+		.map((milestone) => ({
+			milestone,
+			label: getMilestoneLabel(milestone, milestones),
+			bars: Array.from(bars.values())
+				.filter((bar) => milestoneKey(bar.task.milestone) === milestoneKey(milestone))
+				.sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end)),
+		}))
+		.filter((group) => group.bars.length > 0);
+
+	const links: TimelineLink[] = [];
+	for (const task of tasks) {
+		for (const dependency of task.dependencies) {
+			if (bars.has(dependency)) {
+				links.push({ from: dependency, to: task.id });
+			}
+		}
+	}
+
+	const allBars = Array.from(bars.values());
+	const start = allBars.reduce((min, bar) => (bar.start < min ? bar.start : min), today);
+	const end = allBars.reduce((max, bar) => (bar.end > max ? bar.end : max), today);
+
+	return { start, end, groups, links };
+}
+
+/**
+ * Dates to save after a bar was dragged by `days`; both ends move so the
+ * task keeps its length
+ */
+export function shiftBarDates(bar: TimelineBar, days: number): { startDate: string; dueDate: string } {
+	return { startDate: addDays(bar.start, days), dueDate: addDays(bar.end, days) };
+}
@@ -0,0 +1,94 @@
+import type { StatusTransitionRule, Task, TransitionGuard } from "../types/index.ts";
+
+export const TRANSITION_GUARDS: Record<TransitionGuard, string> = {
+	acceptance_criteria_checked: "all acceptance criteria must be checked",
+	has_assignee: "the task must have an assignee",
+	has_implementation_notes: "the task must have implementation notes",
+};
+
+export function isTransitionGuard(value: string): value is TransitionGuard {
+	return value in TRANSITION_GUARDS;
+}
+
+/**
+ * Raised when a status change breaks the configured workflow rules
+ */
+export class TransitionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TransitionError";
+	}
+}
+
+function findRule(
+	transitions: Record<string, StatusTransitionRule> | undefined,
+	status: string,
+): StatusTransitionRule | undefined {
+	if (!transitions) return undefined;
+	const key = Object.keys(transitions).find((name) => name.toLowerCase() === status.toLowerCase());
+	return key ? transitions[key] : undefined;
+}
+
+function checkGuard(task: Task, guard: TransitionGuard): string | null {
+	switch (guard) {
+		case "acceptance_criteria_checked": {
+			const unchecked = (task.acceptanceCriteriaItems ?? []).filter((criterion) => !criterion.checked);
+			if (unchecked.length === 0) return null;
+			const indexes = unchecked.map((criterion) => `#${criterion.index}`).join(", ");
+			return `${TRANSITION_GUARDS[guard]} (unchecked: ${indexes})`;
+		}
+		case "has_assignee":
+			return (task.assignee ?? []).some((name) => name.trim()) ? null : TRANSITION_GUARDS[guard];
+		case "has_implementation_notes":
+			return task.implementationNotes?.trim() ? null : TRANSITION_GUARDS[guard];
+	}
+}
+
+/**
+ * Check a status change against the configured transitions. `task` is the
+ * task as it will be saved, so guards see edits made in the same update.
+ * Returns a readable reason when the move is not allowed, otherwise null.
+ * A `fromStatus` of null means the task is being created.
+ */
+export function getTransitionViolation(
+	task: Task,
+	fromStatus: string | null,
+	toStatus: string,
+	transitions: Record<string, StatusTransitionRule> | undefined,
+): string | null {
+	if (!transitions || Object.keys(transitions).length === 0) return null;
+	// Drafts sit outside the workflow
+	if (toStatus.toLowerCase() === "draft") return null;
+
+	if (fromStatus && fromStatus.toLowerCase() !== "draft" && fromStatus.toLowerCase() !== toStatus.toLowerCase()) {
+		const allowed = findRule(transitions, fromStatus)?.to;
+		if (allowed && !allowed.some((status) => status.toLowerCase() === toStatus.toLowerCase())) {
+			const options = allowed.length > 0 ? allowed.join(", ") : "none";
+			return `Cannot move ${task.id} from "${fromStatus}" to "${toStatus}". Allowed next statuses: ${options}.`;
+		}
+	}
+
+	const failures = (findRule(transitions, toStatus)?.requires ?? [])
+		.map((guard) => checkGuard(task, guard))
+		.filter((failure): failure is string => failure !== null);
+	if (failures.length > 0) {
+		return `Cannot move ${task.id} to "${toStatus}": ${failures.join("; ")}.`;
+	}
+
+	return null;
+}
+
+/**
+ * Throw a TransitionError when the status change is not allowed
+ */
+export function assertTransitionAllowed(
+	task: Task,
+	fromStatus: string | null,
+	toStatus: string,
+	transitions: Record<string, StatusTransitionRule> | undefined,
+): void {
+	const violation = getTransitionViolation(task, fromStatus, toStatus, transitions);
+	if (violation) {
+		throw new TransitionError(violation);
+	}
+}
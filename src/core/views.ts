@@ -0,0 +1,274 @@
+import type {
+	CustomFieldDefinition,
+	Milestone,
+	SavedView,
+	Task,
+	ViewColumn,
+	ViewGrouping,
+	ViewSortField,
+} from "../types/index.ts";
+import { compareTaskIds, sortByPriority } from "../utils/task-sorting.ts";
+import { findCustomField, sortTasksByCustomField } from "./custom-fields.ts";
+import { collectMilestoneIds, getMilestoneLabel, milestoneKey } from "./milestones.ts";
+import { parseTaskQuery, TaskQueryError } from "./task-query.ts";
+
+export const VIEW_SORT_FIELDS: Record<ViewSortField, string> = {
+	priority: "highest priority first",
+	id: "task id",
+	title: "title, A to Z",
+	status: "configured status order",
+	created: "newest first",
+	updated: "most recently updated first",
+	due: "soonest due date first",
+};
+
+export const VIEW_GROUPINGS: Record<ViewGrouping, string> = {
+	none: "one flat list",
+	status: "one group per status",
+	milestone: "one group per milestone",
+	assignee: "one group per assignee",
+	label: "one group per label",
+};
+
+/** Column header for each column */
+export const VIEW_COLUMNS: Record<ViewColumn, string> = {
+	id: "ID",
+	title: "Title",
+	status: "Status",
+	priority: "Priority",
+	assignee: "Assignee",
+	labels: "Labels",
+	milestone: "Milestone",
+	due: "Due",
+	updated: "Updated",
+};
+
+export const DEFAULT_VIEW_COLUMNS: ViewColumn[] = ["id", "title", "status", "priority", "assignee"];
+
+const VIEW_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export function isViewSortField(value: string): value is ViewSortField {
+	return value in VIEW_SORT_FIELDS;
+}
+
+export function isViewGrouping(value: string): value is ViewGrouping {
+	return value in VIEW_GROUPINGS;
+}
+
+export function isViewColumn(value: string): value is ViewColumn {
+	return value in VIEW_COLUMNS;
+}
+
+/**
+ * Check a view before it is saved. Returns a readable reason when it is
+ * invalid, otherwise null. Custom fields from config are valid sort keys and
+ * query fields.
+ */
+export function getSavedViewError(view: SavedView, customFields: CustomFieldDefinition[] = []): string | null {
+	if (!VIEW_NAME_PATTERN.test(view.name)) {
+		return `Invalid view name "${view.name}". Use letters, digits, "-" and "_"`;
+	}
+	if (view.sort && !isViewSortField(view.sort) && !findCustomField(customFields, view.sort)) {
+		const valid = [...Object.keys(VIEW_SORT_FIELDS), ...customFields.map((field) => field.name)];
+		return `Invalid sort "${view.sort}". Valid values are: ${valid.join(", ")}`;
+	}
+	if (view.groupBy && !isViewGrouping(view.groupBy)) {
+		return `Invalid grouping "${view.groupBy}". Valid values are: ${Object.keys(VIEW_GROUPINGS).join(", ")}`;
+	}
+	const unknownColumn = view.columns?.find((column) => !isViewColumn(column));
+	if (unknownColumn) {
+		return `Invalid column "${unknownColumn}". Valid values are: ${Object.keys(VIEW_COLUMNS).join(", ")}`;
+	}
+	if (view.query) {
+		try {
+			parseTaskQuery(view.query, customFields);
+		} catch (error) {
+			if (error instanceof TaskQueryError) return error.message;
+			throw error;
+		}
+	}
+	return null;
+}
+
+export interface ViewGroup {
+	key: string;
+	label: string;
+	tasks: Task[];
+}
+
+export interface ViewResult {
+	view: SavedView;
+	columns: ViewColumn[];
+	groups: ViewGroup[];
+	/** Number of matching tasks; a task can appear in several assignee or label groups */
+	total: number;
+}
+
+export interface ViewLayoutOptions {
+	/** Configured statuses, for status ordering and grouping */
+	statuses?: string[];
+	milestones?: Milestone[];
+	/** Custom fields from config, for sorting by them */
+	customFields?: CustomFieldDefinition[];
+}
+
+function getUpdated(task: Task): string {
+	return task.updatedDate ?? task.createdDate;
+}
+
+/**
+ * Sort by a built-in field or, when `sort` names one, a custom field. Unknown
+ * names fall back to priority order.
+ */
+export function sortViewTasks(
+	tasks: Task[],
+	sort = "priority",
+	statuses: string[] = [],
+	customFields: CustomFieldDefinition[] = [],
+): Task[] {
+	const statusRank = (task: Task) => {
+		const index = statuses.findIndex((status) => status.toLowerCase() === (task.status ?? "").toLowerCase());
+		return index === -1 ? statuses.length : index;
+	};
+	const byId = (a: Task, b: Task) => compareTaskIds(a.id, b.id);
+
+	if (!isViewSortField(sort)) {
+		const customField = findCustomField(customFields, sort);
+		return customField ? sortTasksByCustomField(tasks, customField) : sortByPriority(tasks);
+	}
+
+	switch (sort) {
+		case "priority":
+			return sortByPriority(tasks);
+		case "id":
+			return [...tasks].sort(byId);
+		case "title":
+			return [...tasks].sort((a, b) => a.title.localeCompare(b.title) || byId(a, b));
+		case "status":
+			return [...tasks].sort((a, b) => statusRank(a) - statusRank(b) || byId(a, b));
+		case "created":
+			return [...tasks].sort((a, b) => b.createdDate.localeCompare(a.createdDate) || byId(a, b));
+		case "updated":
+			return [...tasks].sort((a, b) => getUpdated(b).localeCompare(getUpdated(a)) || byId(a, b));
+		case "due":
+			// Undated tasks go last
+			return [...tasks].sort((a, b) => (a.dueDate ?? "\uffff").localeCompare(b.dueDate ?? "\uffff") || byId(a, b));
+	}
+}
+
+/**
+ * Split sorted tasks into groups, keeping their order inside each group.
+ * Groups follow the configured status or milestone order; assignee and label
+ * groups are alphabetical, and tasks with several assignees or labels appear
+ * in each of them. Empty groups are dropped and the "none" group comes last.
+ */
+export function groupViewTasks(
+	tasks: Task[],
+	groupBy: ViewGrouping = "none",
+	options: ViewLayoutOptions = {},
+): ViewGroup[] {
+	const { statuses = [], milestones = [] } = options;
+	if (groupBy === "none") {
+		return [{ key: "all", label: "All tasks", tasks }];
+	}
+
+	const byKey = new Map<string, ViewGroup>();
+	const add = (key: string, label: string, task: Task) => {
+		const group = byKey.get(key) ?? { key, label, tasks: [] };
+		group.tasks.push(task);
+		byKey.set(key, group);
+	};
+
+	let order: string[];
+	let noneLabel: string;
+	switch (groupBy) {
+		case "status": {
+			for (const task of tasks) {
+				const status = statuses.find((name) => name.toLowerCase() === (task.status ?? "").toLowerCase());
+				add((status ?? task.status ?? "").toLowerCase(), status ?? task.status ?? "", task);
+			}
+			order = statuses.map((status) => status.toLowerCase());
+			noneLabel = "No status";
+			break;
+		}
+		case "milestone": {
+			for (const task of tasks) {
+				add(milestoneKey(task.milestone), getMilestoneLabel(task.milestone || undefined, milestones), task);
+			}
+			order = collectMilestoneIds(tasks, milestones).map((id) => milestoneKey(id));
+			noneLabel = getMilestoneLabel(undefined, milestones);
+			break;
+		}
+		case "assignee": {
+			for (const task of tasks) {
+				const names = (task.assignee ?? []).map((name) => name.trim()).filter(Boolean);
+				if (names.length === 0) add("", "", task);
+				for (const name of new Set(names)) add(name.toLowerCase(), name, task);
+			}
+			order = Array.from(byKey.keys()).sort();
+			noneLabel = "Unassigned";
+			break;
+		}
+		case "label": {
+			for (const task of tasks) {
+				const labels = (task.labels ?? []).map((label) => label.trim()).filter(Boolean);
+				if (labels.length === 0) add("", "", task);
+				for (const label of new Set(labels)) add(label.toLowerCase(), label, task);
+			}
+			order = Array.from(byKey.keys()).sort();
+			noneLabel = "No labels";
+			break;
+		}
+	}
+
+	const groups: ViewGroup[] = [];
+	for (const key of [
+		...order,
+		...Array.from(byKey.keys())
+			.filter((key) => !order.includes(key))
+			.sort(),
+	]) {
+		const group = byKey.get(key);
+		if (group && key !== "" && !groups.includes(group)) groups.push(group);
+	}
+	const none = byKey.get("");
+	if (none) groups.push({ ...none, label: noneLabel });
+	return groups;
+}
+
+export function formatViewCell(task: Task, column: ViewColumn, milestones: Milestone[] = []): string {
+	switch (column) {
+		case "id":
+			return task.id;
+		case "title":
+			return task.title;
+		case "status":
+			return task.status ?? "";
+		case "priority":
+			return task.priority ?? "";
+		case "assignee":
+			return (task.assignee ?? []).join(", ");
+		case "labels":
+			return (task.labels ?? []).join(", ");
+		case "milestone":
+			return task.milestone ? getMilestoneLabel(task.milestone, milestones) : "";
+		case "due":
+			return task.dueDate?.slice(0, 10) ?? "";
+		case "updated":
+			return getUpdated(task).slice(0, 10);
+	}
+}
+
+/**
+ * Lay out tasks that already match a view's query: sort, group and pick the
+ * columns to show
+ */
+export function buildViewResult(tasks: Task[], view: SavedView, options: ViewLayoutOptions = {}): ViewResult {
+	const sorted = sortViewTasks(tasks, view.sort, options.statuses, options.customFields);
+	return {
+		view,
+		columns: view.columns && view.columns.length > 0 ? view.columns : DEFAULT_VIEW_COLUMNS,
+		groups: groupViewTasks(sorted, view.groupBy, options),
+		total: tasks.length,
+	};
+}
@@ -0,0 +1,111 @@
+import type { Task, WipLimit, WipLimitsConfig } from "../types/index.ts";
+
+/**
+ * Raised when a move would exceed a WIP limit while `wip_limits.strict` is on
+ */
+export class WipLimitError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "WipLimitError";
+	}
+}
+
+export interface ColumnWipState {
+	count: number;
+	limit?: number;
+	perAssignee?: number;
+	/** Column holds more tasks than its limit */
+	overLimit: boolean;
+	/** Assignees holding more tasks in the column than the per-assignee limit */
+	overloadedAssignees: string[];
+}
+
+const sameStatus = (a: string | undefined, b: string) => (a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+
+export function getWipLimit(wipLimits: WipLimitsConfig | undefined, status: string): WipLimit | undefined {
+	if (!wipLimits?.statuses) return undefined;
+	const key = Object.keys(wipLimits.statuses).find((name) => sameStatus(name, status));
+	return key ? wipLimits.statuses[key] : undefined;
+}
+
+function countByAssignee(tasks: Task[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const task of tasks) {
+		for (const assignee of task.assignee ?? []) {
+			counts.set(assignee, (counts.get(assignee) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
+
+/**
+ * Limit and load of one board column, for headers and exports
+ */
+export function getColumnWipState(columnTasks: Task[], limit: WipLimit | undefined): ColumnWipState {
+	const count = columnTasks.length;
+	const overloadedAssignees =
+		limit?.perAssignee !== undefined
+			? Array.from(countByAssignee(columnTasks))
+					.filter(([, assigned]) => assigned > (limit.perAssignee ?? 0))
+					.map(([assignee]) => assignee)
+			: [];
+	return {
+		count,
+		...(limit?.limit !== undefined && { limit: limit.limit }),
+		...(limit?.perAssignee !== undefined && { perAssignee: limit.perAssignee }),
+		overLimit: limit?.limit !== undefined && count > limit.limit,
+		overloadedAssignees,
+	};
+}
+
+/**
+ * Column title with its load, e.g. "In Progress (4/3)" or "Review (2, max 1 per assignee)";
+ * unchanged when the status has no limit
+ */
+export function formatWipLabel(status: string, state: ColumnWipState): string {
+	const parts: string[] = [];
+	if (state.limit !== undefined) {
+		parts.push(`${state.count}/${state.limit}`);
+	}
+	if (state.perAssignee !== undefined) {
+		if (state.limit === undefined) parts.push(String(state.count));
+		parts.push(`max ${state.perAssignee} per assignee`);
+	}
+	return parts.length > 0 ? `${status} (${parts.join(", ")})` : status;
+}
+
+/**
+ * Reasons why moving `task` into `targetStatus` would exceed a WIP limit.
+ * `tasks` are the tasks currently on the board; the moved task itself is not
+ * counted twice.
+ */
+export function getWipViolations(
+	tasks: Task[],
+	task: Task,
+	targetStatus: string,
+	wipLimits: WipLimitsConfig | undefined,
+): string[] {
+	const limit = getWipLimit(wipLimits, targetStatus);
+	if (!limit) return [];
+
+	const column = tasks.filter((item) => item.id !== task.id && sameStatus(item.status, targetStatus));
+	const violations: string[] = [];
+
+	if (limit.limit !== undefined && column.length + 1 > limit.limit) {
+		violations.push(`WIP limit reached for "${targetStatus}": ${column.length}/${limit.limit} tasks already.`);
+	}
+
+	if (limit.perAssignee !== undefined) {
+		const counts = countByAssignee(column);
+		for (const assignee of task.assignee ?? []) {
+			const assigned = counts.get(assignee) ?? 0;
+			if (assigned + 1 > limit.perAssignee) {
+				violations.push(
+					`WIP limit reached for ${assignee} in "${targetStatus}": ${assigned}/${limit.perAssignee} tasks already.`,
+				);
+			}
+		}
+	}
+
+	return violations;
+}
@@ -0,0 +1,91 @@
+import matter from "gray-matter";
+
+/**
+ * Helpers for the nested sections of backlog/config.yml.
+ *
+ * Top-level scalar keys are still read by the line-based parser in FileSystem;
+ * these helpers only cover blocks that span several indented lines (e.g. `mcp:`).
+ */
+
+type YamlValue = string | number | boolean | null | undefined | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * Parse the whole config file as YAML. Returns an empty object when the file
+ * is not valid YAML so that the flat parser can still recover scalar keys.
+ */
+export function parseConfigYaml(content: string): Record<string, unknown> {
+	try {
+		const parsed = matter(`---\n${content}\n---\n`);
+		return parsed.data && typeof parsed.data === "object" ? (parsed.data as Record<string, unknown>) : {};
+	} catch {
+		return {};
+	}
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/** Read a key that may be written in snake_case or camelCase. */
+export function readConfigKey(source: Record<string, unknown>, snakeKey: string, camelKey?: string): unknown {
+	if (snakeKey in source) return source[snakeKey];
+	if (camelKey && camelKey in source) return source[camelKey];
+	return undefined;
+}
+
+function formatScalar(value: string | number | boolean | null): string {
+	if (value === null) return "null";
+	if (typeof value === "string") return JSON.stringify(value);
+	return String(value);
+}
+
+function isScalar(value: YamlValue): value is string | number | boolean | null {
+	return value === null || typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function serializeEntries(entries: Array<[string, YamlValue]>, indent: number): string[] {
+	const pad = "  ".repeat(indent);
+	const lines: string[] = [];
+	for (const [key, value] of entries) {
+		if (value === undefined) continue;
+		const yamlKey = /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+		if (isScalar(value)) {
+			lines.push(`${pad}${yamlKey}: ${formatScalar(value)}`);
+		} else if (Array.isArray(value)) {
+			if (value.every((item) => isScalar(item as YamlValue))) {
+				const items = (value as Array<string | number | boolean | null>).map(formatScalar);
+				lines.push(`${pad}${yamlKey}: [${items.join(", ")}]`);
+			} else {
+				lines.push(`${pad}${yamlKey}:`);
+				for (const item of value) {
+					if (isPlainObject(item)) {
+						const nested = serializeEntries(Object.entries(item as Record<string, YamlValue>), indent + 2);
+						if (nested.length === 0) {
+							lines.push(`${pad}  - {}`);
+							continue;
+						}
+						const [first, ...rest] = nested;
+						lines.push(`${pad}  - ${(first ?? "").trimStart()}`);
+						lines.push(...rest);
+					} else if (isScalar(item)) {
+						lines.push(`${pad}  - ${formatScalar(item)}`);
+					}
+				}
+			}
+		} else if (isPlainObject(value)) {
+			const nested = serializeEntries(Object.entries(value), indent + 1);
+			if (nested.length === 0) continue;
+			lines.push(`${pad}${yamlKey}:`);
+			lines.push(...nested);
+		}
+	}
+	return lines;
+}
+
+/**
+ * Serialize a nested config section as YAML lines. Undefined values and empty
+ * objects are dropped so optional sections disappear when cleared.
+ */
+export function serializeConfigSection(key: string, value: YamlValue): string[] {
+	return serializeEntries([[key, value]], 0);
+}
@@ -1,13 +1,36 @@
-import { mkdir, rename, unlink } from "node:fs/promises";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, mkdir, open, rename, rm, stat, unlink } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 import { DEFAULT_DIRECTORIES, DEFAULT_FILES, DEFAULT_STATUSES } from "../constants/index.ts";
-import { parseDecision, parseDocument, parseMilestone, parseTask } from "../markdown/parser.ts";
+import { numberedAssetName } from "../core/assets.ts";
+import { isCustomFieldType, isValidCustomFieldName } from "../core/custom-fields.ts";
+import { JOURNAL_LOCK_TIMEOUT_MS, JournalError, type JournalRecorder, type JournalState } from "../core/journal.ts";
+import { isNotificationEvent, isWebhookFormat, NOTIFICATION_LOG_LIMIT } from "../core/notifications.ts";
+import { isTaskQueryField } from "../core/task-query.ts";
+import { isTransitionGuard } from "../core/transitions.ts";
+import { isViewColumn, isViewGrouping, isViewSortField } from "../core/views.ts";
+import { parseDecision, parseDocument, parseMilestone, parseTask, parseTaskTemplate } from "../markdown/parser.ts";
 import { serializeDecision, serializeDocument, serializeTask } from "../markdown/serializer.ts";
-import type { BacklogConfig, Decision, Document, Milestone, Task, TaskListFilter } from "../types/index.ts";
+import type {
+	BacklogConfig,
+	CustomFieldDefinition,
+	Decision,
+	Document,
+	Milestone,
+	RecurrenceState,
+	SavedView,
+	Task,
+	TaskListFilter,
+	TaskTemplate,
+	WebhookConfig,
+	WebhookDelivery,
+} from "../types/index.ts";
 import { documentIdsEqual, normalizeDocumentId } from "../utils/document-id.ts";
-import { getTaskFilename, getTaskPath, normalizeTaskId } from "../utils/task-path.ts";
+import { getTaskFilename, getTaskPath, listTaskFiles, normalizeTaskId } from "../utils/task-path.ts";
+import { resolveTaskPrefix } from "../utils/task-prefix.ts";
 import { sortByTaskId } from "../utils/task-sorting.ts";
+import { isPlainObject, parseConfigYaml, readConfigKey, serializeConfigSection } from "./config-yaml.ts";
 
 // Interface for task path resolution context
 interface TaskPathContext {
@@ -20,6 +43,7 @@ export class FileSystem {
 	private readonly backlogDir: string;
 	private readonly projectRoot: string;
 	private cachedConfig: BacklogConfig | null = null;
+	private readonly writeRecorder = new AsyncLocalStorage<JournalRecorder>();
 
 	constructor(projectRoot: string) {
 		this.projectRoot = projectRoot;
@@ -98,6 +122,10 @@ export class FileSystem {
 		return join(this.backlogDir, DEFAULT_DIRECTORIES.MILESTONES);
 	}
 
+	get assetsDir(): string {
+		return join(this.backlogDir, DEFAULT_DIRECTORIES.ASSETS);
+	}
+
 	get configFilePath(): string {
 		return join(this.backlogDir, DEFAULT_FILES.CONFIG);
 	}
@@ -107,6 +135,11 @@ export class FileSystem {
 		return this.projectRoot;
 	}
 
+	/** Prefix new task ids get, from `task_prefix` in config.yml */
+	async getTaskPrefix(): Promise<string> {
+		return resolveTaskPrefix(await this.loadConfig());
+	}
+
 	invalidateConfigCache(): void {
 		this.cachedConfig = null;
 	}
@@ -146,6 +179,11 @@ export class FileSystem {
 		return join(backlogDir, DEFAULT_DIRECTORIES.MILESTONES);
 	}
 
+	async getTemplatesDir(): Promise<string> {
+		const backlogDir = await this.getBacklogDir();
+		return join(backlogDir, DEFAULT_DIRECTORIES.TEMPLATES);
+	}
+
 	private async getCompletedDir(): Promise<string> {
 		const backlogDir = await this.getBacklogDir();
 		return join(backlogDir, DEFAULT_DIRECTORIES.COMPLETED);
@@ -171,7 +209,7 @@ export class FileSystem {
 
 	// Task operations
 	async saveTask(task: Task): Promise<string> {
-		const taskId = normalizeTaskId(task.id);
+		const taskId = normalizeTaskId(task.id, await this.getTaskPrefix());
 		const filename = `${taskId} - ${this.sanitizeFilename(task.title)}.md`;
 		const tasksDir = await this.getTasksDir();
 		const filepath = join(tasksDir, filename);
@@ -182,6 +220,7 @@ export class FileSystem {
 			const core = { filesystem: { tasksDir } };
 			const existingPath = await getTaskPath(taskId, core as TaskPathContext);
 			if (existingPath && !existingPath.endsWith(filename)) {
+				await this.beforeWrite(existingPath);
 				await unlink(existingPath);
 			}
 		} catch {
@@ -189,6 +228,7 @@ export class FileSystem {
 		}
 
 		await this.ensureDirectoryExists(dirname(filepath));
+		await this.beforeWrite(filepath);
 		await Bun.write(filepath, content);
 		return filepath;
 	}
@@ -219,7 +259,7 @@ export class FileSystem {
 
 		let taskFiles: string[];
 		try {
-			taskFiles = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: tasksDir }));
+			taskFiles = await listTaskFiles(tasksDir, await this.getTaskPrefix());
 		} catch (_error) {
 			return [];
 		}
@@ -261,7 +301,7 @@ export class FileSystem {
 
 		let taskFiles: string[];
 		try {
-			taskFiles = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: completedDir }));
+			taskFiles = await listTaskFiles(completedDir, await this.getTaskPrefix());
 		} catch (_error) {
 			return [];
 		}
@@ -293,7 +333,7 @@ export class FileSystem {
 
 		let taskFiles: string[];
 		try {
-			taskFiles = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: archiveTasksDir }));
+			taskFiles = await listTaskFiles(archiveTasksDir, await this.getTaskPrefix());
 		} catch (_error) {
 			return [];
 		}
@@ -331,6 +371,7 @@ export class FileSystem {
 			await this.ensureDirectoryExists(dirname(targetPath));
 
 			// Use rename for proper Git move detection
+			await this.beforeWrite(sourcePath, targetPath);
 			await rename(sourcePath, targetPath);
 
 			return true;
@@ -339,6 +380,17 @@ export class FileSystem {
 		}
 	}
 
+	/** Rewrite a task that is already in the archive, keeping its file name */
+	async saveArchivedTask(task: Task): Promise<boolean> {
+		const archiveTasksDir = await this.getArchiveTasksDir();
+		const core = { filesystem: { tasksDir: archiveTasksDir } };
+		const filepath = await getTaskPath(task.id, core as TaskPathContext);
+		if (!filepath) return false;
+		await this.beforeWrite(filepath);
+		await Bun.write(filepath, serializeTask(task));
+		return true;
+	}
+
 	async completeTask(taskId: string): Promise<boolean> {
 		try {
 			const tasksDir = await this.getTasksDir();
@@ -355,6 +407,33 @@ export class FileSystem {
 			await this.ensureDirectoryExists(dirname(targetPath));
 
 			// Use rename for proper Git move detection
+			await this.beforeWrite(sourcePath, targetPath);
+			await rename(sourcePath, targetPath);
+
+			return true;
+		} catch (_error) {
+			return false;
+		}
+	}
+
+	/** Move a task from the archive or the completed folder back to tasks/ */
+	async restoreTask(taskId: string, from: "archive" | "completed"): Promise<boolean> {
+		try {
+			const sourceDir = from === "archive" ? await this.getArchiveTasksDir() : await this.getCompletedDir();
+			const tasksDir = await this.getTasksDir();
+			const core = { filesystem: { tasksDir: sourceDir } };
+			const sourcePath = await getTaskPath(taskId, core as TaskPathContext);
+			const taskFile = await getTaskFilename(taskId, core as TaskPathContext);
+
+			if (!sourcePath || !taskFile) return false;
+
+			const targetPath = join(tasksDir, taskFile);
+
+			// Ensure target directory exists
+			await this.ensureDirectoryExists(dirname(targetPath));
+
+			// Use rename for proper Git move detection
+			await this.beforeWrite(sourcePath, targetPath);
 			await rename(sourcePath, targetPath);
 
 			return true;
@@ -377,8 +456,10 @@ export class FileSystem {
 
 			const content = await Bun.file(sourcePath).text();
 			await this.ensureDirectoryExists(dirname(targetPath));
+			await this.beforeWrite(targetPath);
 			await Bun.write(targetPath, content);
 
+			await this.beforeWrite(sourcePath);
 			await unlink(sourcePath);
 
 			return true;
@@ -401,8 +482,10 @@ export class FileSystem {
 
 			const content = await Bun.file(sourcePath).text();
 			await this.ensureDirectoryExists(dirname(targetPath));
+			await this.beforeWrite(targetPath);
 			await Bun.write(targetPath, content);
 
+			await this.beforeWrite(sourcePath);
 			await unlink(sourcePath);
 
 			return true;
@@ -425,8 +508,10 @@ export class FileSystem {
 
 			const content = await Bun.file(sourcePath).text();
 			await this.ensureDirectoryExists(dirname(targetPath));
+			await this.beforeWrite(targetPath);
 			await Bun.write(targetPath, content);
 
+			await this.beforeWrite(sourcePath);
 			await unlink(sourcePath);
 
 			return true;
@@ -437,7 +522,7 @@ export class FileSystem {
 
 	// Draft operations
 	async saveDraft(task: Task): Promise<string> {
-		const taskId = normalizeTaskId(task.id);
+		const taskId = normalizeTaskId(task.id, await this.getTaskPrefix());
 		const filename = `${taskId} - ${this.sanitizeFilename(task.title)}.md`;
 		const draftsDir = await this.getDraftsDir();
 		const filepath = join(draftsDir, filename);
@@ -447,6 +532,7 @@ export class FileSystem {
 			const core = { filesystem: { tasksDir: draftsDir } };
 			const existingPath = await getTaskPath(taskId, core as TaskPathContext);
 			if (existingPath && !existingPath.endsWith(filename)) {
+				await this.beforeWrite(existingPath);
 				await unlink(existingPath);
 			}
 		} catch {
@@ -454,6 +540,7 @@ export class FileSystem {
 		}
 
 		await this.ensureDirectoryExists(dirname(filepath));
+		await this.beforeWrite(filepath);
 		await Bun.write(filepath, content);
 		return filepath;
 	}
@@ -477,7 +564,7 @@ export class FileSystem {
 	async listDrafts(): Promise<Task[]> {
 		try {
 			const draftsDir = await this.getDraftsDir();
-			const taskFiles = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: draftsDir }));
+			const taskFiles = await listTaskFiles(draftsDir, await this.getTaskPrefix());
 
 			const tasks: Task[] = [];
 			for (const file of taskFiles) {
@@ -507,6 +594,7 @@ export class FileSystem {
 			if (match === filename) continue;
 			if (!match.startsWith(`decision-${normalizedId} -`)) continue;
 			try {
+				await this.beforeWrite(join(decisionsDir, match));
 				await unlink(join(decisionsDir, match));
 			} catch {
 				// Ignore cleanup errors
@@ -514,6 +602,7 @@ export class FileSystem {
 		}
 
 		await this.ensureDirectoryExists(dirname(filepath));
+		await this.beforeWrite(filepath);
 		await Bun.write(filepath, content);
 	}
 
@@ -570,6 +659,7 @@ export class FileSystem {
 			const sourcePath = join(docsDir, sourceRelativePath);
 			try {
 				await this.ensureDirectoryExists(dirname(filepath));
+				await this.beforeWrite(sourcePath, filepath);
 				await rename(sourcePath, filepath);
 			} catch (error) {
 				const code = (error as NodeJS.ErrnoException | undefined)?.code;
@@ -585,12 +675,14 @@ export class FileSystem {
 				continue;
 			}
 			try {
+				await this.beforeWrite(matchPath);
 				await unlink(matchPath);
 			} catch {
 				// Ignore cleanup errors - file may have been removed already
 			}
 		}
 
+		await this.beforeWrite(filepath);
 		await Bun.write(filepath, content);
 
 		document.path = relativePath;
@@ -733,6 +825,7 @@ ${description || `Milestone: ${title}`}
 `;
 
 		const filepath = join(milestonesDir, filename);
+		await this.beforeWrite(filepath);
 		await Bun.write(filepath, content);
 
 		return {
@@ -743,6 +836,316 @@ ${description || `Milestone: ${title}`}
 		};
 	}
 
+	// Template operations
+	async listTemplates(): Promise<TaskTemplate[]> {
+		try {
+			const templatesDir = await this.getTemplatesDir();
+			const templateFiles = await Array.fromAsync(new Bun.Glob("*.md").scan({ cwd: templatesDir }));
+			const templates: TaskTemplate[] = [];
+			for (const file of templateFiles) {
+				if (file.toLowerCase() === "readme.md") {
+					continue;
+				}
+				const content = await Bun.file(join(templatesDir, file)).text();
+				templates.push(parseTaskTemplate(content, file.replace(/\.md$/i, "")));
+			}
+			return templates.sort((a, b) => a.name.localeCompare(b.name));
+		} catch {
+			return [];
+		}
+	}
+
+	async loadTemplate(name: string): Promise<TaskTemplate | null> {
+		const wanted = name.trim().replace(/\.md$/i, "").toLowerCase();
+		const templates = await this.listTemplates();
+		return templates.find((template) => template.name.toLowerCase() === wanted) ?? null;
+	}
+
+	async getRecurStatePath(): Promise<string> {
+		return join(await this.getTemplatesDir(), DEFAULT_FILES.RECUR_STATE);
+	}
+
+	async loadRecurState(): Promise<Record<string, RecurrenceState>> {
+		const filepath = await this.getRecurStatePath();
+		const file = Bun.file(filepath);
+		if (!(await file.exists())) {
+			return {};
+		}
+		try {
+			const parsed = JSON.parse(await file.text()) as { templates?: Record<string, RecurrenceState> };
+			return parsed.templates ?? {};
+		} catch (error) {
+			// A damaged state file only loses which runs were created; the next save rewrites it
+			console.warn(
+				`Warning: ignoring unreadable ${filepath} (${error instanceof Error ? error.message : String(error)}); recurring templates start over`,
+			);
+			return {};
+		}
+	}
+
+	async saveRecurState(state: Record<string, RecurrenceState>): Promise<string> {
+		const filepath = await this.getRecurStatePath();
+		await this.ensureDirectoryExists(dirname(filepath));
+		await this.beforeWrite(filepath);
+		await Bun.write(filepath, `${JSON.stringify({ templates: state }, null, 2)}\n`);
+		return filepath;
+	}
+
+	// Saved view operations
+	async getViewsPath(): Promise<string> {
+		return join(await this.getBacklogDir(), DEFAULT_FILES.VIEWS);
+	}
+
+	async listViews(): Promise<SavedView[]> {
+		const file = Bun.file(await this.getViewsPath());
+		if (!(await file.exists())) {
+			return [];
+		}
+		const raw = parseConfigYaml(await file.text()).views;
+		if (!isPlainObject(raw)) {
+			return [];
+		}
+		const views: SavedView[] = [];
+		for (const [name, entry] of Object.entries(raw)) {
+			if (!isPlainObject(entry)) continue;
+			const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+			const sort = text(entry.sort)?.toLowerCase();
+			const groupBy = text(readConfigKey(entry, "group_by", "groupBy"))?.toLowerCase();
+			const columns = Array.isArray(entry.columns)
+				? entry.columns.map((column) => String(column).trim().toLowerCase()).filter(isViewColumn)
+				: undefined;
+			const description = text(entry.description);
+			const query = text(entry.query);
+			views.push({
+				name,
+				...(description && { description }),
+				...(query && { query }),
+				// Anything else that looks like a field name sorts by that custom field
+				...(sort && (isViewSortField(sort) || isValidCustomFieldName(sort)) && { sort }),
+				...(groupBy && isViewGrouping(groupBy) && { groupBy }),
+				...(columns && columns.length > 0 && { columns }),
+			});
+		}
+		return views.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	async loadView(name: string): Promise<SavedView | null> {
+		const wanted = name.trim().toLowerCase();
+		const views = await this.listViews();
+		return views.find((view) => view.name.toLowerCase() === wanted) ?? null;
+	}
+
+	/**
+	 * Add or replace a view (matched case-insensitively by name)
+	 */
+	async saveView(view: SavedView): Promise<string> {
+		const views = (await this.listViews()).filter(
+			(existing) => existing.name.toLowerCase() !== view.name.toLowerCase(),
+		);
+		return await this.writeViews([...views, view]);
+	}
+
+	async deleteView(name: string): Promise<boolean> {
+		const views = await this.listViews();
+		const remaining = views.filter((view) => view.name.toLowerCase() !== name.trim().toLowerCase());
+		if (remaining.length === views.length) {
+			return false;
+		}
+		await this.writeViews(remaining);
+		return true;
+	}
+
+	private async writeViews(views: SavedView[]): Promise<string> {
+		const filepath = await this.getViewsPath();
+		const sorted = [...views].sort((a, b) => a.name.localeCompare(b.name));
+		const lines = serializeConfigSection(
+			"views",
+			Object.fromEntries(
+				sorted.map((view) => [
+					view.name,
+					{
+						description: view.description,
+						query: view.query,
+						sort: view.sort,
+						group_by: view.groupBy,
+						columns: view.columns,
+					},
+				]),
+			),
+		);
+		await this.ensureDirectoryExists(dirname(filepath));
+		await this.beforeWrite(filepath);
+		await Bun.write(filepath, lines.length > 0 ? `${lines.join("\n")}\n` : "views: {}\n");
+		return filepath;
+	}
+
+	/**
+	 * Store a file under backlog/assets at `path` (relative to it). An existing
+	 * file with other content is kept and the new one gets a numbered name.
+	 * Returns the path actually used.
+	 */
+	async saveAsset(path: string, data: Uint8Array): Promise<string> {
+		const directory = dirname(path) === "." ? "" : dirname(path);
+		const name = directory ? path.slice(directory.length + 1) : path;
+		for (let attempt = 0; ; attempt++) {
+			const numbered = numberedAssetName(name, attempt);
+			const candidate = directory ? `${directory}/${numbered}` : numbered;
+			const target = join(this.assetsDir, candidate);
+			const file = Bun.file(target);
+			if (await file.exists()) {
+				// Attaching the same file twice reuses it
+				if (Buffer.from(await file.arrayBuffer()).equals(data)) return candidate;
+				continue;
+			}
+			await mkdir(dirname(target), { recursive: true });
+			await this.beforeWrite(target);
+			await Bun.write(target, data);
+			return candidate;
+		}
+	}
+
+	/** Every file under backlog/assets, relative to it */
+	async listAssets(): Promise<string[]> {
+		const assets: string[] = [];
+		try {
+			for await (const file of new Bun.Glob("**/*").scan({ cwd: this.assetsDir, onlyFiles: true })) {
+				assets.push(file.replace(/\\/g, "/"));
+			}
+		} catch {
+			// No assets directory yet
+		}
+		return assets.sort();
+	}
+
+	async deleteAsset(path: string): Promise<void> {
+		await this.beforeWrite(join(this.assetsDir, path));
+		await unlink(join(this.assetsDir, path));
+	}
+
+	/**
+	 * Inside `.git` when the project has one, so local state files such as the
+	 * journal and the webhook delivery log never show up as untracked files
+	 */
+	private async getLocalStatePath(filename: string): Promise<string> {
+		const gitDir = join(this.projectRoot, ".git");
+		try {
+			if ((await stat(gitDir)).isDirectory()) {
+				return join(gitDir, filename);
+			}
+		} catch {
+			// Not a git repository
+		}
+		return join(this.projectRoot, filename);
+	}
+
+	async getJournalPath(): Promise<string> {
+		return await this.getLocalStatePath(DEFAULT_FILES.JOURNAL);
+	}
+
+	/**
+	 * Run `write` with every backlog file it writes, moves or deletes reported to
+	 * `recorder` first, so the operation can be journaled
+	 */
+	async recordWrites<T>(recorder: JournalRecorder, write: () => Promise<T>): Promise<T> {
+		return await this.writeRecorder.run(recorder, write);
+	}
+
+	/** Tell the operation being recorded, if any, that these files are about to change */
+	async beforeWrite(...paths: string[]): Promise<void> {
+		const recorder = this.writeRecorder.getStore();
+		if (!recorder) return;
+		for (const path of paths) {
+			await recorder.capture(path);
+		}
+	}
+
+	/**
+	 * Hold a lock file next to the journal while `update` reads and writes it,
+	 * so CLI, server and MCP processes do not overwrite each other's entries. A
+	 * lock older than the timeout is left over from a crashed process and taken.
+	 */
+	async withJournalLock<T>(update: () => Promise<T>): Promise<T> {
+		const lockPath = `${await this.getJournalPath()}.lock`;
+		const deadline = Date.now() + JOURNAL_LOCK_TIMEOUT_MS;
+		for (;;) {
+			try {
+				await (await open(lockPath, "wx")).close();
+				break;
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+				const lockedAt = (await stat(lockPath).catch(() => null))?.mtimeMs ?? Date.now();
+				if (Date.now() - lockedAt > JOURNAL_LOCK_TIMEOUT_MS) {
+					await rm(lockPath, { force: true });
+				} else if (Date.now() > deadline) {
+					throw new JournalError("The undo journal is in use by another backlog process, try again");
+				} else {
+					await Bun.sleep(20);
+				}
+			}
+		}
+		try {
+			return await update();
+		} finally {
+			await rm(lockPath, { force: true });
+		}
+	}
+
+	async readJournal(): Promise<JournalState> {
+		const file = Bun.file(await this.getJournalPath());
+		if (!(await file.exists())) {
+			return { undo: [], redo: [] };
+		}
+		try {
+			const parsed = JSON.parse(await file.text()) as Partial<JournalState>;
+			return { undo: parsed.undo ?? [], redo: parsed.redo ?? [] };
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new JournalError(`The undo journal ${file.name} is damaged (${message}); move it aside to start a new one`);
+		}
+	}
+
+	async writeJournal(state: JournalState): Promise<void> {
+		await Bun.write(await this.getJournalPath(), JSON.stringify(state));
+	}
+
+	async getNotificationLogPath(): Promise<string> {
+		return await this.getLocalStatePath(DEFAULT_FILES.NOTIFICATION_LOG);
+	}
+
+	/**
+	 * Add deliveries to the log, dropping the oldest beyond NOTIFICATION_LOG_LIMIT
+	 */
+	async appendNotificationLog(deliveries: WebhookDelivery[]): Promise<void> {
+		if (deliveries.length === 0) return;
+		const path = await this.getNotificationLogPath();
+		const lines = deliveries.map((delivery) => `${JSON.stringify(delivery)}\n`).join("");
+		await appendFile(path, lines);
+		const entries = (await Bun.file(path).text()).split("\n").filter((line) => line.trim());
+		if (entries.length > NOTIFICATION_LOG_LIMIT) {
+			await Bun.write(path, `${entries.slice(-NOTIFICATION_LOG_LIMIT).join("\n")}\n`);
+		}
+	}
+
+	/**
+	 * Most recent webhook deliveries, oldest first
+	 */
+	async readNotificationLog(limit = 20): Promise<WebhookDelivery[]> {
+		const file = Bun.file(await this.getNotificationLogPath());
+		if (!(await file.exists())) {
+			return [];
+		}
+		const entries: WebhookDelivery[] = [];
+		for (const line of (await file.text()).split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				entries.push(JSON.parse(line) as WebhookDelivery);
+			} catch {
+				// Skip a partially written line
+			}
+		}
+		return limit > 0 ? entries.slice(-limit) : entries;
+	}
+
 	// Config operations
 	async loadConfig(): Promise<BacklogConfig | null> {
 		// Return cached config if available
@@ -777,6 +1180,7 @@ ${description || `Milestone: ${title}`}
 		const backlogDir = await this.getBacklogDir();
 		const configPath = join(backlogDir, DEFAULT_FILES.CONFIG);
 		const content = this.serializeConfig(config);
+		await this.beforeWrite(configPath);
 		await Bun.write(configPath, content);
 		this.cachedConfig = config;
 	}
@@ -873,6 +1277,8 @@ ${description || `Milestone: ${title}`}
 		for (const line of lines) {
 			const trimmed = line.trim();
 			if (!trimmed || trimmed.startsWith("#")) continue;
+			// Indented lines belong to nested sections handled below
+			if (/^\s/.test(line)) continue;
 
 			const colonIndex = trimmed.indexOf(":");
 			if (colonIndex === -1) continue;
@@ -937,6 +1343,15 @@ ${description || `Milestone: ${title}`}
 				case "active_branch_days":
 					config.activeBranchDays = Number.parseInt(value, 10);
 					break;
+				case "auto_complete_parents":
+					config.autoCompleteParents = value.toLowerCase() === "true";
+					break;
+				case "task_prefix":
+					config.taskPrefix = value.replace(/['"]/g, "");
+					break;
+				case "timezone_preference":
+					config.timezonePreference = value.replace(/['"]/g, "");
+					break;
 				case "onStatusChange":
 				case "on_status_change":
 					// Remove surrounding quotes if present, but preserve inner content
@@ -945,6 +1360,15 @@ ${description || `Milestone: ${title}`}
 			}
 		}
 
+		const structured = parseConfigYaml(content);
+		const mcp = this.parseMcpConfig(structured.mcp);
+		const transitions = this.parseTransitionsConfig(structured.transitions);
+		const wipLimits = this.parseWipLimitsConfig(readConfigKey(structured, "wip_limits", "wipLimits"));
+		const notifications = this.parseNotificationsConfig(structured.notifications);
+		const customFields = this.parseCustomFieldsConfig(readConfigKey(structured, "custom_fields", "customFields"));
+
+		// Ids are parsed and matched with the project's prefix from here on
+
 		return {
 			projectName: config.projectName || "",
 			defaultAssignee: config.defaultAssignee,
@@ -964,10 +1388,272 @@ ${description || `Milestone: ${title}`}
 			bypassGitHooks: config.bypassGitHooks,
 			checkActiveBranches: config.checkActiveBranches,
 			activeBranchDays: config.activeBranchDays,
+			...(typeof config.autoCompleteParents === "boolean" && { autoCompleteParents: config.autoCompleteParents }),
+			...(config.taskPrefix && { taskPrefix: config.taskPrefix }),
+			...(config.timezonePreference && { timezonePreference: config.timezonePreference }),
 			onStatusChange: config.onStatusChange,
+			...(transitions && { transitions }),
+			...(wipLimits && { wipLimits }),
+			...(notifications && { notifications }),
+			...(customFields && { customFields }),
+			...(mcp && { mcp }),
 		};
 	}
 
+	private parseMcpConfig(raw: unknown): BacklogConfig["mcp"] | undefined {
+		if (!isPlainObject(raw) || !isPlainObject(raw.http)) {
+			return undefined;
+		}
+		const http = raw.http;
+		const toStringList = (value: unknown): string[] | undefined => {
+			if (Array.isArray(value)) return value.map(String).filter(Boolean);
+			if (typeof value === "string" && value.trim()) return [value.trim()];
+			return undefined;
+		};
+
+		const result: NonNullable<BacklogConfig["mcp"]>["http"] = {};
+		if (typeof http.host === "string") result.host = http.host;
+		if (http.port !== undefined) {
+			const port = Number.parseInt(String(http.port), 10);
+			if (!Number.isNaN(port)) result.port = port;
+		}
+		if (isPlainObject(http.auth)) {
+			const type = String(http.auth.type ?? "none").toLowerCase();
+			result.auth = {
+				type: type === "bearer" || type === "basic" ? type : "none",
+				...(http.auth.token !== undefined && { token: String(http.auth.token) }),
+				...(http.auth.username !== undefined && { username: String(http.auth.username) }),
+				...(http.auth.password !== undefined && { password: String(http.auth.password) }),
+			};
+		}
+		if (isPlainObject(http.cors)) {
+			const origin = http.cors.origin;
+			result.cors = {
+				...(origin !== undefined && { origin: Array.isArray(origin) ? origin.map(String) : String(origin) }),
+				...(http.cors.credentials !== undefined && { credentials: http.cors.credentials === true }),
+			};
+		}
+		const dnsProtection = readConfigKey(http, "enable_dns_rebinding_protection", "enableDnsRebindingProtection");
+		if (dnsProtection !== undefined) result.enableDnsRebindingProtection = dnsProtection === true;
+		const allowedHosts = toStringList(readConfigKey(http, "allowed_hosts", "allowedHosts"));
+		if (allowedHosts) result.allowedHosts = allowedHosts;
+		const allowedOrigins = toStringList(readConfigKey(http, "allowed_origins", "allowedOrigins"));
+		if (allowedOrigins) result.allowedOrigins = allowedOrigins;
+
+		return { http: result };
+	}
+
+	private parseTransitionsConfig(raw: unknown): BacklogConfig["transitions"] | undefined {
+		if (!isPlainObject(raw)) {
+			return undefined;
+		}
+		const toStringList = (value: unknown): string[] | undefined => {
+			if (Array.isArray(value)) return value.map((item) => String(item).trim()).filter(Boolean);
+			if (typeof value === "string" && value.trim()) return [value.trim()];
+			return undefined;
+		};
+
+		const result: NonNullable<BacklogConfig["transitions"]> = {};
+		for (const [status, rule] of Object.entries(raw)) {
+			// Shorthand: `In Progress: [Done, To Do]` lists the allowed next statuses
+			if (!isPlainObject(rule)) {
+				const to = toStringList(rule);
+				if (to || rule === null) result[status] = { to: to ?? [] };
+				continue;
+			}
+			const to = toStringList(rule.to);
+			const requires = toStringList(rule.requires)?.filter(isTransitionGuard);
+			result[status] = {
+				...(to && { to }),
+				...(requires && requires.length > 0 && { requires }),
+			};
+		}
+		return Object.keys(result).length > 0 ? result : undefined;
+	}
+
+	private serializeTransitionsConfig(config: BacklogConfig): string[] {
+		if (!config.transitions) return [];
+		return serializeConfigSection(
+			"transitions",
+			Object.fromEntries(
+				Object.entries(config.transitions).map(([status, rule]) => [status, { to: rule.to, requires: rule.requires }]),
+			),
+		);
+	}
+
+	private parseWipLimitsConfig(raw: unknown): BacklogConfig["wipLimits"] | undefined {
+		if (!isPlainObject(raw) || !isPlainObject(raw.statuses)) {
+			return undefined;
+		}
+		const toLimit = (value: unknown): number | undefined => {
+			const parsed = Number.parseInt(String(value), 10);
+			return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+		};
+
+		const statuses: NonNullable<BacklogConfig["wipLimits"]>["statuses"] = {};
+		for (const [status, value] of Object.entries(raw.statuses)) {
+			// Shorthand: `In Progress: 3`
+			if (!isPlainObject(value)) {
+				const limit = toLimit(value);
+				if (limit !== undefined) statuses[status] = { limit };
+				continue;
+			}
+			const limit = toLimit(value.limit);
+			const perAssignee = toLimit(readConfigKey(value, "per_assignee", "perAssignee"));
+			if (limit === undefined && perAssignee === undefined) continue;
+			statuses[status] = {
+				...(limit !== undefined && { limit }),
+				...(perAssignee !== undefined && { perAssignee }),
+			};
+		}
+		if (Object.keys(statuses).length === 0) return undefined;
+		return { ...(raw.strict !== undefined && { strict: raw.strict === true }), statuses };
+	}
+
+	private serializeWipLimitsConfig(config: BacklogConfig): string[] {
+		if (!config.wipLimits) return [];
+		return serializeConfigSection("wip_limits", {
+			strict: config.wipLimits.strict,
+			statuses: Object.fromEntries(
+				Object.entries(config.wipLimits.statuses).map(([status, limit]) => [
+					status,
+					limit.perAssignee === undefined ? limit.limit : { limit: limit.limit, per_assignee: limit.perAssignee },
+				]),
+			),
+		});
+	}
+
+	private parseNotificationsConfig(raw: unknown): BacklogConfig["notifications"] | undefined {
+		if (!isPlainObject(raw) || !Array.isArray(raw.webhooks)) {
+			return undefined;
+		}
+		const toCount = (value: unknown): number | undefined => {
+			const parsed = Number.parseInt(String(value), 10);
+			return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+		};
+
+		const webhooks: WebhookConfig[] = [];
+		for (const entry of raw.webhooks) {
+			// Shorthand: a bare URL posts every event as JSON
+			const hook = typeof entry === "string" ? { url: entry } : entry;
+			if (!isPlainObject(hook) || typeof hook.url !== "string" || !hook.url.trim()) continue;
+			const format = typeof hook.format === "string" ? hook.format.trim().toLowerCase() : undefined;
+			const events = Array.isArray(hook.events)
+				? hook.events.map((event) => String(event).trim()).filter(isNotificationEvent)
+				: undefined;
+			const headers = isPlainObject(hook.headers)
+				? Object.fromEntries(Object.entries(hook.headers).map(([name, value]) => [name, String(value)]))
+				: undefined;
+			webhooks.push({
+				url: hook.url.trim(),
+				...(format && isWebhookFormat(format) && { format }),
+				...(events && events.length > 0 && { events }),
+				...(headers && Object.keys(headers).length > 0 && { headers }),
+			});
+		}
+		if (webhooks.length === 0) return undefined;
+
+		const retries = toCount(raw.retries);
+		const retryDelayMs = toCount(readConfigKey(raw, "retry_delay_ms", "retryDelayMs"));
+		const timeoutMs = toCount(readConfigKey(raw, "timeout_ms", "timeoutMs"));
+		return {
+			webhooks,
+			...(retries !== undefined && { retries }),
+			...(retryDelayMs !== undefined && { retryDelayMs }),
+			...(timeoutMs !== undefined && { timeoutMs }),
+		};
+	}
+
+	private parseCustomFieldsConfig(raw: unknown): BacklogConfig["customFields"] | undefined {
+		if (!isPlainObject(raw)) {
+			return undefined;
+		}
+		const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+		const fields: CustomFieldDefinition[] = [];
+		for (const [name, value] of Object.entries(raw)) {
+			// Shorthand: `customer: string`
+			const entry = isPlainObject(value) ? value : { type: value };
+			const type = text(entry.type)?.toLowerCase() ?? "string";
+			// Names of built-in query fields would make the field impossible to filter on
+			if (!isValidCustomFieldName(name) || isTaskQueryField(name) || !isCustomFieldType(type)) continue;
+			const options = Array.isArray(entry.options)
+				? entry.options.map((option) => String(option).trim()).filter(Boolean)
+				: undefined;
+			if (type === "enum" && (!options || options.length === 0)) continue;
+			const label = text(entry.label);
+			const description = text(entry.description);
+			fields.push({
+				name,
+				type,
+				...(label && { label }),
+				...(description && { description }),
+				...(type === "enum" && { options }),
+				...(entry.required === true && { required: true }),
+			});
+		}
+		return fields.length > 0 ? fields : undefined;
+	}
+
+	private serializeCustomFieldsConfig(config: BacklogConfig): string[] {
+		if (!config.customFields?.length) return [];
+		return serializeConfigSection(
+			"custom_fields",
+			Object.fromEntries(
+				config.customFields.map((field) => [
+					field.name,
+					{
+						type: field.type,
+						label: field.label,
+						description: field.description,
+						options: field.options,
+						required: field.required || undefined,
+					},
+				]),
+			),
+		);
+	}
+
+	private serializeNotificationsConfig(config: BacklogConfig): string[] {
+		if (!config.notifications) return [];
+		const { webhooks, retries, retryDelayMs, timeoutMs } = config.notifications;
+		return serializeConfigSection("notifications", {
+			retries,
+			retry_delay_ms: retryDelayMs,
+			timeout_ms: timeoutMs,
+			webhooks: webhooks.map((webhook) => ({
+				url: webhook.url,
+				format: webhook.format,
+				events: webhook.events,
+				headers: webhook.headers,
+			})),
+		});
+	}
+
+	private serializeMcpConfig(config: BacklogConfig): string[] {
+		const http = config.mcp?.http;
+		if (!http) return [];
+		return serializeConfigSection("mcp", {
+			http: {
+				host: http.host,
+				port: http.port,
+				auth: http.auth && {
+					type: http.auth.type,
+					token: http.auth.token,
+					username: http.auth.username,
+					password: http.auth.password,
+				},
+				cors: http.cors && {
+					origin: http.cors.origin,
+					credentials: http.cors.credentials,
+				},
+				enable_dns_rebinding_protection: http.enableDnsRebindingProtection,
+				allowed_hosts: http.allowedHosts,
+				allowed_origins: http.allowedOrigins,
+			},
+		});
+	}
+
 	private serializeConfig(config: BacklogConfig): string {
 		const lines = [
 			`project_name: "${config.projectName}"`,
@@ -990,7 +1676,17 @@ ${description || `Milestone: ${title}`}
 				? [`check_active_branches: ${config.checkActiveBranches}`]
 				: []),
 			...(typeof config.activeBranchDays === "number" ? [`active_branch_days: ${config.activeBranchDays}`] : []),
+			...(typeof config.autoCompleteParents === "boolean"
+				? [`auto_complete_parents: ${config.autoCompleteParents}`]
+				: []),
+			...(config.taskPrefix ? [`task_prefix: "${config.taskPrefix}"`] : []),
+			...(config.timezonePreference ? [`timezone_preference: "${config.timezonePreference}"`] : []),
 			...(config.onStatusChange ? [`onStatusChange: '${config.onStatusChange}'`] : []),
+			...this.serializeTransitionsConfig(config),
+			...this.serializeWipLimitsConfig(config),
+			...this.serializeNotificationsConfig(config),
+			...this.serializeCustomFieldsConfig(config),
+			...this.serializeMcpConfig(config),
 		];
 
 		return `${lines.join("\n")}\n`;
@@ -0,0 +1,74 @@
+import type { FlowGroupStatistics, FlowStatistics, PercentileSummary } from "../core/cycle-time.ts";
+
+export type FlowGrouping = "label" | "assignee" | "priority";
+
+export const FLOW_GROUPINGS: FlowGrouping[] = ["label", "assignee", "priority"];
+
+export function formatDays(value: number | null): string {
+	return value === null ? "-" : `${value}d`;
+}
+
+/**
+ * One-line percentile summary, e.g. "p50 2d · p85 5.5d · p95 9d (avg 3.1d, 12 tasks)"
+ */
+export function formatPercentileSummary(summary: PercentileSummary): string {
+	if (summary.count === 0) return "no data";
+	const plural = summary.count === 1 ? "task" : "tasks";
+	return `p50 ${formatDays(summary.p50)} · p85 ${formatDays(summary.p85)} · p95 ${formatDays(summary.p95)} (avg ${formatDays(summary.average)}, ${summary.count} ${plural})`;
+}
+
+function formatGroupTable(title: string, groups: FlowGroupStatistics[]): string[] {
+	const header = ["", "Tasks", "Lead p50", "p85", "p95", "Cycle p50", "p85", "p95"];
+	const rows = groups.map((group) => [
+		group.key,
+		String(group.leadTime.count),
+		formatDays(group.leadTime.p50),
+		formatDays(group.leadTime.p85),
+		formatDays(group.leadTime.p95),
+		formatDays(group.cycleTime.p50),
+		formatDays(group.cycleTime.p85),
+		formatDays(group.cycleTime.p95),
+	]);
+	const widths = header.map((cell, index) => Math.max(cell.length, ...rows.map((row) => row[index]?.length ?? 0)));
+	const formatRow = (row: string[]) =>
+		`  ${row.map((cell, index) => (index === 0 ? cell.padEnd(widths[index] ?? 0) : cell.padStart(widths[index] ?? 0))).join("  ")}`.trimEnd();
+
+	return [`By ${title}:`, formatRow(header), ...rows.map(formatRow)];
+}
+
+/**
+ * Plain-text lead and cycle time report shared by `backlog stats` and MCP
+ */
+export function formatFlowStatisticsPlainText(
+	stats: FlowStatistics,
+	options: { groupings?: FlowGrouping[]; since?: string } = {},
+): string {
+	const lines: string[] = ["Lead and cycle time (in days)"];
+	if (options.since) {
+		lines.push(`Completed since: ${options.since}`);
+	}
+	lines.push("");
+
+	if (stats.tasks.length === 0) {
+		lines.push("No done tasks found.");
+		return lines.join("\n");
+	}
+
+	lines.push(`Lead time (created → done):      ${formatPercentileSummary(stats.leadTime)}`);
+	lines.push(`Cycle time (in progress → done): ${formatPercentileSummary(stats.cycleTime)}`);
+	const withoutStart = stats.tasks.length - stats.cycleTime.count;
+	if (withoutStart > 0) {
+		lines.push(`  ${withoutStart} done task(s) have no recorded start and are left out of cycle time`);
+	}
+
+	const groups: Record<FlowGrouping, FlowGroupStatistics[]> = {
+		label: stats.byLabel,
+		assignee: stats.byAssignee,
+		priority: stats.byPriority,
+	};
+	for (const grouping of options.groupings ?? FLOW_GROUPINGS) {
+		lines.push("", ...formatGroupTable(grouping, groups[grouping]));
+	}
+
+	return lines.join("\n");
+}
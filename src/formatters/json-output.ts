@@ -0,0 +1,308 @@
+import { buildKanbanStatusGroups } from "../board.ts";
+import type { CriticalPathReport, ScheduledTask } from "../core/critical-path.ts";
+import { redactWebhookUrl } from "../core/notifications.ts";
+import { buildRelationIndex } from "../core/relations.ts";
+import { getTaskEffort } from "../core/time-tracking.ts";
+import { getColumnWipState, getWipLimit } from "../core/wip-limits.ts";
+import type {
+	AcceptanceCriterion,
+	BacklogConfig,
+	CustomFieldValue,
+	Decision,
+	Document,
+	EffortSummary,
+	SearchResult,
+	Sequence,
+	Task,
+	TaskComment,
+	TaskRelation,
+	TaskWorklogEntry,
+	WipLimitsConfig,
+} from "../types/index.ts";
+
+/**
+ * Version of the `--json` and `--ndjson` output. Bumped when a field is
+ * renamed, removed or changes meaning; new fields are added without a bump.
+ */
+export const JSON_OUTPUT_VERSION = 1;
+
+export type JsonOutputKind =
+	| "task"
+	| "tasks"
+	| "draft"
+	| "drafts"
+	| "search-result"
+	| "search-results"
+	| "document"
+	| "documents"
+	| "board"
+	| "sequences"
+	| "critical-path"
+	| "config";
+
+/** Every JSON document and NDJSON line has this shape */
+export interface JsonEnvelope<T> {
+	version: number;
+	kind: JsonOutputKind;
+	data: T;
+}
+
+/** A task or draft. Absent values are null so every key is always present. */
+export interface TaskJson {
+	id: string;
+	title: string;
+	status: string;
+	priority: "high" | "medium" | "low" | null;
+	assignee: string[];
+	reporter: string | null;
+	labels: string[];
+	milestone: string | null;
+	parentTaskId: string | null;
+	subtasks: string[];
+	dependencies: string[];
+	createdDate: string;
+	updatedDate: string | null;
+	startDate: string | null;
+	dueDate: string | null;
+	description: string | null;
+	acceptanceCriteria: AcceptanceCriterion[];
+	implementationPlan: string | null;
+	implementationNotes: string | null;
+	estimate: string | null;
+	remaining: string | null;
+	worklog: TaskWorklogEntry[];
+	effort: EffortSummary;
+	customFields: Record<string, CustomFieldValue>;
+	comments: TaskComment[];
+	/** Paths under backlog/assets */
+	attachments: string[];
+	/** Relations stored on the task; `task view` adds the inverses computed from other tasks */
+	relations: TaskRelation[];
+	filePath: string | null;
+}
+
+export interface DocumentJson {
+	id: string;
+	title: string;
+	type: Document["type"];
+	createdDate: string;
+	updatedDate: string | null;
+	tags: string[];
+	path: string | null;
+}
+
+export interface DecisionJson {
+	id: string;
+	title: string;
+	date: string;
+	status: Decision["status"];
+}
+
+/** Search hit; `score` runs from 0 to 1 with higher meaning a closer match */
+export type SearchResultJson =
+	| { type: "task"; score: number | null; task: TaskJson }
+	| { type: "document"; score: number | null; document: DocumentJson }
+	| { type: "decision"; score: number | null; decision: DecisionJson };
+
+export interface BoardColumnJson {
+	status: string;
+	count: number;
+	/** WIP limit for the column, when configured */
+	limit: number | null;
+	perAssignee: number | null;
+	overLimit: boolean;
+	tasks: TaskJson[];
+}
+
+export interface BoardJson {
+	columns: BoardColumnJson[];
+}
+
+export interface SequencesJson {
+	/** Tasks without dependencies that nothing depends on */
+	unsequenced: TaskJson[];
+	sequences: Array<{ index: number; tasks: TaskJson[] }>;
+}
+
+/** Times are minutes from the start of the work, assuming unlimited people */
+export interface ScheduledTaskJson {
+	task: TaskJson;
+	minutes: number;
+	estimated: boolean;
+	earliestStart: number;
+	earliestFinish: number;
+	latestStart: number;
+	latestFinish: number;
+	slack: number;
+	critical: boolean;
+}
+
+export interface CriticalPathJson {
+	totalMinutes: number;
+	/** Task ids along the critical path, in execution order */
+	path: string[];
+	tasks: ScheduledTaskJson[];
+	cycles: string[][];
+	blockedByCycle: string[];
+	danglingDependencies: Array<{ taskId: string; dependency: string }>;
+}
+
+export function serializeTask(task: Task): TaskJson {
+	return {
+		id: task.id,
+		title: task.title,
+		status: task.status ?? "",
+		priority: task.priority ?? null,
+		assignee: task.assignee ?? [],
+		reporter: task.reporter ?? null,
+		labels: task.labels ?? [],
+		milestone: task.milestone ?? null,
+		parentTaskId: task.parentTaskId ?? null,
+		subtasks: task.subtasks ?? [],
+		dependencies: task.dependencies ?? [],
+		createdDate: task.createdDate,
+		updatedDate: task.updatedDate ?? null,
+		startDate: task.startDate ?? null,
+		dueDate: task.dueDate ?? null,
+		description: task.description ?? null,
+		acceptanceCriteria: (task.acceptanceCriteriaItems ?? []).map(({ index, text, checked }) => ({
+			index,
+			text,
+			checked,
+		})),
+		implementationPlan: task.implementationPlan ?? null,
+		implementationNotes: task.implementationNotes ?? null,
+		estimate: task.estimate ?? null,
+		remaining: task.remaining ?? null,
+		worklog: task.worklog ?? [],
+		effort: getTaskEffort(task),
+		customFields: task.customFields ?? {},
+		comments: task.comments ?? [],
+		attachments: task.attachments ?? [],
+		relations: buildRelationIndex([task]).get(task.id) ?? [],
+		filePath: task.filePath ?? null,
+	};
+}
+
+export function serializeDocument(document: Document): DocumentJson {
+	return {
+		id: document.id,
+		title: document.title,
+		type: document.type,
+		createdDate: document.createdDate,
+		updatedDate: document.updatedDate ?? null,
+		tags: document.tags ?? [],
+		path: document.path ?? null,
+	};
+}
+
+export function serializeDecision(decision: Decision): DecisionJson {
+	return { id: decision.id, title: decision.title, date: decision.date, status: decision.status };
+}
+
+export function serializeSearchResult(result: SearchResult): SearchResultJson {
+	// The search index scores 0 as a perfect match; invert it like the plain output does
+	const score = result.score === null || result.score === undefined ? null : Number((1 - result.score).toFixed(3));
+	switch (result.type) {
+		case "task":
+			return { type: "task", score, task: serializeTask(result.task) };
+		case "document":
+			return { type: "document", score, document: serializeDocument(result.document) };
+		case "decision":
+			return { type: "decision", score, decision: serializeDecision(result.decision) };
+	}
+}
+
+/**
+ * Board columns in configured status order, with their WIP load
+ */
+export function serializeBoard(tasks: Task[], statuses: string[], wipLimits?: WipLimitsConfig): BoardJson {
+	const { orderedStatuses, groupedTasks } = buildKanbanStatusGroups(tasks, statuses);
+	return {
+		columns: orderedStatuses.map((status) => {
+			const columnTasks = groupedTasks.get(status) ?? [];
+			const state = getColumnWipState(columnTasks, getWipLimit(wipLimits, status));
+			return {
+				status,
+				count: state.count,
+				limit: state.limit ?? null,
+				perAssignee: state.perAssignee ?? null,
+				overLimit: state.overLimit,
+				tasks: columnTasks.map(serializeTask),
+			};
+		}),
+	};
+}
+
+export function serializeSequences(result: { unsequenced: Task[]; sequences: Sequence[] }): SequencesJson {
+	return {
+		unsequenced: result.unsequenced.map(serializeTask),
+		sequences: result.sequences.map((sequence) => ({
+			index: sequence.index,
+			tasks: sequence.tasks.map(serializeTask),
+		})),
+	};
+}
+
+export function serializeCriticalPath(report: CriticalPathReport): CriticalPathJson {
+	const critical = new Set(report.path.map((entry) => entry.task.id));
+	const serializeEntry = (entry: ScheduledTask): ScheduledTaskJson => ({
+		task: serializeTask(entry.task),
+		minutes: entry.minutes,
+		estimated: entry.estimated,
+		earliestStart: entry.earliestStart,
+		earliestFinish: entry.earliestFinish,
+		latestStart: entry.latestStart,
+		latestFinish: entry.latestFinish,
+		slack: entry.slack,
+		critical: critical.has(entry.task.id),
+	});
+	return {
+		totalMinutes: report.totalMinutes,
+		path: report.path.map((entry) => entry.task.id),
+		tasks: report.tasks.map(serializeEntry),
+		cycles: report.cycles,
+		blockedByCycle: report.blockedByCycle,
+		danglingDependencies: report.danglingDependencies,
+	};
+}
+
+/**
+ * Configuration as loaded from config.yml. Webhook URLs are redacted and
+ * webhook headers and MCP settings left out, so the output is safe to log.
+ */
+export function serializeConfig(config: BacklogConfig): Record<string, unknown> {
+	const { mcp: _mcp, notifications, ...rest } = config;
+	return {
+		...rest,
+		...(notifications && {
+			notifications: {
+				...notifications,
+				webhooks: notifications.webhooks.map(({ headers: _headers, ...webhook }) => ({
+					...webhook,
+					url: redactWebhookUrl(webhook.url),
+				})),
+			},
+		}),
+	};
+}
+
+/**
+ * A single pretty-printed JSON document
+ */
+export function formatJsonOutput<T>(kind: JsonOutputKind, data: T): string {
+	const envelope: JsonEnvelope<T> = { version: JSON_OUTPUT_VERSION, kind, data };
+	return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * One compact JSON document per item and line. Empty lists produce no lines.
+ */
+export function formatNdjsonOutput<T>(kind: JsonOutputKind, items: T[]): string {
+	return items
+		.map((data) => {
+			const envelope: JsonEnvelope<T> = { version: JSON_OUTPUT_VERSION, kind, data };
+			return JSON.stringify(envelope);
+		})
+		.join("\n");
+}
@@ -1,10 +1,19 @@
-import type { Task } from "../types/index.ts";
+import { formatCommentThreads } from "../core/comments.ts";
+import { listTaskCustomFields } from "../core/custom-fields.ts";
+import { buildRelationIndex, formatTaskRelations } from "../core/relations.ts";
+import { getTaskEffort } from "../core/time-tracking.ts";
+import type { CustomFieldDefinition, Task, TaskRelation } from "../types/index.ts";
 import type { ChecklistItem } from "../ui/checklist.ts";
 import { transformCodePathsPlain } from "../ui/code-path.ts";
 import { formatStatusWithIcon } from "../ui/status-icon.ts";
+import { formatDuration } from "../utils/duration.ts";
 
 export type TaskPlainTextOptions = {
 	filePathOverride?: string;
+	/** Custom fields from config, for their labels and order */
+	customFields?: CustomFieldDefinition[];
+	/** Relations including computed inverses; without them only the stored ones are shown */
+	relations?: TaskRelation[];
 };
 
 export function formatDateForDisplay(dateStr: string): string {
@@ -76,6 +85,12 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 	if (task.updatedDate) {
 		lines.push(`Updated: ${formatDateForDisplay(task.updatedDate)}`);
 	}
+	if (task.startDate) {
+		lines.push(`Start: ${formatDateForDisplay(task.startDate)}`);
+	}
+	if (task.dueDate) {
+		lines.push(`Due: ${formatDateForDisplay(task.dueDate)}`);
+	}
 
 	if (task.labels?.length) {
 		lines.push(`Labels: ${task.labels.join(", ")}`);
@@ -97,6 +112,25 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 		lines.push(`Dependencies: ${task.dependencies.join(", ")}`);
 	}
 
+	lines.push(...formatTaskRelations(options.relations ?? buildRelationIndex([task]).get(task.id) ?? []));
+
+	if (task.attachments?.length) {
+		lines.push(`Attachments: ${task.attachments.map((path) => `backlog/assets/${path}`).join(", ")}`);
+	}
+
+	if (task.estimate || task.remaining || task.worklog?.length) {
+		const effort = getTaskEffort(task);
+		if (task.estimate) {
+			lines.push(`Estimate: ${task.estimate}`);
+		}
+		lines.push(`Logged: ${formatDuration(effort.loggedMinutes)}`);
+		lines.push(`Remaining: ${formatDuration(effort.remainingMinutes)}`);
+	}
+
+	for (const field of listTaskCustomFields(task, options.customFields)) {
+		lines.push(`${field.label}: ${field.value}`);
+	}
+
 	lines.push("");
 	lines.push("Description:");
 	lines.push("-".repeat(50));
@@ -130,5 +164,23 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 		lines.push("");
 	}
 
+	if (task.worklog?.length) {
+		lines.push("Worklog:");
+		lines.push("-".repeat(50));
+		for (const entry of task.worklog) {
+			const author = entry.author.startsWith("@") ? entry.author : `@${entry.author}`;
+			const note = entry.note ? ` - ${entry.note}` : "";
+			lines.push(`${formatDateForDisplay(entry.date)} ${author} ${entry.duration}${note}`);
+		}
+		lines.push("");
+	}
+
+	if (task.comments?.length) {
+		lines.push("Comments:");
+		lines.push("-".repeat(50));
+		lines.push(...formatCommentThreads(task.comments));
+		lines.push("");
+	}
+
 	return lines.join("\n");
 }
@@ -0,0 +1,39 @@
+import { formatViewCell, VIEW_COLUMNS, type ViewResult } from "../core/views.ts";
+import type { Milestone, SavedView } from "../types/index.ts";
+
+/**
+ * One-line summary of what a view does, e.g. "label:bug · sort due · grouped by assignee"
+ */
+export function describeSavedView(view: SavedView): string {
+	const parts = [
+		view.query ?? "all tasks",
+		...(view.sort ? [`sort ${view.sort}`] : []),
+		...(view.groupBy && view.groupBy !== "none" ? [`grouped by ${view.groupBy}`] : []),
+		...(view.columns?.length ? [`columns ${view.columns.join(",")}`] : []),
+	];
+	return parts.join(" · ");
+}
+
+/**
+ * Plain-text table per group, with the view's columns padded to fit
+ */
+export function formatViewPlainText(result: ViewResult, milestones: Milestone[] = []): string {
+	const header = result.columns.map((column) => VIEW_COLUMNS[column]);
+	const lines = [`View: ${result.view.name} (${result.total} ${result.total === 1 ? "task" : "tasks"})`];
+	if (result.view.description) {
+		lines.push(result.view.description);
+	}
+	if (result.total === 0) {
+		lines.push("", "No tasks found.");
+		return lines.join("\n");
+	}
+
+	for (const group of result.groups) {
+		const rows = group.tasks.map((task) => result.columns.map((column) => formatViewCell(task, column, milestones)));
+		const widths = header.map((cell, index) => Math.max(cell.length, ...rows.map((row) => row[index]?.length ?? 0)));
+		const formatRow = (row: string[]) =>
+			`  ${row.map((cell, index) => cell.padEnd(widths[index] ?? 0)).join("  ")}`.trimEnd();
+		lines.push("", `${group.label} (${group.tasks.length}):`, formatRow(header), ...rows.map(formatRow));
+	}
+	return lines.join("\n");
+}
@@ -109,6 +109,12 @@ export class GitOperations {
 		const { stdout } = await this.execGit(["branch", "--show-current"], { readOnly: true });
 		return stdout.trim();
 	}
+
+	async getCurrentUser(): Promise<string> {
+		const { stdout } = await this.execGit(["config", "user.name"], { readOnly: true });
+		return stdout.trim();
+	}
+
 	async hasUncommittedChanges(): Promise<boolean> {
 		const status = await this.getStatus();
 		return status.trim() !== "";
@@ -437,6 +443,52 @@ export class GitOperations {
 		return out;
 	}
 
+	/**
+	 * Collect every `status:` value written to files under the given paths, oldest first.
+	 * Reads the frontmatter diffs of all commits in a single git log pass instead of
+	 * showing each revision separately.
+	 */
+	async getStatusChangeLog(paths: string[]): Promise<Array<{ filePath: string; date: Date; status: string }>> {
+		const changes: Array<{ filePath: string; date: Date; status: string }> = [];
+
+		try {
+			const { stdout } = await this.execGit(
+				["log", "--reverse", "--no-color", "--no-renames", "-p", "-U0", "--format=%x1e%ct", "--", ...paths],
+				{ readOnly: true },
+			);
+
+			for (const record of stdout.split("\x1e")) {
+				const lines = record.split("\n");
+				const epoch = Number(lines[0]?.trim());
+				if (!Number.isFinite(epoch) || epoch <= 0) continue;
+				const date = new Date(epoch * 1000);
+
+				let currentFile: string | null = null;
+				for (const line of lines.slice(1)) {
+					if (line.startsWith("+++ ")) {
+						const target = line.slice(4).trim();
+						currentFile = target === "/dev/null" ? null : target.replace(/^b\//, "");
+						continue;
+					}
+					if (!currentFile) continue;
+					const match = line.match(/^\+status:\s*(.*)$/);
+					if (match) {
+						const status = (match[1] ?? "").trim().replace(/^['"]|['"]$/g, "");
+						if (status) {
+							changes.push({ filePath: currentFile, date, status });
+						}
+					}
+				}
+			}
+		} catch (error) {
+			if (process.env.DEBUG) {
+				console.error("Failed to read status history from git", error);
+			}
+		}
+
+		return changes;
+	}
+
 	async getFileLastModifiedBranch(filePath: string): Promise<string | null> {
 		try {
 			// Get the hash of the last commit that touched the file
@@ -1,13 +1,19 @@
 import matter from "gray-matter";
 import type {
 	AcceptanceCriterion,
+	CustomFieldValue,
 	Decision,
 	Document,
 	Milestone,
 	ParsedMarkdown,
 	Task,
+	TaskComment,
 	TaskHistoryEntry,
+	TaskRelationType,
+	TaskTemplate,
+	TaskWorklogEntry,
 } from "../types/index.ts";
+import { TASK_RELATION_TYPES } from "../types/index.ts";
 import { AcceptanceCriteriaManager, extractStructuredSection, STRUCTURED_SECTION_KEYS } from "./structured-sections.ts";
 
 function normalizeFlowList(prefix: string, rawValue: string): string | null {
@@ -146,6 +152,35 @@ export function parseMarkdown(content: string): ParsedMarkdown {
 	};
 }
 
+/**
+ * Custom field values from the `custom_fields` frontmatter map. YAML dates are
+ * turned back into strings; other values keep their scalar type.
+ */
+function parseCustomFields(value: unknown): Record<string, CustomFieldValue> | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const fields: Record<string, CustomFieldValue> = {};
+	for (const [name, raw] of Object.entries(value)) {
+		if (raw instanceof Date) {
+			fields[name] = normalizeDate(raw);
+		} else if (typeof raw === "string" || typeof raw === "number" || typeof raw === "boolean") {
+			fields[name] = raw;
+		}
+	}
+	return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/** The `relations` frontmatter map; unknown relation types are dropped */
+function parseRelations(value: unknown): Partial<Record<TaskRelationType, string[]>> | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const relations: Partial<Record<TaskRelationType, string[]>> = {};
+	for (const type of TASK_RELATION_TYPES) {
+		const raw = (value as Record<string, unknown>)[type];
+		const ids = (Array.isArray(raw) ? raw : raw ? [raw] : []).map(String).filter((id) => id.trim() !== "");
+		if (ids.length > 0) relations[type] = ids;
+	}
+	return Object.keys(relations).length > 0 ? relations : undefined;
+}
+
 export function parseTask(content: string): Task {
 	const { frontmatter, content: rawContent } = parseMarkdown(content);
 
@@ -172,6 +207,25 @@ export function parseTask(content: string): Task {
 			}))
 		: [];
 
+	const worklog: TaskWorklogEntry[] = Array.isArray(frontmatter.worklog)
+		? frontmatter.worklog.map((entry: Record<string, unknown>) => ({
+				author: String(entry.author || ""),
+				duration: String(entry.duration || ""),
+				date: normalizeDate(entry.date),
+				...(entry.note ? { note: String(entry.note) } : {}),
+			}))
+		: [];
+
+	const comments: TaskComment[] = Array.isArray(frontmatter.comments)
+		? frontmatter.comments.map((entry: Record<string, unknown>, index: number) => ({
+				id: Number(entry.id) || index + 1,
+				author: String(entry.author || ""),
+				date: normalizeDate(entry.date),
+				body: String(entry.body || ""),
+				...(entry.reply_to !== undefined && entry.reply_to !== null && { replyTo: Number(entry.reply_to) }),
+			}))
+		: [];
+
 	return {
 		id: String(frontmatter.id || ""),
 		title: String(frontmatter.title || ""),
@@ -184,9 +238,12 @@ export function parseTask(content: string): Task {
 		reporter: frontmatter.reporter ? String(frontmatter.reporter) : undefined,
 		createdDate: normalizeDate(frontmatter.created_date),
 		updatedDate: frontmatter.updated_date ? normalizeDate(frontmatter.updated_date) : undefined,
+		startDate: frontmatter.start_date ? normalizeDate(frontmatter.start_date) : undefined,
+		dueDate: frontmatter.due_date ? normalizeDate(frontmatter.due_date) : undefined,
 		labels: Array.isArray(frontmatter.labels) ? frontmatter.labels.map(String) : [],
 		milestone: frontmatter.milestone ? String(frontmatter.milestone) : undefined,
 		dependencies: Array.isArray(frontmatter.dependencies) ? frontmatter.dependencies.map(String) : [],
+		relations: parseRelations(frontmatter.relations),
 		rawContent,
 		acceptanceCriteriaItems: structuredCriteria,
 		description: descriptionSection,
@@ -201,6 +258,21 @@ export function parseTask(content: string): Task {
 		gitTag: frontmatter.git_tag ? String(frontmatter.git_tag) : undefined,
 		prNumber: frontmatter.pr_number ? String(frontmatter.pr_number) : undefined,
 		history: history.length > 0 ? history : undefined,
+		estimate:
+			frontmatter.estimate !== undefined && frontmatter.estimate !== null ? String(frontmatter.estimate) : undefined,
+		remaining:
+			frontmatter.remaining !== undefined && frontmatter.remaining !== null ? String(frontmatter.remaining) : undefined,
+		worklog: worklog.length > 0 ? worklog : undefined,
+		customFields: parseCustomFields(frontmatter.custom_fields),
+		comments: comments.length > 0 ? comments : undefined,
+		attachments:
+			Array.isArray(frontmatter.attachments) && frontmatter.attachments.length > 0
+				? frontmatter.attachments.map(String)
+				: undefined,
+		archivedDependents:
+			Array.isArray(frontmatter.archived_dependents) && frontmatter.archived_dependents.length > 0
+				? frontmatter.archived_dependents.map(String)
+				: undefined,
 	};
 }
 
@@ -245,6 +317,31 @@ export function parseMilestone(content: string): Milestone {
 	};
 }
 
+/**
+ * Parse a task template. Frontmatter uses the task keys plus `recurrence`;
+ * the body uses the task sections (Description, Acceptance Criteria,
+ * Implementation Plan).
+ */
+export function parseTaskTemplate(content: string, name: string): TaskTemplate {
+	const { frontmatter } = parseMarkdown(content);
+	const task = parseTask(content);
+
+	return {
+		name,
+		title: task.title || name,
+		...(task.status && { status: task.status }),
+		...(task.priority && { priority: task.priority }),
+		...(task.milestone && { milestone: task.milestone }),
+		labels: task.labels,
+		assignee: task.assignee,
+		...(task.estimate && { estimate: task.estimate }),
+		...(task.description && { description: task.description }),
+		...(task.implementationPlan && { implementationPlan: task.implementationPlan }),
+		acceptanceCriteria: (task.acceptanceCriteriaItems ?? []).map(({ text, checked }) => ({ text, checked })),
+		...(frontmatter.recurrence ? { recurrence: String(frontmatter.recurrence).trim() } : {}),
+	};
+}
+
 function extractSection(content: string, sectionTitle: string): string | undefined {
 	// Normalize to LF for reliable matching across platforms
 	const src = content.replace(/\r\n/g, "\n");
@@ -13,9 +13,12 @@ export function serializeTask(task: Task): string {
 		...(task.reporter && { reporter: task.reporter }),
 		created_date: task.createdDate,
 		...(task.updatedDate && { updated_date: task.updatedDate }),
+		...(task.startDate && { start_date: task.startDate }),
+		...(task.dueDate && { due_date: task.dueDate }),
 		labels: task.labels,
 		...(task.milestone && { milestone: task.milestone }),
 		dependencies: task.dependencies,
+		...(task.relations && Object.keys(task.relations).length > 0 && { relations: task.relations }),
 		...(task.parentTaskId && { parent_task_id: task.parentTaskId }),
 		...(task.subtasks && task.subtasks.length > 0 && { subtasks: task.subtasks }),
 		...(task.priority && { priority: task.priority }),
@@ -25,6 +28,23 @@ export function serializeTask(task: Task): string {
 		...(task.gitTag && { git_tag: task.gitTag }),
 		...(task.prNumber && { pr_number: task.prNumber }),
 		...(task.history && task.history.length > 0 && { history: task.history }),
+		...(task.estimate && { estimate: task.estimate }),
+		...(task.remaining && { remaining: task.remaining }),
+		...(task.worklog && task.worklog.length > 0 && { worklog: task.worklog }),
+		...(task.customFields && Object.keys(task.customFields).length > 0 && { custom_fields: task.customFields }),
+		...(task.attachments && task.attachments.length > 0 && { attachments: task.attachments }),
+		...(task.archivedDependents &&
+			task.archivedDependents.length > 0 && { archived_dependents: task.archivedDependents }),
+		...(task.comments &&
+			task.comments.length > 0 && {
+				comments: task.comments.map((comment) => ({
+					id: comment.id,
+					author: comment.author,
+					date: comment.date,
+					...(comment.replyTo !== undefined && { reply_to: comment.replyTo }),
+					body: comment.body,
+				})),
+			}),
 	};
 
 	let contentBody = task.rawContent ?? "";
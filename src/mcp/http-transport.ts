@@ -0,0 +1,339 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { Server as ProtocolServer } from "@modelcontextprotocol/sdk/server/index.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Server } from "bun";
+import type { BacklogConfig } from "../types/index.ts";
+
+export const DEFAULT_MCP_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_MCP_HTTP_PORT = 6421;
+export const MCP_HTTP_PATH = "/mcp";
+
+type McpHttpConfig = NonNullable<NonNullable<BacklogConfig["mcp"]>["http"]>;
+
+export interface McpHttpOptions {
+	host: string;
+	port: number;
+	auth: {
+		type: "bearer" | "basic" | "none";
+		token?: string;
+		username?: string;
+		password?: string;
+	};
+	cors?: {
+		origin?: string | string[];
+		credentials?: boolean;
+	};
+	enableDnsRebindingProtection: boolean;
+	allowedHosts: string[];
+	allowedOrigins: string[];
+	debug?: boolean;
+}
+
+export interface McpHttpServerHandle {
+	url: string;
+	port: number;
+	stop(): Promise<void>;
+}
+
+/** Minimal surface of McpServer needed here; avoids a circular runtime import. */
+interface ProtocolServerFactory {
+	createProtocolServer(): ProtocolServer;
+}
+
+interface HttpSession {
+	transport: WebStandardStreamableHTTPServerTransport;
+	server: ProtocolServer;
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1", "[::1]"]);
+
+export function isLoopbackHost(host: string): boolean {
+	return LOOPBACK_HOSTS.has(host.trim().toLowerCase());
+}
+
+/**
+ * Merge `mcp.http` config with CLI overrides and validate the result.
+ * Throws when the configured auth mode is missing its credentials.
+ */
+export function resolveMcpHttpOptions(
+	config: BacklogConfig | null,
+	overrides: { host?: string; port?: number; debug?: boolean } = {},
+): McpHttpOptions {
+	const http: McpHttpConfig = config?.mcp?.http ?? {};
+	const host = overrides.host?.trim() || http.host?.trim() || DEFAULT_MCP_HTTP_HOST;
+	const port = overrides.port ?? http.port ?? DEFAULT_MCP_HTTP_PORT;
+
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		throw new Error(`Invalid MCP HTTP port: ${port}. Must be between 0 and 65535.`);
+	}
+
+	const authType = http.auth?.type ?? "none";
+	if (authType === "bearer" && !http.auth?.token) {
+		throw new Error("mcp.http.auth.type is 'bearer' but no mcp.http.auth.token is configured.");
+	}
+	if (authType === "basic" && (!http.auth?.username || !http.auth?.password)) {
+		throw new Error("mcp.http.auth.type is 'basic' but mcp.http.auth.username or password is missing.");
+	}
+
+	const enableDnsRebindingProtection = http.enableDnsRebindingProtection ?? isLoopbackHost(host);
+	let allowedHosts = http.allowedHosts ?? [];
+	if (enableDnsRebindingProtection && allowedHosts.length === 0) {
+		const portSuffix = port === 0 ? "" : `:${port}`;
+		allowedHosts = [`localhost${portSuffix}`, `127.0.0.1${portSuffix}`, `[::1]${portSuffix}`];
+		if (!isLoopbackHost(host)) {
+			allowedHosts.push(`${host}${portSuffix}`);
+		}
+	}
+
+	return {
+		host,
+		port,
+		auth: { ...http.auth, type: authType },
+		...(http.cors && { cors: http.cors }),
+		enableDnsRebindingProtection,
+		allowedHosts,
+		allowedOrigins: http.allowedOrigins ?? [],
+		debug: overrides.debug,
+	};
+}
+
+function safeEqual(actual: string, expected: string): boolean {
+	const actualBuffer = Buffer.from(actual);
+	const expectedBuffer = Buffer.from(expected);
+	if (actualBuffer.length !== expectedBuffer.length) {
+		return false;
+	}
+	return timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+function isAuthorized(req: Request, auth: McpHttpOptions["auth"]): boolean {
+	if (auth.type === "none") {
+		return true;
+	}
+	const header = req.headers.get("authorization") ?? "";
+	if (auth.type === "bearer") {
+		return header.startsWith("Bearer ") && safeEqual(header.slice("Bearer ".length).trim(), auth.token ?? "");
+	}
+	const expected = Buffer.from(`${auth.username ?? ""}:${auth.password ?? ""}`).toString("base64");
+	return header.startsWith("Basic ") && safeEqual(header.slice("Basic ".length).trim(), expected);
+}
+
+function hostMatches(hostHeader: string, allowedHosts: string[]): boolean {
+	const normalized = hostHeader.trim().toLowerCase();
+	const hostname = normalized.replace(/:\d+$/, "");
+	return allowedHosts.some((entry) => {
+		const candidate = entry.trim().toLowerCase();
+		return candidate === normalized || candidate === hostname;
+	});
+}
+
+function isOriginAllowed(origin: string, options: McpHttpOptions): boolean {
+	if (options.allowedOrigins.length > 0) {
+		return options.allowedOrigins.some((entry) => entry === "*" || entry.toLowerCase() === origin.toLowerCase());
+	}
+	try {
+		return hostMatches(new URL(origin).host, options.allowedHosts);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * DNS rebinding protection: reject requests whose Host or Origin header does
+ * not belong to this server. Returns an error message, or null when allowed.
+ */
+function validateRequestOrigin(req: Request, options: McpHttpOptions): string | null {
+	if (!options.enableDnsRebindingProtection) {
+		return null;
+	}
+	const hostHeader = req.headers.get("host");
+	if (options.allowedHosts.length > 0 && (!hostHeader || !hostMatches(hostHeader, options.allowedHosts))) {
+		return `Invalid Host header: ${hostHeader ?? "(missing)"}`;
+	}
+	const origin = req.headers.get("origin");
+	if (origin && !isOriginAllowed(origin, options)) {
+		return `Invalid Origin header: ${origin}`;
+	}
+	return null;
+}
+
+function resolveCorsOrigin(req: Request, cors: McpHttpOptions["cors"]): string | null {
+	if (!cors?.origin) {
+		return null;
+	}
+	const requestOrigin = req.headers.get("origin");
+	const allowed = Array.isArray(cors.origin) ? cors.origin : [cors.origin];
+	if (allowed.includes("*")) {
+		// Credentialed requests cannot use the wildcard, so echo the caller instead
+		return cors.credentials && requestOrigin ? requestOrigin : "*";
+	}
+	if (requestOrigin && allowed.includes(requestOrigin)) {
+		return requestOrigin;
+	}
+	return null;
+}
+
+function buildCorsHeaders(req: Request, cors: McpHttpOptions["cors"]): Headers {
+	const headers = new Headers();
+	const origin = resolveCorsOrigin(req, cors);
+	if (!origin) {
+		return headers;
+	}
+	headers.set("Access-Control-Allow-Origin", origin);
+	headers.set("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+	headers.set(
+		"Access-Control-Allow-Headers",
+		"Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
+	);
+	headers.set("Access-Control-Expose-Headers", "Mcp-Session-Id, Mcp-Protocol-Version");
+	if (origin !== "*") {
+		headers.set("Vary", "Origin");
+	}
+	if (cors?.credentials) {
+		headers.set("Access-Control-Allow-Credentials", "true");
+	}
+	return headers;
+}
+
+function withHeaders(response: Response, extra: Headers): Response {
+	if ([...extra.keys()].length === 0) {
+		return response;
+	}
+	const headers = new Headers(response.headers);
+	for (const [key, value] of extra) {
+		headers.set(key, value);
+	}
+	return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+function jsonRpcError(status: number, code: number, message: string, headers?: HeadersInit): Response {
+	return Response.json({ jsonrpc: "2.0", error: { code, message }, id: null }, { status, headers });
+}
+
+/**
+ * Serve the MCP Streamable HTTP transport at `/mcp` using Bun's HTTP server.
+ *
+ * Sessions are stateful: an initialize request creates a session whose id is
+ * returned in the `Mcp-Session-Id` header and must accompany later requests.
+ */
+export async function startHttpTransport(
+	factory: ProtocolServerFactory,
+	options: McpHttpOptions,
+): Promise<McpHttpServerHandle> {
+	const sessions = new Map<string, HttpSession>();
+	const log = (message: string) => {
+		if (options.debug) {
+			console.error(message);
+		}
+	};
+
+	const handleMcpRequest = async (req: Request): Promise<Response> => {
+		const sessionId = req.headers.get("mcp-session-id");
+		if (sessionId) {
+			const session = sessions.get(sessionId);
+			if (!session) {
+				return jsonRpcError(404, -32001, "Session not found");
+			}
+			return await session.transport.handleRequest(req);
+		}
+
+		if (req.method !== "POST") {
+			return jsonRpcError(400, -32000, "Bad Request: Mcp-Session-Id header is required");
+		}
+
+		let body: unknown;
+		try {
+			body = await req.json();
+		} catch {
+			return jsonRpcError(400, -32700, "Parse error: invalid JSON body");
+		}
+
+		const messages = Array.isArray(body) ? body : [body];
+		if (!messages.some((message) => isInitializeRequest(message))) {
+			return jsonRpcError(400, -32000, "Bad Request: Mcp-Session-Id header is required");
+		}
+
+		const server = factory.createProtocolServer();
+		const transport = new WebStandardStreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: (id) => {
+				sessions.set(id, { transport, server });
+				log(`MCP HTTP session opened: ${id}`);
+			},
+			onsessionclosed: (id) => {
+				sessions.delete(id);
+				log(`MCP HTTP session closed: ${id}`);
+			},
+		});
+		transport.onclose = () => {
+			if (transport.sessionId) {
+				sessions.delete(transport.sessionId);
+			}
+		};
+
+		await server.connect(transport);
+		return await transport.handleRequest(req, { parsedBody: body });
+	};
+
+	const httpServer: Server<unknown> = Bun.serve({
+		hostname: options.host,
+		port: options.port,
+		// SSE streams stay open between notifications; never time them out
+		idleTimeout: 0,
+		fetch: async (req: Request): Promise<Response> => {
+			const url = new URL(req.url);
+			const corsHeaders = buildCorsHeaders(req, options.cors);
+
+			if (url.pathname !== MCP_HTTP_PATH) {
+				return withHeaders(new Response("Not Found", { status: 404 }), corsHeaders);
+			}
+
+			if (req.method === "OPTIONS") {
+				return new Response(null, { status: 204, headers: corsHeaders });
+			}
+
+			const originError = validateRequestOrigin(req, options);
+			if (originError) {
+				log(`Rejected MCP HTTP request: ${originError}`);
+				return withHeaders(jsonRpcError(403, -32000, `Forbidden: ${originError}`), corsHeaders);
+			}
+
+			if (!isAuthorized(req, options.auth)) {
+				const challenge = options.auth.type === "basic" ? 'Basic realm="backlog"' : 'Bearer realm="backlog"';
+				return withHeaders(jsonRpcError(401, -32000, "Unauthorized", { "WWW-Authenticate": challenge }), corsHeaders);
+			}
+
+			try {
+				return withHeaders(await handleMcpRequest(req), corsHeaders);
+			} catch (error) {
+				console.error("MCP HTTP request failed:", error);
+				return withHeaders(jsonRpcError(500, -32603, "Internal server error"), corsHeaders);
+			}
+		},
+	});
+
+	const port = httpServer.port ?? options.port;
+	const displayHost = options.host.includes(":") && !options.host.startsWith("[") ? `[${options.host}]` : options.host;
+
+	return {
+		url: `http://${displayHost}:${port}${MCP_HTTP_PATH}`,
+		port,
+		stop: async () => {
+			for (const session of sessions.values()) {
+				try {
+					await session.server.close();
+				} catch {}
+			}
+			sessions.clear();
+			// Open SSE streams can keep Bun's stop() pending, so don't hang forever
+			const stopPromise = (async () => {
+				try {
+					await httpServer.stop(true);
+				} catch {}
+			})();
+			const timeout = new Promise<void>((resolve) => setTimeout(resolve, 1500));
+			await Promise.race([stopPromise, timeout]);
+		},
+	};
+}
@@ -12,11 +12,13 @@ import {
 import { Core } from "../core/backlog.ts";
 import { getPackageName } from "../utils/app-info.ts";
 import { getVersion } from "../utils/version.ts";
+import { type McpHttpOptions, type McpHttpServerHandle, startHttpTransport } from "./http-transport.ts";
 import { registerInitRequiredResource } from "./resources/init-required/index.ts";
 import { registerWorkflowResources } from "./resources/workflow/index.ts";
 import { registerDocumentTools } from "./tools/documents/index.ts";
 import { registerMilestoneTools } from "./tools/milestones/index.ts";
 import { registerTaskTools } from "./tools/tasks/index.ts";
+import { registerViewTools } from "./tools/views/index.ts";
 import { registerWorkflowTools } from "./tools/workflow/index.ts";
 import type {
 	CallToolResult,
@@ -32,11 +34,12 @@ import type {
 } from "./types.ts";
 
 /**
- * Minimal MCP server implementation for stdio transport.
+ * Minimal MCP server implementation for stdio and Streamable HTTP transports.
  *
- * The Backlog.md MCP server is intentionally local-only and exposes tools,
- * resources, and prompts through the stdio transport so that desktop editors
- * (e.g. Claude Code) can interact with a project without network exposure.
+ * The Backlog.md MCP server exposes tools, resources, and prompts through the
+ * stdio transport by default so that desktop editors (e.g. Claude Code) can
+ * interact with a project without network exposure. The optional HTTP
+ * transport lets several agents share one server and honours `mcp.http` config.
  */
 const APP_NAME = getPackageName();
 const APP_VERSION = await getVersion();
@@ -51,7 +54,9 @@ type ServerInitOptions = {
 
 export class McpServer extends Core {
 	private readonly server: Server;
+	private readonly instructions: string;
 	private transport?: StdioServerTransport;
+	private httpHandle?: McpHttpServerHandle;
 
 	private readonly tools = new Map<string, McpToolHandler>();
 	private readonly resources = new Map<string, McpResourceHandler>();
@@ -60,7 +65,17 @@ export class McpServer extends Core {
 	constructor(projectRoot: string, instructions: string) {
 		super(projectRoot, { enableWatchers: true });
 
-		this.server = new Server(
+		this.instructions = instructions;
+		this.server = this.createProtocolServer();
+	}
+
+	/**
+	 * Create a protocol server wired to this instance's tools, resources and prompts.
+	 * A protocol server can only be connected to one transport, so every HTTP
+	 * session gets its own while sharing the registered handlers.
+	 */
+	public createProtocolServer(): Server {
+		const server = new Server(
 			{
 				name: APP_NAME,
 				version: APP_VERSION,
@@ -71,21 +86,22 @@ export class McpServer extends Core {
 					resources: { listChanged: true },
 					prompts: { listChanged: true },
 				},
-				instructions,
+				instructions: this.instructions,
 			},
 		);
 
-		this.setupHandlers();
+		this.setupHandlers(server);
+		return server;
 	}
 
-	private setupHandlers(): void {
-		this.server.setRequestHandler(ListToolsRequestSchema, async () => this.listTools());
-		this.server.setRequestHandler(CallToolRequestSchema, async (request) => this.callTool(request));
-		this.server.setRequestHandler(ListResourcesRequestSchema, async () => this.listResources());
-		this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => this.listResourceTemplates());
-		this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => this.readResource(request));
-		this.server.setRequestHandler(ListPromptsRequestSchema, async () => this.listPrompts());
-		this.server.setRequestHandler(GetPromptRequestSchema, async (request) => this.getPrompt(request));
+	private setupHandlers(server: Server): void {
+		server.setRequestHandler(ListToolsRequestSchema, async () => this.listTools());
+		server.setRequestHandler(CallToolRequestSchema, async (request) => this.callTool(request));
+		server.setRequestHandler(ListResourcesRequestSchema, async () => this.listResources());
+		server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => this.listResourceTemplates());
+		server.setRequestHandler(ReadResourceRequestSchema, async (request) => this.readResource(request));
+		server.setRequestHandler(ListPromptsRequestSchema, async () => this.listPrompts());
+		server.setRequestHandler(GetPromptRequestSchema, async (request) => this.getPrompt(request));
 	}
 
 	/**
@@ -122,13 +138,26 @@ export class McpServer extends Core {
 	}
 
 	/**
-	 * Start the server. The stdio transport begins handling requests as soon as
-	 * it is connected, so this method exists primarily for symmetry with
+	 * Serve the MCP Streamable HTTP transport. Each client session gets its own
+	 * protocol server backed by the same tools and resources.
+	 */
+	public async connectHttp(options: McpHttpOptions): Promise<McpHttpServerHandle> {
+		if (this.httpHandle) {
+			return this.httpHandle;
+		}
+
+		this.httpHandle = await startHttpTransport(this, options);
+		return this.httpHandle;
+	}
+
+	/**
+	 * Start the server. Both transports begin handling requests as soon as
+	 * they are connected, so this method exists primarily for symmetry with
 	 * callers that expect an explicit start step.
 	 */
 	public async start(): Promise<void> {
-		if (!this.transport) {
-			throw new Error("MCP server not connected. Call connect() before start().");
+		if (!this.transport && !this.httpHandle) {
+			throw new Error("MCP server not connected. Call connect() or connectHttp() before start().");
 		}
 	}
 
@@ -138,6 +167,10 @@ export class McpServer extends Core {
 	public async stop(): Promise<void> {
 		await this.server.close();
 		this.transport = undefined;
+		if (this.httpHandle) {
+			await this.httpHandle.stop();
+			this.httpHandle = undefined;
+		}
 	}
 
 	public getServer(): Server {
@@ -282,9 +315,10 @@ export async function createMcpServer(projectRoot: string, options: ServerInitOp
 	registerTaskTools(server, config);
 	registerMilestoneTools(server);
 	registerDocumentTools(server, config);
+	registerViewTools(server);
 
 	if (options.debug) {
-		console.error("MCP server initialised (stdio transport only).");
+		console.error("MCP server initialised.");
 	}
 
 	return server;
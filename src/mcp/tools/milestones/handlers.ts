@@ -106,7 +106,9 @@ export class MilestoneHandlers {
 		}
 
 		// Create milestone file
-		const milestone = await this.core.filesystem.createMilestone(name, args.description);
+		const milestone = await this.core.recordOperation(`Create milestone ${name}`, () =>
+			this.core.filesystem.createMilestone(name, args.description),
+		);
 
 		return {
 			content: [
@@ -135,10 +137,12 @@ export class MilestoneHandlers {
 		if (shouldUpdateTasks) {
 			const tasks = await this.listLocalTasks();
 			const matches = tasks.filter((task) => milestoneKey(task.milestone ?? "") === fromKey);
-			for (const task of matches) {
-				await this.core.editTask(task.id, { milestone: toName });
-				updatedTaskIds.push(task.id);
-			}
+			await this.core.recordOperation(`Rename milestone ${fromName}`, async () => {
+				for (const task of matches) {
+					await this.core.editTask(task.id, { milestone: toName });
+					updatedTaskIds.push(task.id);
+				}
+			});
 			updatedTaskIds = updatedTaskIds.sort((a, b) => a.localeCompare(b));
 		}
 
@@ -185,10 +189,12 @@ export class MilestoneHandlers {
 		if (taskHandling !== "keep") {
 			const tasks = await this.listLocalTasks();
 			const matches = tasks.filter((task) => milestoneKey(task.milestone ?? "") === removeKey);
-			for (const task of matches) {
-				await this.core.editTask(task.id, { milestone: taskHandling === "reassign" ? reassignTo : null });
-				updatedTaskIds.push(task.id);
-			}
+			await this.core.recordOperation(`Remove milestone ${name}`, async () => {
+				for (const task of matches) {
+					await this.core.editTask(task.id, { milestone: taskHandling === "reassign" ? reassignTo : null });
+					updatedTaskIds.push(task.id);
+				}
+			});
 			updatedTaskIds = updatedTaskIds.sort((a, b) => a.localeCompare(b));
 		}
 
@@ -1,5 +1,14 @@
 import { basename, join } from "node:path";
+import { BulkEditError, formatBulkEditPreview, formatBulkEditResults, isEmptyUpdate } from "../../../core/bulk-edit.ts";
+import { formatCommentThreads } from "../../../core/comments.ts";
+import { normalizeTaskDate } from "../../../core/due-dates.ts";
+import { formatRestoreResult, RestoreError } from "../../../core/restore.ts";
+import { compileTaskQuery, type TaskPredicate, TaskQueryError } from "../../../core/task-query.ts";
+import { TransitionError } from "../../../core/transitions.ts";
+import { WipLimitError } from "../../../core/wip-limits.ts";
+import { type FlowGrouping, formatFlowStatisticsPlainText } from "../../../formatters/flow-stats-plain-text.ts";
 import {
+	type CustomFieldValue,
 	isLocalEditableTask,
 	type SearchPriorityFilter,
 	type Task,
@@ -7,12 +16,13 @@ import {
 	type TaskSearchResult,
 } from "../../../types/index.ts";
 import type { TaskEditArgs, TaskEditRequest } from "../../../types/task-edit-args.ts";
+import { resolveDefaultAuthor } from "../../../utils/task-builders.ts";
 import { buildTaskUpdateInput } from "../../../utils/task-edit-builder.ts";
 import { sortTasks } from "../../../utils/task-sorting.ts";
 import { McpError } from "../../errors/mcp-errors.ts";
 import type { McpServer } from "../../server.ts";
 import type { CallToolResult } from "../../types.ts";
-import { formatTaskCallResult } from "../../utils/task-response.ts";
+import { formatTaskCallResult, formatWarnings } from "../../utils/task-response.ts";
 
 export type TaskCreateArgs = {
 	title: string;
@@ -25,6 +35,10 @@ export type TaskCreateArgs = {
 	parentTaskId?: string;
 	acceptanceCriteria?: string[];
 	dependencies?: string[];
+	estimate?: string;
+	startDate?: string;
+	dueDate?: string;
+	customFields?: Record<string, CustomFieldValue>;
 };
 
 export type TaskListArgs = {
@@ -32,6 +46,10 @@ export type TaskListArgs = {
 	assignee?: string;
 	labels?: string[];
 	search?: string;
+	query?: string;
+	overdue?: boolean;
+	dueBefore?: string;
+	dueAfter?: string;
 	limit?: number;
 };
 
@@ -39,6 +57,7 @@ export type TaskSearchArgs = {
 	query: string;
 	status?: string;
 	priority?: SearchPriorityFilter;
+	filter?: string;
 	limit?: number;
 };
 
@@ -49,6 +68,50 @@ export type TaskEventArgs = {
 	author?: string;
 };
 
+export type TaskLogWorkArgs = {
+	id: string;
+	duration: string;
+	note?: string;
+	author?: string;
+	date?: string;
+	remaining?: string;
+};
+
+export type TaskCommentAddArgs = {
+	id: string;
+	body: string;
+	replyTo?: number;
+	author?: string;
+};
+
+export type TaskBulkEditArgs = Pick<
+	TaskEditArgs,
+	| "status"
+	| "priority"
+	| "milestone"
+	| "assignee"
+	| "addLabels"
+	| "removeLabels"
+	| "startDate"
+	| "dueDate"
+	| "estimate"
+	| "customFields"
+> & {
+	ids?: string[];
+	query?: string;
+	dryRun?: boolean;
+};
+
+export type TaskRestoreArgs = {
+	id: string;
+	status?: string;
+};
+
+export type TaskStatsArgs = {
+	since?: string;
+	groupBy?: FlowGrouping[];
+};
+
 export class TaskHandlers {
 	constructor(private readonly core: McpServer) {}
 
@@ -60,7 +123,8 @@ export class TaskHandlers {
 	private formatTaskSummaryLine(task: Task, options: { includeStatus?: boolean } = {}): string {
 		const priorityIndicator = task.priority ? `[${task.priority.toUpperCase()}] ` : "";
 		const statusText = options.includeStatus && task.status ? ` (${task.status})` : "";
-		return `  ${priorityIndicator}${task.id} - ${task.title}${statusText}`;
+		const dueText = task.dueDate ? ` [due ${task.dueDate}]` : "";
+		return `  ${priorityIndicator}${task.id} - ${task.title}${statusText}${dueText}`;
 	}
 
 	private async loadTaskOrThrow(id: string): Promise<Task> {
@@ -79,7 +143,7 @@ export class TaskHandlers {
 					.filter((text) => text.length > 0)
 					.map((text) => ({ text, checked: false })) ?? undefined;
 
-			const { task: createdTask } = await this.core.createTaskFromInput({
+			const { task: createdTask, warnings } = await this.core.createTaskFromInput({
 				title: args.title,
 				description: args.description,
 				status: args.status,
@@ -90,9 +154,13 @@ export class TaskHandlers {
 				dependencies: args.dependencies,
 				parentTaskId: args.parentTaskId,
 				acceptanceCriteria,
+				estimate: args.estimate,
+				startDate: args.startDate,
+				dueDate: args.dueDate,
+				customFields: args.customFields,
 			});
 
-			return await formatTaskCallResult(createdTask);
+			return await formatTaskCallResult(createdTask, formatWarnings(warnings));
 		} catch (error) {
 			if (error instanceof Error) {
 				throw new McpError(error.message, "VALIDATION_ERROR");
@@ -109,13 +177,37 @@ export class TaskHandlers {
 		if (args.assignee) {
 			filters.assignee = args.assignee;
 		}
+		if (args.overdue) {
+			filters.overdue = true;
+		}
+		if (args.query) {
+			filters.query = args.query;
+		}
+		try {
+			if (args.dueBefore) {
+				filters.dueBefore = normalizeTaskDate(args.dueBefore, "dueBefore");
+			}
+			if (args.dueAfter) {
+				filters.dueAfter = normalizeTaskDate(args.dueAfter, "dueAfter");
+			}
+		} catch (error) {
+			throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+		}
 
-		const tasks = await this.core.queryTasks({
-			query: args.search,
-			limit: args.limit,
-			filters: Object.keys(filters).length > 0 ? filters : undefined,
-			includeCrossBranch: false,
-		});
+		let tasks: Task[];
+		try {
+			tasks = await this.core.queryTasks({
+				query: args.search,
+				limit: args.limit,
+				filters: Object.keys(filters).length > 0 ? filters : undefined,
+				includeCrossBranch: false,
+			});
+		} catch (error) {
+			if (error instanceof TaskQueryError) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw error;
+		}
 
 		let filteredByLabels = tasks.filter((task) => isLocalEditableTask(task));
 		const labelFilters = args.labels ?? [];
@@ -201,16 +293,29 @@ export class TaskHandlers {
 			filters.priority = args.priority;
 		}
 
+		let matchesFilter: TaskPredicate | undefined;
+		if (args.filter?.trim()) {
+			try {
+				matchesFilter = compileTaskQuery(args.filter, await this.core.getTaskQueryContext());
+			} catch (error) {
+				throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+			}
+		}
+
 		const results = searchService.search({
 			query,
-			limit: args.limit,
+			limit: matchesFilter ? undefined : args.limit,
 			types: ["task"],
 			filters: Object.keys(filters).length > 0 ? filters : undefined,
 		});
 
-		const taskResults = results
+		let taskResults = results
 			.filter((result): result is TaskSearchResult => result.type === "task")
 			.filter((result) => isLocalEditableTask(result.task));
+		if (matchesFilter) {
+			const matches = matchesFilter;
+			taskResults = taskResults.filter((result) => matches(result.task)).slice(0, args.limit);
+		}
 		if (taskResults.length === 0) {
 			return {
 				content: [
@@ -242,7 +347,7 @@ export class TaskHandlers {
 		return await formatTaskCallResult(task);
 	}
 
-	async archiveTask(args: { id: string }): Promise<CallToolResult> {
+	async archiveTask(args: { id: string; unlinkDependents?: boolean }): Promise<CallToolResult> {
 		const task = await this.loadTaskOrThrow(args.id);
 
 		if (!isLocalEditableTask(task)) {
@@ -256,7 +361,7 @@ export class TaskHandlers {
 			);
 		}
 
-		const success = await this.core.archiveTask(task.id);
+		const success = await this.core.archiveTask(task.id, undefined, { unlinkDependents: args.unlinkDependents });
 		if (!success) {
 			throw new McpError(`Failed to archive task: ${args.id}`, "OPERATION_FAILED");
 		}
@@ -292,6 +397,18 @@ export class TaskHandlers {
 		});
 	}
 
+	async restoreTask(args: TaskRestoreArgs): Promise<CallToolResult> {
+		try {
+			const result = await this.core.restoreTask(args.id, { status: args.status });
+			return await formatTaskCallResult(result.task, [formatRestoreResult(result)]);
+		} catch (error) {
+			if (error instanceof RestoreError || error instanceof TransitionError || error instanceof WipLimitError) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw error;
+		}
+	}
+
 	async demoteTask(args: { id: string }): Promise<CallToolResult> {
 		const task = await this.loadTaskOrThrow(args.id);
 		const success = await this.core.demoteTask(task.id, false);
@@ -306,8 +423,36 @@ export class TaskHandlers {
 	async editTask(args: TaskEditRequest): Promise<CallToolResult> {
 		try {
 			const updateInput = buildTaskUpdateInput(args);
-			const updatedTask = await this.core.editTask(args.id, updateInput);
-			return await formatTaskCallResult(updatedTask);
+			const { task: updatedTask, warnings } = await this.core.editTask(args.id, updateInput);
+			return await formatTaskCallResult(updatedTask, formatWarnings(warnings));
+		} catch (error) {
+			if (error instanceof Error) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw new McpError(String(error), "VALIDATION_ERROR");
+		}
+	}
+
+	async bulkEditTasks(args: TaskBulkEditArgs): Promise<CallToolResult> {
+		const { ids, query, dryRun, ...changes } = args;
+		try {
+			const updateInput = buildTaskUpdateInput(changes);
+			if (isEmptyUpdate(updateInput)) {
+				throw new BulkEditError("Nothing to change: pass at least one field to set");
+			}
+			const tasks = await this.core.findTasksForBulkEdit({ ids, query });
+			if (tasks.length === 0) {
+				return { content: [{ type: "text", text: "No tasks match." }] };
+			}
+			const preview = formatBulkEditPreview(tasks);
+			if (dryRun) {
+				return { content: [{ type: "text", text: preview }] };
+			}
+			const results = await this.core.bulkEditTasks(
+				tasks.map((task) => task.id),
+				updateInput,
+			);
+			return { content: [{ type: "text", text: `${preview}\n\n${formatBulkEditResults(results)}` }] };
 		} catch (error) {
 			if (error instanceof Error) {
 				throw new McpError(error.message, "VALIDATION_ERROR");
@@ -319,20 +464,7 @@ export class TaskHandlers {
 	async taskEvent(args: TaskEventArgs): Promise<CallToolResult> {
 		const task = await this.loadTaskOrThrow(args.id);
 
-		let author = args.author;
-		if (!author) {
-			const config = await this.core.filesystem.loadConfig();
-			if (config?.defaultAssignee) {
-				author = config.defaultAssignee;
-			} else if (config?.defaultReporter) {
-				author = config.defaultReporter;
-			} else {
-				try {
-					const user = await this.core.gitOps.getCurrentUser();
-					if (user) author = user;
-				} catch {}
-			}
-		}
+		const author = args.author || (await resolveDefaultAuthor(this.core));
 
 		const historyEntry = {
 			updatedAt: new Date().toISOString().slice(0, 16).replace("T", " "),
@@ -352,8 +484,67 @@ export class TaskHandlers {
 
 		try {
 			const updateInput = buildTaskUpdateInput(editArgs);
-			const updatedTask = await this.core.editTask(editArgs.id, updateInput);
-			return await formatTaskCallResult(updatedTask);
+			const { task: updatedTask, warnings } = await this.core.editTask(editArgs.id, updateInput);
+			return await formatTaskCallResult(updatedTask, formatWarnings(warnings));
+		} catch (error) {
+			if (error instanceof Error) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw new McpError(String(error), "VALIDATION_ERROR");
+		}
+	}
+
+	async logWork(args: TaskLogWorkArgs): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		const author = args.author || (await resolveDefaultAuthor(this.core));
+		const note = args.note?.trim();
+
+		const editArgs: TaskEditRequest = {
+			id: task.id,
+			worklogEntry: {
+				author: author || "unknown",
+				duration: args.duration,
+				date: args.date || new Date().toISOString().slice(0, 16).replace("T", " "),
+				...(note && { note }),
+			},
+		};
+
+		if (args.remaining !== undefined) {
+			editArgs.remaining = args.remaining;
+		}
+
+		try {
+			const updateInput = buildTaskUpdateInput(editArgs);
+			const { task: updatedTask, warnings } = await this.core.editTask(editArgs.id, updateInput);
+			return await formatTaskCallResult(updatedTask, formatWarnings(warnings));
+		} catch (error) {
+			if (error instanceof Error) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw new McpError(String(error), "VALIDATION_ERROR");
+		}
+	}
+
+	async addComment(args: TaskCommentAddArgs): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		const author = args.author || (await resolveDefaultAuthor(this.core));
+
+		const editArgs: TaskEditRequest = {
+			id: task.id,
+			commentEntry: {
+				author: author || "unknown",
+				date: new Date().toISOString().slice(0, 16).replace("T", " "),
+				body: args.body,
+				...(args.replyTo !== undefined && { replyTo: args.replyTo }),
+			},
+		};
+
+		try {
+			const { task: updatedTask } = await this.core.editTask(editArgs.id, buildTaskUpdateInput(editArgs));
+			const comment = updatedTask.comments?.at(-1);
+			return {
+				content: [{ type: "text", text: `Added comment #${comment?.id} to ${updatedTask.id}.` }],
+			};
 		} catch (error) {
 			if (error instanceof Error) {
 				throw new McpError(error.message, "VALIDATION_ERROR");
@@ -361,6 +552,37 @@ export class TaskHandlers {
 			throw new McpError(String(error), "VALIDATION_ERROR");
 		}
 	}
+
+	async listComments(args: { id: string }): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		const comments = task.comments ?? [];
+		return {
+			content: [
+				{
+					type: "text",
+					text:
+						comments.length > 0
+							? `Comments on ${task.id}:\n${formatCommentThreads(comments).join("\n")}`
+							: `No comments on ${task.id}.`,
+				},
+			],
+		};
+	}
+
+	async taskStats(args: TaskStatsArgs): Promise<CallToolResult> {
+		if (args.since && !/^\d{4}-\d{2}-\d{2}$/.test(args.since)) {
+			throw new McpError(`Invalid since date: ${args.since}. Use YYYY-MM-DD.`, "VALIDATION_ERROR");
+		}
+		const stats = await this.core.getFlowStatistics({ since: args.since });
+		return {
+			content: [
+				{
+					type: "text",
+					text: formatFlowStatisticsPlainText(stats, { groupings: args.groupBy, since: args.since }),
+				},
+			],
+		};
+	}
 }
 
 export type { TaskEditArgs, TaskEditRequest };
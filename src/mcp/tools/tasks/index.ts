@@ -1,16 +1,36 @@
 import type { BacklogConfig } from "../../../types/index.ts";
 import type { McpServer } from "../../server.ts";
 import type { McpToolHandler } from "../../types.ts";
-import { generateTaskCreateSchema, generateTaskEditSchema } from "../../utils/schema-generators.ts";
+import {
+	generateTaskBulkEditSchema,
+	generateTaskCreateSchema,
+	generateTaskEditSchema,
+} from "../../utils/schema-generators.ts";
 import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
-import type { TaskCreateArgs, TaskEditRequest, TaskEventArgs, TaskListArgs, TaskSearchArgs } from "./handlers.ts";
+import type {
+	TaskBulkEditArgs,
+	TaskCommentAddArgs,
+	TaskCreateArgs,
+	TaskEditRequest,
+	TaskEventArgs,
+	TaskListArgs,
+	TaskLogWorkArgs,
+	TaskRestoreArgs,
+	TaskSearchArgs,
+	TaskStatsArgs,
+} from "./handlers.ts";
 import { TaskHandlers } from "./handlers.ts";
 import {
 	taskArchiveSchema,
+	taskCommentAddSchema,
+	taskCommentListSchema,
 	taskCompleteSchema,
 	taskEventSchema,
 	taskListSchema,
+	taskLogWorkSchema,
+	taskRestoreSchema,
 	taskSearchSchema,
+	taskStatsSchema,
 	taskViewSchema,
 } from "./schemas.ts";
 
@@ -19,6 +39,7 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 
 	const taskCreateSchema = generateTaskCreateSchema(config);
 	const taskEditSchema = generateTaskEditSchema(config);
+	const taskBulkEditSchema = generateTaskBulkEditSchema(config);
 
 	const createTaskTool: McpToolHandler = createSimpleValidatedTool(
 		{
@@ -61,6 +82,17 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 		async (input) => handlers.editTask(input as unknown as TaskEditRequest),
 	);
 
+	const bulkEditTaskTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_bulk_edit",
+			description:
+				"Apply the same change (status, priority, milestone, assignees, labels, dates, custom fields) to many tasks selected by id and/or filter query, in one commit",
+			inputSchema: taskBulkEditSchema,
+		},
+		taskBulkEditSchema,
+		async (input) => handlers.bulkEditTasks(input as TaskBulkEditArgs),
+	);
+
 	const viewTaskTool: McpToolHandler = createSimpleValidatedTool(
 		{
 			name: "task_view",
@@ -78,7 +110,7 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 			inputSchema: taskArchiveSchema,
 		},
 		taskArchiveSchema,
-		async (input) => handlers.archiveTask(input as { id: string }),
+		async (input) => handlers.archiveTask(input as { id: string; unlinkDependents?: boolean }),
 	);
 
 	const completeTaskTool: McpToolHandler = createSimpleValidatedTool(
@@ -91,25 +123,89 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 		async (input) => handlers.completeTask(input as { id: string }),
 	);
 
+	const restoreTaskTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_restore",
+			description:
+				"Move an archived or completed task back to the backlog, optionally with a new status; dependencies removed on archive are put back",
+			inputSchema: taskRestoreSchema,
+		},
+		taskRestoreSchema,
+		async (input) => handlers.restoreTask(input as TaskRestoreArgs),
+	);
+
 	const taskEventTool: McpToolHandler = createSimpleValidatedTool(
 		{
 			name: "task_event",
-			description: "Add an event to the task history (e.g. status change, comment, update)",
+			description: "Add an event to the task history (e.g. status change, update); use task_comment_add for discussion",
 			inputSchema: taskEventSchema,
 		},
 		taskEventSchema,
 		async (input) => handlers.taskEvent(input as TaskEventArgs),
 	);
 
+	const taskLogWorkTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_log_work",
+			description: "Log time spent on a task and optionally update its remaining effort",
+			inputSchema: taskLogWorkSchema,
+		},
+		taskLogWorkSchema,
+		async (input) => handlers.logWork(input as TaskLogWorkArgs),
+	);
+
+	const taskCommentAddTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_comment_add",
+			description: "Comment on a task or reply to an earlier comment, without changing the task itself",
+			inputSchema: taskCommentAddSchema,
+		},
+		taskCommentAddSchema,
+		async (input) => handlers.addComment(input as TaskCommentAddArgs),
+	);
+
+	const taskCommentListTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_comment_list",
+			description: "Show the comment thread of a task",
+			inputSchema: taskCommentListSchema,
+		},
+		taskCommentListSchema,
+		async (input) => handlers.listComments(input as { id: string }),
+	);
+
+	const taskStatsTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_stats",
+			description: "Lead time and cycle time percentiles for done tasks, by label, assignee and priority",
+			inputSchema: taskStatsSchema,
+		},
+		taskStatsSchema,
+		async (input) => handlers.taskStats(input as TaskStatsArgs),
+	);
+
 	server.addTool(createTaskTool);
 	server.addTool(listTaskTool);
 	server.addTool(searchTaskTool);
 	server.addTool(editTaskTool);
+	server.addTool(bulkEditTaskTool);
 	server.addTool(viewTaskTool);
 	server.addTool(archiveTaskTool);
 	server.addTool(completeTaskTool);
+	server.addTool(restoreTaskTool);
 	server.addTool(taskEventTool);
+	server.addTool(taskLogWorkTool);
+	server.addTool(taskCommentAddTool);
+	server.addTool(taskCommentListTool);
+	server.addTool(taskStatsTool);
 }
 
 export type { TaskCreateArgs, TaskEditArgs, TaskListArgs, TaskSearchArgs } from "./handlers.ts";
-export { taskArchiveSchema, taskCompleteSchema, taskListSchema, taskSearchSchema, taskViewSchema } from "./schemas.ts";
+export {
+	taskArchiveSchema,
+	taskCompleteSchema,
+	taskListSchema,
+	taskRestoreSchema,
+	taskSearchSchema,
+	taskViewSchema,
+} from "./schemas.ts";
@@ -19,6 +19,26 @@ export const taskListSchema: JsonSchema = {
 			type: "string",
 			maxLength: 200,
 		},
+		query: {
+			type: "string",
+			maxLength: 500,
+			description:
+				'Filter query, e.g. status:"In Progress" label:bug -assignee:@me priority>=medium updated:<7d. Supports AND, OR, NOT/- and parentheses',
+		},
+		overdue: {
+			type: "boolean",
+			description: "Only open tasks past their due date",
+		},
+		dueBefore: {
+			type: "string",
+			maxLength: 10,
+			description: "Only tasks due on or before this date (YYYY-MM-DD)",
+		},
+		dueAfter: {
+			type: "string",
+			maxLength: 10,
+			description: "Only tasks due on or after this date (YYYY-MM-DD)",
+		},
 		limit: {
 			type: "number",
 			minimum: 1,
@@ -45,6 +65,11 @@ export const taskSearchSchema: JsonSchema = {
 			type: "string",
 			enum: ["high", "medium", "low"],
 		},
+		filter: {
+			type: "string",
+			maxLength: 500,
+			description: "Filter query applied to the matches, using the same syntax as task_list's query",
+		},
 		limit: {
 			type: "number",
 			minimum: 1,
@@ -76,6 +101,11 @@ export const taskArchiveSchema: JsonSchema = {
 			minLength: 1,
 			maxLength: 50,
 		},
+		unlinkDependents: {
+			type: "boolean",
+			description:
+				"Also remove the task from the dependencies of active tasks. A later task_restore puts those dependencies back.",
+		},
 	},
 	required: ["id"],
 	additionalProperties: false,
@@ -94,6 +124,24 @@ export const taskCompleteSchema: JsonSchema = {
 	additionalProperties: false,
 };
 
+export const taskRestoreSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		status: {
+			type: "string",
+			maxLength: 100,
+			description: "Status to restore the task with. Defaults to the status it was archived or completed with.",
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
 export const taskEventSchema: JsonSchema = {
 	type: "object",
 	properties: {
@@ -119,6 +167,102 @@ export const taskEventSchema: JsonSchema = {
 	additionalProperties: false,
 };
 
+export const taskLogWorkSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		duration: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+			description: "Time spent, e.g. 30m, 2h, 1h 30m or 1d (8h working day).",
+		},
+		note: {
+			type: "string",
+			maxLength: 1000,
+		},
+		author: {
+			type: "string",
+			maxLength: 100,
+		},
+		date: {
+			type: "string",
+			maxLength: 20,
+			description: "Date of the work (YYYY-MM-DD or YYYY-MM-DD HH:mm). Defaults to now.",
+		},
+		remaining: {
+			type: "string",
+			maxLength: 50,
+			description: "Optionally set the remaining effort after this entry.",
+		},
+	},
+	required: ["id", "duration"],
+	additionalProperties: false,
+};
+
+export const taskCommentAddSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		body: {
+			type: "string",
+			minLength: 1,
+			maxLength: 10000,
+			description: "Comment text (markdown).",
+		},
+		replyTo: {
+			type: "number",
+			minimum: 1,
+			description: "Number of the comment this one answers.",
+		},
+		author: {
+			type: "string",
+			maxLength: 100,
+		},
+	},
+	required: ["id", "body"],
+	additionalProperties: false,
+};
+
+export const taskCommentListSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const taskStatsSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		since: {
+			type: "string",
+			maxLength: 10,
+			description: "Only include tasks completed on or after this date (YYYY-MM-DD).",
+		},
+		groupBy: {
+			type: "array",
+			items: { type: "string", enum: ["label", "assignee", "priority"] },
+			description: "Breakdowns to include (default: label, assignee and priority).",
+		},
+	},
+	required: [],
+	additionalProperties: false,
+};
+
 export const taskDemoteSchema: JsonSchema = {
 	type: "object",
 	properties: {
@@ -0,0 +1,79 @@
+import { describeSavedView, formatViewPlainText } from "../../../formatters/view-plain-text.ts";
+import type { SavedView } from "../../../types/index.ts";
+import { McpError } from "../../errors/mcp-errors.ts";
+import type { McpServer } from "../../server.ts";
+import type { CallToolResult } from "../../types.ts";
+
+export type ViewRunArgs = {
+	name: string;
+	query?: string;
+};
+
+export type ViewSaveArgs = {
+	name: string;
+	description?: string;
+	query?: string;
+	sort?: SavedView["sort"];
+	groupBy?: SavedView["groupBy"];
+	columns?: SavedView["columns"];
+};
+
+export type ViewDeleteArgs = {
+	name: string;
+};
+
+function text(value: string): CallToolResult {
+	return { content: [{ type: "text", text: value }] };
+}
+
+export class ViewHandlers {
+	constructor(private readonly core: McpServer) {}
+
+	async listViews(): Promise<CallToolResult> {
+		const views = await this.core.filesystem.listViews();
+		if (views.length === 0) {
+			return text("No saved views. Use view_save to create one.");
+		}
+		const lines = views.map(
+			(view) => `- ${view.name}${view.description ? `: ${view.description}` : ""} (${describeSavedView(view)})`,
+		);
+		return text(`Saved views (${views.length}):\n${lines.join("\n")}`);
+	}
+
+	async runView(args: ViewRunArgs): Promise<CallToolResult> {
+		try {
+			const result = await this.core.runView(args.name, {
+				filters: { query: args.query },
+				includeCrossBranch: false,
+			});
+			const milestones = await this.core.filesystem.listMilestones();
+			return text(formatViewPlainText(result, milestones));
+		} catch (error) {
+			throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+		}
+	}
+
+	async saveView(args: ViewSaveArgs): Promise<CallToolResult> {
+		const view: SavedView = {
+			name: args.name.trim(),
+			...(args.description && { description: args.description }),
+			...(args.query && { query: args.query }),
+			...(args.sort && { sort: args.sort }),
+			...(args.groupBy && { groupBy: args.groupBy }),
+			...(args.columns && args.columns.length > 0 && { columns: args.columns }),
+		};
+		try {
+			await this.core.saveView(view);
+		} catch (error) {
+			throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+		}
+		return text(`Saved view ${view.name} (${describeSavedView(view)}).`);
+	}
+
+	async deleteView(args: ViewDeleteArgs): Promise<CallToolResult> {
+		if (!(await this.core.deleteView(args.name))) {
+			throw new McpError(`View not found: ${args.name}`, "VALIDATION_ERROR");
+		}
+		return text(`Deleted view ${args.name}.`);
+	}
+}
@@ -0,0 +1,55 @@
+import type { McpServer } from "../../server.ts";
+import type { McpToolHandler } from "../../types.ts";
+import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
+import type { ViewDeleteArgs, ViewRunArgs, ViewSaveArgs } from "./handlers.ts";
+import { ViewHandlers } from "./handlers.ts";
+import { viewDeleteSchema, viewListSchema, viewRunSchema, viewSaveSchema } from "./schemas.ts";
+
+export function registerViewTools(server: McpServer): void {
+	const handlers = new ViewHandlers(server);
+
+	const listTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "view_list",
+			description: "List saved views (named queries with sort, grouping and columns) from backlog/views.yml",
+			inputSchema: viewListSchema,
+		},
+		viewListSchema,
+		async () => handlers.listViews(),
+	);
+
+	const runTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "view_run",
+			description: "List the tasks in a saved view, sorted and grouped the way the view describes",
+			inputSchema: viewRunSchema,
+		},
+		viewRunSchema,
+		async (input) => handlers.runView(input as ViewRunArgs),
+	);
+
+	const saveTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "view_save",
+			description: "Create or replace a saved view",
+			inputSchema: viewSaveSchema,
+		},
+		viewSaveSchema,
+		async (input) => handlers.saveView(input as ViewSaveArgs),
+	);
+
+	const deleteTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "view_delete",
+			description: "Delete a saved view",
+			inputSchema: viewDeleteSchema,
+		},
+		viewDeleteSchema,
+		async (input) => handlers.deleteView(input as ViewDeleteArgs),
+	);
+
+	server.addTool(listTool);
+	server.addTool(runTool);
+	server.addTool(saveTool);
+	server.addTool(deleteTool);
+}
@@ -0,0 +1,73 @@
+import { VIEW_COLUMNS, VIEW_GROUPINGS, VIEW_SORT_FIELDS } from "../../../core/views.ts";
+import type { JsonSchema } from "../../validation/validators.ts";
+
+const viewName: JsonSchema = {
+	type: "string",
+	minLength: 1,
+	maxLength: 100,
+	description: "View name (letters, digits, '-' and '_'; matched case-insensitively)",
+};
+
+export const viewListSchema: JsonSchema = {
+	type: "object",
+	properties: {},
+	required: [],
+	additionalProperties: false,
+};
+
+export const viewRunSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: viewName,
+		query: {
+			type: "string",
+			maxLength: 1000,
+			description: "Extra filter query to narrow the view, e.g. 'assignee:@me'",
+		},
+	},
+	required: ["name"],
+	additionalProperties: false,
+};
+
+export const viewSaveSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: viewName,
+		description: {
+			type: "string",
+			maxLength: 500,
+			description: "Short description shown in view lists",
+		},
+		query: {
+			type: "string",
+			maxLength: 1000,
+			description: "Filter query, e.g. 'status:\"In Progress\" label:bug -assignee:@me'",
+		},
+		sort: {
+			type: "string",
+			maxLength: 50,
+			description: `Sort order: ${Object.keys(VIEW_SORT_FIELDS).join(", ")} or a custom field name (default: priority)`,
+		},
+		groupBy: {
+			type: "string",
+			enum: Object.keys(VIEW_GROUPINGS),
+			description: "Grouping (default: none)",
+		},
+		columns: {
+			type: "array",
+			items: { type: "string", enum: Object.keys(VIEW_COLUMNS) },
+			description: "Columns to show (default: id, title, status, priority, assignee)",
+		},
+	},
+	required: ["name"],
+	additionalProperties: false,
+};
+
+export const viewDeleteSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: viewName,
+	},
+	required: ["name"],
+	additionalProperties: false,
+};
@@ -1,5 +1,6 @@
 import { DEFAULT_STATUSES } from "../../constants/index.ts";
-import type { BacklogConfig } from "../../types/index.ts";
+import { CUSTOM_FIELD_TYPES, getCustomFieldLabel } from "../../core/custom-fields.ts";
+import type { BacklogConfig, CustomFieldDefinition } from "../../types/index.ts";
 import type { JsonSchema } from "../validation/validators.ts";
 
 /**
@@ -21,10 +22,46 @@ export function generateStatusFieldSchema(config: BacklogConfig): JsonSchema {
 	};
 }
 
+function generateCustomFieldSchema(field: CustomFieldDefinition): JsonSchema {
+	const description = [getCustomFieldLabel(field), field.description].filter(Boolean).join(": ");
+	switch (field.type) {
+		case "number":
+			return { type: "number", description };
+		case "boolean":
+			return { type: "boolean", description };
+		case "enum":
+			return { type: "string", enum: field.options ?? [], enumCaseInsensitive: true, description };
+		default:
+			return { type: "string", maxLength: 200, description: `${description} (${CUSTOM_FIELD_TYPES[field.type]})` };
+	}
+}
+
+/**
+ * Generates the `customFields` property from the fields defined in config, or
+ * undefined when the project has none
+ */
+function generateCustomFieldsSchema(config: BacklogConfig, mode: "create" | "edit"): JsonSchema | undefined {
+	const fields = config.customFields ?? [];
+	if (fields.length === 0) {
+		return undefined;
+	}
+	const required = fields.filter((field) => field.required).map((field) => field.name);
+	return {
+		type: "object",
+		properties: Object.fromEntries(fields.map((field) => [field.name, generateCustomFieldSchema(field)])),
+		additionalProperties: false,
+		description:
+			mode === "create"
+				? `Custom field values keyed by name.${required.length > 0 ? ` Required: ${required.join(", ")}.` : ""}`
+				: "Custom field values to set, keyed by name; null clears a field.",
+	};
+}
+
 /**
  * Generates the task_create input schema with dynamic status enum
  */
 export function generateTaskCreateSchema(config: BacklogConfig): JsonSchema {
+	const customFields = generateCustomFieldsSchema(config, "create");
 	return {
 		type: "object",
 		properties: {
@@ -80,6 +117,22 @@ export function generateTaskCreateSchema(config: BacklogConfig): JsonSchema {
 				type: "string",
 				maxLength: 50,
 			},
+			estimate: {
+				type: "string",
+				maxLength: 50,
+				description: "Effort estimate such as 30m, 4h, 1h 30m or 1d (8h working day).",
+			},
+			startDate: {
+				type: "string",
+				maxLength: 16,
+				description: "Planned start date, YYYY-MM-DD or YYYY-MM-DD HH:mm.",
+			},
+			dueDate: {
+				type: "string",
+				maxLength: 16,
+				description: "Due date, YYYY-MM-DD or YYYY-MM-DD HH:mm.",
+			},
+			...(customFields && { customFields }),
 		},
 		required: ["title"],
 		additionalProperties: false,
@@ -90,6 +143,7 @@ export function generateTaskCreateSchema(config: BacklogConfig): JsonSchema {
  * Generates the task_edit input schema with dynamic status enum and MCP-specific operations.
  */
 export function generateTaskEditSchema(config: BacklogConfig): JsonSchema {
+	const customFields = generateCustomFieldsSchema(config, "edit");
 	return {
 		type: "object",
 		properties: {
@@ -138,6 +192,26 @@ export function generateTaskEditSchema(config: BacklogConfig): JsonSchema {
 					maxLength: 50,
 				},
 			},
+			estimate: {
+				type: "string",
+				maxLength: 50,
+				description: "Set the effort estimate (e.g. 4h, 1d) or clear it with an empty string.",
+			},
+			remaining: {
+				type: "string",
+				maxLength: 50,
+				description: "Set the remaining effort (e.g. 2h) or clear it with an empty string.",
+			},
+			startDate: {
+				type: "string",
+				maxLength: 16,
+				description: "Set the start date (YYYY-MM-DD) or clear it with an empty string.",
+			},
+			dueDate: {
+				type: "string",
+				maxLength: 16,
+				description: "Set the due date (YYYY-MM-DD or YYYY-MM-DD HH:mm) or clear it with an empty string.",
+			},
 			implementationNotes: {
 				type: "string",
 				maxLength: 10000,
@@ -212,8 +286,90 @@ export function generateTaskEditSchema(config: BacklogConfig): JsonSchema {
 				},
 				maxItems: 50,
 			},
+			...(customFields && { customFields }),
 		},
 		required: ["id"],
 		additionalProperties: false,
 	};
 }
+
+/**
+ * Generates the task_bulk_edit input schema: a selection plus the fields that
+ * make sense to change across many tasks at once
+ */
+export function generateTaskBulkEditSchema(config: BacklogConfig): JsonSchema {
+	const customFields = generateCustomFieldsSchema(config, "edit");
+	return {
+		type: "object",
+		properties: {
+			ids: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 50,
+				},
+				maxItems: 500,
+				description: "Task ids to edit. Combined with query, only the listed tasks that match are edited.",
+			},
+			query: {
+				type: "string",
+				maxLength: 500,
+				description: "Filter query selecting the tasks, using the same syntax as task_list's query",
+			},
+			dryRun: {
+				type: "boolean",
+				description: "Only list the tasks that would be edited",
+			},
+			status: generateStatusFieldSchema(config),
+			priority: {
+				type: "string",
+				enum: ["high", "medium", "low"],
+			},
+			milestone: {
+				type: "string",
+				maxLength: 100,
+				description: "Set the milestone, or clear it with an empty string.",
+			},
+			assignee: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 100,
+				},
+				description: "Replace the assignees; @me is the current user.",
+			},
+			addLabels: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 50,
+				},
+			},
+			removeLabels: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 50,
+				},
+			},
+			startDate: {
+				type: "string",
+				maxLength: 16,
+				description: "Set the start date (YYYY-MM-DD) or clear it with an empty string.",
+			},
+			dueDate: {
+				type: "string",
+				maxLength: 16,
+				description: "Set the due date (YYYY-MM-DD or YYYY-MM-DD HH:mm) or clear it with an empty string.",
+			},
+			estimate: {
+				type: "string",
+				maxLength: 50,
+				description: "Set the effort estimate (e.g. 4h, 1d) or clear it with an empty string.",
+			},
+			...(customFields && { customFields }),
+		},
+		required: [],
+		additionalProperties: false,
+	};
+}
@@ -20,3 +20,8 @@ export async function formatTaskCallResult(
 		],
 	};
 }
+
+/** Summary lines for warnings that came with a change, e.g. a WIP limit it exceeds */
+export function formatWarnings(warnings: string[]): string[] {
+	return warnings.map((warning) => `Warning: ${warning}`);
+}
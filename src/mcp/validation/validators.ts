@@ -202,6 +202,33 @@ function validateField(
 			return { isValid: true, errors: [], sanitizedValue: boolValue };
 		}
 
+		case "object": {
+			if (typeof value !== "object" || Array.isArray(value)) {
+				errors.push(`Field '${fieldName}' must be an object`);
+				break;
+			}
+
+			// Nested values keep null so callers can use it to clear them
+			const sanitizedObject: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				const itemSchema = schema.properties?.[key];
+				if (!itemSchema) {
+					if (schema.additionalProperties === false) {
+						errors.push(`Unknown field '${fieldName}.${key}' is not allowed`);
+					}
+					continue;
+				}
+				const itemResult = validateField(`${fieldName}.${key}`, item, itemSchema);
+				if (!itemResult.isValid) {
+					errors.push(...itemResult.errors);
+				} else if (itemResult.sanitizedValue !== undefined) {
+					sanitizedObject[key] = itemResult.sanitizedValue;
+				}
+			}
+
+			return { isValid: errors.length === 0, errors, sanitizedValue: sanitizedObject };
+		}
+
 		default: {
 			errors.push(`Unknown schema type '${schema.type}' for field '${fieldName}'`);
 		}
@@ -1,11 +1,17 @@
 import { join } from "node:path";
 import { exportKanbanBoardToFile } from "./board.ts";
-import type { Task } from "./types/index.ts";
+import type { Task, WipLimitsConfig } from "./types/index.ts";
 
 const BOARD_START = "<!-- BOARD_START -->";
 const BOARD_END = "<!-- BOARD_END -->";
 
-export async function updateReadmeWithBoard(tasks: Task[], statuses: string[], projectName: string, version?: string) {
+export async function updateReadmeWithBoard(
+	tasks: Task[],
+	statuses: string[],
+	projectName: string,
+	version?: string,
+	wipLimits?: WipLimitsConfig,
+) {
 	const readmePath = join(process.cwd(), "README.md");
 	let readmeContent = "";
 	try {
@@ -17,7 +23,7 @@ export async function updateReadmeWithBoard(tasks: Task[], statuses: string[], p
 	// Use the same high-quality board generation as file export
 	// Create a temporary file to get the properly formatted board
 	const tempPath = join(process.cwd(), ".temp-board.md");
-	await exportKanbanBoardToFile(tasks, statuses, tempPath, projectName);
+	await exportKanbanBoardToFile(tasks, statuses, tempPath, projectName, false, { wipLimits });
 	const fullBoardContent = await Bun.file(tempPath).text();
 
 	// Extract timestamp from the board content
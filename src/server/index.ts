@@ -1,28 +1,53 @@
-import { dirname, join } from "node:path";
+import { join } from "node:path";
 import type { Server, ServerWebSocket } from "bun";
 import { $ } from "bun";
+import { AttachmentError, isImageAsset, MAX_ATTACHMENT_BYTES } from "../core/assets.ts";
 import { Core } from "../core/backlog.ts";
 import type { ContentStore } from "../core/content-store.ts";
 import { initializeProject } from "../core/init.ts";
+import { JournalError } from "../core/journal.ts";
+import { MAX_METRICS_DAYS } from "../core/metrics.ts";
+import { isTaskRelationKind, TASK_RELATION_KINDS } from "../core/relations.ts";
+import { RestoreError } from "../core/restore.ts";
 import type { SearchService } from "../core/search-service.ts";
 import { getTaskStatistics } from "../core/statistics.ts";
-import type { SearchPriorityFilter, SearchResultType, Task, TaskUpdateInput } from "../types/index.ts";
+import { compileTaskQuery, type TaskPredicate, TaskQueryError } from "../core/task-query.ts";
+import { TransitionError } from "../core/transitions.ts";
+import { WipLimitError } from "../core/wip-limits.ts";
+import { isPlainObject } from "../file-system/config-yaml.ts";
+import type {
+	SavedView,
+	SearchPriorityFilter,
+	SearchResultType,
+	Task,
+	TaskRelationKind,
+	TaskUpdateInput,
+} from "../types/index.ts";
 import { watchConfig } from "../utils/config-watcher.ts";
+import { parseDuration } from "../utils/duration.ts";
+import { resolveDefaultAuthor } from "../utils/task-builders.ts";
+import { normalizeTaskId, taskIdsEqual } from "../utils/task-path.ts";
+import { stripTaskPrefix } from "../utils/task-prefix.ts";
 import { getVersion } from "../utils/version.ts";
 
-const TASK_ID_PREFIX = "task-";
-
 function parseTaskIdSegments(value: string): number[] | null {
-	const withoutPrefix = value.startsWith(TASK_ID_PREFIX) ? value.slice(TASK_ID_PREFIX.length) : value;
+	const withoutPrefix = stripTaskPrefix(value);
 	if (!/^[0-9]+(?:\.[0-9]+)*$/.test(withoutPrefix)) {
 		return null;
 	}
 	return withoutPrefix.split(".").map((segment) => Number.parseInt(segment, 10));
 }
 
+/** Largest attachment upload accepted, with room for the multipart headers around the file */
+const MAX_UPLOAD_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+/** Task JSON with the warnings that came with the change, e.g. a WIP limit it exceeds */
+function withWarnings(task: Task, warnings: string[]): Task & { warnings?: string[] } {
+	return warnings.length > 0 ? { ...task, warnings } : task;
+}
+
 function findTaskByLooseId(tasks: Task[], inputId: string): Task | undefined {
-	const normalized = inputId.startsWith(TASK_ID_PREFIX) ? inputId : `${TASK_ID_PREFIX}${inputId}`;
-	const exact = tasks.find((task) => task.id === normalized);
+	const exact = tasks.find((task) => task.id.toLowerCase() === inputId.toLowerCase());
 	if (exact) {
 		return exact;
 	}
@@ -159,12 +184,15 @@ export class BacklogServer {
 					"/": indexHtml,
 					"/tasks": indexHtml,
 					"/milestones": indexHtml,
+					"/timeline": indexHtml,
 					"/drafts": indexHtml,
+					"/archive": indexHtml,
 					"/documentation": indexHtml,
 					"/documentation/*": indexHtml,
 					"/decisions": indexHtml,
 					"/decisions/*": indexHtml,
 					"/statistics": indexHtml,
+					"/views/*": indexHtml,
 					"/settings": indexHtml,
 
 					// API Routes using Bun's native route syntax
@@ -180,9 +208,24 @@ export class BacklogServer {
 						PUT: async (req: Request & { params: { id: string } }) => await this.handleUpdateTask(req, req.params.id),
 						DELETE: async (req: Request & { params: { id: string } }) => await this.handleDeleteTask(req.params.id),
 					},
+					"/api/tasks/:id/comments": {
+						POST: async (req: Request & { params: { id: string } }) => await this.handleAddComment(req, req.params.id),
+					},
+					"/api/tasks/:id/relations": {
+						GET: async (req: Request & { params: { id: string } }) => await this.handleGetRelations(req.params.id),
+					},
+					"/api/tasks/:id/attachments": {
+						POST: async (req: Request & { params: { id: string } }) => await this.handleAttachFile(req, req.params.id),
+					},
 					"/api/tasks/:id/complete": {
 						POST: async (req: Request & { params: { id: string } }) => await this.handleCompleteTask(req.params.id),
 					},
+					"/api/tasks/:id/restore": {
+						POST: async (req: Request & { params: { id: string } }) => await this.handleRestoreTask(req, req.params.id),
+					},
+					"/api/archive": {
+						GET: async () => await this.handleListArchive(),
+					},
 					"/api/statuses": {
 						GET: async () => await this.handleGetStatuses(),
 					},
@@ -226,6 +269,14 @@ export class BacklogServer {
 					"/api/milestones/:id": {
 						GET: async (req: Request & { params: { id: string } }) => await this.handleGetMilestone(req.params.id),
 					},
+					"/api/views": {
+						GET: async () => await this.handleListViews(),
+						POST: async (req: Request) => await this.handleSaveView(req),
+					},
+					"/api/views/:name": {
+						GET: async (req: Request & { params: { name: string } }) => await this.handleRunView(req.params.name),
+						DELETE: async (req: Request & { params: { name: string } }) => await this.handleDeleteView(req.params.name),
+					},
 					"/api/tasks/reorder": {
 						POST: async (req: Request) => await this.handleReorderTask(req),
 					},
@@ -235,12 +286,24 @@ export class BacklogServer {
 					"/api/tasks/cleanup/execute": {
 						POST: async (req: Request) => await this.handleCleanupExecute(req),
 					},
+					"/api/journal": {
+						GET: async () => await this.handleGetJournal(),
+					},
+					"/api/journal/undo": {
+						POST: async (req: Request) => await this.handleReplayJournal("undo", req),
+					},
+					"/api/journal/redo": {
+						POST: async (req: Request) => await this.handleReplayJournal("redo", req),
+					},
 					"/api/version": {
 						GET: async () => await this.handleGetVersion(),
 					},
 					"/api/statistics": {
 						GET: async () => await this.handleGetStatistics(),
 					},
+					"/api/metrics": {
+						GET: async (req: Request) => await this.handleGetMetrics(req),
+					},
 					"/api/status": {
 						GET: async () => await this.handleGetStatus(),
 					},
@@ -262,6 +325,9 @@ export class BacklogServer {
 					"/api/sequences/move": {
 						POST: async (req: Request) => await this.handleMoveSequence(req),
 					},
+					"/api/sequences/critical-path": {
+						GET: async (req: Request) => await this.handleGetCriticalPath(req),
+					},
 					// Serve files placed under backlog/assets at /assets/<relative-path>
 					"/assets/*": {
 						GET: async (req: Request) => await this.handleAssetRequest(req),
@@ -417,10 +483,7 @@ export class BacklogServer {
 			// disallow traversal
 			if (relPath.includes("..")) return new Response("Not Found", { status: 404 });
 
-			// derive backlog root from docsDir (parent of backlog/docs)
-			const docsDir = this.core.filesystem.docsDir;
-			const backlogRoot = dirname(docsDir);
-			const assetsRoot = join(backlogRoot, "assets");
+			const assetsRoot = this.core.filesystem.assetsDir;
 			const filePath = join(assetsRoot, relPath);
 
 			if (!filePath.startsWith(assetsRoot)) return new Response("Not Found", { status: 404 });
@@ -444,7 +507,16 @@ export class BacklogServer {
 			};
 
 			const mime = mimeMap[ext] ?? "application/octet-stream";
-			return new Response(file, { headers: { "Content-Type": mime } });
+			// Assets include uploaded attachments, served from the same origin as the API:
+			// never let them run script, and download everything but the images the board shows
+			return new Response(file, {
+				headers: {
+					"Content-Type": mime,
+					"X-Content-Type-Options": "nosniff",
+					"Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+					...(!isImageAsset(filePath) && { "Content-Disposition": "attachment" }),
+				},
+			});
 		} catch (error) {
 			console.error("Error serving asset:", error);
 			return new Response("Internal Server Error", { status: 500 });
@@ -484,6 +556,7 @@ export class BacklogServer {
 		const parent = url.searchParams.get("parent") || undefined;
 		const priorityParam = url.searchParams.get("priority") || undefined;
 		const crossBranch = url.searchParams.get("crossBranch") === "true";
+		const filterQuery = url.searchParams.get("filter") || undefined;
 		const labelParams = [...url.searchParams.getAll("label"), ...url.searchParams.getAll("labels")];
 		const labelsCsv = url.searchParams.get("labels");
 		if (labelsCsv) {
@@ -508,27 +581,39 @@ export class BacklogServer {
 			const allTasks = store.getTasks();
 			let parentTask = findTaskByLooseId(allTasks, parent);
 			if (!parentTask) {
-				const fallbackId = parent.startsWith(TASK_ID_PREFIX) ? parent : `${TASK_ID_PREFIX}${parent}`;
-				const fallback = await this.core.filesystem.loadTask(fallbackId);
+				const fallback = await this.core.filesystem.loadTask(parent);
 				if (fallback) {
 					store.upsertTask(fallback);
 					parentTask = fallback;
 				}
 			}
 			if (!parentTask) {
-				const normalizedParent = parent.startsWith(TASK_ID_PREFIX) ? parent : `${TASK_ID_PREFIX}${parent}`;
+				const normalizedParent = normalizeTaskId(parent, await this.core.filesystem.getTaskPrefix());
 				return Response.json({ error: `Parent task ${normalizedParent} not found` }, { status: 404 });
 			}
 			parentTaskId = parentTask.id;
 		}
 
 		// Use Core.queryTasks which handles all filtering and cross-branch logic
-		const tasks = await this.core.queryTasks({
-			filters: { status, assignee, priority, parentTaskId, labels: labels.length > 0 ? labels : undefined },
-			includeCrossBranch: crossBranch,
-		});
-
-		return Response.json(tasks);
+		try {
+			const tasks = await this.core.queryTasks({
+				filters: {
+					status,
+					assignee,
+					priority,
+					parentTaskId,
+					labels: labels.length > 0 ? labels : undefined,
+					query: filterQuery,
+				},
+				includeCrossBranch: crossBranch,
+			});
+			return Response.json(tasks);
+		} catch (error) {
+			if (error instanceof TaskQueryError) {
+				return Response.json({ error: error.message }, { status: 400 });
+			}
+			throw error;
+		}
 	}
 
 	private async handleSearch(req: Request): Promise<Response> {
@@ -536,11 +621,14 @@ export class BacklogServer {
 			const searchService = await this.getSearchServiceInstance();
 			const url = new URL(req.url);
 			const query = url.searchParams.get("query") ?? undefined;
+			const filterQuery = url.searchParams.get("filter")?.trim();
 			const limitParam = url.searchParams.get("limit");
 			const typeParams = [...url.searchParams.getAll("type"), ...url.searchParams.getAll("types")];
 			const statusParams = url.searchParams.getAll("status");
 			const priorityParamsRaw = url.searchParams.getAll("priority");
 			const labelParamsRaw = [...url.searchParams.getAll("label"), ...url.searchParams.getAll("labels")];
+			const relationParam = url.searchParams.get("relation")?.trim().toLowerCase();
+			const relatedToParam = url.searchParams.get("relatedTo")?.trim();
 			const labelsCsv = url.searchParams.get("labels");
 			if (labelsCsv) {
 				labelParamsRaw.push(...labelsCsv.split(","));
@@ -573,8 +661,23 @@ export class BacklogServer {
 				status?: string | string[];
 				priority?: SearchPriorityFilter | SearchPriorityFilter[];
 				labels?: string | string[];
+				relation?: TaskRelationKind;
+				relatedTo?: string;
 			} = {};
 
+			if (relationParam) {
+				if (!isTaskRelationKind(relationParam)) {
+					return Response.json(
+						{ error: `Unsupported relation '${relationParam}'. Use ${TASK_RELATION_KINDS.join(", ")}.` },
+						{ status: 400 },
+					);
+				}
+				filters.relation = relationParam;
+			}
+			if (relatedToParam) {
+				filters.relatedTo = relatedToParam;
+			}
+
 			if (statusParams.length === 1) {
 				filters.status = statusParams[0];
 			} else if (statusParams.length > 1) {
@@ -604,6 +707,21 @@ export class BacklogServer {
 				}
 			}
 
+			if (filterQuery) {
+				// Filter queries only describe tasks, so other result types drop out
+				let matchesFilter: TaskPredicate;
+				try {
+					matchesFilter = compileTaskQuery(filterQuery, await this.core.getTaskQueryContext());
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error);
+					return Response.json({ error: message }, { status: 400 });
+				}
+				const results = searchService
+					.search({ query, types: ["task"], filters })
+					.filter((result) => result.type === "task" && matchesFilter(result.task));
+				return Response.json(limit ? results.slice(0, limit) : results);
+			}
+
 			const results = searchService.search({ query, limit, types, filters });
 			return Response.json(results);
 		} catch (error) {
@@ -629,7 +747,7 @@ export class BacklogServer {
 			: [];
 
 		try {
-			const { task: createdTask } = await this.core.createTaskFromInput({
+			const { task: createdTask, warnings } = await this.core.createTaskFromInput({
 				title: payload.title,
 				description: payload.description,
 				status: payload.status,
@@ -638,11 +756,14 @@ export class BacklogServer {
 				assignee: payload.assignee,
 				dependencies: payload.dependencies,
 				parentTaskId: payload.parentTaskId,
+				startDate: typeof payload.startDate === "string" && payload.startDate ? payload.startDate : undefined,
+				dueDate: typeof payload.dueDate === "string" && payload.dueDate ? payload.dueDate : undefined,
 				implementationPlan: payload.implementationPlan,
 				implementationNotes: payload.implementationNotes,
 				acceptanceCriteria,
+				...(isPlainObject(payload.customFields) && { customFields: payload.customFields }),
 			});
-			return Response.json(createdTask, { status: 201 });
+			return Response.json(withWarnings(createdTask, warnings), { status: 201 });
 		} catch (error) {
 			const message = error instanceof Error ? error.message : "Failed to create task";
 			return Response.json({ error: message }, { status: 400 });
@@ -654,8 +775,7 @@ export class BacklogServer {
 		const tasks = store.getTasks();
 		const task = findTaskByLooseId(tasks, taskId);
 		if (!task) {
-			const fallbackId = taskId.startsWith(TASK_ID_PREFIX) ? taskId : `${TASK_ID_PREFIX}${taskId}`;
-			const fallback = await this.core.filesystem.loadTask(fallbackId);
+			const fallback = await this.core.filesystem.loadTask(taskId);
 			if (fallback) {
 				store.upsertTask(fallback);
 				return Response.json(fallback);
@@ -706,6 +826,28 @@ export class BacklogServer {
 			updateInput.dependencies = updates.dependencies;
 		}
 
+		if ("addRelations" in updates && isPlainObject(updates.addRelations)) {
+			updateInput.addRelations = updates.addRelations;
+		}
+
+		if ("removeRelations" in updates && Array.isArray(updates.removeRelations)) {
+			updateInput.removeRelations = updates.removeRelations;
+		}
+
+		// An empty string or null clears the date
+		if ("startDate" in updates && (typeof updates.startDate === "string" || updates.startDate === null)) {
+			updateInput.startDate = updates.startDate;
+		}
+
+		if ("dueDate" in updates && (typeof updates.dueDate === "string" || updates.dueDate === null)) {
+			updateInput.dueDate = updates.dueDate;
+		}
+
+		// Values are converted and validated against config; null or "" clears a field
+		if ("customFields" in updates && isPlainObject(updates.customFields)) {
+			updateInput.customFields = updates.customFields;
+		}
+
 		if ("implementationPlan" in updates && typeof updates.implementationPlan === "string") {
 			updateInput.implementationPlan = updates.implementationPlan;
 		}
@@ -724,8 +866,8 @@ export class BacklogServer {
 		}
 
 		try {
-			const updatedTask = await this.core.updateTaskFromInput(taskId, updateInput);
-			return Response.json(updatedTask);
+			const { task: updatedTask, warnings } = await this.core.updateTaskFromInput(taskId, updateInput);
+			return Response.json(withWarnings(updatedTask, warnings));
 		} catch (error) {
 			const message = error instanceof Error ? error.message : "Failed to update task";
 			return Response.json({ error: message }, { status: 400 });
@@ -740,6 +882,89 @@ export class BacklogServer {
 		return Response.json({ success: true });
 	}
 
+	private async handleAttachFile(req: Request, taskId: string): Promise<Response> {
+		try {
+			if (!(await this.core.filesystem.loadTask(taskId))) {
+				return Response.json({ error: "Task not found" }, { status: 404 });
+			}
+			// Refuse oversized uploads before the body is read into memory
+			const contentLength = req.headers.get("content-length");
+			if (contentLength === null) {
+				return Response.json({ error: "Content-Length header is required" }, { status: 411 });
+			}
+			if (!(Number(contentLength) <= MAX_UPLOAD_BYTES)) {
+				return Response.json(
+					{
+						error: `Upload is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB; keep large files out of the repository`,
+					},
+					{ status: 413 },
+				);
+			}
+			const form = await req.formData();
+			const file = form.get("file");
+			if (!(file instanceof File)) {
+				return Response.json({ error: "Upload a file in the 'file' form field" }, { status: 400 });
+			}
+			const result = await this.core.attachFile(taskId, {
+				name: file.name,
+				data: new Uint8Array(await file.arrayBuffer()),
+			});
+			this.broadcastTasksUpdated();
+			return Response.json(result, { status: 201 });
+		} catch (error) {
+			if (error instanceof AttachmentError) {
+				return Response.json({ error: error.message }, { status: 400 });
+			}
+			console.error("Error attaching file:", error);
+			return Response.json({ error: "Failed to attach file" }, { status: 500 });
+		}
+	}
+
+	private async handleGetRelations(taskId: string): Promise<Response> {
+		try {
+			const store = await this.getContentStoreInstance();
+			if (!store.getTasks().some((task) => taskIdsEqual(task.id, taskId))) {
+				return Response.json({ error: "Task not found" }, { status: 404 });
+			}
+			return Response.json(store.getTaskRelations(taskId));
+		} catch (error) {
+			console.error("Error loading task relations:", error);
+			return Response.json({ error: "Failed to load relations" }, { status: 500 });
+		}
+	}
+
+	private async handleAddComment(req: Request, taskId: string): Promise<Response> {
+		try {
+			const task = await this.core.filesystem.loadTask(taskId);
+			if (!task) {
+				return Response.json({ error: "Task not found" }, { status: 404 });
+			}
+
+			const body = (await req.json()) as { body?: unknown; replyTo?: unknown; author?: unknown };
+			if (typeof body.body !== "string" || !body.body.trim()) {
+				return Response.json({ error: "Comment body is required" }, { status: 400 });
+			}
+			const author =
+				typeof body.author === "string" && body.author.trim()
+					? body.author.trim()
+					: ((await resolveDefaultAuthor(this.core)) ?? "unknown");
+
+			const { task: updatedTask } = await this.core.updateTaskFromInput(taskId, {
+				addComment: {
+					author,
+					date: new Date().toISOString().slice(0, 16).replace("T", " "),
+					body: body.body,
+					...(typeof body.replyTo === "number" && { replyTo: body.replyTo }),
+				},
+			});
+			this.broadcastTasksUpdated();
+			return Response.json(updatedTask, { status: 201 });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Failed to add comment";
+			return Response.json({ error: message }, { status: 400 });
+		}
+	}
+
 	private async handleCompleteTask(taskId: string): Promise<Response> {
 		try {
 			const task = await this.core.filesystem.loadTask(taskId);
@@ -762,6 +987,35 @@ export class BacklogServer {
 		}
 	}
 
+	private async handleListArchive(): Promise<Response> {
+		try {
+			const [archived, completed] = await Promise.all([
+				this.core.filesystem.listArchivedTasks(),
+				this.core.filesystem.listCompletedTasks(),
+			]);
+			return Response.json({ archived, completed });
+		} catch (error) {
+			console.error("Error listing archived tasks:", error);
+			return Response.json({ error: "Failed to list archived tasks" }, { status: 500 });
+		}
+	}
+
+	private async handleRestoreTask(req: Request, taskId: string): Promise<Response> {
+		try {
+			const body = (await req.json().catch(() => ({}))) as { status?: unknown };
+			const status = typeof body.status === "string" && body.status.trim() ? body.status.trim() : undefined;
+			const result = await this.core.restoreTask(taskId, { status });
+			this.broadcastTasksUpdated();
+			return Response.json(result);
+		} catch (error) {
+			if (error instanceof RestoreError) {
+				return Response.json({ error: error.message }, { status: 400 });
+			}
+			console.error("Error restoring task:", error);
+			return Response.json({ error: "Failed to restore task" }, { status: 500 });
+		}
+	}
+
 	private async handleGetStatuses(): Promise<Response> {
 		const config = await this.core.filesystem.loadConfig();
 		const statuses = config?.statuses || ["To Do", "In Progress", "Done"];
@@ -1033,7 +1287,9 @@ export class BacklogServer {
 				return Response.json({ error: "A milestone with this title already exists" }, { status: 400 });
 			}
 
-			const milestone = await this.core.filesystem.createMilestone(title, body.description);
+			const milestone = await this.core.recordOperation(`Create milestone ${title}`, () =>
+				this.core.filesystem.createMilestone(title, body.description),
+			);
 			return Response.json(milestone, { status: 201 });
 		} catch (error) {
 			console.error("Error creating milestone:", error);
@@ -1041,6 +1297,93 @@ export class BacklogServer {
 		}
 	}
 
+	private async handleListViews(): Promise<Response> {
+		try {
+			return Response.json(await this.core.filesystem.listViews());
+		} catch (error) {
+			console.error("Error listing views:", error);
+			return Response.json([]);
+		}
+	}
+
+	private async handleRunView(name: string): Promise<Response> {
+		const view = await this.core.filesystem.loadView(decodeURIComponent(name));
+		if (!view) {
+			return Response.json({ error: "View not found" }, { status: 404 });
+		}
+		try {
+			return Response.json(await this.core.runView(view.name));
+		} catch (error) {
+			// A query that no longer parses, e.g. after a milestone was renamed
+			const message = error instanceof Error ? error.message : String(error);
+			return Response.json({ error: message }, { status: 400 });
+		}
+	}
+
+	private async handleSaveView(req: Request): Promise<Response> {
+		try {
+			const body = (await req.json()) as Partial<SavedView>;
+			const name = typeof body.name === "string" ? body.name.trim() : "";
+			if (!name) {
+				return Response.json({ error: "View name is required" }, { status: 400 });
+			}
+			const view: SavedView = {
+				name,
+				...(body.description && { description: body.description }),
+				...(body.query && { query: body.query }),
+				...(body.sort && { sort: body.sort }),
+				...(body.groupBy && { groupBy: body.groupBy }),
+				...(Array.isArray(body.columns) && body.columns.length > 0 && { columns: body.columns }),
+			};
+			await this.core.saveView(view);
+			return Response.json(view, { status: 201 });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return Response.json({ error: message }, { status: 400 });
+		}
+	}
+
+	private async handleDeleteView(name: string): Promise<Response> {
+		try {
+			if (!(await this.core.deleteView(decodeURIComponent(name)))) {
+				return Response.json({ error: "View not found" }, { status: 404 });
+			}
+			return Response.json({ success: true });
+		} catch (error) {
+			console.error("Error deleting view:", error);
+			return Response.json({ error: "Failed to delete view" }, { status: 500 });
+		}
+	}
+
+	private async handleGetJournal(): Promise<Response> {
+		try {
+			return Response.json(await this.core.listJournal());
+		} catch (error) {
+			if (error instanceof JournalError) {
+				return Response.json({ error: error.message }, { status: 409 });
+			}
+			console.error("Error reading journal:", error);
+			return Response.json({ error: "Failed to read journal" }, { status: 500 });
+		}
+	}
+
+	private async handleReplayJournal(direction: "undo" | "redo", req: Request): Promise<Response> {
+		try {
+			// The web UI names the entry it offered, so a change made meanwhile is never the one reverted
+			const body = (await req.json().catch(() => ({}))) as { id?: unknown };
+			const options = typeof body.id === "string" ? { expectedId: body.id } : {};
+			const replayed = direction === "undo" ? await this.core.undo(1, options) : await this.core.redo(1, options);
+			this.broadcastTasksUpdated();
+			return Response.json(replayed);
+		} catch (error) {
+			if (error instanceof JournalError) {
+				return Response.json({ error: error.message, conflicts: error.conflicts }, { status: 409 });
+			}
+			console.error(`Error during ${direction}:`, error);
+			return Response.json({ error: `Failed to ${direction}` }, { status: 500 });
+		}
+	}
+
 	private async handleGetVersion(): Promise<Response> {
 		try {
 			const version = await getVersion();
@@ -1071,7 +1414,7 @@ export class BacklogServer {
 				);
 			}
 
-			const { updatedTask } = await this.core.reorderTask({
+			const { updatedTask, warnings } = await this.core.reorderTask({
 				taskId,
 				targetStatus,
 				orderedTaskIds,
@@ -1079,12 +1422,16 @@ export class BacklogServer {
 				commitMessage: `Reorder tasks in ${targetStatus}`,
 			});
 
-			return Response.json({ success: true, task: updatedTask });
+			return Response.json({ success: true, task: updatedTask, warnings });
 		} catch (error) {
 			const message = error instanceof Error ? error.message : "Failed to reorder task";
 			// Cross-branch and validation errors are client errors (400), not server errors (500)
 			const isCrossBranchError = message.includes("exists in branch");
-			const isValidationError = message.includes("not found") || message.includes("Missing required");
+			const isValidationError =
+				error instanceof TransitionError ||
+				error instanceof WipLimitError ||
+				message.includes("not found") ||
+				message.includes("Missing required");
 			const status = isCrossBranchError || isValidationError ? 400 : 500;
 			if (status === 500) {
 				console.error("Error reordering task:", error);
@@ -1156,19 +1503,21 @@ export class BacklogServer {
 			let successCount = 0;
 			const failedTasks: string[] = [];
 
-			for (const task of tasksToCleanup) {
-				try {
-					const success = await this.core.completeTask(task.id);
-					if (success) {
-						successCount++;
-					} else {
+			await this.core.recordOperation(`Complete ${tasksToCleanup.length} task(s)`, async () => {
+				for (const task of tasksToCleanup) {
+					try {
+						const success = await this.core.completeTask(task.id);
+						if (success) {
+							successCount++;
+						} else {
+							failedTasks.push(task.id);
+						}
+					} catch (error) {
+						console.error(`Failed to complete task ${task.id}:`, error);
 						failedTasks.push(task.id);
 					}
-				} catch (error) {
-					console.error(`Failed to complete task ${task.id}:`, error);
-					failedTasks.push(task.id);
 				}
-			}
+			});
 
 			// Notify listeners to refresh
 			this.broadcastTasksUpdated();
@@ -1192,6 +1541,20 @@ export class BacklogServer {
 		return Response.json(data);
 	}
 
+	private async handleGetCriticalPath(req: Request): Promise<Response> {
+		try {
+			const defaultEstimate = new URL(req.url).searchParams.get("defaultEstimate");
+			const defaultMinutes = defaultEstimate ? parseDuration(defaultEstimate) : undefined;
+			if (defaultMinutes === null) {
+				return Response.json({ error: `Invalid default estimate: ${defaultEstimate}` }, { status: 400 });
+			}
+			return Response.json(await this.core.getCriticalPath({ defaultMinutes }));
+		} catch (error) {
+			console.error("Error computing critical path:", error);
+			return Response.json({ error: "Failed to compute critical path" }, { status: 500 });
+		}
+	}
+
 	private async handleMoveSequence(req: Request): Promise<Response> {
 		try {
 			const body = await req.json();
@@ -1219,7 +1582,7 @@ export class BacklogServer {
 			const { tasks, drafts, statuses } = await this.core.loadAllTasksForStatistics();
 
 			// Calculate statistics using the exact same function as CLI
-			const statistics = getTaskStatistics(tasks, drafts, statuses);
+			const statistics = getTaskStatistics(tasks, drafts, statuses, { today: await this.core.getToday() });
 
 			// Convert Maps to objects for JSON serialization
 			const response = {
@@ -1235,6 +1598,28 @@ export class BacklogServer {
 		}
 	}
 
+	private async handleGetMetrics(req: Request): Promise<Response> {
+		const url = new URL(req.url);
+		const daysParam = url.searchParams.get("days");
+		const milestone = url.searchParams.get("milestone") || undefined;
+
+		let days: number | undefined;
+		if (daysParam !== null) {
+			days = Number.parseInt(daysParam, 10);
+			if (Number.isNaN(days) || days < 1 || days > MAX_METRICS_DAYS) {
+				return Response.json({ error: `days must be between 1 and ${MAX_METRICS_DAYS}` }, { status: 400 });
+			}
+		}
+
+		try {
+			const metrics = await this.core.getTaskMetrics({ days, milestone });
+			return Response.json(metrics);
+		} catch (error) {
+			console.error("Error computing metrics:", error);
+			return Response.json({ error: "Failed to compute metrics" }, { status: 500 });
+		}
+	}
+
 	private async handleGetStatus(): Promise<Response> {
 		try {
 			const config = await this.core.filesystem.loadConfig();
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { checkAssets, sanitizeAssetName } from "../core/assets.ts";
+import { JOURNAL_MAX_BINARY_BYTES } from "../core/journal.ts";
+import type { Core } from "../index.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("assets", () => {
+	it("keeps attachment names safe for links", () => {
+		expect(sanitizeAssetName("../../Screen Shot (2).PNG")).toBe("Screen-Shot-2.PNG");
+		expect(sanitizeAssetName("C:\\Users\\me\\.hidden")).toBe("hidden");
+		expect(sanitizeAssetName("???")).toBe("attachment");
+	});
+
+	it("reports assets nothing refers to and attachments without a file", () => {
+		expect(
+			checkAssets(
+				["task-1/shot.png", "diagram.svg", "old.png"],
+				[
+					{ id: "task-1", attachments: ["task-1/shot.png", "task-1/gone.log"] },
+					{ id: "doc-1", content: "See ![diagram](../assets/diagram.svg)" },
+				],
+			),
+		).toEqual({ orphaned: ["old.png"], missing: [{ id: "task-1", path: "task-1/gone.log" }] });
+	});
+});
+
+describe("backlog task attach and doctor", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-attachments");
+		core = await createTestProject(TEST_DIR, "Attachments Project", true);
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await core.filesystem.saveConfig({ ...config, autoCommit: true });
+		await core.createTaskFromInput({ title: "Broken login" }, true);
+		await Bun.write(join(TEST_DIR, "tmp", "login error.png"), "PNG-1");
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("copies the file into assets, records it on the task and commits", async () => {
+		const result = await $`bun ${cliPath} task attach 1 ${"tmp/login error.png"}`.cwd(TEST_DIR).quiet();
+		expect(result.stdout.toString()).toBe(
+			"Attached backlog/assets/task-1/login-error.png to task task-1\n" +
+				"Link it in markdown as ![login-error.png](../assets/task-1/login-error.png)\n",
+		);
+		expect(await Bun.file(join(TEST_DIR, "backlog", "assets", "task-1", "login-error.png")).text()).toBe("PNG-1");
+		expect((await core.filesystem.loadTask("task-1"))?.attachments).toEqual(["task-1/login-error.png"]);
+		expect((await $`git log -1 --format=%s`.cwd(TEST_DIR).quiet()).stdout.toString().trim()).toBe(
+			"backlog: Attach task-1/login-error.png to task-1",
+		);
+		expect((await $`git status --porcelain backlog`.cwd(TEST_DIR).quiet()).stdout.toString()).toBe("");
+
+		// Same content is reused, different content with the same name gets a new name
+		await core.attachFile("task-1", { name: "login error.png", data: new TextEncoder().encode("PNG-1") });
+		await core.attachFile("task-1", { name: "login error.png", data: new TextEncoder().encode("PNG-2") });
+		expect((await core.filesystem.loadTask("task-1"))?.attachments).toEqual([
+			"task-1/login-error.png",
+			"task-1/login-error-1.png",
+		]);
+
+		const missing = await $`bun ${cliPath} task attach 1 nope.png`.cwd(TEST_DIR).quiet().nothrow();
+		expect(missing.exitCode).toBe(1);
+		expect(missing.stderr.toString()).toContain("File not found: nope.png");
+
+		await Bun.write(join(TEST_DIR, "tmp", "server.log"), "boom");
+		const log = await $`bun ${cliPath} task attach 1 tmp/server.log`.cwd(TEST_DIR).quiet();
+		expect(log.stdout.toString()).toContain("Link it in markdown as [server.log](../assets/task-1/server.log)\n");
+	});
+
+	it("removes and restores the file on undo and redo", async () => {
+		const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+		const asset = join(TEST_DIR, "backlog", "assets", "task-1", "shot.png");
+		await core.attachFile("task-1", { name: "shot.png", data: png }, false);
+
+		await core.undo(1, { autoCommit: false });
+		expect(await Bun.file(asset).exists()).toBe(false);
+		expect((await core.filesystem.loadTask("task-1"))?.attachments ?? []).toEqual([]);
+
+		await core.redo(1, { autoCommit: false });
+		expect(new Uint8Array(await Bun.file(asset).arrayBuffer())).toEqual(png);
+		expect((await core.filesystem.loadTask("task-1"))?.attachments).toEqual(["task-1/shot.png"]);
+	});
+
+	it("keeps large files out of the undo journal", async () => {
+		const asset = join(TEST_DIR, "backlog", "assets", "task-1", "dump.bin");
+		await core.attachFile("task-1", { name: "dump.bin", data: new Uint8Array(JOURNAL_MAX_BINARY_BYTES + 1) }, false);
+		expect((await core.listJournal()).undo[0]?.files).toEqual(["changed backlog/tasks/task-1 - Broken-login.md"]);
+		expect((await Bun.file(await core.filesystem.getJournalPath()).text()).length).toBeLessThan(100_000);
+
+		await core.undo(1, { autoCommit: false });
+		expect((await core.filesystem.loadTask("task-1"))?.attachments ?? []).toEqual([]);
+		expect(await Bun.file(asset).exists()).toBe(true);
+	});
+
+	it("finds and removes orphaned assets", async () => {
+		await core.attachFile("task-1", { name: "shot.png", data: new TextEncoder().encode("PNG") });
+		await Bun.write(join(TEST_DIR, "backlog", "assets", "stray.png"), "PNG");
+		await Bun.write(join(TEST_DIR, "backlog", "assets", "diagram.svg"), "<svg/>");
+		await core.createDocument({
+			id: "doc-1",
+			title: "Architecture",
+			type: "other",
+			createdDate: "2025-03-01",
+			rawContent: "![diagram](../assets/diagram.svg)",
+		});
+
+		const check = await $`bun ${cliPath} doctor`.cwd(TEST_DIR).quiet().nothrow();
+		expect(check.exitCode).toBe(1);
+		expect(check.stdout.toString()).toBe(
+			"Orphaned assets (1), not attached to or linked from anything:\n  backlog/assets/stray.png\n",
+		);
+
+		const fix = await $`bun ${cliPath} doctor --remove-orphans`.cwd(TEST_DIR).quiet();
+		expect(fix.stdout.toString()).toBe("Removed 1 orphaned asset(s).\nNo problems found in backlog/assets.\n");
+		expect(await Bun.file(join(TEST_DIR, "backlog", "assets", "stray.png")).exists()).toBe(false);
+		expect(await Bun.file(join(TEST_DIR, "backlog", "assets", "diagram.svg")).exists()).toBe(true);
+	});
+});
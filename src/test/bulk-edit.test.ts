@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { formatBulkEditResults, parseBulkSetAssignments } from "../core/bulk-edit.ts";
+import { McpServer } from "../mcp/server.ts";
+import { registerTaskTools } from "../mcp/tools/tasks/index.ts";
+import { createUniqueTestDir, initGitRepo, safeCleanup } from "./test-utils.ts";
+
+describe("parseBulkSetAssignments", () => {
+	it("maps task fields and custom fields and clears on empty values", () => {
+		expect(
+			parseBulkSetAssignments(
+				["status=Done", "Priority=HIGH", "milestone=", "assignee=@a, @b", "due=2025-04-01", "Severity=S1"],
+				[{ name: "severity", type: "string" }],
+			),
+		).toEqual({
+			status: "Done",
+			priority: "high",
+			milestone: null,
+			assignee: ["@a", "@b"],
+			dueDate: "2025-04-01",
+			customFields: { severity: "S1" },
+		});
+		expect(() => parseBulkSetAssignments(["size=L"])).toThrow('Unknown field "size"');
+		expect(() => parseBulkSetAssignments(["status"])).toThrow('Invalid assignment "status"');
+		expect(() => parseBulkSetAssignments(["priority=urgent"])).toThrow("Invalid priority: urgent");
+	});
+
+	it("summarizes per-task results", () => {
+		expect(
+			formatBulkEditResults([
+				{ id: "task-1", title: "A", outcome: "updated", changes: ["status", "labels"] },
+				{ id: "task-2", title: "B", outcome: "unchanged", changes: [] },
+				{ id: "task-3", title: "C", outcome: "failed", changes: [], error: "Nope" },
+			]),
+		).toBe(
+			[
+				"  task-1 updated (status, labels)",
+				"  task-2 unchanged",
+				"  task-3 failed: Nope",
+				"1 updated, 1 unchanged, 1 failed",
+			].join("\n"),
+		);
+	});
+});
+
+describe("bulk editing tasks", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let server: McpServer;
+
+	const commitCount = async () => Number((await $`git rev-list --all --count`.cwd(TEST_DIR).quiet()).stdout);
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-bulk-edit");
+		await initGitRepo(TEST_DIR);
+
+		server = new McpServer(TEST_DIR, "Test instructions");
+		await server.initializeProject("Bulk Project", true);
+		const config = await server.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await server.filesystem.saveConfig({
+			...config,
+			autoCommit: true,
+			onStatusChange: 'echo "$TASK_ID $NEW_STATUS" >> callbacks.log',
+		});
+		await server.createTaskFromInput({ title: "Crash", labels: ["bug"] }, true);
+		await server.createTaskFromInput({ title: "Typo", labels: ["bug"], status: "Done" }, true);
+		await server.createTaskFromInput({ title: "Docs" }, true);
+		registerTaskTools(server, (await server.filesystem.loadConfig()) ?? config);
+	});
+
+	afterEach(async () => {
+		await server.stop();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("edits tasks matching a query in one commit and runs status callbacks per task", async () => {
+		const before = await commitCount();
+		const result =
+			await $`bun ${cliPath} task bulk-edit -q label:bug --set status=Done --add-label triaged --milestone v2`
+				.cwd(TEST_DIR)
+				.quiet();
+		expect(result.stdout.toString()).toBe(
+			[
+				"Matched 2 task(s):",
+				"  task-1 - Crash (To Do)",
+				"  task-2 - Typo (Done)",
+				"",
+				"  task-1 updated (status, labels, milestone)",
+				"  task-2 updated (labels, milestone)",
+				"2 updated, 0 unchanged, 0 failed",
+				"",
+			].join("\n"),
+		);
+		expect(await commitCount()).toBe(before + 1);
+		expect((await $`git log -1 --format=%s`.cwd(TEST_DIR).quiet()).stdout.toString().trim()).toBe(
+			"backlog: Bulk edit 2 task(s)",
+		);
+		expect((await server.filesystem.loadTask("task-1"))?.labels).toEqual(["bug", "triaged"]);
+		expect((await Bun.file(join(TEST_DIR, "callbacks.log")).text()).trim()).toBe("task-1 Done");
+		expect((await server.filesystem.loadTask("task-3"))?.milestone).toBeUndefined();
+	});
+
+	it("previews with --dry-run and rejects invalid changes before writing", async () => {
+		const dryRun = await $`bun ${cliPath} task bulk-edit 1 3 --priority low --dry-run`.cwd(TEST_DIR).quiet();
+		expect(dryRun.stdout.toString()).toBe("Matched 2 task(s):\n  task-1 - Crash (To Do)\n  task-3 - Docs (To Do)\n");
+		expect((await server.filesystem.loadTask("task-1"))?.priority).toBeUndefined();
+
+		const invalid = await $`bun ${cliPath} task bulk-edit 1 3 --set status=Someday`.cwd(TEST_DIR).quiet().nothrow();
+		expect(invalid.exitCode).toBe(1);
+		expect(invalid.stderr.toString()).toContain("Invalid status: Someday");
+
+		const nothing = await $`bun ${cliPath} task bulk-edit -q label:bug`.cwd(TEST_DIR).quiet().nothrow();
+		expect(nothing.stderr.toString()).toContain("Nothing to change");
+	});
+
+	it("is available to agents as task_bulk_edit", async () => {
+		const result = await server.testInterface.callTool({
+			params: { name: "task_bulk_edit", arguments: { query: "-label:bug", assignee: ["@me"], priority: "high" } },
+		});
+		const text = (result.content?.[0] as { text?: string }).text ?? "";
+		expect(text).toContain("task-3 updated (priority, assignee)");
+		expect((await server.filesystem.loadTask("task-3"))?.assignee).toEqual(["Test User"]);
+
+		const missing = await server.testInterface.callTool({
+			params: { name: "task_bulk_edit", arguments: { ids: ["task-9"], priority: "low" } },
+		});
+		expect(missing.isError).toBe(true);
+	});
+});
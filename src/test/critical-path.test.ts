@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { computeCriticalPath, formatCriticalPathReport } from "../core/critical-path.ts";
+import type { Core } from "../index.ts";
+import type { Task } from "../types/index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const makeTask = (id: string, dependencies: string[] = [], estimate?: string): Task =>
+	createTask({ id, title: `Title ${id}`, dependencies, estimate });
+
+describe("computeCriticalPath", () => {
+	it("finds the longest chain and the slack of the other tasks", () => {
+		const report = computeCriticalPath([
+			makeTask("task-1", [], "2h"),
+			makeTask("task-2", ["task-1"], "1d"),
+			makeTask("task-3", ["task-1"], "3h"),
+			makeTask("task-4", ["task-2", "task-3"], "1h"),
+			makeTask("task-5", [], "30m"),
+		]);
+		expect(report.path.map((entry) => entry.task.id)).toEqual(["task-1", "task-2", "task-4"]);
+		expect(report.totalMinutes).toBe(11 * 60);
+		const slack = Object.fromEntries(report.tasks.map((entry) => [entry.task.id, entry.slack]));
+		expect(slack).toEqual({ "task-1": 0, "task-2": 0, "task-3": 5 * 60, "task-4": 0, "task-5": 10.5 * 60 });
+		expect(report.cycles).toEqual([]);
+		expect(report.danglingDependencies).toEqual([]);
+	});
+
+	it("weighs tasks without an estimate with the default and prefers remaining effort", () => {
+		const withRemaining = { ...makeTask("task-2", ["task-1"], "2d"), remaining: "1h" };
+		const report = computeCriticalPath([makeTask("task-1"), withRemaining, makeTask("task-3", [], "4h")], {
+			defaultMinutes: 240,
+		});
+		expect(report.path.map((entry) => entry.task.id)).toEqual(["task-1", "task-2"]);
+		expect(report.totalMinutes).toBe(300);
+		expect(report.tasks.filter((entry) => !entry.estimated).map((entry) => entry.task.id)).toEqual(["task-1"]);
+	});
+
+	it("reports cycles, the tasks stuck behind them and dangling dependencies", () => {
+		const report = computeCriticalPath(
+			[
+				makeTask("task-1", ["task-3"], "1h"),
+				makeTask("task-2", ["task-1"], "1h"),
+				makeTask("task-3", ["task-2"], "1h"),
+				makeTask("task-4", ["task-3"], "1h"),
+				makeTask("task-5", ["task-42", "task-9"], "2h"),
+			],
+			{ knownIds: ["task-9"] },
+		);
+		expect(report.cycles).toEqual([["task-1", "task-3", "task-2", "task-1"]]);
+		expect(report.blockedByCycle).toEqual(["task-4"]);
+		expect(report.danglingDependencies).toEqual([{ taskId: "task-5", dependency: "task-42" }]);
+		expect(report.path.map((entry) => entry.task.id)).toEqual(["task-5"]);
+
+		expect(formatCriticalPathReport(report)).toBe(
+			[
+				"Critical path (1 task, 2h):",
+				"  task-5 - Title task-5 (2h)",
+				"",
+				"Warnings:",
+				"  Dependency cycle: task-1 → task-3 → task-2 → task-1",
+				"  task-4 waits on a dependency cycle and was left out",
+				"  task-5 depends on task-42, which does not exist",
+			].join("\n"),
+		);
+	});
+});
+
+describe("backlog sequence critical-path", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-critical-path");
+		core = await createTestProject(TEST_DIR, "Critical Path Project");
+		await core.createTaskFromInput({ title: "Design schema", estimate: "4h" }, false);
+		await core.createTaskFromInput({ title: "Build API", dependencies: ["task-1"] }, false);
+		await core.createTaskFromInput({ title: "Write docs", dependencies: ["task-1"], estimate: "2h" }, false);
+		await core.createTaskFromInput({ title: "Ship it", status: "Done" }, false);
+	});
+
+	afterEach(async () => {
+		core.disposeContentStore();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("prints the path, slack and defaulted estimates", async () => {
+		const result = await $`bun ${cliPath} sequence critical-path --default-estimate 4h`.cwd(TEST_DIR).quiet();
+		expect(result.stdout.toString()).toBe(
+			[
+				"Critical path (2 tasks, 8h):",
+				"  task-1 - Design schema (4h)",
+				"  task-2 - Build API (4h, default)",
+				"",
+				"Slack:",
+				"  task-3 - Write docs: 2h",
+				"",
+				"No estimate, counted as 4h: task-2",
+				"",
+			].join("\n"),
+		);
+
+		const json = await $`bun ${cliPath} sequence critical-path --json`.cwd(TEST_DIR).quiet();
+		const parsed = JSON.parse(json.stdout.toString());
+		expect(parsed.kind).toBe("critical-path");
+		expect(parsed.data.path).toEqual(["task-1", "task-2"]);
+		expect(parsed.data.totalMinutes).toBe(12 * 60);
+		expect(parsed.data.tasks.map((entry: { task: { id: string } }) => entry.task.id)).toEqual([
+			"task-1",
+			"task-2",
+			"task-3",
+		]);
+
+		const invalid = await $`bun ${cliPath} sequence critical-path --default-estimate soon`
+			.cwd(TEST_DIR)
+			.quiet()
+			.nothrow();
+		expect(invalid.exitCode).toBe(1);
+		expect(invalid.stderr.toString()).toContain("Default estimate must be a duration");
+	});
+});
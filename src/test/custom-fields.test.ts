@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { applyCustomFieldValues, parseCustomFieldAssignments, sortTasksByCustomField } from "../core/custom-fields.ts";
+import { filterTasksByQuery } from "../core/task-query.ts";
+import { getSavedViewError, sortViewTasks } from "../core/views.ts";
+import { Core } from "../index.ts";
+import { generateTaskCreateSchema, generateTaskEditSchema } from "../mcp/utils/schema-generators.ts";
+import { validateInput } from "../mcp/validation/validators.ts";
+import type { BacklogConfig, CustomFieldDefinition, Task } from "../types/index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const fields: CustomFieldDefinition[] = [
+	{ name: "severity", type: "enum", options: ["S1", "S2", "S3"], required: true },
+	{ name: "points", type: "number", label: "Story points" },
+	{ name: "customer", type: "string" },
+	{ name: "reviewer", type: "user" },
+	{ name: "launch", type: "date" },
+	{ name: "billable", type: "boolean" },
+];
+
+const tasks: Task[] = [
+	createTask({ id: "task-1", customFields: { severity: "S2", points: 5, customer: "Acme", billable: true } }),
+	createTask({ id: "task-2", customFields: { severity: "S1", points: 2, reviewer: "@alice", launch: "2025-03-04" } }),
+	createTask({ id: "task-3", customFields: { severity: "S3", launch: "2025-04-01" } }),
+	createTask({ id: "task-4" }),
+];
+const context = { today: "2025-03-02", currentUser: "alice", customFields: fields };
+const ids = (list: Task[]) => list.map((task) => task.id);
+
+describe("custom field values", () => {
+	it("converts raw values to each field type", () => {
+		expect(
+			applyCustomFieldValues(fields, undefined, {
+				severity: "s1",
+				points: "3.5",
+				customer: " Acme ",
+				launch: "2025-03-14",
+				billable: "yes",
+			}),
+		).toEqual({ severity: "S1", points: 3.5, customer: "Acme", launch: "2025-03-14", billable: true });
+	});
+
+	it("rejects unknown fields, bad values and missing required fields", () => {
+		expect(() => applyCustomFieldValues(fields, {}, { size: "xl" })).toThrow(
+			'Unknown custom field "size". Defined fields: severity, points, customer, reviewer, launch, billable',
+		);
+		expect(() => applyCustomFieldValues(fields, {}, { severity: "S9" })).toThrow(
+			'Invalid severity "S9". Valid values are: S1, S2, S3',
+		);
+		expect(() => applyCustomFieldValues(fields, {}, { points: "many" })).toThrow(
+			"Story points must be a number. Received: many",
+		);
+		expect(() => applyCustomFieldValues(fields, {}, { points: 1 }, { requireAll: true })).toThrow(
+			"Missing required custom field: severity",
+		);
+		expect(() => applyCustomFieldValues(fields, { severity: "S1" }, { severity: null })).toThrow(
+			"Missing required custom field: severity",
+		);
+		expect(applyCustomFieldValues(fields, { severity: "S1", points: 2 }, { points: "" })).toEqual({ severity: "S1" });
+	});
+
+	it("parses --field assignments", () => {
+		expect(parseCustomFieldAssignments(["severity=S1", "customer=Acme=Corp", "points="])).toEqual({
+			severity: "S1",
+			customer: "Acme=Corp",
+			points: "",
+		});
+		expect(() => parseCustomFieldAssignments(["severity"])).toThrow('Invalid field "severity"');
+	});
+
+	it("sorts enums by option order and puts tasks without a value last", () => {
+		expect(ids(sortTasksByCustomField(tasks, fields[0] as CustomFieldDefinition))).toEqual([
+			"task-2",
+			"task-1",
+			"task-3",
+			"task-4",
+		]);
+		expect(ids(sortViewTasks(tasks, "points", [], fields))).toEqual(["task-2", "task-1", "task-3", "task-4"]);
+		expect(getSavedViewError({ name: "triage", sort: "severity", query: "points>1" }, fields)).toBeNull();
+		expect(getSavedViewError({ name: "triage", sort: "severity" })).toContain('Invalid sort "severity"');
+	});
+});
+
+describe("custom fields in filter queries", () => {
+	it("filters by each field type", () => {
+		expect(ids(filterTasksByQuery(tasks, "severity:s1,S3", context))).toEqual(["task-2", "task-3"]);
+		expect(ids(filterTasksByQuery(tasks, "severity<=S2", context))).toEqual(["task-1", "task-2"]);
+		expect(ids(filterTasksByQuery(tasks, "points>=3", context))).toEqual(["task-1"]);
+		expect(ids(filterTasksByQuery(tasks, "customer:acme", context))).toEqual(["task-1"]);
+		expect(ids(filterTasksByQuery(tasks, "reviewer:@me", context))).toEqual(["task-2"]);
+		expect(ids(filterTasksByQuery(tasks, "launch:<=7d", context))).toEqual(["task-2"]);
+		expect(ids(filterTasksByQuery(tasks, "billable:true", context))).toEqual(["task-1"]);
+		expect(ids(filterTasksByQuery(tasks, "has:points -has:customer", context))).toEqual(["task-2"]);
+	});
+
+	it("reports unknown fields and invalid values", () => {
+		expect(() => filterTasksByQuery(tasks, "severity:S9", context)).toThrow('Invalid severity "S9"');
+		expect(() => filterTasksByQuery(tasks, "customer>a", context)).toThrow('"customer" only supports ":" and "!="');
+		expect(() => filterTasksByQuery(tasks, "size:xl", context)).toThrow(
+			'Unknown field "size". Known fields: status, label',
+		);
+	});
+});
+
+describe("MCP task schemas", () => {
+	const config = { statuses: ["To Do", "Done"], customFields: fields } as BacklogConfig;
+
+	it("adds a typed customFields property", () => {
+		const schema = generateTaskCreateSchema(config);
+		expect(schema.properties?.customFields?.properties?.severity).toMatchObject({
+			type: "string",
+			enum: ["S1", "S2", "S3"],
+		});
+		expect(schema.properties?.customFields?.properties?.points?.type).toBe("number");
+		expect(
+			generateTaskCreateSchema({ statuses: [] } as unknown as BacklogConfig).properties?.customFields,
+		).toBeUndefined();
+
+		const valid = validateInput({ title: "Bug", customFields: { severity: "s2", points: 3 } }, schema);
+		expect(valid.sanitizedData?.customFields).toEqual({ severity: "S2", points: 3 });
+		expect(validateInput({ title: "Bug", customFields: { size: "xl" } }, schema).errors).toEqual([
+			"Unknown field 'customFields.size' is not allowed",
+		]);
+		const cleared = validateInput({ id: "task-1", customFields: { severity: null } }, generateTaskEditSchema(config));
+		expect(cleared.sanitizedData?.customFields).toEqual({ severity: null });
+	});
+});
+
+describe("custom fields in Core and the CLI", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-custom-fields");
+		core = await createTestProject(TEST_DIR, "Fields Project");
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await core.filesystem.saveConfig({ ...config, customFields: fields.slice(0, 3) });
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("round-trips definitions through config.yml and values through task files", async () => {
+		const configText = await Bun.file(join(TEST_DIR, "backlog", "config.yml")).text();
+		expect(configText).toContain("custom_fields:");
+		expect((await new Core(TEST_DIR).filesystem.loadConfig())?.customFields).toEqual(fields.slice(0, 3));
+
+		const { task } = await core.createTaskFromInput(
+			{ title: "Crash", customFields: { severity: "s1", points: "8" } },
+			false,
+		);
+		expect(task.customFields).toEqual({ severity: "S1", points: 8 });
+		await expect(core.createTaskFromInput({ title: "Untriaged" }, false)).rejects.toThrow(
+			"Missing required custom field: severity",
+		);
+
+		const { task: updated } = await core.updateTaskFromInput(
+			task.id,
+			{ customFields: { points: null, customer: "Acme" } },
+			false,
+		);
+		expect(updated.customFields).toEqual({ severity: "S1", customer: "Acme" });
+		expect((await new Core(TEST_DIR).filesystem.loadTask(task.id))?.customFields).toEqual({
+			severity: "S1",
+			customer: "Acme",
+		});
+	});
+
+	it("sets, sorts and shows fields from the command line", async () => {
+		const low = await $`bun ${cliPath} task create Typo --field severity=S3 --field points=1`.cwd(TEST_DIR).quiet();
+		expect(low.exitCode).toBe(0);
+		await $`bun ${cliPath} task create Crash --field severity=S1`.cwd(TEST_DIR).quiet();
+
+		const missing = await $`bun ${cliPath} task create Untriaged`.cwd(TEST_DIR).quiet().nothrow();
+		expect(missing.exitCode).toBe(1);
+		expect(missing.stderr.toString()).toContain("Missing required custom field: severity");
+
+		const sorted = await $`bun ${cliPath} task list --sort severity --plain`.cwd(TEST_DIR).quiet();
+		const output = sorted.stdout.toString();
+		expect(output.indexOf("task-2 - Crash")).toBeLessThan(output.indexOf("task-1 - Typo"));
+
+		const edited = await $`bun ${cliPath} task edit 1 --field points= --field customer=Acme --plain`
+			.cwd(TEST_DIR)
+			.quiet();
+		expect(edited.stdout.toString()).toContain("severity: S3\ncustomer: Acme");
+		expect(edited.stdout.toString()).not.toContain("points:");
+
+		const filtered = await $`bun ${cliPath} task list -q customer:acme --plain`.cwd(TEST_DIR).quiet();
+		expect(filtered.stdout.toString()).toContain("task-1 - Typo");
+		expect(filtered.stdout.toString()).not.toContain("Crash");
+	});
+});
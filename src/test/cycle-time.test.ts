@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import {
+	computeFlowStatistics,
+	getTaskFlowTimes,
+	groupGitStatusHistory,
+	summarizeDurations,
+} from "../core/cycle-time.ts";
+import { Core } from "../index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const statuses = ["To Do", "In Progress", "Done"];
+
+const historyEntry = (updatedAt: string, status: string) => ({ updatedAt, status, description: "", author: "" });
+
+describe("getTaskFlowTimes", () => {
+	it("measures lead time from creation and cycle time from the first start", () => {
+		const times = getTaskFlowTimes(
+			createTask({
+				status: "Done",
+				history: [
+					historyEntry("2025-01-02 09:00", "In Progress"),
+					historyEntry("2025-01-03 09:00", "To Do"),
+					historyEntry("2025-01-04 21:00", "Done"),
+				],
+			}),
+			statuses,
+		);
+
+		expect(times).toMatchObject({ leadTimeDays: 3.5, cycleTimeDays: 2.5, startedAt: "2025-01-02 09:00" });
+	});
+
+	it("uses the last move into done when a task was reopened", () => {
+		const times = getTaskFlowTimes(
+			createTask({
+				status: "Done",
+				history: [
+					historyEntry("2025-01-02 09:00", "Done"),
+					historyEntry("2025-01-03 09:00", "In Progress"),
+					historyEntry("2025-01-05 09:00", "Done"),
+				],
+			}),
+			statuses,
+		);
+
+		expect(times?.completedAt).toBe("2025-01-05 09:00");
+		expect(times?.cycleTimeDays).toBe(2);
+	});
+
+	it("ignores hand-written history entries without a status", () => {
+		const times = getTaskFlowTimes(
+			createTask({
+				status: "Done",
+				history: [
+					historyEntry("2025-01-02 09:00", "In Progress"),
+					historyEntry("2025-01-03 09:00", "Done"),
+					historyEntry("2025-01-04 09:00", ""),
+				],
+			}),
+			statuses,
+		);
+
+		expect(times).toMatchObject({ completedAt: "2025-01-03 09:00", cycleTimeDays: 1 });
+	});
+
+	it("uses status changes from git when the task has no history", () => {
+		const gitHistory = groupGitStatusHistory([
+			{ filePath: "backlog/tasks/task-1 - Test-Task.md", date: new Date("2025-01-02T09:00Z"), status: "In Progress" },
+			{ filePath: "backlog/tasks/task-1 - Test-Task.md", date: new Date("2025-01-04T09:00Z"), status: "Done" },
+		]).get("task-1");
+		expect(getTaskFlowTimes(createTask({ status: "Done" }), statuses, gitHistory)).toMatchObject({
+			startedAt: "2025-01-02 09:00",
+			completedAt: "2025-01-04 09:00",
+			cycleTimeDays: 2,
+		});
+
+		const recorded = createTask({ status: "Done", history: [historyEntry("2025-01-03 09:00", "Done")] });
+		expect(getTaskFlowTimes(recorded, statuses, gitHistory)?.cycleTimeDays).toBeUndefined();
+	});
+
+	it("falls back to the updated date and skips cycle time without history", () => {
+		const times = getTaskFlowTimes(createTask({ status: "Done", updatedDate: "2025-01-03 09:00" }), statuses);
+		expect(times?.leadTimeDays).toBe(2);
+		expect(times?.cycleTimeDays).toBeUndefined();
+		expect(getTaskFlowTimes(createTask({ status: "In Progress" }), statuses)).toBeNull();
+	});
+});
+
+describe("computeFlowStatistics", () => {
+	it("computes nearest-rank percentiles", () => {
+		expect(summarizeDurations([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).toEqual({
+			count: 10,
+			average: 5.5,
+			p50: 5,
+			p85: 9,
+			p95: 10,
+		});
+		expect(summarizeDurations([]).p50).toBeNull();
+	});
+
+	it("groups by label, assignee and priority", () => {
+		const tasks = [
+			createTask({
+				id: "task-1",
+				status: "Done",
+				labels: ["bug"],
+				assignee: ["@alice"],
+				updatedDate: "2025-01-02 09:00",
+			}),
+			createTask({
+				id: "task-2",
+				status: "Done",
+				labels: ["bug", "ui"],
+				priority: "high",
+				updatedDate: "2025-01-05 09:00",
+			}),
+			createTask({ id: "task-3" }),
+		];
+
+		const stats = computeFlowStatistics(tasks, statuses);
+
+		expect(stats.tasks).toHaveLength(2);
+		expect(stats.byLabel.map((group) => [group.key, group.leadTime.count])).toEqual([
+			["bug", 2],
+			["ui", 1],
+		]);
+		expect(stats.byAssignee.map((group) => group.key)).toEqual(["(unassigned)", "@alice"]);
+		expect(stats.byPriority.find((group) => group.key === "high")?.leadTime.p50).toBe(4);
+		expect(computeFlowStatistics(tasks, statuses, { since: "2025-01-03" }).tasks).toHaveLength(1);
+	});
+});
+
+describe("stats command", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-cycle-time");
+		const core = await createTestProject(TEST_DIR, "Cycle Time Project");
+		const { task } = await core.createTaskFromInput({ title: "Shipped", labels: ["backend"] }, false);
+		await core.updateTaskFromInput(task.id, { status: "Done" }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("prints percentiles grouped by label", async () => {
+		const result = await $`bun ${cliPath} stats --by label`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(0);
+		const output = result.stdout.toString();
+		expect(output).toContain("Lead time (created → done):");
+		expect(output).toContain("By label:");
+		expect(output).toContain("backend");
+		expect(output).not.toContain("By assignee:");
+	});
+
+	it("measures cycle time from status changes made with task edit", async () => {
+		const gitDir = createUniqueTestDir("test-cycle-time-git");
+		try {
+			const core = await createTestProject(gitDir, "Cycle Time Git Project", true);
+			const config = await core.filesystem.loadConfig();
+			if (!config) throw new Error("Config not found");
+			await core.filesystem.saveConfig({ ...config, autoCommit: true });
+			await core.createTaskFromInput({ title: "Edited" });
+			await $`bun ${cliPath} task edit 1 -s "In Progress"`.cwd(gitDir).quiet();
+			await $`bun ${cliPath} task edit 1 -s Done`.cwd(gitDir).quiet();
+
+			const stats = await new Core(gitDir).getFlowStatistics();
+			expect(stats.tasks).toHaveLength(1);
+			expect(stats.tasks[0]?.startedAt).toBeDefined();
+			expect(stats.cycleTime.count).toBe(1);
+		} finally {
+			await safeCleanup(gitDir);
+		}
+	}, 15000);
+
+	it("rejects unknown groupings", async () => {
+		const result = await $`bun ${cliPath} stats --by team`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(1);
+		expect(result.stderr.toString()).toContain("Invalid --by value(s): team");
+	});
+});
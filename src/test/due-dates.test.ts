@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import {
+	formatDueLabel,
+	getDueState,
+	getOverdueTasks,
+	getTodayInTimezone,
+	normalizeTaskDate,
+} from "../core/due-dates.ts";
+import { getTaskStatistics } from "../core/statistics.ts";
+import { Core } from "../index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("due date helpers", () => {
+	const today = "2025-03-12";
+
+	it("normalizes dates and rejects anything else", () => {
+		expect(normalizeTaskDate(" 2025-03-14 ")).toBe("2025-03-14");
+		expect(normalizeTaskDate("2025-03-14T17:00", "Due date")).toBe("2025-03-14 17:00");
+		expect(() => normalizeTaskDate("2025-02-30", "Due date")).toThrow(
+			"Due date must be a date like 2025-03-14 or 2025-03-14 17:00. Received: 2025-02-30",
+		);
+		expect(() => normalizeTaskDate("next friday")).toThrow("Received: next friday");
+		expect(() => normalizeTaskDate("2025-03-14 25:00")).toThrow();
+	});
+
+	it("classifies open tasks against today", () => {
+		expect(getDueState(createTask({ dueDate: "2025-03-10" }), today)).toBe("overdue");
+		expect(getDueState(createTask({ dueDate: "2025-03-12 09:00" }), today)).toBe("due-today");
+		expect(getDueState(createTask({ dueDate: "2025-03-15" }), today)).toBe("due-soon");
+		expect(getDueState(createTask({ dueDate: "2025-04-01" }), today)).toBe("upcoming");
+		expect(getDueState(createTask({ dueDate: "2025-03-10", status: "Done" }), today)).toBeNull();
+		expect(getDueState(createTask({}), today)).toBeNull();
+
+		expect(formatDueLabel(createTask({ dueDate: "2025-03-10" }), today)).toBe("Overdue by 2d");
+		expect(formatDueLabel(createTask({ dueDate: "2025-03-13" }), today)).toBe("Due tomorrow");
+		expect(formatDueLabel(createTask({ dueDate: "2025-03-20" }), today)).toBe("Due 2025-03-20");
+	});
+
+	it("uses the configured time zone for today", () => {
+		const now = new Date("2025-03-12T23:30:00Z");
+		expect(getTodayInTimezone("UTC", now)).toBe("2025-03-12");
+		expect(getTodayInTimezone("Asia/Tokyo", now)).toBe("2025-03-13");
+		expect(getTodayInTimezone("America/Los_Angeles", now)).toBe("2025-03-12");
+		expect(getTodayInTimezone("Not/AZone", now)).toBe("2025-03-12");
+
+		// A task due on the 12th is overdue in Tokyo but not yet in UTC
+		const task = createTask({ dueDate: "2025-03-12" });
+		expect(getDueState(task, getTodayInTimezone("UTC", now))).toBe("due-today");
+		expect(getDueState(task, getTodayInTimezone("Asia/Tokyo", now))).toBe("overdue");
+	});
+
+	it("adds deadlines to statistics", () => {
+		const tasks = [
+			createTask({ id: "task-1", dueDate: "2025-03-11" }),
+			createTask({ id: "task-2", dueDate: "2025-03-01" }),
+			createTask({ id: "task-3", dueDate: "2025-03-13" }),
+			createTask({ id: "task-4", dueDate: "2025-03-01", status: "Done" }),
+			createTask({ id: "task-5" }),
+		];
+		expect(getOverdueTasks(tasks, today).map((task) => task.id)).toEqual(["task-2", "task-1"]);
+
+		const stats = getTaskStatistics(tasks, [], ["To Do", "Done"], { today });
+		expect(stats.deadlines.overdueCount).toBe(2);
+		expect(stats.deadlines.overdue.map((task) => task.id)).toEqual(["task-2", "task-1"]);
+		expect(stats.deadlines.dueSoon.map((task) => task.id)).toEqual(["task-3"]);
+	});
+});
+
+describe("due dates in Core and CLI", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-due-dates");
+		core = await createTestProject(TEST_DIR, "Due Date Project");
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("stores, updates and clears dates in frontmatter", async () => {
+		const { task } = await core.createTaskFromInput(
+			{ title: "Ship it", startDate: "2025-03-10", dueDate: "2025-03-14T17:00" },
+			false,
+		);
+		expect(task).toMatchObject({ startDate: "2025-03-10", dueDate: "2025-03-14 17:00" });
+
+		const content = await Bun.file(task.filePath as string).text();
+		expect(content).toContain("start_date: '2025-03-10'");
+		expect(content).toContain("due_date: '2025-03-14 17:00'");
+
+		await expect(core.updateTaskFromInput("task-1", { startDate: "2025-03-20" }, false)).rejects.toThrow(
+			"Start date 2025-03-20 is after due date 2025-03-14 17:00.",
+		);
+
+		const { task: cleared } = await core.updateTaskFromInput("task-1", { dueDate: null }, false);
+		expect(cleared.dueDate).toBeUndefined();
+		expect((await core.filesystem.loadTask("task-1"))?.startDate).toBe("2025-03-10");
+	});
+
+	it("filters overdue tasks in the configured time zone", async () => {
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await core.filesystem.saveConfig({ ...config, timezonePreference: "Asia/Tokyo" });
+		expect((await new Core(TEST_DIR).filesystem.loadConfig())?.timezonePreference).toBe("Asia/Tokyo");
+
+		await core.createTaskFromInput({ title: "Late", dueDate: "2020-01-01" }, false);
+		await core.createTaskFromInput({ title: "Later", dueDate: "2099-01-01" }, false);
+		await core.createTaskFromInput({ title: "Done late", dueDate: "2020-01-01", status: "Done" }, false);
+		await core.createTaskFromInput({ title: "Undated" }, false);
+
+		const overdue = await core.queryTasks({ filters: { overdue: true } });
+		expect(overdue.map((task) => task.id)).toEqual(["task-1"]);
+
+		const ranged = await core.queryTasks({ filters: { dueAfter: "2025-01-01", dueBefore: "2099-12-31" } });
+		expect(ranged.map((task) => task.id)).toEqual(["task-2"]);
+	});
+
+	it("sets due dates and lists overdue tasks on the command line", async () => {
+		const created = await $`bun ${cliPath} task create "Late" --due 2020-01-01`.cwd(TEST_DIR).quiet().nothrow();
+		expect(created.exitCode).toBe(0);
+		await $`bun ${cliPath} task create "On time" --due 2099-01-01`.cwd(TEST_DIR).quiet();
+
+		const list = await $`bun ${cliPath} task list --overdue --plain`.cwd(TEST_DIR).quiet().nothrow();
+		expect(list.exitCode).toBe(0);
+		const output = list.stdout.toString();
+		expect(output).toContain("task-1 - Late");
+		expect(output).toContain("[Overdue by");
+		expect(output).not.toContain("On time");
+
+		const invalid = await $`bun ${cliPath} task edit 2 --due tomorrow`.cwd(TEST_DIR).quiet().nothrow();
+		expect(invalid.exitCode).toBe(1);
+		expect(invalid.stderr.toString()).toContain("Received: tomorrow");
+
+		const cleared = await $`bun ${cliPath} task edit 1 --due=`.cwd(TEST_DIR).quiet().nothrow();
+		expect(cleared.exitCode).toBe(0);
+		expect((await core.filesystem.loadTask("task-1"))?.dueDate).toBeUndefined();
+	});
+});
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { getTaskFlowTimes } from "../core/cycle-time.ts";
+import { convertExternalExport, formatImportReport, parseImportMapping } from "../core/external-import.ts";
+import type { Core } from "../index.ts";
+import { formatCsv } from "../utils/csv.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const statuses = ["To Do", "In Progress", "Done"];
+
+const githubIssues = [
+	{
+		number: 1,
+		title: "Epic",
+		body: "Ship it\n\n- [x] Plan\n- [ ] Build",
+		state: "OPEN",
+		labels: [{ name: "bug" }, { name: "wontfix" }],
+		assignees: [{ login: "sam" }],
+		milestone: { title: "v1" },
+		comments: [{ author: { login: "kim" }, body: "Looks good", createdAt: "2025-03-02T10:00:00Z" }],
+	},
+	{ number: 2, title: "Child", body: "", state: "CLOSED", labels: [], assignees: [], parent: { number: 1 } },
+	{ number: 3, title: "Orphan", body: "", state: "OPEN", parent: 99 },
+];
+
+describe("external importers", () => {
+	it("maps GitHub issues, checklists, comments and sub-issues", () => {
+		const { tasks, report } = convertExternalExport("github", JSON.stringify(githubIssues), {
+			statuses,
+			mapping: parseImportMapping("labels:\n  wontfix: null\nassignees:\n  sam: '@samantha'\n"),
+		});
+		expect(tasks[0]).toEqual({
+			ref: "#1",
+			input: {
+				title: "Epic",
+				description: "Ship it",
+				status: "To Do",
+				labels: ["bug"],
+				assignee: ["@samantha"],
+				acceptanceCriteria: [
+					{ text: "Plan", checked: true },
+					{ text: "Build", checked: false },
+				],
+				comments: [{ id: 1, author: "@kim", date: "2025-03-02 10:00", body: "Looks good" }],
+				milestone: "v1",
+			},
+			dependencyRefs: [],
+		});
+		expect(tasks[1]).toMatchObject({ ref: "#2", parentRef: "#1", input: { status: "Done" } });
+		expect(tasks[2]?.parentRef).toBeUndefined();
+		expect(report.unmapped).toEqual([{ kind: "parent", value: "#99", refs: ["#3"] }]);
+	});
+
+	it("reads Jira CSV with repeated columns and reports what it could not map", () => {
+		const csv = formatCsv([
+			[
+				"Summary",
+				"Issue key",
+				"Issue id",
+				"Status",
+				"Priority",
+				"Assignee",
+				"Labels",
+				"Labels",
+				"Parent id",
+				"Comment",
+				"Custom field (Customer)",
+				"Sprint",
+			],
+			["Login", "WEB-1", "100", "In Review", "Highest", "Jane Doe", "auth", "web", "", "", "ACME", "S1"],
+			["Form", "WEB-2", "101", "Blocked", "P0", "", "", "", "100", "01/Mar/25 2:05 PM;Jane Doe;Done; mostly", "", ""],
+		]);
+		const { tasks, report } = convertExternalExport("jira", csv, {
+			statuses,
+			customFields: [{ name: "customer", type: "string" }],
+			mapping: { statuses: { blocked: "In Progress" } },
+		});
+		expect(tasks[0]?.input).toMatchObject({
+			title: "Login",
+			status: "In Progress",
+			priority: "high",
+			assignee: ["@Jane-Doe"],
+			labels: ["auth", "web"],
+			customFields: { customer: "ACME" },
+		});
+		expect(tasks[1]).toMatchObject({
+			ref: "WEB-2",
+			parentRef: "WEB-1",
+			input: {
+				status: "In Progress",
+				comments: [{ id: 1, date: "2025-03-01 14:05", body: "Done; mostly", author: "@Jane-Doe" }],
+			},
+		});
+		expect(report.unmapped).toEqual([
+			{ kind: "column", value: "Sprint", refs: ["WEB-1"] },
+			{ kind: "priority", value: "P0", refs: ["WEB-2"] },
+		]);
+	});
+
+	it("turns Trello lists into statuses and checklists into acceptance criteria", () => {
+		const board = {
+			lists: [
+				{ id: "l1", name: "Doing", closed: false },
+				{ id: "l2", name: "Ideas", closed: false },
+				{ id: "l3", name: "Old", closed: true },
+			],
+			members: [{ id: "m1", username: "ana" }],
+			cards: [
+				{ id: "c1", idShort: 1, name: "Build", desc: "Details", idList: "l1", idMembers: ["m1"], labels: [] },
+				{ id: "c2", idShort: 2, name: "Maybe", desc: "", idList: "l2", labels: [{ name: "later" }] },
+				{ id: "c3", idShort: 3, name: "Gone", idList: "l1", closed: true },
+				{ id: "c4", idShort: 4, name: "Stale", idList: "l3" },
+			],
+			checklists: [
+				{
+					idCard: "c1",
+					checkItems: [
+						{ name: "Second", state: "incomplete", pos: 2 },
+						{ name: "First", state: "complete", pos: 1 },
+					],
+				},
+			],
+			actions: [],
+		};
+		const { tasks, report } = convertExternalExport("trello", JSON.stringify(board), { statuses });
+		expect(tasks.map((task) => task.ref)).toEqual(["#1", "#2"]);
+		expect(tasks[0]?.input).toMatchObject({
+			status: "In Progress",
+			assignee: ["@ana"],
+			acceptanceCriteria: [
+				{ text: "First", checked: true },
+				{ text: "Second", checked: false },
+			],
+		});
+		expect(tasks[1]?.input.status).toBeUndefined();
+		expect(report.total).toBe(4);
+		expect(formatImportReport(report)).toBe(
+			[
+				"Import report (trello, 4 items read):",
+				'  Unknown status "Ideas", default status used: #2',
+				"  Skipped #3: archived card",
+				'  Skipped #4: in archived list "Old"',
+			].join("\n"),
+		);
+	});
+
+	it("does not treat comments as status changes when measuring cycle time", () => {
+		const times = getTaskFlowTimes(
+			{
+				id: "task-1",
+				title: "A",
+				status: "Done",
+				assignee: [],
+				labels: [],
+				dependencies: [],
+				createdDate: "2025-03-01 09:00",
+				rawContent: "",
+				history: [
+					{ updatedAt: "2025-03-02 09:00", description: "", author: "", status: "Done" },
+					{ updatedAt: "2025-03-03 09:00", description: "Comment: nice", author: "@kim", status: "" },
+				],
+			},
+			statuses,
+		);
+		expect(times?.completedAt).toBe("2025-03-02 09:00");
+	});
+});
+
+describe("backlog import github|jira|trello", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-external-import");
+		core = await createTestProject(TEST_DIR, "Import Project");
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("imports GitHub issues with parents and comments and writes a report", async () => {
+		await Bun.write(join(TEST_DIR, "issues.json"), JSON.stringify(githubIssues));
+		await Bun.write(join(TEST_DIR, "mapping.yml"), "labels:\n  wontfix: null\n");
+		const result = await $`bun ${cliPath} import github issues.json --mapping mapping.yml --report report.json`
+			.cwd(TEST_DIR)
+			.quiet();
+		const output = result.stdout.toString();
+		expect(output).toContain("Imported 3 task(s):\n  #1 -> task-1 - Epic\n  #2 -> task-1.1 - Child\n");
+		expect(output).toContain('Parent "#99" not in the file, imported without a parent: #3');
+
+		const epic = await core.filesystem.loadTask("task-1");
+		expect(epic?.labels).toEqual(["bug"]);
+		expect(epic?.comments?.[0]).toMatchObject({ body: "Looks good", author: "@kim" });
+		expect((await core.filesystem.loadTask("task-1.1"))?.parentTaskId).toBe("task-1");
+		const report = JSON.parse(await Bun.file(join(TEST_DIR, "report.json")).text());
+		expect(report).toMatchObject({ source: "github", total: 3, skipped: [] });
+	});
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { buildIdMap, IdMigrationError, rewriteTaskReferences } from "../core/id-migration.ts";
+import type { Core } from "../index.ts";
+import { normalizeTaskId } from "../utils/task-path.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("rewriteTaskReferences", () => {
+	it("rewrites known ids only, whole words only", () => {
+		const idMap = buildIdMap(["task-1", "task-007", "task-1.1"], "task");
+		const { content, references } = rewriteTaskReferences(
+			"Blocked by task-1 and TASK-7, see task-1.1. Not task-10, subtask-1, task-1a or my-task-1.",
+			idMap,
+			"task",
+			"BACK",
+		);
+		expect(content).toBe("Blocked by BACK-1 and BACK-7, see BACK-1.1. Not task-10, subtask-1, task-1a or my-task-1.");
+		expect(references).toBe(3);
+	});
+});
+
+describe("migrating task ids", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-id-migration");
+		core = await createTestProject(TEST_DIR, "Migration Project");
+		await core.createTaskFromInput({ title: "Design schema", description: "Split out of task-3 later" }, false);
+		await core.createTaskFromInput({ title: "Build API", dependencies: ["task-1"] }, false);
+		await core.createTaskFromInput({ title: "Endpoints", parentTaskId: "task-2" }, false);
+		await core.createTaskFromInput({ title: "Write docs" }, false);
+		await core.archiveTask("task-3", false);
+		await Bun.write(
+			join(TEST_DIR, "backlog", "docs", "doc-1 - API.md"),
+			"---\nid: doc-1\ntitle: API\n---\n\nTracked in task-2 and task-2.1.\n",
+		);
+	});
+
+	afterEach(async () => {
+		core.disposeContentStore();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("reports without changing anything on a dry run", async () => {
+		const plan = await core.migrateTaskIds({ prefix: "BACK", dryRun: true });
+		expect(plan.renames).toEqual([
+			{ from: "task-1", to: "BACK-1" },
+			{ from: "task-2", to: "BACK-2" },
+			{ from: "task-2.1", to: "BACK-2.1" },
+			{ from: "task-3", to: "BACK-3" },
+		]);
+		expect(plan.files.find((file) => !file.newPath)).toEqual({
+			path: join("backlog", "docs", "doc-1 - API.md"),
+			references: 2,
+		});
+		expect(await core.filesystem.getTaskPrefix()).toBe("task");
+		expect(await core.filesystem.loadTask("task-2")).not.toBeNull();
+		expect((await core.filesystem.loadConfig())?.taskPrefix).toBeUndefined();
+	});
+
+	it("renames files, rewrites references and creates ids with the new prefix", async () => {
+		await core.migrateTaskIds({ prefix: "BACK" });
+
+		expect(await core.filesystem.getTaskPrefix()).toBe("BACK");
+		expect((await core.filesystem.listTasks()).map((task) => task.id)).toEqual(["BACK-1", "BACK-2", "BACK-2.1"]);
+		const api = await core.filesystem.loadTask("2");
+		expect(api?.dependencies).toEqual(["BACK-1"]);
+		expect((await core.filesystem.loadTask("BACK-2.1"))?.parentTaskId).toBe("BACK-2");
+		expect((await core.filesystem.loadTask("BACK-1"))?.description).toBe("Split out of BACK-3 later");
+		expect((await core.filesystem.listArchivedTasks()).map((task) => task.id)).toEqual(["BACK-3"]);
+		expect(await Bun.file(join(TEST_DIR, "backlog", "docs", "doc-1 - API.md")).text()).toContain(
+			"Tracked in BACK-2 and BACK-2.1.",
+		);
+		expect(await Bun.file(join(TEST_DIR, "backlog", "config.yml")).text()).toContain('task_prefix: "BACK"');
+		expect(normalizeTaskId("4", "BACK")).toBe("BACK-4");
+
+		const { task } = await core.createTaskFromInput({ title: "Release" }, false);
+		expect(task.id).toBe("BACK-4");
+	}, 10000);
+
+	it("rewrites saved views, milestones, templates and the recurrence state", async () => {
+		await core.saveView({ name: "api", query: "parent:task-2 dep:task-1" }, false);
+		await Bun.write(
+			join(TEST_DIR, "backlog", "milestones", "m-1 - Beta.md"),
+			"---\nid: m-1\ntitle: Beta\n---\n\nShips with task-2.\n",
+		);
+		await Bun.write(
+			join(TEST_DIR, "backlog", "templates", "bug.md"),
+			"---\ntitle: Bug\ndependencies:\n  - task-1\n---\n",
+		);
+		await core.filesystem.saveRecurState({ bug: { lastOccurrence: "2025-03-01", lastTaskId: "task-2" } });
+
+		const plan = await core.migrateTaskIds({ prefix: "BACK" });
+
+		expect(plan.files.filter((file) => !file.newPath).map((file) => file.path)).toEqual([
+			join("backlog", "docs", "doc-1 - API.md"),
+			join("backlog", "milestones", "m-1 - Beta.md"),
+			join("backlog", "templates", "bug.md"),
+			join("backlog", "templates", "recur-state.json"),
+			join("backlog", "views.yml"),
+		]);
+		expect((await core.filesystem.listViews())[0]?.query).toBe("parent:BACK-2 dep:BACK-1");
+		expect(await Bun.file(join(TEST_DIR, "backlog", "milestones", "m-1 - Beta.md")).text()).toContain(
+			"Ships with BACK-2.",
+		);
+		expect(await Bun.file(join(TEST_DIR, "backlog", "templates", "bug.md")).text()).toContain("  - BACK-1");
+		expect((await core.filesystem.loadRecurState()).bug?.lastTaskId).toBe("BACK-2");
+	}, 10000);
+
+	it("puts every file back when a late step fails", async () => {
+		const saveConfig = spyOn(core.filesystem, "saveConfig").mockRejectedValueOnce(new Error("disk full"));
+		const before = await Bun.file(join(TEST_DIR, "backlog", "docs", "doc-1 - API.md")).text();
+
+		await expect(core.migrateTaskIds({ prefix: "BACK" })).rejects.toThrow(
+			"Failed to migrate task ids, nothing was changed: disk full",
+		);
+		saveConfig.mockRestore();
+
+		expect((await core.filesystem.listTasks()).map((task) => task.id)).toEqual(["task-1", "task-2", "task-2.1"]);
+		expect((await core.filesystem.listArchivedTasks()).map((task) => task.id)).toEqual(["task-3"]);
+		expect(await Array.fromAsync(new Bun.Glob("**/BACK-*").scan({ cwd: join(TEST_DIR, "backlog") }))).toEqual([]);
+		expect(await Bun.file(join(TEST_DIR, "backlog", "docs", "doc-1 - API.md")).text()).toBe(before);
+		expect(await core.filesystem.getTaskPrefix()).toBe("task");
+		expect((await core.listJournal()).undo.map((entry) => entry.operation)).not.toContain("Migrate task ids to BACK-");
+	}, 10000);
+
+	it("can be undone", async () => {
+		await core.migrateTaskIds({ prefix: "BACK" });
+		await core.undo();
+		core.filesystem.invalidateConfigCache();
+
+		expect(await core.filesystem.getTaskPrefix()).toBe("task");
+		expect((await core.filesystem.listTasks()).map((task) => task.id)).toEqual(["task-1", "task-2", "task-2.1"]);
+		expect((await core.filesystem.loadTask("task-2"))?.dependencies).toEqual(["task-1"]);
+	}, 10000);
+
+	it("refuses invalid, unchanged and clashing prefixes", async () => {
+		await expect(core.migrateTaskIds({ prefix: "back-end" })).rejects.toThrow("Invalid prefix: back-end");
+		await expect(core.migrateTaskIds({ prefix: "task" })).rejects.toBeInstanceOf(IdMigrationError);
+		await Bun.write(join(TEST_DIR, "backlog", "tasks", "BACK-9 - Stray.md"), "---\nid: BACK-9\ntitle: Stray\n---\n");
+		await expect(core.migrateTaskIds({ prefix: "BACK" })).rejects.toThrow(
+			`These files already use the BACK- prefix: ${join("backlog", "tasks", "BACK-9 - Stray.md")}`,
+		);
+		expect(await core.filesystem.loadTask("task-1")).not.toBeNull();
+	});
+
+	it("migrates from the CLI and keeps taskPrefix out of config set", async () => {
+		const dryRun = await $`bun ${cliPath} migrate ids --prefix BACK --dry-run`.cwd(TEST_DIR).quiet();
+		expect(dryRun.stdout.toString()).toContain("Would rename 4 task ids from task- to BACK-:\n  task-1 → BACK-1\n");
+		expect(dryRun.stdout.toString()).toContain("Dry run: nothing was changed.");
+
+		const refused = await $`bun ${cliPath} config set taskPrefix BACK`.cwd(TEST_DIR).quiet().nothrow();
+		expect(refused.exitCode).toBe(1);
+		expect(refused.stderr.toString()).toContain("backlog migrate ids --prefix BACK");
+
+		await $`bun ${cliPath} migrate ids --prefix BACK`.cwd(TEST_DIR).quiet();
+		const prefix = await $`bun ${cliPath} config get taskPrefix`.cwd(TEST_DIR).quiet();
+		expect(prefix.stdout.toString()).toBe("BACK\n");
+		const view = await $`bun ${cliPath} task view 2 --plain`.cwd(TEST_DIR).quiet();
+		expect(view.stdout.toString()).toContain("BACK-2 - Build API");
+	}, 20000);
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { $ } from "bun";
+import { describeChanges, JournalError } from "../core/journal.ts";
+import { Core } from "../index.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("describeChanges", () => {
+	it("shows a file deleted and recreated with the same content as a move", () => {
+		expect(
+			describeChanges([
+				{ path: "backlog/archive/tasks/task-1 - A.md", before: null, after: "a" },
+				{ path: "backlog/tasks/task-1 - A.md", before: "a", after: null },
+				{ path: "backlog/tasks/task-2 - B.md", before: "b", after: "b2" },
+				{ path: "backlog/tasks/task-3 - C.md", before: null, after: "c" },
+			]),
+		).toEqual([
+			"moved backlog/tasks/task-1 - A.md -> backlog/archive/tasks/task-1 - A.md",
+			"changed backlog/tasks/task-2 - B.md",
+			"created backlog/tasks/task-3 - C.md",
+		]);
+	});
+});
+
+describe("undo and redo", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-journal");
+		core = await createTestProject(TEST_DIR, "Journal Project");
+		await core.createTaskFromInput({ title: "First" }, false);
+		await core.createTaskFromInput({ title: "Second" }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("undoes and redoes an edit and an archive", async () => {
+		await core.updateTaskFromInput("task-1", { title: "First renamed", status: "In Progress" }, false);
+		await core.archiveTask("task-2", false);
+
+		const journal = await core.listJournal();
+		expect(journal.undo.map((entry) => entry.operation)).toEqual([
+			"Archive task-2",
+			"Edit task-1",
+			"Create task-2",
+			"Create task-1",
+		]);
+		expect(journal.undo[0]?.files).toEqual([
+			"moved backlog/tasks/task-2 - Second.md -> backlog/archive/tasks/task-2 - Second.md",
+		]);
+
+		const undone = await core.undo(2);
+		expect(undone.map((entry) => entry.operation)).toEqual(["Archive task-2", "Edit task-1"]);
+		expect((await core.filesystem.loadTask("task-1"))?.title).toBe("First");
+		expect((await core.filesystem.loadTask("task-2"))?.title).toBe("Second");
+
+		await core.redo();
+		expect((await core.filesystem.loadTask("task-1"))?.status).toBe("In Progress");
+		expect((await core.listJournal()).redo.map((entry) => entry.operation)).toEqual(["Archive task-2"]);
+
+		// A new operation starts a new history
+		await core.updateTaskFromInput("task-2", { priority: "high" }, false);
+		expect((await core.listJournal()).redo).toEqual([]);
+	});
+
+	it("records a bulk edit as one operation", async () => {
+		await core.bulkEditTasks(["task-1", "task-2"], { priority: "low" }, false);
+		const [latest] = (await core.listJournal()).undo;
+		expect(latest?.operation).toBe("Bulk edit 2 task(s)");
+		expect(latest?.files).toHaveLength(2);
+
+		await core.undo();
+		expect((await core.filesystem.loadTask("task-1"))?.priority).toBeUndefined();
+		expect((await core.filesystem.loadTask("task-2"))?.priority).toBeUndefined();
+	});
+
+	it("refuses to overwrite files changed outside the journal unless forced", async () => {
+		const { task: edited } = await core.updateTaskFromInput("task-1", { title: "Edited" }, false);
+		const path = edited.filePath ?? "";
+		await Bun.write(path, (await Bun.file(path).text()).replace("Edited", "Hand edited"));
+
+		const error = await core.undo().catch((err) => err);
+		expect(error).toBeInstanceOf(JournalError);
+		expect(error.conflicts).toEqual(["backlog/tasks/task-1 - Edited.md"]);
+		expect((await core.filesystem.loadTask("task-1"))?.title).toBe("Hand edited");
+
+		await core.undo(1, { force: true });
+		expect((await core.filesystem.loadTask("task-1"))?.title).toBe("First");
+	});
+
+	it("records only the files an operation touched", async () => {
+		const second = (await core.filesystem.loadTask("task-2"))?.filePath ?? "";
+		await Bun.write(second, (await Bun.file(second).text()).replace("Second", "Hand edited"));
+		await core.updateTaskFromInput("task-1", { priority: "high" }, false);
+
+		const [latest] = (await core.listJournal()).undo;
+		expect(latest?.files).toEqual(["changed backlog/tasks/task-1 - First.md"]);
+		await core.undo();
+		expect((await core.filesystem.loadTask("task-2"))?.title).toBe("Hand edited");
+	});
+
+	it("only undoes the entry it was asked for", async () => {
+		await core.updateTaskFromInput("task-1", { priority: "high" }, false);
+		const [shown] = (await core.listJournal()).undo;
+		await core.updateTaskFromInput("task-2", { priority: "low" }, false);
+
+		const error = await core.undo(1, { expectedId: shown?.id }).catch((err) => err);
+		expect(error).toBeInstanceOf(JournalError);
+		expect(error.message).toContain('"Edit task-2" happened since');
+		expect((await core.filesystem.loadTask("task-2"))?.priority).toBe("low");
+	});
+
+	it("reports a damaged journal and leaves it in place", async () => {
+		const journalPath = await core.filesystem.getJournalPath();
+		await Bun.write(journalPath, '{"undo": [');
+
+		const error = await core.listJournal().catch((err) => err);
+		expect(error).toBeInstanceOf(JournalError);
+		expect(error.message).toContain("is damaged");
+		await expect(core.undo()).rejects.toBeInstanceOf(JournalError);
+
+		const warn = spyOn(console, "warn").mockImplementation(() => {});
+		try {
+			await core.updateTaskFromInput("task-1", { priority: "high" }, false);
+			expect(warn.mock.calls[0]?.[0]).toContain('"Edit task-1" cannot be undone');
+		} finally {
+			warn.mockRestore();
+		}
+		expect((await core.filesystem.loadTask("task-1"))?.priority).toBe("high");
+		expect(await Bun.file(journalPath).text()).toBe('{"undo": [');
+	});
+
+	it("keeps every entry when several processes write the journal", async () => {
+		const other = new Core(TEST_DIR);
+		await Bun.write(`${await core.filesystem.getJournalPath()}.lock`, "");
+		const edits = Promise.all([
+			core.updateTaskFromInput("task-1", { priority: "high" }, false),
+			other.updateTaskFromInput("task-2", { priority: "low" }, false),
+		]);
+		// Neither can append while the lock is held
+		await Bun.sleep(100);
+		expect((await core.listJournal()).undo).toHaveLength(2);
+		await rm(`${await core.filesystem.getJournalPath()}.lock`);
+		await edits;
+
+		expect(
+			(await core.listJournal()).undo
+				.map((entry) => entry.operation)
+				.slice(0, 2)
+				.sort(),
+		).toEqual(["Edit task-1", "Edit task-2"]);
+	});
+
+	it("undoes from the CLI and commits when asked", async () => {
+		await core.updateTaskFromInput("task-2", { labels: ["ui"] }, false);
+
+		const undo = await $`bun ${cliPath} undo`.cwd(TEST_DIR).quiet();
+		expect(undo.stdout.toString()).toMatch(
+			/^Undid: Edit task-2 \(.+\)\n {4}changed backlog\/tasks\/task-2 - Second\.md\n$/,
+		);
+		expect((await core.filesystem.loadTask("task-2"))?.labels).toEqual([]);
+
+		const list = await $`bun ${cliPath} undo --list`.cwd(TEST_DIR).quiet();
+		expect(list.stdout.toString()).toContain("Redo:\n  Edit task-2");
+
+		await core.redo(1, { autoCommit: true });
+		expect((await $`git log -1 --format=%s`.cwd(TEST_DIR).quiet()).stdout.toString().trim()).toBe(
+			"backlog: Redo Edit task-2",
+		);
+
+		const tooMany = await $`bun ${cliPath} redo`.cwd(TEST_DIR).quiet().nothrow();
+		expect(tooMany.exitCode).toBe(1);
+		expect(tooMany.stderr.toString()).toContain("Nothing to redo");
+	});
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import {
+	formatJsonOutput,
+	formatNdjsonOutput,
+	JSON_OUTPUT_VERSION,
+	serializeBoard,
+	serializeConfig,
+	serializeTask,
+} from "../formatters/json-output.ts";
+import type { BacklogConfig } from "../types/index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("JSON serializers", () => {
+	it("always emits every task field, with null for absent values", () => {
+		const json = serializeTask(
+			createTask({
+				priority: "high",
+				estimate: "2h",
+				acceptanceCriteriaItems: [{ index: 1, text: "Works", checked: true }],
+				customFields: { severity: "S1" },
+				remaining: "1h",
+				worklog: [{ author: "@alice", duration: "1h", date: "2025-01-02" }],
+				comments: [{ id: 1, author: "@bob", date: "2025-01-02 10:00", body: "Looks good" }],
+				attachments: ["task-1/log.txt"],
+				relations: { blocks: ["task-2"] },
+			}),
+		);
+		expect(json).toEqual({
+			id: "task-1",
+			title: "Test Task",
+			status: "To Do",
+			priority: "high",
+			assignee: [],
+			reporter: null,
+			labels: [],
+			milestone: null,
+			parentTaskId: null,
+			subtasks: [],
+			dependencies: [],
+			createdDate: "2025-01-01 09:00",
+			updatedDate: null,
+			startDate: null,
+			dueDate: null,
+			description: null,
+			acceptanceCriteria: [{ index: 1, text: "Works", checked: true }],
+			implementationPlan: null,
+			implementationNotes: null,
+			estimate: "2h",
+			remaining: "1h",
+			worklog: [{ author: "@alice", duration: "1h", date: "2025-01-02" }],
+			effort: { estimatedMinutes: 120, loggedMinutes: 60, remainingMinutes: 60 },
+			customFields: { severity: "S1" },
+			comments: [{ id: 1, author: "@bob", date: "2025-01-02 10:00", body: "Looks good" }],
+			attachments: ["task-1/log.txt"],
+			relations: [{ type: "blocks", taskId: "task-2" }],
+			filePath: null,
+		});
+	});
+
+	it("wraps output in a versioned envelope", () => {
+		expect(JSON.parse(formatJsonOutput("tasks", []))).toEqual({
+			version: JSON_OUTPUT_VERSION,
+			kind: "tasks",
+			data: [],
+		});
+		const lines = formatNdjsonOutput("task", [{ id: "task-1" }, { id: "task-2" }]).split("\n");
+		expect(lines).toEqual([
+			`{"version":${JSON_OUTPUT_VERSION},"kind":"task","data":{"id":"task-1"}}`,
+			`{"version":${JSON_OUTPUT_VERSION},"kind":"task","data":{"id":"task-2"}}`,
+		]);
+		expect(formatNdjsonOutput("task", [])).toBe("");
+	});
+
+	it("reports board columns with their WIP load", () => {
+		const board = serializeBoard(
+			[createTask({ id: "task-1", status: "in progress" }), createTask({ id: "task-2", status: "In Progress" })],
+			["To Do", "In Progress"],
+			{ statuses: { "In Progress": { limit: 1 } } },
+		);
+		expect(board.columns.map(({ status, count, limit, overLimit }) => ({ status, count, limit, overLimit }))).toEqual([
+			{ status: "To Do", count: 0, limit: null, overLimit: false },
+			{ status: "In Progress", count: 2, limit: 1, overLimit: true },
+		]);
+	});
+
+	it("keeps secrets out of the config", () => {
+		const config = serializeConfig({
+			projectName: "Demo",
+			statuses: ["To Do"],
+			labels: [],
+			milestones: [],
+			dateFormat: "yyyy-mm-dd",
+			notifications: {
+				webhooks: [{ url: "https://hooks.slack.com/services/T000/B000/XXXX", headers: { Authorization: "secret" } }],
+			},
+			mcp: { http: { auth: { type: "bearer", token: "secret" } } },
+		} as BacklogConfig);
+		expect(JSON.stringify(config)).not.toContain("secret");
+		expect(config.notifications).toEqual({ webhooks: [{ url: "https://hooks.slack.com/services/***" }] });
+	});
+});
+
+describe("--json and --ndjson output", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-json-output");
+		const core = await createTestProject(TEST_DIR, "JSON Project");
+		await core.createTaskFromInput({ title: "Crash", labels: ["bug"], priority: "high" }, false);
+		await core.createTaskFromInput({ title: "Typo", labels: ["bug"], status: "Done", dependencies: ["task-1"] }, false);
+		await core.createTaskFromInput({ title: "Docs", priority: "low" }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	const run = async (...args: string[]) => {
+		const result = await $`bun ${cliPath} ${args}`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(0);
+		return result.stdout.toString();
+	};
+
+	it("prints task lists as JSON and NDJSON", async () => {
+		const list = JSON.parse(await run("task", "list", "--json", "-q", "label:bug"));
+		expect(list.version).toBe(JSON_OUTPUT_VERSION);
+		expect(list.kind).toBe("tasks");
+		expect(list.data.map((task: { id: string }) => task.id)).toEqual(["task-1", "task-2"]);
+
+		const lines = (await run("task", "list", "--ndjson")).trim().split("\n");
+		expect(lines.map((line) => JSON.parse(line).data.title)).toEqual(["Crash", "Docs", "Typo"]);
+		expect(JSON.parse(lines[0] ?? "").kind).toBe("task");
+
+		expect(await run("task", "list", "--ndjson", "-q", "label:none")).toBe("");
+	});
+
+	it("prints a single task, the board, sequences, search results, docs and config", async () => {
+		const task = JSON.parse(await run("task", "view", "2", "--json"));
+		expect(task.kind).toBe("task");
+		expect(task.data).toMatchObject({ id: "task-2", title: "Typo", status: "Done", dependencies: ["task-1"] });
+		expect(JSON.parse(await run("task", "3", "--json")).data.priority).toBe("low");
+		await run("task", "edit", "3", "--blocks", "1");
+		expect(JSON.parse(await run("task", "view", "1", "--json")).data.relations).toEqual([
+			{ type: "blocked-by", taskId: "task-3", inverse: true },
+		]);
+
+		const board = JSON.parse(await run("board", "--json"));
+		expect(
+			board.data.columns.map((column: { status: string; count: number }) => [column.status, column.count]),
+		).toEqual([
+			["To Do", 2],
+			["In Progress", 0],
+			["Done", 1],
+		]);
+
+		const sequences = JSON.parse(await run("sequence", "list", "--json"));
+		expect(sequences.kind).toBe("sequences");
+		expect(Array.isArray(sequences.data.sequences)).toBe(true);
+
+		const hits = (await run("search", "crash", "--ndjson"))
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		expect(hits[0]).toMatchObject({ kind: "search-result", data: { type: "task", task: { id: "task-1" } } });
+
+		expect(JSON.parse(await run("doc", "list", "--json"))).toEqual({
+			version: JSON_OUTPUT_VERSION,
+			kind: "documents",
+			data: [],
+		});
+		expect(JSON.parse(await run("draft", "list", "--json")).data).toEqual([]);
+
+		const config = JSON.parse(await run("config", "list", "--json"));
+		expect(config.data).toMatchObject({ projectName: "JSON Project", statuses: ["To Do", "In Progress", "Done"] });
+	}, 15000);
+});
@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { $ } from "bun";
+import { FileSystem } from "../file-system/operations.ts";
+import { resolveMcpHttpOptions } from "../mcp/http-transport.ts";
+import { createMcpServer, type McpServer } from "../mcp/server.ts";
+import type { BacklogConfig } from "../types/index.ts";
+import { createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+let TEST_DIR: string;
+let server: McpServer | undefined;
+
+async function initProject(config?: Partial<BacklogConfig>): Promise<McpServer> {
+	const bootstrap = await createMcpServer(TEST_DIR);
+	await bootstrap.filesystem.ensureBacklogStructure();
+	await $`git init -b main`.cwd(TEST_DIR).quiet();
+	await $`git config user.name "Test User"`.cwd(TEST_DIR).quiet();
+	await $`git config user.email test@example.com`.cwd(TEST_DIR).quiet();
+	await bootstrap.initializeProject("HTTP Project");
+	if (config) {
+		const existing = await bootstrap.filesystem.loadConfig();
+		await bootstrap.filesystem.saveConfig({ ...(existing as BacklogConfig), ...config });
+	}
+	await bootstrap.stop();
+	return await createMcpServer(TEST_DIR);
+}
+
+const initializeBody = {
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: {
+		protocolVersion: "2025-03-26",
+		capabilities: {},
+		clientInfo: { name: "test", version: "1.0.0" },
+	},
+};
+
+describe("MCP Streamable HTTP transport", () => {
+	beforeEach(() => {
+		TEST_DIR = createUniqueTestDir("mcp-http");
+	});
+
+	afterEach(async () => {
+		if (server) {
+			await server.stop();
+			server = undefined;
+		}
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("serves the registered tools to an MCP client", async () => {
+		server = await initProject();
+		const config = await server.filesystem.loadConfig();
+		const handle = await server.connectHttp(resolveMcpHttpOptions(config, { port: 0 }));
+
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(new StreamableHTTPClientTransport(new URL(handle.url)));
+
+		const tools = await client.listTools();
+		expect(tools.tools.map((tool) => tool.name)).toContain("task_create");
+
+		const created = await client.callTool({ name: "task_create", arguments: { title: "Shared task" } });
+		const text = (created.content as Array<{ text?: string }>)[0]?.text ?? "";
+		expect(text).toContain("Shared task");
+
+		await client.close();
+	});
+
+	it("keeps independent sessions for concurrent clients", async () => {
+		server = await initProject();
+		const handle = await server.connectHttp(resolveMcpHttpOptions(null, { port: 0 }));
+
+		const first = new Client({ name: "agent-a", version: "1.0.0" });
+		const second = new Client({ name: "agent-b", version: "1.0.0" });
+		await first.connect(new StreamableHTTPClientTransport(new URL(handle.url)));
+		await second.connect(new StreamableHTTPClientTransport(new URL(handle.url)));
+
+		const [firstTools, secondTools] = await Promise.all([first.listTools(), second.listTools()]);
+		expect(firstTools.tools.length).toBe(secondTools.tools.length);
+
+		await first.close();
+		await second.close();
+	});
+
+	it("rejects requests without the configured bearer token", async () => {
+		server = await initProject({
+			mcp: { http: { auth: { type: "bearer", token: "s3cret" } } },
+		});
+		const config = await server.filesystem.loadConfig();
+		const handle = await server.connectHttp(resolveMcpHttpOptions(config, { port: 0 }));
+
+		const headers = {
+			"Content-Type": "application/json",
+			Accept: "application/json, text/event-stream",
+		};
+		const denied = await fetch(handle.url, { method: "POST", headers, body: JSON.stringify(initializeBody) });
+		expect(denied.status).toBe(401);
+		expect(denied.headers.get("www-authenticate")).toContain("Bearer");
+
+		const allowed = await fetch(handle.url, {
+			method: "POST",
+			headers: { ...headers, Authorization: "Bearer s3cret" },
+			body: JSON.stringify(initializeBody),
+		});
+		expect(allowed.status).toBe(200);
+		expect(allowed.headers.get("mcp-session-id")).toBeTruthy();
+		await allowed.body?.cancel();
+	});
+
+	it("rejects foreign Host and Origin headers when DNS rebinding protection is on", async () => {
+		server = await initProject({
+			mcp: { http: { enableDnsRebindingProtection: true, allowedHosts: ["localhost", "127.0.0.1"] } },
+		});
+		const config = await server.filesystem.loadConfig();
+		const handle = await server.connectHttp(resolveMcpHttpOptions(config, { port: 0 }));
+
+		const response = await fetch(handle.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				Origin: "http://evil.example",
+			},
+			body: JSON.stringify(initializeBody),
+		});
+		expect(response.status).toBe(403);
+	});
+
+	it("answers CORS preflight requests for configured origins", async () => {
+		server = await initProject({
+			mcp: { http: { cors: { origin: ["http://localhost:3000"], credentials: true } } },
+		});
+		const config = await server.filesystem.loadConfig();
+		const handle = await server.connectHttp(resolveMcpHttpOptions(config, { port: 0 }));
+
+		const response = await fetch(handle.url, {
+			method: "OPTIONS",
+			headers: { Origin: "http://localhost:3000", "Access-Control-Request-Method": "POST" },
+		});
+		expect(response.status).toBe(204);
+		expect(response.headers.get("access-control-allow-origin")).toBe("http://localhost:3000");
+		expect(response.headers.get("access-control-allow-credentials")).toBe("true");
+		expect(response.headers.get("access-control-expose-headers")).toContain("Mcp-Session-Id");
+	});
+
+	it("requests without a session id are rejected unless they initialize", async () => {
+		server = await initProject();
+		const handle = await server.connectHttp(resolveMcpHttpOptions(null, { port: 0 }));
+
+		const response = await fetch(handle.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+			body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+		});
+		expect(response.status).toBe(400);
+
+		const unknownSession = await fetch(handle.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				"Mcp-Session-Id": "missing",
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 3, method: "tools/list" }),
+		});
+		expect(unknownSession.status).toBe(404);
+	});
+});
+
+describe("resolveMcpHttpOptions", () => {
+	it("defaults to a loopback host with DNS rebinding protection", () => {
+		const options = resolveMcpHttpOptions(null);
+		expect(options.host).toBe("127.0.0.1");
+		expect(options.port).toBe(6421);
+		expect(options.auth.type).toBe("none");
+		expect(options.enableDnsRebindingProtection).toBe(true);
+		expect(options.allowedHosts).toContain("localhost:6421");
+	});
+
+	it("prefers CLI overrides over config values", () => {
+		const config = {
+			mcp: { http: { host: "0.0.0.0", port: 7000 } },
+		} as BacklogConfig;
+		const options = resolveMcpHttpOptions(config, { port: 7100 });
+		expect(options.host).toBe("0.0.0.0");
+		expect(options.port).toBe(7100);
+		expect(options.enableDnsRebindingProtection).toBe(false);
+	});
+
+	it("fails fast when credentials for the auth mode are missing", () => {
+		const bearer = { mcp: { http: { auth: { type: "bearer" } } } } as BacklogConfig;
+		expect(() => resolveMcpHttpOptions(bearer)).toThrow("mcp.http.auth.token");
+
+		const basic = { mcp: { http: { auth: { type: "basic", username: "agent" } } } } as BacklogConfig;
+		expect(() => resolveMcpHttpOptions(basic)).toThrow("username or password");
+	});
+});
+
+describe("mcp.http config persistence", () => {
+	beforeEach(() => {
+		TEST_DIR = createUniqueTestDir("mcp-http-config");
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("round-trips the nested mcp section through config.yml", async () => {
+		const filesystem = new FileSystem(TEST_DIR);
+		await filesystem.ensureBacklogStructure();
+		const config: BacklogConfig = {
+			projectName: "Round Trip",
+			statuses: ["To Do", "Done"],
+			labels: [],
+			milestones: [],
+			dateFormat: "yyyy-mm-dd",
+			mcp: {
+				http: {
+					host: "0.0.0.0",
+					port: 8123,
+					auth: { type: "basic", username: "agent", password: "pa:ss" },
+					cors: { origin: ["http://localhost:3000"], credentials: true },
+					enableDnsRebindingProtection: true,
+					allowedHosts: ["backlog.internal:8123"],
+					allowedOrigins: ["http://localhost:3000"],
+				},
+			},
+		};
+		await filesystem.saveConfig(config);
+
+		const raw = await Bun.file(filesystem.configFilePath).text();
+		expect(raw).toContain("mcp:\n  http:\n");
+		expect(raw).toContain("enable_dns_rebinding_protection: true");
+
+		const reloaded = new FileSystem(TEST_DIR);
+		const loaded = await reloaded.loadConfig();
+		expect(loaded?.projectName).toBe("Round Trip");
+		expect(loaded?.mcp).toEqual(config.mcp);
+	});
+});
@@ -163,11 +163,18 @@ describe("McpServer bootstrap", () => {
 			"get_task_execution_guide",
 			"get_workflow_overview",
 			"task_archive",
+			"task_bulk_edit",
+			"task_comment_add",
+			"task_comment_list",
 			"task_complete",
 			"task_create",
 			"task_edit",
+			"task_event",
 			"task_list",
+			"task_log_work",
+			"task_restore",
 			"task_search",
+			"task_stats",
 			"task_view",
 		]);
 
@@ -209,9 +216,16 @@ describe("McpServer bootstrap", () => {
 			"task_list",
 			"task_search",
 			"task_edit",
+			"task_bulk_edit",
 			"task_view",
 			"task_archive",
 			"task_complete",
+			"task_restore",
+			"task_event",
+			"task_log_work",
+			"task_comment_add",
+			"task_comment_list",
+			"task_stats",
 			"milestone_list",
 			"milestone_add",
 			"milestone_rename",
@@ -221,6 +235,10 @@ describe("McpServer bootstrap", () => {
 			"document_create",
 			"document_update",
 			"document_search",
+			"view_list",
+			"view_run",
+			"view_save",
+			"view_delete",
 		]);
 
 		const resources = await server.testInterface.listResources();
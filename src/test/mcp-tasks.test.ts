@@ -211,4 +211,78 @@ describe("MCP task tools (MVP)", () => {
 		expect(criteriaText).toContain("- [x] #1 Plan documented");
 		expect(criteriaText).toContain("- [ ] #2 Agents can follow instructions end-to-end");
 	});
+
+	it("logs work against an estimate", async () => {
+		await mcpServer.testInterface.callTool({
+			params: { name: "task_create", arguments: { title: "Estimate me", estimate: "4h" } },
+		});
+
+		const logResult = await mcpServer.testInterface.callTool({
+			params: {
+				name: "task_log_work",
+				arguments: { id: "task-1", duration: "1h 30m", note: "Initial spike", author: "agent" },
+			},
+		});
+
+		const logText = getText(logResult.content);
+		expect(logText).toContain("Estimate: 4h");
+		expect(logText).toContain("Logged: 1h 30m");
+		expect(logText).toContain("Remaining: 2h 30m");
+		expect(logText).toContain("@agent 1h 30m - Initial spike");
+
+		const invalid = await mcpServer.testInterface.callTool({
+			params: { name: "task_log_work", arguments: { id: "task-1", duration: "a while" } },
+		});
+		expect(invalid.isError).toBe(true);
+	});
+
+	it("reports lead and cycle time for done tasks", async () => {
+		await mcpServer.testInterface.callTool({
+			params: { name: "task_create", arguments: { title: "Finish me", labels: ["api"] } },
+		});
+		await mcpServer.testInterface.callTool({
+			params: { name: "task_event", arguments: { id: "task-1", description: "Started", status: "In Progress" } },
+		});
+		await mcpServer.testInterface.callTool({
+			params: { name: "task_event", arguments: { id: "task-1", description: "Shipped", status: "Done" } },
+		});
+
+		const result = await mcpServer.testInterface.callTool({
+			params: { name: "task_stats", arguments: { groupBy: ["label"] } },
+		});
+
+		const text = getText(result.content);
+		expect(text).toContain("Cycle time (in progress → done): p50 0d");
+		expect(text).toContain("By label:");
+		expect(text).toContain("api");
+
+		const invalid = await mcpServer.testInterface.callTool({
+			params: { name: "task_stats", arguments: { since: "last week" } },
+		});
+		expect(invalid.isError).toBe(true);
+	});
+
+	it("rejects task_edit status changes blocked by workflow transitions", async () => {
+		const config = await mcpServer.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await mcpServer.filesystem.saveConfig({
+			...config,
+			transitions: { Done: { requires: ["acceptance_criteria_checked"] } },
+		});
+
+		await mcpServer.testInterface.callTool({
+			params: { name: "task_create", arguments: { title: "Guarded", acceptanceCriteria: ["Tests pass"] } },
+		});
+
+		const result = await mcpServer.testInterface.callTool({
+			params: { name: "task_edit", arguments: { id: "task-1", status: "Done" } },
+		});
+		expect(result.isError).toBe(true);
+		expect(getText(result.content)).toContain("all acceptance criteria must be checked (unchecked: #1)");
+
+		const allowed = await mcpServer.testInterface.callTool({
+			params: { name: "task_edit", arguments: { id: "task-1", status: "Done", acceptanceCriteriaCheck: [1] } },
+		});
+		expect(allowed.isError).toBeFalsy();
+	});
 });
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { $ } from "bun";
+import { computeTaskMetrics, groupGitStatusEvents } from "../core/metrics.ts";
+import { Core } from "../index.ts";
+import { createTask, createUniqueTestDir, initGitRepo, safeCleanup } from "./test-utils.ts";
+
+const statuses = ["To Do", "In Progress", "Done"];
+
+const historyEntry = (updatedAt: string, status: string) => ({ updatedAt, status, description: "", author: "" });
+
+describe("computeTaskMetrics", () => {
+	it("rebuilds daily cumulative flow from history entries", () => {
+		const task = createTask({
+			status: "Done",
+			history: [historyEntry("2025-01-02 10:00", "In Progress"), historyEntry("2025-01-04 16:00", "Done")],
+		});
+
+		const metrics = computeTaskMetrics([task], { statuses, days: 5, to: "2025-01-05" });
+
+		expect(metrics.from).toBe("2025-01-01");
+		expect(metrics.sources).toEqual({ history: 1, git: 0, inferred: 0 });
+		expect(metrics.cumulativeFlow.map((day) => day.counts)).toEqual([
+			{ "To Do": 1, "In Progress": 0, Done: 0 },
+			{ "To Do": 0, "In Progress": 1, Done: 0 },
+			{ "To Do": 0, "In Progress": 1, Done: 0 },
+			{ "To Do": 0, "In Progress": 0, Done: 1 },
+			{ "To Do": 0, "In Progress": 0, Done: 1 },
+		]);
+	});
+
+	it("produces a burndown per milestone", () => {
+		const tasks = [
+			createTask({ id: "task-1", milestone: "v1", status: "Done", history: [historyEntry("2025-01-03", "Done")] }),
+			createTask({ id: "task-2", milestone: "v1", createdDate: "2025-01-02" }),
+			createTask({ id: "task-3" }),
+		];
+
+		const metrics = computeTaskMetrics(tasks, { statuses, days: 3, to: "2025-01-03" });
+		const v1 = metrics.burndown.find((entry) => entry.milestone === "v1");
+
+		expect(metrics.burndown.map((entry) => entry.label)).toEqual(["v1", "Tasks without milestone"]);
+		expect(v1?.points.map(({ total, remaining }) => ({ total, remaining }))).toEqual([
+			{ total: 1, remaining: 1 },
+			{ total: 2, remaining: 2 },
+			{ total: 2, remaining: 1 },
+		]);
+	});
+
+	it("infers a timeline from created and updated dates when nothing else is recorded", () => {
+		const task = createTask({ status: "In Progress", updatedDate: "2025-01-03 12:00" });
+		const metrics = computeTaskMetrics([task], { statuses, days: 3, to: "2025-01-03" });
+
+		expect(metrics.sources.inferred).toBe(1);
+		expect(metrics.cumulativeFlow.map((day) => day.counts["In Progress"])).toEqual([0, 0, 1]);
+		expect(metrics.cumulativeFlow.map((day) => day.counts["To Do"])).toEqual([1, 1, 0]);
+	});
+
+	it("prefers git status changes for tasks without history", () => {
+		const gitEvents = groupGitStatusEvents([
+			{ filePath: "backlog/tasks/task-1 - Test.md", date: new Date("2025-01-01T09:00:00Z"), status: "To Do" },
+			{ filePath: "backlog/tasks/task-1 - Test.md", date: new Date("2025-01-02T09:00:00Z"), status: "In Progress" },
+		]);
+		const task = createTask({ status: "In Progress" });
+		const metrics = computeTaskMetrics([task], { statuses, gitEvents, days: 3, to: "2025-01-03" });
+
+		expect(metrics.sources.git).toBe(1);
+		expect(metrics.cumulativeFlow.map((day) => day.counts["In Progress"])).toEqual([0, 1, 1]);
+	});
+});
+
+describe("Core.getTaskMetrics", () => {
+	let TEST_DIR: string;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-metrics");
+		await initGitRepo(TEST_DIR);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("reads past status changes from git history", async () => {
+		const core = new Core(TEST_DIR);
+		await core.initializeProject("Metrics Project", false);
+
+		const commitAt = async (date: string, message: string) => {
+			const env = { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date };
+			await $`git add -A`.cwd(TEST_DIR).quiet();
+			await $`git commit -m ${message}`.cwd(TEST_DIR).env(env).quiet();
+		};
+
+		const { task } = await core.createTaskFromInput({ title: "Tracked in git" }, false);
+		await commitAt("2025-03-01T10:00:00Z", "create");
+		await core.updateTaskFromInput(task.id, { status: "In Progress" }, false);
+		await commitAt("2025-03-02T10:00:00Z", "start");
+		await core.updateTaskFromInput(task.id, { status: "Done" }, false);
+		await commitAt("2025-03-04T10:00:00Z", "finish");
+
+		const metrics = await core.getTaskMetrics({ days: 4, to: "2025-03-04" });
+
+		expect(metrics.sources.git).toBe(1);
+		const noMilestone = metrics.burndown[0];
+		expect(noMilestone?.points.map((point) => point.remaining)).toEqual([1, 1, 1, 0]);
+		expect(metrics.cumulativeFlow.map((day) => day.counts["In Progress"])).toEqual([0, 1, 1, 0]);
+	});
+});
@@ -0,0 +1,295 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { join } from "node:path";
+import type { Server } from "bun";
+import { $ } from "bun";
+import {
+	buildNotificationPayload,
+	deliverWebhook,
+	formatWebhookBody,
+	NOTIFICATION_LOG_LIMIT,
+	redactWebhookUrl,
+} from "../core/notifications.ts";
+import { Core } from "../index.ts";
+import type { Document, NotificationsConfig, Task, WebhookDelivery } from "../types/index.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+interface ReceivedRequest {
+	path: string;
+	body: Record<string, unknown>;
+	headers: Headers;
+}
+
+// Local stand-in for Slack/Teams/custom endpoints. `/flaky` fails twice per
+// test before succeeding, `/broken` always returns 500 and `/slow` answers
+// once `slowGate` resolves.
+let server: Server<undefined>;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+let flakyCalls = 0;
+let slowGate: Promise<void> = Promise.resolve();
+
+beforeAll(() => {
+	server = Bun.serve({
+		port: 0,
+		async fetch(req) {
+			const path = new URL(req.url).pathname;
+			received.push({ path, body: await req.json(), headers: req.headers });
+			if (path === "/broken") return new Response("nope", { status: 500 });
+			if (path === "/rejected") return new Response("bad", { status: 400 });
+			if (path === "/flaky" && ++flakyCalls <= 2) return new Response("busy", { status: 503 });
+			if (path === "/slow") await slowGate;
+			return new Response("ok");
+		},
+	});
+	baseUrl = `http://127.0.0.1:${server.port}`;
+});
+
+afterAll(() => {
+	server.stop(true);
+});
+
+beforeEach(() => {
+	received = [];
+	flakyCalls = 0;
+});
+
+const task: Task = {
+	id: "task-7",
+	title: "Fix login",
+	status: "Done",
+	assignee: ["@alice"],
+	labels: ["auth"],
+	dependencies: [],
+	createdDate: "2025-01-01",
+	rawContent: "",
+};
+
+describe("webhook formats", () => {
+	const payload = buildNotificationPayload(
+		"task.status_changed",
+		"Acme",
+		{ task },
+		{ status: { from: "In Progress", to: "Done" } },
+		new Date("2025-03-12T10:00:00Z"),
+	);
+
+	it("builds JSON, Slack and Teams bodies", () => {
+		expect(formatWebhookBody(payload, "json")).toMatchObject({
+			event: "task.status_changed",
+			timestamp: "2025-03-12T10:00:00.000Z",
+			project: "Acme",
+			task: { id: "task-7", title: "Fix login", status: "Done", assignee: ["@alice"] },
+			changes: { status: { from: "In Progress", to: "Done" } },
+		});
+		expect(formatWebhookBody(payload, "slack")).toEqual({
+			text: '[Acme] Task task-7 "Fix login" moved from In Progress to Done',
+		});
+		expect(formatWebhookBody(payload, "teams")).toMatchObject({
+			"@type": "MessageCard",
+			title: "Acme",
+			text: 'Task task-7 "Fix login" moved from In Progress to Done',
+		});
+	});
+
+	it("masks webhook secrets in logged URLs", () => {
+		expect(redactWebhookUrl("https://hooks.slack.com/services/T000/B000/secret")).toBe(
+			"https://hooks.slack.com/services/***",
+		);
+		expect(redactWebhookUrl("http://localhost:9000/hook?token=abc")).toBe("http://localhost:9000/hook");
+	});
+});
+
+describe("deliverWebhook", () => {
+	const payload = buildNotificationPayload("task.created", "Acme", { task });
+
+	it("retries server errors with backoff", async () => {
+		const delivery = await deliverWebhook({ url: `${baseUrl}/flaky`, headers: { "X-Token": "abc" } }, payload, {
+			retries: 2,
+			retryDelayMs: 1,
+		});
+		expect(delivery).toMatchObject({ ok: true, attempts: 3, status: 200, event: "task.created" });
+		expect(received).toHaveLength(3);
+		expect(received[0]?.headers.get("x-token")).toBe("abc");
+	});
+
+	it("reads header secrets from the environment", async () => {
+		process.env.BACKLOG_TEST_WEBHOOK_TOKEN = "s3cret";
+		try {
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: environment variable reference, not a template
+			const headers = { Authorization: "Bearer ${BACKLOG_TEST_WEBHOOK_TOKEN}" };
+			const webhook = { url: `${baseUrl}/auth`, headers };
+			expect(await deliverWebhook(webhook, payload)).toMatchObject({ ok: true, attempts: 1 });
+			expect(received[0]?.headers.get("authorization")).toBe("Bearer s3cret");
+		} finally {
+			delete process.env.BACKLOG_TEST_WEBHOOK_TOKEN;
+		}
+
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: environment variable reference, not a template
+		const unsetHeaders = { "X-Token": "${BACKLOG_TEST_UNSET}" };
+		const unset = await deliverWebhook({ url: `${baseUrl}/auth`, headers: unsetHeaders }, payload);
+		expect(unset).toMatchObject({
+			ok: false,
+			attempts: 0,
+			error: "Environment variable BACKLOG_TEST_UNSET is not set",
+		});
+		expect(received).toHaveLength(1);
+	});
+
+	it("gives up after the last retry and does not retry client errors", async () => {
+		const broken = await deliverWebhook({ url: `${baseUrl}/broken` }, payload, { retries: 1, retryDelayMs: 1 });
+		expect(broken).toMatchObject({ ok: false, attempts: 2, status: 500, error: "HTTP 500" });
+
+		const rejected = await deliverWebhook({ url: `${baseUrl}/rejected` }, payload, { retries: 3, retryDelayMs: 1 });
+		expect(rejected).toMatchObject({ ok: false, attempts: 1, status: 400 });
+	});
+});
+
+describe("notifications from Core", () => {
+	let TEST_DIR: string;
+	let core: Core;
+
+	const saveNotifications = async (notifications: NotificationsConfig) => {
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await core.filesystem.saveConfig({ ...config, notifications });
+	};
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-notifications");
+		core = await createTestProject(TEST_DIR, "Notify Project");
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("round-trips the notifications section of config.yml", async () => {
+		const notifications: NotificationsConfig = {
+			retries: 3,
+			retryDelayMs: 250,
+			webhooks: [
+				{ url: "https://hooks.slack.com/services/T/B/x", format: "slack", events: ["task.status_changed"] },
+				{ url: "https://example.com/hook", headers: { Authorization: "Bearer abc" } },
+			],
+		};
+		await saveNotifications(notifications);
+		expect((await new Core(TEST_DIR).filesystem.loadConfig())?.notifications).toEqual(notifications);
+	});
+
+	it("posts task and document events to subscribed webhooks", async () => {
+		await saveNotifications({
+			webhooks: [
+				{ url: `${baseUrl}/all` },
+				{ url: `${baseUrl}/slack`, format: "slack", events: ["task.status_changed", "task.ac_checked"] },
+			],
+		});
+
+		await core.createTaskFromInput(
+			{ title: "Fix login", acceptanceCriteria: [{ text: "Works", checked: false }] },
+			false,
+		);
+		await core.updateTaskFromInput("task-1", { status: "In Progress" }, false);
+		await core.checkAcceptanceCriteria("task-1", [1], true, false);
+		await core.archiveTask("task-1", false);
+		const document: Document = {
+			id: "doc-1",
+			title: "Runbook",
+			type: "guide",
+			createdDate: "2025-03-12",
+			rawContent: "# Runbook",
+		};
+		await core.createDocument(document, false);
+		await core.updateDocument(document, "# Runbook v2", false);
+		await core.flushNotifications();
+
+		const all = received.filter((request) => request.path === "/all").map((request) => request.body.event);
+		expect(all).toEqual([
+			"task.created",
+			"task.updated",
+			"task.status_changed",
+			"task.updated",
+			"task.ac_checked",
+			"task.archived",
+			"document.created",
+			"document.updated",
+		]);
+		expect(received.find((request) => request.body.event === "task.updated")?.body.changes).toEqual({
+			fields: ["status"],
+		});
+
+		const slack = received.filter((request) => request.path === "/slack").map((request) => request.body.text);
+		expect(slack).toEqual([
+			'[Notify Project] Task task-1 "Fix login" moved from To Do to In Progress',
+			'[Notify Project] Task task-1 "Fix login": checked "Works"',
+		]);
+
+		const log = await core.filesystem.readNotificationLog(0);
+		expect(log).toHaveLength(10);
+		expect(log.every((delivery) => delivery.ok)).toBe(true);
+	});
+
+	it("logs failed deliveries without failing the change", async () => {
+		await saveNotifications({ retries: 1, retryDelayMs: 1, webhooks: [{ url: `${baseUrl}/broken` }] });
+		const error = spyOn(console, "error").mockImplementation(() => {});
+		try {
+			const { task } = await core.createTaskFromInput({ title: "Still saved" }, false);
+			expect(task.id).toBe("task-1");
+			await core.flushNotifications();
+			expect(error).toHaveBeenCalledWith(
+				`Webhook delivery failed for task.created to ${baseUrl}/broken after 2 attempt(s): HTTP 500`,
+			);
+		} finally {
+			error.mockRestore();
+		}
+		expect(await core.filesystem.loadTask("task-1")).not.toBeNull();
+		expect(await core.filesystem.readNotificationLog()).toMatchObject([
+			{ event: "task.created", ok: false, attempts: 2, status: 500, url: `${baseUrl}/broken` },
+		]);
+	});
+
+	it("keeps only the newest deliveries in the log", async () => {
+		const delivery = (index: number): WebhookDelivery => ({
+			timestamp: `2026-01-01T00:00:${index}Z`,
+			event: "task.created",
+			url: `${baseUrl}/hook`,
+			format: "json",
+			ok: true,
+			attempts: 1,
+			status: 200,
+		});
+		await core.filesystem.appendNotificationLog(
+			Array.from({ length: NOTIFICATION_LOG_LIMIT }, (_, index) => delivery(index)),
+		);
+		await core.filesystem.appendNotificationLog([
+			delivery(NOTIFICATION_LOG_LIMIT),
+			delivery(NOTIFICATION_LOG_LIMIT + 1),
+		]);
+
+		const log = await core.filesystem.readNotificationLog(0);
+		expect(log).toHaveLength(NOTIFICATION_LOG_LIMIT);
+		expect(log[0]?.timestamp).toBe("2026-01-01T00:00:2Z");
+		expect(log.at(-1)?.timestamp).toBe(`2026-01-01T00:00:${NOTIFICATION_LOG_LIMIT + 1}Z`);
+	});
+
+	it("does not hold up changes while a webhook is slow", async () => {
+		await saveNotifications({ timeoutMs: 30000, webhooks: [{ url: `${baseUrl}/slow` }] });
+		let release = () => {};
+		slowGate = new Promise((resolve) => {
+			release = resolve;
+		});
+		try {
+			await core.createTaskFromInput({ title: "First" }, false);
+			await core.createTaskFromInput({ title: "Second" }, false);
+			expect((await core.filesystem.listTasks()).map((task) => task.id)).toEqual(["task-1", "task-2"]);
+			expect(await core.filesystem.readNotificationLog()).toEqual([]);
+		} finally {
+			release();
+			slowGate = Promise.resolve();
+		}
+
+		await core.flushNotifications();
+		expect(received.map((request) => request.body.event)).toEqual(["task.created", "task.created"]);
+		expect(await Bun.file(join(TEST_DIR, ".git", ".backlog-notifications.log")).exists()).toBe(true);
+		expect((await $`git status --porcelain`.cwd(TEST_DIR).quiet()).stdout.toString()).not.toContain("notifications");
+	});
+});
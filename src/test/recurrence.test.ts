@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { $ } from "bun";
+import { formatOccurrence, getLatestOccurrence, parseRecurrenceRule } from "../core/recurrence.ts";
+import { buildTaskInputFromTemplate } from "../core/templates.ts";
+import type { Core } from "../index.ts";
+import type { TaskTemplate } from "../types/index.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const latest = (rule: string, now: string) => {
+	const occurrence = getLatestOccurrence(parseRecurrenceRule(rule), new Date(now));
+	return occurrence ? formatOccurrence(occurrence) : null;
+};
+
+describe("recurrence rules", () => {
+	// 2025-03-12 is a Wednesday
+	const now = "2025-03-12T10:30:00Z";
+
+	it("expands daily, weekly and monthly", () => {
+		expect(latest("daily", now)).toBe("2025-03-12 00:00");
+		expect(latest("weekly", now)).toBe("2025-03-10 00:00");
+		expect(latest("weekly:fri", now)).toBe("2025-03-07 00:00");
+		expect(latest("monthly", now)).toBe("2025-03-01 00:00");
+		expect(latest("monthly:15", now)).toBe("2025-02-15 00:00");
+	});
+
+	it("evaluates cron expressions", () => {
+		expect(latest("0 9 * * 1-5", now)).toBe("2025-03-12 09:00");
+		expect(latest("45 10 * * *", now)).toBe("2025-03-11 10:45");
+		expect(latest("*/15 * * * *", now)).toBe("2025-03-12 10:30");
+		expect(latest("0 0 1 jan *", now)).toBe("2025-01-01 00:00");
+		// Day of month and day of week match either way, as in cron
+		expect(latest("0 0 1 * sun", now)).toBe("2025-03-09 00:00");
+	});
+
+	it("rejects rules it cannot schedule", () => {
+		expect(() => parseRecurrenceRule("fortnightly")).toThrow('Invalid recurrence rule "fortnightly"');
+		expect(() => parseRecurrenceRule("0 25 * * *")).toThrow('bad hour "25"');
+		expect(() => parseRecurrenceRule("weekly:someday")).toThrow("bad day of week");
+	});
+});
+
+describe("buildTaskInputFromTemplate", () => {
+	const template: TaskTemplate = {
+		name: "release",
+		title: "Release checklist {{date}}",
+		labels: ["release"],
+		assignee: ["@alice"],
+		description: "Cut the release for {{date}}.",
+		acceptanceCriteria: [{ text: "Changelog updated", checked: false }],
+	};
+
+	it("fills placeholders and adds labels and criteria to the template's", () => {
+		const input = buildTaskInputFromTemplate(
+			template,
+			{ labels: ["urgent", "release"], acceptanceCriteria: [{ text: "Tag pushed" }] },
+			new Date("2025-03-12T10:30:00Z"),
+		);
+		expect(input.title).toBe("Release checklist 2025-03-12");
+		expect(input.description).toBe("Cut the release for 2025-03-12.");
+		expect(input.labels).toEqual(["release", "urgent"]);
+		expect(input.assignee).toEqual(["@alice"]);
+		expect(input.acceptanceCriteria?.map((criterion) => criterion.text)).toEqual(["Changelog updated", "Tag pushed"]);
+		expect(buildTaskInputFromTemplate(template, { title: "Hotfix", assignee: ["@bob"] }).title).toBe("Hotfix");
+	});
+});
+
+describe("templates in Core and CLI", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-recurrence");
+		core = await createTestProject(TEST_DIR, "Recurrence Project");
+		const templatesDir = await core.filesystem.getTemplatesDir();
+		await mkdir(templatesDir, { recursive: true });
+		await Bun.write(
+			join(templatesDir, "dependency-audit.md"),
+			`---
+title: "Dependency audit {{date}}"
+labels: [chore, security]
+priority: medium
+recurrence: weekly:mon
+---
+
+## Description
+
+Run the audit and bump vulnerable packages.
+
+## Acceptance Criteria
+
+- [ ] Audit report attached
+- [ ] Vulnerable packages bumped
+`,
+		);
+		await Bun.write(join(templatesDir, "bug.md"), "---\ntitle: Bug report\nlabels: [bug]\n---\n");
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("loads templates with their sections", async () => {
+		const templates = await core.filesystem.listTemplates();
+		expect(templates.map((template) => template.name)).toEqual(["bug", "dependency-audit"]);
+		expect(templates[1]).toMatchObject({
+			recurrence: "weekly:mon",
+			priority: "medium",
+			description: "Run the audit and bump vulnerable packages.",
+			acceptanceCriteria: [
+				{ text: "Audit report attached", checked: false },
+				{ text: "Vulnerable packages bumped", checked: false },
+			],
+		});
+	});
+
+	it("creates each due template once per occurrence", async () => {
+		const monday = new Date("2025-03-10T08:00:00Z");
+		const first = await core.runRecurringTemplates({ now: monday, autoCommit: false });
+		expect(first).toEqual([{ template: "dependency-audit", occurrence: "2025-03-10 00:00", taskId: "task-1" }]);
+
+		const task = await core.filesystem.loadTask("task-1");
+		expect(task?.title).toBe("Dependency audit 2025-03-10");
+		expect(task?.labels).toEqual(["chore", "security"]);
+		expect(task?.acceptanceCriteriaItems).toHaveLength(2);
+
+		expect(await core.runRecurringTemplates({ now: new Date("2025-03-14T08:00:00Z"), autoCommit: false })).toEqual([]);
+		expect(await core.filesystem.loadRecurState()).toEqual({
+			"dependency-audit": { lastOccurrence: "2025-03-10 00:00", lastTaskId: "task-1" },
+		});
+
+		// Two missed Mondays collapse into one task for the latest
+		const later = await core.runRecurringTemplates({ now: new Date("2025-03-25T08:00:00Z"), dryRun: true });
+		expect(later).toEqual([{ template: "dependency-audit", occurrence: "2025-03-24 00:00" }]);
+		expect(await core.filesystem.loadTask("task-2")).toBeNull();
+	});
+
+	it("starts over with a warning when the state file is damaged", async () => {
+		await Bun.write(await core.filesystem.getRecurStatePath(), "{ not json");
+		const warn = spyOn(console, "warn").mockImplementation(() => {});
+		try {
+			expect(await core.filesystem.loadRecurState()).toEqual({});
+			expect(String(warn.mock.calls[0]?.[0])).toContain("recurring templates start over");
+
+			const created = await core.runRecurringTemplates({ now: new Date("2025-03-10T08:00:00Z"), autoCommit: false });
+			expect(created.map((run) => run.taskId)).toEqual(["task-1"]);
+		} finally {
+			warn.mockRestore();
+		}
+		expect(await core.filesystem.loadRecurState()).toEqual({
+			"dependency-audit": { lastOccurrence: "2025-03-10 00:00", lastTaskId: "task-1" },
+		});
+	});
+
+	it("creates a task from a template on the command line", async () => {
+		const result = await $`bun ${cliPath} task create --template bug -l ui --ac "Steps to reproduce"`
+			.cwd(TEST_DIR)
+			.quiet()
+			.nothrow();
+		expect(result.exitCode).toBe(0);
+		expect(result.stdout.toString()).toContain("Created task task-1");
+
+		const task = await core.filesystem.loadTask("task-1");
+		expect(task?.title).toBe("Bug report");
+		expect(task?.labels).toEqual(["bug", "ui"]);
+		expect(task?.acceptanceCriteriaItems?.map((criterion) => criterion.text)).toEqual(["Steps to reproduce"]);
+
+		const missing = await $`bun ${cliPath} task create --template nope`.cwd(TEST_DIR).quiet().nothrow();
+		expect(missing.exitCode).toBe(1);
+		expect(missing.stderr.toString()).toContain("Template not found: nope. Available templates: bug, dependency-audit");
+	});
+
+	it("runs due templates from the recur command", async () => {
+		const result = await $`bun ${cliPath} recur run`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(0);
+		expect(result.stdout.toString()).toContain("Created task-1 from dependency-audit");
+
+		const again = await $`bun ${cliPath} recur run`.cwd(TEST_DIR).quiet().nothrow();
+		expect(again.stdout.toString()).toContain("No recurring templates are due.");
+	});
+});
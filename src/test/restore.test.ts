@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { RestoreError } from "../core/restore.ts";
+import type { Core } from "../index.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("restoring archived and completed tasks", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-restore");
+		core = await createTestProject(TEST_DIR, "Restore Project");
+		await core.createTaskFromInput({ title: "Design schema" }, false);
+		await core.createTaskFromInput({ title: "Build API", dependencies: ["task-1"] }, false);
+		await core.createTaskFromInput({ title: "Write docs", dependencies: ["task-1", "task-2"] }, false);
+	});
+
+	afterEach(async () => {
+		core.disposeContentStore();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("keeps dependents linked on a plain archive", async () => {
+		expect(await core.archiveTask("task-1", false)).toBe(true);
+		expect((await core.filesystem.loadTask("task-2"))?.dependencies).toEqual(["task-1"]);
+		expect((await core.filesystem.listArchivedTasks())[0]?.archivedDependents).toBeUndefined();
+
+		const result = await core.restoreTask("task-1");
+		expect(result).toMatchObject({ from: "archive", relinked: [] });
+		expect((await core.filesystem.loadTask("task-3"))?.dependencies).toEqual(["task-1", "task-2"]);
+	});
+
+	it("unlinks dependents when asked and relinks them on restore", async () => {
+		expect(await core.archiveTask("task-1", false, { unlinkDependents: true })).toBe(true);
+		expect((await core.filesystem.loadTask("task-2"))?.dependencies).toEqual([]);
+		expect((await core.filesystem.loadTask("task-3"))?.dependencies).toEqual(["task-2"]);
+		const archived = await core.filesystem.listArchivedTasks();
+		expect(archived[0]?.archivedDependents).toEqual(["task-2", "task-3"]);
+
+		const result = await core.restoreTask("1", { status: "in progress" });
+		expect(result.from).toBe("archive");
+		expect(result.relinked).toEqual(["task-2", "task-3"]);
+		expect(result.task.status).toBe("In Progress");
+		expect(result.task.archivedDependents).toBeUndefined();
+		expect(await core.filesystem.listArchivedTasks()).toEqual([]);
+		expect((await core.filesystem.loadTask("task-2"))?.dependencies).toEqual(["task-1"]);
+		expect((await core.filesystem.loadTask("task-3"))?.dependencies).toEqual(["task-2", "task-1"]);
+	});
+
+	it("brings completed tasks back with their own status unless told otherwise", async () => {
+		await core.editTask("task-3", { status: "Done" });
+		expect(await core.completeTask("task-3", false)).toBe(true);
+
+		const result = await core.restoreTask("task-3");
+		expect(result).toMatchObject({ from: "completed", relinked: [] });
+		expect((await core.filesystem.loadTask("task-3"))?.status).toBe("Done");
+		expect(await core.filesystem.listCompletedTasks()).toEqual([]);
+	}, 10000);
+
+	it("applies workflow rules to the restored status", async () => {
+		await core.archiveTask("task-1", false, { unlinkDependents: true });
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("missing config");
+		await core.filesystem.saveConfig({ ...config, transitions: { "To Do": { to: ["In Progress"] } } });
+
+		await expect(core.restoreTask("task-1", { status: "Done" })).rejects.toThrow(
+			'Cannot move task-1 from "To Do" to "Done"',
+		);
+		expect((await core.filesystem.listArchivedTasks()).map((task) => task.archivedDependents)).toEqual([
+			["task-2", "task-3"],
+		]);
+		expect(await core.filesystem.loadTask("task-1")).toBeNull();
+		expect((await core.filesystem.loadTask("task-2"))?.dependencies).toEqual([]);
+	}, 10000);
+
+	it("refuses ids that are taken, unknown tasks and unknown statuses", async () => {
+		await core.archiveTask("task-2", false);
+		await $`cp ${join(TEST_DIR, "backlog", "archive", "tasks", "task-2 - Build-API.md")} ${join(TEST_DIR, "backlog", "tasks", "task-2 - Other.md")}`.quiet();
+		await expect(core.restoreTask("task-2")).rejects.toThrow("an active task already uses that id");
+		await expect(core.restoreTask("task-9")).rejects.toBeInstanceOf(RestoreError);
+		await core.archiveTask("task-3", false);
+		await expect(core.restoreTask("task-3", { status: "Someday" })).rejects.toThrow("Invalid status: Someday");
+		expect((await core.filesystem.listArchivedTasks()).map((task) => task.id)).toEqual(["task-2", "task-3"]);
+	});
+
+	it("restores from the CLI under both names", async () => {
+		await $`bun ${cliPath} task archive task-1 --unlink-dependents`.cwd(TEST_DIR).quiet();
+		const result = await $`bun ${cliPath} task unarchive task-1 --status "To Do"`.cwd(TEST_DIR).quiet();
+		expect(result.stdout.toString()).toBe(
+			"Restored task-1 from the archive as To Do; task-2, task-3 depend on it again\n",
+		);
+
+		const missing = await $`bun ${cliPath} task restore task-1`.cwd(TEST_DIR).quiet().nothrow();
+		expect(missing.exitCode).toBe(1);
+		expect(missing.stderr.toString()).toContain("Task task-1 is not in the archive or in completed tasks");
+	}, 10000);
+});
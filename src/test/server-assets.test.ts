@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 import { mkdir } from "node:fs/promises";
 import { dirname, join } from "node:path";
+import { MAX_ATTACHMENT_BYTES } from "../core/assets.ts";
 import { FileSystem } from "../file-system/operations.ts";
 import { BacklogServer } from "../server/index.ts";
 import { createUniqueTestDir, retry, safeCleanup } from "./test-utils.ts";
@@ -78,11 +79,64 @@ describe("BacklogServer asset serving", () => {
 		expect(body).toBe("Hello assets\n");
 	});
 
+	it("serves assets so they cannot run script", async () => {
+		await Bun.write(join(filesystem.assetsDir, "task-1", "evil.svg"), "<svg><script>alert(1)</script></svg>");
+		const svg = await fetch(`http://127.0.0.1:${serverPort}/assets/task-1/evil.svg`);
+		expect(svg.headers.get("content-security-policy")).toContain("sandbox");
+		expect(svg.headers.get("x-content-type-options")).toBe("nosniff");
+
+		const image = await fetch(`http://127.0.0.1:${serverPort}/assets/images/test.png`);
+		expect(image.headers.get("content-disposition")).toBeNull();
+		const text = await fetch(`http://127.0.0.1:${serverPort}/assets/docs/readme.txt`);
+		expect(text.headers.get("content-disposition")).toBe("attachment");
+	});
+
 	it("returns 404 for missing files", async () => {
 		const res = await fetch(`http://127.0.0.1:${serverPort}/assets/images/missing.png`);
 		expect(res.status).toBe(404);
 	});
 
+	it("attaches uploaded files to a task and serves them", async () => {
+		await filesystem.saveTask({
+			id: "task-1",
+			title: "Broken login",
+			status: "To Do",
+			assignee: [],
+			createdDate: "2025-03-01 09:00",
+			labels: [],
+			dependencies: [],
+		});
+		const form = new FormData();
+		form.append("file", new File(["SCREENSHOT"], "login error.png", { type: "image/png" }));
+
+		const res = await fetch(`http://127.0.0.1:${serverPort}/api/tasks/task-1/attachments`, {
+			method: "POST",
+			body: form,
+		});
+		expect(res.status).toBe(201);
+		expect((await res.json()).path).toBe("task-1/login-error.png");
+		expect((await filesystem.loadTask("task-1"))?.attachments).toEqual(["task-1/login-error.png"]);
+
+		const served = await fetch(`http://127.0.0.1:${serverPort}/assets/task-1/login-error.png`);
+		expect(await served.text()).toBe("SCREENSHOT");
+
+		const missing = await fetch(`http://127.0.0.1:${serverPort}/api/tasks/task-9/attachments`, {
+			method: "POST",
+			body: form,
+		});
+		expect(missing.status).toBe(404);
+
+		const large = new FormData();
+		large.append("file", new File([new Uint8Array(MAX_ATTACHMENT_BYTES + 128 * 1024)], "dump.bin"));
+		const tooLarge = await fetch(`http://127.0.0.1:${serverPort}/api/tasks/task-1/attachments`, {
+			method: "POST",
+			body: large,
+		});
+		expect(tooLarge.status).toBe(413);
+		expect((await tooLarge.json()).error).toContain("larger than 10 MB");
+		expect((await filesystem.loadTask("task-1"))?.attachments).toEqual(["task-1/login-error.png"]);
+	});
+
 	it("rejects path traversal attempts with 404", async () => {
 		// attempt to escape assets via ..
 		const res = await fetch(`http://127.0.0.1:${serverPort}/assets/../config.yml`);
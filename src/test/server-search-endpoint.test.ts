@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 import { FileSystem } from "../file-system/operations.ts";
 import { BacklogServer } from "../server/index.ts";
-import type { Decision, Document, Task } from "../types/index.ts";
+import type { Decision, Document, SavedView, Task } from "../types/index.ts";
 import { createUniqueTestDir, retry, safeCleanup } from "./test-utils.ts";
 
 let TEST_DIR: string;
@@ -139,6 +139,40 @@ describe("BacklogServer search endpoint", () => {
 		await expect(fetchJson<Task[]>("/api/tasks?priority=urgent")).rejects.toThrow();
 	});
 
+	it("applies filter queries to task listings and search", async () => {
+		const tasks = await fetchJson<Task[]>(`/api/tasks?filter=${encodeURIComponent("priority<high dep:7")}`);
+		expect(tasks.map((task) => task.id)).toEqual([dependentTask.id]);
+
+		const filter = encodeURIComponent("label:search -priority:medium");
+		const results = await fetchJson<Array<{ type: string; task?: Task }>>(`/api/search?query=alpha&filter=${filter}`);
+		expect(results.map((result) => result.task?.id)).toEqual([baseTask.id]);
+
+		const invalid = await fetch(`http://127.0.0.1:${serverPort}/api/search?filter=${encodeURIComponent("size:xl")}`);
+		expect(invalid.status).toBe(400);
+		expect(((await invalid.json()) as { error: string }).error).toContain('Unknown field "size"');
+	});
+
+	it("saves, lists and runs saved views", async () => {
+		const saved = await fetch(`http://127.0.0.1:${serverPort}/api/views`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ name: "hot", query: "priority:high", columns: ["id", "title"] }),
+		});
+		expect(saved.status).toBe(201);
+
+		expect(await fetchJson<SavedView[]>("/api/views")).toEqual([
+			{ name: "hot", query: "priority:high", columns: ["id", "title"] },
+		]);
+		const result = await fetchJson<{ total: number; groups: Array<{ tasks: Task[] }> }>("/api/views/hot");
+		expect(result.total).toBe(1);
+		expect(result.groups[0]?.tasks.map((task) => task.id)).toEqual([baseTask.id]);
+
+		const missing = await fetch(`http://127.0.0.1:${serverPort}/api/views/nope`);
+		expect(missing.status).toBe(404);
+		const deleted = await fetch(`http://127.0.0.1:${serverPort}/api/views/hot`, { method: "DELETE" });
+		expect(deleted.ok).toBe(true);
+	});
+
 	it("supports zero-padded ids and dependency-aware search", async () => {
 		const viaLooseId = await fetchJson<Task>("/api/task/7");
 		expect(viaLooseId.id).toBe(baseTask.id);
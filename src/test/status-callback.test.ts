@@ -234,7 +234,7 @@ dateFormat: yyyy-mm-dd
 			});
 
 			// Update status - should not fail even without callback
-			const result = await core.updateTaskFromInput(task.id, { status: "In Progress" });
+			const { task: result } = await core.updateTaskFromInput(task.id, { status: "In Progress" });
 			expect(result.status).toBe("In Progress");
 		});
 
@@ -259,7 +259,7 @@ onStatusChange: 'exit 1'
 			});
 
 			// Update status - should succeed even if callback fails
-			const result = await core.updateTaskFromInput(task.id, { status: "Done" });
+			const { task: result } = await core.updateTaskFromInput(task.id, { status: "Done" });
 			expect(result.status).toBe("Done");
 		});
 
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { buildSubtaskProgress, buildTaskTree, flattenTaskTree, formatTaskTree } from "../core/subtask-tree.ts";
+import type { Core } from "../index.ts";
+import type { Task } from "../types/index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const makeTask = (id: string, parentTaskId?: string, status = "To Do", checks: boolean[] = []): Task =>
+	createTask({
+		id,
+		title: `Title ${id}`,
+		status,
+		parentTaskId,
+		acceptanceCriteriaItems: checks.map((checked, index) => ({ index: index + 1, text: `AC ${index + 1}`, checked })),
+	});
+
+describe("subtask tree", () => {
+	const tasks = [
+		makeTask("task-1"),
+		makeTask("task-1.1", "task-1", "Done", [true, true]),
+		makeTask("task-1.2", "TASK-1", "In Progress", [true, false]),
+		makeTask("task-1.2.1", "task-1.2", "Done"),
+		makeTask("task-2"),
+		makeTask("task-3", "task-9"),
+	];
+
+	it("nests tasks under their parents and keeps orphans as roots", () => {
+		const tree = buildTaskTree(tasks);
+		expect(tree.map((node) => node.task.id)).toEqual(["task-1", "task-2", "task-3"]);
+		const rows = flattenTaskTree(tree).map((row) => `${"  ".repeat(row.depth)}${row.task.id}`);
+		expect(rows).toEqual(["task-1", "  task-1.1", "  task-1.2", "    task-1.2.1", "task-2", "task-3"]);
+		const folded = flattenTaskTree(tree, new Set(["task-1.2"]));
+		expect(folded.map((row) => row.task.id)).toEqual(["task-1", "task-1.1", "task-1.2", "task-2", "task-3"]);
+		expect(folded.find((row) => row.task.id === "task-1.2")).toMatchObject({ hasChildren: true, collapsed: true });
+	});
+
+	it("rolls up done subtasks and acceptance criteria through every level", () => {
+		const progress = buildSubtaskProgress(tasks);
+		expect(progress.get("task-1")).toEqual({ doneSubtasks: 2, totalSubtasks: 3, checkedCriteria: 3, totalCriteria: 4 });
+		expect(progress.get("task-1.2")).toEqual({
+			doneSubtasks: 1,
+			totalSubtasks: 1,
+			checkedCriteria: 0,
+			totalCriteria: 0,
+		});
+		expect(progress.has("task-2")).toBe(false);
+
+		expect(formatTaskTree(buildTaskTree(tasks.slice(0, 5)), progress)).toEqual([
+			"task-1 - Title task-1 (To Do) [2/3 subtasks done, 3/4 AC]",
+			"├─ task-1.1 - Title task-1.1 (Done)",
+			"└─ task-1.2 - Title task-1.2 (In Progress) [1/1 subtasks done]",
+			"   └─ task-1.2.1 - Title task-1.2.1 (Done)",
+			"task-2 - Title task-2 (To Do)",
+		]);
+	});
+
+	it("does not loop on tasks that are each other's parent", () => {
+		const tree = buildTaskTree([makeTask("task-1", "task-2"), makeTask("task-2", "task-1")]);
+		expect(flattenTaskTree(tree).map((row) => row.task.id)).toEqual(["task-1", "task-2"]);
+	});
+});
+
+describe("subtasks in a project", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-subtask-tree");
+		core = await createTestProject(TEST_DIR, "Subtask Project");
+		await core.createTaskFromInput({ title: "Epic", status: "In Progress" }, false);
+		await core.createTaskFromInput({ title: "First step", parentTaskId: "task-1" }, false);
+		await core.createTaskFromInput({ title: "Second step", parentTaskId: "task-1" }, false);
+		await core.createTaskFromInput({ title: "Unrelated" }, false);
+	});
+
+	afterEach(async () => {
+		core.disposeContentStore();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("prints the hierarchy with task list --tree", async () => {
+		await core.editTask("task-1.1", { status: "Done" });
+		const result = await $`bun ${cliPath} task list --tree --plain`.cwd(TEST_DIR).quiet();
+		expect(result.stdout.toString()).toBe(
+			[
+				"task-1 - Epic (In Progress) [1/2 subtasks done]",
+				"├─ task-1.1 - First step (Done)",
+				"└─ task-1.2 - Second step (To Do)",
+				"task-2 - Unrelated (To Do)",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("moves the parent to done with the last subtask when autoCompleteParents is on", async () => {
+		await core.editTask("task-1.1", { status: "Done" });
+		await core.editTask("task-1.2", { status: "Done" });
+		expect((await core.filesystem.loadTask("task-1"))?.status).toBe("In Progress");
+
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("config missing");
+		await core.filesystem.saveConfig({ ...config, autoCompleteParents: true });
+		expect((await core.filesystem.loadConfig())?.autoCompleteParents).toBe(true);
+
+		await core.editTask("task-1.2", { status: "To Do" });
+		await core.editTask("task-1.2", { status: "Done" });
+		expect((await core.filesystem.loadTask("task-1"))?.status).toBe("Done");
+	});
+
+	it("leaves the parent alone when workflow rules block the move", async () => {
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("config missing");
+		await core.filesystem.saveConfig({
+			...config,
+			autoCompleteParents: true,
+			transitions: { Done: { requires: ["has_assignee"] } },
+		});
+		await core.editTask("task-1.1", { status: "Done", assignee: ["@ana"] });
+		const { warnings } = await core.editTask("task-1.2", { status: "Done", assignee: ["@ana"] });
+		expect((await core.filesystem.loadTask("task-1.2"))?.status).toBe("Done");
+		expect((await core.filesystem.loadTask("task-1"))?.status).toBe("In Progress");
+		expect(warnings).toEqual([
+			'task-1 stays In Progress: Cannot move task-1 to "Done": the task must have an assignee.',
+		]);
+	});
+
+	it("completes the parent when the last subtask is dragged to done on the board", async () => {
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("config missing");
+		await core.filesystem.saveConfig({ ...config, autoCompleteParents: true });
+		await core.editTask("task-1.1", { status: "Done" });
+
+		const { warnings } = await core.reorderTask({
+			taskId: "task-1.2",
+			targetStatus: "Done",
+			orderedTaskIds: ["task-1.1", "task-1.2"],
+			autoCommit: false,
+		});
+		expect(warnings).toEqual([]);
+		expect((await core.filesystem.loadTask("task-1"))?.status).toBe("Done");
+	});
+});
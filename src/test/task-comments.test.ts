@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { formatCommentThreads } from "../core/comments.ts";
+import { ContentStore } from "../core/content-store.ts";
+import { SearchService } from "../core/search-service.ts";
+import { parseTask } from "../markdown/parser.ts";
+import { serializeTask } from "../markdown/serializer.ts";
+import { McpServer } from "../mcp/server.ts";
+import { registerTaskTools } from "../mcp/tools/tasks/index.ts";
+import type { Task, TaskComment } from "../types/index.ts";
+import { createUniqueTestDir, initGitRepo, safeCleanup } from "./test-utils.ts";
+
+const comments: TaskComment[] = [
+	{ id: 1, author: "@kim", date: "2025-03-02 10:00", body: "Should this **block** the release?" },
+	{ id: 2, author: "sam", date: "2025-03-02 11:00", body: "Yes.\n\nSee the crash report.", replyTo: 1 },
+	{ id: 3, author: "@ana", date: "2025-03-03 09:00", body: "Unrelated question" },
+	{ id: 4, author: "@kim", date: "2025-03-03 10:00", body: "Agreed", replyTo: 2 },
+];
+
+describe("task comments", () => {
+	it("round-trips through the task file", () => {
+		const task: Task = {
+			id: "task-1",
+			title: "Crash",
+			status: "To Do",
+			assignee: [],
+			createdDate: "2025-03-01 09:00",
+			labels: [],
+			dependencies: [],
+			comments,
+		};
+		const content = serializeTask(task);
+		expect(content).toContain("comments:\n  - id: 1\n    author: '@kim'\n    date: '2025-03-02 10:00'\n");
+		expect(content).toContain("    reply_to: 1\n");
+		expect(parseTask(content).comments).toEqual(comments);
+	});
+
+	it("formats replies indented under the comment they answer", () => {
+		expect(formatCommentThreads(comments)).toEqual([
+			"#1 @kim 2025-03-02 10:00",
+			"  Should this **block** the release?",
+			"  #2 @sam 2025-03-02 11:00",
+			"    Yes.",
+			"",
+			"    See the crash report.",
+			"    #4 @kim 2025-03-03 10:00",
+			"      Agreed",
+			"#3 @ana 2025-03-03 09:00",
+			"  Unrelated question",
+		]);
+	});
+});
+
+describe("commenting on tasks", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let server: McpServer;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-task-comments");
+		await initGitRepo(TEST_DIR);
+
+		server = new McpServer(TEST_DIR, "Test instructions");
+		await server.initializeProject("Comments Project", true);
+		await server.createTaskFromInput({ title: "Crash", description: "App crashes on start" }, false);
+		const config = await server.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		registerTaskTools(server, config);
+	});
+
+	afterEach(async () => {
+		await server.stop();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("adds, replies to and lists comments from the CLI without touching the description", async () => {
+		const first = await $`bun ${cliPath} task comment 1 ${"Is this a regression?"}`.cwd(TEST_DIR).quiet();
+		expect(first.stdout.toString()).toBe("Added comment #1 to task task-1\n");
+		await $`bun ${cliPath} task comment 1 ${"Yes, since v2"} --reply-to 1 -a @kim`.cwd(TEST_DIR).quiet();
+
+		const task = await server.filesystem.loadTask("task-1");
+		expect(task?.description).toBe("App crashes on start");
+		expect(task?.comments).toMatchObject([
+			{ id: 1, author: "Test User", body: "Is this a regression?" },
+			{ id: 2, author: "@kim", body: "Yes, since v2", replyTo: 1 },
+		]);
+
+		const list = await $`bun ${cliPath} task comment 1 --list`.cwd(TEST_DIR).quiet();
+		expect(list.stdout.toString()).toMatch(
+			/^#1 @Test User .+\n {2}Is this a regression\?\n {2}#2 @kim .+\n {4}Yes, since v2\n$/,
+		);
+
+		const view = await $`bun ${cliPath} task view 1 --plain`.cwd(TEST_DIR).quiet();
+		expect(view.stdout.toString()).toContain(
+			"Comments:\n--------------------------------------------------\n#1 @Test User",
+		);
+
+		const badReply = await $`bun ${cliPath} task comment 1 ${"Hm"} --reply-to 7`.cwd(TEST_DIR).quiet().nothrow();
+		expect(badReply.exitCode).toBe(1);
+		expect(badReply.stderr.toString()).toContain("Comment 7 not found on task-1");
+	});
+
+	it("is available to agents through task_comment_add and task_comment_list", async () => {
+		const added = await server.testInterface.callTool({
+			params: { name: "task_comment_add", arguments: { id: "task-1", body: "Reproduced on Linux" } },
+		});
+		expect((added.content?.[0] as { text?: string }).text).toBe("Added comment #1 to task-1.");
+		await server.testInterface.callTool({
+			params: { name: "task_comment_add", arguments: { id: "task-1", body: "Fixed", replyTo: 1, author: "@bot" } },
+		});
+
+		const listed = await server.testInterface.callTool({
+			params: { name: "task_comment_list", arguments: { id: "task-1" } },
+		});
+		const text = (listed.content?.[0] as { text?: string }).text ?? "";
+		expect(text).toContain("Comments on task-1:\n#1 @Test User");
+		expect(text).toContain("  #2 @bot");
+
+		const empty = await server.testInterface.callTool({
+			params: { name: "task_comment_add", arguments: { id: "task-1", body: "   " } },
+		});
+		expect(empty.isError).toBe(true);
+	});
+
+	it("makes comments searchable", async () => {
+		await server.editTask("task-1", {
+			addComment: { author: "@kim", date: "2025-03-02 10:00", body: "Stack trace mentions flibbertigibbet" },
+		});
+		const store = new ContentStore(server.filesystem);
+		const search = new SearchService(store);
+		try {
+			await search.ensureInitialized();
+			const results = search.search({ query: "flibbertigibbet", types: ["task"] });
+			expect(results.map((result) => (result.type === "task" ? result.task.id : ""))).toEqual(["task-1"]);
+		} finally {
+			search.dispose();
+			store.dispose();
+		}
+	});
+});
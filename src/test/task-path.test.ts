@@ -3,7 +3,7 @@ import { mkdir, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { $ } from "bun";
 import { Core } from "../core/backlog.ts";
-import { getTaskFilename, getTaskPath, normalizeTaskId, taskFileExists } from "../utils/task-path.ts";
+import { getTaskFilename, getTaskPath, normalizeTaskId, taskFileExists, taskIdKey } from "../utils/task-path.ts";
 import { createUniqueTestDir, safeCleanup } from "./test-utils.ts";
 
 describe("Task path utilities", () => {
@@ -50,6 +50,8 @@ describe("Task path utilities", () => {
 		it("should not modify task IDs that already have task- prefix", () => {
 			expect(normalizeTaskId("task-123")).toBe("task-123");
 			expect(normalizeTaskId("task-456")).toBe("task-456");
+			expect(normalizeTaskId("task-draft")).toBe("task-draft");
+			expect(normalizeTaskId("back-7", "BACK")).toBe("BACK-7");
 		});
 
 		it("should handle empty strings", () => {
@@ -62,6 +64,15 @@ describe("Task path utilities", () => {
 		});
 	});
 
+	describe("taskIdKey", () => {
+		it("gives ids of the same task the same key", () => {
+			expect(taskIdKey("TASK-03")).toBe(taskIdKey("task-3"));
+			expect(taskIdKey("3.01")).toBe(taskIdKey("task-3.1"));
+			expect(taskIdKey("task-3")).not.toBe(taskIdKey("task-3.1"));
+			expect(taskIdKey("Task-Draft")).toBe(taskIdKey("task-draft"));
+		});
+	});
+
 	describe("getTaskPath", () => {
 		it("should return full path for existing task", async () => {
 			const path = await getTaskPath("123", core);
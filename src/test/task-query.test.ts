@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { $ } from "bun";
+import {
+	compileTaskQuery,
+	filterTasksByQuery,
+	looksLikeTaskQuery,
+	parseTaskQuery,
+	type TaskQueryContext,
+	TaskQueryError,
+} from "../core/task-query.ts";
+import { Core } from "../index.ts";
+import { McpServer } from "../mcp/server.ts";
+import { registerTaskTools } from "../mcp/tools/tasks/index.ts";
+import type { Task } from "../types/index.ts";
+import { createTask, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const tasks: Task[] = [
+	createTask({
+		id: "task-1",
+		title: "Fix login redirect",
+		createdDate: "2025-03-01",
+		status: "In Progress",
+		labels: ["bug", "auth"],
+		assignee: ["@alice"],
+		priority: "high",
+		milestone: "m-2",
+		updatedDate: "2025-03-08 10:00",
+	}),
+	createTask({
+		id: "task-2",
+		title: "Write onboarding guide",
+		createdDate: "2025-03-01",
+		labels: ["docs"],
+		assignee: ["@bob"],
+		priority: "low",
+		dueDate: "2025-03-05",
+	}),
+	createTask({
+		id: "task-3",
+		title: "Crash on empty config",
+		createdDate: "2025-03-01",
+		status: "In Progress",
+		labels: ["bug"],
+		priority: "medium",
+		milestone: "m-2",
+		dependencies: ["task-1"],
+		dueDate: "2025-03-12",
+		updatedDate: "2025-03-09",
+	}),
+	createTask({ id: "task-4", title: "Release notes", status: "Done", createdDate: "2025-01-10" }),
+];
+
+const context: TaskQueryContext = {
+	today: "2025-03-10",
+	currentUser: "alice",
+	milestones: [{ id: "m-2", title: "v2", description: "", rawContent: "" }],
+};
+
+const ids = (query: string): string[] => filterTasksByQuery(tasks, query, context).map((task) => task.id);
+
+describe("task query language", () => {
+	it("parses implicit AND, OR, NOT and parentheses", () => {
+		expect(parseTaskQuery('status:"In Progress" (label:bug OR -priority<medium)')).toEqual({
+			type: "and",
+			children: [
+				{ type: "field", field: "status", op: ":", values: ["In Progress"] },
+				{
+					type: "or",
+					children: [
+						{ type: "field", field: "label", op: ":", values: ["bug"] },
+						{ type: "not", child: { type: "field", field: "priority", op: "<", values: ["medium"] } },
+					],
+				},
+			],
+		});
+		expect(parseTaskQuery("   ")).toBeNull();
+	});
+
+	it("filters by the combined example query", () => {
+		expect(ids('status:"In Progress" label:bug -assignee:@me priority>=medium milestone:v2 updated:<7d')).toEqual([
+			"task-3",
+		]);
+		expect(ids("label:bug assignee:@me")).toEqual(["task-1"]);
+		expect(ids("label:docs OR priority:high")).toEqual(["task-1", "task-2"]);
+		expect(ids("NOT (label:bug OR status:done)")).toEqual(["task-2"]);
+		expect(ids('status:"To Do","Done"')).toEqual(["task-2", "task-4"]);
+		expect(ids("priority!=high has:priority")).toEqual(["task-2", "task-3"]);
+	});
+
+	it("compares dates, relative distances and states", () => {
+		expect(ids("is:overdue")).toEqual(["task-2"]);
+		expect(ids("due:<=3d")).toEqual(["task-2", "task-3"]);
+		expect(ids("due>2025-03-06")).toEqual(["task-3"]);
+		expect(ids("created:>30d")).toEqual(["task-4"]);
+		expect(ids("updated:today")).toEqual([]);
+		expect(ids("is:open -has:due")).toEqual(["task-1"]);
+	});
+
+	it("matches ids, relations and bare words", () => {
+		expect(ids("dep:1")).toEqual(["task-3"]);
+		expect(ids("id:task-2,4")).toEqual(["task-2", "task-4"]);
+		expect(ids('crash "empty config"')).toEqual(["task-3"]);
+		expect(ids("-login title:fix")).toEqual([]);
+	});
+
+	it("rejects malformed queries with readable errors", () => {
+		const compile = (query: string) => () => compileTaskQuery(query, context);
+		expect(compile("colour:red")).toThrow(TaskQueryError);
+		expect(compile("colour:red")).toThrow('Unknown field "colour". Known fields: status, label');
+		expect(compile("priority>=urgent")).toThrow('Invalid priority "urgent"');
+		expect(compile("due:<soon")).toThrow('Invalid date "soon" for due');
+		expect(compile("(label:bug")).toThrow("Missing closing parenthesis");
+		expect(compile("label:bug OR")).toThrow("Query ends where a filter was expected");
+		expect(compile("status>done")).toThrow('"status" only supports ":" and "!="');
+		expect(() => compileTaskQuery("assignee:@me", { today: context.today })).toThrow("Cannot resolve @me");
+	});
+
+	it("tells filter queries from plain search text", () => {
+		expect(looksLikeTaskQuery("label:bug")).toBe(true);
+		expect(looksLikeTaskQuery("-assignee:@me")).toBe(true);
+		expect(looksLikeTaskQuery("login OR signup")).toBe(true);
+		expect(looksLikeTaskQuery("login redirect")).toBe(false);
+		expect(looksLikeTaskQuery("note: remember")).toBe(false);
+		expect(looksLikeTaskQuery('"unterminated')).toBe(false);
+	});
+});
+
+describe("task queries through Core and MCP", () => {
+	let TEST_DIR: string;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-task-query");
+		await $`mkdir -p ${TEST_DIR}`.quiet();
+		await $`git init -b main`.cwd(TEST_DIR).quiet();
+		await $`git config user.name "Query User"`.cwd(TEST_DIR).quiet();
+		await $`git config user.email query@example.com`.cwd(TEST_DIR).quiet();
+
+		const core = new Core(TEST_DIR);
+		await core.initializeProject("Query Project");
+		await core.createTaskFromInput({ title: "Mine", labels: ["bug"], assignee: ["Query User"] }, false);
+		await core.createTaskFromInput({ title: "Theirs", labels: ["bug"], assignee: ["@sam"], priority: "high" }, false);
+		await core.createTaskFromInput({ title: "Docs", labels: ["docs"] }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("applies TaskListFilter.query with @me resolved to the git user", async () => {
+		const core = new Core(TEST_DIR);
+		const titles = async (query: string, text?: string) =>
+			(await core.queryTasks({ filters: { query }, query: text })).map((task) => task.title);
+
+		expect(await titles("label:bug -assignee:@me")).toEqual(["Theirs"]);
+		expect(await titles("assignee:@me OR label:docs")).toEqual(["Mine", "Docs"]);
+		expect(await titles("priority:high", "theirs")).toEqual(["Theirs"]);
+		await expect(core.queryTasks({ filters: { query: "label:" } })).rejects.toThrow('Missing value for "label"');
+	});
+
+	it("accepts queries in the MCP task_list and task_search tools", async () => {
+		const server = new McpServer(TEST_DIR, "Test instructions");
+		const config = await server.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		registerTaskTools(server, config);
+		try {
+			const list = await server.testInterface.callTool({
+				params: { name: "task_list", arguments: { query: "label:bug -assignee:@me" } },
+			});
+			const listText = list.content?.map((item) => ("text" in item ? item.text : "")).join("\n") ?? "";
+			expect(listText).toContain("Theirs");
+			expect(listText).not.toContain("Mine");
+
+			const search = await server.testInterface.callTool({
+				params: { name: "task_search", arguments: { query: "docs", filter: "-label:docs" } },
+			});
+			const searchText = search.content?.map((item) => ("text" in item ? item.text : "")).join("\n") ?? "";
+			expect(searchText).toBe('No tasks found for "docs".');
+
+			const invalid = await server.testInterface.callTool({
+				params: { name: "task_list", arguments: { query: "size:large" } },
+			});
+			expect(invalid.isError).toBe(true);
+		} finally {
+			await server.stop();
+		}
+	});
+});
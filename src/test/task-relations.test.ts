@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { buildRelationIndex } from "../core/relations.ts";
+import type { Core } from "../index.ts";
+import { parseTask } from "../markdown/parser.ts";
+import { serializeTask } from "../markdown/serializer.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("task relations", () => {
+	it("round-trips through the task file", () => {
+		const task = createTask({ id: "task-1", relations: { blocks: ["task-2", "task-3"], "caused-by": ["task-4"] } });
+		const content = serializeTask(task);
+		expect(content).toContain("relations:\n  blocks:\n    - task-2\n    - task-3\n  caused-by:\n    - task-4\n");
+		expect(parseTask(content).relations).toEqual({ blocks: ["task-2", "task-3"], "caused-by": ["task-4"] });
+		expect(parseTask(serializeTask(createTask({ id: "task-5" }))).relations).toBeUndefined();
+	});
+
+	it("computes inverses instead of storing them twice", () => {
+		const index = buildRelationIndex([
+			createTask({ id: "task-1", relations: { blocks: ["2"], duplicates: ["TASK-3"] } }),
+			createTask({ id: "task-2", relations: { "relates-to": ["task-3"] } }),
+			createTask({ id: "task-3", relations: { "relates-to": ["task-2"], "caused-by": ["task-1"] } }),
+		]);
+		expect(index.get("task-1")).toEqual([
+			{ type: "blocks", taskId: "task-2" },
+			{ type: "duplicates", taskId: "task-3" },
+			{ type: "causes", taskId: "task-3", inverse: true },
+		]);
+		expect(index.get("task-2")).toEqual([
+			{ type: "relates-to", taskId: "task-3" },
+			{ type: "blocked-by", taskId: "task-1", inverse: true },
+		]);
+		expect(index.get("task-3")).toEqual([
+			{ type: "relates-to", taskId: "task-2" },
+			{ type: "caused-by", taskId: "task-1" },
+			{ type: "duplicated-by", taskId: "task-1", inverse: true },
+		]);
+	});
+});
+
+describe("relating tasks", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-task-relations");
+		core = await createTestProject(TEST_DIR, "Relations Project");
+		for (const title of ["Login fails", "Release 2.0", "Login broken on Safari"]) {
+			await core.createTaskFromInput({ title }, false);
+		}
+	});
+
+	afterEach(async () => {
+		core.disposeContentStore();
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("adds and removes relations from the CLI and shows inverses on the other task", async () => {
+		await $`bun ${cliPath} task edit 1 --blocks 2 --caused-by 3`.cwd(TEST_DIR).quiet();
+		await $`bun ${cliPath} task edit 3 --duplicates 1`.cwd(TEST_DIR).quiet();
+		expect((await core.filesystem.loadTask("task-1"))?.relations).toEqual({
+			blocks: ["task-2"],
+			"caused-by": ["task-3"],
+		});
+		expect((await core.filesystem.loadTask("task-2"))?.relations).toBeUndefined();
+
+		const view = await $`bun ${cliPath} task view 1 --plain`.cwd(TEST_DIR).quiet();
+		expect(view.stdout.toString()).toContain("Blocks: task-2\nDuplicated by: task-3\nCaused by: task-3\n");
+		const blocked = await $`bun ${cliPath} task view 2 --plain`.cwd(TEST_DIR).quiet();
+		expect(blocked.stdout.toString()).toContain("Blocked by: task-1\n");
+
+		await $`bun ${cliPath} task edit 1 --unrelate 2`.cwd(TEST_DIR).quiet();
+		expect((await core.filesystem.loadTask("task-1"))?.relations).toEqual({ "caused-by": ["task-3"] });
+
+		const missing = await $`bun ${cliPath} task edit 1 --relates-to 9`.cwd(TEST_DIR).quiet().nothrow();
+		expect(missing.exitCode).toBe(1);
+		expect(missing.stderr.toString()).toContain("The following related tasks do not exist: task-9");
+		const self = await $`bun ${cliPath} task edit 1 --relates-to 1`.cwd(TEST_DIR).quiet().nothrow();
+		expect(self.stderr.toString()).toContain("A task cannot relate to itself: task-1");
+	});
+
+	it("filters search results by relation type and related task", async () => {
+		await core.editTask("task-1", { addRelations: { blocks: ["task-2"] } });
+		await core.editTask("task-3", { addRelations: { duplicates: ["task-1"] } });
+		const search = await core.getSearchService();
+		try {
+			const ids = (filters: Parameters<typeof search.search>[0]) =>
+				search.search({ ...filters, types: ["task"] }).map((result) => (result.type === "task" ? result.task.id : ""));
+			expect(ids({ filters: { relation: "blocked-by" } })).toEqual(["task-2"]);
+			expect(ids({ filters: { relatedTo: "task-1" } })).toEqual(["task-2", "task-3"]);
+			expect(ids({ filters: { relation: "duplicated-by", relatedTo: "3" } })).toEqual(["task-1"]);
+			expect(ids({ query: "Release", filters: { relation: "duplicates" } })).toEqual([]);
+		} finally {
+			search.dispose();
+		}
+
+		const cli = await $`bun ${cliPath} search --relation blocks --plain`.cwd(TEST_DIR).quiet();
+		expect(cli.stdout.toString()).toContain("task-1 - Login fails");
+		expect(cli.stdout.toString()).not.toContain("task-2 -");
+	});
+
+	it("suggests closing the original when a duplicate is closed", async () => {
+		await core.editTask("task-3", { addRelations: { duplicates: ["task-1"] } });
+		const result = await $`bun ${cliPath} task edit 3 -s Done`.cwd(TEST_DIR).quiet();
+		expect(result.stdout.toString()).toBe(
+			"Updated task task-3\n" +
+				"task-3 duplicates task-1, which is still To Do.\n" +
+				'  Close it:  backlog task edit task-1 -s "Done"\n' +
+				'  Link it:   backlog task comment task-1 "Closed task-3 as a duplicate of this task."\n',
+		);
+	});
+});
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import {
+	formatTaskExport,
+	mapImportRecords,
+	orderImportedTasks,
+	parseImportFieldMap,
+	parseImportRecords,
+	resolveTransferFormat,
+} from "../core/task-transfer.ts";
+import type { Core } from "../index.ts";
+import { formatCsv, parseCsv } from "../utils/csv.ts";
+import { createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("CSV", () => {
+	it("round-trips quotes, commas and line breaks", () => {
+		const rows = [
+			["id", "title", "description"],
+			["A", 'Say "hi"', "one, two\nthree"],
+		];
+		expect(parseCsv(formatCsv(rows))).toEqual(rows);
+		expect(parseCsv("﻿a,b\r\n1,\r\n\r\n")).toEqual([
+			["a", "b"],
+			["1", ""],
+		]);
+	});
+});
+
+describe("import mapping", () => {
+	it("maps aliases, --map entries and custom fields onto task inputs", () => {
+		const records = parseImportRecords(
+			[
+				"Key,Summary,Owner,Tags,Blocked By,AC,Points,Color",
+				'A,Set up CI,@sam,"ci, infra",,"[x] Runs on push\n[ ] Caches deps",3,red',
+				"B,Write tests,,,A,,,",
+			].join("\n"),
+			"csv",
+		);
+		const { tasks, warnings } = mapImportRecords(records, {
+			fieldMap: parseImportFieldMap(["Points=points"]),
+			customFields: [{ name: "points", type: "number" }],
+		});
+		expect(warnings).toEqual(['Ignoring unknown field "Color"']);
+		expect(tasks[0]).toEqual({
+			ref: "A",
+			input: {
+				title: "Set up CI",
+				assignee: ["@sam"],
+				labels: ["ci", "infra"],
+				acceptanceCriteria: [
+					{ text: "Runs on push", checked: true },
+					{ text: "Caches deps", checked: false },
+				],
+				customFields: { points: "3" },
+			},
+			dependencyRefs: [],
+		});
+		expect(tasks[1]?.dependencyRefs).toEqual(["A"]);
+		expect(() => parseImportFieldMap(["Summary"])).toThrow('Invalid mapping "Summary"');
+	});
+
+	it("orders parents and dependencies first and rejects cycles and duplicate ids", () => {
+		const { tasks } = mapImportRecords([
+			{ id: "c", title: "C", parent: "a", dependencies: ["b"] },
+			{ id: "b", title: "B", dependencies: ["task-9"] },
+			{ id: "a", title: "A" },
+		]);
+		expect(orderImportedTasks(tasks).map((task) => task.ref)).toEqual(["a", "b", "c"]);
+
+		const cyclic = mapImportRecords([
+			{ id: "a", title: "A", dependencies: "b" },
+			{ id: "b", title: "B", dependencies: "a" },
+		]).tasks;
+		expect(() => orderImportedTasks(cyclic)).toThrow("Imported tasks depend on each other in a cycle: a -> b -> a");
+		expect(() => mapImportRecords([{ id: "a" }, { id: "A" }])).toThrow('Duplicate id "A" in import file');
+	});
+
+	it("reads JSON and YAML lists and envelopes and picks formats from extensions", () => {
+		expect(parseImportRecords('[{"title":"A"}]', "json")).toEqual([{ title: "A" }]);
+		expect(parseImportRecords('{"version":1,"kind":"tasks","data":[{"title":"A"}]}', "json")).toEqual([{ title: "A" }]);
+		expect(parseImportRecords("tasks:\n  - title: A\n    due: 2025-03-14\n", "yaml")).toHaveLength(1);
+		expect(parseImportRecords("---\n- title: A\n  description: |\n    before\n---\n", "yaml")).toEqual([
+			{ title: "A", description: "before\n" },
+		]);
+		expect(() => parseImportRecords("- title: [A", "yaml")).toThrow("Could not parse YAML");
+		expect(() => parseImportRecords('{"title":"A"}', "json")).toThrow("Expected a list of tasks");
+		expect(() => parseImportRecords("{", "json")).toThrow("Could not parse JSON");
+		expect(resolveTransferFormat(undefined, "tasks.yml")).toBe("yaml");
+		expect(resolveTransferFormat("CSV", "tasks.json")).toBe("csv");
+		expect(resolveTransferFormat(undefined, "tasks.txt")).toBeNull();
+	});
+
+	it("gives CSV exports one column per custom field", () => {
+		const csv = formatTaskExport(
+			[
+				{ id: "task-1", labels: ["a", "b"], customFields: { severity: "S1" } },
+				{ id: "task-2", labels: [], customFields: {} },
+			],
+			["id", "labels", "customFields"],
+			"csv",
+		);
+		expect(csv).toBe('id,labels,severity\ntask-1,"a, b",S1\ntask-2,,\n');
+	});
+});
+
+describe("export and import in Core and the CLI", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-task-transfer");
+		core = await createTestProject(TEST_DIR, "Transfer Project");
+		await core.createTaskFromInput(
+			{
+				title: "Crash",
+				labels: ["bug"],
+				description: 'Fails on "save", twice\nsee logs',
+				acceptanceCriteria: [{ text: "No crash", checked: true }],
+			},
+			false,
+		);
+		await core.createTaskFromInput({ title: "Typo", dependencies: ["task-1"], priority: "low" }, false);
+		await core.createTaskFromInput({ title: "Idea", status: "Draft" }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("round-trips an export through import with new ids in one commit", async () => {
+		for (const format of ["csv", "json", "yaml"] as const) {
+			const { content, count } = await core.exportTasks({ format });
+			expect(count).toBe(2);
+			const { tasks, warnings } = mapImportRecords(parseImportRecords(content, format));
+			expect(warnings).toEqual([]);
+			expect(tasks.map((task) => [task.ref, task.input.title, task.dependencyRefs])).toEqual([
+				["task-1", "Crash", []],
+				["task-2", "Typo", ["task-1"]],
+			]);
+			expect(tasks[0]?.input).toMatchObject({
+				description: 'Fails on "save", twice\nsee logs',
+				acceptanceCriteria: [{ text: "No crash", checked: true }],
+			});
+		}
+
+		const { content } = await core.exportTasks({ format: "json" });
+		const { tasks } = mapImportRecords(parseImportRecords(content, "json"));
+		const commitsBefore = Number((await $`git rev-list --all --count`.cwd(TEST_DIR).quiet()).stdout);
+		await Bun.write(join(TEST_DIR, "backlog", "docs", "doc-9 - Draft notes.md"), "Not ready\n");
+		const results = await core.importTasks(tasks, { autoCommit: true });
+		expect(results).toEqual([
+			{ ref: "task-1", title: "Crash", id: "task-4" },
+			{ ref: "task-2", title: "Typo", id: "task-5" },
+		]);
+		expect((await core.filesystem.loadTask("task-5"))?.dependencies).toEqual(["task-4"]);
+		const commitsAfter = Number((await $`git rev-list --all --count`.cwd(TEST_DIR).quiet()).stdout);
+		expect(commitsAfter).toBe(commitsBefore + 1);
+		expect((await $`git log -1 --format=%s`.cwd(TEST_DIR).quiet()).stdout.toString().trim()).toBe(
+			"backlog: Import 2 task(s)",
+		);
+		const committed = await $`git show --name-only --format= HEAD`.cwd(TEST_DIR).quiet();
+		expect(committed.stdout.toString().trim().split("\n")).toEqual([
+			"backlog/tasks/task-4 - Crash.md",
+			"backlog/tasks/task-5 - Typo.md",
+		]);
+		expect((await $`git status --porcelain -uall`.cwd(TEST_DIR).quiet()).stdout.toString()).toContain("doc-9");
+	});
+
+	it("checks every task before writing any", async () => {
+		const { tasks } = mapImportRecords([
+			{ id: "a", title: "Fine" },
+			{ id: "b", title: "Bad", status: "Someday" },
+		]);
+		await expect(core.importTasks(tasks)).rejects.toThrow("b: Invalid status: Someday");
+		const missing = mapImportRecords([{ id: "a", title: "A", dependencies: ["zzz"] }]).tasks;
+		await expect(core.importTasks(missing)).rejects.toThrow(
+			'a: "zzz" is neither an imported task nor an existing task',
+		);
+		expect((await core.filesystem.listTasks()).map((task) => task.id)).toEqual(["task-1", "task-2"]);
+	});
+
+	it("exports selected folders and fields and imports files from the command line", async () => {
+		const exported = await $`bun ${cliPath} export --format csv --include tasks,drafts --fields id,title,source`
+			.cwd(TEST_DIR)
+			.quiet();
+		expect(exported.stdout.toString()).toBe(
+			"id,title,source\ntask-1,Crash,tasks\ntask-2,Typo,tasks\ntask-3,Idea,drafts\n",
+		);
+
+		const badField = await $`bun ${cliPath} export --fields id,size`.cwd(TEST_DIR).quiet().nothrow();
+		expect(badField.exitCode).toBe(1);
+		expect(badField.stderr.toString()).toContain('Invalid field "size"');
+
+		await Bun.write(join(TEST_DIR, "plan.csv"), "Ref,Name,After\nx,Set up CI,\ny,Write tests,x\n");
+		const dryRun = await $`bun ${cliPath} import plan.csv --map Ref=id --map After=dependencies --dry-run`
+			.cwd(TEST_DIR)
+			.quiet();
+		expect(dryRun.stdout.toString()).toBe("Would import 2 task(s):\n  x - Set up CI\n  y - Write tests\n");
+		expect(await core.filesystem.listTasks()).toHaveLength(2);
+
+		const imported = await $`bun ${cliPath} import plan.csv --map Ref=id,After=dependencies`.cwd(TEST_DIR).quiet();
+		expect(imported.stdout.toString()).toContain("y -> task-5 - Write tests");
+		expect((await core.filesystem.loadTask("task-5"))?.dependencies).toEqual(["task-4"]);
+	});
+});
@@ -6,6 +6,9 @@
 import { randomUUID } from "node:crypto";
 import { rm } from "node:fs/promises";
 import { join } from "node:path";
+import { $ } from "bun";
+import { Core } from "../index.ts";
+import type { Task } from "../types/index.ts";
 
 /**
  * Creates a unique test directory name to avoid conflicts in parallel execution
@@ -82,3 +85,43 @@ export function getPlatformTimeout(baseTimeout = 5000): number {
 export function getExitCode(result: { status: number | null; error?: Error }): number {
 	return result.status ?? (result.error ? 1 : 0);
 }
+
+/**
+ * Creates a git repository in the given directory with a test user configured,
+ * so commits made by Core and the CLI succeed
+ */
+export async function initGitRepo(dir: string): Promise<void> {
+	await $`mkdir -p ${dir}`.quiet();
+	await $`git init -b main`.cwd(dir).quiet();
+	await $`git config user.name "Test User"`.cwd(dir).quiet();
+	await $`git config user.email test@example.com`.cwd(dir).quiet();
+}
+
+/**
+ * Creates a git repository with an initialized backlog project, for tests
+ * that go through Core or the CLI
+ */
+export async function createTestProject(dir: string, projectName: string, autoCommit = false): Promise<Core> {
+	await initGitRepo(dir);
+	const core = new Core(dir);
+	await core.initializeProject(projectName, autoCommit);
+	return core;
+}
+
+/**
+ * Builds an in-memory task with every required field set, for tests of pure
+ * functions; fields in `partial` override the defaults
+ */
+export function createTask(partial: Partial<Task> = {}): Task {
+	return {
+		id: "task-1",
+		title: "Test Task",
+		status: "To Do",
+		assignee: [],
+		labels: [],
+		dependencies: [],
+		createdDate: "2025-01-01 09:00",
+		rawContent: "",
+		...partial,
+	};
+}
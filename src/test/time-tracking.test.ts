@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { buildMilestoneBuckets } from "../core/milestones.ts";
+import { getTaskStatistics } from "../core/statistics.ts";
+import { getTaskEffort } from "../core/time-tracking.ts";
+import { Core } from "../index.ts";
+import { parseTask } from "../markdown/parser.ts";
+import { serializeTask } from "../markdown/serializer.ts";
+import { formatDuration, parseDuration } from "../utils/duration.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+describe("duration parsing", () => {
+	it("parses common duration formats into minutes", () => {
+		expect(parseDuration("45m")).toBe(45);
+		expect(parseDuration("2h")).toBe(120);
+		expect(parseDuration("1h 30m")).toBe(90);
+		expect(parseDuration("1.5h")).toBe(90);
+		expect(parseDuration("1d")).toBe(480);
+		expect(parseDuration("3")).toBe(180);
+		expect(parseDuration("soon")).toBeNull();
+		expect(parseDuration("2h later")).toBeNull();
+		expect(parseDuration("")).toBeNull();
+	});
+
+	it("formats minutes as hours and minutes", () => {
+		expect(formatDuration(90)).toBe("1h 30m");
+		expect(formatDuration(120)).toBe("2h");
+		expect(formatDuration(15)).toBe("15m");
+		expect(formatDuration(0)).toBe("0m");
+	});
+});
+
+describe("time tracking frontmatter", () => {
+	it("round-trips estimate, remaining and worklog", () => {
+		const task = createTask({
+			estimate: "4h",
+			remaining: "1h",
+			worklog: [
+				{ author: "@alice", duration: "2h", date: "2025-01-02 10:00", note: "Spike" },
+				{ author: "@bob", duration: "30m", date: "2025-01-03" },
+			],
+		});
+
+		const parsed = parseTask(serializeTask(task));
+		expect(parsed.estimate).toBe("4h");
+		expect(parsed.remaining).toBe("1h");
+		expect(parsed.worklog).toEqual(task.worklog);
+	});
+
+	it("derives remaining effort from estimate and logged work", () => {
+		const task = createTask({
+			estimate: "4h",
+			worklog: [{ author: "alice", duration: "1h 30m", date: "2025-01-02" }],
+		});
+		expect(getTaskEffort(task)).toEqual({ estimatedMinutes: 240, loggedMinutes: 90, remainingMinutes: 150 });
+		expect(getTaskEffort({ ...task, remaining: "3h" }).remainingMinutes).toBe(180);
+		expect(getTaskEffort({ ...task, status: "Done" }).remainingMinutes).toBe(0);
+	});
+});
+
+describe("time tracking roll-ups", () => {
+	const tasks = [
+		createTask({ id: "task-1", estimate: "4h", milestone: "v1", worklog: [{ author: "a", duration: "1h", date: "" }] }),
+		createTask({ id: "task-2", estimate: "2h", milestone: "v1", status: "Done" }),
+		createTask({ id: "task-3", worklog: [{ author: "b", duration: "45m", date: "" }] }),
+	];
+
+	it("adds effort totals to task statistics", () => {
+		const stats = getTaskStatistics(tasks, [], ["To Do", "Done"]);
+		expect(stats.timeTracking).toEqual({
+			estimatedMinutes: 360,
+			loggedMinutes: 105,
+			remainingMinutes: 180,
+			tasksWithEstimate: 2,
+			tasksWithWorklog: 2,
+		});
+	});
+
+	it("adds effort totals to milestone buckets", () => {
+		const buckets = buildMilestoneBuckets(
+			tasks,
+			[{ id: "v1", title: "v1", description: "", rawContent: "" }],
+			["To Do", "Done"],
+		);
+		const v1 = buckets.find((bucket) => bucket.milestone === "v1");
+		const none = buckets.find((bucket) => bucket.isNoMilestone);
+		expect(v1?.effort).toEqual({ estimatedMinutes: 360, loggedMinutes: 60, remainingMinutes: 180 });
+		expect(none?.effort).toEqual({ estimatedMinutes: 0, loggedMinutes: 45, remainingMinutes: 0 });
+	});
+});
+
+describe("task log command", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-time-tracking");
+		const core = await createTestProject(TEST_DIR, "Time Tracking Project");
+		await core.createTaskFromInput({ title: "Tracked task", estimate: "1d" });
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("appends a worklog entry authored by the git user", async () => {
+		const result = await $`bun ${cliPath} task log 1 2h -m "Wrote parser"`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(0);
+		expect(result.stdout.toString()).toContain("Logged 2h on task task-1");
+		expect(result.stdout.toString()).toContain("Remaining: 6h");
+
+		const task = await new Core(TEST_DIR).filesystem.loadTask("task-1");
+		expect(task?.estimate).toBe("8h");
+		expect(task?.worklog).toHaveLength(1);
+		expect(task?.worklog?.[0]).toMatchObject({ author: "Test User", duration: "2h", note: "Wrote parser" });
+	});
+
+	it("rejects invalid durations", async () => {
+		const result = await $`bun ${cliPath} task log 1 later`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(1);
+		expect(result.stderr.toString()).toContain("Duration must be a duration like");
+	});
+
+	it("rejects dates that are not YYYY-MM-DD", async () => {
+		for (const date of ["yesterday", "2025-02-30", "14/03/2025"]) {
+			const result = await $`bun ${cliPath} task log 1 1h --date ${date}`.cwd(TEST_DIR).quiet().nothrow();
+			expect(result.exitCode).toBe(1);
+			expect(result.stderr.toString()).toContain(
+				`Worklog date must be a date like 2025-03-14 or 2025-03-14 17:00. Received: ${date}`,
+			);
+		}
+		expect((await new Core(TEST_DIR).filesystem.loadTask("task-1"))?.worklog).toBeUndefined();
+
+		const dated = await $`bun ${cliPath} task log 1 1h --date 2025-03-14`.cwd(TEST_DIR).quiet().nothrow();
+		expect(dated.exitCode).toBe(0);
+		expect((await new Core(TEST_DIR).filesystem.loadTask("task-1"))?.worklog?.[0]?.date).toBe("2025-03-14");
+	});
+
+	it("updates estimate and remaining effort via task edit", async () => {
+		const result = await $`bun ${cliPath} task edit 1 --estimate 3h --remaining 90m`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(0);
+
+		const task = await new Core(TEST_DIR).filesystem.loadTask("task-1");
+		expect(task?.estimate).toBe("3h");
+		expect(task?.remaining).toBe("1h 30m");
+	});
+});
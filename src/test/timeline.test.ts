@@ -0,0 +1,79 @@
+import { describe, expect, it } from "bun:test";
+import { buildTimeline, shiftBarDates } from "../core/timeline.ts";
+import type { Milestone } from "../types/index.ts";
+import { createTask } from "./test-utils.ts";
+
+const milestones: Milestone[] = [{ id: "m-1", title: "Beta", description: "", rawContent: "" }];
+
+describe("buildTimeline", () => {
+	const today = "2025-03-10";
+
+	it("uses explicit dates and infers missing ones from estimates", () => {
+		const timeline = buildTimeline(
+			[
+				createTask({ id: "task-1", startDate: "2025-03-03", dueDate: "2025-03-07" }),
+				createTask({ id: "task-2", dueDate: "2025-03-14", estimate: "2d" }),
+				createTask({ id: "task-3", startDate: "2025-03-12", estimate: "1w" }),
+				createTask({ id: "task-4" }),
+			],
+			{ today },
+		);
+		const bars = Object.fromEntries(timeline.groups.flatMap((group) => group.bars).map((bar) => [bar.task.id, bar]));
+
+		expect(bars["task-1"]).toMatchObject({ start: "2025-03-03", end: "2025-03-07", startInferred: false });
+		expect(bars["task-2"]).toMatchObject({ start: "2025-03-13", end: "2025-03-14", startInferred: true });
+		expect(bars["task-3"]).toMatchObject({ start: "2025-03-12", end: "2025-03-16", endInferred: true });
+		expect(bars["task-4"]).toMatchObject({ start: today, end: today });
+		expect(timeline.start).toBe("2025-03-03");
+		expect(timeline.end).toBe("2025-03-16");
+	});
+
+	it("starts undated tasks after their open dependencies and links them", () => {
+		const timeline = buildTimeline(
+			[
+				createTask({ id: "task-1", estimate: "3d" }),
+				createTask({ id: "task-2", dependencies: ["task-1"], estimate: "1d" }),
+				createTask({ id: "task-3", dependencies: ["task-2", "task-9"] }),
+				createTask({ id: "task-4", status: "Done", createdDate: "2025-02-01", updatedDate: "2025-02-05 10:00" }),
+				createTask({ id: "task-5", dependencies: ["task-4"] }),
+			],
+			{ today },
+		);
+		const bars = Object.fromEntries(timeline.groups.flatMap((group) => group.bars).map((bar) => [bar.task.id, bar]));
+
+		expect(bars["task-1"]).toMatchObject({ start: "2025-03-10", end: "2025-03-12" });
+		expect(bars["task-2"]).toMatchObject({ start: "2025-03-13", end: "2025-03-13" });
+		expect(bars["task-3"]).toMatchObject({ start: "2025-03-14", end: "2025-03-14" });
+		expect(bars["task-4"]).toMatchObject({ start: "2025-02-01", end: "2025-02-05" });
+		// Finished dependencies do not push work out
+		expect(bars["task-5"]).toMatchObject({ start: today });
+		expect(timeline.links).toEqual([
+			{ from: "task-1", to: "task-2" },
+			{ from: "task-2", to: "task-3" },
+			{ from: "task-4", to: "task-5" },
+		]);
+	});
+
+	it("groups bars by milestone with unassigned tasks last", () => {
+		const timeline = buildTimeline(
+			[
+				createTask({ id: "task-1" }),
+				createTask({ id: "task-2", milestone: "m-1", startDate: "2025-03-12" }),
+				createTask({ id: "task-3", milestone: "m-1", startDate: "2025-03-11" }),
+			],
+			{ today, milestones },
+		);
+		expect(timeline.groups.map((group) => [group.label, group.bars.map((bar) => bar.task.id)])).toEqual([
+			["Beta", ["task-3", "task-2"]],
+			["Tasks without milestone", ["task-1"]],
+		]);
+	});
+
+	it("keeps the length of a dragged bar", () => {
+		const [bar] =
+			buildTimeline([createTask({ startDate: "2025-03-10", dueDate: "2025-03-12" })], { today }).groups[0]?.bars ?? [];
+		if (!bar) throw new Error("Expected a bar");
+		expect(shiftBarDates(bar, 3)).toEqual({ startDate: "2025-03-13", dueDate: "2025-03-15" });
+		expect(shiftBarDates(bar, -10)).toEqual({ startDate: "2025-02-28", dueDate: "2025-03-02" });
+	});
+});
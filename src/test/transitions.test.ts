@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { getTransitionViolation, TransitionError } from "../core/transitions.ts";
+import { Core } from "../index.ts";
+import type { StatusTransitionRule } from "../types/index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const transitions: Record<string, StatusTransitionRule> = {
+	"To Do": { to: ["In Progress"] },
+	"In Progress": { to: ["To Do", "Done"] },
+	Done: { requires: ["acceptance_criteria_checked", "has_assignee"] },
+};
+
+describe("getTransitionViolation", () => {
+	it("allows any move when no transitions are configured", () => {
+		expect(getTransitionViolation(createTask(), "To Do", "Done", undefined)).toBeNull();
+	});
+
+	it("rejects moves that are not listed for the current status", () => {
+		expect(getTransitionViolation(createTask(), "To Do", "Done", transitions)).toBe(
+			'Cannot move task-1 from "To Do" to "Done". Allowed next statuses: In Progress.',
+		);
+		expect(getTransitionViolation(createTask(), "to do", "in progress", transitions)).toBeNull();
+	});
+
+	it("checks guards for the target status", () => {
+		const task = createTask({
+			assignee: [],
+			acceptanceCriteriaItems: [
+				{ index: 1, text: "Works", checked: true },
+				{ index: 2, text: "Tested", checked: false },
+			],
+		});
+		expect(getTransitionViolation(task, "In Progress", "Done", transitions)).toBe(
+			'Cannot move task-1 to "Done": all acceptance criteria must be checked (unchecked: #2); the task must have an assignee.',
+		);
+		expect(getTransitionViolation(task, null, "Done", transitions)).toContain("the task must have an assignee");
+		expect(getTransitionViolation(task, "In Progress", "Draft", transitions)).toBeNull();
+	});
+});
+
+describe("workflow transitions in Core", () => {
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-transitions");
+		core = await createTestProject(TEST_DIR, "Transitions Project");
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await core.filesystem.saveConfig({ ...config, transitions });
+
+		await core.createTaskFromInput(
+			{
+				title: "Guarded task",
+				status: "In Progress",
+				acceptanceCriteria: [{ text: "Works", checked: false }],
+			},
+			false,
+		);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("round-trips transitions through config.yml", async () => {
+		const loaded = await new Core(TEST_DIR).filesystem.loadConfig();
+		expect(loaded?.transitions).toEqual(transitions);
+	});
+
+	it("rejects a disallowed move and accepts it once the guards pass", async () => {
+		await expect(core.updateTaskFromInput("task-1", { status: "Done" }, false)).rejects.toBeInstanceOf(TransitionError);
+
+		const { task: updated } = await core.updateTaskFromInput(
+			"task-1",
+			{ status: "Done", assignee: ["@bob"], checkAcceptanceCriteria: [1] },
+			false,
+		);
+		expect(updated.status).toBe("Done");
+	});
+
+	it("applies the rules when reordering across board columns", async () => {
+		await core.updateTaskFromInput("task-1", { status: "To Do" }, false);
+		await expect(
+			core.reorderTask({ taskId: "task-1", targetStatus: "Done", orderedTaskIds: ["task-1"], autoCommit: false }),
+		).rejects.toThrow("Allowed next statuses: In Progress");
+	});
+
+	it("explains the rejection from task edit", async () => {
+		const cliPath = join(process.cwd(), "src", "cli.ts");
+		const result = await $`bun ${cliPath} task edit 1 -s Done`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(1);
+		expect(result.stderr.toString()).toContain("all acceptance criteria must be checked (unchecked: #1)");
+	});
+
+	it("explains the rejection from task create", async () => {
+		const cliPath = join(process.cwd(), "src", "cli.ts");
+		const result = await $`bun ${cliPath} task create Shipped -s Done --ac Works`.cwd(TEST_DIR).quiet().nothrow();
+		expect(result.exitCode).toBe(1);
+		expect(result.stderr.toString()).toContain("all acceptance criteria must be checked (unchecked: #1)");
+		expect(result.stderr.toString()).not.toContain("transitions.ts");
+		expect((await core.filesystem.listTasks()).map((task) => task.title)).not.toContain("Shipped");
+	});
+});
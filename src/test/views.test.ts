@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { buildViewResult, getSavedViewError, groupViewTasks, sortViewTasks } from "../core/views.ts";
+import { formatViewPlainText } from "../formatters/view-plain-text.ts";
+import { Core } from "../index.ts";
+import { McpServer } from "../mcp/server.ts";
+import { registerViewTools } from "../mcp/tools/views/index.ts";
+import type { Task } from "../types/index.ts";
+import { orderTasksForSavedView } from "../ui/view-switcher.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const tasks: Task[] = [
+	createTask({ id: "task-1", title: "Login bug", status: "In Progress", assignee: ["@alice"], priority: "low" }),
+	createTask({ id: "task-2", title: "Crash", assignee: ["@bob", "@alice"], priority: "high", dueDate: "2025-03-09" }),
+	createTask({ id: "task-3", title: "Docs", status: "Done", dueDate: "2025-03-05" }),
+	createTask({ id: "task-4", title: "Audit", status: "Blocked", priority: "medium" }),
+];
+const statuses = ["To Do", "In Progress", "Done"];
+const ids = (list: Task[]) => list.map((task) => task.id);
+
+describe("view layout", () => {
+	it("sorts by each supported field", () => {
+		expect(ids(sortViewTasks(tasks, "priority"))).toEqual(["task-2", "task-4", "task-1", "task-3"]);
+		expect(ids(sortViewTasks(tasks, "title"))).toEqual(["task-4", "task-2", "task-3", "task-1"]);
+		expect(ids(sortViewTasks(tasks, "status", statuses))).toEqual(["task-2", "task-1", "task-3", "task-4"]);
+		expect(ids(sortViewTasks(tasks, "due"))).toEqual(["task-3", "task-2", "task-1", "task-4"]);
+	});
+
+	it("groups by status order and repeats tasks across assignees", () => {
+		const byStatus = groupViewTasks(tasks, "status", { statuses });
+		expect(byStatus.map((group) => [group.label, ids(group.tasks)])).toEqual([
+			["To Do", ["task-2"]],
+			["In Progress", ["task-1"]],
+			["Done", ["task-3"]],
+			["Blocked", ["task-4"]],
+		]);
+
+		const byAssignee = groupViewTasks(tasks, "assignee");
+		expect(byAssignee.map((group) => [group.label, ids(group.tasks)])).toEqual([
+			["@alice", ["task-1", "task-2"]],
+			["@bob", ["task-2"]],
+			["Unassigned", ["task-3", "task-4"]],
+		]);
+		expect(ids(orderTasksForSavedView(tasks, { name: "team", sort: "id", groupBy: "assignee" }))).toEqual([
+			"task-1",
+			"task-2",
+			"task-3",
+			"task-4",
+		]);
+	});
+
+	it("renders grouped plain text with the view's columns", () => {
+		const result = buildViewResult(tasks.slice(0, 2), {
+			name: "triage",
+			groupBy: "assignee",
+			columns: ["id", "title", "due"],
+		});
+		expect(result.total).toBe(2);
+		expect(formatViewPlainText(result)).toBe(
+			[
+				"View: triage (2 tasks)",
+				"",
+				"@alice (2):",
+				"  ID      Title      Due",
+				"  task-2  Crash      2025-03-09",
+				"  task-1  Login bug",
+				"",
+				"@bob (1):",
+				"  ID      Title  Due",
+				"  task-2  Crash  2025-03-09",
+			].join("\n"),
+		);
+	});
+
+	it("rejects invalid names, fields and queries", () => {
+		expect(getSavedViewError({ name: "my view" })).toContain('Invalid view name "my view"');
+		expect(getSavedViewError({ name: "ok", sort: "size" as never })).toContain('Invalid sort "size"');
+		expect(getSavedViewError({ name: "ok", columns: ["id", "effort" as never] })).toContain('Invalid column "effort"');
+		expect(getSavedViewError({ name: "ok", query: "label:" })).toBe('Missing value for "label"');
+		expect(getSavedViewError({ name: "ok", query: "label:bug", groupBy: "label" })).toBeNull();
+	});
+});
+
+describe("saved views in Core, CLI and MCP", () => {
+	const cliPath = join(process.cwd(), "src", "cli.ts");
+	let TEST_DIR: string;
+	let core: Core;
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-views");
+		core = await createTestProject(TEST_DIR, "Views Project");
+		await core.createTaskFromInput({ title: "Crash", labels: ["bug"], assignee: ["@sam"], priority: "high" }, false);
+		await core.createTaskFromInput({ title: "Typo", labels: ["bug"], priority: "low" }, false);
+		await core.createTaskFromInput({ title: "Docs", labels: ["docs"] }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("persists views in backlog/views.yml and runs them with extra filters", async () => {
+		await core.saveView(
+			{ name: "triage", description: "Open bugs", query: "label:bug", groupBy: "assignee", columns: ["id", "title"] },
+			false,
+		);
+		const content = await Bun.file(join(TEST_DIR, "backlog", "views.yml")).text();
+		expect(content).toContain("triage:");
+		expect(content).toContain('group_by: "assignee"');
+
+		expect(await new Core(TEST_DIR).filesystem.loadView("TRIAGE")).toEqual({
+			name: "triage",
+			description: "Open bugs",
+			query: "label:bug",
+			groupBy: "assignee",
+			columns: ["id", "title"],
+		});
+
+		const result = await core.runView("triage");
+		expect(result.groups.map((group) => [group.label, group.tasks.map((task) => task.title)])).toEqual([
+			["@sam", ["Crash"]],
+			["Unassigned", ["Typo"]],
+		]);
+		const narrowed = await core.runView("triage", { filters: { query: "priority:low" } });
+		expect(narrowed.total).toBe(1);
+
+		await expect(core.runView("missing")).rejects.toThrow("View not found: missing. Available views: triage");
+		await expect(core.saveView({ name: "empty" }, false)).rejects.toThrow(
+			"A view needs a query, sort, grouping or columns",
+		);
+		expect(await core.deleteView("triage", false)).toBe(true);
+		expect(await core.filesystem.listViews()).toEqual([]);
+	});
+
+	it("saves, lists and uses views from the command line", async () => {
+		const saved = await $`bun ${cliPath} view save triage -q label:bug --sort title --columns id,title`
+			.cwd(TEST_DIR)
+			.quiet()
+			.nothrow();
+		expect(saved.exitCode).toBe(0);
+
+		const list = await $`bun ${cliPath} view list`.cwd(TEST_DIR).quiet();
+		expect(list.stdout.toString()).toContain("label:bug · sort title · columns id,title");
+
+		const view = await $`bun ${cliPath} task list --view triage --plain`.cwd(TEST_DIR).quiet();
+		expect(view.stdout.toString()).toContain(
+			["View: triage (2 tasks)", "", "All tasks (2):", "  ID      Title", "  task-1  Crash", "  task-2  Typo"].join(
+				"\n",
+			),
+		);
+
+		const invalid = await $`bun ${cliPath} view save broken --group-by size`.cwd(TEST_DIR).quiet().nothrow();
+		expect(invalid.exitCode).toBe(1);
+		expect(invalid.stderr.toString()).toContain('Invalid grouping "size"');
+	});
+
+	it("lists, runs and saves views through MCP tools", async () => {
+		const server = new McpServer(TEST_DIR, "Test instructions");
+		registerViewTools(server);
+		const call = async (name: string, args: Record<string, unknown>) => {
+			const result = await server.testInterface.callTool({ params: { name, arguments: args } });
+			return {
+				isError: result.isError,
+				text: result.content?.map((item) => ("text" in item ? item.text : "")).join("\n") ?? "",
+			};
+		};
+		try {
+			expect((await call("view_save", { name: "bugs", query: "label:bug", sort: "priority" })).text).toBe(
+				"Saved view bugs (label:bug · sort priority).",
+			);
+			expect((await call("view_list", {})).text).toContain("- bugs (label:bug · sort priority)");
+
+			const run = await call("view_run", { name: "bugs", query: "priority:high" });
+			expect(run.text).toContain("View: bugs (1 task)");
+			expect(run.text).toContain("Crash");
+			expect(run.text).not.toContain("Typo");
+
+			expect((await call("view_run", { name: "nope" })).isError).toBe(true);
+			expect((await call("view_save", { name: "bad", query: "size:xl" })).isError).toBe(true);
+		} finally {
+			await server.stop();
+		}
+	});
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { join } from "node:path";
+import { $ } from "bun";
+import { generateKanbanBoardWithMetadata } from "../board.ts";
+import { formatWipLabel, getColumnWipState, getWipViolations, WipLimitError } from "../core/wip-limits.ts";
+import { Core } from "../index.ts";
+import type { Task, WipLimitsConfig } from "../types/index.ts";
+import { createTask, createTestProject, createUniqueTestDir, safeCleanup } from "./test-utils.ts";
+
+const wipLimits: WipLimitsConfig = {
+	statuses: {
+		"In Progress": { limit: 1 },
+		Review: { perAssignee: 1 },
+	},
+};
+
+describe("getWipViolations", () => {
+	const board = [
+		createTask({ id: "task-1", status: "In Progress" }),
+		createTask({ id: "task-2", status: "Review", assignee: ["@alice"] }),
+		createTask({ id: "task-3" }),
+	];
+
+	it("reports a full column and ignores statuses without limits", () => {
+		expect(getWipViolations(board, board[2] as Task, "in progress", wipLimits)).toEqual([
+			'WIP limit reached for "in progress": 1/1 tasks already.',
+		]);
+		expect(getWipViolations(board, board[0] as Task, "In Progress", wipLimits)).toEqual([]);
+		expect(getWipViolations(board, board[2] as Task, "Done", wipLimits)).toEqual([]);
+		expect(getWipViolations(board, board[2] as Task, "In Progress", undefined)).toEqual([]);
+	});
+
+	it("checks the per-assignee limit", () => {
+		const task = createTask({ id: "task-3", assignee: ["@alice", "@bob"] });
+		expect(getWipViolations(board, task, "Review", wipLimits)).toEqual([
+			'WIP limit reached for @alice in "Review": 1/1 tasks already.',
+		]);
+	});
+
+	it("formats column labels", () => {
+		const column = [createTask({ assignee: ["@alice"] }), createTask({ id: "task-2", assignee: ["@alice"] })];
+		const state = getColumnWipState(column, { limit: 1, perAssignee: 1 });
+		expect(state).toMatchObject({ count: 2, overLimit: true, overloadedAssignees: ["@alice"] });
+		expect(formatWipLabel("In Progress", state)).toBe("In Progress (2/1, max 1 per assignee)");
+		expect(formatWipLabel("Review", getColumnWipState(column, { perAssignee: 2 }))).toBe(
+			"Review (2, max 2 per assignee)",
+		);
+		expect(formatWipLabel("To Do", getColumnWipState(column, undefined))).toBe("To Do");
+	});
+
+	it("shows limits in the markdown export header", () => {
+		const markdown = generateKanbanBoardWithMetadata(
+			[createTask({ id: "task-1", status: "In Progress" }), createTask({ id: "task-2", status: "In Progress" })],
+			["To Do", "In Progress"],
+			"WIP Project",
+			{ wipLimits },
+		);
+		expect(markdown).toContain("| To Do | In Progress (2/1) ⚠️ |");
+	});
+});
+
+describe("WIP limits in Core", () => {
+	let TEST_DIR: string;
+	let core: Core;
+
+	const saveLimits = async (limits: WipLimitsConfig) => {
+		const config = await core.filesystem.loadConfig();
+		if (!config) throw new Error("Config not found");
+		await core.filesystem.saveConfig({ ...config, wipLimits: limits });
+	};
+
+	beforeEach(async () => {
+		TEST_DIR = createUniqueTestDir("test-wip-limits");
+		core = await createTestProject(TEST_DIR, "WIP Project");
+		await saveLimits(wipLimits);
+		await core.createTaskFromInput({ title: "Started", status: "In Progress" }, false);
+		await core.createTaskFromInput({ title: "Waiting" }, false);
+	});
+
+	afterEach(async () => {
+		await safeCleanup(TEST_DIR);
+	});
+
+	it("round-trips limits through config.yml", async () => {
+		await saveLimits({ strict: true, statuses: { "In Progress": { limit: 3 }, Review: { limit: 2, perAssignee: 1 } } });
+		const loaded = await new Core(TEST_DIR).filesystem.loadConfig();
+		expect(loaded?.wipLimits).toEqual({
+			strict: true,
+			statuses: { "In Progress": { limit: 3 }, Review: { limit: 2, perAssignee: 1 } },
+		});
+	});
+
+	it("warns but still moves the task when not strict", async () => {
+		const { task, warnings } = await core.updateTaskFromInput("task-2", { status: "In Progress" }, false);
+		expect(task.status).toBe("In Progress");
+		expect(warnings).toEqual(['WIP limit reached for "In Progress": 1/1 tasks already.']);
+	});
+
+	it("checks limits when creating a task", async () => {
+		const { task, warnings } = await core.createTaskFromInput({ title: "Also started", status: "In Progress" }, false);
+		expect(task.status).toBe("In Progress");
+		expect(warnings).toEqual(['WIP limit reached for "In Progress": 1/1 tasks already.']);
+		expect((await core.createTaskFromInput({ title: "Queued" }, false)).warnings).toEqual([]);
+
+		await saveLimits({ ...wipLimits, strict: true });
+		await expect(core.createTaskFromInput({ title: "One more", status: "In Progress" }, false)).rejects.toBeInstanceOf(
+			WipLimitError,
+		);
+		expect((await core.filesystem.listTasks()).map((item) => item.title)).not.toContain("One more");
+	});
+
+	it("reports warnings per task in bulk edits", async () => {
+		const results = await core.bulkEditTasks(["task-1", "task-2"], { status: "In Progress" }, false);
+		expect(results.map((result) => result.warnings)).toEqual([
+			undefined,
+			['WIP limit reached for "In Progress": 1/1 tasks already.'],
+		]);
+	});
+
+	it("shows warnings from task edit on stderr", async () => {
+		const cliPath = join(process.cwd(), "src", "cli.ts");
+		const result = await $`bun ${cliPath} task edit 2 -s "In Progress" --plain`.cwd(TEST_DIR).quiet();
+		expect(result.stderr.toString()).toBe('Warning: WIP limit reached for "In Progress": 1/1 tasks already.\n');
+		expect(result.stdout.toString()).toContain("Status: ◒ In Progress");
+	}, 10000);
+
+	it("warns from task create and refuses in strict mode", async () => {
+		const cliPath = join(process.cwd(), "src", "cli.ts");
+		const created = await $`bun ${cliPath} task create "Also started" -s "In Progress"`.cwd(TEST_DIR).quiet();
+		expect(created.stderr.toString()).toBe('Warning: WIP limit reached for "In Progress": 1/1 tasks already.\n');
+		expect(created.stdout.toString()).toContain("Created task task-3");
+
+		await saveLimits({ ...wipLimits, strict: true });
+		const refused = await $`bun ${cliPath} task create "One more" -s "In Progress"`.cwd(TEST_DIR).quiet().nothrow();
+		expect(refused.exitCode).toBe(1);
+		expect(refused.stderr.toString()).toContain('WIP limit reached for "In Progress": 2/1 tasks already.');
+		expect((await core.filesystem.listTasks()).map((item) => item.title)).not.toContain("One more");
+	}, 10000);
+
+	it("returns warnings from reorderTask", async () => {
+		const result = await core.reorderTask({
+			taskId: "task-2",
+			targetStatus: "In Progress",
+			orderedTaskIds: ["task-1", "task-2"],
+			autoCommit: false,
+		});
+		expect(result.updatedTask.status).toBe("In Progress");
+		expect(result.warnings).toEqual(['WIP limit reached for "In Progress": 1/1 tasks already.']);
+	});
+
+	it("rejects the move in strict mode", async () => {
+		await saveLimits({ ...wipLimits, strict: true });
+		await expect(core.updateTaskFromInput("task-2", { status: "In Progress" }, false)).rejects.toBeInstanceOf(
+			WipLimitError,
+		);
+		await expect(
+			core.reorderTask({
+				taskId: "task-2",
+				targetStatus: "In Progress",
+				orderedTaskIds: ["task-2"],
+				autoCommit: false,
+			}),
+		).rejects.toThrow("WIP limit reached");
+		expect((await core.filesystem.loadTask("task-2"))?.status).toBe("To Do");
+	});
+});
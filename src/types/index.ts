@@ -19,6 +19,47 @@ export interface TaskHistoryEntry {
 	status: string;
 }
 
+export interface TaskWorklogEntry {
+	author: string;
+	/** Normalized duration, e.g. "1h 30m" */
+	duration: string;
+	date: string;
+	note?: string;
+}
+
+export interface TaskComment {
+	/** Sequential per task, starting at 1 */
+	id: number;
+	author: string;
+	/** YYYY-MM-DD HH:mm */
+	date: string;
+	/** Markdown */
+	body: string;
+	/** Id of the comment this one answers */
+	replyTo?: number;
+}
+
+/** Effort totals in minutes for a task or a group of tasks */
+export interface EffortSummary {
+	estimatedMinutes: number;
+	loggedMinutes: number;
+	remainingMinutes: number;
+}
+
+/** Relation types stored in the task frontmatter (`relations`) */
+export const TASK_RELATION_TYPES = ["relates-to", "blocks", "duplicates", "caused-by"] as const;
+export type TaskRelationType = (typeof TASK_RELATION_TYPES)[number];
+
+/** A stored relation type or the inverse computed from the other task */
+export type TaskRelationKind = TaskRelationType | "blocked-by" | "duplicated-by" | "causes";
+
+export interface TaskRelation {
+	type: TaskRelationKind;
+	taskId: string;
+	/** Recorded on the other task and computed from it, so it can only be removed there */
+	inverse?: boolean;
+}
+
 export interface Task {
 	id: string;
 	title: string;
@@ -27,9 +68,15 @@ export interface Task {
 	reporter?: string;
 	createdDate: string;
 	updatedDate?: string;
+	/** Planned start, YYYY-MM-DD or YYYY-MM-DD HH:mm */
+	startDate?: string;
+	/** Deadline, YYYY-MM-DD or YYYY-MM-DD HH:mm */
+	dueDate?: string;
 	labels: string[];
 	milestone?: string;
 	dependencies: string[];
+	/** Typed links to other tasks; inverses are computed, not stored */
+	relations?: Partial<Record<TaskRelationType, string[]>>;
 	readonly rawContent?: string; // Raw markdown content without frontmatter (read-only: do not modify directly)
 	description?: string;
 	implementationPlan?: string;
@@ -51,6 +98,18 @@ export interface Task {
 	gitTag?: string;
 	prNumber?: string;
 	history?: TaskHistoryEntry[];
+	/** Original effort estimate, e.g. "4h" */
+	estimate?: string;
+	/** Explicit remaining effort; when absent it is derived from estimate minus logged work */
+	remaining?: string;
+	worklog?: TaskWorklogEntry[];
+	/** Values of the custom fields defined in config, keyed by field name */
+	customFields?: Record<string, CustomFieldValue>;
+	comments?: TaskComment[];
+	/** Files under backlog/assets, relative to it */
+	attachments?: string[];
+	/** Set while archived: tasks that depended on this one, so a restore can relink them */
+	archivedDependents?: string[];
 }
 
 export interface MilestoneBucket {
@@ -63,6 +122,7 @@ export interface MilestoneBucket {
 	total: number;
 	doneCount: number;
 	progress: number;
+	effort: EffortSummary;
 }
 
 export interface MilestoneSummary {
@@ -91,6 +151,19 @@ export interface TaskCreateInput {
 	implementationNotes?: string;
 	acceptanceCriteria?: AcceptanceCriterionInput[];
 	rawContent?: string;
+	estimate?: string;
+	startDate?: string;
+	dueDate?: string;
+	/** Custom field values keyed by field name; strings are converted to the field's type */
+	customFields?: Record<string, CustomFieldValue>;
+	/** Comments carried over by importers from other trackers */
+	comments?: TaskComment[];
+}
+
+/** A task after `updateTaskFromInput`, with warnings about the change, e.g. a WIP limit it exceeds */
+export interface TaskUpdateResult {
+	task: Task;
+	warnings: string[];
 }
 
 export interface TaskUpdateInput {
@@ -99,6 +172,10 @@ export interface TaskUpdateInput {
 	status?: TaskStatus;
 	priority?: "high" | "medium" | "low";
 	milestone?: string | null;
+	/** Null clears the date */
+	startDate?: string | null;
+	/** Null clears the date */
+	dueDate?: string | null;
 	labels?: string[];
 	addLabels?: string[];
 	removeLabels?: string[];
@@ -107,6 +184,9 @@ export interface TaskUpdateInput {
 	dependencies?: string[];
 	addDependencies?: string[];
 	removeDependencies?: string[];
+	addRelations?: Partial<Record<TaskRelationType, string[]>>;
+	/** Drop every stored relation to these tasks */
+	removeRelations?: string[];
 	implementationPlan?: string;
 	appendImplementationPlan?: string[];
 	clearImplementationPlan?: boolean;
@@ -123,6 +203,13 @@ export interface TaskUpdateInput {
 	gitTag?: string;
 	prNumber?: string;
 	addToHistory?: TaskHistoryEntry;
+	estimate?: string | null;
+	remaining?: string | null;
+	addWorklog?: TaskWorklogEntry;
+	/** Appended with the next comment id */
+	addComment?: Omit<TaskComment, "id">;
+	/** Custom field values to set; null or an empty string clears a field */
+	customFields?: Record<string, CustomFieldValue | null>;
 }
 
 export interface TaskListFilter {
@@ -131,6 +218,14 @@ export interface TaskListFilter {
 	priority?: "high" | "medium" | "low";
 	parentTaskId?: string;
 	labels?: string[];
+	/** Only open tasks past their due date */
+	overdue?: boolean;
+	/** Due on or before this date (YYYY-MM-DD) */
+	dueBefore?: string;
+	/** Due on or after this date (YYYY-MM-DD) */
+	dueAfter?: string;
+	/** Filter query, e.g. `status:"In Progress" label:bug -assignee:@me` */
+	query?: string;
 }
 
 export interface Decision {
@@ -181,6 +276,10 @@ export interface SearchFilters {
 	priority?: SearchPriorityFilter | SearchPriorityFilter[];
 	assignee?: string | string[];
 	labels?: string | string[];
+	/** Tasks with a relation of this type, stored or computed */
+	relation?: TaskRelationKind | TaskRelationKind[];
+	/** Tasks with any relation (of `relation` type, when given) to this task */
+	relatedTo?: string;
 }
 
 export interface SearchOptions {
@@ -220,6 +319,158 @@ export interface Sequence {
 	tasks: Task[];
 }
 
+/** Checks that must pass before a task may enter a status */
+export type TransitionGuard = "acceptance_criteria_checked" | "has_assignee" | "has_implementation_notes";
+
+export interface StatusTransitionRule {
+	/** Statuses a task may move to from this status; any status when omitted */
+	to?: string[];
+	/** Guards checked when a task enters this status */
+	requires?: TransitionGuard[];
+}
+
+export interface WipLimit {
+	/** Maximum tasks in the column */
+	limit?: number;
+	/** Maximum tasks in the column for any single assignee */
+	perAssignee?: number;
+}
+
+export interface WipLimitsConfig {
+	/** Reject moves into a full column instead of warning */
+	strict?: boolean;
+	/** Limits keyed by status name */
+	statuses: Record<string, WipLimit>;
+}
+
+export type NotificationEvent =
+	| "task.created"
+	| "task.updated"
+	| "task.status_changed"
+	| "task.archived"
+	| "task.ac_checked"
+	| "document.created"
+	| "document.updated"
+	| "decision.created"
+	| "decision.updated";
+
+/** Body layout posted to a webhook: the raw event, a Slack message or a Teams card */
+export type WebhookFormat = "json" | "slack" | "teams";
+
+export interface WebhookConfig {
+	url: string;
+	format?: WebhookFormat;
+	/** Events to send; every event when omitted */
+	events?: NotificationEvent[];
+	/** Extra request headers, e.g. for an auth token */
+	headers?: Record<string, string>;
+}
+
+export interface NotificationsConfig {
+	webhooks: WebhookConfig[];
+	/** Extra attempts after a failed delivery (default 2) */
+	retries?: number;
+	/** Delay before the first retry, doubled for each further one (default 500) */
+	retryDelayMs?: number;
+	/** Per-request timeout (default 5000) */
+	timeoutMs?: number;
+}
+
+/** One entry of the local webhook delivery log */
+export interface WebhookDelivery {
+	timestamp: string;
+	event: NotificationEvent;
+	/** Webhook URL with its secret path segments masked */
+	url: string;
+	format: WebhookFormat;
+	ok: boolean;
+	attempts: number;
+	/** HTTP status of the last attempt, when one was received */
+	status?: number;
+	error?: string;
+}
+
+export type CustomFieldType = "string" | "number" | "enum" | "date" | "user" | "boolean";
+
+export type CustomFieldValue = string | number | boolean;
+
+/**
+ * Project-specific task attribute declared under `custom_fields` in config.yml
+ */
+export interface CustomFieldDefinition {
+	/** Key in task frontmatter and in filter queries, e.g. `severity` */
+	name: string;
+	type: CustomFieldType;
+	/** Display name; defaults to the field name */
+	label?: string;
+	description?: string;
+	/** Allowed values of an enum field, in sort order */
+	options?: string[];
+	/** New tasks must set a value */
+	required?: boolean;
+}
+
+export type ViewSortField = "priority" | "id" | "title" | "status" | "created" | "updated" | "due";
+
+export type ViewGrouping = "none" | "status" | "milestone" | "assignee" | "label";
+
+export type ViewColumn =
+	| "id"
+	| "title"
+	| "status"
+	| "priority"
+	| "assignee"
+	| "labels"
+	| "milestone"
+	| "due"
+	| "updated";
+
+/**
+ * Named task list view stored in `backlog/views.yml`
+ */
+export interface SavedView {
+	/** Key in views.yml, used by `--view` */
+	name: string;
+	description?: string;
+	/** Filter query, e.g. `label:bug assignee:@me is:open` */
+	query?: string;
+	/** A {@link ViewSortField} or the name of a custom field */
+	sort?: string;
+	groupBy?: ViewGrouping;
+	/** Columns to show, in order */
+	columns?: ViewColumn[];
+}
+
+/**
+ * Task template stored in `backlog/templates/<name>.md`
+ */
+export interface TaskTemplate {
+	/** File name without `.md`, used by `--template` */
+	name: string;
+	/** Title of created tasks; `{{date}}` is replaced with the creation date */
+	title: string;
+	status?: string;
+	priority?: "high" | "medium" | "low";
+	milestone?: string;
+	labels: string[];
+	assignee: string[];
+	estimate?: string;
+	description?: string;
+	implementationPlan?: string;
+	acceptanceCriteria: AcceptanceCriterionInput[];
+	/** `daily`, `weekly[:day]`, `monthly[:day]` or a five-field cron expression */
+	recurrence?: string;
+}
+
+/**
+ * Last instantiation of a recurring template, kept in `backlog/templates/recur-state.json`
+ */
+export interface RecurrenceState {
+	/** Scheduled occurrence the last task was created for (YYYY-MM-DD HH:mm, UTC) */
+	lastOccurrence: string;
+	lastTaskId: string;
+}
+
 export interface BacklogConfig {
 	projectName: string;
 	defaultAssignee?: string;
@@ -242,8 +493,18 @@ export interface BacklogConfig {
 	bypassGitHooks?: boolean;
 	checkActiveBranches?: boolean; // Check task states across active branches (default: true)
 	activeBranchDays?: number; // How many days a branch is considered active (default: 30)
+	/** Move a parent task to done once its last subtask is done (default: false) */
+	autoCompleteParents?: boolean;
+	/** Task id prefix, e.g. `BACK` for `BACK-12` (default: `task`); change it with `backlog migrate ids` */
+	taskPrefix?: string;
 	/** Global callback command to run on any task status change. Supports $TASK_ID, $OLD_STATUS, $NEW_STATUS, $TASK_TITLE variables. */
 	onStatusChange?: string;
+	/** Optional workflow rules keyed by status name */
+	transitions?: Record<string, StatusTransitionRule>;
+	wipLimits?: WipLimitsConfig;
+	notifications?: NotificationsConfig;
+	/** Extra task attributes, in display order */
+	customFields?: CustomFieldDefinition[];
 	mcp?: {
 		http?: {
 			host?: string;
@@ -1,4 +1,4 @@
-import type { TaskHistoryEntry } from "./index.ts";
+import type { CustomFieldValue, TaskComment, TaskHistoryEntry, TaskRelationType, TaskWorklogEntry } from "./index.ts";
 
 export interface TaskEditArgs {
 	title?: string;
@@ -12,6 +12,8 @@ export interface TaskEditArgs {
 	assignee?: string[];
 	ordinal?: number;
 	dependencies?: string[];
+	relationsAdd?: Partial<Record<TaskRelationType, string[]>>;
+	relationsRemove?: string[];
 	implementationPlan?: string;
 	planSet?: string;
 	planAppend?: string[];
@@ -29,6 +31,14 @@ export interface TaskEditArgs {
 	gitTag?: string;
 	prNumber?: string;
 	historyEntry?: TaskHistoryEntry;
+	estimate?: string | null;
+	remaining?: string | null;
+	startDate?: string | null;
+	dueDate?: string | null;
+	worklogEntry?: TaskWorklogEntry;
+	commentEntry?: Omit<TaskComment, "id">;
+	/** Custom field values; null or an empty string clears a field */
+	customFields?: Record<string, CustomFieldValue | null>;
 }
 
 export type TaskEditRequest = TaskEditArgs & { id: string };
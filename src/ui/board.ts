@@ -7,7 +7,9 @@ import {
 	generateMilestoneGroupedBoard,
 } from "../board.ts";
 import { Core } from "../core/backlog.ts";
-import type { Task } from "../types/index.ts";
+import { TransitionError } from "../core/transitions.ts";
+import { formatWipLabel, getColumnWipState, getWipLimit, WipLimitError } from "../core/wip-limits.ts";
+import type { Task, WipLimitsConfig } from "../types/index.ts";
 import { getTaskPath } from "../utils/task-path.ts";
 import { compareTaskIds } from "../utils/task-sorting.ts";
 import { getStatusIcon } from "./status-icon.ts";
@@ -110,8 +112,14 @@ function formatTaskListItem(task: Task, isMoving = false): string {
 	return content;
 }
 
-function formatColumnLabel(status: string, count: number): string {
-	return `\u00A0${getStatusIcon(status)} ${status || "No Status"} (${count})\u00A0`;
+function formatColumnLabel(status: string, tasks: Task[], wipLimits?: WipLimitsConfig): string {
+	const limit = status ? getWipLimit(wipLimits, status) : undefined;
+	if (!limit) {
+		return `\u00A0${getStatusIcon(status)} ${status || "No Status"} (${tasks.length})\u00A0`;
+	}
+	const state = getColumnWipState(tasks, limit);
+	const warning = state.overLimit || state.overloadedAssignees.length > 0 ? " ⚠" : "";
+	return `\u00A0${getStatusIcon(status)} ${formatWipLabel(status, state)}${warning}\u00A0`;
 }
 
 function _arraysEqual(left: string[], right: string[]): boolean {
@@ -164,13 +172,16 @@ export async function renderBoardTui(
 		subscribeUpdates?: (update: (nextTasks: Task[], nextStatuses: string[]) => void) => void;
 		milestoneMode?: boolean;
 		milestones?: string[];
+		wipLimits?: WipLimitsConfig;
 	},
 ): Promise<void> {
 	if (!process.stdout.isTTY) {
 		if (options?.milestoneMode) {
 			console.log(generateMilestoneGroupedBoard(initialTasks, statuses, options.milestones ?? [], "Project"));
 		} else {
-			console.log(generateKanbanBoardWithMetadata(initialTasks, statuses, "Project"));
+			console.log(
+				generateKanbanBoardWithMetadata(initialTasks, statuses, "Project", { wipLimits: options?.wipLimits }),
+			);
 		}
 		return;
 	}
@@ -245,7 +256,7 @@ export async function renderBoardTui(
 					height: "100%-1",
 					border: { type: "line" },
 					style: { border: { fg: "gray" } },
-					label: formatColumnLabel(columnData.status, columnData.tasks.length),
+					label: formatColumnLabel(columnData.status, columnData.tasks, options?.wipLimits),
 				});
 
 				const taskList = list({
@@ -329,7 +340,7 @@ export async function renderBoardTui(
 				column.status = columnData.status;
 				column.tasks = columnData.tasks;
 				column.list.setItems(getFormattedItems(columnData.tasks));
-				column.box.setLabel?.(formatColumnLabel(columnData.status, columnData.tasks.length));
+				column.box.setLabel?.(formatColumnLabel(columnData.status, columnData.tasks, options?.wipLimits));
 			});
 			restoreSelection(selectedTaskId);
 		};
@@ -608,7 +619,7 @@ export async function renderBoardTui(
 				const orderedTaskIds = targetColumn.tasks.map((task) => task.id);
 
 				// Persist the move using core API
-				const { updatedTask, changedTasks } = await core.reorderTask({
+				const { updatedTask, changedTasks, warnings } = await core.reorderTask({
 					taskId: moveOp.taskId,
 					targetStatus: moveOp.targetStatus,
 					orderedTaskIds,
@@ -625,6 +636,16 @@ export async function renderBoardTui(
 
 				// Render with updated local state
 				renderView();
+
+				// Moves into a full column are allowed unless WIP limits are strict, but say so
+				if (warnings.length > 0) {
+					footerBox.setContent(` {yellow-fg}${warnings.join(" ")}{/}`);
+					screen.render();
+					setTimeout(() => {
+						updateFooter();
+						screen.render();
+					}, 4000);
+				}
 			} catch (error) {
 				// On error, cancel the move and restore original position
 				if (process.env.DEBUG) {
@@ -632,6 +653,15 @@ export async function renderBoardTui(
 				}
 				moveOp = null;
 				renderView();
+				// Workflow rules and strict WIP limits explain why the move was refused
+				if (error instanceof TransitionError || error instanceof WipLimitError) {
+					footerBox.setContent(` {red-fg}${error.message}{/}`);
+					screen.render();
+					setTimeout(() => {
+						updateFooter();
+						screen.render();
+					}, 4000);
+				}
 			}
 		};
 		const cancelMove = () => {
@@ -5,6 +5,7 @@
 
 import type { BoxInterface, ListInterface, ScreenInterface, TextboxInterface } from "neo-neo-bblessed";
 import { box, list, textbox } from "neo-neo-bblessed";
+import { looksLikeTaskQuery } from "../../core/task-query.ts";
 
 export interface FilterState {
 	search: string;
@@ -93,6 +94,7 @@ export class FilterHeader {
 
 	// Element references for focus management and updates
 	private searchInput: TextboxInterface | null = null;
+	private searchLabel: BoxInterface | null = null;
 	private statusSelector: ListInterface | null = null;
 	private prioritySelector: ListInterface | null = null;
 	private labelsButton: BoxInterface | null = null;
@@ -153,6 +155,7 @@ export class FilterHeader {
 		if (filters.search !== undefined) {
 			this.state.search = filters.search;
 			this.searchInput?.setValue(filters.search);
+			this.searchLabel?.setContent(this.getSearchLabelText());
 		}
 		if (filters.status !== undefined) {
 			this.state.status = filters.status;
@@ -354,7 +357,7 @@ export class FilterHeader {
 		// Create label
 		const label = box({
 			parent: this.container,
-			content: item.labelText,
+			content: item.id === "search" ? this.getSearchLabelText() : item.labelText,
 			top: y,
 			left: x,
 			width: item.labelWidth,
@@ -362,6 +365,9 @@ export class FilterHeader {
 			tags: true,
 		});
 		this.elements.push(label);
+		if (item.id === "search") {
+			this.searchLabel = label;
+		}
 
 		// Create control (after label)
 		const controlX = x + item.labelWidth;
@@ -685,7 +691,13 @@ export class FilterHeader {
 		this.buildElements();
 	}
 
+	// The search box also takes filter queries such as `label:bug -assignee:@me`
+	private getSearchLabelText(): string {
+		return looksLikeTaskQuery(this.state.search) ? "Query:" : "Search:";
+	}
+
 	private emitFilterChange(): void {
+		this.searchLabel?.setContent(this.getSearchLabelText());
 		this.options.onFilterChange({ ...this.state });
 	}
 
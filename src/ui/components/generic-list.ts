@@ -13,6 +13,19 @@ export interface GenericListItem {
 	id: string;
 }
 
+/**
+ * Hierarchy for items the caller has already put in tree order. The list
+ * indents each item by its depth, marks items with children as folded or open
+ * and calls `onToggle` when Space is pressed on one; the caller then rebuilds
+ * the items with that item's children hidden or shown.
+ */
+export interface GenericListTree<T extends GenericListItem> {
+	depth: (item: T) => number;
+	hasChildren: (item: T) => boolean;
+	isCollapsed: (item: T) => boolean;
+	onToggle: (item: T) => void;
+}
+
 export interface GenericListOptions<T extends GenericListItem> {
 	parent?: ElementInterface | ScreenInterface;
 	title?: string;
@@ -21,6 +34,7 @@ export interface GenericListOptions<T extends GenericListItem> {
 	searchable?: boolean;
 	itemRenderer?: (item: T, index: number, selected: boolean) => string;
 	groupBy?: (item: T) => string;
+	tree?: GenericListTree<T>;
 	selectedIndex?: number;
 	selectedIndices?: number[];
 	onSelect?: (selected: T | T[], index?: number | number[]) => void;
@@ -199,7 +213,7 @@ export class GenericList<T extends GenericListItem> implements GenericListContro
 					const isSelected = this.isMultiSelect ? this.selectedIndices.has(index) : false;
 					const rendered = this.itemRenderer(item, index, isSelected);
 					const prefix = this.isMultiSelect ? (isSelected ? "[✓] " : "[ ] ") : "  ";
-					displayItems.push(prefix + rendered);
+					displayItems.push(prefix + this.treePrefix(item) + rendered);
 					itemMap.set(index++, item);
 				}
 			}
@@ -211,7 +225,7 @@ export class GenericList<T extends GenericListItem> implements GenericListContro
 				const isSelected = this.isMultiSelect ? this.selectedIndices.has(i) : false;
 				const rendered = this.itemRenderer(item, i, isSelected);
 				const prefix = this.isMultiSelect ? (isSelected ? "[✓] " : "[ ] ") : "";
-				displayItems.push(prefix + rendered);
+				displayItems.push(prefix + this.treePrefix(item) + rendered);
 				itemMap.set(index++, item);
 			}
 		}
@@ -230,6 +244,13 @@ export class GenericList<T extends GenericListItem> implements GenericListContro
 		this.listBox.setItems(displayItems);
 	}
 
+	private treePrefix(item: T): string {
+		const tree = this.options.tree;
+		if (!tree) return "";
+		const marker = tree.hasChildren(item) ? (tree.isCollapsed(item) ? "▸ " : "▾ ") : "  ";
+		return `${"  ".repeat(tree.depth(item))}${marker}`;
+	}
+
 	private buildHelpText(): string {
 		const parts = ["↑/↓ navigate"];
 
@@ -244,6 +265,10 @@ export class GenericList<T extends GenericListItem> implements GenericListContro
 			parts.push("/ search");
 		}
 
+		if (this.options.tree) {
+			parts.push("Space fold");
+		}
+
 		parts.push("Esc/q quit");
 		return `{gray-fg}${parts.join(" · ")}{/gray-fg}`;
 	}
@@ -297,6 +322,16 @@ export class GenericList<T extends GenericListItem> implements GenericListContro
 				this.selectedIndex = this.listBox.selected ?? 0;
 				this.triggerSelection();
 			});
+
+			const tree = this.options.tree;
+			if (tree) {
+				this.listBox.key(keys.toggle || ["space"], () => {
+					const item = this.filteredItems[this.listBox.selected ?? 0];
+					if (item && tree.hasChildren(item)) {
+						tree.onToggle(item);
+					}
+				});
+			}
 		}
 
 		// Search
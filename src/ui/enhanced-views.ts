@@ -185,7 +185,7 @@ async function renderBoardTuiWithSwitching(
 
 	// For now, use the original function but we'll need to modify it to support Tab switching
 	// This is a placeholder - we'll need to modify the actual board.ts
-	return renderBoardTui(tasks, statuses, layout, maxColumnWidth);
+	return renderBoardTui(tasks, statuses, layout, maxColumnWidth, { wipLimits: config?.wipLimits });
 }
 
 // Re-export for convenience
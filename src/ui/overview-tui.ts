@@ -1,5 +1,8 @@
 import { box } from "neo-neo-bblessed";
+import type { FlowGroupStatistics } from "../core/cycle-time.ts";
 import type { TaskStatistics } from "../core/statistics.ts";
+import { formatDays, formatPercentileSummary } from "../formatters/flow-stats-plain-text.ts";
+import { formatDuration } from "../utils/duration.ts";
 import { getStatusIcon } from "./status-icon.ts";
 import { createScreen } from "./tui.ts";
 
@@ -167,7 +170,20 @@ export async function renderOverviewTui(statistics: TaskStatistics, projectName:
 			mouse: true,
 		});
 
-		let healthContent = `{bold}Average Task Age:{/bold} ${statistics.projectHealth.averageTaskAge} days\n\n`;
+		let healthContent = `{bold}Average Task Age:{/bold} ${statistics.projectHealth.averageTaskAge} days\n`;
+		const effortLine = formatEffortLine(statistics);
+		if (effortLine) {
+			healthContent += `{bold}Effort:{/bold} ${effortLine}\n`;
+		}
+		healthContent += `{bold}Lead Time:{/bold} ${formatPercentileSummary(statistics.flow.leadTime)}\n`;
+		healthContent += `{bold}Cycle Time:{/bold} ${formatPercentileSummary(statistics.flow.cycleTime)}\n`;
+		for (const [title, groups] of getFlowBreakdowns(statistics)) {
+			healthContent += `  {gray-fg}${title}:{/gray-fg}\n`;
+			for (const line of formatFlowGroupLines(groups)) {
+				healthContent += `    ${line}\n`;
+			}
+		}
+		healthContent += "\n";
 
 		healthContent += "{bold}Stale Tasks:{/bold} {gray-fg}(>30 days without updates){/gray-fg}\n";
 		if (statistics.projectHealth.staleTasks.length > 0) {
@@ -178,6 +194,15 @@ export async function renderOverviewTui(statistics: TaskStatistics, projectName:
 			healthContent += "  {green-fg}No stale tasks{/green-fg}\n";
 		}
 
+		healthContent += `\n{bold}Overdue Tasks:{/bold} {gray-fg}(${statistics.deadlines.overdueCount} past due date){/gray-fg}\n`;
+		if (statistics.deadlines.overdue.length > 0) {
+			for (const task of statistics.deadlines.overdue) {
+				healthContent += `  {red-fg}${task.id}{/red-fg} - ${task.title.substring(0, 35)}${task.title.length > 35 ? "..." : ""} {gray-fg}(due ${task.dueDate}){/gray-fg}\n`;
+			}
+		} else {
+			healthContent += "  {green-fg}No overdue tasks{/green-fg}\n";
+		}
+
 		healthContent += "\n{bold}Blocked Tasks:{/bold} {gray-fg}(waiting on dependencies){/gray-fg}\n";
 		if (statistics.projectHealth.blockedTasks.length > 0) {
 			for (const task of statistics.projectHealth.blockedTasks) {
@@ -215,6 +240,40 @@ export async function renderOverviewTui(statistics: TaskStatistics, projectName:
 	});
 }
 
+/**
+ * Summarize logged, estimated and remaining effort, or null when nothing is tracked
+ */
+function formatEffortLine(statistics: TaskStatistics): string | null {
+	const effort = statistics.timeTracking;
+	if (effort.tasksWithEstimate === 0 && effort.tasksWithWorklog === 0) {
+		return null;
+	}
+	return `${formatDuration(effort.loggedMinutes)} logged / ${formatDuration(effort.estimatedMinutes)} estimated, ${formatDuration(effort.remainingMinutes)} remaining`;
+}
+
+const FLOW_BREAKDOWN_LIMIT = 5;
+
+/**
+ * Lead/cycle time breakdowns worth showing (skipped when nothing is done yet)
+ */
+function getFlowBreakdowns(statistics: TaskStatistics): Array<[string, FlowGroupStatistics[]]> {
+	if (statistics.flow.tasks.length === 0) return [];
+	return [
+		["By label", statistics.flow.byLabel],
+		["By assignee", statistics.flow.byAssignee],
+		["By priority", statistics.flow.byPriority],
+	];
+}
+
+function formatFlowGroupLines(groups: FlowGroupStatistics[]): string[] {
+	return groups
+		.slice(0, FLOW_BREAKDOWN_LIMIT)
+		.map(
+			(group) =>
+				`${group.key}: lead p50 ${formatDays(group.leadTime.p50)} / p85 ${formatDays(group.leadTime.p85)}, cycle p50 ${formatDays(group.cycleTime.p50)} / p85 ${formatDays(group.cycleTime.p85)} (${group.leadTime.count})`,
+		);
+}
+
 /**
  * Render plain text overview for non-TTY environments
  */
@@ -263,6 +322,18 @@ function renderPlainTextOverview(statistics: TaskStatistics, projectName: string
 
 	console.log("\nProject Health:");
 	console.log(`  Average Task Age: ${statistics.projectHealth.averageTaskAge} days`);
+	const effortLine = formatEffortLine(statistics);
+	if (effortLine) {
+		console.log(`  Effort: ${effortLine}`);
+	}
+	console.log(`  Lead Time: ${formatPercentileSummary(statistics.flow.leadTime)}`);
+	console.log(`  Cycle Time: ${formatPercentileSummary(statistics.flow.cycleTime)}`);
+	for (const [title, groups] of getFlowBreakdowns(statistics)) {
+		console.log(`    ${title}:`);
+		for (const line of formatFlowGroupLines(groups)) {
+			console.log(`      ${line}`);
+		}
+	}
 
 	console.log("\n  Stale Tasks (>30 days without updates):");
 	if (statistics.projectHealth.staleTasks.length > 0) {
@@ -273,6 +344,15 @@ function renderPlainTextOverview(statistics: TaskStatistics, projectName: string
 		console.log("    No stale tasks");
 	}
 
+	console.log(`\n  Overdue Tasks (${statistics.deadlines.overdueCount} past due date):`);
+	if (statistics.deadlines.overdue.length > 0) {
+		for (const task of statistics.deadlines.overdue) {
+			console.log(`    ${task.id} - ${task.title} (due ${task.dueDate})`);
+		}
+	} else {
+		console.log("    No overdue tasks");
+	}
+
 	console.log("\n  Blocked Tasks (waiting on dependencies):");
 	if (statistics.projectHealth.blockedTasks.length > 0) {
 		for (const task of statistics.projectHealth.blockedTasks) {
@@ -4,13 +4,27 @@ import { stdout as output } from "node:process";
 import type { BoxInterface, LineInterface, ScreenInterface, ScrollableTextInterface } from "neo-neo-bblessed";
 import { box, line, scrollabletext } from "neo-neo-bblessed";
 import { Core } from "../core/backlog.ts";
+import { buildCommentThreads, type CommentThread, formatCommentAuthor } from "../core/comments.ts";
+import type { ContentStore } from "../core/content-store.ts";
+import { listTaskCustomFields } from "../core/custom-fields.ts";
+import { buildRelationIndex, formatTaskRelations } from "../core/relations.ts";
+import {
+	buildSubtaskProgress,
+	buildTaskTree,
+	flattenTaskTree,
+	formatSubtaskProgress,
+	type SubtaskProgress,
+	type TaskTreeRow,
+} from "../core/subtask-tree.ts";
+import { compileTaskQuery, looksLikeTaskQuery } from "../core/task-query.ts";
 import {
 	buildAcceptanceCriteriaItems,
 	formatDateForDisplay,
 	formatTaskPlainText,
 } from "../formatters/task-plain-text.ts";
-import type { Task, TaskSearchResult } from "../types/index.ts";
+import type { CustomFieldDefinition, SavedView, Task, TaskSearchResult } from "../types/index.ts";
 import { collectAvailableLabels } from "../utils/label-filter.ts";
+import { isTaskId } from "../utils/task-prefix.ts";
 import { createTaskSearchIndex } from "../utils/task-search.ts";
 import { formatChecklistItem } from "./checklist.ts";
 import { transformCodePaths } from "./code-path.ts";
@@ -20,6 +34,7 @@ import { formatHeading } from "./heading.ts";
 import { createLoadingScreen } from "./loading.ts";
 import { formatStatusWithIcon, getStatusColor } from "./status-icon.ts";
 import { createScreen } from "./tui.ts";
+import { orderTasksForSavedView } from "./view-switcher.ts";
 
 function getPriorityDisplay(priority?: "high" | "medium" | "low"): string {
 	switch (priority) {
@@ -51,6 +66,13 @@ export async function viewTaskEnhanced(
 		startWithDetailFocus?: boolean;
 		startWithSearchFocus?: boolean;
 		viewSwitcher?: import("./view-switcher.ts").ViewSwitcher;
+		/** Saved view whose sort and grouping order the task list */
+		savedView?: SavedView;
+		/** Called by the `v` key; returns the next saved view, or null to clear it */
+		onSavedViewCycle?: () => SavedView | null;
+		/** Nest subtasks under their parents; toggled with the `t` key */
+		treeView?: boolean;
+		onTreeViewChange?: (enabled: boolean) => void;
 		onTaskChange?: (task: Task) => void;
 		onTabPress?: () => Promise<void>;
 		onFilterChange?: (filters: {
@@ -82,7 +104,7 @@ export async function viewTaskEnhanced(
 
 	if (options.tasks) {
 		// Tasks already provided - use in-memory search (no ContentStore loading)
-		allTasks = options.tasks.filter((t) => t.id && t.id.trim() !== "" && t.id.startsWith("task-"));
+		allTasks = options.tasks.filter((t) => t.id && t.id.trim() !== "" && isTaskId(t.id));
 		const config = await core.filesystem.loadConfig();
 		statuses = config?.statuses || ["To Do", "In Progress", "Done"];
 		labels = config?.labels || [];
@@ -102,7 +124,7 @@ export async function viewTaskEnhanced(
 
 			loadingScreen?.update("Preparing task list...");
 			const tasks = await core.queryTasks();
-			allTasks = tasks.filter((t) => t.id && t.id.trim() !== "" && t.id.startsWith("task-"));
+			allTasks = tasks.filter((t) => t.id && t.id.trim() !== "" && isTaskId(t.id));
 		} finally {
 			await loadingScreen?.close();
 		}
@@ -110,6 +132,9 @@ export async function viewTaskEnhanced(
 
 	// Collect available labels from config and tasks
 	availableLabels = collectAvailableLabels(allTasks, labels);
+	// Resolves @me, relative dates and milestone titles when the search box holds a filter query
+	const queryContext = await core.getTaskQueryContext();
+	let queryError: string | null = null;
 
 	// State for filtering - normalize filters to match configured values
 	let searchQuery = options.searchQuery || "";
@@ -126,13 +151,18 @@ export async function viewTaskEnhanced(
 	let priorityFilter = options.priorityFilter || "";
 	let labelFilter: string[] = [];
 	let filteredTasks = [...allTasks];
+	let activeView: SavedView | null = options.savedView ?? null;
+	let treeView = options.treeView ?? false;
+	const collapsedTaskIds = new Set<string>();
+	let treeRows = new Map<string, TaskTreeRow>();
+	let subtaskProgress = new Map<string, SubtaskProgress>();
 
 	if (options.labelFilter && options.labelFilter.length > 0) {
 		const availableSet = new Set(availableLabels.map((label) => label.toLowerCase()));
 		labelFilter = options.labelFilter.filter((label) => availableSet.has(label.toLowerCase()));
 	}
 
-	const filtersActive = Boolean(searchQuery || statusFilter || priorityFilter || labelFilter.length > 0);
+	const filtersActive = Boolean(searchQuery || statusFilter || priorityFilter || labelFilter.length > 0 || activeView);
 	let requireInitialFilterSelection = filtersActive;
 
 	// Find the initial selected task
@@ -353,7 +383,7 @@ export async function viewTaskEnhanced(
 		height: `100%-${getHeaderHeight() + 1}`,
 		border: { type: "line" },
 		style: { border: { fg: "gray" } },
-		label: `\u00A0Tasks (${filteredTasks.length})\u00A0`,
+		label: getTaskListLabel(),
 	});
 
 	// Detail pane - use right: 0 to ensure it extends to window edge
@@ -413,6 +443,11 @@ export async function viewTaskEnhanced(
 		screen.render();
 	}
 
+	function getTaskListLabel(): string {
+		const viewName = activeView ? ` · ${activeView.name}` : "";
+		return `\u00A0Tasks${viewName} (${filteredTasks.length})\u00A0`;
+	}
+
 	// Helper to notify filter changes
 	function notifyFilterChange() {
 		if (options.onFilterChange) {
@@ -427,19 +462,22 @@ export async function viewTaskEnhanced(
 
 	// Function to apply filters and refresh the task list
 	function applyFilters() {
+		// Text like `label:bug -assignee:@me` is a filter query rather than search words
+		const useQuerySyntax = looksLikeTaskQuery(searchQuery, queryContext.customFields);
+		const textQuery = useQuerySyntax ? "" : searchQuery;
 		// Check for non-empty search query or active filters
-		if (searchQuery.trim() || statusFilter || priorityFilter || labelFilter.length > 0) {
+		if (textQuery.trim() || statusFilter || priorityFilter || labelFilter.length > 0) {
 			// Use in-memory search if available, otherwise use ContentStore-backed search
 			if (taskSearchIndex) {
 				filteredTasks = taskSearchIndex.search({
-					query: searchQuery,
+					query: textQuery,
 					status: statusFilter || undefined,
 					priority: priorityFilter as "high" | "medium" | "low" | undefined,
 					labels: labelFilter,
 				});
 			} else if (searchService) {
 				const searchResults = searchService.search({
-					query: searchQuery,
+					query: textQuery,
 					filters: {
 						status: statusFilter || undefined,
 						priority: priorityFilter as "high" | "medium" | "low" | undefined,
@@ -456,9 +494,28 @@ export async function viewTaskEnhanced(
 			filteredTasks = [...allTasks];
 		}
 
+		queryError = null;
+		if (useQuerySyntax) {
+			try {
+				filteredTasks = filteredTasks.filter(compileTaskQuery(searchQuery, queryContext));
+			} catch (error) {
+				queryError = error instanceof Error ? error.message : String(error);
+				filteredTasks = [];
+			}
+		}
+		if (activeView) {
+			filteredTasks = orderTasksForSavedView(filteredTasks, activeView, statuses, queryContext.customFields);
+		}
+		subtaskProgress = buildSubtaskProgress(allTasks);
+		if (treeView) {
+			const rows = flattenTaskTree(buildTaskTree(filteredTasks), collapsedTaskIds);
+			treeRows = new Map(rows.map((row) => [row.task.id, row]));
+			filteredTasks = rows.map((row) => row.task);
+		}
+
 		// Update the task list label
 		if (taskListPane.setLabel) {
-			taskListPane.setLabel(`\u00A0Tasks (${filteredTasks.length})\u00A0`);
+			taskListPane.setLabel(getTaskListLabel());
 		}
 
 		if (filteredTasks.length === 0) {
@@ -469,7 +526,10 @@ export async function viewTaskEnhanced(
 			const activeFilters: string[] = [];
 			const trimmedQuery = searchQuery.trim();
 			if (trimmedQuery) {
-				activeFilters.push(`Search: {cyan-fg}${trimmedQuery}{/}`);
+				activeFilters.push(`${useQuerySyntax ? "Query" : "Search"}: {cyan-fg}${trimmedQuery}{/}`);
+			}
+			if (queryError) {
+				activeFilters.push(`{red-fg}${queryError}{/}`);
 			}
 			if (statusFilter) {
 				activeFilters.push(`Status: {cyan-fg}${statusFilter}{/}`);
@@ -596,10 +656,12 @@ export async function viewTaskEnhanced(
 					: "";
 				const labelsText = task.labels?.length ? ` {yellow-fg}[${task.labels.join(", ")}]{/}` : "";
 				const priorityText = getPriorityDisplay(task.priority);
+				const progress = subtaskProgress.get(task.id);
+				const progressText = progress ? ` {gray-fg}[${formatSubtaskProgress(progress)}]{/}` : "";
 				const isCrossBranch = Boolean((task as Task & { branch?: string }).branch);
 				const branchText = isCrossBranch ? ` {green-fg}(${(task as Task & { branch?: string }).branch}){/}` : "";
 
-				const content = `{${statusColor}-fg}${statusIcon}{/} {bold}${task.id}{/bold} - ${task.title}${priorityText}${assigneeText}${labelsText}${branchText}`;
+				const content = `{${statusColor}-fg}${statusIcon}{/} {bold}${task.id}{/bold} - ${task.title}${progressText}${priorityText}${assigneeText}${labelsText}${branchText}`;
 				// Dim cross-branch tasks to indicate read-only status
 				return isCrossBranch ? `{gray-fg}${content}{/}` : content;
 			},
@@ -610,6 +672,20 @@ export async function viewTaskEnhanced(
 			onHighlight: (selected: Task | null) => {
 				void applySelection(selected);
 			},
+			tree: treeView
+				? {
+						depth: (task) => treeRows.get(task.id)?.depth ?? 0,
+						hasChildren: (task) => treeRows.get(task.id)?.hasChildren ?? false,
+						isCollapsed: (task) => treeRows.get(task.id)?.collapsed ?? false,
+						onToggle: (task) => {
+							if (!collapsedTaskIds.delete(task.id)) {
+								collapsedTaskIds.add(task.id);
+							}
+							applyFilters();
+							focusTaskList();
+						},
+					}
+				: undefined,
 			showHelp: false,
 		});
 
@@ -749,7 +825,7 @@ export async function viewTaskEnhanced(
 
 		screen.title = `Task ${currentSelectedTask.id} - ${currentSelectedTask.title}`;
 
-		const detailContent = generateDetailContent(currentSelectedTask);
+		const detailContent = generateDetailContent(currentSelectedTask, queryContext.customFields, contentStore);
 
 		// Calculate header height based on content and available width
 		const detailPaneWidth = typeof detailPane.width === "number" ? detailPane.width : 60;
@@ -821,8 +897,9 @@ export async function viewTaskEnhanced(
 			content = " {cyan-fg}[←]{/} Task List | {cyan-fg}[↑↓]{/} Scroll | {cyan-fg}[q/Esc]{/} Quit";
 		} else {
 			// Task list help
-			content =
-				" {cyan-fg}[Tab]{/} Switch View | {cyan-fg}[/]{/} Search | {cyan-fg}[s]{/} Status | {cyan-fg}[p]{/} Priority | {cyan-fg}[l]{/} Labels | {cyan-fg}[↑↓]{/} Navigate | {cyan-fg}[q/Esc]{/} Quit";
+			const savedViews = options.onSavedViewCycle ? " | {cyan-fg}[v]{/} Saved Views" : "";
+			const tree = treeView ? " | {cyan-fg}[t]{/} Flat | {cyan-fg}[Space]{/} Fold" : " | {cyan-fg}[t]{/} Tree";
+			content = ` {cyan-fg}[Tab]{/} Switch View | {cyan-fg}[/]{/} Search | {cyan-fg}[s]{/} Status | {cyan-fg}[p]{/} Priority | {cyan-fg}[l]{/} Labels${savedViews}${tree} | {cyan-fg}[↑↓]{/} Navigate | {cyan-fg}[q/Esc]{/} Quit`;
 		}
 
 		helpBar.setContent(content);
@@ -864,6 +941,30 @@ export async function viewTaskEnhanced(
 		openLabelPicker();
 	});
 
+	// Cycle through the views saved in backlog/views.yml
+	screen.key(["v", "V"], () => {
+		if (!options.onSavedViewCycle || currentFocus !== "list") return;
+		activeView = options.onSavedViewCycle();
+		searchQuery = activeView?.query ?? "";
+		filterHeader.setFilters({ search: searchQuery });
+		applyFilters();
+		notifyFilterChange();
+		if (taskList) {
+			focusTaskList();
+		}
+		screen.render();
+	});
+
+	// Nest subtasks under their parents, or back to a flat list
+	screen.key(["t", "T"], () => {
+		if (currentFocus !== "list") return;
+		treeView = !treeView;
+		options.onTreeViewChange?.(treeView);
+		applyFilters();
+		focusTaskList();
+		updateHelpBar();
+	});
+
 	screen.key(["escape"], () => {
 		if (currentFocus === "filters") {
 			filterHeader.setBorderColor("cyan");
@@ -945,7 +1046,11 @@ export async function viewTaskEnhanced(
 	});
 }
 
-function generateDetailContent(task: Task): { headerContent: string[]; bodyContent: string[] } {
+function generateDetailContent(
+	task: Task,
+	customFields?: CustomFieldDefinition[],
+	store?: ContentStore | null,
+): { headerContent: string[]; bodyContent: string[] } {
 	const headerContent = [
 		` {${getStatusColor(task.status)}-fg}${formatStatusWithIcon(task.status)}{/} {bold}{blue-fg}${task.id}{/blue-fg}{/bold} - ${task.title}`,
 	];
@@ -967,6 +1072,12 @@ function generateDetailContent(task: Task): { headerContent: string[]; bodyConte
 	if (task.updatedDate && task.updatedDate !== task.createdDate) {
 		metadata.push(`{bold}Updated:{/bold} ${formatDateForDisplay(task.updatedDate)}`);
 	}
+	if (task.startDate) {
+		metadata.push(`{bold}Start:{/bold} ${formatDateForDisplay(task.startDate)}`);
+	}
+	if (task.dueDate) {
+		metadata.push(`{bold}Due:{/bold} ${formatDateForDisplay(task.dueDate)}`);
+	}
 	if (task.priority) {
 		const priorityDisplay = getPriorityDisplay(task.priority);
 		const priorityText = task.priority.charAt(0).toUpperCase() + task.priority.slice(1);
@@ -995,10 +1106,25 @@ function generateDetailContent(task: Task): { headerContent: string[]; bodyConte
 	if (task.dependencies?.length) {
 		metadata.push(`{bold}Dependencies:{/bold} ${task.dependencies.join(", ")}`);
 	}
+	if (task.attachments?.length) {
+		metadata.push(`{bold}Attachments:{/bold} ${task.attachments.join(", ")}`);
+	}
+	for (const field of listTaskCustomFields(task, customFields)) {
+		metadata.push(`{bold}${field.label}:{/bold} ${field.value}`);
+	}
 
 	bodyContent.push(metadata.join("\n"));
 	bodyContent.push("");
 
+	// Inverse relations need the other tasks; without the store only stored ones are known
+	const relations = store ? store.getTaskRelations(task.id) : (buildRelationIndex([task]).get(task.id) ?? []);
+	if (relations.length > 0) {
+		bodyContent.push(formatHeading("Relations", 2));
+		const lines = formatTaskRelations(relations, store?.getTasks() ?? []);
+		bodyContent.push(lines.map((line) => line.replace(/^([^:]+):/, "{bold}$1:{/bold}")).join("\n"));
+		bodyContent.push("");
+	}
+
 	bodyContent.push(formatHeading("Description", 2));
 	const descriptionText = task.description?.trim();
 	const descriptionContent = descriptionText
@@ -1043,6 +1169,27 @@ function generateDetailContent(task: Task): { headerContent: string[]; bodyConte
 		bodyContent.push("");
 	}
 
+	if (task.comments?.length) {
+		bodyContent.push(formatHeading(`Comments (${task.comments.length})`, 2));
+		const visit = (thread: CommentThread, depth: number) => {
+			const indent = "  ".repeat(depth);
+			const { comment } = thread;
+			bodyContent.push(
+				`${indent}{bold}#${comment.id}{/bold} {cyan-fg}${formatCommentAuthor(comment.author)}{/} {gray-fg}${comment.date}{/}`,
+			);
+			for (const line of transformCodePaths(comment.body).split("\n")) {
+				bodyContent.push(`${indent}  ${line}`);
+			}
+			for (const reply of thread.replies) {
+				visit(reply, depth + 1);
+			}
+		};
+		for (const thread of buildCommentThreads(task.comments)) {
+			visit(thread, 0);
+		}
+		bodyContent.push("");
+	}
+
 	return { headerContent, bodyContent };
 }
 
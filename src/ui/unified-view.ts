@@ -3,8 +3,9 @@
  */
 
 import type { Core } from "../core/backlog.ts";
-import type { Task } from "../types/index.ts";
+import type { SavedView, Task } from "../types/index.ts";
 import { watchConfig } from "../utils/config-watcher.ts";
+import { isTaskId } from "../utils/task-prefix.ts";
 import { watchTasks } from "../utils/task-watcher.ts";
 import { renderBoardTui } from "./board.ts";
 import { createLoadingScreen } from "./loading.ts";
@@ -29,7 +30,11 @@ export interface UnifiedViewOptions {
 		filterDescription?: string;
 		searchQuery?: string;
 		parentTaskId?: string;
+		/** Start the task list with subtasks nested under their parents */
+		tree?: boolean;
 	};
+	/** Saved view to start the task list with */
+	savedView?: SavedView;
 	preloadedKanbanData?: {
 		tasks: Task[];
 		statuses: string[];
@@ -101,7 +106,7 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 			loadingScreenFactory: options.loadingScreenFactory,
 		});
 
-		const baseTasks = (loadedTasks || []).filter((t) => t.id && t.id.trim() !== "" && t.id.startsWith("task-"));
+		const baseTasks = (loadedTasks || []).filter((t) => t.id && t.id.trim() !== "" && isTaskId(t.id));
 		if (baseTasks.length === 0) {
 			if (options.filter?.parentTaskId) {
 				console.log(`No child tasks found for parent task ${options.filter.parentTaskId}.`);
@@ -115,6 +120,7 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 			selectedTask: options.selectedTask,
 			tasks: baseTasks,
 			filter: options.filter,
+			savedView: options.savedView,
 			// Initialize kanban data if starting with kanban view
 			kanbanData:
 				options.initialView === "kanban"
@@ -134,8 +140,7 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 		let kanbanStatuses = loadedStatuses ?? [];
 		let boardUpdater: ((nextTasks: Task[], nextStatuses: string[]) => void) | null = null;
 
-		const getRenderableTasks = () =>
-			tasks.filter((task) => task.id && task.id.trim() !== "" && task.id.startsWith("task-"));
+		const getRenderableTasks = () => tasks.filter((task) => task.id && task.id.trim() !== "" && isTaskId(task.id));
 
 		const emitBoardUpdate = () => {
 			if (!boardUpdater) return;
@@ -150,11 +155,15 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 			priorityFilter: options.filter?.priority || "",
 			labelFilter: options.filter?.labels || [],
 		};
+		let treeView = Boolean(options.filter?.tree);
+
+		const savedViews = await options.core.filesystem.listViews().catch(() => []);
 
 		// Create view switcher (without problematic onViewChange callback)
 		viewSwitcher = new ViewSwitcher({
 			core: options.core,
 			initialState,
+			savedViews,
 		});
 		const watcher = watchTasks(options.core, {
 			onTaskAdded(task) {
@@ -206,7 +215,7 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 
 		// Function to show task view
 		const showTaskView = async (): Promise<ViewResult> => {
-			const availableTasks = tasks.filter((t) => t.id && t.id.trim() !== "" && t.id.startsWith("task-"));
+			const availableTasks = tasks.filter((t) => t.id && t.id.trim() !== "" && isTaskId(t.id));
 
 			if (availableTasks.length === 0) {
 				console.log("No tasks available.");
@@ -251,8 +260,14 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 					statusFilter: currentFilters.statusFilter,
 					priorityFilter: currentFilters.priorityFilter,
 					labelFilter: currentFilters.labelFilter,
+					treeView,
+					onTreeViewChange: (enabled) => {
+						treeView = enabled;
+					},
 					startWithDetailFocus: currentView === "task-detail",
 					startWithSearchFocus: shouldFocusSearch,
+					savedView: viewSwitcher?.getState().savedView,
+					onSavedViewCycle: savedViews.length > 0 ? () => viewSwitcher?.cycleSavedView().savedView ?? null : undefined,
 					onTaskChange: (newTask) => {
 						selectedTask = newTask;
 						currentView = "task-detail";
@@ -303,6 +318,7 @@ export async function runUnifiedView(options: UnifiedViewOptions): Promise<void>
 					},
 					milestoneMode: options.milestoneMode,
 					milestones: options.milestones,
+					wipLimits: config?.wipLimits,
 				}).then(() => {
 					// If user wants to exit, do it immediately
 					if (result === "exit") {
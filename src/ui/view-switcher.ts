@@ -4,7 +4,8 @@
  */
 
 import type { Core } from "../core/backlog.ts";
-import type { Task } from "../types/index.ts";
+import { groupViewTasks, sortViewTasks } from "../core/views.ts";
+import type { CustomFieldDefinition, SavedView, Task } from "../types/index.ts";
 
 export type ViewType = "task-list" | "task-detail" | "kanban";
 
@@ -22,6 +23,8 @@ export interface ViewState {
 		searchQuery?: string;
 		parentTaskId?: string;
 	};
+	/** Saved view applied to the task list, if any */
+	savedView?: SavedView;
 	kanbanData?: {
 		tasks: Task[];
 		statuses: string[];
@@ -33,9 +36,34 @@ export interface ViewState {
 export interface ViewSwitcherOptions {
 	core: Core;
 	initialState: ViewState;
+	/** Views from `backlog/views.yml` that can be cycled through in the task list */
+	savedViews?: SavedView[];
 	onViewChange?: (newState: ViewState) => void;
 }
 
+/**
+ * Order tasks the way a saved view sorts and groups them. Tasks that appear
+ * in several assignee or label groups keep their first position.
+ */
+export function orderTasksForSavedView(
+	tasks: Task[],
+	view: SavedView,
+	statuses: string[] = [],
+	customFields: CustomFieldDefinition[] = [],
+): Task[] {
+	const sorted = sortViewTasks(tasks, view.sort, statuses, customFields);
+	const seen = new Set<string>();
+	const ordered: Task[] = [];
+	for (const group of groupViewTasks(sorted, view.groupBy, { statuses })) {
+		for (const task of group.tasks) {
+			if (seen.has(task.id)) continue;
+			seen.add(task.id);
+			ordered.push(task);
+		}
+	}
+	return ordered;
+}
+
 /**
  * Background loading state for kanban board data
  */
@@ -189,9 +217,11 @@ export class ViewSwitcher {
 	private state: ViewState;
 	private backgroundLoader: BackgroundLoader;
 	private onViewChange?: (newState: ViewState) => void;
+	private savedViews: SavedView[];
 
 	constructor(options: ViewSwitcherOptions) {
 		this.state = options.initialState;
+		this.savedViews = options.savedViews ?? [];
 		this.backgroundLoader = new BackgroundLoader(options.core);
 		this.onViewChange = options.onViewChange;
 
@@ -311,6 +341,33 @@ export class ViewSwitcher {
 		return this.state;
 	}
 
+	getSavedViews(): SavedView[] {
+		return [...this.savedViews];
+	}
+
+	/**
+	 * Apply a saved view to the task list, or clear it with null. The view's
+	 * query replaces the current search text.
+	 */
+	selectSavedView(view: SavedView | null): ViewState {
+		this.state = {
+			...this.state,
+			savedView: view ?? undefined,
+			filter: { ...this.state.filter, searchQuery: view?.query ?? "" },
+		};
+		this.onViewChange?.(this.state);
+		return this.state;
+	}
+
+	/**
+	 * Move to the next saved view, or back to the unfiltered list after the last one
+	 */
+	cycleSavedView(): ViewState {
+		const current = this.state.savedView?.name.toLowerCase();
+		const index = current ? this.savedViews.findIndex((view) => view.name.toLowerCase() === current) : -1;
+		return this.selectSavedView(this.savedViews[index + 1] ?? null);
+	}
+
 	/**
 	 * Check if kanban data is ready for instant switching
 	 */
@@ -0,0 +1,54 @@
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * line breaks. A leading byte order mark is ignored and blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	const input = text.startsWith("﻿") ? text.slice(1) : text;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== "") rows.push(row);
+		row = [];
+		field = "";
+	};
+
+	for (let index = 0; index < input.length; index++) {
+		const char = input[index];
+		if (quoted) {
+			if (char === '"' && input[index + 1] === '"') {
+				field += '"';
+				index++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+			continue;
+		}
+		if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[index + 1] === "\n") index++;
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+	if (field !== "" || row.length > 0) endRow();
+	return rows;
+}
+
+function formatCsvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsv(rows: string[][]): string {
+	return `${rows.map((row) => row.map(formatCsvField).join(",")).join("\n")}\n`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Parse and format effort durations such as "2h", "1h 30m", "1.5h" or "1d".
+ *
+ * Durations are stored as normalized strings in task frontmatter and handled
+ * as whole minutes everywhere else. A day is a working day (8h) and a week is
+ * five working days, matching how estimates are usually given.
+ */
+
+const MINUTES_PER_UNIT: Record<string, number> = {
+	m: 1,
+	h: 60,
+	d: 8 * 60,
+	w: 5 * 8 * 60,
+};
+
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*([wdhm])/gi;
+
+/**
+ * Parse a duration into minutes. Bare numbers are read as hours.
+ * Returns null when the input is empty or not a valid duration.
+ */
+export function parseDuration(input: string | number | null | undefined): number | null {
+	if (input === null || input === undefined) return null;
+	if (typeof input === "number") {
+		return Number.isFinite(input) && input >= 0 ? Math.round(input * 60) : null;
+	}
+
+	const value = input.trim().toLowerCase();
+	if (!value) return null;
+
+	if (/^\d+(?:\.\d+)?$/.test(value)) {
+		return Math.round(Number.parseFloat(value) * 60);
+	}
+
+	// Every character must belong to a "<number><unit>" part
+	if (!/^(\s*\d+(?:\.\d+)?\s*[wdhm])+\s*$/.test(value)) {
+		return null;
+	}
+
+	let total = 0;
+	for (const match of value.matchAll(DURATION_PART)) {
+		const amount = Number.parseFloat(match[1] ?? "0");
+		const unit = (match[2] ?? "m").toLowerCase();
+		total += amount * (MINUTES_PER_UNIT[unit] ?? 1);
+	}
+	return Math.round(total);
+}
+
+/**
+ * Format minutes as "2h 30m". Days are not used on output so that the
+ * value never depends on the working-day convention.
+ */
+export function formatDuration(minutes: number): string {
+	const rounded = Math.max(0, Math.round(minutes));
+	const hours = Math.floor(rounded / 60);
+	const rest = rounded % 60;
+	if (hours === 0) return `${rest}m`;
+	if (rest === 0) return `${hours}h`;
+	return `${hours}h ${rest}m`;
+}
+
+/**
+ * Validate and normalize a duration string for storage.
+ * Throws when the value cannot be parsed.
+ */
+export function normalizeDuration(input: string | number, label = "Duration"): string {
+	const minutes = parseDuration(input);
+	if (minutes === null) {
+		throw new Error(`${label} must be a duration like 30m, 2h, 1h 30m or 1d. Received: ${input}`);
+	}
+	return formatDuration(minutes);
+}
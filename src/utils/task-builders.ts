@@ -1,5 +1,6 @@
 import type { Core } from "../core/backlog.ts";
 import { normalizeTaskId, taskIdsEqual } from "./task-path.ts";
+import { DEFAULT_TASK_PREFIX } from "./task-prefix.ts";
 
 /**
  * Shared utilities for building tasks and validating dependencies
@@ -10,13 +11,13 @@ import { normalizeTaskId, taskIdsEqual } from "./task-path.ts";
  * Normalize dependencies to proper task-X format
  * Handles both array and comma-separated string inputs
  */
-export function normalizeDependencies(dependencies: unknown): string[] {
+export function normalizeDependencies(dependencies: unknown, prefix = DEFAULT_TASK_PREFIX): string[] {
 	if (!dependencies) return [];
 	const normalizeList = (values: string[]): string[] =>
 		values
 			.map((value) => value.trim())
 			.filter((value): value is string => value.length > 0)
-			.map((value) => normalizeTaskId(value));
+			.map((value) => normalizeTaskId(value, prefix));
 
 	if (Array.isArray(dependencies)) {
 		return normalizeList(
@@ -82,6 +83,26 @@ export function processAcceptanceCriteriaOptions(options: {
 	return criteria;
 }
 
+/**
+ * Resolve the author for history and worklog entries: the configured default
+ * assignee or reporter, falling back to the git user name.
+ */
+export async function resolveDefaultAuthor(core: Core): Promise<string | undefined> {
+	const config = await core.filesystem.loadConfig();
+	if (config?.defaultAssignee) {
+		return config.defaultAssignee;
+	}
+	if (config?.defaultReporter) {
+		return config.defaultReporter;
+	}
+	try {
+		const user = await core.gitOps.getCurrentUser();
+		return user || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
 /**
  * Normalize a list of string values by trimming whitespace, dropping empties, and deduplicating.
  * Returns `undefined` when the resulting list is empty so callers can skip optional updates.
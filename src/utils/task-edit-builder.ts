@@ -80,6 +80,15 @@ export function buildTaskUpdateInput(args: TaskEditArgs): TaskUpdateInput {
 		updateInput.dependencies = dependencies;
 	}
 
+	if (args.relationsAdd && Object.keys(args.relationsAdd).length > 0) {
+		updateInput.addRelations = args.relationsAdd;
+	}
+
+	const relationsRemove = sanitizeStringArray(args.relationsRemove);
+	if (relationsRemove) {
+		updateInput.removeRelations = relationsRemove;
+	}
+
 	const planSet = args.planSet ?? args.implementationPlan;
 	if (typeof planSet === "string") {
 		updateInput.implementationPlan = planSet;
@@ -151,5 +160,33 @@ export function buildTaskUpdateInput(args: TaskEditArgs): TaskUpdateInput {
 		updateInput.addToHistory = args.historyEntry;
 	}
 
+	if (args.estimate !== undefined) {
+		updateInput.estimate = args.estimate;
+	}
+
+	if (args.remaining !== undefined) {
+		updateInput.remaining = args.remaining;
+	}
+
+	if (args.startDate !== undefined) {
+		updateInput.startDate = args.startDate;
+	}
+
+	if (args.dueDate !== undefined) {
+		updateInput.dueDate = args.dueDate;
+	}
+
+	if (args.worklogEntry) {
+		updateInput.addWorklog = args.worklogEntry;
+	}
+
+	if (args.commentEntry) {
+		updateInput.addComment = args.commentEntry;
+	}
+
+	if (args.customFields && Object.keys(args.customFields).length > 0) {
+		updateInput.customFields = args.customFields;
+	}
+
 	return updateInput;
 }
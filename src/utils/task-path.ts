@@ -1,5 +1,6 @@
 import { join } from "node:path";
 import { Core } from "../core/backlog.ts";
+import { DEFAULT_TASK_PREFIX, hasTaskPrefix, stripTaskPrefix, taskIdFromFilename } from "./task-prefix.ts";
 
 // Interface for task path resolution context
 interface TaskPathContext {
@@ -9,27 +10,38 @@ interface TaskPathContext {
 }
 
 /**
- * Normalize a task ID by ensuring the "task-" prefix is present (case-insensitive)
- * while preserving the numeric/content portion as provided.
+ * Normalize a task ID by giving it `prefix` (the project's `task_prefix`, "task"
+ * by default) in place of whatever prefix it had, case-insensitively, while
+ * preserving the numeric/content portion as provided.
  */
-export function normalizeTaskId(taskId: string): string {
+export function normalizeTaskId(taskId: string, prefix: string = DEFAULT_TASK_PREFIX): string {
 	const trimmed = taskId.trim();
-	const match = trimmed.match(/^task-(.+)$/i);
-	const body = match ? match[1] : trimmed;
-	return `task-${body}`;
+	// Ids such as `task-draft` keep their body even though it is not a number
+	if (hasTaskPrefix(trimmed, prefix)) {
+		return `${prefix}-${trimmed.slice(prefix.length + 1)}`;
+	}
+	return `${prefix}-${stripTaskPrefix(trimmed)}`;
 }
 
 function extractTaskBody(value: string): string | null {
 	const trimmed = value.trim();
 	if (trimmed === "") return "";
-	const match = trimmed.match(/^(?:task-)?([0-9]+(?:\.[0-9]+)*)$/i);
+	const match = stripTaskPrefix(trimmed).match(/^([0-9]+(?:\.[0-9]+)*)$/);
 	return match?.[1] ?? null;
 }
 
-function extractTaskIdFromFilename(filename: string): string | null {
-	const match = filename.match(/^task-([0-9]+(?:\.[0-9]+)*)/i);
-	if (!match || !match[1]) return null;
-	return normalizeTaskId(`task-${match[1]}`);
+/**
+ * Task files in `dir`: numbered ones whatever their prefix, and any file
+ * starting with `prefix` and a dash
+ */
+export async function listTaskFiles(dir: string, prefix: string = DEFAULT_TASK_PREFIX): Promise<string[]> {
+	const files = await Array.fromAsync(new Bun.Glob("*.md").scan({ cwd: dir }));
+	return files.filter((file) => taskIdFromFilename(file) !== null || hasTaskPrefix(file, prefix));
+}
+
+/** The project's prefix when resolving through Core; the default for a bare tasks directory */
+async function getContextPrefix(core: Core | TaskPathContext): Promise<string> {
+	return core instanceof Core ? await core.filesystem.getTaskPrefix() : DEFAULT_TASK_PREFIX;
 }
 
 export function taskIdsEqual(left: string, right: string): boolean {
@@ -48,8 +60,23 @@ export function taskIdsEqual(left: string, right: string): boolean {
 	return normalizeTaskId(left).toLowerCase() === normalizeTaskId(right).toLowerCase();
 }
 
+/**
+ * Map key under which ids that `taskIdsEqual` treats as the same task (`task-3`,
+ * `TASK-03`, `3`) coincide
+ */
+export function taskIdKey(taskId: string): string {
+	const body = extractTaskBody(taskId);
+	if (body) {
+		return body
+			.split(".")
+			.map((seg) => Number.parseInt(seg, 10))
+			.join(".");
+	}
+	return normalizeTaskId(taskId).toLowerCase();
+}
+
 function idsMatchLoosely(inputId: string, filename: string): boolean {
-	const candidate = extractTaskIdFromFilename(filename);
+	const candidate = taskIdFromFilename(filename);
 	if (!candidate) return false;
 	return taskIdsEqual(inputId, candidate);
 }
@@ -61,8 +88,9 @@ export async function getTaskPath(taskId: string, core?: Core | TaskPathContext)
 	const coreInstance = core || new Core(process.cwd());
 
 	try {
-		const files = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: coreInstance.filesystem.tasksDir }));
-		const normalizedId = normalizeTaskId(taskId);
+		const prefix = await getContextPrefix(coreInstance);
+		const files = await listTaskFiles(coreInstance.filesystem.tasksDir, prefix);
+		const normalizedId = normalizeTaskId(taskId, prefix);
 		// First try exact prefix match for speed
 		let taskFile = files.find((f) => f.startsWith(`${normalizedId} -`) || f.startsWith(`${normalizedId}-`));
 
@@ -87,8 +115,9 @@ export async function getTaskPath(taskId: string, core?: Core | TaskPathContext)
 export async function getDraftPath(taskId: string, core: Core): Promise<string | null> {
 	try {
 		const draftsDir = await core.filesystem.getDraftsDir();
-		const files = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: draftsDir }));
-		const normalizedId = normalizeTaskId(taskId);
+		const prefix = await core.filesystem.getTaskPrefix();
+		const files = await listTaskFiles(draftsDir, prefix);
+		const normalizedId = normalizeTaskId(taskId, prefix);
 		// First exact match
 		let draftFile = files.find((f) => f.startsWith(`${normalizedId} -`) || f.startsWith(`${normalizedId}-`));
 		// Fallback to loose numeric match ignoring leading zeros
@@ -113,8 +142,9 @@ export async function getTaskFilename(taskId: string, core?: Core | TaskPathCont
 	const coreInstance = core || new Core(process.cwd());
 
 	try {
-		const files = await Array.fromAsync(new Bun.Glob("task-*.md").scan({ cwd: coreInstance.filesystem.tasksDir }));
-		const normalizedId = normalizeTaskId(taskId);
+		const prefix = await getContextPrefix(coreInstance);
+		const files = await listTaskFiles(coreInstance.filesystem.tasksDir, prefix);
+		const normalizedId = normalizeTaskId(taskId, prefix);
 		// First exact match
 		let taskFile = files.find((f) => f.startsWith(`${normalizedId} -`) || f.startsWith(`${normalizedId}-`));
 		if (!taskFile) {
@@ -0,0 +1,42 @@
+import type { BacklogConfig } from "../types/index.ts";
+
+/** Task ids look like `task-12` unless config.yml sets `task_prefix` */
+export const DEFAULT_TASK_PREFIX = "task";
+
+// Any prefix followed by a dash and a number: `task-12`, `BACK-3.1`
+const PREFIXED_ID = /^[A-Za-z][A-Za-z0-9]*-(?=[0-9])/;
+
+/** Letters and digits, starting with a letter: `task`, `BACK`, `web2` */
+export function isValidTaskPrefix(prefix: string): boolean {
+	return /^[A-Za-z][A-Za-z0-9]*$/.test(prefix);
+}
+
+/** The prefix new task ids get in a project; a missing or invalid value means the default */
+export function resolveTaskPrefix(config?: Pick<BacklogConfig, "taskPrefix"> | null): string {
+	const prefix = config?.taskPrefix?.trim() ?? "";
+	return isValidTaskPrefix(prefix) ? prefix : DEFAULT_TASK_PREFIX;
+}
+
+/** Whether `id` starts with `prefix` and a dash, in any case */
+export function hasTaskPrefix(id: string, prefix: string): boolean {
+	return id.toLowerCase().startsWith(`${prefix.toLowerCase()}-`);
+}
+
+/**
+ * `12` for `task-12`, `BACK-12` or `12`: ids are read whatever their prefix,
+ * so only new ids depend on the configured one
+ */
+export function stripTaskPrefix(id: string): string {
+	return id.replace(PREFIXED_ID, "");
+}
+
+/** Whether `id` has the shape of a task id, a prefix and a number */
+export function isTaskId(id: string): boolean {
+	return PREFIXED_ID.test(id);
+}
+
+/** `task-12.1` for `task-12.1 - Title.md`, keeping the file's prefix; null for other files */
+export function taskIdFromFilename(filename: string): string | null {
+	const match = filename.match(/^([A-Za-z][A-Za-z0-9]*)-([0-9]+(?:\.[0-9]+)*)/);
+	return match ? `${match[1]}-${match[2]}` : null;
+}
@@ -5,6 +5,7 @@
 
 import Fuse from "fuse.js";
 import type { Task } from "../types/index.ts";
+import { stripTaskPrefix } from "./task-prefix.ts";
 
 interface TaskSearchOptions {
 	query?: string;
@@ -17,28 +18,20 @@ interface TaskSearchIndex {
 	search(options: TaskSearchOptions): Task[];
 }
 
-const TASK_ID_PREFIX = "task-";
-
 function createTaskIdVariants(id: string): string[] {
 	const segments = parseTaskIdSegments(id);
 	if (!segments) {
-		const normalized = id.startsWith(TASK_ID_PREFIX) ? id : `${TASK_ID_PREFIX}${id}`;
-		return id === normalized ? [normalized] : [normalized, id];
+		return [id];
 	}
+	// The id's own prefix, e.g. `task-` or `BACK-`
+	const prefix = id.slice(0, id.length - stripTaskPrefix(id).length);
 	const canonicalSuffix = segments.join(".");
-	const variants = new Set<string>();
-	const normalized = id.startsWith(TASK_ID_PREFIX) ? id : `${TASK_ID_PREFIX}${id}`;
-	variants.add(normalized);
-	variants.add(`${TASK_ID_PREFIX}${canonicalSuffix}`);
-	variants.add(canonicalSuffix);
-	if (id !== normalized) {
-		variants.add(id);
-	}
+	const variants = new Set<string>([id, `${prefix}${canonicalSuffix}`, canonicalSuffix]);
 	return Array.from(variants);
 }
 
 function parseTaskIdSegments(value: string): number[] | null {
-	const withoutPrefix = value.startsWith(TASK_ID_PREFIX) ? value.slice(TASK_ID_PREFIX.length) : value;
+	const withoutPrefix = stripTaskPrefix(value);
 	if (!/^[0-9]+(?:\.[0-9]+)*$/.test(withoutPrefix)) {
 		return null;
 	}
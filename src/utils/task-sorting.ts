@@ -1,10 +1,12 @@
+import { stripTaskPrefix } from "./task-prefix.ts";
+
 /**
  * Parse a task ID into its numeric components for proper sorting.
  * Handles both simple IDs (task-5) and decimal IDs (task-5.2.1)
  */
 export function parseTaskId(taskId: string): number[] {
-	// Remove the "task-" prefix if present
-	const numericPart = taskId.replace(/^task-/, "");
+	// Remove the task id prefix ("task-" by default) if present
+	const numericPart = stripTaskPrefix(taskId);
 
 	// Try to extract numeric parts from the ID
 	// First check if it's a standard numeric ID (e.g., "1", "1.2", etc.)
@@ -2,6 +2,7 @@ import { type FSWatcher, watch } from "node:fs";
 import { join } from "node:path";
 import type { Core } from "../core/backlog.ts";
 import type { Task } from "../types/index.ts";
+import { isTaskId } from "./task-prefix.ts";
 
 export interface TaskWatcherCallbacks {
 	/** Called when a new task file is created */
@@ -27,7 +28,7 @@ export function watchTasks(core: Core, callbacks: TaskWatcherCallbacks): { stop:
 		} else if (filename != null) {
 			fileName = String(filename);
 		}
-		if (!fileName || !fileName.startsWith("task-") || !fileName.endsWith(".md")) {
+		if (!fileName || !isTaskId(fileName) || !fileName.endsWith(".md")) {
 			return;
 		}
 
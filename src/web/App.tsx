@@ -6,12 +6,16 @@ import DocumentationDetail from './components/DocumentationDetail';
 import DecisionDetail from './components/DecisionDetail';
 import TaskList from './components/TaskList';
 import DraftsList from './components/DraftsList';
+import ArchivePage from './components/ArchivePage';
 import Settings from './components/Settings';
 import Statistics from './components/Statistics';
 import MilestonesPage from './components/MilestonesPage';
+import TimelinePage from './components/TimelinePage';
+import ViewPage from './components/ViewPage';
 import TaskDetailsModal from './components/TaskDetailsModal';
 import InitializationScreen from './components/InitializationScreen';
 import { SuccessToast } from './components/SuccessToast';
+import { UndoToast } from './components/UndoToast';
 import { ThemeProvider } from './contexts/ThemeContext';
 import {
 	type Decision,
@@ -24,10 +28,11 @@ import {
 	type Task,
 	type TaskSearchResult,
 } from '../types';
-import { apiClient } from './lib/api';
+import { apiClient, type TaskWithWarnings } from './lib/api';
 import { useHealthCheckContext } from './contexts/HealthCheckContext';
 import { getWebVersion } from './utils/version';
 import { collectMilestoneIds } from './utils/milestones';
+import { stripTaskPrefix } from '../utils/task-prefix';
 
 function App() {
   const [showModal, setShowModal] = useState(false);
@@ -40,7 +45,10 @@ function App() {
   const [milestones, setMilestones] = useState<string[]>([]);
   const [milestoneEntities, setMilestoneEntities] = useState<Milestone[]>([]);
   const [showSuccessToast, setShowSuccessToast] = useState(false);
-  const [taskConfirmation, setTaskConfirmation] = useState<{task: Task, isDraft: boolean} | null>(null);
+  const [taskConfirmation, setTaskConfirmation] = useState<{task: TaskWithWarnings, isDraft: boolean} | null>(null);
+  const [undoableOperation, setUndoableOperation] = useState<{ id: string; operation: string; error?: string } | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const lastJournalIdRef = useRef<string | null | undefined>(undefined);
   
   // Initialization state
   const [isInitialized, setIsInitialized] = useState<boolean | null>(null);
@@ -224,19 +232,63 @@ function App() {
     }
   }, [tasks, editingTask, showModal]);
 
+  // Offer to undo the latest change; the first check only records where the journal stands
+  const checkJournal = useCallback(async () => {
+    try {
+      const journal = await apiClient.fetchJournal();
+      const latest = journal.undo[0];
+      const isFirstCheck = lastJournalIdRef.current === undefined;
+      if (latest && latest.id !== lastJournalIdRef.current && !isFirstCheck) {
+        setUndoableOperation({ id: latest.id, operation: latest.operation });
+      }
+      lastJournalIdRef.current = latest?.id ?? null;
+    } catch (error) {
+      console.error('Failed to load journal:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isInitialized === true) {
+      checkJournal();
+    }
+  }, [checkJournal, isInitialized]);
+
+  useEffect(() => {
+    if (!undoableOperation) return;
+    const timer = setTimeout(() => setUndoableOperation(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoableOperation]);
+
+  const handleUndo = async () => {
+    if (!undoableOperation) return;
+    setIsUndoing(true);
+    try {
+      await apiClient.undo(undoableOperation.id);
+      setUndoableOperation(null);
+      await refreshData();
+    } catch (error) {
+      console.error('Failed to undo:', error);
+      const message = error instanceof Error ? error.message : 'Failed to undo';
+      setUndoableOperation((current) => (current ? { ...current, error: message } : null));
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
   useEffect(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const ws = new WebSocket(`${protocol}//${window.location.host}`);
     ws.onmessage = (event) => {
       if (event.data === "tasks-updated") {
         refreshData();
+        checkJournal();
       } else if (event.data === "config-updated") {
         // Reload statuses when config changes
         loadAllData();
       }
     };
     return () => ws.close();
-  }, [refreshData, loadAllData]);
+  }, [checkJournal, refreshData, loadAllData]);
 
   const handleSubmitTask = async (taskData: Partial<Task>) => {
     // Don't catch errors here - let TaskDetailsModal handle them
@@ -327,6 +379,8 @@ function App() {
                 statuses={statuses}
                 milestones={milestones}
                 milestoneEntities={milestoneEntities}
+                wipLimits={config?.wipLimits}
+                timezonePreference={config?.timezonePreference}
                 isLoading={isLoading}
               />
             }
@@ -359,7 +413,24 @@ function App() {
               />
             }
           />
+            <Route
+              path="timeline"
+              element={
+                <TimelinePage
+                  tasks={tasks}
+                  milestoneEntities={milestoneEntities}
+                  timezonePreference={config?.timezonePreference}
+                  onEditTask={handleEditTask}
+                  onRefreshData={refreshData}
+                />
+              }
+            />
+            <Route
+              path="views/:name"
+              element={<ViewPage tasks={tasks} milestoneEntities={milestoneEntities} onEditTask={handleEditTask} />}
+            />
             <Route path="drafts" element={<DraftsList onEditTask={handleEditTask} onNewDraft={handleNewDraft} />} />
+            <Route path="archive" element={<ArchivePage statuses={statuses} onRefreshData={refreshData} />} />
             <Route path="documentation" element={<DocumentationDetail docs={docs} onRefreshData={refreshData} />} />
             <Route path="documentation/:id" element={<DocumentationDetail docs={docs} onRefreshData={refreshData} />} />
             <Route path="documentation/:id/:title" element={<DocumentationDetail docs={docs} onRefreshData={refreshData} />} />
@@ -387,7 +458,7 @@ function App() {
         {/* Task Creation Confirmation Toast */}
         {taskConfirmation && (
           <SuccessToast
-            message={`${taskConfirmation.isDraft ? 'Draft' : 'Task'} "${taskConfirmation.task.title}" created successfully! (${taskConfirmation.task.id.replace('task-', '')})`}
+            message={`${taskConfirmation.isDraft ? 'Draft' : 'Task'} "${taskConfirmation.task.title}" created successfully! (${stripTaskPrefix(taskConfirmation.task.id)})${taskConfirmation.task.warnings ? ` ${taskConfirmation.task.warnings.join(' ')}` : ''}`}
             onDismiss={() => setTaskConfirmation(null)}
             icon={
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -396,6 +467,16 @@ function App() {
             }
           />
         )}
+
+        {undoableOperation && (
+          <UndoToast
+            operation={undoableOperation.operation}
+            onUndo={handleUndo}
+            onDismiss={() => setUndoableOperation(null)}
+            isUndoing={isUndoing}
+            error={undoableOperation.error}
+          />
+        )}
       </BrowserRouter>
     </ThemeProvider>
   );
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { type Task } from "../../types";
+import { formatRestoreResult, type RestoreSource } from "../../core/restore";
+import { apiClient } from "../lib/api";
+
+interface ArchivePageProps {
+	statuses: string[];
+	onRefreshData?: () => Promise<void>;
+}
+
+type SourceFilter = "all" | RestoreSource;
+
+interface ArchivedRow {
+	task: Task;
+	from: RestoreSource;
+}
+
+// Newest first, like the task list
+const byIdDescending = (a: ArchivedRow, b: ArchivedRow) =>
+	b.task.id.localeCompare(a.task.id, undefined, { numeric: true });
+
+const matchesSearch = (task: Task, query: string) => {
+	if (!query) return true;
+	const haystack = [task.id, task.title, task.description ?? "", ...(task.labels ?? []), ...(task.assignee ?? [])]
+		.join(" ")
+		.toLowerCase();
+	return query
+		.toLowerCase()
+		.split(/\s+/)
+		.every((word) => haystack.includes(word));
+};
+
+const ArchivePage: React.FC<ArchivePageProps> = ({ statuses, onRefreshData }) => {
+	const [rows, setRows] = useState<ArchivedRow[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [message, setMessage] = useState<string | null>(null);
+	const [search, setSearch] = useState("");
+	const [source, setSource] = useState<SourceFilter>("all");
+	// Status picked per task; an empty value keeps the task's own status
+	const [restoreStatus, setRestoreStatus] = useState<Record<string, string>>({});
+	const [restoringId, setRestoringId] = useState<string | null>(null);
+
+	const loadArchive = useCallback(async () => {
+		try {
+			setLoading(true);
+			const { archived, completed } = await apiClient.fetchArchive();
+			setRows([
+				...archived.map((task) => ({ task, from: "archive" as const })),
+				...completed.map((task) => ({ task, from: "completed" as const })),
+			]);
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to load the archive");
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		loadArchive();
+	}, [loadArchive]);
+
+	const visibleRows = useMemo(
+		() =>
+			rows
+				.filter((row) => source === "all" || row.from === source)
+				.filter((row) => matchesSearch(row.task, search.trim()))
+				.sort(byIdDescending),
+		[rows, source, search],
+	);
+
+	const handleRestore = async (task: Task) => {
+		setRestoringId(task.id);
+		setMessage(null);
+		try {
+			const result = await apiClient.restoreTask(task.id, restoreStatus[task.id] || undefined);
+			setMessage(formatRestoreResult(result));
+			setError(null);
+			await loadArchive();
+			await onRefreshData?.();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to restore task");
+		} finally {
+			setRestoringId(null);
+		}
+	};
+
+	const counts = {
+		all: rows.length,
+		archive: rows.filter((row) => row.from === "archive").length,
+		completed: rows.filter((row) => row.from === "completed").length,
+	};
+
+	return (
+		<div className="container mx-auto px-4 py-8 transition-colors duration-200">
+			<div className="flex items-center justify-between mb-6">
+				<h1 className="text-2xl font-bold text-gray-900 dark:text-white">Archive</h1>
+				<div className="text-sm text-gray-600 dark:text-gray-300">
+					{visibleRows.length} task{visibleRows.length !== 1 ? "s" : ""}
+				</div>
+			</div>
+
+			<div className="flex flex-wrap items-center gap-3 mb-6">
+				<input
+					type="search"
+					value={search}
+					onChange={(e) => setSearch(e.target.value)}
+					placeholder="Search archived and completed tasks"
+					className="flex-1 min-w-[16rem] px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-400"
+				/>
+				<div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+					{(
+						[
+							["all", "All"],
+							["archive", "Archived"],
+							["completed", "Completed"],
+						] as const
+					).map(([value, label]) => (
+						<button
+							key={value}
+							type="button"
+							onClick={() => setSource(value)}
+							className={`px-3 py-2 transition-colors duration-200 ${
+								source === value
+									? "bg-blue-500 text-white"
+									: "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+							}`}
+						>
+							{label} ({counts[value]})
+						</button>
+					))}
+				</div>
+			</div>
+
+			{message && (
+				<div className="mb-4 px-4 py-2 text-sm rounded-md bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200">
+					{message}
+				</div>
+			)}
+			{error && (
+				<div className="mb-4 px-4 py-2 text-sm rounded-md bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+					{error}
+				</div>
+			)}
+
+			{loading ? (
+				<div className="text-gray-500 dark:text-gray-400">Loading archive...</div>
+			) : visibleRows.length === 0 ? (
+				<div className="text-center py-12">
+					<h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">No tasks</h3>
+					<p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+						{rows.length === 0
+							? "Archived and completed tasks will appear here."
+							: "No archived or completed task matches the search."}
+					</p>
+				</div>
+			) : (
+				<div className="space-y-3">
+					{visibleRows.map(({ task, from }) => (
+						<div
+							key={`${from}-${task.id}`}
+							className="flex items-start justify-between bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+						>
+							<div className="flex-1 min-w-0">
+								<div className="flex items-center gap-3 mb-1">
+									<span className="text-sm text-gray-500 dark:text-gray-400">{task.id}</span>
+									<h3 className="text-base font-medium text-gray-900 dark:text-white truncate">{task.title}</h3>
+								</div>
+								<div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+									<span
+										className={`px-2 py-0.5 rounded-circle ${
+											from === "archive"
+												? "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+												: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200"
+										}`}
+									>
+										{from === "archive" ? "Archived" : "Completed"}
+									</span>
+									<span>{task.status}</span>
+									{task.updatedDate && <span>Updated: {new Date(task.updatedDate).toLocaleDateString()}</span>}
+									{task.labels?.map((label) => (
+										<span key={label} className="px-2 py-0.5 bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 rounded-circle">
+											{label}
+										</span>
+									))}
+									{task.archivedDependents && task.archivedDependents.length > 0 && (
+										<span title="These tasks get their dependency back on restore">
+											Relinks {task.archivedDependents.join(", ")}
+										</span>
+									)}
+								</div>
+							</div>
+							<div className="ml-4 flex items-center gap-2">
+								<select
+									value={restoreStatus[task.id] ?? ""}
+									onChange={(e) => setRestoreStatus((current) => ({ ...current, [task.id]: e.target.value }))}
+									className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+									aria-label={`Status for ${task.id}`}
+								>
+									<option value="">Keep {task.status}</option>
+									{statuses
+										.filter((status) => status !== task.status)
+										.map((status) => (
+											<option key={status} value={status}>
+												{status}
+											</option>
+										))}
+								</select>
+								<button
+									type="button"
+									onClick={() => handleRestore(task)}
+									disabled={restoringId !== null}
+									className="inline-flex items-center px-3 py-1.5 bg-blue-500 text-white text-sm font-medium rounded-md hover:bg-blue-600 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-400 dark:focus:ring-offset-gray-800 transition-colors duration-200"
+								>
+									{restoringId === task.id ? "Restoring..." : "Restore"}
+								</button>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ArchivePage;
@@ -1,5 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { type Milestone, type Task } from '../../types';
+import { type Milestone, type Task, type WipLimitsConfig } from '../../types';
+import { type ColumnWipState, getColumnWipState, getWipLimit } from '../../core/wip-limits';
+import { getTodayInTimezone } from '../../core/due-dates';
 import { apiClient, type ReorderTaskPayload } from '../lib/api';
 import { buildLanes, DEFAULT_LANE_KEY, groupTasksByLaneAndStatus, type LaneMode } from '../lib/lanes';
 import TaskColumn from './TaskColumn';
@@ -19,6 +21,8 @@ interface BoardProps {
   laneMode: LaneMode;
   onLaneChange: (mode: LaneMode) => void;
   milestoneFilter?: string | null;
+  wipLimits?: WipLimitsConfig;
+  timezonePreference?: string;
 }
 
 const Board: React.FC<BoardProps> = ({
@@ -34,8 +38,11 @@ const Board: React.FC<BoardProps> = ({
   laneMode,
   onLaneChange,
   milestoneFilter,
+  wipLimits,
+  timezonePreference,
 }) => {
   const [updateError, setUpdateError] = useState<string | null>(null);
+  const [wipWarning, setWipWarning] = useState<string | null>(null);
   const [dragSourceStatus, setDragSourceStatus] = useState<string | null>(null);
   const [dragSourceLane, setDragSourceLane] = useState<string | null>(null);
   const [showCleanupModal, setShowCleanupModal] = useState(false);
@@ -48,6 +55,21 @@ const Board: React.FC<BoardProps> = ({
     return tasks.filter(task => task.milestone?.trim() === milestoneFilter.trim());
   }, [tasks, milestoneFilter]);
 
+  // WIP load counts every task in a status, regardless of lane or milestone filter
+  const wipStates = useMemo(() => {
+    const states: Record<string, ColumnWipState> = {};
+    for (const status of statuses) {
+      const limit = getWipLimit(wipLimits, status);
+      if (limit) {
+        states[status] = getColumnWipState(tasks.filter((task) => task.status === status), limit);
+      }
+    }
+    return states;
+  }, [tasks, statuses, wipLimits]);
+
+  // Due badges compare calendar days in the configured time zone
+  const today = useMemo(() => getTodayInTimezone(timezonePreference), [timezonePreference]);
+
   // Handle highlighting a task (opening its edit popup)
   useEffect(() => {
     if (highlightTaskId && tasks.length > 0) {
@@ -61,14 +83,23 @@ const Board: React.FC<BoardProps> = ({
     }
   }, [highlightTaskId, tasks, onEditTask]);
 
+  const showWipWarning = (warnings?: string[]) => {
+    if (!warnings || warnings.length === 0) return;
+    setWipWarning(warnings.join(' '));
+    setTimeout(() => {
+      setWipWarning(null);
+    }, 4000);
+  };
+
   const handleTaskUpdate = async (taskId: string, updates: Partial<Task>) => {
     try {
-      await apiClient.updateTask(taskId, updates);
+      const result = await apiClient.updateTask(taskId, updates);
       // Refresh data to reflect the changes
       if (onRefreshData) {
         await onRefreshData();
       }
       setUpdateError(null);
+      showWipWarning(result.warnings);
     } catch (err) {
       setUpdateError(err instanceof Error ? err.message : 'Failed to update task');
     }
@@ -76,12 +107,13 @@ const Board: React.FC<BoardProps> = ({
 
   const handleTaskReorder = async (payload: ReorderTaskPayload) => {
     try {
-      await apiClient.reorderTask(payload);
+      const result = await apiClient.reorderTask(payload);
       // Refresh data to reflect the changes
       if (onRefreshData) {
         await onRefreshData();
       }
       setUpdateError(null);
+      showWipWarning(result.warnings);
     } catch (err) {
       setUpdateError(err instanceof Error ? err.message : 'Failed to reorder task');
     }
@@ -224,6 +256,11 @@ const Board: React.FC<BoardProps> = ({
           {updateError}
         </div>
       )}
+      {wipWarning && (
+        <div className="mb-4 rounded-md bg-yellow-100 px-4 py-3 text-sm text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200 transition-colors duration-200">
+          {wipWarning}
+        </div>
+      )}
       <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
         <div className="flex items-center gap-4">
           <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 transition-colors duration-200">Kanban Board</h2>
@@ -324,6 +361,8 @@ const Board: React.FC<BoardProps> = ({
                             onTaskUpdate={handleTaskUpdate}
                             onEditTask={onEditTask}
                             onTaskReorder={handleTaskReorder}
+                            wipState={wipStates[status]}
+                            today={today}
                             dragSourceStatus={dragSourceStatus}
                             dragSourceLane={dragSourceLane}
                             laneId={lane.key}
@@ -358,6 +397,8 @@ const Board: React.FC<BoardProps> = ({
                   onTaskUpdate={handleTaskUpdate}
                   onEditTask={onEditTask}
                   onTaskReorder={handleTaskReorder}
+                  wipState={wipStates[status]}
+                  today={today}
                   dragSourceStatus={dragSourceStatus}
                   dragSourceLane={dragSourceLane}
                   laneId={DEFAULT_LANE_KEY}
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import Board from './Board';
-import { type Milestone, type Task } from '../../types';
+import { type Milestone, type Task, type WipLimitsConfig } from '../../types';
 import { type LaneMode } from '../lib/lanes';
 
 interface BoardPageProps {
@@ -12,10 +12,12 @@ interface BoardPageProps {
 	statuses: string[];
 	milestones: string[];
 	milestoneEntities: Milestone[];
+	wipLimits?: WipLimitsConfig;
+	timezonePreference?: string;
 	isLoading: boolean;
 }
 
-export default function BoardPage({ onEditTask, onNewTask, tasks, onRefreshData, statuses, milestones, milestoneEntities, isLoading }: BoardPageProps) {
+export default function BoardPage({ onEditTask, onNewTask, tasks, onRefreshData, statuses, milestones, milestoneEntities, wipLimits, timezonePreference, isLoading }: BoardPageProps) {
 	const [searchParams, setSearchParams] = useSearchParams();
 	const [highlightTaskId, setHighlightTaskId] = useState<string | null>(null);
 	const [laneMode, setLaneMode] = useState<LaneMode>('none');
@@ -85,6 +87,8 @@ export default function BoardPage({ onEditTask, onNewTask, tasks, onRefreshData,
 				statuses={statuses}
 				milestones={milestones}
 				milestoneEntities={milestoneEntities}
+				wipLimits={wipLimits}
+				timezonePreference={timezonePreference}
 				isLoading={isLoading}
 				laneMode={laneMode}
 				onLaneChange={handleLaneChange}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { apiClient } from '../lib/api';
 import { type Task } from '../../types';
+import { stripTaskPrefix } from '../../utils/task-prefix';
 
 interface DraftsListProps {
   onEditTask: (task: Task) => void;
@@ -37,8 +38,8 @@ const DraftsList: React.FC<DraftsListProps> = ({ onEditTask, onNewDraft }) => {
       // Sort drafts by ID descending (newest first) - same as TaskList
       const sortedDrafts = [...draftsData].sort((a, b) => {
         // Extract numeric part from task IDs (task-1, task-2, etc.)
-        const idA = parseInt(a.id.replace('task-', ''), 10);
-        const idB = parseInt(b.id.replace('task-', ''), 10);
+        const idA = parseInt(stripTaskPrefix(a.id), 10);
+        const idB = parseInt(stripTaskPrefix(b.id), 10);
         return idB - idA; // Highest ID first (newest)
       });
       setDrafts(sortedDrafts);
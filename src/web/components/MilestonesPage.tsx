@@ -3,6 +3,7 @@ import { Link } from "react-router-dom";
 import { apiClient } from "../lib/api";
 import { buildMilestoneBuckets } from "../utils/milestones";
 import { type Milestone, type MilestoneBucket, type Task } from "../../types";
+import { formatDuration } from "../../utils/duration";
 import Modal from "./Modal";
 
 interface MilestonesPageProps {
@@ -264,6 +265,15 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 								<span className="text-sm text-gray-500 dark:text-gray-400">
 									{bucket.total} task{bucket.total === 1 ? "" : "s"}
 								</span>
+								{(bucket.effort.estimatedMinutes > 0 || bucket.effort.loggedMinutes > 0) && (
+									<span
+										className="text-sm text-gray-500 dark:text-gray-400"
+										title={`${formatDuration(bucket.effort.estimatedMinutes)} estimated`}
+									>
+										{formatDuration(bucket.effort.loggedMinutes)} logged ·{" "}
+										{formatDuration(bucket.effort.remainingMinutes)} left
+									</span>
+								)}
 								<span className="text-lg font-bold text-emerald-600 dark:text-emerald-400">
 									{progress}%
 								</span>
@@ -6,6 +6,7 @@ import {
 	type DecisionSearchResult,
 	type Document,
 	type DocumentSearchResult,
+	type SavedView,
 	type SearchResult,
 	type Task,
 	type TaskSearchResult,
@@ -15,12 +16,13 @@ import { SidebarSkeleton } from './LoadingSpinner';
 import { sanitizeUrlTitle } from '../utils/urlHelpers';
 import { getWebVersion } from '../utils/version';
 import { apiClient } from '../lib/api';
+import { isTaskId, stripTaskPrefix } from '../../utils/task-prefix';
 
 // Utility functions for ID transformations
 const stripIdPrefix = (id: string): string => {
 	if (id.startsWith('doc-')) return id.replace('doc-', '');
 	if (id.startsWith('decision-')) return id.replace('decision-', '');
-	if (id.startsWith('task-')) return id.replace('task-', '');
+	if (isTaskId(id)) return stripTaskPrefix(id);
 	return id;
 };
 
@@ -46,6 +48,11 @@ const Icons = {
 			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
 		</svg>
 	),
+	Archive: () => (
+		<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+		</svg>
+	),
 	Document: () => (
 		<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
 			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
@@ -137,6 +144,17 @@ const Icons = {
 			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
 		</svg>
 	),
+	Timeline: () => (
+		<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h8M8 12h10M6 18h6" />
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3v18" />
+		</svg>
+	),
+	View: () => (
+		<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 8v6l-4 2v-8L3 4z" />
+		</svg>
+	),
 	Milestone: () => (
 		<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
 			<circle cx="12" cy="12" r="9" strokeWidth={2} />
@@ -190,6 +208,7 @@ const SideNavigation = memo(function SideNavigation({
 		return decisions.length > 6;
 	});
 	const [version, setVersion] = useState<string>('');
+	const [savedViews, setSavedViews] = useState<SavedView[]>([]);
 	const location = useLocation();
 	const navigate = useNavigate();
 
@@ -211,6 +230,11 @@ const SideNavigation = memo(function SideNavigation({
 		getWebVersion().then(setVersion).catch(() => setVersion(''));
 	}, []);
 
+	// Saved views from backlog/views.yml; refetched with the rest of the data
+	useEffect(() => {
+		apiClient.fetchViews().then(setSavedViews).catch(() => setSavedViews([]));
+	}, [tasks]);
+
 	// Save docs collapse state to localStorage
 	useEffect(() => {
 		localStorage.setItem('docsCollapsed', JSON.stringify(isDocsCollapsed));
@@ -537,6 +561,21 @@ const SideNavigation = memo(function SideNavigation({
 							<span className="ml-3 text-sm font-medium">Milestones</span>
 						</NavLink>
 
+						{/* Timeline Navigation */}
+						<NavLink
+							to="/timeline"
+							className={({ isActive }) =>
+								`flex items-center px-3 py-2 rounded-lg transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 font-medium'
+										: 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<Icons.Timeline />
+							<span className="ml-3 text-sm font-medium">Timeline</span>
+						</NavLink>
+
 						{/* Drafts Navigation */}
 						<NavLink
 							to="/drafts"
@@ -552,6 +591,21 @@ const SideNavigation = memo(function SideNavigation({
 							<span className="ml-3 text-sm font-medium">Drafts</span>
 						</NavLink>
 
+						{/* Archive Navigation */}
+						<NavLink
+							to="/archive"
+							className={({ isActive }) =>
+								`flex items-center px-3 py-2 rounded-lg transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 font-medium'
+										: 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<Icons.Archive />
+							<span className="ml-3 text-sm font-medium">Archive</span>
+						</NavLink>
+
 						{/* Statistics Navigation */}
 						<NavLink
 							to="/statistics"
@@ -571,6 +625,40 @@ const SideNavigation = memo(function SideNavigation({
 
 				{!isCollapsed && !isLoading && (
 					<>
+						{savedViews.length > 0 && (
+							<>
+								{/* Divider between Tasks and Saved Views */}
+								<div className="mx-4 my-2 border-t border-gray-200 dark:border-gray-700"></div>
+
+								{/* Saved Views Section */}
+								<div className="px-4 py-4">
+									<div className="flex items-center space-x-3 mb-4">
+										<span className="text-gray-500 dark:text-gray-400"><Icons.View /></span>
+										<span className="text-sm font-semibold uppercase tracking-wider text-gray-600 dark:text-gray-400 whitespace-nowrap">Views ({savedViews.length})</span>
+									</div>
+									<div className="space-y-1">
+										{savedViews.map((view) => (
+											<NavLink
+												key={view.name}
+												to={`/views/${encodeURIComponent(view.name)}`}
+												title={view.description || view.query}
+												className={({ isActive }) =>
+													`flex items-center space-x-3 px-3 py-2 text-sm rounded-lg transition-colors duration-200 ${
+														isActive
+															? 'bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 font-medium'
+															: 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+													}`
+												}
+											>
+												<span className="text-gray-400 dark:text-gray-500"><Icons.View /></span>
+												<span className="truncate">{view.name}</span>
+											</NavLink>
+										))}
+									</div>
+								</div>
+							</>
+						)}
+
 						{/* Divider between Tasks and Documents */}
 						<div className="mx-4 my-2 border-t border-gray-200 dark:border-gray-700"></div>
 						
@@ -739,6 +827,23 @@ const SideNavigation = memo(function SideNavigation({
 								<Icons.Draft />
 							</div>
 						</NavLink>
+						{/* Archive Navigation */}
+						<NavLink
+							to="/archive"
+							data-tooltip-id="sidebar-tooltip"
+							data-tooltip-content="Archive"
+							className={({ isActive }) =>
+								`flex items-center justify-center p-3 rounded-md transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-700 dark:text-blue-400'
+										: 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<div className="w-6 h-6 flex items-center justify-center">
+								<Icons.Archive />
+							</div>
+						</NavLink>
 						{/* Milestones Navigation */}
 						<NavLink
 							to="/milestones"
@@ -756,6 +861,23 @@ const SideNavigation = memo(function SideNavigation({
 								<Icons.Milestone />
 							</div>
 						</NavLink>
+						{/* Timeline Navigation */}
+						<NavLink
+							to="/timeline"
+							data-tooltip-id="sidebar-tooltip"
+							data-tooltip-content="Timeline"
+							className={({ isActive }) =>
+								`flex items-center justify-center p-3 rounded-md transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-700 dark:text-blue-400'
+										: 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<div className="w-6 h-6 flex items-center justify-center">
+								<Icons.Timeline />
+							</div>
+						</NavLink>
 						{/* Statistics Navigation */}
 						<NavLink
 							to="/statistics"
@@ -773,6 +895,22 @@ const SideNavigation = memo(function SideNavigation({
 								<Icons.Statistics />
 							</div>
 						</NavLink>
+						{savedViews.length > 0 && (
+							<button
+								onClick={() => setIsCollapsed(false)}
+								data-tooltip-id="sidebar-tooltip"
+								data-tooltip-content="Saved Views"
+								className={`flex items-center justify-center p-3 rounded-md transition-colors duration-200 w-full ${
+									location.pathname.startsWith('/views')
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-700 dark:text-blue-400'
+										: 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`}
+							>
+								<div className="w-6 h-6 flex items-center justify-center">
+									<Icons.View />
+								</div>
+							</button>
+						)}
 						<button
 							onClick={() => {
 								setIsCollapsed(false);
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../lib/api';
+import type { TaskMetrics } from '../../core/metrics';
 import type { TaskStatistics } from '../../core/statistics';
 import type { Task } from '../../types';
 import LoadingSpinner from './LoadingSpinner';
+import { BurndownChart, CumulativeFlowChart } from './TrendCharts';
+
+const TREND_RANGES = [14, 30, 90];
 
 interface StatisticsData extends Omit<TaskStatistics, 'statusCounts' | 'priorityCounts'> {
 	statusCounts: Record<string, number>;
@@ -21,6 +25,29 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const [loadingMessage, setLoadingMessage] = useState('Building statistics...');
+	const [metrics, setMetrics] = useState<TaskMetrics | null>(null);
+	const [metricsError, setMetricsError] = useState<string | null>(null);
+	const [trendDays, setTrendDays] = useState(30);
+	const [burndownKey, setBurndownKey] = useState<string | null>(null);
+
+	useEffect(() => {
+		let isMounted = true;
+		setMetricsError(null);
+		apiClient
+			.fetchMetrics({ days: trendDays })
+			.then((data) => {
+				if (isMounted) setMetrics(data);
+			})
+			.catch((err) => {
+				if (isMounted) {
+					console.error('Failed to fetch metrics:', err);
+					setMetricsError('Failed to load trends');
+				}
+			});
+		return () => {
+			isMounted = false;
+		};
+	}, [trendDays]);
 
 	useEffect(() => {
 		let isMounted = true;
@@ -332,6 +359,74 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 				</div>
 			</div>
 
+			{/* Trends: cumulative flow and burndown rebuilt from task history and git */}
+			<div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+				<div className="flex items-center justify-between mb-4">
+					<h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Trends</h3>
+					<div className="flex items-center gap-1 text-sm">
+						{TREND_RANGES.map((range) => (
+							<button
+								key={range}
+								type="button"
+								onClick={() => setTrendDays(range)}
+								className={`px-3 py-1 rounded-md transition-colors duration-200 ${
+									trendDays === range
+										? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
+										: 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+								}`}
+							>
+								{range}d
+							</button>
+						))}
+					</div>
+				</div>
+				{metricsError ? (
+					<p className="text-sm text-red-600 dark:text-red-400">{metricsError}</p>
+				) : !metrics ? (
+					<p className="text-sm text-gray-500 dark:text-gray-400">Loading trends...</p>
+				) : (
+					<div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+						<div>
+							<h4 className="font-medium text-gray-900 dark:text-gray-100 mb-3 text-sm">Cumulative Flow</h4>
+							<CumulativeFlowChart snapshots={metrics.cumulativeFlow} statuses={metrics.statuses} />
+						</div>
+						<div>
+							<div className="flex items-center justify-between mb-3">
+								<h4 className="font-medium text-gray-900 dark:text-gray-100 text-sm">Burndown</h4>
+								{metrics.burndown.length > 0 && (
+									<select
+										value={burndownKey ?? metrics.burndown[0]?.key}
+										onChange={(event) => setBurndownKey(event.target.value)}
+										className="text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1"
+									>
+										{metrics.burndown.map((entry) => (
+											<option key={entry.key} value={entry.key}>
+												{entry.label}
+											</option>
+										))}
+									</select>
+								)}
+							</div>
+							{(() => {
+								const selected =
+									metrics.burndown.find((entry) => entry.key === burndownKey) ?? metrics.burndown[0];
+								return selected ? (
+									<BurndownChart points={selected.points} />
+								) : (
+									<p className="text-sm text-gray-500 dark:text-gray-400">No tasks to chart yet</p>
+								);
+							})()}
+						</div>
+					</div>
+				)}
+				{metrics && metrics.sources.inferred > 0 && (
+					<p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+						{metrics.sources.inferred} task{metrics.sources.inferred === 1 ? '' : 's'} without history or git
+						records are estimated from their created and updated dates.
+					</p>
+				)}
+			</div>
+
 			{/* Status and Priority Distribution */}
 			<div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
 				{/* Status Distribution */}
@@ -465,7 +560,14 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 							</div>
 						)}
 						
-						{statistics.projectHealth.staleTasks.length === 0 && statistics.projectHealth.blockedTasks.length === 0 && (
+						{statistics.deadlines.overdueCount > 0 && (
+							<div className="flex items-center space-x-1">
+								<div className="w-2 h-2 bg-red-500 rounded-circle"></div>
+								<span className="font-medium text-red-700 dark:text-red-400">{statistics.deadlines.overdueCount} overdue</span>
+							</div>
+						)}
+						
+						{statistics.projectHealth.staleTasks.length === 0 && statistics.projectHealth.blockedTasks.length === 0 && statistics.deadlines.overdueCount === 0 && (
 							<div className="flex items-center space-x-1">
 								<div className="w-2 h-2 bg-green-500 rounded-circle"></div>
 								<span className="font-medium text-green-700 dark:text-green-400">All good!</span>
@@ -475,7 +577,7 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 				</div>
 				
 				{/* Expandable task lists - only show if there are issues */}
-				{(statistics.projectHealth.staleTasks.length > 0 || statistics.projectHealth.blockedTasks.length > 0) && (
+				{(statistics.projectHealth.staleTasks.length > 0 || statistics.projectHealth.blockedTasks.length > 0 || statistics.deadlines.overdueCount > 0) && (
 					<div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
 						<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
 							{/* Stale Tasks */}
@@ -531,6 +633,33 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 									</div>
 								</div>
 							)}
+
+							{/* Overdue Tasks */}
+							{statistics.deadlines.overdueCount > 0 && (
+								<div>
+									<h4 className="font-medium text-red-700 dark:text-red-400 mb-3 text-sm">
+										Overdue Tasks
+									</h4>
+									<p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+										Open tasks past their due date, most overdue first
+									</p>
+									<div className="space-y-2">
+										{statistics.deadlines.overdue.slice(0, 3).map((task) => (
+											<TaskPreview 
+												key={task.id}
+												task={task} 
+												showDate="created" 
+												onClick={onEditTask ? () => onEditTask(task) : undefined}
+											/>
+										))}
+										{statistics.deadlines.overdueCount > 3 && (
+											<p className="text-xs text-gray-500 dark:text-gray-400 px-3">
+												+{statistics.deadlines.overdueCount - 3} more overdue tasks
+											</p>
+										)}
+									</div>
+								</div>
+							)}
 						</div>
 					</div>
 				)}
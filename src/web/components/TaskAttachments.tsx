@@ -0,0 +1,115 @@
+import React, { useRef, useState } from "react";
+import { isImageAsset } from "../../core/assets";
+import { apiClient } from "../lib/api";
+
+interface TaskAttachmentsProps {
+	taskId: string;
+	attachments: string[];
+	/** Tasks from other branches can be viewed but not changed */
+	readOnly?: boolean;
+	onUploaded?: () => Promise<void> | void;
+}
+
+const assetUrl = (path: string) => `/assets/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+export const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ taskId, attachments, readOnly = false, onUploaded }) => {
+	const [dragging, setDragging] = useState(false);
+	const [uploading, setUploading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	const upload = async (files: FileList | File[]) => {
+		const list = Array.from(files);
+		if (list.length === 0) return;
+		setUploading(true);
+		setError(null);
+		try {
+			for (const file of list) {
+				await apiClient.uploadAttachment(taskId, file);
+			}
+			if (onUploaded) await onUploaded();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to upload attachment");
+		} finally {
+			setUploading(false);
+		}
+	};
+
+	const images = attachments.filter(isImageAsset);
+	const others = attachments.filter((path) => !isImageAsset(path));
+
+	return (
+		<div className="space-y-3">
+			{images.length > 0 && (
+				<div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+					{images.map((path) => (
+						<a
+							key={path}
+							href={assetUrl(path)}
+							target="_blank"
+							rel="noreferrer"
+							className="block rounded-md overflow-hidden border border-gray-200 dark:border-gray-700 hover:border-blue-400 dark:hover:border-blue-500 transition-colors duration-200"
+							title={path}
+						>
+							<img src={assetUrl(path)} alt={path} className="w-full h-28 object-cover bg-gray-50 dark:bg-gray-900" />
+						</a>
+					))}
+				</div>
+			)}
+			{others.length > 0 && (
+				<ul className="space-y-1 text-sm">
+					{others.map((path) => (
+						<li key={path}>
+							<a
+								href={assetUrl(path)}
+								target="_blank"
+								rel="noreferrer"
+								className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+							>
+								{path}
+							</a>
+						</li>
+					))}
+				</ul>
+			)}
+			{attachments.length === 0 && readOnly && (
+				<div className="text-sm text-gray-500 dark:text-gray-400">No attachments</div>
+			)}
+			{!readOnly && (
+				<div
+					onDragOver={(e) => {
+						e.preventDefault();
+						setDragging(true);
+					}}
+					onDragLeave={() => setDragging(false)}
+					onDrop={(e) => {
+						e.preventDefault();
+						setDragging(false);
+						void upload(e.dataTransfer.files);
+					}}
+					onClick={() => inputRef.current?.click()}
+					className={`flex items-center justify-center px-3 py-4 text-sm rounded-md border-2 border-dashed cursor-pointer transition-colors duration-200 ${
+						dragging
+							? "border-blue-400 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-300"
+							: "border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-gray-400 dark:hover:border-gray-500"
+					}`}
+				>
+					{uploading ? "Uploading…" : "Drop files here or click to attach"}
+					<input
+						ref={inputRef}
+						type="file"
+						multiple
+						className="hidden"
+						onChange={(e) => {
+							if (e.target.files) void upload(e.target.files);
+							e.target.value = "";
+						}}
+					/>
+				</div>
+			)}
+			{error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+		</div>
+	);
+};
+
+export default TaskAttachments;
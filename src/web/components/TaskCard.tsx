@@ -1,5 +1,6 @@
 import React from 'react';
 import { type Task } from '../../types';
+import { formatDueLabel, getDueState, getTodayInTimezone } from '../../core/due-dates';
 
 interface TaskCardProps {
   task: Task;
@@ -9,9 +10,11 @@ interface TaskCardProps {
   onDragEnd?: () => void;
   status?: string;
   laneId?: string;
+  /** Today's date (YYYY-MM-DD) for due badges; defaults to the browser's date */
+  today?: string;
 }
 
-const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEnd, status, laneId }) => {
+const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEnd, status, laneId, today }) => {
   const [isDragging, setIsDragging] = React.useState(false);
   const [showBranchTooltip, setShowBranchTooltip] = React.useState(false);
 
@@ -78,6 +81,18 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
     }
   };
 
+  const getDueBadge = () => {
+    const currentDay = today ?? getTodayInTimezone();
+    const label = formatDueLabel(task, currentDay);
+    if (!label) return null;
+    switch (getDueState(task, currentDay)) {
+      case 'overdue': return { className: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300', label };
+      case 'due-today':
+      case 'due-soon': return { className: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300', label };
+      default: return { className: 'bg-gray-100 dark:bg-gray-600 text-gray-600 dark:text-gray-300', label };
+    }
+  };
+
   return (
     <div className="relative">
       {/* Branch tooltip when trying to drag cross-branch task */}
@@ -159,6 +174,21 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
           </div>
         )}
 
+        {/* Due date badge */}
+        {(() => {
+          const dueBadge = getDueBadge();
+          return dueBadge ? (
+            <div className="mt-2">
+              <span
+                className={`inline-block px-1.5 py-0.5 text-[10px] font-semibold rounded ${dueBadge.className} transition-colors duration-200`}
+                title={task.startDate ? `${task.startDate} → ${task.dueDate}` : `Due ${task.dueDate}`}
+              >
+                {dueBadge.label}
+              </span>
+            </div>
+          ) : null;
+        })()}
+
         {/* Footer with date */}
         <div className="flex items-center justify-between text-[10px] text-gray-400 dark:text-gray-500 mt-2 pt-1.5 border-t border-gray-100 dark:border-gray-600/50 transition-colors duration-200">
           <span>{formatRelativeDate(task.createdDate)}</span>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { type Task } from '../../types';
+import type { ColumnWipState } from '../../core/wip-limits';
 import type { ReorderTaskPayload } from '../lib/api';
 import TaskCard from './TaskCard';
 
@@ -16,6 +17,8 @@ interface TaskColumnProps {
   onCleanup?: () => void;
   laneId?: string;
   targetMilestone?: string | null;
+  wipState?: ColumnWipState;
+  today?: string;
 }
 
 const TaskColumn: React.FC<TaskColumnProps> = ({
@@ -30,7 +33,9 @@ const TaskColumn: React.FC<TaskColumnProps> = ({
   onDragEnd,
   onCleanup,
   laneId,
-  targetMilestone
+  targetMilestone,
+  wipState,
+  today
 }) => {
   const [isDragOver, setIsDragOver] = React.useState(false);
   const [draggedTaskId, setDraggedTaskId] = React.useState<string | null>(null);
@@ -49,6 +54,21 @@ const TaskColumn: React.FC<TaskColumnProps> = ({
     return 'bg-stone-100 dark:bg-stone-900 text-stone-800 dark:text-stone-200 transition-colors duration-200';
   };
 
+  const getWipTitle = () => {
+    if (!wipState) return undefined;
+    const parts: string[] = [];
+    if (wipState.limit !== undefined) {
+      parts.push(`WIP limit: ${wipState.limit}`);
+    }
+    if (wipState.perAssignee !== undefined) {
+      parts.push(`Max ${wipState.perAssignee} per assignee`);
+    }
+    if (wipState.overloadedAssignees.length > 0) {
+      parts.push(`Over limit: ${wipState.overloadedAssignees.join(', ')}`);
+    }
+    return parts.join(' · ');
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
@@ -148,8 +168,15 @@ const TaskColumn: React.FC<TaskColumnProps> = ({
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-2">
           <h3 className="font-semibold text-gray-900 dark:text-gray-100 transition-colors duration-200">{title}</h3>
-          <span className={`px-2 py-1 text-xs font-medium rounded-circle ${getStatusBadgeClass(title)}`}>
-            {tasks.length}
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded-circle ${
+              wipState?.overLimit || wipState?.overloadedAssignees.length
+                ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 transition-colors duration-200'
+                : getStatusBadgeClass(title)
+            }`}
+            title={getWipTitle()}
+          >
+            {wipState?.limit !== undefined ? `${wipState.count}/${wipState.limit}` : tasks.length}
           </span>
         </div>
       </div>
@@ -195,6 +222,7 @@ const TaskColumn: React.FC<TaskColumnProps> = ({
               }}
               status={title}
               laneId={laneId}
+              today={today}
             />
             
             {/* Drop indicator for after this task */}
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { buildCommentThreads, type CommentThread, formatCommentAuthor } from "../../core/comments";
+import type { TaskComment } from "../../types";
+import { useTheme } from "../contexts/ThemeContext";
+import { apiClient } from "../lib/api";
+import MermaidMarkdown from "./MermaidMarkdown";
+
+interface TaskCommentsProps {
+	taskId: string;
+	comments: TaskComment[];
+	/** Tasks from other branches can be read but not commented on */
+	readOnly?: boolean;
+	onAdded?: () => Promise<void> | void;
+}
+
+interface CommentFormProps {
+	placeholder: string;
+	submitLabel: string;
+	onSubmit: (body: string) => Promise<void>;
+	onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ placeholder, submitLabel, onSubmit, onCancel }) => {
+	const [body, setBody] = useState("");
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleSubmit = async () => {
+		if (!body.trim()) return;
+		setSubmitting(true);
+		setError(null);
+		try {
+			await onSubmit(body);
+			setBody("");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to add comment");
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<textarea
+				value={body}
+				onChange={(e) => setBody(e.target.value)}
+				onKeyDown={(e) => {
+					if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+						e.preventDefault();
+						void handleSubmit();
+					}
+				}}
+				placeholder={placeholder}
+				rows={3}
+				className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors duration-200"
+			/>
+			{error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+			<div className="flex items-center gap-2">
+				<button
+					onClick={() => void handleSubmit()}
+					disabled={submitting || !body.trim()}
+					className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 rounded-md disabled:opacity-50 transition-colors duration-200"
+				>
+					{submitting ? "Saving…" : submitLabel}
+				</button>
+				{onCancel && (
+					<button
+						onClick={onCancel}
+						className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-200"
+					>
+						Cancel
+					</button>
+				)}
+			</div>
+		</div>
+	);
+};
+
+export const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, comments, readOnly = false, onAdded }) => {
+	const { theme } = useTheme();
+	const [replyingTo, setReplyingTo] = useState<number | null>(null);
+
+	const addComment = async (body: string, replyTo?: number) => {
+		await apiClient.addTaskComment(taskId, body, replyTo);
+		setReplyingTo(null);
+		if (onAdded) await onAdded();
+	};
+
+	const renderThread = (thread: CommentThread) => {
+		const { comment } = thread;
+		return (
+			<div key={comment.id} className="border-l-2 border-gray-200 dark:border-gray-700 pl-3 space-y-2">
+				<div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+					<span>
+						<span className="font-semibold text-gray-700 dark:text-gray-200">#{comment.id}</span> •{" "}
+						{formatCommentAuthor(comment.author)} • {comment.date}
+					</span>
+					{!readOnly && (
+						<button
+							onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+							className="text-blue-600 dark:text-blue-400 hover:underline"
+						>
+							Reply
+						</button>
+					)}
+				</div>
+				<div className="prose prose-sm !max-w-none wmde-markdown" data-color-mode={theme}>
+					<MermaidMarkdown source={comment.body} />
+				</div>
+				{replyingTo === comment.id && (
+					<CommentForm
+						placeholder={`Reply to #${comment.id}`}
+						submitLabel="Reply"
+						onSubmit={(body) => addComment(body, comment.id)}
+						onCancel={() => setReplyingTo(null)}
+					/>
+				)}
+				{thread.replies.length > 0 && <div className="space-y-3 pt-1">{thread.replies.map(renderThread)}</div>}
+			</div>
+		);
+	};
+
+	return (
+		<div className="space-y-4">
+			{comments.length > 0 ? (
+				<div className="space-y-4">{buildCommentThreads(comments).map(renderThread)}</div>
+			) : (
+				<div className="text-sm text-gray-500 dark:text-gray-400">No comments</div>
+			)}
+			{!readOnly && (
+				<CommentForm placeholder="Add a comment (markdown)" submitLabel="Comment" onSubmit={(body) => addComment(body)} />
+			)}
+		</div>
+	);
+};
+
+export default TaskComments;
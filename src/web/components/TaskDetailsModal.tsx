@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-import type { AcceptanceCriterion, Milestone, Task } from "../../types";
+import type { AcceptanceCriterion, CustomFieldDefinition, CustomFieldValue, Milestone, Task } from "../../types";
 import Modal from "./Modal";
 import { apiClient } from "../lib/api";
 import { useTheme } from "../contexts/ThemeContext";
@@ -8,6 +8,10 @@ import AcceptanceCriteriaEditor from "./AcceptanceCriteriaEditor";
 import MermaidMarkdown from './MermaidMarkdown';
 import ChipInput from "./ChipInput";
 import DependencyInput from "./DependencyInput";
+import TaskAttachments from "./TaskAttachments";
+import TaskComments from "./TaskComments";
+import TaskRelations from "./TaskRelations";
+import { isDoneStatus as statusIsDone } from "../../core/milestones";
 
 interface Props {
   task?: Task; // Optional for create mode
@@ -51,6 +55,7 @@ export const TaskDetailsModal: React.FC<Props> = ({
   const [mode, setMode] = useState<Mode>(isCreateMode ? "create" : "preview");
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
 
   // Title field for create mode
   const [title, setTitle] = useState(task?.title || "");
@@ -68,8 +73,15 @@ export const TaskDetailsModal: React.FC<Props> = ({
   const [priority, setPriority] = useState<string>(task?.priority || "");
   const [dependencies, setDependencies] = useState<string[]>(task?.dependencies || []);
   const [milestone, setMilestone] = useState<string>(task?.milestone || "");
+  const [customFields, setCustomFields] = useState<Record<string, CustomFieldValue>>(task?.customFields || {});
+  const [fieldDefinitions, setFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
   const [availableTasks, setAvailableTasks] = useState<Task[]>([]);
 
+  // Custom fields come from config.yml
+  useEffect(() => {
+    apiClient.fetchConfig().then((config) => setFieldDefinitions(config.customFields ?? [])).catch(() => setFieldDefinitions([]));
+  }, []);
+
   // Keep a baseline for dirty-check
   const baseline = useMemo(() => ({
     title: task?.title || "",
@@ -130,6 +142,7 @@ export const TaskDetailsModal: React.FC<Props> = ({
     setPriority(task?.priority || "");
     setDependencies(task?.dependencies || []);
     setMilestone(task?.milestone || "");
+    setCustomFields(task?.customFields || {});
     setMode(isCreateMode ? "create" : "preview");
     setError(null);
     // Preload tasks for dependency picker
@@ -178,6 +191,10 @@ export const TaskDetailsModal: React.FC<Props> = ({
         priority: (priority === "" ? undefined : priority) as "high" | "medium" | "low" | undefined,
         dependencies,
         milestone: milestone.trim().length > 0 ? milestone.trim() : undefined,
+        // Existing tasks save custom fields one at a time from the sidebar
+        ...(isCreateMode && {
+          customFields: Object.fromEntries(Object.entries(customFields).filter(([, value]) => value !== "")),
+        }),
       };
 
       if (isCreateMode && onSubmit) {
@@ -187,7 +204,8 @@ export const TaskDetailsModal: React.FC<Props> = ({
         onClose();
       } else if (task) {
         // Update existing task
-        await apiClient.updateTask(task.id, taskData);
+        const updated = await apiClient.updateTask(task.id, taskData);
+        setWarning(updated.warnings?.join(" ") || null);
         setMode("preview");
         if (onSaved) await onSaved();
       }
@@ -240,7 +258,11 @@ export const TaskDetailsModal: React.FC<Props> = ({
     // Only update server if editing existing task
     if (task) {
       try {
-        await apiClient.updateTask(task.id, updates);
+        const updated = await apiClient.updateTask(task.id, updates);
+        setWarning(updated.warnings?.join(" ") || null);
+        if (updates.status && !statusIsDone(task.status) && statusIsDone(updates.status)) {
+          await offerToCloseOriginals(updates.status);
+        }
         if (onSaved) await onSaved();
       } catch (err) {
         console.error("Failed to update task metadata", err);
@@ -249,6 +271,34 @@ export const TaskDetailsModal: React.FC<Props> = ({
     }
   };
 
+  // Closing a duplicate: offer to close the original too, or at least leave a note on it
+  const offerToCloseOriginals = async (doneStatus: string) => {
+    if (!task) return;
+    for (const originalId of task.relations?.duplicates ?? []) {
+      const original = availableTasks.find((candidate) => candidate.id === originalId);
+      if (!original || statusIsDone(original.status)) continue;
+      if (window.confirm(`${task.id} duplicates ${original.id} (${original.title}). Close ${original.id} as well?`)) {
+        await apiClient.updateTask(original.id, { status: doneStatus });
+      } else if (window.confirm(`Leave a comment on ${original.id} linking it to this duplicate instead?`)) {
+        await apiClient.addTaskComment(original.id, `Closed ${task.id} as a duplicate of this task.`);
+      }
+    }
+  };
+
+  // An empty value clears the field; the server validates it against config
+  const handleCustomFieldUpdate = async (name: string, value: CustomFieldValue) => {
+    if (isFromOtherBranch) return;
+    setCustomFields((prev) => ({ ...prev, [name]: value }));
+    if (!task || String(task.customFields?.[name] ?? "") === String(value)) return;
+    try {
+      setError(null);
+      await apiClient.updateTask(task.id, { customFields: { [name]: value } });
+      if (onSaved) await onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   // labels handled via ChipInput; no textarea parsing
 
 	const handleComplete = async () => {
@@ -274,7 +324,7 @@ export const TaskDetailsModal: React.FC<Props> = ({
   const totalCount = (criteria || []).length;
   const isDoneStatus = (status || "").toLowerCase().includes("done");
 
-  const displayId = useMemo(() => task?.id?.replace(/^task-/i, "TASK-") || "", [task?.id]);
+  const displayId = useMemo(() => task?.id?.replace(/^[a-z][a-z0-9]*-/i, (prefix) => prefix.toUpperCase()) || "", [task?.id]);
 
   const sortedHistory = useMemo(() => {
     if (!task?.history) return [];
@@ -348,6 +398,9 @@ export const TaskDetailsModal: React.FC<Props> = ({
       {error && (
         <div className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</div>
       )}
+      {warning && (
+        <div className="mb-3 text-sm text-yellow-700 dark:text-yellow-300">{warning}</div>
+      )}
 
       {/* Cross-branch task indicator */}
       {isFromOtherBranch && (
@@ -479,6 +532,38 @@ export const TaskDetailsModal: React.FC<Props> = ({
             )}
           </div>
 
+          {/* Attachments */}
+          {task && mode === "preview" && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+              <SectionHeader
+                title="Attachments"
+                right={task.attachments?.length ? `${task.attachments.length}` : undefined}
+              />
+              <TaskAttachments
+                taskId={task.id}
+                attachments={task.attachments ?? []}
+                readOnly={isFromOtherBranch}
+                onUploaded={onSaved}
+              />
+            </div>
+          )}
+
+          {/* Comments */}
+          {task && mode === "preview" && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+              <SectionHeader
+                title="Comments"
+                right={task.comments?.length ? `${task.comments.length}` : undefined}
+              />
+              <TaskComments
+                taskId={task.id}
+                comments={task.comments ?? []}
+                readOnly={isFromOtherBranch}
+                onAdded={onSaved}
+              />
+            </div>
+          )}
+
           {/* Task History */}
           {sortedHistory.length > 0 && mode === "preview" && (
             <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
@@ -622,6 +707,36 @@ export const TaskDetailsModal: React.FC<Props> = ({
             />
           </div>
 
+          {/* Relations */}
+          {task && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+              <SectionHeader title="Relations" />
+              <TaskRelations
+                task={task}
+                availableTasks={availableTasks}
+                readOnly={isFromOtherBranch}
+                onChanged={onSaved}
+              />
+            </div>
+          )}
+
+          {/* Custom fields */}
+          {fieldDefinitions.length > 0 && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 space-y-3">
+              <SectionHeader title="Custom Fields" />
+              {fieldDefinitions.map((field) => (
+                <CustomFieldInput
+                  key={field.name}
+                  field={field}
+                  value={customFields[field.name]}
+                  onChange={(value) => setCustomFields((prev) => ({ ...prev, [field.name]: value }))}
+                  onCommit={(value) => void handleCustomFieldUpdate(field.name, value)}
+                  disabled={isFromOtherBranch}
+                />
+              ))}
+            </div>
+          )}
+
           {/* Archive button at bottom of sidebar */}
 		          {task && onArchive && !isFromOtherBranch && (
 		            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
@@ -661,6 +776,61 @@ const StatusSelect: React.FC<{ current: string; onChange: (v: string) => void; d
   );
 };
 
+const CustomFieldInput: React.FC<{
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  onCommit: (value: CustomFieldValue) => void;
+  disabled?: boolean;
+}> = ({ field, value, onChange, onCommit, disabled }) => {
+  const className = `w-full h-10 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-stone-500 dark:focus:ring-stone-400 focus:border-transparent transition-colors duration-200 ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`;
+  const text = value === undefined ? "" : field.type === "date" ? String(value).slice(0, 10) : String(value);
+  const label = (
+    <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1" title={field.description}>
+      {field.label ?? field.name}
+      {field.required ? " *" : ""}
+    </label>
+  );
+
+  // Enums and booleans pick from a list, with an empty entry to clear the value
+  if (field.type === "enum" || field.type === "boolean") {
+    const options = field.type === "enum"
+      ? (field.options ?? []).map((option) => [option, option])
+      : [["true", "Yes"], ["false", "No"]];
+    return (
+      <div>
+        {label}
+        <select className={className} value={text} onChange={(e) => onCommit(e.target.value)} disabled={disabled}>
+          <option value="">—</option>
+          {options.map(([optionValue, optionLabel]) => (
+            <option key={optionValue} value={optionValue}>{optionLabel}</option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {label}
+      <input
+        type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+        value={text}
+        placeholder={field.type === "user" ? "@name" : undefined}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={(e) => onCommit(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.currentTarget.blur();
+          }
+        }}
+        disabled={disabled}
+        className={className}
+      />
+    </div>
+  );
+};
+
 const AutoResizeTextarea: React.FC<{
   value: string;
   onChange: (v: string) => void;
@@ -1,13 +1,22 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams } from "react-router-dom";
-import { apiClient } from "../lib/api";
+import { ApiError, apiClient } from "../lib/api";
 import type {
+	CustomFieldDefinition,
 	Milestone,
 	SearchPriorityFilter,
 	Task,
 	TaskSearchResult,
 } from "../../types";
+import { looksLikeTaskQuery } from "../../core/task-query.ts";
+import {
+	buildSubtaskProgress,
+	buildTaskTree,
+	flattenTaskTree,
+	formatSubtaskProgress,
+} from "../../core/subtask-tree.ts";
 import { collectAvailableLabels } from "../../utils/label-filter.ts";
+import { stripTaskPrefix } from "../../utils/task-prefix.ts";
 import { getMilestoneLabel } from "../utils/milestones";
 import CleanupModal from "./CleanupModal";
 import { SuccessToast } from "./SuccessToast";
@@ -32,8 +41,8 @@ const PRIORITY_OPTIONS: Array<{ label: string; value: "" | SearchPriorityFilter
 
 function sortTasksByIdDescending(list: Task[]): Task[] {
 	return [...list].sort((a, b) => {
-		const idA = Number.parseInt(a.id.replace("task-", ""), 10);
-		const idB = Number.parseInt(b.id.replace("task-", ""), 10);
+		const idA = Number.parseInt(stripTaskPrefix(a.id), 10);
+		const idB = Number.parseInt(stripTaskPrefix(b.id), 10);
 		return idB - idA;
 	});
 }
@@ -67,6 +76,9 @@ const TaskList: React.FC<TaskListProps> = ({
 	const [showCleanupModal, setShowCleanupModal] = useState(false);
 	const [cleanupSuccessMessage, setCleanupSuccessMessage] = useState<string | null>(null);
 	const [showLabelsMenu, setShowLabelsMenu] = useState(false);
+	const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+	const [treeView, setTreeView] = useState(false);
+	const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set());
 	const labelsButtonRef = useRef<HTMLButtonElement | null>(null);
 	const labelsMenuRef = useRef<HTMLDivElement | null>(null);
 
@@ -114,6 +126,14 @@ const TaskList: React.FC<TaskListProps> = ({
 		}
 	}, [searchParams]);
 
+	// Custom fields from config are query fields too, e.g. `severity:high`
+	useEffect(() => {
+		apiClient
+			.fetchConfig()
+			.then((config) => setCustomFields(config.customFields ?? []))
+			.catch(() => setCustomFields([]));
+	}, []);
+
 	useEffect(() => {
 		if (!hasActiveFilters) {
 			setDisplayTasks(sortedBaseTasks);
@@ -146,9 +166,12 @@ const TaskList: React.FC<TaskListProps> = ({
 				setDisplayTasks(filterByMilestone(sortedBaseTasks));
 				return;
 			}
+			// Text such as `label:bug -assignee:@me` is sent as a filter query instead of search words
+			const isFilterQuery = looksLikeTaskQuery(normalizedSearch, customFields);
 			try {
 				const results = await apiClient.search({
-					query: normalizedSearch || undefined,
+					query: isFilterQuery ? undefined : normalizedSearch || undefined,
+					filter: isFilterQuery ? normalizedSearch : undefined,
 					types: ["task"],
 					status: statusFilter || undefined,
 					priority: (priorityFilter || undefined) as SearchPriorityFilter | undefined,
@@ -164,7 +187,11 @@ const TaskList: React.FC<TaskListProps> = ({
 				console.error("Failed to apply task filters:", err);
 				if (!cancelled) {
 					setDisplayTasks([]);
-					setError("Unable to fetch tasks for the selected filters.");
+					setError(
+						isFilterQuery && err instanceof ApiError && err.status === 400
+							? err.message
+							: "Unable to fetch tasks for the selected filters.",
+					);
 				}
 			}
 		};
@@ -174,7 +201,7 @@ const TaskList: React.FC<TaskListProps> = ({
 		return () => {
 			cancelled = true;
 		};
-	}, [hasActiveFilters, normalizedSearch, priorityFilter, statusFilter, labelFilter, tasks, milestoneFilter, sortedBaseTasks]);
+	}, [hasActiveFilters, normalizedSearch, priorityFilter, statusFilter, labelFilter, tasks, milestoneFilter, sortedBaseTasks, customFields]);
 
 	const syncUrl = (
 		nextQuery: string,
@@ -302,6 +329,24 @@ const TaskList: React.FC<TaskListProps> = ({
 
 	const currentCount = displayTasks.length;
 
+	// Progress counts every subtask, including ones the filters hide
+	const subtaskProgress = useMemo(() => buildSubtaskProgress(tasks), [tasks]);
+	const rows = useMemo(
+		() =>
+			treeView
+				? flattenTaskTree(buildTaskTree(displayTasks), collapsedIds)
+				: displayTasks.map((task) => ({ task, depth: 0, hasChildren: false, collapsed: false })),
+		[treeView, displayTasks, collapsedIds],
+	);
+
+	const toggleCollapsed = (taskId: string) => {
+		setCollapsedIds((current) => {
+			const next = new Set(current);
+			if (!next.delete(taskId)) next.add(taskId);
+			return next;
+		});
+	};
+
 	return (
 		<div className="container mx-auto px-4 py-8 transition-colors duration-200">
 			<div className="flex flex-col gap-4 mb-6">
@@ -327,7 +372,8 @@ const TaskList: React.FC<TaskListProps> = ({
 							type="text"
 							value={searchValue}
 							onChange={(event) => handleSearchChange(event.target.value)}
-							placeholder="Search tasks"
+							placeholder="Search or filter, e.g. label:bug"
+							title='Filter queries use field:value terms such as status:"In Progress", priority>=medium or updated:<7d, combined with AND, OR, NOT/- and parentheses'
 							className="w-full pl-10 pr-10 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-stone-500 dark:focus:ring-stone-400 focus:border-transparent transition-colors duration-200"
 						/>
 						{searchValue && (
@@ -464,6 +510,19 @@ const TaskList: React.FC<TaskListProps> = ({
 							</button>
 						)}
 
+							<label
+								className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap"
+								title="Nest subtasks under their parents"
+							>
+								<input
+									type="checkbox"
+									checked={treeView}
+									onChange={(event) => setTreeView(event.target.checked)}
+									className="rounded border-gray-300 dark:border-gray-600"
+								/>
+								Tree
+							</label>
+
 							<div className="relative">
 								<button
 									type="button"
@@ -505,11 +564,13 @@ const TaskList: React.FC<TaskListProps> = ({
 				</div>
 			) : (
 				<div className="space-y-4">
-					{displayTasks.map((task) => {
+					{rows.map(({ task, depth, hasChildren, collapsed }) => {
 						const isFromOtherBranch = Boolean(task.branch);
+						const progress = subtaskProgress.get(task.id);
 						return (
 						<div
 							key={task.id}
+							style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}
 							className={`bg-white dark:bg-gray-800 border rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 cursor-pointer ${
 								isFromOtherBranch 
 									? 'border-amber-300 dark:border-amber-700 opacity-75' 
@@ -531,6 +592,20 @@ const TaskList: React.FC<TaskListProps> = ({
 							<div className="flex items-start justify-between">
 								<div className="flex-1">
 									<div className="flex items-center space-x-3 mb-2">
+										{hasChildren && (
+											<button
+												type="button"
+												onClick={(event) => {
+													event.stopPropagation();
+													toggleCollapsed(task.id);
+												}}
+												className="w-5 h-5 flex items-center justify-center rounded text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600"
+												title={collapsed ? "Show subtasks" : "Hide subtasks"}
+												aria-expanded={!collapsed}
+											>
+												{collapsed ? "▸" : "▾"}
+											</button>
+										)}
 										<h3 className={`text-lg font-medium ${isFromOtherBranch ? 'text-gray-600 dark:text-gray-400' : 'text-gray-900 dark:text-white'}`}>{task.title}</h3>
 										<span className={`px-2 py-1 text-xs font-medium rounded-circle ${getStatusColor(task.status)}`}>
 											{task.status}
@@ -540,6 +615,11 @@ const TaskList: React.FC<TaskListProps> = ({
 												{task.priority}
 											</span>
 										)}
+										{progress && (
+											<span className="px-2 py-1 text-xs font-medium rounded-circle bg-indigo-100 text-indigo-800 dark:bg-indigo-900/50 dark:text-indigo-200">
+												{formatSubtaskProgress(progress)}
+											</span>
+										)}
 									</div>
 									<div className="flex items-center space-x-4 text-sm text-gray-500 dark:text-gray-400 mb-2">
 										<span>{task.id}</span>
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from "react";
+import { formatRelationKind, TASK_RELATION_KINDS } from "../../core/relations";
+import { TASK_RELATION_TYPES, type Task, type TaskRelation, type TaskRelationType } from "../../types";
+import { apiClient } from "../lib/api";
+
+interface TaskRelationsProps {
+	task: Task;
+	availableTasks: Task[];
+	/** Tasks from other branches can be viewed but not changed */
+	readOnly?: boolean;
+	onChanged?: () => Promise<void> | void;
+}
+
+export const TaskRelations: React.FC<TaskRelationsProps> = ({ task, availableTasks, readOnly = false, onChanged }) => {
+	const [relations, setRelations] = useState<TaskRelation[]>([]);
+	const [type, setType] = useState<TaskRelationType>("relates-to");
+	const [target, setTarget] = useState("");
+	const [error, setError] = useState<string | null>(null);
+
+	// Inverse relations live on other tasks, so ask the server rather than reading task.relations
+	useEffect(() => {
+		apiClient
+			.fetchTaskRelations(task.id)
+			.then(setRelations)
+			.catch(() => setRelations([]));
+	}, [task]);
+
+	const titleOf = (id: string) => availableTasks.find((candidate) => candidate.id === id)?.title;
+
+	const change = async (changes: Parameters<typeof apiClient.updateTaskRelations>[1]) => {
+		setError(null);
+		try {
+			await apiClient.updateTaskRelations(task.id, changes);
+			setRelations(await apiClient.fetchTaskRelations(task.id));
+			setTarget("");
+			if (onChanged) await onChanged();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to update relations");
+		}
+	};
+
+	return (
+		<div className="space-y-2 text-sm">
+			{relations.length === 0 && <div className="text-gray-500 dark:text-gray-400">No relations</div>}
+			{TASK_RELATION_KINDS.map((kind) => {
+				const ofKind = relations.filter((relation) => relation.type === kind);
+				if (ofKind.length === 0) return null;
+				return (
+					<div key={kind}>
+						<div className="text-xs font-medium text-gray-500 dark:text-gray-400">{formatRelationKind(kind)}</div>
+						<ul>
+							{ofKind.map((relation) => (
+								<li key={relation.taskId} className="flex items-center justify-between gap-2 text-gray-800 dark:text-gray-200">
+									<span className="truncate" title={titleOf(relation.taskId)}>
+										{relation.taskId}
+										{titleOf(relation.taskId) ? ` - ${titleOf(relation.taskId)}` : ""}
+									</span>
+									{!readOnly && !relation.inverse && (
+										<button
+											onClick={() => void change({ removeRelations: [relation.taskId] })}
+											className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+											title={`Remove relation to ${relation.taskId}`}
+										>
+											×
+										</button>
+									)}
+								</li>
+							))}
+						</ul>
+					</div>
+				);
+			})}
+			{!readOnly && (
+				<div className="flex items-center gap-1 pt-1">
+					<select
+						value={type}
+						onChange={(e) => setType(e.target.value as TaskRelationType)}
+						className="px-1 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+					>
+						{TASK_RELATION_TYPES.map((option) => (
+							<option key={option} value={option}>
+								{formatRelationKind(option)}
+							</option>
+						))}
+					</select>
+					<select
+						value={target}
+						onChange={(e) => setTarget(e.target.value)}
+						className="flex-1 min-w-0 px-1 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+					>
+						<option value="">Select task…</option>
+						{availableTasks
+							.filter((candidate) => candidate.id !== task.id)
+							.map((candidate) => (
+								<option key={candidate.id} value={candidate.id}>
+									{candidate.id} - {candidate.title}
+								</option>
+							))}
+					</select>
+					<button
+						onClick={() => void change({ addRelations: { [type]: [target] } })}
+						disabled={!target}
+						className="px-2 py-1 text-xs font-medium text-white bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 rounded-md disabled:opacity-50 transition-colors duration-200"
+					>
+						Add
+					</button>
+				</div>
+			)}
+			{error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+		</div>
+	);
+};
+
+export default TaskRelations;
@@ -0,0 +1,489 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { type Milestone, type Task } from "../../types";
+import { addDays, buildTimeline, diffDays, shiftBarDates, type TimelineBar } from "../../core/timeline";
+import { getDueState, getTodayInTimezone } from "../../core/due-dates";
+import { isDoneStatus } from "../../core/milestones";
+import type { CriticalPathReport } from "../../core/critical-path";
+import { formatDuration } from "../../utils/duration";
+import { apiClient } from "../lib/api";
+
+interface TimelinePageProps {
+	tasks: Task[];
+	milestoneEntities: Milestone[];
+	timezonePreference?: string;
+	onEditTask: (task: Task) => void;
+	onRefreshData?: () => Promise<void>;
+}
+
+type DragMode = "move" | "resize";
+
+interface DragState {
+	bar: TimelineBar;
+	mode: DragMode;
+	originX: number;
+	days: number;
+}
+
+const ZOOM_LEVELS = [
+	{ label: "Days", dayWidth: 36 },
+	{ label: "Weeks", dayWidth: 14 },
+	{ label: "Months", dayWidth: 5 },
+];
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 40;
+const LABEL_WIDTH = 260;
+// Empty days shown around the scheduled range
+const PADDING_DAYS = 3;
+
+const getBarClass = (bar: TimelineBar, today: string) => {
+	if (isDoneStatus(bar.task.status)) return "bg-green-500/80 dark:bg-green-600/80 border-green-600";
+	if (getDueState(bar.task, today) === "overdue") return "bg-red-500/80 dark:bg-red-600/80 border-red-700";
+	if ((bar.task.status ?? "").toLowerCase().includes("progress")) return "bg-blue-500/80 dark:bg-blue-600/80 border-blue-700";
+	return "bg-gray-400/80 dark:bg-gray-500/80 border-gray-500";
+};
+
+const TimelinePage: React.FC<TimelinePageProps> = ({
+	tasks,
+	milestoneEntities,
+	timezonePreference,
+	onEditTask,
+	onRefreshData,
+}) => {
+	const [zoom, setZoom] = useState(0);
+	const [showDone, setShowDone] = useState(true);
+	const [drag, setDrag] = useState<DragState | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+	const [showCriticalPath, setShowCriticalPath] = useState(false);
+	const [criticalPath, setCriticalPath] = useState<CriticalPathReport | null>(null);
+
+	const today = useMemo(() => getTodayInTimezone(timezonePreference), [timezonePreference]);
+	const dayWidth = ZOOM_LEVELS[zoom]?.dayWidth ?? 36;
+
+	const timeline = useMemo(
+		() =>
+			buildTimeline(
+				showDone ? tasks : tasks.filter((task) => !isDoneStatus(task.status)),
+				{ today, milestones: milestoneEntities },
+			),
+		[tasks, showDone, today, milestoneEntities],
+	);
+
+	// Refetched whenever tasks change so estimates and dependencies stay current
+	useEffect(() => {
+		if (!showCriticalPath) return;
+		let cancelled = false;
+		apiClient
+			.fetchCriticalPath()
+			.then((report) => {
+				if (!cancelled) setCriticalPath(report);
+			})
+			.catch((err) => {
+				if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load the critical path");
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [showCriticalPath, tasks]);
+
+	const criticalIds = useMemo(
+		() => new Set(showCriticalPath && criticalPath ? criticalPath.path.map((entry) => entry.task.id) : []),
+		[showCriticalPath, criticalPath],
+	);
+	const slackById = useMemo(
+		() => new Map((criticalPath?.tasks ?? []).map((entry) => [entry.task.id, entry.slack])),
+		[criticalPath],
+	);
+
+	const rangeStart = addDays(timeline.start, -PADDING_DAYS);
+	const totalDays = diffDays(rangeStart, timeline.end) + 1 + PADDING_DAYS;
+	const chartWidth = totalDays * dayWidth;
+
+	// One header row per milestone followed by one row per task
+	const rows = useMemo(() => {
+		const result: Array<{ type: "group"; label: string; count: number } | { type: "bar"; bar: TimelineBar }> = [];
+		for (const group of timeline.groups) {
+			result.push({ type: "group", label: group.label, count: group.bars.length });
+			for (const bar of group.bars) {
+				result.push({ type: "bar", bar });
+			}
+		}
+		return result;
+	}, [timeline]);
+
+	const rowIndexById = useMemo(() => {
+		const map = new Map<string, number>();
+		rows.forEach((row, index) => {
+			if (row.type === "bar") map.set(row.bar.task.id, index);
+		});
+		return map;
+	}, [rows]);
+
+	const getBarGeometry = useCallback(
+		(bar: TimelineBar) => {
+			let start = bar.start;
+			let end = bar.end;
+			if (drag && drag.bar.task.id === bar.task.id) {
+				if (drag.mode === "move") {
+					start = addDays(start, drag.days);
+					end = addDays(end, drag.days);
+				} else {
+					const resized = addDays(end, drag.days);
+					end = resized < start ? start : resized;
+				}
+			}
+			const x = diffDays(rangeStart, start) * dayWidth;
+			const width = (diffDays(start, end) + 1) * dayWidth;
+			return { x, width, start, end };
+		},
+		[drag, rangeStart, dayWidth],
+	);
+
+	const saveDrag = useCallback(
+		async (state: DragState) => {
+			const { bar, mode, days } = state;
+			const updates =
+				mode === "move"
+					? shiftBarDates(bar, days)
+					: { startDate: bar.start, dueDate: addDays(bar.end, days) < bar.start ? bar.start : addDays(bar.end, days) };
+			setIsSaving(true);
+			setError(null);
+			try {
+				await apiClient.updateTask(bar.task.id, updates);
+				await onRefreshData?.();
+			} catch (err) {
+				setError(err instanceof Error ? err.message : "Failed to update task dates");
+			} finally {
+				setIsSaving(false);
+			}
+		},
+		[onRefreshData],
+	);
+
+	useEffect(() => {
+		if (!drag) return;
+		const handleMove = (event: MouseEvent) => {
+			const days = Math.round((event.clientX - drag.originX) / dayWidth);
+			if (days !== drag.days) {
+				setDrag({ ...drag, days });
+			}
+		};
+		const handleUp = () => {
+			setDrag(null);
+			if (drag.days === 0) {
+				// A click without movement opens the task
+				if (drag.mode === "move") onEditTask(drag.bar.task);
+				return;
+			}
+			void saveDrag(drag);
+		};
+		window.addEventListener("mousemove", handleMove);
+		window.addEventListener("mouseup", handleUp);
+		return () => {
+			window.removeEventListener("mousemove", handleMove);
+			window.removeEventListener("mouseup", handleUp);
+		};
+	}, [drag, dayWidth, onEditTask, saveDrag]);
+
+	const startDrag = (event: React.MouseEvent, bar: TimelineBar, mode: DragMode) => {
+		if (bar.task.branch) return;
+		event.preventDefault();
+		event.stopPropagation();
+		setDrag({ bar, mode, originX: event.clientX, days: 0 });
+	};
+
+	const headerDays = useMemo(
+		() => Array.from({ length: totalDays }, (_, index) => addDays(rangeStart, index)),
+		[rangeStart, totalDays],
+	);
+
+	const arrows = timeline.links
+		.map((link) => {
+			const fromRow = rowIndexById.get(link.from);
+			const toRow = rowIndexById.get(link.to);
+			const fromBar = fromRow !== undefined ? rows[fromRow] : undefined;
+			const toBar = toRow !== undefined ? rows[toRow] : undefined;
+			if (fromRow === undefined || toRow === undefined || fromBar?.type !== "bar" || toBar?.type !== "bar") {
+				return null;
+			}
+			const from = getBarGeometry(fromBar.bar);
+			const to = getBarGeometry(toBar.bar);
+			const x1 = from.x + from.width;
+			const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+			const x2 = to.x;
+			const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+			const elbow = x1 + 8;
+			return {
+				key: `${link.from}->${link.to}`,
+				path: `M ${x1} ${y1} H ${elbow} V ${y2} H ${x2}`,
+				late: from.end >= to.start,
+				critical: criticalIds.has(link.from) && criticalIds.has(link.to),
+			};
+		})
+		.filter((arrow): arrow is { key: string; path: string; late: boolean; critical: boolean } => arrow !== null);
+
+	const describeSlack = (taskId: string) => {
+		if (!showCriticalPath) return "";
+		if (criticalIds.has(taskId)) return " · critical path";
+		const slack = slackById.get(taskId);
+		return slack === undefined ? "" : ` · slack ${formatDuration(slack)}`;
+	};
+
+	const criticalPathWarnings = criticalPath
+		? [
+				...criticalPath.cycles.map((cycle) => `Dependency cycle: ${cycle.join(" → ")}`),
+				...criticalPath.blockedByCycle.map((id) => `${id} waits on a dependency cycle and was left out`),
+				...criticalPath.danglingDependencies.map(
+					({ taskId, dependency }) => `${taskId} depends on ${dependency}, which does not exist`,
+				),
+			]
+		: [];
+
+	const todayX = (diffDays(rangeStart, today) + 0.5) * dayWidth;
+	const bodyHeight = rows.length * ROW_HEIGHT;
+
+	return (
+		<div className="container mx-auto px-4 py-8 transition-colors duration-200">
+			<div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+				<div>
+					<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Timeline</h1>
+					<p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+						Tasks by milestone. Dashed bars use dates inferred from estimates and dependencies; drag a bar to reschedule it.
+					</p>
+				</div>
+				<div className="flex items-center gap-4">
+					<label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+						<input
+							type="checkbox"
+							checked={showDone}
+							onChange={(event) => setShowDone(event.target.checked)}
+							className="rounded border-gray-300 dark:border-gray-600"
+						/>
+						Show done
+					</label>
+					<label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+						<input
+							type="checkbox"
+							checked={showCriticalPath}
+							onChange={(event) => setShowCriticalPath(event.target.checked)}
+							className="rounded border-gray-300 dark:border-gray-600"
+						/>
+						Critical path
+					</label>
+					<div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+						{ZOOM_LEVELS.map((level, index) => (
+							<button
+								key={level.label}
+								type="button"
+								onClick={() => setZoom(index)}
+								className={`px-3 py-1.5 text-sm transition-colors duration-200 ${
+									zoom === index
+										? "bg-blue-600 text-white"
+										: "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+								}`}
+							>
+								{level.label}
+							</button>
+						))}
+					</div>
+				</div>
+			</div>
+
+			{error && (
+				<div className="mb-4 rounded-md border border-red-200 dark:border-red-700 bg-red-50 dark:bg-red-900/30 px-4 py-2 text-sm text-red-700 dark:text-red-300">
+					{error}
+				</div>
+			)}
+
+			{showCriticalPath && criticalPath && (
+				<div className="mb-4 space-y-2">
+					<p className="text-sm text-gray-700 dark:text-gray-300">
+						{criticalPath.path.length === 0
+							? "No active tasks to schedule."
+							: `Critical path: ${criticalPath.path.map((entry) => entry.task.id).join(" → ")} (${formatDuration(
+									criticalPath.totalMinutes,
+								)} of work). Hover a bar to see how long it can slip.`}
+					</p>
+					{criticalPathWarnings.length > 0 && (
+						<ul className="rounded-md border border-amber-200 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 px-4 py-2 text-sm text-amber-800 dark:text-amber-200 list-disc list-inside">
+							{criticalPathWarnings.map((warning) => (
+								<li key={warning}>{warning}</li>
+							))}
+						</ul>
+					)}
+				</div>
+			)}
+
+			{rows.length === 0 ? (
+				<div className="text-center py-12 text-gray-500 dark:text-gray-400">No tasks to schedule.</div>
+			) : (
+				<div
+					className={`flex border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 overflow-hidden ${
+						isSaving ? "opacity-70" : ""
+					}`}
+				>
+					{/* Task labels */}
+					<div className="flex-shrink-0 border-r border-gray-200 dark:border-gray-700" style={{ width: LABEL_WIDTH }}>
+						<div
+							className="border-b border-gray-200 dark:border-gray-700 px-3 flex items-center text-xs font-semibold text-gray-500 dark:text-gray-400"
+							style={{ height: HEADER_HEIGHT }}
+						>
+							Task
+						</div>
+						{rows.map((row) =>
+							row.type === "group" ? (
+								<div
+									key={`group-${row.label}`}
+									className="px-3 flex items-center justify-between bg-gray-50 dark:bg-gray-900/40 text-sm font-semibold text-gray-800 dark:text-gray-200"
+									style={{ height: ROW_HEIGHT }}
+								>
+									<span className="truncate">{row.label}</span>
+									<span className="text-xs font-normal text-gray-500 dark:text-gray-400">{row.count}</span>
+								</div>
+							) : (
+								<button
+									key={row.bar.task.id}
+									type="button"
+									onClick={() => onEditTask(row.bar.task)}
+									className="w-full px-3 flex items-center gap-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+									style={{ height: ROW_HEIGHT }}
+									title={`${row.bar.task.id} - ${row.bar.task.title}`}
+								>
+									<span className="text-xs font-mono text-gray-400 dark:text-gray-500 flex-shrink-0">{row.bar.task.id}</span>
+									<span className="truncate">{row.bar.task.title}</span>
+								</button>
+							),
+						)}
+					</div>
+
+					{/* Chart */}
+					<div className="flex-1 overflow-x-auto">
+						<div style={{ width: chartWidth }} className="relative select-none">
+							<div className="flex border-b border-gray-200 dark:border-gray-700" style={{ height: HEADER_HEIGHT }}>
+								{headerDays.map((day) => {
+									const date = new Date(`${day}T00:00:00Z`);
+									const isMonthStart = date.getUTCDate() === 1;
+									const isWeekStart = date.getUTCDay() === 1;
+									const showLabel = dayWidth >= 30 || (dayWidth >= 14 ? isWeekStart : isMonthStart);
+									return (
+										<div
+											key={day}
+											className={`flex-shrink-0 text-[10px] leading-tight text-gray-500 dark:text-gray-400 overflow-visible whitespace-nowrap ${
+												isMonthStart ? "border-l border-gray-300 dark:border-gray-600" : ""
+											}`}
+											style={{ width: dayWidth }}
+										>
+											{(isMonthStart || day === rangeStart) && (
+												<div className="font-semibold text-gray-700 dark:text-gray-300 pl-0.5">
+													{date.toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" })}
+												</div>
+											)}
+											{showLabel && <div className="pl-0.5">{date.getUTCDate()}</div>}
+										</div>
+									);
+								})}
+							</div>
+
+							<div className="relative" style={{ height: bodyHeight }}>
+								{/* Weekend shading */}
+								{headerDays.map((day, index) => {
+									const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+									return weekday === 0 || weekday === 6 ? (
+										<div
+											key={`weekend-${day}`}
+											className="absolute top-0 bottom-0 bg-gray-50 dark:bg-gray-900/30"
+											style={{ left: index * dayWidth, width: dayWidth }}
+										/>
+									) : null;
+								})}
+
+								{/* Group separators */}
+								{rows.map((row, index) =>
+									row.type === "group" ? (
+										<div
+											key={`separator-${row.label}`}
+											className="absolute left-0 right-0 bg-gray-50 dark:bg-gray-900/40 border-y border-gray-100 dark:border-gray-700"
+											style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+										/>
+									) : null,
+								)}
+
+								{/* Today marker */}
+								<div className="absolute top-0 bottom-0 w-px bg-red-400" style={{ left: todayX }} title={`Today (${today})`} />
+
+								{/* Dependency arrows */}
+								<svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={bodyHeight}>
+									<defs>
+										<marker id="timeline-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+											<path d="M0,0 L8,4 L0,8 z" className="fill-gray-500 dark:fill-gray-400" />
+										</marker>
+										<marker id="timeline-arrow-late" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+											<path d="M0,0 L8,4 L0,8 z" className="fill-red-500" />
+										</marker>
+										<marker id="timeline-arrow-critical" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+											<path d="M0,0 L8,4 L0,8 z" className="fill-amber-500" />
+										</marker>
+									</defs>
+									{arrows.map((arrow) => (
+										<path
+											key={arrow.key}
+											d={arrow.path}
+											fill="none"
+											strokeWidth={arrow.critical ? 2.5 : 1.5}
+											className={
+												arrow.critical
+													? "stroke-amber-500"
+													: arrow.late
+														? "stroke-red-500"
+														: "stroke-gray-500 dark:stroke-gray-400"
+											}
+											markerEnd={`url(#${
+												arrow.critical ? "timeline-arrow-critical" : arrow.late ? "timeline-arrow-late" : "timeline-arrow"
+											})`}
+										/>
+									))}
+								</svg>
+
+								{/* Bars */}
+								{rows.map((row, index) => {
+									if (row.type !== "bar") return null;
+									const { bar } = row;
+									const geometry = getBarGeometry(bar);
+									const isReadOnly = Boolean(bar.task.branch);
+									return (
+										<div
+											key={`bar-${bar.task.id}`}
+											className={`absolute rounded border text-[11px] text-white px-1.5 flex items-center overflow-hidden whitespace-nowrap ${getBarClass(
+												bar,
+												today,
+											)} ${bar.startInferred || bar.endInferred ? "border-dashed opacity-75" : ""} ${
+												criticalIds.has(bar.task.id) ? "ring-2 ring-amber-400 dark:ring-amber-500" : ""
+											} ${
+												isReadOnly ? "cursor-not-allowed" : "cursor-grab active:cursor-grabbing"
+											}`}
+											style={{ left: geometry.x + 1, width: geometry.width - 2, top: index * ROW_HEIGHT + 6, height: ROW_HEIGHT - 12 }}
+											title={`${bar.task.id}: ${geometry.start} → ${geometry.end}${
+												bar.startInferred || bar.endInferred ? " (inferred)" : ""
+											}${describeSlack(bar.task.id)}`}
+											onMouseDown={(event) => startDrag(event, bar, "move")}
+										>
+											<span className="truncate">{bar.task.title}</span>
+											{!isReadOnly && (
+												<span
+													className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize"
+													onMouseDown={(event) => startDrag(event, bar, "resize")}
+												/>
+											)}
+										</div>
+									);
+								})}
+							</div>
+						</div>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default TimelinePage;
@@ -0,0 +1,157 @@
+import React from 'react';
+import type { BurndownPoint, DailyStatusSnapshot } from '../../core/metrics';
+import { isDoneStatus } from '../../core/milestones';
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+
+const STATUS_COLORS = ['#9ca3af', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+const DONE_COLOR = '#22c55e';
+
+export const getStatusChartColor = (status: string, index: number) =>
+	isDoneStatus(status) ? DONE_COLOR : STATUS_COLORS[index % STATUS_COLORS.length] ?? '#9ca3af';
+
+const formatDay = (day: string) => {
+	const date = new Date(`${day}T00:00:00Z`);
+	return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+const scaleX = (index: number, count: number) => {
+	const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+	return PADDING.left + (count <= 1 ? innerWidth / 2 : (index / (count - 1)) * innerWidth);
+};
+
+const scaleY = (value: number, max: number) => {
+	const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+	return PADDING.top + innerHeight - (max === 0 ? 0 : (value / max) * innerHeight);
+};
+
+const Axes: React.FC<{ dates: string[]; max: number }> = ({ dates, max }) => {
+	const labelIndexes = dates.length <= 1 ? [0] : [0, Math.floor((dates.length - 1) / 2), dates.length - 1];
+	return (
+		<g className="text-gray-400 dark:text-gray-500" fontSize={10} fill="currentColor">
+			<line
+				x1={PADDING.left}
+				x2={CHART_WIDTH - PADDING.right}
+				y1={CHART_HEIGHT - PADDING.bottom}
+				y2={CHART_HEIGHT - PADDING.bottom}
+				stroke="currentColor"
+			/>
+			<text x={PADDING.left - 6} y={scaleY(max, max) + 4} textAnchor="end">{max}</text>
+			<text x={PADDING.left - 6} y={scaleY(0, max) + 4} textAnchor="end">0</text>
+			{labelIndexes.map((index) => (
+				<text key={index} x={scaleX(index, dates.length)} y={CHART_HEIGHT - 8} textAnchor="middle">
+					{dates[index] ? formatDay(dates[index]) : ''}
+				</text>
+			))}
+		</g>
+	);
+};
+
+interface CumulativeFlowChartProps {
+	snapshots: DailyStatusSnapshot[];
+	statuses: string[];
+}
+
+/**
+ * Stacked area chart of task counts per status for each day.
+ */
+export const CumulativeFlowChart: React.FC<CumulativeFlowChartProps> = ({ snapshots, statuses }) => {
+	const dates = snapshots.map((snapshot) => snapshot.date);
+	const max = Math.max(
+		1,
+		...snapshots.map((snapshot) => statuses.reduce((sum, status) => sum + (snapshot.counts[status] ?? 0), 0)),
+	);
+
+	// Stack "done" statuses at the bottom so completed work grows upwards like a classic CFD
+	const stackOrder = [...statuses].sort((a, b) => Number(isDoneStatus(b)) - Number(isDoneStatus(a)));
+	const baselines = snapshots.map(() => 0);
+	const areas = stackOrder.map((status) => {
+		const lower = [...baselines];
+		snapshots.forEach((snapshot, index) => {
+			baselines[index] = (baselines[index] ?? 0) + (snapshot.counts[status] ?? 0);
+		});
+		const upperPoints = baselines.map((value, index) => `${scaleX(index, dates.length)},${scaleY(value, max)}`);
+		const lowerPoints = lower
+			.map((value, index) => `${scaleX(index, dates.length)},${scaleY(value, max)}`)
+			.reverse();
+		return { status, points: [...upperPoints, ...lowerPoints].join(' ') };
+	});
+
+	return (
+		<div>
+			<svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative flow">
+				{areas.map(({ status, points }) => (
+					<polygon
+						key={status}
+						points={points}
+						fill={getStatusChartColor(status, statuses.indexOf(status))}
+						fillOpacity={0.75}
+					>
+						<title>{status}</title>
+					</polygon>
+				))}
+				<Axes dates={dates} max={max} />
+			</svg>
+			<div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+				{statuses.map((status, index) => (
+					<span key={status} className="inline-flex items-center gap-1.5">
+						<span className="h-2 w-2 rounded-full" style={{ backgroundColor: getStatusChartColor(status, index) }} />
+						{status}
+					</span>
+				))}
+			</div>
+		</div>
+	);
+};
+
+interface BurndownChartProps {
+	points: BurndownPoint[];
+}
+
+/**
+ * Remaining open tasks per day, with total scope drawn as a dashed line.
+ */
+export const BurndownChart: React.FC<BurndownChartProps> = ({ points }) => {
+	const dates = points.map((point) => point.date);
+	const max = Math.max(1, ...points.map((point) => point.total));
+	const line = (values: number[]) =>
+		values.map((value, index) => `${scaleX(index, values.length)},${scaleY(value, max)}`).join(' ');
+	const first = points[0];
+	const last = points[points.length - 1];
+
+	return (
+		<div>
+			<svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Burndown">
+				<polyline
+					points={line(points.map((point) => point.total))}
+					fill="none"
+					stroke="#9ca3af"
+					strokeWidth={1.5}
+					strokeDasharray="4 4"
+				/>
+				{first && last && (
+					<line
+						x1={scaleX(0, points.length)}
+						y1={scaleY(first.remaining, max)}
+						x2={scaleX(points.length - 1, points.length)}
+						y2={scaleY(0, max)}
+						stroke="#d1d5db"
+						strokeWidth={1}
+					/>
+				)}
+				<polyline points={line(points.map((point) => point.remaining))} fill="none" stroke="#3b82f6" strokeWidth={2} />
+				<Axes dates={dates} max={max} />
+			</svg>
+			{last && (
+				<div className="mt-2 flex justify-between text-xs text-gray-600 dark:text-gray-400">
+					<span>{last.remaining} remaining</span>
+					<span>
+						{last.completed} of {last.total} done
+					</span>
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface UndoToastProps {
+	operation: string;
+	onUndo: () => void;
+	onDismiss: () => void;
+	isUndoing?: boolean;
+	/** Shown instead of the Undo button when undoing failed */
+	error?: string;
+}
+
+export function UndoToast({ operation, onUndo, onDismiss, isUndoing = false, error }: UndoToastProps) {
+	return (
+		<div className="fixed bottom-4 right-4 bg-gray-800 dark:bg-gray-700 text-white px-5 py-3 rounded-lg shadow-xl flex items-center gap-4 animate-slide-in-right z-50 border border-gray-700 dark:border-gray-600 transition-colors duration-200">
+			<span className="font-medium">{operation}</span>
+			{error ? (
+				<span className="text-red-300 text-sm">{error}</span>
+			) : (
+				<button
+					onClick={onUndo}
+					disabled={isUndoing}
+					className="text-blue-300 hover:text-blue-200 font-semibold uppercase text-sm disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-400 rounded px-1"
+				>
+					{isUndoing ? 'Undoing…' : 'Undo'}
+				</button>
+			)}
+			<button
+				onClick={onDismiss}
+				className="text-gray-400 hover:text-white transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-400 rounded p-1"
+				aria-label="Dismiss"
+			>
+				<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+					<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+				</svg>
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { type Milestone, type Task } from "../../types";
+import { formatViewCell, VIEW_COLUMNS, type ViewResult } from "../../core/views";
+import { apiClient } from "../lib/api";
+
+interface ViewPageProps {
+	tasks: Task[];
+	milestoneEntities: Milestone[];
+	onEditTask: (task: Task) => void;
+}
+
+const ViewPage: React.FC<ViewPageProps> = ({ tasks, milestoneEntities, onEditTask }) => {
+	const { name = "" } = useParams<{ name: string }>();
+	const [result, setResult] = useState<ViewResult | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	// Re-run the view whenever tasks change so edits show up without a reload
+	useEffect(() => {
+		let cancelled = false;
+		apiClient
+			.fetchView(name)
+			.then((data) => {
+				if (cancelled) return;
+				setResult(data);
+				setError(null);
+			})
+			.catch((err) => {
+				if (cancelled) return;
+				setResult(null);
+				setError(err instanceof Error ? err.message : "Failed to load view");
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [name, tasks]);
+
+	if (error) {
+		return (
+			<div className="container mx-auto px-4 py-8">
+				<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">{name}</h1>
+				<p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+			</div>
+		);
+	}
+
+	if (!result) {
+		return <div className="container mx-auto px-4 py-8 text-sm text-gray-500 dark:text-gray-400">Loading view...</div>;
+	}
+
+	const { view, columns, groups, total } = result;
+	const showGroupHeadings = view.groupBy !== undefined && view.groupBy !== "none";
+
+	return (
+		<div className="container mx-auto px-4 py-8 transition-colors duration-200">
+			<div className="mb-6">
+				<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+					{view.name} <span className="text-base font-normal text-gray-500 dark:text-gray-400">({total})</span>
+				</h1>
+				{view.description && <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{view.description}</p>}
+				{view.query && (
+					<code className="inline-block mt-2 px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+						{view.query}
+					</code>
+				)}
+			</div>
+
+			{total === 0 ? (
+				<p className="text-sm text-gray-500 dark:text-gray-400">No tasks match this view.</p>
+			) : (
+				<div className="space-y-8">
+					{groups.map((group) => (
+						<section key={group.key}>
+							{showGroupHeadings && (
+								<h2 className="text-sm font-semibold uppercase tracking-wider text-gray-600 dark:text-gray-400 mb-2">
+									{group.label} ({group.tasks.length})
+								</h2>
+							)}
+							<div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+								<table className="min-w-full text-sm">
+									<thead className="bg-gray-50 dark:bg-gray-800">
+										<tr>
+											{columns.map((column) => (
+												<th
+													key={column}
+													className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-300 whitespace-nowrap"
+												>
+													{VIEW_COLUMNS[column]}
+												</th>
+											))}
+										</tr>
+									</thead>
+									<tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+										{group.tasks.map((task) => (
+											<tr
+												key={task.id}
+												onClick={() => onEditTask(task)}
+												className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/60 text-gray-800 dark:text-gray-200"
+											>
+												{columns.map((column) => (
+													<td
+														key={column}
+														className={`px-4 py-2 ${column === "title" ? "" : "whitespace-nowrap text-gray-600 dark:text-gray-400"}`}
+													>
+														{formatViewCell(task, column, milestoneEntities)}
+													</td>
+												))}
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+						</section>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ViewPage;
@@ -1,13 +1,21 @@
+import type { CriticalPathReport } from "../../core/critical-path.ts";
+import type { JournalEntrySummary } from "../../core/journal.ts";
+import type { TaskMetrics } from "../../core/metrics.ts";
+import type { RestoreTaskResult } from "../../core/restore.ts";
 import type { TaskStatistics } from "../../core/statistics.ts";
+import type { ViewResult } from "../../core/views.ts";
 import type {
 	BacklogConfig,
 	Decision,
 	Document,
 	Milestone,
+	SavedView,
 	SearchPriorityFilter,
 	SearchResult,
 	SearchResultType,
 	Task,
+	TaskRelation,
+	TaskRelationType,
 	TaskStatus,
 } from "../../types/index.ts";
 
@@ -20,6 +28,9 @@ export interface ReorderTaskPayload {
 	targetMilestone?: string | null;
 }
 
+/** A created or updated task, with warnings about the change such as an exceeded WIP limit */
+export type TaskWithWarnings = Task & { warnings?: string[] };
+
 // Enhanced error types for better error handling
 export class ApiError extends Error {
 	constructor(
@@ -33,7 +44,12 @@ export class ApiError extends Error {
 	}
 
 	static fromResponse(response: Response, data?: unknown): ApiError {
-		const message = `HTTP ${response.status}: ${response.statusText}`;
+		// Prefer the server's own error message (e.g. a rejected status transition)
+		const serverMessage =
+			data && typeof data === "object" && typeof (data as { error?: unknown }).error === "string"
+				? (data as { error: string }).error
+				: null;
+		const message = serverMessage ?? `HTTP ${response.status}: ${response.statusText}`;
 		return new ApiError(message, response.status, response.statusText, data);
 	}
 }
@@ -156,6 +172,8 @@ export class ApiClient {
 	async search(
 		options: {
 			query?: string;
+			/** Filter query such as `label:bug -assignee:@me` */
+			filter?: string;
 			types?: SearchResultType[];
 			status?: string | string[];
 			priority?: SearchPriorityFilter | SearchPriorityFilter[];
@@ -167,6 +185,9 @@ export class ApiClient {
 		if (options.query) {
 			params.set("query", options.query);
 		}
+		if (options.filter) {
+			params.set("filter", options.filter);
+		}
 		if (options.types && options.types.length > 0) {
 			for (const type of options.types) {
 				params.append("type", type);
@@ -203,22 +224,55 @@ export class ApiClient {
 		return this.fetchJson<Task>(`${API_BASE}/task/${id}`);
 	}
 
-	async createTask(task: Omit<Task, "id" | "createdDate">): Promise<Task> {
-		return this.fetchJson<Task>(`${API_BASE}/tasks`, {
+	async createTask(task: Omit<Task, "id" | "createdDate">): Promise<TaskWithWarnings> {
+		return this.fetchJson<TaskWithWarnings>(`${API_BASE}/tasks`, {
 			method: "POST",
 			body: JSON.stringify(task),
 		});
 	}
 
-	async updateTask(id: string, updates: Partial<Task>): Promise<Task> {
-		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}`, {
+	async updateTask(id: string, updates: Partial<Task>): Promise<TaskWithWarnings> {
+		return this.fetchJson<TaskWithWarnings>(`${API_BASE}/tasks/${id}`, {
 			method: "PUT",
 			body: JSON.stringify(updates),
 		});
 	}
 
-	async reorderTask(payload: ReorderTaskPayload): Promise<{ success: boolean; task: Task }> {
-		return this.fetchJson<{ success: boolean; task: Task }>(`${API_BASE}/tasks/reorder`, {
+	async fetchTaskRelations(id: string): Promise<TaskRelation[]> {
+		return this.fetchJson<TaskRelation[]>(`${API_BASE}/tasks/${id}/relations`);
+	}
+
+	async updateTaskRelations(
+		id: string,
+		changes: { addRelations?: Partial<Record<TaskRelationType, string[]>>; removeRelations?: string[] },
+	): Promise<Task> {
+		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}`, {
+			method: "PUT",
+			body: JSON.stringify(changes),
+		});
+	}
+
+	async addTaskComment(id: string, body: string, replyTo?: number): Promise<Task> {
+		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}/comments`, {
+			method: "POST",
+			body: JSON.stringify({ body, replyTo }),
+		});
+	}
+
+	async uploadAttachment(id: string, file: File): Promise<{ task: Task; path: string }> {
+		const form = new FormData();
+		form.append("file", file);
+		// Not through fetchWithRetry: the browser must set the multipart Content-Type itself
+		const response = await fetch(`${API_BASE}/tasks/${id}/attachments`, { method: "POST", body: form });
+		if (!response.ok) {
+			const data = await response.json().catch(() => ({}));
+			throw new Error(data.error || "Failed to upload attachment");
+		}
+		return response.json();
+	}
+
+	async reorderTask(payload: ReorderTaskPayload): Promise<{ success: boolean; task: Task; warnings?: string[] }> {
+		return this.fetchJson<{ success: boolean; task: Task; warnings?: string[] }>(`${API_BASE}/tasks/reorder`, {
 			method: "POST",
 			body: JSON.stringify(payload),
 		});
@@ -236,6 +290,17 @@ export class ApiClient {
 		});
 	}
 
+	async fetchArchive(): Promise<{ archived: Task[]; completed: Task[] }> {
+		return this.fetchJson<{ archived: Task[]; completed: Task[] }>(`${API_BASE}/archive`);
+	}
+
+	async restoreTask(id: string, status?: string): Promise<RestoreTaskResult> {
+		return this.fetchJson<RestoreTaskResult>(`${API_BASE}/tasks/${id}/restore`, {
+			method: "POST",
+			body: JSON.stringify(status ? { status } : {}),
+		});
+	}
+
 	async getCleanupPreview(age: number): Promise<{
 		count: number;
 		tasks: Array<{ id: string; title: string; updatedDate?: string; createdDate: string }>;
@@ -261,7 +326,7 @@ export class ApiClient {
 		});
 	}
 
-	async updateTaskStatus(id: string, status: TaskStatus): Promise<Task> {
+	async updateTaskStatus(id: string, status: TaskStatus): Promise<TaskWithWarnings> {
 		return this.updateTask(id, { status });
 	}
 
@@ -433,6 +498,31 @@ export class ApiClient {
 		return response.json();
 	}
 
+	async fetchViews(): Promise<SavedView[]> {
+		return this.fetchJson<SavedView[]>(`${API_BASE}/views`);
+	}
+
+	async fetchView(name: string): Promise<ViewResult> {
+		return this.fetchJson<ViewResult>(`${API_BASE}/views/${encodeURIComponent(name)}`);
+	}
+
+	async fetchJournal(): Promise<{ undo: JournalEntrySummary[]; redo: JournalEntrySummary[] }> {
+		return this.fetchJson<{ undo: JournalEntrySummary[]; redo: JournalEntrySummary[] }>(`${API_BASE}/journal`);
+	}
+
+	/** Undo the operation with this journal id; fails with 409 if it is no longer the latest */
+	async undo(id: string): Promise<JournalEntrySummary[]> {
+		return this.fetchJson<JournalEntrySummary[]>(`${API_BASE}/journal/undo`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ id }),
+		});
+	}
+
+	async redo(): Promise<JournalEntrySummary[]> {
+		return this.fetchJson<JournalEntrySummary[]>(`${API_BASE}/journal/redo`, { method: "POST" });
+	}
+
 	async fetchStatistics(): Promise<
 		TaskStatistics & { statusCounts: Record<string, number>; priorityCounts: Record<string, number> }
 	> {
@@ -441,6 +531,18 @@ export class ApiClient {
 		>(`${API_BASE}/statistics`);
 	}
 
+	async fetchCriticalPath(): Promise<CriticalPathReport> {
+		return this.fetchJson<CriticalPathReport>(`${API_BASE}/sequences/critical-path`);
+	}
+
+	async fetchMetrics(options: { days?: number; milestone?: string } = {}): Promise<TaskMetrics> {
+		const params = new URLSearchParams();
+		if (options.days) params.set("days", String(options.days));
+		if (options.milestone) params.set("milestone", options.milestone);
+		const query = params.toString();
+		return this.fetchJson<TaskMetrics>(`${API_BASE}/metrics${query ? `?${query}` : ""}`);
+	}
+
 	async checkStatus(): Promise<{ initialized: boolean; projectPath: string }> {
 		return this.fetchJson<{ initialized: boolean; projectPath: string }>(`${API_BASE}/status`);
 	}